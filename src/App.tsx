@@ -6,7 +6,12 @@ import { Suspense, lazy, useEffect, type FC } from "react";
 import { Routes, Route, useLocation } from "react-router-dom";
 import { Toaster } from "react-hot-toast";
 import { motion } from "framer-motion";
+import { AuthProvider } from "./context/AuthContext";
 import { CartProvider } from "./context/CartContext";
+import { WishlistProvider } from "./context/WishlistContext";
+import { RefillProvider } from "./context/RefillContext";
+import { AddressBookProvider } from "./context/AddressBookContext";
+import { AlertsProvider } from "./context/AlertsContext";
 import appStyles from "./App.module.css";
 
 
@@ -41,6 +46,9 @@ import BeautyProducts from "./pages/BeautyProducts";
 import ProductCarousel from "./pages/ProductCarousel";
 import OffersWrapper from "./pages/OffersWrapper";
 import BottomNav from "./components/footer/BottomNav";
+import CartDrawer from "./components/CartDrawer";
+import MiniCart from "./components/MiniCart";
+import RefillReminderBanner from "./components/RefillReminderBanner";
 import Offers1 from "./pages/Offers1";
 import Offers2 from "./pages/Hygiene";
 import Cart from "./components/Cart";
@@ -57,7 +65,6 @@ import CNS from "./categories/Nervous";
 import MSK from "./categories/Musculosketal";
 import SkinCare1 from "./pages/Derma";
 import Header from "./components/header/Header";
-import Order from "./outer/Order";
 import HTN from "./conditions/Hypertension";
 import CoughFluCold from "./conditions/CoughFluCold";
 import UTI from "./conditions/Uti";
@@ -66,6 +73,7 @@ import OralCare from "./conditions/Oral";
 import SkinDrugs from "./conditions/SkinInfection";
 import Prescription from "./dropdowns/Prescription";
 import PromoBanners from "./promo/PromoBanners";
+import FlashSale from "./promo/FlashSale";
 import WellnessBanner from "./promo/WellnessBanner";
 import BlogSection from "./blog/BlogSection";
 
@@ -79,6 +87,20 @@ const OurTeam = lazy(() => import("./outer/OurTeam"));
 const OurMissionVision = lazy(() => import("./outer/OurMissionVision"));
 const ContactUs = lazy(() => import("./outer/ContactUs"));
 const Offers = lazy(() => import("./pages/Offers"));
+const ProductDetail = lazy(() => import("./pages/ProductDetail"));
+const SearchResults = lazy(() => import("./pages/SearchResults"));
+const Checkout = lazy(() => import("./pages/Checkout"));
+const AttachPrescription = lazy(() => import("./pages/AttachPrescription"));
+const PrescriptionStatus = lazy(() => import("./pages/PrescriptionStatus"));
+const RepeatMedicines = lazy(() => import("./pages/RepeatMedicines"));
+const Login = lazy(() => import("./pages/Login"));
+const Register = lazy(() => import("./pages/Register"));
+const ForgotPassword = lazy(() => import("./pages/ForgotPassword"));
+const Account = lazy(() => import("./pages/Account"));
+const OrderHistory = lazy(() => import("./pages/OrderHistory"));
+const OrderDetail = lazy(() => import("./pages/OrderDetail"));
+const OrderStatus = lazy(() => import("./pages/OrderStatus"));
+const Alerts = lazy(() => import("./pages/Alerts"));
 
 // ===============================================================
 // 🧭 Scroll Restoration Hook (UX Enhancement)
@@ -96,7 +118,12 @@ const ScrollToTop: FC = () => {
 // ===============================================================
 const App: FC = () => (
 <ThemeProvider>
+  <AuthProvider>
   <CartProvider>
+  <WishlistProvider>
+  <RefillProvider>
+  <AddressBookProvider>
+  <AlertsProvider>
     <ScrollToTop />
 
 
@@ -134,7 +161,8 @@ const App: FC = () => (
     paddingTop: "var(--header-height, 120px)",
   }}
 >
-
+      {/* === Repeat medicines running low === */}
+      <RefillReminderBanner />
 
       <Suspense
         fallback={
@@ -159,17 +187,18 @@ const App: FC = () => (
             element={
               <>
                 <Hero />
+                <FlashSale />
                 <Offers1/> 
                 <PromoBanners/> 
-                <Shop/>
+                <Shop embedded />
                 <WellnessBanner/>
                 <Offers />  
-                <ProductCarousel/>
+                <ProductCarousel embedded />
                 <BestSellers /> 
-                <SkinDrugs/>                         
+                <SkinDrugs embedded />
                 <Offers1/>           
                 <ShopByCategory />
-                <BeautyProducts />
+                <BeautyProducts embedded />
                 <BlogSection/>
 
               </>
@@ -181,6 +210,8 @@ const App: FC = () => (
           <Route path="/products/otc" element={<OTC />} />
           <Route path="/products/supplements" element={<Vitamins />} />
           <Route path="/products/equipment" element={<Equipment />} />
+          <Route path="/product/:slug" element={<ProductDetail />} />
+          <Route path="/search" element={<SearchResults />} />
 
 
           {/* === CATEGORIES Routes === */}
@@ -222,7 +253,11 @@ const App: FC = () => (
 
           {/* === Prescription Workflow === */}
           <Route path="/prescription/upload" element={<PrescriptionUpload />} />
+          <Route path="/prescription/attach" element={<AttachPrescription />} />
           <Route path="/prescription/refill" element={<RequestPrescription />} />
+          <Route path="/prescription/status" element={<PrescriptionStatus />} />
+          <Route path="/prescription/status/:ref" element={<PrescriptionStatus />} />
+          <Route path="/prescription/repeat" element={<RepeatMedicines />} />
           <Route path="/prescription" element={<Prescription />} />
 
           {/* === About Section === */}
@@ -246,9 +281,19 @@ const App: FC = () => (
           {/* === Cart Page === */}
           <Route path="/cart" element={<Cart/>} />  
           <Route path="/wishlist" element={<Wishlist/>} />
+          <Route path="/alerts" element={<Alerts />} />
           
           {/* === Checkout= */}
-          <Route path="/checkout" element={<Order/>} />  
+          <Route path="/checkout" element={<Checkout />} />  
+
+          {/* === Account === */}
+          <Route path="/login" element={<Login />} />
+          <Route path="/register" element={<Register />} />
+          <Route path="/forgot-password" element={<ForgotPassword />} />
+          <Route path="/account" element={<Account />} />
+          <Route path="/account/orders" element={<OrderHistory />} />
+          <Route path="/account/orders/:orderNumber" element={<OrderDetail />} />
+          <Route path="/order/status/:orderNumber" element={<OrderStatus />} />
           
 
 
@@ -294,7 +339,16 @@ const App: FC = () => (
       <Footer />
     </footer>
       <BottomNav/>
+
+    {/* === Global Cart Drawer & Added-to-Cart Preview === */}
+    <CartDrawer />
+    <MiniCart />
+  </AlertsProvider>
+  </AddressBookProvider>
+  </RefillProvider>
+  </WishlistProvider>
   </CartProvider>
+  </AuthProvider>
 </ThemeProvider>
 
 
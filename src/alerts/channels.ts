@@ -0,0 +1,99 @@
+// src/alerts/channels.ts
+
+import { AlertError, type AlertChannel, type AlertChannelId, type AlertMessage } from "./types";
+
+export const CHANNEL_LABELS: Record<AlertChannelId, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+/* ---------------------------------------------------------------
+   Console transport — logs instead of sending, so alerts can be
+   followed in development without an SMS or email provider
+--------------------------------------------------------------- */
+export const createConsoleChannel = (id: AlertChannelId): AlertChannel => ({
+  id,
+  name: `${CHANNEL_LABELS[id]} (console)`,
+  send: async ({ to, subject, body }) => {
+    console.info(`[alerts:${id}] → ${to}\n${subject}\n${body}`);
+  },
+});
+
+/* ---------------------------------------------------------------
+   Mock transport — keeps what it was asked to send, and can be
+   told to fail, for exercising delivery failures
+--------------------------------------------------------------- */
+export interface MockChannel extends AlertChannel {
+  readonly outbox: AlertMessage[];
+}
+
+export const createMockChannel = (id: AlertChannelId, { fail = false }: { fail?: boolean } = {}): MockChannel => {
+  const outbox: AlertMessage[] = [];
+  return {
+    id,
+    name: `${CHANNEL_LABELS[id]} (mock)`,
+    outbox,
+    send: async (message) => {
+      if (fail) throw new AlertError(`${CHANNEL_LABELS[id]} is unavailable.`, "unavailable");
+      outbox.push(message);
+    },
+  };
+};
+
+/* ---------------------------------------------------------------
+   Backend transport
+
+     POST {baseUrl}/alerts/:channel   { to, subject, body } → 2xx
+--------------------------------------------------------------- */
+export interface HttpChannelConfig {
+  id: AlertChannelId;
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export const createHttpChannel = ({
+  id,
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: HttpChannelConfig): AlertChannel => ({
+  id,
+  name: CHANNEL_LABELS[id],
+  send: async (message) => {
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl.replace(/\/+$/, "")}/alerts/${id}`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+      });
+    } catch {
+      throw new AlertError("Couldn't reach the alerts service.", "network");
+    }
+    if (!res.ok) throw new AlertError(`Alerts service error (${res.status}).`, res.status >= 500 ? "server" : "rejected");
+  },
+});
+
+/* ---------------------------------------------------------------
+   Registry — the backend when one is configured, otherwise the
+   console transport for every channel.
+
+     VITE_ALERTS_API_URL   backend root for /alerts/:channel
+--------------------------------------------------------------- */
+const channels = new Map<AlertChannelId, AlertChannel>();
+
+export const getAlertChannel = (id: AlertChannelId): AlertChannel => {
+  let channel = channels.get(id);
+  if (!channel) {
+    const baseUrl = import.meta.env.VITE_ALERTS_API_URL as string | undefined;
+    channel = baseUrl ? createHttpChannel({ id, baseUrl }) : createConsoleChannel(id);
+    channels.set(id, channel);
+  }
+  return channel;
+};
+
+/** Swap the transport for one channel, e.g. a mock that keeps its outbox. */
+export const setAlertChannel = (channel: AlertChannel): void => {
+  channels.set(channel.id, channel);
+};
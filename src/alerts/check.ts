@@ -0,0 +1,102 @@
+// src/alerts/check.ts
+
+import { getAllProducts, type Product } from "../catalog";
+import { formatPrice } from "../config";
+import { isSoldOut } from "../inventory";
+import { getFlashOffer } from "../promotions";
+import { getAlertChannel } from "./channels";
+import {
+  createAlertId,
+  isOwnedBy,
+  readNotifications,
+  readSubscriptions,
+  writeNotifications,
+  writeSubscriptions,
+} from "./store";
+import type { AlertNotification, AlertSubscription } from "./types";
+
+/** What the subscriber would pay right now: a flash sale they can still buy into beats the catalog price. */
+const getPayablePrice = (product: Product, subscription: AlertSubscription, now: Date) => {
+  const flash = getFlashOffer(product.id, { now, accountId: subscription.accountId });
+  const onSale = !!flash && flash.available > 0 && flash.price < product.price;
+  return { price: onSale ? flash.price : product.price, onSale };
+};
+
+const isDue = (subscription: AlertSubscription, product: Product, now: Date): boolean => {
+  if (subscription.kind === "back-in-stock") return !isSoldOut(product);
+  const { price } = getPayablePrice(product, subscription, now);
+  return price > 0 && price <= (subscription.targetPrice ?? 0);
+};
+
+const describe = (subscription: AlertSubscription, product: Product, now: Date) => {
+  const { price, onSale } = getPayablePrice(product, subscription, now);
+  return subscription.kind === "back-in-stock"
+    ? {
+        title: `${product.name} is back in stock`,
+        body: price > 0 ? `Order it now for ${formatPrice(price)}.` : "Order it now while it lasts.",
+      }
+    : {
+        title: `${product.name} is down to ${formatPrice(price)}`,
+        body:
+          `That's at or below the ${formatPrice(subscription.targetPrice ?? 0)} you were waiting for` +
+          (onSale ? " — a flash-sale price, while it lasts." : "."),
+      };
+};
+
+/**
+ * Runs every subscription against the catalog as it stands, flash sales
+ * included — pass the updated products when a new catalog comes in. Alerts that fire are
+ * used up: each raises an in-app notification and is sent through its
+ * channel; a failed send is marked on the notification, not retried.
+ */
+export const checkAlerts = async (
+  products: readonly Product[] = getAllProducts(),
+  now: Date = new Date(),
+): Promise<AlertNotification[]> => {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const subscriptions = readSubscriptions();
+  const due = subscriptions.filter((s) => {
+    const product = byId.get(s.productId);
+    return !!product && isDue(s, product, now);
+  });
+  if (due.length === 0) return [];
+
+  // Used up before sending, so a second check running meanwhile can't send twice
+  writeSubscriptions(subscriptions.filter((s) => !due.includes(s)));
+
+  const raised: AlertNotification[] = [];
+  for (const subscription of due) {
+    const product = byId.get(subscription.productId) as Product;
+    const { title, body } = describe(subscription, product, now);
+    const notification: AlertNotification = {
+      id: createAlertId("note"),
+      kind: subscription.kind,
+      productId: product.id,
+      ...(subscription.accountId && { accountId: subscription.accountId }),
+      title,
+      body,
+      createdAt: new Date().toISOString(),
+      read: false,
+    };
+    try {
+      await getAlertChannel(subscription.contact.channel).send({ to: subscription.contact.address, subject: title, body });
+    } catch (err) {
+      console.warn("Alerts: couldn't send", err);
+      notification.deliveryFailed = true;
+    }
+    raised.push(notification);
+  }
+
+  writeNotifications([...raised.reverse(), ...readNotifications()]);
+  return raised;
+};
+
+/* ---------------------------------------------------------------
+   In-app notifications, newest first
+--------------------------------------------------------------- */
+export const listNotifications = (accountId?: string): AlertNotification[] =>
+  readNotifications().filter((n) => isOwnedBy(n, accountId));
+
+export const markNotificationsRead = (accountId?: string): void => {
+  writeNotifications(readNotifications().map((n) => (isOwnedBy(n, accountId) ? { ...n, read: true } : n)));
+};
@@ -0,0 +1,26 @@
+// src/alerts/index.ts — back-in-stock and price-drop alerts, notifications and delivery channels
+
+export type {
+  AlertChannel,
+  AlertChannelId,
+  AlertContact,
+  AlertInput,
+  AlertKind,
+  AlertMessage,
+  AlertNotification,
+  AlertSubscription,
+} from "./types";
+export type { HttpChannelConfig, MockChannel } from "./channels";
+
+export { AlertError } from "./types";
+export {
+  CHANNEL_LABELS,
+  createConsoleChannel,
+  createHttpChannel,
+  createMockChannel,
+  getAlertChannel,
+  setAlertChannel,
+} from "./channels";
+export { checkAlerts, listNotifications, markNotificationsRead } from "./check";
+export { NOTIFICATIONS_KEY, SUBSCRIPTIONS_KEY } from "./store";
+export { findSubscription, listSubscriptions, subscribe, unsubscribe } from "./subscriptions";
@@ -0,0 +1,94 @@
+// src/alerts/store.ts
+
+import type { AlertNotification, AlertSubscription } from "./types";
+
+/* ---------------------------------------------------------------
+   Local store — subscriptions and the notifications they raised,
+   for every account on this device, until the pharmacy backend
+   keeps them. Readers filter by account.
+--------------------------------------------------------------- */
+export const SUBSCRIPTIONS_KEY = "alert_subscriptions_v1"; // bump version if shape changes
+export const NOTIFICATIONS_KEY = "alert_notifications_v1";
+
+/** Oldest notifications drop off past this many. */
+const MAX_NOTIFICATIONS = 50;
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const raw = defaultStorage()?.getItem(key);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, list: T[]): void => {
+  try {
+    defaultStorage()?.setItem(key, JSON.stringify(list));
+  } catch (err) {
+    console.warn(`Alerts: couldn't save ${key}`, err);
+  }
+};
+
+/* ---------------------------------------------------------------
+   Back-in-stock requests from before alerts — "text me when it's
+   back" by phone, under their own key. They carry over as SMS
+   alerts the first time subscriptions are read, then the old key
+   goes; a product already alerted for keeps the newer alert.
+--------------------------------------------------------------- */
+const LEGACY_RESTOCK_KEY = "inventory_restock_requests_v1";
+
+interface LegacyRestockRequest {
+  productId: string;
+  /** 2547XXXXXXXX */
+  phone: string;
+  accountId?: string;
+  requestedAt: string;
+}
+
+const migrateRestockRequests = (list: AlertSubscription[]): AlertSubscription[] => {
+  const storage = defaultStorage();
+  if (!storage?.getItem(LEGACY_RESTOCK_KEY)) return list;
+
+  const migrated = [...list];
+  for (const request of readList<LegacyRestockRequest>(LEGACY_RESTOCK_KEY)) {
+    const taken = migrated.some(
+      (s) => s.kind === "back-in-stock" && s.productId === request.productId && isOwnedBy(s, request.accountId),
+    );
+    if (taken || !request.productId || !request.phone) continue;
+    migrated.push({
+      id: createAlertId("alert"),
+      kind: "back-in-stock",
+      productId: request.productId,
+      contact: { channel: "sms", address: request.phone },
+      ...(request.accountId && { accountId: request.accountId }),
+      createdAt: request.requestedAt,
+    });
+  }
+
+  writeList(SUBSCRIPTIONS_KEY, migrated);
+  try {
+    storage.removeItem(LEGACY_RESTOCK_KEY);
+  } catch (err) {
+    console.warn("Alerts: couldn't clear old back-in-stock requests", err);
+  }
+  return migrated;
+};
+
+export const readSubscriptions = (): AlertSubscription[] =>
+  migrateRestockRequests(readList<AlertSubscription>(SUBSCRIPTIONS_KEY));
+export const writeSubscriptions = (list: AlertSubscription[]): void => writeList(SUBSCRIPTIONS_KEY, list);
+
+export const readNotifications = (): AlertNotification[] => readList<AlertNotification>(NOTIFICATIONS_KEY);
+export const writeNotifications = (list: AlertNotification[]): void =>
+  writeList(NOTIFICATIONS_KEY, list.slice(0, MAX_NOTIFICATIONS));
+
+/** Guests see what was set up on this device while signed out. */
+export const isOwnedBy = (entry: { accountId?: string }, accountId?: string): boolean =>
+  (entry.accountId ?? null) === (accountId ?? null);
+
+let counter = 0;
+export const createAlertId = (prefix: string): string => `${prefix}_${Date.now().toString(36)}${++counter}`;
@@ -0,0 +1,65 @@
+// src/alerts/subscriptions.ts
+
+import { isValidEmail } from "../auth/validation";
+import { getProductById } from "../catalog";
+import { formatPrice } from "../config";
+import { isValidPhone, normalizePhone } from "../checkout/validation";
+import { isSoldOut } from "../inventory";
+import { createAlertId, isOwnedBy, readSubscriptions, writeSubscriptions } from "./store";
+import { AlertError, type AlertContact, type AlertInput, type AlertKind, type AlertSubscription } from "./types";
+
+/** Phone numbers in 2547XXXXXXXX form, emails trimmed and lower-cased. */
+const normalizeContact = ({ channel, address }: AlertContact): AlertContact => {
+  if (channel === "email") {
+    if (!isValidEmail(address)) throw new AlertError("Enter a valid email address.", "invalid_email");
+    return { channel, address: address.trim().toLowerCase() };
+  }
+  if (!isValidPhone(address)) throw new AlertError("Enter a valid Kenyan mobile number.", "invalid_phone");
+  return { channel, address: normalizePhone(address) };
+};
+
+export const listSubscriptions = (accountId?: string): AlertSubscription[] =>
+  readSubscriptions().filter((s) => isOwnedBy(s, accountId));
+
+export const findSubscription = (kind: AlertKind, productId: string, accountId?: string) =>
+  listSubscriptions(accountId).find((s) => s.kind === kind && s.productId === productId);
+
+/**
+ * Saves an alert. One per product and kind for each customer: setting
+ * it again moves the target price or contact instead of adding another.
+ * Throws AlertError when it could never fire or can't be delivered.
+ */
+export const subscribe = (input: AlertInput): AlertSubscription => {
+  const product = getProductById(input.productId);
+  if (!product) throw new AlertError("We couldn't find that product.", "unknown_product");
+
+  if (input.kind === "back-in-stock" && !isSoldOut(product)) {
+    throw new AlertError(`${product.name} is in stock — you can order it now.`, "in_stock");
+  }
+  if (input.kind === "price-drop") {
+    const target = input.targetPrice ?? 0;
+    if (!Number.isFinite(target) || target <= 0) throw new AlertError("Enter the price you'd like to pay.", "invalid_price");
+    if (target >= product.price) {
+      throw new AlertError(`Pick a price below today's ${formatPrice(product.price)}.`, "price_not_lower");
+    }
+  }
+
+  const contact = normalizeContact(input.contact);
+  const existing = findSubscription(input.kind, input.productId, input.accountId);
+  const subscription: AlertSubscription = {
+    id: existing?.id ?? createAlertId("alert"),
+    kind: input.kind,
+    productId: input.productId,
+    contact,
+    ...(input.accountId && { accountId: input.accountId }),
+    ...(input.kind === "price-drop" && { targetPrice: Math.round(input.targetPrice ?? 0) }),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+
+  writeSubscriptions([...readSubscriptions().filter((s) => s.id !== subscription.id), subscription]);
+  return subscription;
+};
+
+export const unsubscribe = (id: string): void => {
+  writeSubscriptions(readSubscriptions().filter((s) => s.id !== id));
+};
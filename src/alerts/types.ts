@@ -0,0 +1,70 @@
+// src/alerts/types.ts
+
+/* ---------------------------------------------------------------
+   Subscriptions
+--------------------------------------------------------------- */
+export type AlertKind = "back-in-stock" | "price-drop";
+
+export type AlertChannelId = "sms" | "whatsapp" | "email";
+
+export interface AlertContact {
+  channel: AlertChannelId;
+  /** 2547XXXXXXXX for SMS and WhatsApp, an email address for email */
+  address: string;
+}
+
+export interface AlertSubscription {
+  id: string;
+  kind: AlertKind;
+  productId: string;
+  contact: AlertContact;
+  accountId?: string;
+  /** Price drops only: alert once the price is at or below this, in KES */
+  targetPrice?: number;
+  createdAt: string;
+}
+
+export type AlertInput = Pick<AlertSubscription, "kind" | "productId" | "contact" | "accountId" | "targetPrice">;
+
+/* ---------------------------------------------------------------
+   Notifications — shown in the app, and sent through the channel
+   the customer chose; a subscription is used up once it fires
+--------------------------------------------------------------- */
+export interface AlertNotification {
+  id: string;
+  kind: AlertKind;
+  productId: string;
+  accountId?: string;
+  title: string;
+  body: string;
+  createdAt: string;
+  read: boolean;
+  /** The text or email didn't go out; the in-app notice still stands */
+  deliveryFailed?: boolean;
+}
+
+/* ---------------------------------------------------------------
+   Channel contract
+--------------------------------------------------------------- */
+export interface AlertMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface AlertChannel {
+  readonly id: AlertChannelId;
+  readonly name: string;
+  /** Rejects with AlertError if the message couldn't be handed over. */
+  send(message: AlertMessage): Promise<void>;
+}
+
+export class AlertError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "alert_error") {
+    super(message);
+    this.name = "AlertError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,124 @@
+// src/auth/http.ts
+
+import { normalizePhone } from "../checkout/validation";
+import {
+  AuthError,
+  type AuthAdapter,
+  type OtpChallenge,
+  type PasswordLogin,
+  type ProfileUpdate,
+  type RegisterInput,
+  type Session,
+  type User,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Backend adapter — JSON throughout
+
+     POST  {baseUrl}/auth/register          RegisterInput     → Session
+     POST  {baseUrl}/auth/login             { identifier, password } → Session
+     POST  {baseUrl}/auth/otp               { phone }         → OtpChallenge
+     POST  {baseUrl}/auth/otp/verify        { challengeId, code } → Session
+     POST  {baseUrl}/auth/password/forgot   { identifier }    → OtpChallenge
+     POST  {baseUrl}/auth/password/reset    { challengeId, code, password } → Session
+     GET   {baseUrl}/auth/me                → User
+     PATCH {baseUrl}/auth/me                ProfileUpdate     → User
+     POST  {baseUrl}/auth/logout            → 204
+
+   Signed-in calls send "Authorization: Bearer <token>"; a 401
+   means the session has ended. Errors answer { message?, code? }.
+--------------------------------------------------------------- */
+export interface HttpAuthConfig {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+interface ErrorBody {
+  message?: string;
+  code?: string;
+}
+
+const parse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const NETWORK_ERROR = "Couldn't reach the pharmacy. Check your connection.";
+
+export const createHttpAuthAdapter = ({
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: HttpAuthConfig): AuthAdapter => {
+  const root = `${baseUrl.replace(/\/+$/, "")}/auth`;
+
+  const request = async <T>(path: string, init: { method?: string; body?: unknown; token?: string } = {}) => {
+    let res: Response;
+    try {
+      res = await fetchImpl(`${root}${path}`, {
+        method: init.method ?? (init.body === undefined ? "GET" : "POST"),
+        headers: {
+          Accept: "application/json",
+          ...(init.body !== undefined && { "Content-Type": "application/json" }),
+          ...(init.token && { Authorization: `Bearer ${init.token}` }),
+        },
+        ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+      });
+    } catch {
+      throw new AuthError(NETWORK_ERROR, "network");
+    }
+
+    const data = parse(await res.text());
+    if (!res.ok) {
+      const { message, code } = (typeof data === "object" && data !== null ? data : {}) as ErrorBody;
+      if (res.status === 401) {
+        throw new AuthError(message ?? "Your session has ended. Please sign in again.", code ?? "unauthorized");
+      }
+      throw new AuthError(
+        message ?? `Account service error (${res.status}).`,
+        code ?? (res.status >= 500 ? "server" : "rejected"),
+      );
+    }
+    return data as T;
+  };
+
+  const session = async (path: string, body: unknown) => {
+    const data = await request<Session | undefined>(path, { body });
+    if (!data?.token || !data.user) throw new AuthError("The pharmacy didn't start a session.", "bad_response");
+    return data;
+  };
+
+  const challenge = async (path: string, body: unknown) => {
+    const data = await request<OtpChallenge | undefined>(path, { body });
+    if (!data?.challengeId) throw new AuthError("The pharmacy didn't send a code.", "bad_response");
+    return data;
+  };
+
+  return {
+    name: "http",
+
+    register: (input: RegisterInput) => session("/register", { ...input, phone: normalizePhone(input.phone) }),
+
+    login: (input: PasswordLogin) => session("/login", input),
+
+    requestOtp: (phone: string) => challenge("/otp", { phone: normalizePhone(phone) }),
+
+    verifyOtp: (challengeId: string, code: string) => session("/otp/verify", { challengeId, code: code.trim() }),
+
+    requestPasswordReset: (identifier: string) => challenge("/password/forgot", { identifier: identifier.trim() }),
+
+    resetPassword: (challengeId: string, code: string, password: string) =>
+      session("/password/reset", { challengeId, code: code.trim(), password }),
+
+    getUser: (token: string) => request<User>("/me", { token }),
+
+    updateProfile: (token: string, update: ProfileUpdate) =>
+      request<User>("/me", { method: "PATCH", body: update, token }),
+
+    async logout(token: string) {
+      await request<unknown>("/logout", { method: "POST", token });
+    },
+  };
+};
@@ -0,0 +1,38 @@
+// src/auth/index.ts — customer accounts: sign-in, phone codes, sessions, profile
+
+export type {
+  AuthAdapter,
+  OtpChallenge,
+  PasswordLogin,
+  ProfileUpdate,
+  RegisterInput,
+  Session,
+  User,
+} from "./types";
+export type { HttpAuthConfig } from "./http";
+export type { MockAuthOptions } from "./mock";
+export type { AuthErrors } from "./validation";
+
+export { AuthError } from "./types";
+export { createHttpAuthAdapter } from "./http";
+export { createMockAuthAdapter } from "./mock";
+export { DEFAULT_REDIRECT, getRedirectTarget, withRedirect } from "./redirect";
+export {
+  accountStorageKey,
+  describeAuthError,
+  getAuthAdapter,
+  parseSession,
+  SESSION_STORAGE_KEY,
+  setAuthAdapter,
+} from "./service";
+export {
+  checkPassword,
+  isValidEmail,
+  isValidOtp,
+  maskPhone,
+  MIN_PASSWORD_LENGTH,
+  OTP_LENGTH,
+  validateLogin,
+  validateProfile,
+  validateRegistration,
+} from "./validation";
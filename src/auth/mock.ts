@@ -0,0 +1,290 @@
+// src/auth/mock.ts
+
+import { normalizePhone } from "../checkout/validation";
+import {
+  AuthError,
+  type AuthAdapter,
+  type OtpChallenge,
+  type PasswordLogin,
+  type ProfileUpdate,
+  type RegisterInput,
+  type Session,
+  type User,
+} from "./types";
+import { checkPassword, isValidEmail, isValidOtp, maskPhone, validateProfile, validateRegistration } from "./validation";
+
+/* ---------------------------------------------------------------
+   Local mock server — accounts without a backend
+
+   Accounts and sessions live in localStorage, so a sign-in
+   survives reloads just as a server session would. One-time codes
+   aren't texted: with showCodes on, the challenge carries the code
+   as devCode (the pages show it) and it is logged to the console.
+   Leave it off outside development, or every code is on screen.
+
+   Passwords are only scrambled, not properly hashed — the mock
+   just keeps them from sitting readable in storage.
+--------------------------------------------------------------- */
+export interface MockAuthOptions {
+  /** Simulated round trip, in ms */
+  latencyMs?: number;
+  sessionDays?: number;
+  otpTtlMs?: number;
+  /** Wait before another code can be sent to the same number */
+  resendMs?: number;
+  /** Wrong guesses before a code is burned */
+  maxOtpAttempts?: number;
+  /** Hand codes back as devCode and log them — development builds only */
+  showCodes?: boolean;
+  /** Defaults to window.localStorage when there is one */
+  storage?: Pick<Storage, "getItem" | "setItem">;
+}
+
+interface StoredUser extends User {
+  passwordHash: string;
+}
+
+interface StoredSession {
+  userId: string;
+  expiresAt: string;
+}
+
+interface Challenge {
+  userId: string;
+  code: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export const MOCK_USERS_KEY = "auth_users_v1"; // bump version if shape changes
+export const MOCK_SESSIONS_KEY = "auth_sessions_v1";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readRecords = <T>(storage: MockAuthOptions["storage"], key: string): Record<string, T> => {
+  try {
+    const raw = storage?.getItem(key);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, T>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const randomId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+/** FNV-1a over a salted string — enough to scramble, nowhere near a real password hash. */
+const scramble = (userId: string, password: string) => {
+  let hash = 0x811c9dc5;
+  for (const ch of `${userId}:${password}`) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16);
+};
+
+const toUser = ({ id, fullName, phone, email, createdAt }: StoredUser): User => ({
+  id,
+  fullName,
+  phone,
+  ...(email && { email }),
+  createdAt,
+});
+
+export const createMockAuthAdapter = ({
+  latencyMs = 600,
+  sessionDays = 30,
+  otpTtlMs = 5 * 60 * 1000,
+  resendMs = 30 * 1000,
+  maxOtpAttempts = 5,
+  showCodes = false,
+  storage = defaultStorage(),
+}: MockAuthOptions = {}): AuthAdapter => {
+  // Codes only need to outlive the page they were requested on
+  const challenges = new Map<string, Challenge>();
+  const lastSent = new Map<string, number>();
+
+  const write = <T>(key: string, id: string, value: T | undefined) => {
+    const records = readRecords<T>(storage, key);
+    if (value === undefined) delete records[id];
+    else records[id] = value;
+    try {
+      storage?.setItem(key, JSON.stringify(records));
+    } catch {
+      // Quota or private mode — still valid for this page
+    }
+  };
+
+  const users = () => Object.values(readRecords<StoredUser>(storage, MOCK_USERS_KEY));
+
+  const findByIdentifier = (identifier: string): StoredUser | undefined => {
+    const id = identifier.trim();
+    if (isValidEmail(id)) return users().find((u) => u.email?.toLowerCase() === id.toLowerCase());
+    const phone = normalizePhone(id);
+    return users().find((u) => u.phone === phone);
+  };
+
+  const startSession = (user: StoredUser): Session => {
+    const token = randomId("sess");
+    const expiresAt = new Date(Date.now() + sessionDays * DAY_MS).toISOString();
+    write<StoredSession>(MOCK_SESSIONS_KEY, token, { userId: user.id, expiresAt });
+    return { token, user: toUser(user), expiresAt };
+  };
+
+  const userFor = (token: string): StoredUser => {
+    const session = readRecords<StoredSession>(storage, MOCK_SESSIONS_KEY)[token];
+    const user = session && readRecords<StoredUser>(storage, MOCK_USERS_KEY)[session.userId];
+    if (!session || !user || Date.parse(session.expiresAt) <= Date.now()) {
+      throw new AuthError("Your session has ended. Please sign in again.", "unauthorized");
+    }
+    return user;
+  };
+
+  const sendCode = (user: StoredUser): OtpChallenge => {
+    const now = Date.now();
+    const waitMs = (lastSent.get(user.id) ?? 0) + resendMs - now;
+    if (waitMs > 0) {
+      throw new AuthError(`Wait ${Math.ceil(waitMs / 1000)}s before asking for another code.`, "rate_limited");
+    }
+    lastSent.set(user.id, now);
+
+    const code = String(Math.floor(Math.random() * 1_000_000)).padStart(6, "0");
+    const challengeId = randomId("otp");
+    challenges.set(challengeId, { userId: user.id, code, expiresAt: now + otpTtlMs, attempts: 0 });
+    if (showCodes) console.info(`[mock auth] code for ${maskPhone(user.phone)}: ${code}`);
+
+    return {
+      challengeId,
+      sentTo: maskPhone(user.phone),
+      expiresAt: new Date(now + otpTtlMs).toISOString(),
+      resendAt: new Date(now + resendMs).toISOString(),
+      ...(showCodes && { devCode: code }),
+    };
+  };
+
+  /** Checks a code and burns the challenge once used, expired or guessed at too often. */
+  const redeem = (challengeId: string, code: string): StoredUser => {
+    const challenge = challenges.get(challengeId);
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      challenges.delete(challengeId);
+      throw new AuthError("This code has expired. Ask for a new one.", "expired");
+    }
+    if (!isValidOtp(code) || challenge.code !== code.trim()) {
+      challenge.attempts++;
+      if (challenge.attempts >= maxOtpAttempts) {
+        challenges.delete(challengeId);
+        throw new AuthError("Too many wrong codes. Ask for a new one.", "too_many_attempts");
+      }
+      throw new AuthError("That code isn't right. Check the SMS and try again.", "invalid_code");
+    }
+    challenges.delete(challengeId);
+    const user = readRecords<StoredUser>(storage, MOCK_USERS_KEY)[challenge.userId];
+    if (!user) throw new AuthError("This account no longer exists.", "not_found");
+    return user;
+  };
+
+  return {
+    name: "mock",
+
+    async register(input: RegisterInput) {
+      await wait(latencyMs);
+      const errors = validateRegistration(input);
+      const first = Object.values(errors)[0];
+      if (first) throw new AuthError(first, "invalid");
+
+      const phone = normalizePhone(input.phone);
+      const email = input.email?.trim() || undefined;
+      if (users().some((u) => u.phone === phone)) {
+        throw new AuthError("An account already uses this number. Sign in instead.", "phone_taken");
+      }
+      if (email && findByIdentifier(email)) {
+        throw new AuthError("An account already uses this email. Sign in instead.", "email_taken");
+      }
+
+      const id = randomId("usr");
+      const user: StoredUser = {
+        id,
+        fullName: input.fullName.trim(),
+        phone,
+        ...(email && { email }),
+        createdAt: new Date().toISOString(),
+        passwordHash: scramble(id, input.password),
+      };
+      write(MOCK_USERS_KEY, id, user);
+      return startSession(user);
+    },
+
+    async login({ identifier, password }: PasswordLogin) {
+      await wait(latencyMs);
+      const user = findByIdentifier(identifier);
+      if (!user || user.passwordHash !== scramble(user.id, password)) {
+        throw new AuthError("Wrong email, phone or password.", "invalid_credentials");
+      }
+      return startSession(user);
+    },
+
+    async requestOtp(phone: string) {
+      await wait(latencyMs);
+      const user = users().find((u) => u.phone === normalizePhone(phone));
+      if (!user) throw new AuthError("No account uses this number. Create one first.", "not_found");
+      return sendCode(user);
+    },
+
+    async verifyOtp(challengeId: string, code: string) {
+      await wait(latencyMs);
+      return startSession(redeem(challengeId, code));
+    },
+
+    async requestPasswordReset(identifier: string) {
+      await wait(latencyMs);
+      const user = findByIdentifier(identifier);
+      if (!user) throw new AuthError("No account matches that email or number.", "not_found");
+      return sendCode(user);
+    },
+
+    async resetPassword(challengeId: string, code: string, password: string) {
+      await wait(latencyMs);
+      const weak = checkPassword(password);
+      if (weak) throw new AuthError(weak, "invalid");
+      const user = redeem(challengeId, code);
+      const updated = { ...user, passwordHash: scramble(user.id, password) };
+      write(MOCK_USERS_KEY, user.id, updated);
+      return startSession(updated);
+    },
+
+    async getUser(token: string) {
+      await wait(latencyMs / 3);
+      return toUser(userFor(token));
+    },
+
+    async updateProfile(token: string, update: ProfileUpdate) {
+      await wait(latencyMs);
+      const user = userFor(token);
+      const first = Object.values(validateProfile(update))[0];
+      if (first) throw new AuthError(first, "invalid");
+
+      const email = update.email === undefined ? user.email : update.email.trim() || undefined;
+      if (email && email !== user.email && findByIdentifier(email)) {
+        throw new AuthError("An account already uses this email.", "email_taken");
+      }
+      const updated: StoredUser = {
+        ...user,
+        ...(update.fullName !== undefined && { fullName: update.fullName.trim() }),
+        email,
+      };
+      if (!updated.email) delete updated.email;
+      write(MOCK_USERS_KEY, user.id, updated);
+      return toUser(updated);
+    },
+
+    async logout(token: string) {
+      await wait(latencyMs / 3);
+      write<StoredSession>(MOCK_SESSIONS_KEY, token, undefined);
+    },
+  };
+};
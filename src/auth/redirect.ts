@@ -0,0 +1,17 @@
+// src/auth/redirect.ts
+
+/* ---------------------------------------------------------------
+   Where to go once signed in — ?next=/path rides along through
+   login, registration and password reset. Only paths on this
+   site are followed, so a crafted link can't bounce people away.
+--------------------------------------------------------------- */
+export const DEFAULT_REDIRECT = "/account";
+
+export const getRedirectTarget = (search: string, fallback = DEFAULT_REDIRECT): string => {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : fallback;
+};
+
+/** path?next=… — leaves path alone when next is the default. */
+export const withRedirect = (path: string, next?: string): string =>
+  next && next !== DEFAULT_REDIRECT ? `${path}?next=${encodeURIComponent(next)}` : path;
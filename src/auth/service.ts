@@ -0,0 +1,65 @@
+// src/auth/service.ts
+
+import { createHttpAuthAdapter } from "./http";
+import { createMockAuthAdapter } from "./mock";
+import { AuthError, type AuthAdapter, type Session } from "./types";
+
+/* ---------------------------------------------------------------
+   Default adapter — the account backend when one is configured,
+   otherwise the local mock so sign-in works in development. The
+   mock only shows its one-time codes in a dev build.
+
+     VITE_AUTH_API_URL   backend root for /auth
+--------------------------------------------------------------- */
+let adapter: AuthAdapter | null = null;
+
+export const getAuthAdapter = (): AuthAdapter => {
+  if (!adapter) {
+    const baseUrl = import.meta.env.VITE_AUTH_API_URL as string | undefined;
+    adapter = baseUrl ? createHttpAuthAdapter({ baseUrl }) : createMockAuthAdapter({ showCodes: import.meta.env.DEV });
+  }
+  return adapter;
+};
+
+/** Swap the adapter, e.g. for a mock with instant responses. */
+export const setAuthAdapter = (next: AuthAdapter): void => {
+  adapter = next;
+};
+
+/* ---------------------------------------------------------------
+   Saved session — kept with its user so the app knows who is
+   signed in on first render, before the server has confirmed it
+--------------------------------------------------------------- */
+export const SESSION_STORAGE_KEY = "auth_session_v1"; // bump version if shape changes
+
+const isSession = (value: unknown): value is Session => {
+  if (typeof value !== "object" || value === null) return false;
+  const s = value as Partial<Session>;
+  return (
+    typeof s.token === "string" &&
+    typeof s.expiresAt === "string" &&
+    typeof s.user?.id === "string" &&
+    typeof s.user.phone === "string"
+  );
+};
+
+/** The saved session, unless it is missing, malformed or past its expiry. */
+export const parseSession = (raw: string | null): Session | null => {
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return isSession(parsed) && Date.parse(parsed.expiresAt) > Date.now() ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Storage key for data that belongs to whoever is signed in:
+ * the base key for guests, suffixed with the user id otherwise.
+ */
+export const accountStorageKey = (baseKey: string, userId?: string | null): string =>
+  userId ? `${baseKey}:${userId}` : baseKey;
+
+/** What to tell the customer when an auth call fails. */
+export const describeAuthError = (err: unknown): string =>
+  err instanceof AuthError ? err.message : "Something went wrong. Please try again.";
@@ -0,0 +1,85 @@
+// src/auth/types.ts
+
+/* ---------------------------------------------------------------
+   Account
+--------------------------------------------------------------- */
+export interface User {
+  id: string;
+  fullName: string;
+  /** 2547XXXXXXXX — also the number one-time codes go to */
+  phone: string;
+  email?: string;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+export interface Session {
+  token: string;
+  user: User;
+  /** ISO timestamp */
+  expiresAt: string;
+}
+
+export interface RegisterInput {
+  fullName: string;
+  /** Kenyan mobile in any accepted format; normalised by the adapter */
+  phone: string;
+  email?: string;
+  password: string;
+}
+
+export interface PasswordLogin {
+  /** Email or phone number */
+  identifier: string;
+  password: string;
+}
+
+export type ProfileUpdate = Partial<Pick<User, "fullName" | "email">>;
+
+/* ---------------------------------------------------------------
+   One-time codes — texted for phone login and password resets
+--------------------------------------------------------------- */
+export interface OtpChallenge {
+  challengeId: string;
+  /** Masked number the code went to, e.g. "0712 ••• 678" */
+  sentTo: string;
+  /** ISO timestamp */
+  expiresAt: string;
+  /** Earliest a new code can be requested, ISO timestamp */
+  resendAt: string;
+  /** The code itself — only the mock sets this, in dev builds, so development works without SMS */
+  devCode?: string;
+}
+
+/* ---------------------------------------------------------------
+   Adapter contract
+--------------------------------------------------------------- */
+export interface AuthAdapter {
+  readonly name: string;
+  /** Rejects with "phone_taken" / "email_taken" when another account has them. */
+  register(input: RegisterInput): Promise<Session>;
+  /** Rejects with "invalid_credentials" without saying which part was wrong. */
+  login(input: PasswordLogin): Promise<Session>;
+  /** Texts a login code; rejects with "not_found" when no account uses the number. */
+  requestOtp(phone: string): Promise<OtpChallenge>;
+  /** Rejects with "invalid_code", "expired" or "too_many_attempts". */
+  verifyOtp(challengeId: string, code: string): Promise<Session>;
+  /** Texts a reset code to the phone of the account with this email or number. */
+  requestPasswordReset(identifier: string): Promise<OtpChallenge>;
+  /** Sets a new password and signs in; fails like verifyOtp. */
+  resetPassword(challengeId: string, code: string, password: string): Promise<Session>;
+  /** The session's user; rejects with "unauthorized" once it has ended. */
+  getUser(token: string): Promise<User>;
+  updateProfile(token: string, update: ProfileUpdate): Promise<User>;
+  logout(token: string): Promise<void>;
+}
+
+export class AuthError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "auth_error") {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,59 @@
+// src/auth/validation.ts
+
+import { isValidPhone } from "../checkout/validation";
+import type { PasswordLogin, ProfileUpdate, RegisterInput } from "./types";
+
+/* ---------------------------------------------------------------
+   Account rules — the pages check them inline, the mock checks
+   them again so it refuses what a real backend would
+--------------------------------------------------------------- */
+export const MIN_PASSWORD_LENGTH = 8;
+export const OTP_LENGTH = 6;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type AuthErrors = Partial<Record<string, string>>;
+
+export const isValidEmail = (email: string): boolean => EMAIL.test(email.trim());
+
+export const isValidOtp = (code: string): boolean => new RegExp(`^\\d{${OTP_LENGTH}}$`).test(code.trim());
+
+/** Message for a weak password, or undefined when it will do. */
+export const checkPassword = (password: string): string | undefined => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Use at least ${MIN_PASSWORD_LENGTH} characters.`;
+  if (!/\d/.test(password) || !/[a-z]/i.test(password)) return "Mix letters and numbers.";
+  return undefined;
+};
+
+export const validateRegistration = ({ fullName, phone, email, password }: RegisterInput): AuthErrors => {
+  const errors: AuthErrors = {};
+  if (fullName.trim().length < 2) errors.fullName = "Enter your full name.";
+  if (!isValidPhone(phone)) errors.phone = "Enter a valid Kenyan mobile number.";
+  if (email?.trim() && !isValidEmail(email)) errors.email = "Enter a valid email address.";
+  const weak = checkPassword(password);
+  if (weak) errors.password = weak;
+  return errors;
+};
+
+export const validateLogin = ({ identifier, password }: PasswordLogin): AuthErrors => {
+  const errors: AuthErrors = {};
+  const id = identifier.trim();
+  if (!id) errors.identifier = "Enter your email or phone number.";
+  else if (!isValidEmail(id) && !isValidPhone(id)) errors.identifier = "That isn't an email or Kenyan mobile number.";
+  if (!password) errors.password = "Enter your password.";
+  return errors;
+};
+
+export const validateProfile = ({ fullName, email }: ProfileUpdate): AuthErrors => {
+  const errors: AuthErrors = {};
+  if (fullName !== undefined && fullName.trim().length < 2) errors.fullName = "Enter your full name.";
+  if (email?.trim() && !isValidEmail(email)) errors.email = "Enter a valid email address.";
+  return errors;
+};
+
+/** "254712345678" → "0712 ••• 678", for telling people where a code went. */
+export const maskPhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, "");
+  const local = digits.startsWith("254") ? `0${digits.slice(3)}` : digits;
+  return local.length < 7 ? local : `${local.slice(0, 4)} ••• ${local.slice(-3)}`;
+};
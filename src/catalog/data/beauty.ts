@@ -0,0 +1,378 @@
+// src/catalog/data/beauty.ts
+
+import type { Product } from "../types";
+
+import revitalizingSupremeImg from "../../assets/products/revitalizing-supreme.png";
+import superBlendableImg from "../../assets/products/super-blendable.png";
+import rougeVolupteShineLipstickImg from "../../assets/products/rouge-volupté-shine-lipstick.png";
+import betterThanSexMascaraImg from "../../assets/products/better-than-sex-mascara.png";
+import bornThisWayFoundationImg from "../../assets/products/born-this-way-foundation.png";
+import softMatteCompleteLipstickImg from "../../assets/products/Soft-Matte-Complete-Lipstick.png";
+import softRadiancePressedPowderImg from "../../assets/products/Soft-Radiance-Pressed-Powder.png";
+import airbrushFlawlessFoundationImg from "../../assets/products/airbrush-flawless-foundation.png";
+import fentyBeautyGlossBombUniversalLipLuminizerImg from "../../assets/products/FentyBeautyGlossBomb-universal-lip-luminizer.png";
+import laneigeLipSleepingMaskBerry20gImg from "../../assets/products/laneige-lip-sleeping-mask-berry-20g.png";
+import maybellineFitMeMattePlusporelessPoundationImg from "../../assets/products/Maybelline-fit-me-mattePlusporelessPoundation.png";
+import rareBeautyTintedMoisturizerImg from "../../assets/products/Rare-Beauty-Tinted-Moisturizer.png";
+import rareBeautySoftPinchLiquidBlushImg from "../../assets/products/Rare-Beauty-Soft-Pinch-Liquid-Blush.png";
+import charlotteTilburyGlowgasmBeautyLightWandImg from "../../assets/products/Charlotte-tilbury-glowgasm-beauty-light-wand.png";
+import opiNailLacquerImg from "../../assets/products/OPI-Nail-Lacquer.png";
+import img2025OliveJuneCuticleSerumImg from "../../assets/products/2025-Olive & June-Cuticle-Serum.png";
+import lOrealLashParadiseVolumizingMascaraImg from "../../assets/products/L’Oréal-LashParadiseVolumizingMascara.png";
+import stilaStayAllDayWaterproofLiquidEyelinerImg from "../../assets/products/Stila-Stay-AllDayWaterproofLiquidEyeliner.png";
+import ceraVeHydratingCleanser236mlImg from "../../assets/products/CeraVe-Hydrating-Cleanser-236ml.png";
+import mielleRosemaryMintScalpImg from "../../assets/products/Mielle-Rosemary-Mint-Scalp.png";
+import anuaAzelaicAcidHyaluronRednessSoothingSerumImg from "../../assets/products/Anua-Azelaic-Acid+Hyaluron-Redness-Soothing-Serum.png";
+import anuaHeartleafPoreControlCleansingOILImg from "../../assets/products/anua-heartleaf-pore-control-cleansing-OIL.png";
+import ariulHydroSleepingMask80gImg from "../../assets/products/Ariul-Hydro-Sleeping-Mask-80g.png";
+import axisYDarkSpotCorrectingGlowSerum50gImg from "../../assets/products/Axis-Y-Dark-Spot-Correcting-Glow-Serum-50g.png";
+import beautyOfJoseonGinsengCleansingOil210mlImg from "../../assets/products/Beauty-of-joseon-ginseng-cleansing-oil-210ml.png";
+
+/** Beauty, cosmetics and new-in skincare. */
+export const beautyProducts: Product[] = [
+  {
+    id: "revitalizing-supreme-plus-youth-power-creme",
+    slug: "revitalizing-supreme-plus-youth-power-creme",
+    name: "Revitalizing Supreme+ Youth Power Crème",
+    brand: "Estée Lauder",
+    description: "Prestige anti-aging cream that firms, smooths, and rejuvenates skin.",
+    image: revitalizingSupremeImg,
+    price: 18900,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "true-match-super-blendable-foundation",
+    slug: "true-match-super-blendable-foundation",
+    name: "True Match Super-Blendable Foundation",
+    brand: "L’Oréal Paris",
+    description: "Lightweight, seamless foundation for natural, flawless coverage.",
+    image: superBlendableImg,
+    price: 2400,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "rouge-volupte-shine-lipstick",
+    slug: "rouge-volupte-shine-lipstick",
+    name: "Rouge Volupté Shine Lipstick",
+    brand: "Yves Saint Laurent (YSL)",
+    description: "Luxurious lipstick delivering intense color and moisture.",
+    image: rougeVolupteShineLipstickImg,
+    price: 5200,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "better-than-sex-mascara",
+    slug: "better-than-sex-mascara",
+    name: "Better Than Sex Mascara",
+    brand: "Too Faced",
+    description: "Iconic volumizing mascara for dramatic, curled lashes.",
+    image: betterThanSexMascaraImg,
+    price: 4200,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "born-this-way-foundation",
+    slug: "born-this-way-foundation",
+    name: "Born This Way Foundation",
+    brand: "Too Faced",
+    description: "Medium-to-full coverage foundation with natural finish.",
+    image: bornThisWayFoundationImg,
+    price: 5600,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "soft-matte-complete-lipstick",
+    slug: "soft-matte-complete-lipstick",
+    name: "Soft Matte Complete Lipstick",
+    brand: "NARS",
+    description: "Velvety matte finish lipstick with long-lasting comfort.",
+    image: softMatteCompleteLipstickImg,
+    price: 4100,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "soft-radiance-pressed-powder",
+    slug: "soft-radiance-pressed-powder",
+    name: "Soft Radiance Pressed Powder",
+    brand: "Laura Mercier",
+    description: "Finishing powder for luminous, flawless skin.",
+    image: softRadiancePressedPowderImg,
+    price: 5300,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "airbrush-flawless-foundation",
+    slug: "airbrush-flawless-foundation",
+    name: "Airbrush Flawless Foundation",
+    brand: "Charlotte Tilbury",
+    description: "Full-coverage foundation with a natural matte finish.",
+    image: airbrushFlawlessFoundationImg,
+    price: 5900,
+    category: "beauty-care-cosmetics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "fenty-beauty-gloss-bomb-universal-lip-luminizer",
+    slug: "fenty-beauty-gloss-bomb-universal-lip-luminizer",
+    name: "Fenty Beauty Gloss Bomb Universal Lip Luminizer",
+    image: fentyBeautyGlossBombUniversalLipLuminizerImg,
+    price: 2550,
+    originalPrice: 3200,
+    category: "beauty-care-cosmetics",
+    subcategory: "Lip Gloss",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "laneige-lip-sleeping-mask-berry-20g",
+    slug: "laneige-lip-sleeping-mask-berry-20g",
+    name: "Laneige Lip Sleeping Mask Berry 20g",
+    image: laneigeLipSleepingMaskBerry20gImg,
+    price: 2800,
+    originalPrice: 3500,
+    category: "beauty-care-cosmetics",
+    subcategory: "Lip Care",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "maybelline-fit-me-matte-plus-poreless-foundation",
+    slug: "maybelline-fit-me-matte-plus-poreless-foundation",
+    name: "Maybelline Fit Me Matte + Poreless Foundation",
+    image: maybellineFitMeMattePlusporelessPoundationImg,
+    price: 1400,
+    originalPrice: 1800,
+    category: "beauty-care-cosmetics",
+    subcategory: "Foundation",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "rare-beauty-tinted-moisturizer-spf-20",
+    slug: "rare-beauty-tinted-moisturizer-spf-20",
+    name: "Rare Beauty Tinted Moisturizer SPF 20",
+    image: rareBeautyTintedMoisturizerImg,
+    price: 3600,
+    originalPrice: 4500,
+    category: "beauty-care-cosmetics",
+    subcategory: "Skin Tint",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "rare-beauty-soft-pinch-liquid-blush",
+    slug: "rare-beauty-soft-pinch-liquid-blush",
+    name: "Rare Beauty Soft Pinch Liquid Blush",
+    image: rareBeautySoftPinchLiquidBlushImg,
+    price: 3360,
+    originalPrice: 4200,
+    category: "beauty-care-cosmetics",
+    subcategory: "Blush",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "charlotte-tilbury-glowgasm-beauty-light-wand",
+    slug: "charlotte-tilbury-glowgasm-beauty-light-wand",
+    name: "Charlotte Tilbury Glowgasm Beauty Light Wand",
+    image: charlotteTilburyGlowgasmBeautyLightWandImg,
+    price: 4950,
+    originalPrice: 6200,
+    category: "beauty-care-cosmetics",
+    subcategory: "Highlighter",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "opi-nail-lacquer-bubble-bath",
+    slug: "opi-nail-lacquer-bubble-bath",
+    name: "OPI Nail Lacquer - Bubble Bath",
+    image: opiNailLacquerImg,
+    price: 1350,
+    originalPrice: 1800,
+    category: "beauty-care-cosmetics",
+    subcategory: "Nail Polish",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "olive-and-june-cuticle-serum-with-probiotic-complex",
+    slug: "olive-and-june-cuticle-serum-with-probiotic-complex",
+    name: "Olive & June Cuticle Serum with Probiotic Complex",
+    image: img2025OliveJuneCuticleSerumImg,
+    price: 2080,
+    originalPrice: 2600,
+    category: "beauty-care-cosmetics",
+    subcategory: "Nail Care",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "loreal-lash-paradise-volumizing-mascara",
+    slug: "loreal-lash-paradise-volumizing-mascara",
+    name: "L’Oréal Lash Paradise Volumizing Mascara",
+    image: lOrealLashParadiseVolumizingMascaraImg,
+    price: 1680,
+    originalPrice: 2100,
+    category: "beauty-care-cosmetics",
+    subcategory: "Mascara",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "stila-stay-all-day-waterproof-liquid-eyeliner",
+    slug: "stila-stay-all-day-waterproof-liquid-eyeliner",
+    name: "Stila Stay All Day Waterproof Liquid Eyeliner",
+    image: stilaStayAllDayWaterproofLiquidEyelinerImg,
+    price: 2480,
+    originalPrice: 3100,
+    category: "beauty-care-cosmetics",
+    subcategory: "Eyeliner",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "cerave-hydrating-cleanser-236ml",
+    slug: "cerave-hydrating-cleanser-236ml",
+    name: "CeraVe Hydrating Cleanser 236ml",
+    image: ceraVeHydratingCleanser236mlImg,
+    price: 1760,
+    originalPrice: 2200,
+    category: "beauty-care-cosmetics",
+    subcategory: "Skincare",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "mielle-rosemary-mint-scalp-and-hair-strengthening-oil",
+    slug: "mielle-rosemary-mint-scalp-and-hair-strengthening-oil",
+    name: "Mielle Rosemary Mint Scalp & Hair Strengthening Oil",
+    image: mielleRosemaryMintScalpImg,
+    price: 2560,
+    originalPrice: 3200,
+    category: "beauty-care-cosmetics",
+    subcategory: "Hair Care",
+    bodySystems: [],
+    conditions: [],
+    tags: ["beauty-deal"],
+    inStock: true,
+  },
+  {
+    id: "anua-azaleic-acid-plus-hyaluron-redness-soothing-serum",
+    slug: "anua-azaleic-acid-plus-hyaluron-redness-soothing-serum",
+    name: "Anua Azaleic Acid+Hyaluron Redness Soothing Serum",
+    image: anuaAzelaicAcidHyaluronRednessSoothingSerumImg,
+    price: 3200,
+    category: "skin-care",
+    subcategory: "Beauty and Skin Care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["new-in-beauty"],
+    inStock: true,
+  },
+  {
+    id: "anua-heartleaf-pore-control-cleansing-oil-200ml",
+    slug: "anua-heartleaf-pore-control-cleansing-oil-200ml",
+    name: "Anua Heartleaf Pore Control Cleansing Oil 200ml",
+    image: anuaHeartleafPoreControlCleansingOILImg,
+    price: 2700,
+    category: "skin-care",
+    subcategory: "Beauty and Skin Care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["new-in-beauty"],
+    inStock: true,
+  },
+  {
+    id: "ariul-hydro-sleeping-mask-80g",
+    slug: "ariul-hydro-sleeping-mask-80g",
+    name: "Ariul Hydro Sleeping Mask 80g",
+    image: ariulHydroSleepingMask80gImg,
+    price: 0,
+    category: "skin-care",
+    subcategory: "Beauty and Skin Care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["new-in-beauty"],
+    inStock: false,
+  },
+  {
+    id: "axis-y-dark-spot-correcting-glow-serum-50g",
+    slug: "axis-y-dark-spot-correcting-glow-serum-50g",
+    name: "Axis-Y Dark Spot Correcting Glow Serum 50g",
+    image: axisYDarkSpotCorrectingGlowSerum50gImg,
+    price: 2800,
+    category: "skin-care",
+    subcategory: "New on MYDAWA",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["new-in-beauty"],
+    inStock: true,
+  },
+  {
+    id: "beauty-of-joseon-ginseng-cleansing-oil-210ml",
+    slug: "beauty-of-joseon-ginseng-cleansing-oil-210ml",
+    name: "Beauty of Joseon Ginseng Cleansing Oil 210ml",
+    image: beautyOfJoseonGinsengCleansingOil210mlImg,
+    price: 3000,
+    category: "skin-care",
+    subcategory: "Beauty and Skin Care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["new-in-beauty"],
+    inStock: true,
+  },
+];
@@ -0,0 +1,387 @@
+// src/catalog/data/cardiovascular.ts
+
+import type { Product } from "../types";
+
+import amlodipineImg from "../../assets/products/BloodPressure/Amlodipine.png";
+import atenololImg from "../../assets/products/BloodPressure/Atenolol.png";
+import bisoprololImg from "../../assets/products/BloodPressure/Bisoprolol.png";
+import candesartanImg from "../../assets/products/BloodPressure/Candesartan.png";
+import furosemideImg from "../../assets/products/BloodPressure/Furosemide.png";
+import spironolactoneImg from "../../assets/products/BloodPressure/Spironolactone.png";
+import enalaprilImg from "../../assets/products/BloodPressure/Enalapril.png";
+import telmisartanImg from "../../assets/products/BloodPressure/Telmisartan.png";
+import valsartanImg from "../../assets/products/BloodPressure/Valsartan.png";
+import losartanImg from "../../assets/products/BloodPressure/Losartan.png";
+import chlorthalidoneImg from "../../assets/products/BloodPressure/Chlorthalidone.png";
+import hydrochlorothiazideImg from "../../assets/products/BloodPressure/Hydrochlorothiazide.png";
+import nifedipineImg from "../../assets/products/BloodPressure/Nifedipine.png";
+
+/** Cardiovascular medicines — generic and branded antihypertensives. */
+export const cardiovascularProducts: Product[] = [
+  {
+    id: "amlodipine",
+    slug: "amlodipine",
+    name: "Amlodipine",
+    image: amlodipineImg,
+    price: 2395,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "atenolol",
+    slug: "atenolol",
+    name: "Atenolol",
+    image: atenololImg,
+    price: 2747,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "bisoprolol",
+    slug: "bisoprolol",
+    name: "Bisoprolol",
+    image: bisoprololImg,
+    price: 1714,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "candesartan",
+    slug: "candesartan",
+    name: "Candesartan",
+    image: candesartanImg,
+    price: 1420,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "heart-failure"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "furosemide",
+    slug: "furosemide",
+    name: "Furosemide",
+    image: furosemideImg,
+    price: 1200,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "heart-failure"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "spironolactone",
+    slug: "spironolactone",
+    name: "Spironolactone",
+    image: spironolactoneImg,
+    price: 1350,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "heart-failure"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "enalapril",
+    slug: "enalapril",
+    name: "Enalapril",
+    image: enalaprilImg,
+    price: 1520,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "coronary-artery-disease"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "telmisartan",
+    slug: "telmisartan",
+    name: "Telmisartan",
+    image: telmisartanImg,
+    price: 1380,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "coronary-artery-disease"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "valsartan",
+    slug: "valsartan",
+    name: "Valsartan",
+    image: valsartanImg,
+    price: 1420,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "coronary-artery-disease"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "losartan",
+    slug: "losartan",
+    name: "Losartan",
+    image: losartanImg,
+    price: 1470,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "dvt"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "chlorthalidone",
+    slug: "chlorthalidone",
+    name: "Chlorthalidone",
+    image: chlorthalidoneImg,
+    price: 1320,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "dvt"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "hydrochlorothiazide",
+    slug: "hydrochlorothiazide",
+    name: "Hydrochlorothiazide",
+    image: hydrochlorothiazideImg,
+    price: 1410,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "other-cardiac"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "nifedipine",
+    slug: "nifedipine",
+    name: "Nifedipine",
+    image: nifedipineImg,
+    price: 1450,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension", "other-cardiac"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "norvasc-amlodipine-pfizer-usa",
+    slug: "norvasc-amlodipine-pfizer-usa",
+    name: "Norvasc (Amlodipine) – Pfizer, USA",
+    image: amlodipineImg,
+    price: 3200,
+    originalPrice: 3500,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.7,
+    badge: "SALE",
+  },
+  {
+    id: "tenormin-atenolol-astrazeneca-uk",
+    slug: "tenormin-atenolol-astrazeneca-uk",
+    name: "Tenormin (Atenolol) – AstraZeneca, UK",
+    image: atenololImg,
+    price: 2800,
+    originalPrice: 3000,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.6,
+  },
+  {
+    id: "concor-bisoprolol-merck-germany",
+    slug: "concor-bisoprolol-merck-germany",
+    name: "Concor (Bisoprolol) – Merck, Germany",
+    image: bisoprololImg,
+    price: 3400,
+    originalPrice: 3700,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.9,
+    badge: "NEW",
+  },
+  {
+    id: "atacand-candesartan-astrazeneca-sweden",
+    slug: "atacand-candesartan-astrazeneca-sweden",
+    name: "Atacand (Candesartan) – AstraZeneca, Sweden",
+    image: candesartanImg,
+    price: 3600,
+    originalPrice: 3850,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.8,
+  },
+  {
+    id: "hygroton-chlorthalidone-novartis-switzerland",
+    slug: "hygroton-chlorthalidone-novartis-switzerland",
+    name: "Hygroton (Chlorthalidone) – Novartis, Switzerland",
+    image: chlorthalidoneImg,
+    price: 3000,
+    originalPrice: 3200,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.5,
+  },
+  {
+    id: "renitec-enalapril-msd-netherlands",
+    slug: "renitec-enalapril-msd-netherlands",
+    name: "Renitec (Enalapril) – MSD, Netherlands",
+    image: enalaprilImg,
+    price: 3100,
+    originalPrice: 3400,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.4,
+  },
+  {
+    id: "lasix-furosemide-sanofi-france",
+    slug: "lasix-furosemide-sanofi-france",
+    name: "Lasix (Furosemide) – Sanofi, France",
+    image: furosemideImg,
+    price: 2700,
+    originalPrice: 2950,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.6,
+  },
+  {
+    id: "hydrosan-hydrochlorothiazide-teva-israel",
+    slug: "hydrosan-hydrochlorothiazide-teva-israel",
+    name: "Hydrosan (Hydrochlorothiazide) – Teva, Israel",
+    image: hydrochlorothiazideImg,
+    price: 2900,
+    originalPrice: 3100,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.3,
+  },
+  {
+    id: "cozaar-losartan-merck-usa",
+    slug: "cozaar-losartan-merck-usa",
+    name: "Cozaar (Losartan) – Merck, USA",
+    image: losartanImg,
+    price: 3300,
+    originalPrice: 3500,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.8,
+  },
+  {
+    id: "adalat-nifedipine-bayer-germany",
+    slug: "adalat-nifedipine-bayer-germany",
+    name: "Adalat (Nifedipine) – Bayer, Germany",
+    image: nifedipineImg,
+    price: 3200,
+    originalPrice: 3450,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.7,
+  },
+  {
+    id: "aldactone-spironolactone-pfizer-usa",
+    slug: "aldactone-spironolactone-pfizer-usa",
+    name: "Aldactone (Spironolactone) – Pfizer, USA",
+    image: spironolactoneImg,
+    price: 3400,
+    originalPrice: 3700,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.9,
+  },
+  {
+    id: "micardis-telmisartan-boehringer-ingelheim-germany",
+    slug: "micardis-telmisartan-boehringer-ingelheim-germany",
+    name: "Micardis (Telmisartan) – Boehringer Ingelheim, Germany",
+    image: telmisartanImg,
+    price: 3550,
+    originalPrice: 3800,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.8,
+  },
+  {
+    id: "diovan-valsartan-novartis-switzerland",
+    slug: "diovan-valsartan-novartis-switzerland",
+    name: "Diovan (Valsartan) – Novartis, Switzerland",
+    image: valsartanImg,
+    price: 3700,
+    originalPrice: 4000,
+    category: "medicine",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+    rating: 4.9,
+  },
+];
@@ -0,0 +1,233 @@
+// src/catalog/data/diabetes.ts
+
+import type { Product } from "../types";
+
+import metforminImg from "../../assets/diabetes/Metformin.png";
+import glimepirideImg from "../../assets/diabetes/Glimepiride.png";
+import glipizideImg from "../../assets/diabetes/Glipizide.png";
+import gliclazideImg from "../../assets/diabetes/Gliclazide.png";
+import sitagliptinImg from "../../assets/diabetes/Sitagliptin.png";
+import vildagliptinImg from "../../assets/diabetes/Vildagliptin.png";
+import empagliflozinImg from "../../assets/diabetes/Empagliflozin.png";
+import dapagliflozinImg from "../../assets/diabetes/Dapagliflozin.png";
+import insulinglargineImg from "../../assets/diabetes/Insulinglargine.png";
+import insulinAspartImg from "../../assets/diabetes/InsulinAspart.png";
+import insulinDetemirImg from "../../assets/diabetes/InsulinDetemir.png";
+import pioglitazoneImg from "../../assets/diabetes/Pioglitazone.png";
+import acarboseImg from "../../assets/diabetes/Acarbose.png";
+import linagliptinImg from "../../assets/diabetes/Linagliptin.png";
+import repaglinideImg from "../../assets/diabetes/Repaglinide.png";
+
+/** Diabetes medicines and insulins. */
+export const diabetesProducts: Product[] = [
+  {
+    id: "metformin-glucophage",
+    slug: "metformin-glucophage",
+    name: "Metformin (Glucophage)",
+    image: metforminImg,
+    price: 850,
+    category: "medicine",
+    subcategory: "Biguanides",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "glimepiride-amaryl",
+    slug: "glimepiride-amaryl",
+    name: "Glimepiride (Amaryl)",
+    image: glimepirideImg,
+    price: 970,
+    category: "medicine",
+    subcategory: "Sulfonylureas",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "glipizide",
+    slug: "glipizide",
+    name: "Glipizide",
+    image: glipizideImg,
+    price: 890,
+    category: "medicine",
+    subcategory: "Sulfonylureas",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "gliclazide-diamicron",
+    slug: "gliclazide-diamicron",
+    name: "Gliclazide (Diamicron)",
+    image: gliclazideImg,
+    price: 950,
+    category: "medicine",
+    subcategory: "Sulfonylureas",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "sitagliptin-januvia",
+    slug: "sitagliptin-januvia",
+    name: "Sitagliptin (Januvia)",
+    image: sitagliptinImg,
+    price: 2850,
+    category: "medicine",
+    subcategory: "DPP-4 Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "vildagliptin-galvus",
+    slug: "vildagliptin-galvus",
+    name: "Vildagliptin (Galvus)",
+    image: vildagliptinImg,
+    price: 2550,
+    category: "medicine",
+    subcategory: "DPP-4 Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "empagliflozin-jardiance",
+    slug: "empagliflozin-jardiance",
+    name: "Empagliflozin (Jardiance)",
+    image: empagliflozinImg,
+    price: 3350,
+    category: "medicine",
+    subcategory: "SGLT2 Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "dapagliflozin-forxiga",
+    slug: "dapagliflozin-forxiga",
+    name: "Dapagliflozin (Forxiga)",
+    image: dapagliflozinImg,
+    price: 3280,
+    category: "medicine",
+    subcategory: "SGLT2 Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "insulin-glargine-lantus",
+    slug: "insulin-glargine-lantus",
+    name: "Insulin Glargine (Lantus)",
+    image: insulinglargineImg,
+    price: 4100,
+    category: "medicine",
+    subcategory: "Insulin (Basal)",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "insulin-aspart-novorapid",
+    slug: "insulin-aspart-novorapid",
+    name: "Insulin Aspart (NovoRapid)",
+    image: insulinAspartImg,
+    price: 3900,
+    category: "medicine",
+    subcategory: "Insulin (Rapid-Acting)",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "insulin-detemir-levemir",
+    slug: "insulin-detemir-levemir",
+    name: "Insulin Detemir (Levemir)",
+    image: insulinDetemirImg,
+    price: 4200,
+    category: "medicine",
+    subcategory: "Insulin (Basal)",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "pioglitazone-actos",
+    slug: "pioglitazone-actos",
+    name: "Pioglitazone (Actos)",
+    image: pioglitazoneImg,
+    price: 1200,
+    category: "medicine",
+    subcategory: "Thiazolidinediones",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "acarbose-glucobay",
+    slug: "acarbose-glucobay",
+    name: "Acarbose (Glucobay)",
+    image: acarboseImg,
+    price: 950,
+    category: "medicine",
+    subcategory: "Alpha-Glucosidase Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "linagliptin-tradjenta",
+    slug: "linagliptin-tradjenta",
+    name: "Linagliptin (Tradjenta)",
+    image: linagliptinImg,
+    price: 2850,
+    category: "medicine",
+    subcategory: "DPP-4 Inhibitors",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "repaglinide-prandin",
+    slug: "repaglinide-prandin",
+    name: "Repaglinide (Prandin)",
+    image: repaglinideImg,
+    price: 1120,
+    category: "medicine",
+    subcategory: "Meglitinides",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
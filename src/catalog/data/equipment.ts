@@ -0,0 +1,240 @@
+// src/catalog/data/equipment.ts
+
+import type { Product } from "../types";
+
+import bpImg from "../../assets/Equipment/BP.png";
+import glucoseMeterImg from "../../assets/Equipment/Glucose-meter.png";
+import oximeterImg from "../../assets/Equipment/Oximeter.png";
+import portableNebulizerImg from "../../assets/Equipment/Portable-Nebulizer.png";
+import stethoscopeImg from "../../assets/Equipment/Stethoscope.png";
+import weifgtScaleImg from "../../assets/Equipment/Weifgt-scale.png";
+import wheelchairImg from "../../assets/Equipment/Wheelchair.png";
+import walkerImg from "../../assets/Equipment/Walker.png";
+import portableOxygenConcentratorImg from "../../assets/Equipment/Portable-Oxygen-Concentrator.png";
+import firstAidKitImg from "../../assets/Equipment/First-Aid-Kit.png";
+import homeInfusionPumpAmbulatoryImg from "../../assets/Equipment/Home-Infusion-Pump (Ambulatory).png";
+import tensUnitPainReliefElectrotherapyImg from "../../assets/Equipment/TENS Unit (Pain Relief Electrotherapy).png";
+import suctionImg from "../../assets/Equipment/Suction.png";
+
+/** Medical equipment. */
+export const equipmentProducts: Product[] = [
+  {
+    id: "bp-omron-001",
+    slug: "upper-arm-digital-blood-pressure-monitor",
+    name: "Upper-Arm Digital Blood Pressure Monitor",
+    image: bpImg,
+    price: 5500,
+    originalPrice: 7500,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Monitoring",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: [],
+    inStock: true,
+    stockQuantity: 12,
+    rating: 4.5,
+  },
+  {
+    id: "glucometer-001",
+    slug: "blood-glucose-meter-kit",
+    name: "Blood Glucose Meter Kit",
+    image: glucoseMeterImg,
+    price: 2200,
+    originalPrice: 2800,
+    packSize: "Kit",
+    category: "equipment",
+    subcategory: "Diabetes Care",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+    stockQuantity: 30,
+    rating: 4.4,
+  },
+  {
+    id: "oximeter-001",
+    slug: "finger-pulse-oximeter",
+    name: "Finger Pulse Oximeter",
+    image: oximeterImg,
+    price: 900,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Monitoring",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 40,
+    rating: 4.3,
+  },
+  {
+    id: "nebulizer-001",
+    slug: "portable-nebulizer",
+    name: "Portable Nebulizer",
+    image: portableNebulizerImg,
+    price: 3500,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Respiratory",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 18,
+    rating: 4.1,
+  },
+  {
+    id: "stethoscope-001",
+    slug: "clinical-stethoscope",
+    name: "Clinical Stethoscope",
+    image: stethoscopeImg,
+    price: 1800,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Diagnostics",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 22,
+    rating: 4.6,
+  },
+  {
+    id: "scale-digital-001",
+    slug: "digital-body-weight-scale",
+    name: "Digital Body Weight Scale",
+    image: weifgtScaleImg,
+    price: 2400,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Monitoring",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 16,
+    weightKg: 2,
+    rating: 4,
+  },
+  {
+    id: "walker-001",
+    slug: "adjustable-walker",
+    name: "Adjustable Walker",
+    image: wheelchairImg,
+    price: 4200,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Mobility Aids",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 8,
+    weightKg: 5,
+    bulky: true,
+    rating: 4.1,
+  },
+  {
+    id: "wheelchair-basic-001",
+    slug: "manual-wheelchair",
+    name: "Manual Wheelchair",
+    image: walkerImg,
+    price: 12500,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Mobility Aids",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 4,
+    weightKg: 16,
+    bulky: true,
+    rating: 4.2,
+  },
+  {
+    id: "oxygen-conc-001",
+    slug: "portable-oxygen-concentrator-lightweight",
+    name: "Portable Oxygen Concentrator (Lightweight)",
+    image: portableOxygenConcentratorImg,
+    price: 85000,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Respiratory",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 2,
+    weightKg: 7,
+    bulky: true,
+    rating: 4.4,
+  },
+  {
+    id: "firstaid-001",
+    slug: "first-aid-kit-household-120-pcs",
+    name: "First Aid Kit (Household, 120 pcs)",
+    image: firstAidKitImg,
+    price: 1500,
+    packSize: "Kit",
+    category: "equipment",
+    subcategory: "First Aid",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 60,
+    rating: 4.7,
+  },
+  {
+    id: "infusion-pump-001",
+    slug: "home-infusion-pump-ambulatory",
+    name: "Home Infusion Pump (Ambulatory)",
+    image: homeInfusionPumpAmbulatoryImg,
+    price: 42000,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Therapy",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 1,
+    weightKg: 3,
+    rating: 4.3,
+  },
+  {
+    id: "tens-001",
+    slug: "tens-unit-pain-relief-electrotherapy",
+    name: "TENS Unit (Pain Relief Electrotherapy)",
+    image: tensUnitPainReliefElectrotherapyImg,
+    price: 2100,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Therapy",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 20,
+    rating: 4.1,
+  },
+  {
+    id: "suction-001",
+    slug: "portable-suction-device-emergency",
+    name: "Portable Suction Device (Emergency)",
+    image: suctionImg,
+    price: 5600,
+    packSize: "Unit",
+    category: "equipment",
+    subcategory: "Emergency",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    stockQuantity: 6,
+    weightKg: 4,
+    rating: 4,
+  },
+];
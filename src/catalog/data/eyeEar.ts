@@ -0,0 +1,187 @@
+// src/catalog/data/eyeEar.ts
+
+import type { Product } from "../types";
+
+import ceraveCleanserImg from "../../assets/products/cerave-cleanser.png";
+import ordinarySerumImg from "../../assets/products/ordinary-serum.png";
+import larocheMoisturizerImg from "../../assets/products/laroche-moisturizer.png";
+import neutrogenaSunscreenImg from "../../assets/products/neutrogena-sunscreen.png";
+import tatchaCreamImg from "../../assets/products/tatcha-cream.png";
+import olayRetinolImg from "../../assets/products/olay-retinol.png";
+import paulasChoiceImg from "../../assets/products/paulas-choice.png";
+import elfHydratingImg from "../../assets/products/elf-hydrating.png";
+import innisfreeSerumImg from "../../assets/products/innisfree-serum.png";
+import drunkElephantImg from "../../assets/products/drunk-elephant.png";
+import fentyCleanserImg from "../../assets/products/fenty-cleanser.png";
+import aveenoDailyImg from "../../assets/products/aveeno-daily.png";
+
+/** Eye and ear drops and ointments. */
+export const eyeEarProducts: Product[] = [
+  {
+    id: "tobradex-eye-drops-tobramycin-plus-dexamethasone",
+    slug: "tobradex-eye-drops-tobramycin-plus-dexamethasone",
+    name: "Tobradex Eye Drops (Tobramycin + Dexamethasone)",
+    image: ceraveCleanserImg,
+    price: 950,
+    originalPrice: 1050,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ciprofloxacin-eye-ear-drops-0-3-pct",
+    slug: "ciprofloxacin-eye-ear-drops-0-3-pct",
+    name: "Ciprofloxacin Eye/Ear Drops 0.3%",
+    image: ordinarySerumImg,
+    price: 650,
+    originalPrice: 740,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "gentamicin-eye-ear-drops-0-3-pct",
+    slug: "gentamicin-eye-ear-drops-0-3-pct",
+    name: "Gentamicin Eye/Ear Drops 0.3%",
+    image: larocheMoisturizerImg,
+    price: 500,
+    originalPrice: 560,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "chloramphenicol-eye-ointment-1-pct",
+    slug: "chloramphenicol-eye-ointment-1-pct",
+    name: "Chloramphenicol Eye Ointment 1%",
+    image: neutrogenaSunscreenImg,
+    price: 450,
+    originalPrice: 530,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "floxin-otic-drops-ofloxacin-0-3-pct",
+    slug: "floxin-otic-drops-ofloxacin-0-3-pct",
+    name: "Floxin Otic Drops (Ofloxacin 0.3%)",
+    image: tatchaCreamImg,
+    price: 1100,
+    originalPrice: 1220,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "tobramycin-eye-drops-0-3-pct",
+    slug: "tobramycin-eye-drops-0-3-pct",
+    name: "Tobramycin Eye Drops 0.3%",
+    image: olayRetinolImg,
+    price: 700,
+    originalPrice: 780,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "neomycin-plus-polymyxin-b-plus-dexamethasone-ear-drops",
+    slug: "neomycin-plus-polymyxin-b-plus-dexamethasone-ear-drops",
+    name: "Neomycin + Polymyxin B + Dexamethasone Ear Drops",
+    image: paulasChoiceImg,
+    price: 850,
+    originalPrice: 960,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "erythromycin-eye-ointment-0-5-pct",
+    slug: "erythromycin-eye-ointment-0-5-pct",
+    name: "Erythromycin Eye Ointment 0.5%",
+    image: elfHydratingImg,
+    price: 600,
+    originalPrice: 670,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ketotifen-eye-drops-allergy-relief",
+    slug: "ketotifen-eye-drops-allergy-relief",
+    name: "Ketotifen Eye Drops (Allergy Relief)",
+    image: innisfreeSerumImg,
+    price: 750,
+    originalPrice: 820,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "otomize-ear-spray-neomycin-plus-dexamethasone-plus-acetic-acid",
+    slug: "otomize-ear-spray-neomycin-plus-dexamethasone-plus-acetic-acid",
+    name: "Otomize Ear Spray (Neomycin + Dexamethasone + Acetic Acid)",
+    image: drunkElephantImg,
+    price: 1250,
+    originalPrice: 1380,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "moxifloxacin-eye-drops-0-5-pct-vigamox-generic",
+    slug: "moxifloxacin-eye-drops-0-5-pct-vigamox-generic",
+    name: "Moxifloxacin Eye Drops 0.5% (Vigamox Generic)",
+    image: fentyCleanserImg,
+    price: 1450,
+    originalPrice: 1640,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "sofradex-ear-eye-drops-framycetin-plus-dexamethasone-plus-gramicidin",
+    slug: "sofradex-ear-eye-drops-framycetin-plus-dexamethasone-plus-gramicidin",
+    name: "Sofradex Ear/Eye Drops (Framycetin + Dexamethasone + Gramicidin)",
+    image: aveenoDailyImg,
+    price: 950,
+    originalPrice: 1050,
+    category: "medicine",
+    bodySystems: ["eye-ear"],
+    conditions: ["eye-ear-care"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
@@ -0,0 +1,150 @@
+// src/catalog/data/gastrointestinal.ts
+
+import type { Product } from "../types";
+
+import omeprazoleImg from "../../assets/products/Omeprazole.png";
+import pantoprazoleImg from "../../assets/products/Pantoprazole.png";
+import metronidazoleGelImg from "../../assets/products/metronidazole-gel.png";
+import amoxicillinClavulanicAcidAugmentin625mgImg from "../../assets/products/Amoxicillin-Clavulanic Acid (Augmentin) 625mg.png";
+import loperamideImg from "../../assets/products/Loperamide.png";
+import ondansetronImg from "../../assets/products/Ondansetron.png";
+import esomeprazoleImg from "../../assets/products/Esomeprazole.png";
+import ors1Img from "../../assets/products/ORS1.png";
+import probioticImg from "../../assets/products/Probiotic.png";
+
+/** Digestive system medicines. */
+export const gastrointestinalProducts: Product[] = [
+  {
+    id: "omeprazole-20mg-capsules-losec",
+    slug: "omeprazole-20mg-capsules-losec",
+    name: "Omeprazole 20mg Capsules (Losec®)",
+    image: omeprazoleImg,
+    price: 350,
+    category: "medicine",
+    subcategory: "Proton Pump Inhibitor (PPI)",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "pantoprazole-40mg-tablets-protonix",
+    slug: "pantoprazole-40mg-tablets-protonix",
+    name: "Pantoprazole 40mg Tablets (Protonix®)",
+    image: pantoprazoleImg,
+    price: 420,
+    category: "medicine",
+    subcategory: "Proton Pump Inhibitor (PPI)",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "metronidazole-400mg-tablets-flagyl",
+    slug: "metronidazole-400mg-tablets-flagyl",
+    name: "Metronidazole 400mg Tablets (Flagyl®)",
+    image: metronidazoleGelImg,
+    price: 250,
+    category: "medicine",
+    subcategory: "Antibiotic / Antiprotozoal",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "amoxicillin-clavulanate-625mg-tabs-augmentin",
+    slug: "amoxicillin-clavulanate-625mg-tabs-augmentin",
+    name: "Amoxicillin-Clavulanate 625mg Tabs (Augmentin®)",
+    image: amoxicillinClavulanicAcidAugmentin625mgImg,
+    price: 850,
+    category: "medicine",
+    subcategory: "Antibiotic (Broad-Spectrum)",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "loperamide-2mg-capsules-imodium",
+    slug: "loperamide-2mg-capsules-imodium",
+    name: "Loperamide 2mg Capsules (Imodium®)",
+    image: loperamideImg,
+    price: 300,
+    category: "medicine",
+    subcategory: "Antidiarrheal",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "domperidone-10mg-tablets-motilium",
+    slug: "domperidone-10mg-tablets-motilium",
+    name: "Domperidone 10mg Tablets (Motilium®)",
+    image: omeprazoleImg,
+    price: 280,
+    category: "medicine",
+    subcategory: "Prokinetic / Antiemetic",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "ondansetron-8mg-tablets-zofran",
+    slug: "ondansetron-8mg-tablets-zofran",
+    name: "Ondansetron 8mg Tablets (Zofran®)",
+    image: ondansetronImg,
+    price: 650,
+    category: "medicine",
+    subcategory: "Antiemetic (5-HT3 Antagonist)",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "esomeprazole-40mg-tablets-nexium",
+    slug: "esomeprazole-40mg-tablets-nexium",
+    name: "Esomeprazole 40mg Tablets (Nexium®)",
+    image: esomeprazoleImg,
+    price: 520,
+    category: "medicine",
+    subcategory: "Proton Pump Inhibitor (PPI)",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "oral-rehydration-salts-ors",
+    slug: "oral-rehydration-salts-ors",
+    name: "Oral Rehydration Salts (ORS)",
+    image: ors1Img,
+    price: 100,
+    category: "medicine",
+    subcategory: "Electrolyte Rehydration",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "probiotic-capsules-e-g-lactobacillus-gg-florastor",
+    slug: "probiotic-capsules-e-g-lactobacillus-gg-florastor",
+    name: "Probiotic Capsules (e.g., Lactobacillus GG / Florastor®)",
+    image: probioticImg,
+    price: 900,
+    category: "medicine",
+    subcategory: "Gut Flora Support / Diarrhea Management",
+    bodySystems: ["gastrointestinal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+];
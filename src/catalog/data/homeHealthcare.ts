@@ -0,0 +1,233 @@
+// src/catalog/data/homeHealthcare.ts
+
+import type { Product } from "../types";
+
+import oneTouchSelectPlusGlucometerKitImg from "../../assets/products/OneTouchSelectPlusGlucometerKit.png";
+import iProvenDigitalThermometerImg from "../../assets/products/iProvenDigitalThermometer.png";
+import firstAidKitEssentials110PcsImg from "../../assets/products/First Aid Kit Essentials (110 pcs).png";
+import swiftPregnancyTestKitImg from "../../assets/products/Swift-Pregnancy-Test-Kit.png";
+import omronBronzeBloodPressurMonitorImg from "../../assets/products/OmronBronzeBloodPressurMonitor.png";
+import accuChekSoftclixLancetsImg from "../../assets/products/Accu-ChekSoftclixLancets.png";
+import elastoplastSensitivePlastersImg from "../../assets/products/ElastoplastSensitivePlasters.png";
+import vickswarmmisthumidifierImg from "../../assets/products/Vickswarmmisthumidifier.png";
+import omronpeakflowmeterImg from "../../assets/products/Omronpeakflowmeter.png";
+import purellAdvancedHandSanitizerImg from "../../assets/products/PurellAdvancedHandSanitizer.png";
+import covid19TestImg from "../../assets/products/Covid19Test.png";
+import electricHeatingPadForBackPainImg from "../../assets/products/ElectricHeatingPadForBack Pain.png";
+import pulseOximeterImg from "../../assets/products/PulseOximeter.png";
+import gelPackImg from "../../assets/products/GelPack.png";
+import walkingCaneImg from "../../assets/products/WalkingCane.png";
+
+/** Home healthcare devices and consumables. */
+export const homeHealthcareProducts: Product[] = [
+  {
+    id: "onetouch-select-plus-glucometer-kit",
+    slug: "onetouch-select-plus-glucometer-kit",
+    name: "OneTouch Select Plus Glucometer Kit",
+    brand: "OneTouch",
+    description: "Accurate blood glucose monitoring kit with test strips and lancets.",
+    image: oneTouchSelectPlusGlucometerKitImg,
+    price: 4500,
+    category: "home-healthcare",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "iproven-digital-thermometer",
+    slug: "iproven-digital-thermometer",
+    name: "iProven Digital Thermometer",
+    brand: "iProven",
+    description: "Fast and reliable thermometer for adults and children.",
+    image: iProvenDigitalThermometerImg,
+    price: 950,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "first-aid-kit-essentials-110-pcs",
+    slug: "first-aid-kit-essentials-110-pcs",
+    name: "First Aid Kit Essentials (110 pcs)",
+    brand: "Johnson & Johnson",
+    description: "Comprehensive first aid kit with bandages, scissors, and antiseptics.",
+    image: firstAidKitEssentials110PcsImg,
+    price: 3200,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "swift-pregnancy-test-kit-cassette",
+    slug: "swift-pregnancy-test-kit-cassette",
+    name: "Swift Pregnancy Test Kit (Cassette)",
+    brand: "Pharmaplus",
+    description: "Accurate early pregnancy detection kit for home use.",
+    image: swiftPregnancyTestKitImg,
+    price: 250,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "omron-bronze-blood-pressure-monitor",
+    slug: "omron-bronze-blood-pressure-monitor",
+    name: "Omron Bronze Blood Pressure Monitor",
+    brand: "Omron",
+    description: "Clinically validated BP monitor with one-touch digital operation.",
+    image: omronBronzeBloodPressurMonitorImg,
+    price: 8500,
+    category: "home-healthcare",
+    bodySystems: ["cardiovascular"],
+    conditions: ["hypertension"],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "accu-chek-softclix-lancets-100s",
+    slug: "accu-chek-softclix-lancets-100s",
+    name: "Accu-Chek Softclix Lancets (100s)",
+    brand: "Accu-Chek",
+    description: "Gentle, precise lancets for blood glucose testing.",
+    image: accuChekSoftclixLancetsImg,
+    price: 1800,
+    category: "home-healthcare",
+    bodySystems: ["endocrine"],
+    conditions: ["diabetes"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "elastoplast-sensitive-plasters-20s",
+    slug: "elastoplast-sensitive-plasters-20s",
+    name: "Elastoplast Sensitive Plasters (20s)",
+    brand: "Elastoplast",
+    description: "Hypoallergenic plasters ideal for sensitive skin.",
+    image: elastoplastSensitivePlastersImg,
+    price: 600,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "vicks-warm-mist-humidifier",
+    slug: "vicks-warm-mist-humidifier",
+    name: "Vicks Warm Mist Humidifier",
+    brand: "Vicks",
+    description: "Adds moisture and relieves dry throat and nasal irritation.",
+    image: vickswarmmisthumidifierImg,
+    price: 9500,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "omron-peak-flow-meter",
+    slug: "omron-peak-flow-meter",
+    name: "Omron Peak Flow Meter",
+    brand: "Omron",
+    description: "Monitors lung function for asthma and respiratory care.",
+    image: omronpeakflowmeterImg,
+    price: 4200,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "purell-advanced-hand-sanitizer-500ml",
+    slug: "purell-advanced-hand-sanitizer-500ml",
+    name: "Purell Advanced Hand Sanitizer (500ml)",
+    brand: "Purell",
+    description: "Kills 99.9% of germs instantly while keeping hands moisturized.",
+    image: purellAdvancedHandSanitizerImg,
+    price: 650,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "covid-19-rapid-antigen-test-kit",
+    slug: "covid-19-rapid-antigen-test-kit",
+    name: "COVID-19 Rapid Antigen Test Kit",
+    brand: "Abbott",
+    description: "Approved rapid test for accurate COVID-19 detection.",
+    image: covid19TestImg,
+    price: 1200,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "electric-heating-pad-for-back-pain",
+    slug: "electric-heating-pad-for-back-pain",
+    name: "Electric Heating Pad for Back Pain",
+    brand: "Sunbeam",
+    description: "Adjustable heat therapy pad for muscle and joint pain.",
+    image: electricHeatingPadForBackPainImg,
+    price: 3800,
+    category: "home-healthcare",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "pulse-oximeter-fingertip",
+    slug: "pulse-oximeter-fingertip",
+    name: "Pulse Oximeter Fingertip",
+    brand: "Contec",
+    description: "Instant oxygen saturation and pulse rate monitor.",
+    image: pulseOximeterImg,
+    price: 2500,
+    category: "home-healthcare",
+    bodySystems: [],
+    conditions: [],
+    tags: ["trending"],
+    inStock: true,
+  },
+  {
+    id: "reusable-hot-and-cold-gel-pack",
+    slug: "reusable-hot-and-cold-gel-pack",
+    name: "Reusable Hot & Cold Gel Pack",
+    brand: "TheraPearl",
+    description: "Flexible, reusable gel pack for pain and swelling relief.",
+    image: gelPackImg,
+    price: 950,
+    category: "home-healthcare",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "medline-adjustable-walking-cane",
+    slug: "medline-adjustable-walking-cane",
+    name: "Medline Adjustable Walking Cane",
+    brand: "Medline",
+    description: "Lightweight aluminum cane for improved balance and mobility.",
+    image: walkingCaneImg,
+    price: 4800,
+    category: "home-healthcare",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+];
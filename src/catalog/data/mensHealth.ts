@@ -0,0 +1,222 @@
+// src/catalog/data/mensHealth.ts
+
+import type { Product } from "../types";
+
+import multivitaminImg from "../../assets/mens/multivitamin.png";
+import omega3Img from "../../assets/mens/omega3.png";
+import zincImg from "../../assets/mens/zinc.png";
+import vitaminDImg from "../../assets/mens/vitaminD.png";
+import sawPalmettoImg from "../../assets/mens/sawPalmetto.png";
+import tadalafilImg from "../../assets/mens/tadalafil.png";
+import sildenafilImg from "../../assets/mens/sildenafil.png";
+import testosteroneGelImg from "../../assets/mens/testosteroneGel.png";
+import finasterideImg from "../../assets/mens/finasteride.png";
+import minoxidilImg from "../../assets/mens/minoxidil.png";
+import ashwagandhaImg from "../../assets/mens/ashwagandha.png";
+import coq10Img from "../../assets/mens/coq10.png";
+import probioticsImg from "../../assets/mens/probiotics.png";
+import magnesiumImg from "../../assets/mens/magnesium.png";
+import lArginineImg from "../../assets/mens/l'Arginine.png";
+
+/** Men's health medicines and supplements. */
+export const mensHealthProducts: Product[] = [
+  {
+    id: "mens-multivitamin-complex",
+    slug: "mens-multivitamin-complex",
+    name: "Men’s Multivitamin Complex",
+    image: multivitaminImg,
+    price: 1450,
+    category: "vitamins-supplements",
+    subcategory: "Daily Vitality",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "omega-3-fish-oil-epa-plus-dha",
+    slug: "omega-3-fish-oil-epa-plus-dha",
+    name: "Omega-3 Fish Oil (EPA + DHA)",
+    image: omega3Img,
+    price: 1750,
+    category: "vitamins-supplements",
+    subcategory: "Cardiovascular Support",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "zinc-gluconate-50mg",
+    slug: "zinc-gluconate-50mg",
+    name: "Zinc Gluconate 50mg",
+    image: zincImg,
+    price: 850,
+    category: "vitamins-supplements",
+    subcategory: "Immune & Testosterone Support",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "vitamin-d3-5000-iu",
+    slug: "vitamin-d3-5000-iu",
+    name: "Vitamin D3 5000 IU",
+    image: vitaminDImg,
+    price: 980,
+    category: "vitamins-supplements",
+    subcategory: "Bone & Hormonal Health",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "saw-palmetto-extract",
+    slug: "saw-palmetto-extract",
+    name: "Saw Palmetto Extract",
+    image: sawPalmettoImg,
+    price: 1300,
+    category: "vitamins-supplements",
+    subcategory: "Prostate Health",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "tadalafil-cialis",
+    slug: "tadalafil-cialis",
+    name: "Tadalafil (Cialis)",
+    image: tadalafilImg,
+    price: 2850,
+    category: "medicine",
+    subcategory: "Erectile Dysfunction",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "sildenafil-viagra",
+    slug: "sildenafil-viagra",
+    name: "Sildenafil (Viagra)",
+    image: sildenafilImg,
+    price: 2600,
+    category: "medicine",
+    subcategory: "Erectile Dysfunction",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "testosterone-gel-androgel",
+    slug: "testosterone-gel-androgel",
+    name: "Testosterone Gel (AndroGel)",
+    image: testosteroneGelImg,
+    price: 4850,
+    category: "medicine",
+    subcategory: "Hormonal Therapy",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "finasteride-propecia",
+    slug: "finasteride-propecia",
+    name: "Finasteride (Propecia)",
+    image: finasterideImg,
+    price: 2200,
+    category: "medicine",
+    subcategory: "Hair & Prostate Health",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "minoxidil-5-pct-solution",
+    slug: "minoxidil-5-pct-solution",
+    name: "Minoxidil 5% Solution",
+    image: minoxidilImg,
+    price: 1850,
+    category: "medicine",
+    subcategory: "Hair Regrowth",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "ashwagandha-root-extract",
+    slug: "ashwagandha-root-extract",
+    name: "Ashwagandha Root Extract",
+    image: ashwagandhaImg,
+    price: 1100,
+    category: "vitamins-supplements",
+    subcategory: "Stress & Libido Support",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "coenzyme-q10-coq10",
+    slug: "coenzyme-q10-coq10",
+    name: "Coenzyme Q10 (CoQ10)",
+    image: coq10Img,
+    price: 1600,
+    category: "vitamins-supplements",
+    subcategory: "Heart & Energy Support",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "probiotic-blend-mens-gut-health",
+    slug: "probiotic-blend-mens-gut-health",
+    name: "Probiotic Blend (Men’s Gut Health)",
+    image: probioticsImg,
+    price: 1450,
+    category: "vitamins-supplements",
+    subcategory: "Digestive Health",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "magnesium-citrate-400mg",
+    slug: "magnesium-citrate-400mg",
+    name: "Magnesium Citrate 400mg",
+    image: magnesiumImg,
+    price: 950,
+    category: "vitamins-supplements",
+    subcategory: "Muscle & Nerve Function",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "l-arginine-1000mg",
+    slug: "l-arginine-1000mg",
+    name: "L-Arginine 1000mg",
+    image: lArginineImg,
+    price: 1250,
+    category: "vitamins-supplements",
+    subcategory: "Circulatory & Performance",
+    bodySystems: [],
+    conditions: ["mens-health"],
+    tags: [],
+    inStock: true,
+  },
+];
@@ -0,0 +1,60 @@
+// src/catalog/data/musculoskeletal.ts
+
+import type { Product } from "../types";
+
+
+/** Joint supplements and musculoskeletal care. */
+export const musculoskeletalProducts: Product[] = [
+  {
+    id: "cartil-omega-30s",
+    slug: "cartil-omega-30s",
+    name: "Cartil Omega 30’s",
+    image: "/images/cartil-omega.jpg",
+    price: 2395,
+    category: "vitamins-supplements",
+    subcategory: "Joint Supplements",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "cartil-collagen-caps-30s",
+    slug: "cartil-collagen-caps-30s",
+    name: "Cartil Collagen Caps 30’s",
+    image: "/images/cartil-collagen.jpg",
+    price: 2747,
+    category: "vitamins-supplements",
+    subcategory: "Joint Supplements",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "cartimove-d-tabs-30s",
+    slug: "cartimove-d-tabs-30s",
+    name: "Cartimove-D Tabs 30’s",
+    image: "/images/cartimove-d.jpg",
+    price: 1714,
+    category: "vitamins-supplements",
+    subcategory: "Joint Supplements",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "cartimove-tabs-30s",
+    slug: "cartimove-tabs-30s",
+    name: "Cartimove Tabs 30’s",
+    image: "/images/cartimove.jpg",
+    price: 1420,
+    category: "vitamins-supplements",
+    subcategory: "Joint Supplements",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+];
@@ -0,0 +1,128 @@
+// src/catalog/data/nervous.ts
+
+import type { Product } from "../types";
+
+import sertralineImg from "../../assets/products/sertraline.png";
+import alprazolamImg from "../../assets/products/alprazolam.png";
+import gabapentinImg from "../../assets/products/gabapentin.png";
+import duloxetineImg from "../../assets/products/duloxetine.png";
+import olanzapineImg from "../../assets/products/olanzapine.png";
+import levetiracetamImg from "../../assets/products/levetiracetam.png";
+import donepezilImg from "../../assets/products/donepezil.png";
+import fluoxetineImg from "../../assets/products/fluoxetine.png";
+
+/** Nervous system medicines. */
+export const nervousProducts: Product[] = [
+  {
+    id: "sertraline-zoloft",
+    slug: "sertraline-zoloft",
+    name: "Sertraline (Zoloft)",
+    image: sertralineImg,
+    price: 1820,
+    category: "medicine",
+    subcategory: "Antidepressant (SSRI)",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "alprazolam-xanax",
+    slug: "alprazolam-xanax",
+    name: "Alprazolam (Xanax)",
+    image: alprazolamImg,
+    price: 960,
+    category: "medicine",
+    subcategory: "Anxiolytic (Benzodiazepine)",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "gabapentin-neurontin",
+    slug: "gabapentin-neurontin",
+    name: "Gabapentin (Neurontin)",
+    image: gabapentinImg,
+    price: 2100,
+    category: "medicine",
+    subcategory: "Anticonvulsant / Neuropathic Pain",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "duloxetine-cymbalta",
+    slug: "duloxetine-cymbalta",
+    name: "Duloxetine (Cymbalta)",
+    image: duloxetineImg,
+    price: 2350,
+    category: "medicine",
+    subcategory: "Antidepressant / Nerve Pain",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "olanzapine-zyprexa",
+    slug: "olanzapine-zyprexa",
+    name: "Olanzapine (Zyprexa)",
+    image: olanzapineImg,
+    price: 2640,
+    category: "medicine",
+    subcategory: "Antipsychotic (Schizophrenia, Bipolar)",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "levetiracetam-keppra",
+    slug: "levetiracetam-keppra",
+    name: "Levetiracetam (Keppra)",
+    image: levetiracetamImg,
+    price: 1980,
+    category: "medicine",
+    subcategory: "Antiepileptic",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "donepezil-aricept",
+    slug: "donepezil-aricept",
+    name: "Donepezil (Aricept)",
+    image: donepezilImg,
+    price: 2890,
+    category: "medicine",
+    subcategory: "Cognitive Enhancer (Alzheimer’s)",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "fluoxetine-prozac",
+    slug: "fluoxetine-prozac",
+    name: "Fluoxetine (Prozac)",
+    image: fluoxetineImg,
+    price: 1750,
+    category: "medicine",
+    subcategory: "Antidepressant (SSRI)",
+    bodySystems: ["nervous"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
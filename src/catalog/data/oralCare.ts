@@ -0,0 +1,218 @@
+// src/catalog/data/oralCare.ts
+
+import type { Product } from "../types";
+
+import ceraveCleanserImg from "../../assets/products/cerave-cleanser.png";
+import ordinarySerumImg from "../../assets/products/ordinary-serum.png";
+import larocheMoisturizerImg from "../../assets/products/laroche-moisturizer.png";
+import neutrogenaSunscreenImg from "../../assets/products/neutrogena-sunscreen.png";
+import tatchaCreamImg from "../../assets/products/tatcha-cream.png";
+import olayRetinolImg from "../../assets/products/olay-retinol.png";
+import paulasChoiceImg from "../../assets/products/paulas-choice.png";
+import elfHydratingImg from "../../assets/products/elf-hydrating.png";
+import innisfreeSerumImg from "../../assets/products/innisfree-serum.png";
+import drunkElephantImg from "../../assets/products/drunk-elephant.png";
+import fentyCleanserImg from "../../assets/products/fenty-cleanser.png";
+import aveenoDailyImg from "../../assets/products/aveeno-daily.png";
+import glowRecipeImg from "../../assets/products/glow-recipe.png";
+import cosrxSnailImg from "../../assets/products/cosrx-snail.png";
+import firstAidBeautyImg from "../../assets/products/first-aid-beauty.png";
+
+/** Oral hygiene products. */
+export const oralCareProducts: Product[] = [
+  {
+    id: "colgate-total-whitening-toothpaste-120g",
+    slug: "colgate-total-whitening-toothpaste-120g",
+    name: "Colgate Total Whitening Toothpaste 120g",
+    image: ceraveCleanserImg,
+    price: 650,
+    originalPrice: 720,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "sensodyne-repair-and-protect-toothpaste-100g",
+    slug: "sensodyne-repair-and-protect-toothpaste-100g",
+    name: "Sensodyne Repair & Protect Toothpaste 100g",
+    image: ordinarySerumImg,
+    price: 950,
+    originalPrice: 1080,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "oral-b-pro-health-toothbrush-medium-bristles",
+    slug: "oral-b-pro-health-toothbrush-medium-bristles",
+    name: "Oral-B Pro-Health Toothbrush (Medium Bristles)",
+    image: larocheMoisturizerImg,
+    price: 500,
+    originalPrice: 560,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "listerine-cool-mint-mouthwash-500ml",
+    slug: "listerine-cool-mint-mouthwash-500ml",
+    name: "Listerine Cool Mint Mouthwash 500ml",
+    image: neutrogenaSunscreenImg,
+    price: 1100,
+    originalPrice: 1290,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "colgate-plax-fresh-tea-mouthwash-500ml",
+    slug: "colgate-plax-fresh-tea-mouthwash-500ml",
+    name: "Colgate Plax Fresh Tea Mouthwash 500ml",
+    image: tatchaCreamImg,
+    price: 950,
+    originalPrice: 1050,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "crest-3d-white-brilliance-toothpaste-116g",
+    slug: "crest-3d-white-brilliance-toothpaste-116g",
+    name: "Crest 3D White Brilliance Toothpaste 116g",
+    image: olayRetinolImg,
+    price: 1200,
+    originalPrice: 1340,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "oral-b-glide-pro-health-dental-floss-40m",
+    slug: "oral-b-glide-pro-health-dental-floss-40m",
+    name: "Oral-B Glide Pro-Health Dental Floss 40m",
+    image: paulasChoiceImg,
+    price: 650,
+    originalPrice: 740,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "sensodyne-fresh-mint-toothpaste-100g",
+    slug: "sensodyne-fresh-mint-toothpaste-100g",
+    name: "Sensodyne Fresh Mint Toothpaste 100g",
+    image: elfHydratingImg,
+    price: 900,
+    originalPrice: 1000,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "therabreath-fresh-breath-oral-rinse-473ml",
+    slug: "therabreath-fresh-breath-oral-rinse-473ml",
+    name: "TheraBreath Fresh Breath Oral Rinse 473ml",
+    image: innisfreeSerumImg,
+    price: 1650,
+    originalPrice: 1790,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "colgate-360-total-advanced-toothbrush",
+    slug: "colgate-360-total-advanced-toothbrush",
+    name: "Colgate 360° Total Advanced Toothbrush",
+    image: drunkElephantImg,
+    price: 700,
+    originalPrice: 780,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "oral-b-electric-toothbrush-vitality-crossaction",
+    slug: "oral-b-electric-toothbrush-vitality-crossaction",
+    name: "Oral-B Electric Toothbrush Vitality CrossAction",
+    image: fentyCleanserImg,
+    price: 3800,
+    originalPrice: 4300,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "crest-pro-health-advanced-mouthwash-1l",
+    slug: "crest-pro-health-advanced-mouthwash-1l",
+    name: "Crest Pro-Health Advanced Mouthwash 1L",
+    image: aveenoDailyImg,
+    price: 1450,
+    originalPrice: 1600,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "colgate-optic-white-renewal-toothpaste-85g",
+    slug: "colgate-optic-white-renewal-toothpaste-85g",
+    name: "Colgate Optic White Renewal Toothpaste 85g",
+    image: glowRecipeImg,
+    price: 1150,
+    originalPrice: 1280,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "toms-of-maine-fluoride-free-toothpaste-100g",
+    slug: "toms-of-maine-fluoride-free-toothpaste-100g",
+    name: "Tom’s of Maine Fluoride-Free Toothpaste 100g",
+    image: cosrxSnailImg,
+    price: 1050,
+    originalPrice: 1190,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "gum-soft-picks-advanced-dental-picks-60-pack",
+    slug: "gum-soft-picks-advanced-dental-picks-60-pack",
+    name: "GUM Soft-Picks Advanced Dental Picks (60 pack)",
+    image: firstAidBeautyImg,
+    price: 850,
+    originalPrice: 940,
+    category: "general-hygiene",
+    bodySystems: ["oral"],
+    conditions: ["oral-hygiene"],
+    tags: [],
+    inStock: true,
+  },
+];
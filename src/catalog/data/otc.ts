@@ -0,0 +1,400 @@
+// src/catalog/data/otc.ts
+
+import type { Product } from "../types";
+
+import ibuprofenImg from "../../assets/products/OTC/Ibuprofen.png";
+import acetaminophenImg from "../../assets/products/OTC/Acetaminophen.png";
+import loratadineImg from "../../assets/products/OTC/Loratadine.png";
+import diphenhydramineImg from "../../assets/products/OTC/Diphenhydramine.png";
+import famotidineImg from "../../assets/products/OTC/Famotidine.png";
+import omeprazoleImg from "../../assets/products/OTC/Omeprazole.png";
+import loperamideImg from "../../assets/products/OTC/Loperamide.png";
+import psylliumImg from "../../assets/products/OTC/Psyllium.png";
+import peptoImg from "../../assets/products/OTC/Pepto.png";
+import dextromethorphanImg from "../../assets/products/OTC/Dextromethorphan.png";
+import guaifenesinImg from "../../assets/products/OTC/Guaifenesin.png";
+import acetylsalicylicImg from "../../assets/products/OTC//Acetylsalicylic.png";
+import hydrocortisoneImg from "../../assets/products/OTC/Hydrocortisone.png";
+import neosporinImg from "../../assets/products/OTC/Neosporin.png";
+import planBImg from "../../assets/products/OTC/PlanB.png";
+import nicotinepatchImg from "../../assets/products/OTC/Nicotinepatch.png";
+import melatoninImg from "../../assets/products/OTC/Melatonin.png";
+import vitaminCImg from "../../assets/products/OTC/VitaminC.png";
+import salinesprayImg from "../../assets/products/OTC/Salinespray.png";
+import zincImg from "../../assets/products/OTC/Zinc.png";
+import allergyImg from "../../assets/products/Allergy.png";
+import antheliosImg from "../../assets/products/Anthelios.png";
+import contraceptionImg from "../../assets/products/Contraception.png";
+import coughImg from "../../assets/products/Cough.png";
+import headacheImg from "../../assets/products/Headache.png";
+import enoImg from "../../assets/products/Eno.png";
+import diclofenacImg from "../../assets/products/Diclofenac.png";
+import utiImg from "../../assets/products/UTI.png";
+
+/** Over-the-counter medicines. */
+export const otcProducts: Product[] = [
+  {
+    id: "ibuprofen-advil-motrin-pain-and-inflammation",
+    slug: "ibuprofen-advil-motrin-pain-and-inflammation",
+    name: "Ibuprofen (Advil®, Motrin®) – Pain & Inflammation",
+    image: ibuprofenImg,
+    price: 490,
+    originalPrice: 560,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "acetaminophen-tylenol-pain-and-fever",
+    slug: "acetaminophen-tylenol-pain-and-fever",
+    name: "Acetaminophen (Tylenol®) – Pain & Fever",
+    image: acetaminophenImg,
+    price: 450,
+    originalPrice: 510,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "loratadine-claritin-allergy-relief",
+    slug: "loratadine-claritin-allergy-relief",
+    name: "Loratadine (Claritin®) – Allergy Relief",
+    image: loratadineImg,
+    price: 780,
+    originalPrice: 850,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "diphenhydramine-benadryl-sleep-and-allergy",
+    slug: "diphenhydramine-benadryl-sleep-and-allergy",
+    name: "Diphenhydramine (Benadryl®) – Sleep & Allergy",
+    image: diphenhydramineImg,
+    price: 620,
+    originalPrice: 700,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "famotidine-pepcid-heartburn-relief",
+    slug: "famotidine-pepcid-heartburn-relief",
+    name: "Famotidine (Pepcid®) – Heartburn Relief",
+    image: famotidineImg,
+    price: 350,
+    originalPrice: 410,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "omeprazole-prilosec-acid-reflux",
+    slug: "omeprazole-prilosec-acid-reflux",
+    name: "Omeprazole (Prilosec®) – Acid Reflux",
+    image: omeprazoleImg,
+    price: 820,
+    originalPrice: 910,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "loperamide-imodium-diarrhea-control",
+    slug: "loperamide-imodium-diarrhea-control",
+    name: "Loperamide (Imodium®) – Diarrhea Control",
+    image: loperamideImg,
+    price: 290,
+    originalPrice: 330,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "psyllium-fiber-metamucil-constipation",
+    slug: "psyllium-fiber-metamucil-constipation",
+    name: "Psyllium Fiber (Metamucil®) – Constipation",
+    image: psylliumImg,
+    price: 670,
+    originalPrice: 750,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "bismuth-subsalicylate-pepto-bismol-upset-stomach",
+    slug: "bismuth-subsalicylate-pepto-bismol-upset-stomach",
+    name: "Bismuth Subsalicylate (Pepto-Bismol®) – Upset Stomach",
+    image: peptoImg,
+    price: 540,
+    originalPrice: 620,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "dextromethorphan-delsym-cough-suppressant",
+    slug: "dextromethorphan-delsym-cough-suppressant",
+    name: "Dextromethorphan (Delsym®) – Cough Suppressant",
+    image: dextromethorphanImg,
+    price: 690,
+    originalPrice: 750,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "guaifenesin-mucinex-chest-congestion",
+    slug: "guaifenesin-mucinex-chest-congestion",
+    name: "Guaifenesin (Mucinex®) – Chest Congestion",
+    image: guaifenesinImg,
+    price: 720,
+    originalPrice: 790,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "aspirin-bayer-pain-and-heart-health",
+    slug: "aspirin-bayer-pain-and-heart-health",
+    name: "Aspirin (Bayer®) – Pain & Heart Health",
+    image: acetylsalicylicImg,
+    price: 250,
+    originalPrice: 280,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "hydrocortisone-1-pct-cream-rash-and-itch-relief",
+    slug: "hydrocortisone-1-pct-cream-rash-and-itch-relief",
+    name: "Hydrocortisone 1% Cream – Rash & Itch Relief",
+    image: hydrocortisoneImg,
+    price: 390,
+    originalPrice: 440,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "neosporin-ointment-minor-cuts-and-wounds",
+    slug: "neosporin-ointment-minor-cuts-and-wounds",
+    name: "Neosporin® Ointment – Minor Cuts & Wounds",
+    image: neosporinImg,
+    price: 650,
+    originalPrice: 720,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "plan-b-one-step-emergency-contraceptive",
+    slug: "plan-b-one-step-emergency-contraceptive",
+    name: "Plan B One-Step® – Emergency Contraceptive",
+    image: planBImg,
+    price: 3400,
+    originalPrice: 3650,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "nicotine-patch-nicoderm-smoking-cessation",
+    slug: "nicotine-patch-nicoderm-smoking-cessation",
+    name: "Nicotine Patch (Nicoderm®) – Smoking Cessation",
+    image: nicotinepatchImg,
+    price: 1850,
+    originalPrice: 1990,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "melatonin-natural-sleep-aid",
+    slug: "melatonin-natural-sleep-aid",
+    name: "Melatonin – Natural Sleep Aid",
+    image: melatoninImg,
+    price: 560,
+    originalPrice: 640,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "vitamin-c-1000mg-immunity-support",
+    slug: "vitamin-c-1000mg-immunity-support",
+    name: "Vitamin C 1000mg – Immunity Support",
+    image: vitaminCImg,
+    price: 430,
+    originalPrice: 480,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "saline-nasal-spray-nasal-dryness-and-allergy",
+    slug: "saline-nasal-spray-nasal-dryness-and-allergy",
+    name: "Saline Nasal Spray – Nasal Dryness & Allergy",
+    image: salinesprayImg,
+    price: 320,
+    originalPrice: 360,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "zinc-lozenges-cold-and-immunity-support",
+    slug: "zinc-lozenges-cold-and-immunity-support",
+    name: "Zinc Lozenges – Cold & Immunity Support",
+    image: zincImg,
+    price: 400,
+    originalPrice: 440,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "allergy-relief",
+    slug: "allergy-relief",
+    name: "Allergy Relief",
+    image: allergyImg,
+    price: 350,
+    originalPrice: 490,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "la-roche-posay-effaclar-foaming-gel",
+    slug: "la-roche-posay-effaclar-foaming-gel",
+    name: "La Roche-Posay Effaclar Foaming Gel",
+    image: antheliosImg,
+    price: 830,
+    originalPrice: 980,
+    category: "skin-care",
+    bodySystems: [],
+    conditions: [],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "emergency-contraception",
+    slug: "emergency-contraception",
+    name: "Emergency Contraception",
+    image: contraceptionImg,
+    price: 1700,
+    originalPrice: 2035,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "benyllin-cough-syrup",
+    slug: "benyllin-cough-syrup",
+    name: "Benyllin Cough Syrup",
+    image: coughImg,
+    price: 989,
+    originalPrice: 1075,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "paracetamol-headache-relief",
+    slug: "paracetamol-headache-relief",
+    name: "Paracetamol Headache Relief",
+    image: headacheImg,
+    price: 84,
+    originalPrice: 95,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "eno-antacid-relief",
+    slug: "eno-antacid-relief",
+    name: "ENO Antacid Relief",
+    image: enoImg,
+    price: 50,
+    originalPrice: 75,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "diclofenac-pain-relief",
+    slug: "diclofenac-pain-relief",
+    name: "Diclofenac Pain Relief",
+    image: diclofenacImg,
+    price: 159,
+    originalPrice: 175,
+    category: "otc",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+  {
+    id: "cystex-painful-urination-relief",
+    slug: "cystex-painful-urination-relief",
+    name: "Cystex Painful Urination Relief",
+    image: utiImg,
+    price: 214,
+    originalPrice: 305,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["uti"],
+    tags: ["everyday-relief"],
+    inStock: true,
+  },
+];
@@ -0,0 +1,233 @@
+// src/catalog/data/personalCare.ts
+
+import type { Product } from "../types";
+
+import durexFetherliteCondomsImg from "../../assets/products/Durex-Fetherlite-Condoms.png";
+import alwaysUltraThinPads8sImg from "../../assets/products/Always-Ultra-Thin-Pads-8s.png";
+import swiftPregnancyTestKitImg from "../../assets/products/Swift-Pregnancy-Test-Kit.png";
+import panadolExtra10sImg from "../../assets/products/Panadol-Extra-10s.png";
+import strepsilsLozenges24sImg from "../../assets/products/Strepsils-Lozenges-24s.png";
+import e45MoisturizingCream100gImg from "../../assets/products/E45 Moisturizing-Cream-100g.png";
+import dettolHandSanitizer50mlImg from "../../assets/products/Dettol-hand-sanitizer-50ml.png";
+import gavisconPeppermintLiquid200mlImg from "../../assets/products/Gaviscon-peppermint-liquid-200ml.png";
+import deepHeatRub35gImg from "../../assets/products/Deep-Heat-Rub-35g.png";
+import niveaLipBalmOriginal48gImg from "../../assets/products/Nivea-Lip-Balm-Original-4.8g.png";
+import vaselinePetroleumJelly100Img from "../../assets/products/Vaseline-Petroleum-Jelly-100.png";
+import savlonImg from "../../assets/products/savlon.png";
+import centrumEnergyImg from "../../assets/products/centrum-energy.png";
+import orsImg from "../../assets/products/ors.png";
+import clearasilImg from "../../assets/products/clearasil.png";
+
+/** Personal care, hygiene and everyday pharmacy essentials. */
+export const personalCareProducts: Product[] = [
+  {
+    id: "durex-fetherlite-condoms-3s",
+    slug: "durex-fetherlite-condoms-3s",
+    name: "Durex Fetherlite Condoms 3s",
+    brand: "Durex",
+    description: "Ultra-thin condoms designed for comfort and protection.",
+    image: durexFetherliteCondomsImg,
+    price: 650,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "always-ultra-thin-pads-8s",
+    slug: "always-ultra-thin-pads-8s",
+    name: "Always Ultra Thin Pads 8s",
+    brand: "Always",
+    description: "Super absorbent sanitary pads with odor-neutralizing tech.",
+    image: alwaysUltraThinPads8sImg,
+    price: 380,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "swift-pregnancy-test-kit",
+    slug: "swift-pregnancy-test-kit",
+    name: "Swift Pregnancy Test Kit",
+    brand: "Swift",
+    description: "Quick and accurate pregnancy test for early detection.",
+    image: swiftPregnancyTestKitImg,
+    price: 300,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "panadol-extra-10s",
+    slug: "panadol-extra-10s",
+    name: "Panadol Extra 10s",
+    brand: "Panadol",
+    description: "Fast headache and pain relief with caffeine boost.",
+    image: panadolExtra10sImg,
+    price: 150,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "strepsils-lozenges-24s",
+    slug: "strepsils-lozenges-24s",
+    name: "Strepsils Lozenges 24s",
+    brand: "Strepsils",
+    description: "Soothing relief for sore throats and mouth irritation.",
+    image: strepsilsLozenges24sImg,
+    price: 420,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "e45-moisturizing-cream-100g",
+    slug: "e45-moisturizing-cream-100g",
+    name: "E45 Moisturizing Cream 100g",
+    brand: "E45",
+    description: "Dermatologically tested cream for dry, sensitive skin.",
+    image: e45MoisturizingCream100gImg,
+    price: 950,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "dettol-hand-sanitizer-50ml",
+    slug: "dettol-hand-sanitizer-50ml",
+    name: "Dettol Hand Sanitizer 50ml",
+    brand: "Dettol",
+    description: "Kills 99.9% of germs, perfect for on-the-go hygiene.",
+    image: dettolHandSanitizer50mlImg,
+    price: 250,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "gaviscon-peppermint-liquid-200ml",
+    slug: "gaviscon-peppermint-liquid-200ml",
+    name: "Gaviscon Peppermint Liquid 200ml",
+    brand: "Gaviscon",
+    description: "Fast-acting relief for acid reflux and heartburn.",
+    image: gavisconPeppermintLiquid200mlImg,
+    price: 720,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "deep-heat-rub-35g",
+    slug: "deep-heat-rub-35g",
+    name: "Deep Heat Rub 35g",
+    brand: "Deep Heat",
+    description: "Muscle and joint pain relief cream for active individuals.",
+    image: deepHeatRub35gImg,
+    price: 550,
+    category: "otc",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "nivea-lip-balm-original-4-8g",
+    slug: "nivea-lip-balm-original-4-8g",
+    name: "Nivea Lip Balm Original 4.8g",
+    brand: "Nivea",
+    description: "Moisturizing lip balm for smooth and hydrated lips.",
+    image: niveaLipBalmOriginal48gImg,
+    price: 280,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "vaseline-petroleum-jelly-100ml",
+    slug: "vaseline-petroleum-jelly-100ml",
+    name: "Vaseline Petroleum Jelly 100ml",
+    brand: "Vaseline",
+    description: "Multipurpose protectant for dry skin and minor cuts.",
+    image: vaselinePetroleumJelly100Img,
+    price: 300,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "savlon-antiseptic-liquid-200ml",
+    slug: "savlon-antiseptic-liquid-200ml",
+    name: "Savlon Antiseptic Liquid 200ml",
+    brand: "Savlon",
+    description: "Trusted antiseptic for cuts, grazes, and hygiene.",
+    image: savlonImg,
+    price: 400,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "centrum-energy-multivitamins-30s",
+    slug: "centrum-energy-multivitamins-30s",
+    name: "Centrum Energy Multivitamins 30s",
+    brand: "Centrum",
+    description: "Daily multivitamin for energy and immune support.",
+    image: centrumEnergyImg,
+    price: 1200,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "ors-rehydration-salts-10s",
+    slug: "ors-rehydration-salts-10s",
+    name: "ORS Rehydration Salts 10s",
+    brand: "ORS",
+    description: "Essential salts to restore hydration and electrolytes.",
+    image: orsImg,
+    price: 180,
+    category: "otc",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "best-seller"],
+    inStock: true,
+  },
+  {
+    id: "clearasil-daily-face-wash-150ml",
+    slug: "clearasil-daily-face-wash-150ml",
+    name: "Clearasil Daily Face Wash 150ml",
+    brand: "Clearasil",
+    description: "Gentle cleanser to prevent acne and refresh skin.",
+    image: clearasilImg,
+    price: 850,
+    category: "general-hygiene",
+    bodySystems: [],
+    conditions: [],
+    tags: ["campus-essentials", "trending", "best-seller"],
+    inStock: true,
+  },
+];
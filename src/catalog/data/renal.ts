@@ -0,0 +1,335 @@
+// src/catalog/data/renal.ts
+
+import type { Product } from "../types";
+
+import furosemideImg from "../../assets/products/furosemide.png";
+import spironolactoneImg from "../../assets/products/spironolactone.png";
+import tamsulosinImg from "../../assets/products/tamsulosin.png";
+import finasterideImg from "../../assets/products/finasteride.png";
+import nitrofurantoinImg from "../../assets/products/nitrofurantoin.png";
+import ciprofloxacin1Img from "../../assets/products/ciprofloxacin1.png";
+import sodiumbicarbonateImg from "../../assets/products/sodiumbicarbonate.png";
+import kayexalateImg from "../../assets/products/kayexalate.png";
+import potassiumcitrateImg from "../../assets/products/potassiumcitrate.png";
+import erythropoietinImg from "../../assets/products/erythropoietin.png";
+import allopurinolImg from "../../assets/products/allopurinol.png";
+import hydrochlorothiazideImg from "../../assets/products/hydrochlorothiazide.png";
+import trimethoprimSulfamethoxazoleSeptrinDSImg from "../../assets/products/Trimethoprim-Sulfamethoxazole (Septrin DS).png";
+import amoxicillinClavulanicAcidAugmentin625mgImg from "../../assets/products/Amoxicillin-Clavulanic Acid (Augmentin) 625mg.png";
+import fosfomycinTrometamol3gSachetImg from "../../assets/products/Fosfomycin-trometamol-3g-sachet.png";
+import cefuroximeAxetil500mgTabletsImg from "../../assets/products/Cefuroxime Axetil 500mg Tablets.png";
+import levofloxacin500mgTabletsImg from "../../assets/products/Levofloxacin 500mg tablets.png";
+import amoxicillin500mgCapsulesImg from "../../assets/products/Amoxicillin 500mg capsules.png";
+import cefalexin500mgCapsulesImg from "../../assets/products/cefalexin 500mg capsules.png";
+import phenazopyridine200mgTabletsUristatImg from "../../assets/products/Phenazopyridine 200mg Tablets (Uristat).png";
+import doxycycline100mgCapsulesImg from "../../assets/products/Doxycycline 100mg capsules.png";
+import ofloxacin200mgTabletsImg from "../../assets/products/Ofloxacin 200mg tablets.png";
+
+/** Renal, urinary and UTI medicines. */
+export const renalProducts: Product[] = [
+  {
+    id: "furosemide-40mg-tablets-lasix",
+    slug: "furosemide-40mg-tablets-lasix",
+    name: "Furosemide 40mg Tablets (Lasix)",
+    image: furosemideImg,
+    price: 220,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "spironolactone-25mg-tablets-aldactone",
+    slug: "spironolactone-25mg-tablets-aldactone",
+    name: "Spironolactone 25mg Tablets (Aldactone)",
+    image: spironolactoneImg,
+    price: 480,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "tamsulosin-0-4mg-capsules-flomax",
+    slug: "tamsulosin-0-4mg-capsules-flomax",
+    name: "Tamsulosin 0.4mg Capsules (Flomax)",
+    image: tamsulosinImg,
+    price: 950,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "finasteride-5mg-tablets-proscar",
+    slug: "finasteride-5mg-tablets-proscar",
+    name: "Finasteride 5mg Tablets (Proscar)",
+    image: finasterideImg,
+    price: 890,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "nitrofurantoin-100mg-capsules-macrobid",
+    slug: "nitrofurantoin-100mg-capsules-macrobid",
+    name: "Nitrofurantoin 100mg Capsules (Macrobid)",
+    image: nitrofurantoinImg,
+    price: 720,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ciprofloxacin-500mg-tablets",
+    slug: "ciprofloxacin-500mg-tablets",
+    name: "Ciprofloxacin 500mg Tablets",
+    image: ciprofloxacin1Img,
+    price: 670,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "sodium-bicarbonate-tablets-500mg",
+    slug: "sodium-bicarbonate-tablets-500mg",
+    name: "Sodium Bicarbonate Tablets 500mg",
+    image: sodiumbicarbonateImg,
+    price: 250,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "calcium-polystyrene-sulfonate-powder-kayexalate",
+    slug: "calcium-polystyrene-sulfonate-powder-kayexalate",
+    name: "Calcium Polystyrene Sulfonate Powder (Kayexalate)",
+    image: kayexalateImg,
+    price: 1150,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "potassium-citrate-solution-ural-polycitra",
+    slug: "potassium-citrate-solution-ural-polycitra",
+    name: "Potassium Citrate Solution (Ural/Polycitra)",
+    image: potassiumcitrateImg,
+    price: 780,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "erythropoietin-injection-eprex-4000iu",
+    slug: "erythropoietin-injection-eprex-4000iu",
+    name: "Erythropoietin Injection (Eprex 4000IU)",
+    image: erythropoietinImg,
+    price: 2800,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "allopurinol-300mg-tablets",
+    slug: "allopurinol-300mg-tablets",
+    name: "Allopurinol 300mg Tablets",
+    image: allopurinolImg,
+    price: 640,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "hydrochlorothiazide-25mg-tablets",
+    slug: "hydrochlorothiazide-25mg-tablets",
+    name: "Hydrochlorothiazide 25mg Tablets",
+    image: hydrochlorothiazideImg,
+    price: 300,
+    category: "medicine",
+    subcategory: "Renal & Urinary Care",
+    bodySystems: ["renal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "trimethoprim-sulfamethoxazole-septrin-ds",
+    slug: "trimethoprim-sulfamethoxazole-septrin-ds",
+    name: "Trimethoprim-Sulfamethoxazole (Septrin DS)",
+    image: trimethoprimSulfamethoxazoleSeptrinDSImg,
+    price: 650,
+    originalPrice: 740,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "amoxicillin-clavulanic-acid-augmentin-625mg",
+    slug: "amoxicillin-clavulanic-acid-augmentin-625mg",
+    name: "Amoxicillin-Clavulanic Acid (Augmentin) 625mg",
+    image: amoxicillinClavulanicAcidAugmentin625mgImg,
+    price: 1200,
+    originalPrice: 1340,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "fosfomycin-trometamol-3g-sachet",
+    slug: "fosfomycin-trometamol-3g-sachet",
+    name: "Fosfomycin Trometamol 3g Sachet",
+    image: fosfomycinTrometamol3gSachetImg,
+    price: 1350,
+    originalPrice: 1470,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "cefuroxime-axetil-500mg-tablets",
+    slug: "cefuroxime-axetil-500mg-tablets",
+    name: "Cefuroxime Axetil 500mg Tablets",
+    image: cefuroximeAxetil500mgTabletsImg,
+    price: 1150,
+    originalPrice: 1280,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "levofloxacin-500mg-tablets",
+    slug: "levofloxacin-500mg-tablets",
+    name: "Levofloxacin 500mg Tablets",
+    image: levofloxacin500mgTabletsImg,
+    price: 1050,
+    originalPrice: 1230,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "amoxicillin-500mg-capsules",
+    slug: "amoxicillin-500mg-capsules",
+    name: "Amoxicillin 500mg Capsules",
+    image: amoxicillin500mgCapsulesImg,
+    price: 450,
+    originalPrice: 500,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "cefalexin-500mg-capsules",
+    slug: "cefalexin-500mg-capsules",
+    name: "Cefalexin 500mg Capsules",
+    image: cefalexin500mgCapsulesImg,
+    price: 700,
+    originalPrice: 800,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "phenazopyridine-200mg-tablets-uristat",
+    slug: "phenazopyridine-200mg-tablets-uristat",
+    name: "Phenazopyridine 200mg Tablets (Uristat)",
+    image: phenazopyridine200mgTabletsUristatImg,
+    price: 950,
+    originalPrice: 1050,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "doxycycline-100mg-capsules",
+    slug: "doxycycline-100mg-capsules",
+    name: "Doxycycline 100mg Capsules",
+    image: doxycycline100mgCapsulesImg,
+    price: 550,
+    originalPrice: 610,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ofloxacin-200mg-tablets",
+    slug: "ofloxacin-200mg-tablets",
+    name: "Ofloxacin 200mg Tablets",
+    image: ofloxacin200mgTabletsImg,
+    price: 650,
+    originalPrice: 720,
+    category: "medicine",
+    bodySystems: ["renal"],
+    conditions: ["uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
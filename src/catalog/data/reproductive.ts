@@ -0,0 +1,404 @@
+// src/catalog/data/reproductive.ts
+
+import type { Product } from "../types";
+
+import oxytocinInjectionImg from "../../assets/products/Oxytocin-injection.png";
+import misoprostolTabletsImg from "../../assets/products/misoprostol-tablets.png";
+import mifepristoneImg from "../../assets/products/mifepristone.png";
+import combinedOralContraceptiveImg from "../../assets/products/combined-oral-contraceptive.png";
+import depoProveraImg from "../../assets/products/depo-provera.png";
+import medroxyprogesteroneImg from "../../assets/products/medroxyprogesterone.png";
+import clomipheneCitrateImg from "../../assets/products/clomiphene-citrate.png";
+import letrozoleImg from "../../assets/products/letrozole.png";
+import ferrousSulfateImg from "../../assets/products/ferrous-sulfate.png";
+import folicAcidImg from "../../assets/products/folic-acid.png";
+import magnesiumSulfateImg from "../../assets/products/magnesium-sulfate.png";
+import nifedipineImg from "../../assets/products/nifedipine.png";
+import methyldopaImg from "../../assets/products/methyldopa.png";
+import labetalolImg from "../../assets/products/labetalol.png";
+import betamethasoneImg from "../../assets/products/betamethasone.png";
+import dexamethasoneImg from "../../assets/products/dexamethasone.png";
+import cephalexinImg from "../../assets/products/cephalexin.png";
+import amoxicillinImg from "../../assets/products/Amoxicillin.png";
+import metronidazoleGelImg from "../../assets/products/metronidazole-gel.png";
+import fluconazoleImg from "../../assets/products/Fluconazole.png";
+import acyclovirImg from "../../assets/products/Acyclovir.png";
+import azithromycinImg from "../../assets/products/Azithromycin.png";
+import ceftriaxoneImg from "../../assets/products/Ceftriaxone.png";
+import magnesiumOxideImg from "../../assets/products/Magnesium-oxide.png";
+import ironSucroseImg from "../../assets/products/Iron-sucrose.png";
+
+/** Sexual and reproductive health medicines. */
+export const reproductiveProducts: Product[] = [
+  {
+    id: "oxytocin-injection-10iu",
+    slug: "oxytocin-injection-10iu",
+    name: "Oxytocin Injection 10IU",
+    description: "Uterotonic for labor induction and postpartum hemorrhage control.",
+    image: oxytocinInjectionImg,
+    price: 120,
+    originalPrice: 140,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "misoprostol-200mcg-tablets",
+    slug: "misoprostol-200mcg-tablets",
+    name: "Misoprostol 200mcg Tablets",
+    description: "Prostaglandin analog used for cervical ripening and PPH prevention.",
+    image: misoprostolTabletsImg,
+    price: 150,
+    originalPrice: 165,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "mifepristone-200mg-tablets",
+    slug: "mifepristone-200mg-tablets",
+    name: "Mifepristone 200mg Tablets",
+    description: "Antiprogestin for medical abortion and fibroid treatment.",
+    image: mifepristoneImg,
+    price: 1900,
+    originalPrice: 2100,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "combined-oral-contraceptive-pills",
+    slug: "combined-oral-contraceptive-pills",
+    name: "Combined Oral Contraceptive Pills",
+    description: "Used for birth control and menstrual cycle regulation.",
+    image: combinedOralContraceptiveImg,
+    price: 380,
+    originalPrice: 430,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "depo-provera-injection-150mg-ml",
+    slug: "depo-provera-injection-150mg-ml",
+    name: "Depo-Provera Injection 150mg/mL",
+    description: "Injectable contraceptive providing 3-month pregnancy prevention.",
+    image: depoProveraImg,
+    price: 260,
+    originalPrice: 300,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "medroxyprogesterone-10mg-tablets",
+    slug: "medroxyprogesterone-10mg-tablets",
+    name: "Medroxyprogesterone 10mg Tablets",
+    description: "Progestin for abnormal uterine bleeding and hormone therapy.",
+    image: medroxyprogesteroneImg,
+    price: 500,
+    originalPrice: 580,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "clomiphene-citrate-50mg-tablets",
+    slug: "clomiphene-citrate-50mg-tablets",
+    name: "Clomiphene Citrate 50mg Tablets",
+    description: "Ovulation-inducing drug for infertility management.",
+    image: clomipheneCitrateImg,
+    price: 1150,
+    originalPrice: 1280,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "letrozole-2-5mg-tablets",
+    slug: "letrozole-2-5mg-tablets",
+    name: "Letrozole 2.5mg Tablets",
+    description: "Aromatase inhibitor used for ovulation induction.",
+    image: letrozoleImg,
+    price: 950,
+    originalPrice: 1080,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ferrous-sulfate-200mg-tablets",
+    slug: "ferrous-sulfate-200mg-tablets",
+    name: "Ferrous Sulfate 200mg Tablets",
+    description: "Iron supplement for anemia during pregnancy.",
+    image: ferrousSulfateImg,
+    price: 150,
+    originalPrice: 180,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "folic-acid-5mg-tablets",
+    slug: "folic-acid-5mg-tablets",
+    name: "Folic Acid 5mg Tablets",
+    description: "Prevents neural tube defects during early pregnancy.",
+    image: folicAcidImg,
+    price: 90,
+    originalPrice: 110,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "magnesium-sulfate-injection-50-pct",
+    slug: "magnesium-sulfate-injection-50-pct",
+    name: "Magnesium Sulfate Injection 50%",
+    description: "Used in preeclampsia and eclampsia for seizure control.",
+    image: magnesiumSulfateImg,
+    price: 95,
+    originalPrice: 120,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "nifedipine-10mg-tablets",
+    slug: "nifedipine-10mg-tablets",
+    name: "Nifedipine 10mg Tablets",
+    description: "Tocolytic for preterm labor and antihypertensive use in pregnancy.",
+    image: nifedipineImg,
+    price: 290,
+    originalPrice: 330,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "methyldopa-250mg-tablets",
+    slug: "methyldopa-250mg-tablets",
+    name: "Methyldopa 250mg Tablets",
+    description: "Safe antihypertensive commonly used in pregnancy.",
+    image: methyldopaImg,
+    price: 370,
+    originalPrice: 420,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "labetalol-100mg-tablets",
+    slug: "labetalol-100mg-tablets",
+    name: "Labetalol 100mg Tablets",
+    description: "Preferred antihypertensive in gestational hypertension.",
+    image: labetalolImg,
+    price: 590,
+    originalPrice: 640,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "betamethasone-injection-12mg-2ml",
+    slug: "betamethasone-injection-12mg-2ml",
+    name: "Betamethasone Injection 12mg/2mL",
+    description: "Corticosteroid for fetal lung maturation in preterm labor.",
+    image: betamethasoneImg,
+    price: 680,
+    originalPrice: 760,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "dexamethasone-4mg-ml-injection",
+    slug: "dexamethasone-4mg-ml-injection",
+    name: "Dexamethasone 4mg/mL Injection",
+    description: "Corticosteroid for inflammation and fetal lung maturity.",
+    image: dexamethasoneImg,
+    price: 250,
+    originalPrice: 290,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "cephalexin-500mg-capsules",
+    slug: "cephalexin-500mg-capsules",
+    name: "Cephalexin 500mg Capsules",
+    description: "Antibiotic for UTIs and wound infections during pregnancy.",
+    image: cephalexinImg,
+    price: 250,
+    originalPrice: 290,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "amoxicillin-clavulanate-625mg",
+    slug: "amoxicillin-clavulanate-625mg",
+    name: "Amoxicillin-Clavulanate 625mg",
+    description: "Broad-spectrum antibiotic safe in pregnancy.",
+    image: amoxicillinImg,
+    price: 480,
+    originalPrice: 550,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "metronidazole-vaginal-gel-0-75-pct",
+    slug: "metronidazole-vaginal-gel-0-75-pct",
+    name: "Metronidazole Vaginal Gel 0.75%",
+    description: "Topical antibiotic for bacterial vaginosis.",
+    image: metronidazoleGelImg,
+    price: 350,
+    originalPrice: 400,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "fluconazole-150mg-capsules",
+    slug: "fluconazole-150mg-capsules",
+    name: "Fluconazole 150mg Capsules",
+    description: "Antifungal for vaginal candidiasis treatment.",
+    image: fluconazoleImg,
+    price: 320,
+    originalPrice: 370,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "acyclovir-400mg-tablets",
+    slug: "acyclovir-400mg-tablets",
+    name: "Acyclovir 400mg Tablets",
+    description: "Antiviral for genital herpes management.",
+    image: acyclovirImg,
+    price: 390,
+    originalPrice: 440,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "azithromycin-500mg-tablets",
+    slug: "azithromycin-500mg-tablets",
+    name: "Azithromycin 500mg Tablets",
+    description: "Antibiotic for chlamydia and other STIs.",
+    image: azithromycinImg,
+    price: 680,
+    originalPrice: 760,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ceftriaxone-1g-injection",
+    slug: "ceftriaxone-1g-injection",
+    name: "Ceftriaxone 1g Injection",
+    description: "Broad-spectrum antibiotic for severe pelvic infections.",
+    image: ceftriaxoneImg,
+    price: 850,
+    originalPrice: 970,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "magnesium-oxide-400mg-tablets",
+    slug: "magnesium-oxide-400mg-tablets",
+    name: "Magnesium Oxide 400mg Tablets",
+    description: "Mineral supplement for leg cramps in pregnancy.",
+    image: magnesiumOxideImg,
+    price: 150,
+    originalPrice: 180,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "iron-sucrose-injection-100mg",
+    slug: "iron-sucrose-injection-100mg",
+    name: "Iron Sucrose Injection 100mg",
+    description: "IV iron for severe iron-deficiency anemia in pregnancy.",
+    image: ironSucroseImg,
+    price: 1600,
+    originalPrice: 1800,
+    category: "medicine",
+    bodySystems: ["reproductive"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
@@ -0,0 +1,228 @@
+// src/catalog/data/respiratory.ts
+
+import type { Product } from "../types";
+
+import amoxicillinImg from "../../assets/products/Amoxicillin.png";
+import azithromycinImg from "../../assets/products/Azithromycin.png";
+import clarithromycinImg from "../../assets/products/Clarithromycin.png";
+import augmentinImg from "../../assets/products/Augmentin.png";
+import levofloxacinImg from "../../assets/products/Levofloxacin.png";
+import cefuroximeAxetil500mgTabletsImg from "../../assets/products/Cefuroxime Axetil 500mg Tablets.png";
+import ceftriaxoneImg from "../../assets/products/Ceftriaxone.png";
+import erythromycin2Img from "../../assets/products/Erythromycin2.png";
+import ventolinImg from "../../assets/products/Ventolin.png";
+import symbicortInhalerImg from "../../assets/products/Symbicort-Inhaler.png";
+import ambroxolImg from "../../assets/products/ambroxol.png";
+import bromhexineImg from "../../assets/products/Bromhexine.png";
+import benylinDryCoughImg from "../../assets/products/Benylin-Dry-Cough.png";
+import cetirizineImg from "../../assets/products/Cetirizine.png";
+import montelukastImg from "../../assets/products/Montelukast.png";
+
+/** Respiratory medicines — antibiotics, inhalers and cough remedies. */
+export const respiratoryProducts: Product[] = [
+  {
+    id: "amoxicillin-500mg-capsules-30s",
+    slug: "amoxicillin-500mg-capsules-30s",
+    name: "Amoxicillin 500mg Capsules (30’s)",
+    image: amoxicillinImg,
+    price: 850,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "azithromycin-500mg-tablets-6s",
+    slug: "azithromycin-500mg-tablets-6s",
+    name: "Azithromycin 500mg Tablets (6’s)",
+    image: azithromycinImg,
+    price: 1240,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "clarithromycin-500mg-tablets-14s",
+    slug: "clarithromycin-500mg-tablets-14s",
+    name: "Clarithromycin 500mg Tablets (14’s)",
+    image: clarithromycinImg,
+    price: 1680,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "augmentin-amoxicillin-plus-clavulanic-acid-625mg-tabs-14s",
+    slug: "augmentin-amoxicillin-plus-clavulanic-acid-625mg-tabs-14s",
+    name: "Augmentin (Amoxicillin + Clavulanic Acid) 625mg Tabs (14’s)",
+    image: augmentinImg,
+    price: 1950,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "levofloxacin-500mg-tablets-10s",
+    slug: "levofloxacin-500mg-tablets-10s",
+    name: "Levofloxacin 500mg Tablets (10’s)",
+    image: levofloxacinImg,
+    price: 1820,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "cefuroxime-axetil-500mg-tablets-14s",
+    slug: "cefuroxime-axetil-500mg-tablets-14s",
+    name: "Cefuroxime Axetil 500mg Tablets (14’s)",
+    image: cefuroximeAxetil500mgTabletsImg,
+    price: 1720,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ceftriaxone-1g-injection-single-vial",
+    slug: "ceftriaxone-1g-injection-single-vial",
+    name: "Ceftriaxone 1g Injection (Single Vial)",
+    image: ceftriaxoneImg,
+    price: 640,
+    category: "medicine",
+    subcategory: "Injection",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "erythromycin-500mg-tablets-20s",
+    slug: "erythromycin-500mg-tablets-20s",
+    name: "Erythromycin 500mg Tablets (20’s)",
+    image: erythromycin2Img,
+    price: 980,
+    category: "medicine",
+    subcategory: "Antibiotic",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ventolin-inhaler-salbutamol-100mcg",
+    slug: "ventolin-inhaler-salbutamol-100mcg",
+    name: "Ventolin Inhaler (Salbutamol 100mcg)",
+    image: ventolinImg,
+    price: 850,
+    category: "medicine",
+    subcategory: "Bronchodilator",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "symbicort-inhaler-budesonide-plus-formoterol",
+    slug: "symbicort-inhaler-budesonide-plus-formoterol",
+    name: "Symbicort Inhaler (Budesonide + Formoterol)",
+    image: symbicortInhalerImg,
+    price: 2850,
+    category: "medicine",
+    subcategory: "Inhaler",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ambroxol-syrup-100ml",
+    slug: "ambroxol-syrup-100ml",
+    name: "Ambroxol Syrup 100ml",
+    image: ambroxolImg,
+    price: 520,
+    category: "medicine",
+    subcategory: "Expectorant",
+    bodySystems: ["respiratory"],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "bromhexine-syrup-100ml",
+    slug: "bromhexine-syrup-100ml",
+    name: "Bromhexine Syrup 100ml",
+    image: bromhexineImg,
+    price: 490,
+    category: "medicine",
+    subcategory: "Mucolytic",
+    bodySystems: ["respiratory"],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "benylin-dry-cough-syrup-100ml",
+    slug: "benylin-dry-cough-syrup-100ml",
+    name: "Benylin Dry Cough Syrup 100ml",
+    image: benylinDryCoughImg,
+    price: 720,
+    category: "medicine",
+    subcategory: "Cough Suppressant",
+    bodySystems: ["respiratory"],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "cetirizine-10mg-tablets-30s",
+    slug: "cetirizine-10mg-tablets-30s",
+    name: "Cetirizine 10mg Tablets (30’s)",
+    image: cetirizineImg,
+    price: 650,
+    category: "medicine",
+    subcategory: "Antihistamine",
+    bodySystems: ["respiratory"],
+    conditions: ["cough-flu-cold"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "montelukast-10mg-tablets-30s",
+    slug: "montelukast-10mg-tablets-30s",
+    name: "Montelukast 10mg Tablets (30’s)",
+    image: montelukastImg,
+    price: 1180,
+    category: "medicine",
+    subcategory: "Respiratory Anti-inflammatory",
+    bodySystems: ["respiratory"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+];
@@ -0,0 +1,204 @@
+// src/catalog/data/shopEssentials.ts
+
+import type { Product } from "../types";
+
+import img20251oothpasteOralCareImg from "../../assets/shop2/Personal & Lifestyle Section/2025-1oothpaste & Oral Care.png";
+import skincareImg from "../../assets/shop2/Personal & Lifestyle Section/Skincare.png";
+import painRelieversFirstAidImg from "../../assets/shop2/Personal & Lifestyle Section/Pain Relievers & First Aid.png";
+import coldFluRemediesImg from "../../assets/shop2/Personal & Lifestyle Section/Cold & Flu Remedies.png";
+import pegnancyTestKitsImg from "../../assets/shop2/Personal/Pegnancy test kits.png";
+import pessaryImg from "../../assets/shop2/Personal/Pessary.png";
+import emergencyPillsImg from "../../assets/shop2/Personal/Emergency pills.png";
+import contraceptivesImg from "../../assets/shop2/General/Contraceptives.png";
+import calmImg from "../../assets/shop2/General/Calm.png";
+import antifungalImg from "../../assets/shop2/Personal/Antifungal.png";
+import multivitaminsImg from "../../assets/shop2/General/Multivitamins.png";
+import ironFolicAcidSupplementsImg from "../../assets/shop2/General/Iron & Folic Acid Supplements.png";
+import vitaminCZincImg from "../../assets/shop2/General/Vitamin C & Zinc.png";
+import rehydrationSolutionsImg from "../../assets/shop2/General/Rehydration Solutions.png";
+
+/** Shop-by-need essentials packs. */
+export const shopEssentialsProducts: Product[] = [
+  {
+    id: "oral-care-pack",
+    slug: "oral-care-pack",
+    name: "Oral Care Pack",
+    image: img20251oothpasteOralCareImg,
+    price: 1395,
+    category: "general-hygiene",
+    subcategory: "Toothpaste & Oral Care",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "skincare",
+    slug: "skincare",
+    name: "Skincare",
+    image: skincareImg,
+    price: 2747,
+    category: "general-hygiene",
+    subcategory: "Skin and Beauty",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "pain-relievers-and-first-aid",
+    slug: "pain-relievers-and-first-aid",
+    name: "Pain Relievers & First Aid",
+    image: painRelieversFirstAidImg,
+    price: 1714,
+    category: "general-hygiene",
+    subcategory: "Pain Medications",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "cold-and-flu-remedies",
+    slug: "cold-and-flu-remedies",
+    name: "Cold & Flu Remedies",
+    image: coldFluRemediesImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Respiratory Drugs",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "pregnancy-test-kits",
+    slug: "pregnancy-test-kits",
+    name: "Pregnancy test kits",
+    image: pegnancyTestKitsImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Discreet / Private Purchase Shelf",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "vaginal-pessaries",
+    slug: "vaginal-pessaries",
+    name: "Vaginal pessaries",
+    image: pessaryImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Discreet / Private Purchase Shelf",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "emergency-pills",
+    slug: "emergency-pills",
+    name: "Emergency pills",
+    image: emergencyPillsImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Discreet / Private Purchase Shelf",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "contraceptives",
+    slug: "contraceptives",
+    name: "Contraceptives",
+    image: contraceptivesImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Discreet / Private Purchase Shelf",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "sleep-stress-relief",
+    slug: "sleep-stress-relief",
+    name: "Sleep/Stress Relief",
+    image: calmImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "General Wellness & Support",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "antifungal-creams",
+    slug: "antifungal-creams",
+    name: "Antifungal creams",
+    image: antifungalImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "Skin Treatment",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "multivitamins",
+    slug: "multivitamins",
+    name: "Multivitamins",
+    image: multivitaminsImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "General Wellness",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "iron-and-folic-acid-supplements",
+    slug: "iron-and-folic-acid-supplements",
+    name: "Iron & Folic Acid Supplements",
+    image: ironFolicAcidSupplementsImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "General Wellness",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "vitamin-c-and-zinc",
+    slug: "vitamin-c-and-zinc",
+    name: "Vitamin C & Zinc",
+    image: vitaminCZincImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "General Wellness",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+  {
+    id: "rehydration-solutions",
+    slug: "rehydration-solutions",
+    name: "Rehydration Solutions",
+    image: rehydrationSolutionsImg,
+    price: 1420,
+    category: "general-hygiene",
+    subcategory: "General Wellness",
+    bodySystems: [],
+    conditions: [],
+    tags: ["shop-essentials"],
+    inStock: true,
+  },
+];
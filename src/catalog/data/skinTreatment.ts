@@ -0,0 +1,367 @@
+// src/catalog/data/skinTreatment.ts
+
+import type { Product } from "../types";
+
+import benzoylPeroxideGelImg from "../../assets/products/benzoyl-peroxide-gel.png";
+import clindamycinGelImg from "../../assets/products/clindamycin-gel.png";
+import adapaleneGelImg from "../../assets/products/adapalene-gel.png";
+import hydrocortisoneCreamImg from "../../assets/products/hydrocortisone-cream.png";
+import mupirocinOintmentImg from "../../assets/products/mupirocin-ointment.png";
+import ketoconazoleCreamImg from "../../assets/products/ketoconazole-cream.png";
+import clotrimazoleCreamImg from "../../assets/products/clotrimazole-cream.png";
+import terbinafineCreamImg from "../../assets/products/terbinafine-cream.png";
+import metronidazoleGelImg from "../../assets/products/metronidazole-gel.png";
+import azelaicAcidGelImg from "../../assets/products/azelaic-acid-gel.png";
+import tretinoinCreamImg from "../../assets/products/tretinoin-cream.png";
+import calamineLotionImg from "../../assets/products/calamine-lotion.png";
+import fusidicAcidCreamImg from "../../assets/products/fusidic-acid-cream.png";
+import neosporinOintmentImg from "../../assets/products/neosporin-ointment.png";
+import fusibactOintmentImg from "../../assets/products/fusibact-ointment.png";
+import erythromycinGelImg from "../../assets/products/erythromycin-gel.png";
+import ceraveMoisturizingCreamImg from "../../assets/products/cerave-moisturizing-cream.png";
+import effaclarDuoImg from "../../assets/products/effaclar-duo.png";
+import eucerinRepairCreamImg from "../../assets/products/eucerin-repair-cream.png";
+import olayRetinolNightCreamImg from "../../assets/products/olay-retinol-night-cream.png";
+import aveenoMoisturizingLotionImg from "../../assets/products/aveeno-moisturizing-lotion.png";
+import aquaphorHealingOintmentImg from "../../assets/products/aquaphor-healing-ointment.png";
+import niacinamideZincSerumImg from "../../assets/products/niacinamide-zinc-serum.png";
+import salicylicAcidTonerImg from "../../assets/products/salicylic-acid-toner.png";
+import panoxylFoamingWashImg from "../../assets/products/panoxyl-foaming-wash.png";
+
+/** Skin infection and dermatology treatments. */
+export const skinTreatmentProducts: Product[] = [
+  {
+    id: "benzoyl-peroxide-5-pct-gel-acne-treatment",
+    slug: "benzoyl-peroxide-5-pct-gel-acne-treatment",
+    name: "Benzoyl Peroxide 5% Gel (Acne Treatment)",
+    image: benzoylPeroxideGelImg,
+    price: 899,
+    originalPrice: 1020,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "clindamycin-1-pct-gel-cleocin-t",
+    slug: "clindamycin-1-pct-gel-cleocin-t",
+    name: "Clindamycin 1% Gel (Cleocin T)",
+    image: clindamycinGelImg,
+    price: 1199,
+    originalPrice: 1349,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "adapalene-0-1-pct-gel-differin",
+    slug: "adapalene-0-1-pct-gel-differin",
+    name: "Adapalene 0.1% Gel (Differin)",
+    image: adapaleneGelImg,
+    price: 1499,
+    originalPrice: 1699,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "hydrocortisone-1-pct-cream",
+    slug: "hydrocortisone-1-pct-cream",
+    name: "Hydrocortisone 1% Cream",
+    image: hydrocortisoneCreamImg,
+    price: 499,
+    originalPrice: 549,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "mupirocin-2-pct-ointment-bactroban",
+    slug: "mupirocin-2-pct-ointment-bactroban",
+    name: "Mupirocin 2% Ointment (Bactroban)",
+    image: mupirocinOintmentImg,
+    price: 1249,
+    originalPrice: 1399,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "ketoconazole-2-pct-cream-nizoral",
+    slug: "ketoconazole-2-pct-cream-nizoral",
+    name: "Ketoconazole 2% Cream (Nizoral)",
+    image: ketoconazoleCreamImg,
+    price: 999,
+    originalPrice: 1099,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "clotrimazole-1-pct-cream-canesten",
+    slug: "clotrimazole-1-pct-cream-canesten",
+    name: "Clotrimazole 1% Cream (Canesten)",
+    image: clotrimazoleCreamImg,
+    price: 599,
+    originalPrice: 669,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "terbinafine-1-pct-cream-lamisil",
+    slug: "terbinafine-1-pct-cream-lamisil",
+    name: "Terbinafine 1% Cream (Lamisil)",
+    image: terbinafineCreamImg,
+    price: 899,
+    originalPrice: 999,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "metronidazole-0-75-pct-gel-for-rosacea",
+    slug: "metronidazole-0-75-pct-gel-for-rosacea",
+    name: "Metronidazole 0.75% Gel (for Rosacea)",
+    image: metronidazoleGelImg,
+    price: 1199,
+    originalPrice: 1349,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "azelaic-acid-15-pct-gel-finacea",
+    slug: "azelaic-acid-15-pct-gel-finacea",
+    name: "Azelaic Acid 15% Gel (Finacea)",
+    image: azelaicAcidGelImg,
+    price: 1799,
+    originalPrice: 2049,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "tretinoin-0-05-pct-cream-retin-a",
+    slug: "tretinoin-0-05-pct-cream-retin-a",
+    name: "Tretinoin 0.05% Cream (Retin-A)",
+    image: tretinoinCreamImg,
+    price: 1599,
+    originalPrice: 1799,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "calamine-lotion-itch-and-rash-relief",
+    slug: "calamine-lotion-itch-and-rash-relief",
+    name: "Calamine Lotion (Itch & Rash Relief)",
+    image: calamineLotionImg,
+    price: 449,
+    originalPrice: 499,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "fusidic-acid-2-pct-cream-fucidin",
+    slug: "fusidic-acid-2-pct-cream-fucidin",
+    name: "Fusidic Acid 2% Cream (Fucidin)",
+    image: fusidicAcidCreamImg,
+    price: 1199,
+    originalPrice: 1349,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "neomycin-plus-bacitracin-ointment-neosporin",
+    slug: "neomycin-plus-bacitracin-ointment-neosporin",
+    name: "Neomycin + Bacitracin Ointment (Neosporin)",
+    image: neosporinOintmentImg,
+    price: 999,
+    originalPrice: 1099,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "sodium-fusidate-ointment-fusibact",
+    slug: "sodium-fusidate-ointment-fusibact",
+    name: "Sodium Fusidate Ointment (Fusibact)",
+    image: fusibactOintmentImg,
+    price: 1149,
+    originalPrice: 1299,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "erythromycin-2-pct-gel-aknemycin",
+    slug: "erythromycin-2-pct-gel-aknemycin",
+    name: "Erythromycin 2% Gel (Aknemycin)",
+    image: erythromycinGelImg,
+    price: 1199,
+    originalPrice: 1349,
+    category: "medicine",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "cerave-moisturizing-cream",
+    slug: "cerave-moisturizing-cream",
+    name: "CeraVe Moisturizing Cream",
+    image: ceraveMoisturizingCreamImg,
+    price: 1999,
+    originalPrice: 2199,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "la-roche-posay-effaclar-duo-plus",
+    slug: "la-roche-posay-effaclar-duo-plus",
+    name: "La Roche-Posay Effaclar Duo (+)",
+    image: effaclarDuoImg,
+    price: 2999,
+    originalPrice: 3249,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "eucerin-advanced-repair-cream",
+    slug: "eucerin-advanced-repair-cream",
+    name: "Eucerin Advanced Repair Cream",
+    image: eucerinRepairCreamImg,
+    price: 2299,
+    originalPrice: 2549,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "olay-regenerist-retinol-24-night-moisturizer",
+    slug: "olay-regenerist-retinol-24-night-moisturizer",
+    name: "Olay Regenerist Retinol 24 Night Moisturizer",
+    image: olayRetinolNightCreamImg,
+    price: 2599,
+    originalPrice: 2799,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "aveeno-daily-moisturizing-lotion",
+    slug: "aveeno-daily-moisturizing-lotion",
+    name: "Aveeno Daily Moisturizing Lotion",
+    image: aveenoMoisturizingLotionImg,
+    price: 1299,
+    originalPrice: 1449,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "aquaphor-healing-ointment",
+    slug: "aquaphor-healing-ointment",
+    name: "Aquaphor Healing Ointment",
+    image: aquaphorHealingOintmentImg,
+    price: 999,
+    originalPrice: 1099,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "niacinamide-serum-10-pct-plus-zinc-1-pct",
+    slug: "niacinamide-serum-10-pct-plus-zinc-1-pct",
+    name: "Niacinamide Serum 10% + Zinc 1%",
+    image: niacinamideZincSerumImg,
+    price: 999,
+    originalPrice: 1149,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "salicylic-acid-2-pct-toner-bha-exfoliant",
+    slug: "salicylic-acid-2-pct-toner-bha-exfoliant",
+    name: "Salicylic Acid 2% Toner (BHA Exfoliant)",
+    image: salicylicAcidTonerImg,
+    price: 1199,
+    originalPrice: 1349,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "panoxyl-acne-foaming-wash-10-pct-benzoyl-peroxide",
+    slug: "panoxyl-acne-foaming-wash-10-pct-benzoyl-peroxide",
+    name: "PanOxyl Acne Foaming Wash 10% Benzoyl Peroxide",
+    image: panoxylFoamingWashImg,
+    price: 1499,
+    originalPrice: 1699,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: ["skin-infection"],
+    tags: [],
+    inStock: true,
+  },
+];
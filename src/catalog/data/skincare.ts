@@ -0,0 +1,260 @@
+// src/catalog/data/skincare.ts
+
+import type { Product } from "../types";
+
+import ceraveCleanserImg from "../../assets/products/cerave-cleanser.png";
+import ordinarySerumImg from "../../assets/products/ordinary-serum.png";
+import larocheMoisturizerImg from "../../assets/products/laroche-moisturizer.png";
+import neutrogenaSunscreenImg from "../../assets/products/neutrogena-sunscreen.png";
+import tatchaCreamImg from "../../assets/products/tatcha-cream.png";
+import paulasChoiceImg from "../../assets/products/paulas-choice.png";
+import elfHydratingImg from "../../assets/products/elf-hydrating.png";
+import innisfreeSerumImg from "../../assets/products/innisfree-serum.png";
+import drunkElephantImg from "../../assets/products/drunk-elephant.png";
+import fentyCleanserImg from "../../assets/products/fenty-cleanser.png";
+import glowRecipeImg from "../../assets/products/glow-recipe.png";
+import cosrxSnailImg from "../../assets/products/cosrx-snail.png";
+import firstAidBeautyImg from "../../assets/products/first-aid-beauty.png";
+import kiehlSCreamImg from "../../assets/products/kiehl's-cream.png";
+import cliniqueGelImg from "../../assets/products/clinique-gel.png";
+import laneigeSleepingMaskImg from "../../assets/products/laneige-sleeping mask.png";
+import skinfixBarrierImg from "../../assets/products/skinfix-barrier.png";
+import summerFridaysImg from "../../assets/products/summer-fridays.png";
+
+/** Skincare essentials. */
+export const skincareProducts: Product[] = [
+  {
+    id: "cerave-hydrating-facial-cleanser",
+    slug: "cerave-hydrating-facial-cleanser",
+    name: "CeraVe Hydrating Facial Cleanser",
+    image: ceraveCleanserImg,
+    price: 1599,
+    originalPrice: 1799,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "the-ordinary-niacinamide-10-pct-plus-zinc-1-pct",
+    slug: "the-ordinary-niacinamide-10-pct-plus-zinc-1-pct",
+    name: "The Ordinary Niacinamide 10% + Zinc 1%",
+    image: ordinarySerumImg,
+    price: 999,
+    originalPrice: 1149,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "la-roche-posay-toleriane-double-repair-moisturizer",
+    slug: "la-roche-posay-toleriane-double-repair-moisturizer",
+    name: "La Roche-Posay Toleriane Double Repair Moisturizer",
+    image: larocheMoisturizerImg,
+    price: 2099,
+    originalPrice: 2499,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "neutrogena-hydro-boost-water-gel",
+    slug: "neutrogena-hydro-boost-water-gel",
+    name: "Neutrogena Hydro Boost Water Gel",
+    image: neutrogenaSunscreenImg,
+    price: 1799,
+    originalPrice: 1999,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "tatcha-the-dewy-skin-cream",
+    slug: "tatcha-the-dewy-skin-cream",
+    name: "Tatcha The Dewy Skin Cream",
+    image: tatchaCreamImg,
+    price: 6499,
+    originalPrice: 7099,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "paulas-choice-skin-perfecting-2-pct-bha-liquid-exfoliant",
+    slug: "paulas-choice-skin-perfecting-2-pct-bha-liquid-exfoliant",
+    name: "Paula’s Choice Skin Perfecting 2% BHA Liquid Exfoliant",
+    image: paulasChoiceImg,
+    price: 3199,
+    originalPrice: 3749,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "e-l-f-holy-hydration-face-cream",
+    slug: "e-l-f-holy-hydration-face-cream",
+    name: "e.l.f. Holy Hydration! Face Cream",
+    image: elfHydratingImg,
+    price: 899,
+    originalPrice: 999,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "innisfree-green-tea-seed-serum",
+    slug: "innisfree-green-tea-seed-serum",
+    name: "Innisfree Green Tea Seed Serum",
+    image: innisfreeSerumImg,
+    price: 2299,
+    originalPrice: 2599,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "drunk-elephant-protini-polypeptide-cream",
+    slug: "drunk-elephant-protini-polypeptide-cream",
+    name: "Drunk Elephant Protini Polypeptide Cream",
+    image: drunkElephantImg,
+    price: 5699,
+    originalPrice: 6299,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "fenty-skin-total-cleansr-remove-it-all-cleanser",
+    slug: "fenty-skin-total-cleansr-remove-it-all-cleanser",
+    name: "Fenty Skin Total Cleans’r Remove-It-All Cleanser",
+    image: fentyCleanserImg,
+    price: 2899,
+    originalPrice: 3199,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "glow-recipe-watermelon-glow-niacinamide-dew-drops",
+    slug: "glow-recipe-watermelon-glow-niacinamide-dew-drops",
+    name: "Glow Recipe Watermelon Glow Niacinamide Dew Drops",
+    image: glowRecipeImg,
+    price: 3699,
+    originalPrice: 3999,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "cosrx-advanced-snail-96-mucin-power-essence",
+    slug: "cosrx-advanced-snail-96-mucin-power-essence",
+    name: "COSRX Advanced Snail 96 Mucin Power Essence",
+    image: cosrxSnailImg,
+    price: 2199,
+    originalPrice: 2499,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "first-aid-beauty-ultra-repair-cream",
+    slug: "first-aid-beauty-ultra-repair-cream",
+    name: "First Aid Beauty Ultra Repair Cream",
+    image: firstAidBeautyImg,
+    price: 2999,
+    originalPrice: 3299,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "kiehls-ultra-facial-cream",
+    slug: "kiehls-ultra-facial-cream",
+    name: "Kiehl’s Ultra Facial Cream",
+    image: kiehlSCreamImg,
+    price: 3599,
+    originalPrice: 3999,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "clinique-dramatically-different-moisturizing-gel",
+    slug: "clinique-dramatically-different-moisturizing-gel",
+    name: "Clinique Dramatically Different Moisturizing Gel",
+    image: cliniqueGelImg,
+    price: 2899,
+    originalPrice: 3199,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "laneige-lip-sleeping-mask-berry",
+    slug: "laneige-lip-sleeping-mask-berry",
+    name: "Laneige Lip Sleeping Mask (Berry)",
+    image: laneigeSleepingMaskImg,
+    price: 1999,
+    originalPrice: 2299,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "skinfix-barrier-plus-triple-lipid-peptide-cream",
+    slug: "skinfix-barrier-plus-triple-lipid-peptide-cream",
+    name: "Skinfix Barrier+ Triple Lipid-Peptide Cream",
+    image: skinfixBarrierImg,
+    price: 4299,
+    originalPrice: 4799,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+  {
+    id: "summer-fridays-jet-lag-mask",
+    slug: "summer-fridays-jet-lag-mask",
+    name: "Summer Fridays Jet Lag Mask",
+    image: summerFridaysImg,
+    price: 4299,
+    originalPrice: 4799,
+    category: "skin-care",
+    bodySystems: ["skin"],
+    conditions: [],
+    tags: ["skincare-offer"],
+    inStock: true,
+  },
+];
@@ -0,0 +1,312 @@
+// src/catalog/data/vitamins.ts
+
+import type { Product } from "../types";
+
+import vitaminDImg from "../../assets/vitamins/vitamin_d.png";
+import vitaminCImg from "../../assets/vitamins/vitamin_c.png";
+import omega3Img from "../../assets/vitamins/omega3.png";
+import multivitaminImg from "../../assets/vitamins/multivitamin.png";
+import zincImg from "../../assets/vitamins/zinc.png";
+import magnesiumImg from "../../assets/vitamins/magnesium.png";
+import probioticsImg from "../../assets/vitamins/probiotics.png";
+import collagenImg from "../../assets/vitamins/collagen.png";
+import calciumImg from "../../assets/vitamins/calcium.png";
+import ironImg from "../../assets/vitamins/iron.png";
+import vitaminB12Img from "../../assets/vitamins/vitamin_b12.png";
+import turmericImg from "../../assets/vitamins/turmeric.png";
+import img20251SunshineNutritionMelatonin5mgImg from "../../assets/products/2025-1Sunshine-Nutrition-Melatonin-5mg.png";
+import folicAcid5mgImg from "../../assets/products/Folic-Acid-5mg.png";
+import masonNaturalMagnesiumOxide500mg100SImg from "../../assets/products/Mason-Natural-Magnesium-Oxide-500mg-100'S.png";
+import sunshineNutritionVitaminCImg from "../../assets/products/Sunshine-Nutrition-Vitamin-C.png";
+import sunshineNutritionSkinRadianceEFFPineappleImg from "../../assets/products/Sunshine-Nutrition-Skin-Radiance-EFF-Pineapple.png";
+import sunshineNutritionZincGluconate50mgImg from "../../assets/products/Sunshine-Nutrition-Zinc-Gluconate-50mg.png";
+import img2SunshineNutritionGoodMorningMultivitamin960SImg from "../../assets/products/2Sunshine-Nutrition-Good-Morning-Multivitamin + 9 60'S.png";
+import piritezeAllergyTablets10SImg from "../../assets/products/Piriteze-Allergy-Tablets-10'S.png";
+
+/** Vitamins and supplements. */
+export const vitaminsProducts: Product[] = [
+  {
+    id: "vitamin-d3-1000-iu-softgels",
+    slug: "vitamin-d3-1000-iu-softgels",
+    name: "Vitamin D3 1000 IU Softgels",
+    image: vitaminDImg,
+    price: 950,
+    originalPrice: 1150,
+    packSize: "100 Softgels",
+    category: "vitamins-supplements",
+    subcategory: "Bone & Immunity Support",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "vitamin-c-1000mg-tablets",
+    slug: "vitamin-c-1000mg-tablets",
+    name: "Vitamin C 1000mg Tablets",
+    image: vitaminCImg,
+    price: 720,
+    originalPrice: 880,
+    packSize: "60 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Antioxidant & Immune Health",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "omega-3-fish-oil-1000mg",
+    slug: "omega-3-fish-oil-1000mg",
+    name: "Omega-3 Fish Oil 1000mg",
+    image: omega3Img,
+    price: 1450,
+    originalPrice: 1650,
+    packSize: "120 Softgels",
+    category: "vitamins-supplements",
+    subcategory: "Heart & Brain Health",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "daily-multivitamin",
+    slug: "daily-multivitamin",
+    name: "Daily Multivitamin",
+    image: multivitaminImg,
+    price: 980,
+    originalPrice: 1200,
+    packSize: "90 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Overall Wellness",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "zinc-50mg-tablets",
+    slug: "zinc-50mg-tablets",
+    name: "Zinc 50mg Tablets",
+    image: zincImg,
+    price: 550,
+    originalPrice: 650,
+    packSize: "100 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Immune & Skin Health",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "magnesium-citrate-200mg",
+    slug: "magnesium-citrate-200mg",
+    name: "Magnesium Citrate 200mg",
+    image: magnesiumImg,
+    price: 830,
+    originalPrice: 950,
+    packSize: "100 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Muscle & Nerve Support",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "probiotic-complex",
+    slug: "probiotic-complex",
+    name: "Probiotic Complex",
+    image: probioticsImg,
+    price: 1250,
+    originalPrice: 1450,
+    packSize: "60 Capsules",
+    category: "vitamins-supplements",
+    subcategory: "Digestive Health",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "collagen-peptides-powder",
+    slug: "collagen-peptides-powder",
+    name: "Collagen Peptides Powder",
+    image: collagenImg,
+    price: 2100,
+    originalPrice: 2500,
+    packSize: "300g",
+    category: "vitamins-supplements",
+    subcategory: "Skin, Hair & Joint Support",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "calcium-plus-vitamin-d3-tablets",
+    slug: "calcium-plus-vitamin-d3-tablets",
+    name: "Calcium + Vitamin D3 Tablets",
+    image: calciumImg,
+    price: 970,
+    originalPrice: 1100,
+    packSize: "60 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Bone Strength",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "iron-ferrous-sulfate-65mg",
+    slug: "iron-ferrous-sulfate-65mg",
+    name: "Iron (Ferrous Sulfate) 65mg",
+    image: ironImg,
+    price: 690,
+    originalPrice: 780,
+    packSize: "100 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Energy & Blood Health",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "vitamin-b12-1000mcg",
+    slug: "vitamin-b12-1000mcg",
+    name: "Vitamin B12 1000mcg",
+    image: vitaminB12Img,
+    price: 640,
+    originalPrice: 750,
+    packSize: "100 Tablets",
+    category: "vitamins-supplements",
+    subcategory: "Energy & Nerve Support",
+    bodySystems: [],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "turmeric-curcumin-1500mg",
+    slug: "turmeric-curcumin-1500mg",
+    name: "Turmeric Curcumin 1500mg",
+    image: turmericImg,
+    price: 1350,
+    originalPrice: 1550,
+    packSize: "90 Capsules",
+    category: "vitamins-supplements",
+    subcategory: "Joint & Inflammation Support",
+    bodySystems: ["musculoskeletal"],
+    conditions: [],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "sunshine-nutrition-melatonin-5mg-tablets-100s",
+    slug: "sunshine-nutrition-melatonin-5mg-tablets-100s",
+    name: "Sunshine Nutrition Melatonin 5mg Tablets 100'S",
+    brand: "Sunshine Nutrition",
+    image: img20251SunshineNutritionMelatonin5mgImg,
+    price: 3200,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "folic-acid-5mg",
+    slug: "folic-acid-5mg",
+    name: "Folic Acid 5mg",
+    brand: "Lab Brand",
+    image: folicAcid5mgImg,
+    price: 344,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "mason-natural-magnesium-oxide-500mg-100s",
+    slug: "mason-natural-magnesium-oxide-500mg-100s",
+    name: "Mason Natural Magnesium Oxide 500mg 100'S",
+    brand: "Mason Natural",
+    image: masonNaturalMagnesiumOxide500mg100SImg,
+    price: 3096,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "sunshine-nutrition-vitamin-c-1000mg-ht-tabs-100s",
+    slug: "sunshine-nutrition-vitamin-c-1000mg-ht-tabs-100s",
+    name: "Sunshine Nutrition Vitamin C 1000mg HT Tabs 100'S",
+    brand: "Sunshine Nutrition",
+    image: sunshineNutritionVitaminCImg,
+    price: 3200,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "sunshine-nutrition-skin-radiance-eff-pineapple-20s",
+    slug: "sunshine-nutrition-skin-radiance-eff-pineapple-20s",
+    name: "Sunshine Nutrition Skin Radiance EFF Pineapple 20'S",
+    brand: "Sunshine Nutrition",
+    image: sunshineNutritionSkinRadianceEFFPineappleImg,
+    price: 1800,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "sunshine-nutrition-zinc-gluconate-50mg-gss-100s",
+    slug: "sunshine-nutrition-zinc-gluconate-50mg-gss-100s",
+    name: "Sunshine Nutrition Zinc Gluconate 50mg Gss 100'S",
+    brand: "Sunshine Nutrition",
+    image: sunshineNutritionZincGluconate50mgImg,
+    price: 2700,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "sunshine-nutrition-good-morning-multivitamin-plus-9-60s",
+    slug: "sunshine-nutrition-good-morning-multivitamin-plus-9-60s",
+    name: "Sunshine Nutrition Good Morning Multivitamin + 9 60'S",
+    brand: "Sunshine Nutrition",
+    image: img2SunshineNutritionGoodMorningMultivitamin960SImg,
+    price: 3800,
+    category: "vitamins-supplements",
+    bodySystems: [],
+    conditions: [],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+  {
+    id: "piritaze-allergy-tablets-10s",
+    slug: "piritaze-allergy-tablets-10s",
+    name: "Piritaze Allergy Tablets 10'S",
+    brand: "Niiux",
+    image: piritezeAllergyTablets10SImg,
+    price: 1040,
+    category: "otc",
+    bodySystems: [],
+    conditions: ["cough-flu-cold"],
+    tags: ["new-arrival"],
+    inStock: true,
+  },
+];
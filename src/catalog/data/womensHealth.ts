@@ -0,0 +1,154 @@
+// src/catalog/data/womensHealth.ts
+
+import type { Product } from "../types";
+
+import contraceptiveImg from "../../assets/products/WomenHealth/Contraceptive.png";
+import emergencyPillImg from "../../assets/products/WomenHealth/EmergencyPill.png";
+import estradiolImg from "../../assets/products/WomenHealth/Estradiol.png";
+import clomipheneImg from "../../assets/products/WomenHealth/Clomiphene.png";
+import letrozoleImg from "../../assets/products/WomenHealth/Letrozole.png";
+import metforminImg from "../../assets/products/WomenHealth/Metformin.png";
+import nitrofurantoinImg from "../../assets/products/WomenHealth/Nitrofurantoin.png";
+import fluconazoleImg from "../../assets/products/WomenHealth/Fluconazole.png";
+import ferrousSulfateImg from "../../assets/products/WomenHealth/FerrousSulfate.png";
+import folicAcidImg from "../../assets/products/WomenHealth/FolicAcid.png";
+
+/** Women's health medicines. */
+export const womensHealthProducts: Product[] = [
+  {
+    id: "ethinylestradiol-plus-levonorgestrel",
+    slug: "ethinylestradiol-plus-levonorgestrel",
+    name: "Ethinylestradiol + Levonorgestrel",
+    image: contraceptiveImg,
+    price: 850,
+    category: "medicine",
+    subcategory: "Contraception",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "levonorgestrel-plan-b",
+    slug: "levonorgestrel-plan-b",
+    name: "Levonorgestrel (Plan B)",
+    image: emergencyPillImg,
+    price: 620,
+    category: "medicine",
+    subcategory: "Emergency Contraception",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "estradiol",
+    slug: "estradiol",
+    name: "Estradiol",
+    image: estradiolImg,
+    price: 1100,
+    category: "medicine",
+    subcategory: "Menopause Management",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "clomiphene-citrate",
+    slug: "clomiphene-citrate",
+    name: "Clomiphene Citrate",
+    image: clomipheneImg,
+    price: 970,
+    category: "medicine",
+    subcategory: "Fertility",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "letrozole",
+    slug: "letrozole",
+    name: "Letrozole",
+    image: letrozoleImg,
+    price: 1250,
+    category: "medicine",
+    subcategory: "Fertility",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "metformin",
+    slug: "metformin",
+    name: "Metformin",
+    image: metforminImg,
+    price: 430,
+    category: "medicine",
+    subcategory: "PCOS Management",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "nitrofurantoin",
+    slug: "nitrofurantoin",
+    name: "Nitrofurantoin",
+    image: nitrofurantoinImg,
+    price: 680,
+    category: "medicine",
+    subcategory: "Urinary Tract Infection",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health", "uti"],
+    tags: [],
+    inStock: true,
+    requiresPrescription: true,
+  },
+  {
+    id: "fluconazole",
+    slug: "fluconazole",
+    name: "Fluconazole",
+    image: fluconazoleImg,
+    price: 550,
+    category: "medicine",
+    subcategory: "Vaginal Candidiasis",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "ferrous-sulfate",
+    slug: "ferrous-sulfate",
+    name: "Ferrous Sulfate",
+    image: ferrousSulfateImg,
+    price: 400,
+    category: "medicine",
+    subcategory: "Iron-Deficiency Anemia",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+  },
+  {
+    id: "folic-acid",
+    slug: "folic-acid",
+    name: "Folic Acid",
+    image: folicAcidImg,
+    price: 350,
+    category: "medicine",
+    subcategory: "Pregnancy Support",
+    bodySystems: ["reproductive"],
+    conditions: ["womens-health"],
+    tags: [],
+    inStock: true,
+  },
+];
@@ -0,0 +1,37 @@
+// src/catalog/index.ts — single source of truth for product data
+
+export type {
+  BodySystem,
+  CategoryId,
+  ConditionId,
+  Product,
+  ProductTag,
+} from "./types";
+
+export {
+  getAllProducts,
+  getProductById,
+  getProductBySlug,
+  getProductsByCategory,
+  getProductsBySystem,
+  getProductsByCondition,
+  getProductsByTag,
+  getRelatedProducts,
+  getDiscountPercent,
+  getProductPath,
+  isPharmaProduct,
+  toCartItem,
+} from "./queries";
+
+export {
+  getDidYouMean,
+  getSearchSuggestions,
+  searchProducts,
+  type SearchResult,
+} from "./search";
+
+export {
+  BODY_SYSTEM_LABELS,
+  CATEGORY_LABELS,
+  CONDITION_LABELS,
+} from "./labels";
@@ -0,0 +1,47 @@
+// src/catalog/labels.ts
+
+import type { BodySystem, CategoryId, ConditionId } from "./types";
+
+/* ---------------------------------------------------------------
+   Display labels for taxonomy ids
+--------------------------------------------------------------- */
+export const CATEGORY_LABELS: Record<CategoryId, string> = {
+  medicine: "Medicine",
+  otc: "Over-the-Counter",
+  "vitamins-supplements": "Vitamins & Supplements",
+  equipment: "Medical Equipment",
+  "home-healthcare": "Home Healthcare",
+  "beauty-care-cosmetics": "Beauty Care & Cosmetics",
+  "skin-care": "Skin Care",
+  "general-hygiene": "General Hygiene",
+};
+
+export const BODY_SYSTEM_LABELS: Record<BodySystem, string> = {
+  cardiovascular: "Heart & Cardiovascular",
+  respiratory: "Respiratory",
+  gastrointestinal: "Digestive System",
+  renal: "Renal & Urinary",
+  reproductive: "Sexual & Reproductive",
+  nervous: "Nervous System",
+  musculoskeletal: "Musculoskeletal & Joints",
+  endocrine: "Diabetes & Endocrine",
+  "eye-ear": "Eye & Ear",
+  oral: "Oral Care",
+  skin: "Skin",
+};
+
+export const CONDITION_LABELS: Record<ConditionId, string> = {
+  hypertension: "Hypertension",
+  "heart-failure": "Congestive Heart Failure",
+  "coronary-artery-disease": "Coronary Artery Disease",
+  dvt: "DVT",
+  "other-cardiac": "Other Cardiac Conditions",
+  diabetes: "Diabetes",
+  "cough-flu-cold": "Cough, Flu & Cold",
+  uti: "Urinary Tract Infection",
+  "eye-ear-care": "Eye & Ear Care",
+  "oral-hygiene": "Oral Hygiene",
+  "skin-infection": "Skin Infections",
+  "womens-health": "Women's Health",
+  "mens-health": "Men's Health",
+};
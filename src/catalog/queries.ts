@@ -0,0 +1,92 @@
+// src/catalog/queries.ts
+
+import type { CartItem } from "../context/CartContext";
+import { ALL_PRODUCTS, PRODUCTS_BY_ID, PRODUCTS_BY_SLUG } from "./registry";
+import type {
+  BodySystem,
+  CategoryId,
+  ConditionId,
+  Product,
+  ProductTag,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Lookups
+--------------------------------------------------------------- */
+export const getAllProducts = (): readonly Product[] => ALL_PRODUCTS;
+
+export const getProductById = (id: string): Product | undefined =>
+  PRODUCTS_BY_ID.get(id);
+
+export const getProductBySlug = (slug: string): Product | undefined =>
+  PRODUCTS_BY_SLUG.get(slug);
+
+export const getProductsByCategory = (category: CategoryId): Product[] =>
+  ALL_PRODUCTS.filter((p) => p.category === category);
+
+export const getProductsBySystem = (system: BodySystem): Product[] =>
+  ALL_PRODUCTS.filter((p) => p.bodySystems.includes(system));
+
+export const getProductsByCondition = (condition: ConditionId): Product[] =>
+  ALL_PRODUCTS.filter((p) => p.conditions.includes(condition));
+
+export const getProductsByTag = (tag: ProductTag): Product[] =>
+  ALL_PRODUCTS.filter((p) => p.tags.includes(tag));
+
+/**
+ * Products most similar to `product`: shared conditions weigh most,
+ * then body systems, shelf and department. Ties keep catalog order.
+ */
+export const getRelatedProducts = (product: Product, limit = 4): Product[] =>
+  ALL_PRODUCTS.filter((p) => p.id !== product.id)
+    .map((p) => {
+      let score = 0;
+      score += 4 * p.conditions.filter((c) => product.conditions.includes(c)).length;
+      score += 2 * p.bodySystems.filter((s) => product.bodySystems.includes(s)).length;
+      if (product.subcategory && p.subcategory === product.subcategory) score += 2;
+      if (p.category === product.category) score += 1;
+      return { p, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ p }) => p);
+
+/* ---------------------------------------------------------------
+   Derived values
+--------------------------------------------------------------- */
+
+/** Whole-number discount off `originalPrice`, or 0 when not on offer. */
+export const getDiscountPercent = (product: Product): number => {
+  const { price, originalPrice } = product;
+  if (!originalPrice || originalPrice <= price) return 0;
+  return Math.round(((originalPrice - price) / originalPrice) * 100);
+};
+
+/** Medicines, OTC and supplements carry the "Pharma" badge. */
+export const isPharmaProduct = (product: Product): boolean =>
+  product.category === "medicine" ||
+  product.category === "otc" ||
+  product.category === "vitamins-supplements";
+
+/** Deep link to the product detail page. */
+export const getProductPath = (product: Product): string =>
+  `/product/${product.slug}`;
+
+/** Builds the cart line for a catalog product, keyed by its SKU id. */
+export const toCartItem = (product: Product, quantity = 1): CartItem => {
+  const discount = getDiscountPercent(product);
+  return {
+    id: product.id,
+    name: product.name,
+    price: product.price,
+    image: product.image,
+    quantity,
+    category: product.subcategory,
+    description: product.description,
+    inStock: product.inStock,
+    originalPrice: product.originalPrice,
+    discount: discount || undefined,
+    ...(product.requiresPrescription && { requiresPrescription: true }),
+  };
+};
@@ -0,0 +1,70 @@
+// src/catalog/registry.ts
+
+import type { Product } from "./types";
+
+import { cardiovascularProducts } from "./data/cardiovascular";
+import { respiratoryProducts } from "./data/respiratory";
+import { gastrointestinalProducts } from "./data/gastrointestinal";
+import { renalProducts } from "./data/renal";
+import { reproductiveProducts } from "./data/reproductive";
+import { nervousProducts } from "./data/nervous";
+import { musculoskeletalProducts } from "./data/musculoskeletal";
+import { diabetesProducts } from "./data/diabetes";
+import { eyeEarProducts } from "./data/eyeEar";
+import { oralCareProducts } from "./data/oralCare";
+import { skinTreatmentProducts } from "./data/skinTreatment";
+import { womensHealthProducts } from "./data/womensHealth";
+import { mensHealthProducts } from "./data/mensHealth";
+import { otcProducts } from "./data/otc";
+import { vitaminsProducts } from "./data/vitamins";
+import { equipmentProducts } from "./data/equipment";
+import { homeHealthcareProducts } from "./data/homeHealthcare";
+import { personalCareProducts } from "./data/personalCare";
+import { skincareProducts } from "./data/skincare";
+import { beautyProducts } from "./data/beauty";
+import { shopEssentialsProducts } from "./data/shopEssentials";
+
+/* ---------------------------------------------------------------
+   Registry — every SKU the store sells, in display order
+--------------------------------------------------------------- */
+export const ALL_PRODUCTS: readonly Product[] = [
+  ...cardiovascularProducts,
+  ...respiratoryProducts,
+  ...gastrointestinalProducts,
+  ...renalProducts,
+  ...reproductiveProducts,
+  ...nervousProducts,
+  ...musculoskeletalProducts,
+  ...diabetesProducts,
+  ...eyeEarProducts,
+  ...oralCareProducts,
+  ...skinTreatmentProducts,
+  ...womensHealthProducts,
+  ...mensHealthProducts,
+  ...otcProducts,
+  ...vitaminsProducts,
+  ...equipmentProducts,
+  ...homeHealthcareProducts,
+  ...personalCareProducts,
+  ...skincareProducts,
+  ...beautyProducts,
+  ...shopEssentialsProducts,
+];
+
+/* ---------------------------------------------------------------
+   Indexes — built once; duplicate ids or slugs fail fast, since
+   they would collide in the cart and in product URLs
+--------------------------------------------------------------- */
+const buildIndex = (key: "id" | "slug"): ReadonlyMap<string, Product> => {
+  const index = new Map<string, Product>();
+  for (const product of ALL_PRODUCTS) {
+    if (index.has(product[key])) {
+      throw new Error(`Catalog: duplicate product ${key} "${product[key]}"`);
+    }
+    index.set(product[key], product);
+  }
+  return index;
+};
+
+export const PRODUCTS_BY_ID = buildIndex("id");
+export const PRODUCTS_BY_SLUG = buildIndex("slug");
@@ -0,0 +1,212 @@
+// src/catalog/search.ts
+
+import { BODY_SYSTEM_LABELS, CATEGORY_LABELS, CONDITION_LABELS } from "./labels";
+import { ALL_PRODUCTS } from "./registry";
+import type { Product } from "./types";
+
+/* ---------------------------------------------------------------
+   Types
+--------------------------------------------------------------- */
+export interface SearchResult {
+  product: Product;
+  score: number;
+}
+
+/* ---------------------------------------------------------------
+   Tokenising
+--------------------------------------------------------------- */
+const normalize = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const tokenize = (text: string): string[] =>
+  normalize(text).split(" ").filter(Boolean);
+
+/* ---------------------------------------------------------------
+   Index — one weighted token list per product field. Drug names
+   carry the generic in brackets ("Norvasc (Amlodipine)"), so the
+   name field doubles as the active-ingredient index.
+--------------------------------------------------------------- */
+interface IndexedField {
+  tokens: string[];
+  weight: number;
+}
+
+interface IndexedProduct {
+  product: Product;
+  fields: IndexedField[];
+}
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  brand: 2,
+  taxonomy: 1.5,
+  description: 0.5,
+} as const;
+
+const indexProduct = (product: Product): IndexedProduct => ({
+  product,
+  fields: [
+    { tokens: tokenize(product.name), weight: FIELD_WEIGHTS.name },
+    { tokens: tokenize(product.brand ?? ""), weight: FIELD_WEIGHTS.brand },
+    {
+      tokens: tokenize(
+        [
+          CATEGORY_LABELS[product.category],
+          product.subcategory ?? "",
+          ...product.conditions.map((c) => CONDITION_LABELS[c]),
+          ...product.bodySystems.map((s) => BODY_SYSTEM_LABELS[s]),
+        ].join(" ")
+      ),
+      weight: FIELD_WEIGHTS.taxonomy,
+    },
+    { tokens: tokenize(product.description ?? ""), weight: FIELD_WEIGHTS.description },
+  ],
+});
+
+let index: IndexedProduct[] | null = null;
+let vocabulary: string[] | null = null;
+
+const getIndex = (): IndexedProduct[] => {
+  index ??= ALL_PRODUCTS.map(indexProduct);
+  return index;
+};
+
+/** Every distinct name/brand/taxonomy word — the "did you mean" dictionary. */
+const getVocabulary = (): string[] => {
+  vocabulary ??= Array.from(
+    new Set(
+      getIndex().flatMap(({ fields }) =>
+        fields
+          .filter((f) => f.weight > FIELD_WEIGHTS.description)
+          .flatMap((f) => f.tokens)
+          .filter((t) => t.length > 2)
+      )
+    )
+  );
+  return vocabulary;
+};
+
+/* ---------------------------------------------------------------
+   Fuzzy matching
+--------------------------------------------------------------- */
+
+/** Optimal string alignment distance — Levenshtein plus adjacent swaps. */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = d;
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+/** Typos tolerated for a query word: none for short words, two for long ones. */
+const allowedTypos = (term: string): number =>
+  term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+
+/** 0–1 similarity between a query word and an indexed word. */
+const matchTerm = (term: string, token: string): number => {
+  if (token === term) return 1;
+  // Single letters ("vitamin c") only count as whole words
+  if (term.length === 1) return 0;
+  if (token.startsWith(term)) return 0.9;
+  if (term.length > 2 && token.includes(term)) return 0.7;
+
+  const max = allowedTypos(term);
+  if (max === 0) return 0;
+  // Compare against the token's prefix too, so "amlod" still hits "amlodipine"
+  const candidate = token.length > term.length + max ? token.slice(0, term.length) : token;
+  const distance = editDistance(term, candidate, max);
+  return distance <= max ? 0.5 - 0.15 * distance : 0;
+};
+
+/** Sum of each query word's best weighted hit, or 0 unless every word matched. */
+const scoreProduct = (terms: string[], entry: IndexedProduct): number => {
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of entry.fields) {
+      for (const token of field.tokens) {
+        best = Math.max(best, matchTerm(term, token) * field.weight);
+      }
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  // Nudge stocked items above otherwise-equal out-of-stock ones
+  return entry.product.inStock ? total + 0.1 : total;
+};
+
+/** Results scoring below this share of the best hit are dropped as noise. */
+const RELATIVE_CUTOFF = 0.5;
+
+/* ---------------------------------------------------------------
+   Public API
+--------------------------------------------------------------- */
+
+/** Ranked products matching `query`, tolerant of typos and partial words. */
+export const searchProducts = (query: string, limit?: number): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const scored = getIndex()
+    .map((entry) => ({ product: entry.product, score: scoreProduct(terms, entry) }))
+    .filter((r) => r.score > 0);
+  const top = Math.max(0, ...scored.map((r) => r.score));
+
+  const results = scored
+    .filter((r) => r.score >= top * RELATIVE_CUTOFF)
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name));
+
+  return limit === undefined ? results : results.slice(0, limit);
+};
+
+/** Top matches for the header autosuggest dropdown. */
+export const getSearchSuggestions = (query: string, limit = 6): Product[] =>
+  normalize(query).length < 2
+    ? []
+    : searchProducts(query, limit).map((r) => r.product);
+
+/**
+ * Closest spelling of `query` built from catalog words, for the
+ * "did you mean" prompt. Returns undefined when nothing better exists.
+ */
+export const getDidYouMean = (query: string): string | undefined => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return undefined;
+
+  const corrected = terms.map((term) => {
+    if (term.length < 3) return term;
+    let best = term;
+    let bestDistance = Math.max(1, Math.round(term.length / 3)) + 1;
+    for (const word of getVocabulary()) {
+      const distance = editDistance(term, word, bestDistance - 1);
+      if (distance < bestDistance) {
+        best = word;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  });
+
+  const suggestion = corrected.join(" ");
+  if (suggestion === terms.join(" ")) return undefined;
+  return searchProducts(suggestion, 1).length > 0 ? suggestion : undefined;
+};
@@ -0,0 +1,105 @@
+// src/catalog/types.ts
+
+/* ---------------------------------------------------------------
+   Taxonomy
+--------------------------------------------------------------- */
+
+/** Store departments — mirror the `/categories/*` routes. */
+export type CategoryId =
+  | "medicine"
+  | "otc"
+  | "vitamins-supplements"
+  | "equipment"
+  | "home-healthcare"
+  | "beauty-care-cosmetics"
+  | "skin-care"
+  | "general-hygiene";
+
+/** Body systems — mirror the `/system/*` routes. */
+export type BodySystem =
+  | "cardiovascular"
+  | "respiratory"
+  | "gastrointestinal"
+  | "renal"
+  | "reproductive"
+  | "nervous"
+  | "musculoskeletal"
+  | "endocrine"
+  | "eye-ear"
+  | "oral"
+  | "skin";
+
+/** Conditions — mirror the `/condition(s)/*` routes. */
+export type ConditionId =
+  | "hypertension"
+  | "heart-failure"
+  | "coronary-artery-disease"
+  | "dvt"
+  | "other-cardiac"
+  | "diabetes"
+  | "cough-flu-cold"
+  | "uti"
+  | "eye-ear-care"
+  | "oral-hygiene"
+  | "skin-infection"
+  | "womens-health"
+  | "mens-health";
+
+/** Merchandising collections shown on home and offer pages. */
+export type ProductTag =
+  | "best-seller"
+  | "campus-essentials"
+  | "trending"
+  | "new-arrival"
+  | "new-in-beauty"
+  | "beauty-deal"
+  | "skincare-offer"
+  | "everyday-relief"
+  | "shop-essentials";
+
+/* ---------------------------------------------------------------
+   Product
+--------------------------------------------------------------- */
+export interface Product {
+  /** Stable SKU id — unique across the whole catalog, used as the cart key. */
+  id: string;
+  /** URL-safe identifier, unique across the catalog. */
+  slug: string;
+  name: string;
+  brand?: string;
+  description?: string;
+  image: string;
+  /** Extra photos for the detail page gallery; `image` is always shown first. */
+  gallery?: string[];
+
+  /** Current selling price in KES. */
+  price: number;
+  /** Pre-discount price in KES, when the product is on offer. */
+  originalPrice?: number;
+  packSize?: string;
+
+  category: CategoryId;
+  /** Shelf or drug class shown on cards, e.g. "Proton Pump Inhibitor (PPI)". */
+  subcategory?: string;
+  bodySystems: BodySystem[];
+  conditions: ConditionId[];
+  tags: ProductTag[];
+
+  inStock: boolean;
+  /** Units on hand, for SKUs whose stock is counted. */
+  stockQuantity?: number;
+  /** Shipping weight in kg; leave out for small packs. Heavy parcels pay a delivery surcharge. */
+  weightKg?: number;
+  /** Too big for a motorbike — goes out by car, with a handling fee. */
+  bulky?: boolean;
+  /** Prescription-only medicine — checkout holds it until a prescription is on file. */
+  requiresPrescription?: boolean;
+  rating?: number;
+  /** Short ribbon text such as "SALE" or "NEW". */
+  badge?: string;
+
+  /** Directions for use, as printed on the pack leaflet. */
+  dosage?: string;
+  /** Precautions and contraindications shown on the detail page. */
+  warnings?: string[];
+}
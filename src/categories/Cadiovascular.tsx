@@ -1,90 +1,71 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useCart } from "../context/CartContext";
+import {
+  CONDITION_LABELS,
+  getProductPath,
+  getProductsBySystem,
+  toCartItem,
+  type ConditionId,
+  type Product,
+} from "../catalog";
+import { getStockLabel, isSoldOut } from "../inventory";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
+import { formatPrice } from "../config";
 import styles from "./Shop.module.css";
 
 // ===============================
-// ✅ Type Definition
+// ✅ Catalog Data
 // ===============================
-interface Product {
-  id: number;
-  name: string;
-  image: string;
-  price: number;
-  category: string;
-  stock: string;
-  subCategory: string;
-}
-
-// ===============================
-// ✅ Static Image Imports
-// ===============================
-import amlodipineImg from "../assets/products/BloodPressure/Amlodipine.png";
-import atenololImg from "../assets/products/BloodPressure/Atenolol.png";
-import bisoprololImg from "../assets/products/BloodPressure/Bisoprolol.png";
-import candesartanImg from "../assets/products/BloodPressure/Candesartan.png";
-import chlorthalidoneImg from "../assets/products/BloodPressure/Chlorthalidone.png";
-import enalaprilImg from "../assets/products/BloodPressure/Enalapril.png";
-import furosemideImg from "../assets/products/BloodPressure/Furosemide.png";
-import hydrochlorothiazideImg from "../assets/products/BloodPressure/Hydrochlorothiazide.png";
-import losartanImg from "../assets/products/BloodPressure/Losartan.png";
-import nifedipineImg from "../assets/products/BloodPressure/Nifedipine.png";
-import spironolactoneImg from "../assets/products/BloodPressure/Spironolactone.png";
-import telmisartanImg from "../assets/products/BloodPressure/Telmisartan.png";
-import valsartanImg from "../assets/products/BloodPressure/Valsartan.png";
-
-// ===============================
-// ✅ Product Data
-// ===============================
-const products: Product[] = [
-  // Hypertension
-  { id: 1, name: "Amlodipine", image: amlodipineImg, price: 2395, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 2, name: "Atenolol", image: atenololImg, price: 2747, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 3, name: "Bisoprolol", image: bisoprololImg, price: 1714, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-
-  { id: 4, name: "Candesartan", image: candesartanImg, price: 1420, category: "Cardiovascular", subCategory:"Hypertension", stock: "In Stock" },
-  { id: 5, name: "Furosemide", image: furosemideImg, price: 1200, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 6, name: "Spironolactone", image: spironolactoneImg, price: 1350, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-
-  { id: 7, name: "Enalapril", image: enalaprilImg, price: 1520, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 8, name: "Telmisartan", image: telmisartanImg, price: 1380, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 9, name: "Valsartan", image: valsartanImg, price: 1420, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  
-  {id: 10, name: "Losartan", image: losartanImg, price: 1470, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 11, name: "Chlorthalidone", image: chlorthalidoneImg, price: 1320, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 12, name: "Hydrochlorothiazide", image: hydrochlorothiazideImg, price: 1410, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-  { id: 13, name: "Nifedipine", image: nifedipineImg, price: 1450, category: "Cardiovascular", subCategory: "Hypertension", stock: "In Stock" },
-
-  // Congestive Heart Failure (CHF)
-  { id: 4, name: "Candesartan", image: candesartanImg, price: 1420, category: "Cardiovascular", subCategory: "Congestive Heart Failure", stock: "In Stock" },
-  { id: 5, name: "Furosemide", image: furosemideImg, price: 1200, category: "Cardiovascular", subCategory: "Congestive Heart Failure", stock: "In Stock" },
-  { id: 6, name: "Spironolactone", image: spironolactoneImg, price: 1350, category: "Cardiovascular", subCategory: "Congestive Heart Failure", stock: "In Stock" },
-
-  // Coronary Artery Disease (CAD)
-  { id: 7, name: "Enalapril", image: enalaprilImg, price: 1520, category: "Cardiovascular", subCategory: "Coronary Artery Disease", stock: "In Stock" },
-  { id: 8, name: "Telmisartan", image: telmisartanImg, price: 1380, category: "Cardiovascular", subCategory: "Coronary Artery Disease", stock: "In Stock" },
-  { id: 9, name: "Valsartan", image: valsartanImg, price: 1420, category: "Cardiovascular", subCategory: "Coronary Artery Disease", stock: "In Stock" },
-
-  // Deep Vein Thrombosis (DVT)
-  { id: 10, name: "Losartan", image: losartanImg, price: 1470, category: "Cardiovascular", subCategory: "DVT", stock: "In Stock" },
-  { id: 11, name: "Chlorthalidone", image: chlorthalidoneImg, price: 1320, category: "Cardiovascular", subCategory: "DVT", stock: "In Stock" },
-
-  // Other Cardiac Conditions
-  { id: 12, name: "Hydrochlorothiazide", image: hydrochlorothiazideImg, price: 1410, category: "Cardiovascular", subCategory: "Other Cardiac Conditions", stock: "In Stock" },
-  { id: 13, name: "Nifedipine", image: nifedipineImg, price: 1450, category: "Cardiovascular", subCategory: "Other Cardiac Conditions", stock: "In Stock" },
+const products = getProductsBySystem("cardiovascular");
+
+const CARDIAC_CONDITIONS: ConditionId[] = [
+  "hypertension",
+  "heart-failure",
+  "coronary-artery-disease",
+  "dvt",
+  "other-cardiac",
 ];
 
 // ===============================
 // ✅ Component
 // ===============================
-const CVS: React.FC = () => {
-  const [selectedSubCategory, setSelectedSubCategory] = useState("Hypertension");
-
-  // Derive unique subcategories
-  const subCategories = Array.from(new Set(products.map((p) => p.subCategory)));
-
-  // Filter products based on subcategory
-  const filteredProducts = products.filter(
-    (p) => p.subCategory === selectedSubCategory
+const CVS: React.FC<ListingPageProps> = ({ embedded }) => {
+  const { addToCart } = useCart();
+
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart`);
+  };
+
+  // The condition lives in the URL with the other filters; embedded copies keep their own
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [localCondition, setLocalCondition] = useState<ConditionId>("hypertension");
+  const selectedSubCategory = embedded
+    ? localCondition
+    : CARDIAC_CONDITIONS.find((c) => c === searchParams.get("condition")) ?? "hypertension";
+
+  const setSelectedSubCategory = (condition: ConditionId) => {
+    if (embedded) return setLocalCondition(condition);
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set("condition", condition);
+        next.delete("page");
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  // Filter products based on the condition they treat
+  const filteredProducts = useMemo(
+    () => products.filter((p) => p.conditions.includes(selectedSubCategory)),
+    [selectedSubCategory]
   );
+  const listing = useListing(filteredProducts, { enabled: !embedded });
 
   return (
     <section className={styles.shopSection}>
@@ -98,20 +79,22 @@ const CVS: React.FC = () => {
             id="subcategory"
             className={styles.dropdown}
             value={selectedSubCategory}
-            onChange={(e) => setSelectedSubCategory(e.target.value)}
+            onChange={(e) => setSelectedSubCategory(e.target.value as ConditionId)}
           >
-            {subCategories.map((sub) => (
+            {CARDIAC_CONDITIONS.map((sub) => (
               <option key={sub} value={sub}>
-                {sub}
+                {CONDITION_LABELS[sub]}
               </option>
             ))}
           </select>
         </div>
       </header>
 
+      <ListingToolbar listing={listing} />
+
       {/* Product Grid */}
       <div className={styles.grid}>
-        {filteredProducts.map((product) => (
+        {listing.items.map((product) => (
           <article key={product.id} className={styles.card}>
             <div className={styles.imageWrapper}>
               <img
@@ -120,22 +103,29 @@ const CVS: React.FC = () => {
                 loading="lazy"
                 className={styles.image}
               />
-              <span className={styles.stockBadge}>{product.stock}</span>
+              <span className={styles.stockBadge}>{getStockLabel(product)}</span>
             </div>
 
             <div className={styles.details}>
-              <p className={styles.category}>{product.subCategory}</p>
+              <p className={styles.category}>{CONDITION_LABELS[selectedSubCategory]}</p>
               <h3 className={styles.name}>{product.name}</h3>
-              <p className={styles.price}>KES {product.price.toLocaleString()}</p>
+              <p className={styles.price}>{formatPrice(product.price)}</p>
             </div>
 
             <div className={styles.actions}>
-              <button className={styles.addToCart}>Add to Cart</button>
-              <button className={styles.moreInfo}>More Info</button>
+              <button
+                className={styles.addToCart}
+                onClick={() => handleAddToCart(product)}
+                disabled={isSoldOut(product)}
+              >
+                Add to Cart
+              </button>
+              <Link to={getProductPath(product)} className={styles.moreInfo}>More Info</Link>
             </div>
           </article>
         ))}
       </div>
+      <ListingPagination listing={listing} />
     </section>
   );
 };
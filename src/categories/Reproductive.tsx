@@ -1,114 +1,45 @@
 // src/components/Shop.tsx
 import React from "react";
+import { Link } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useCart } from "../context/CartContext";
+import {
+  getProductPath,
+  getProductsBySystem,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { getStockLabel, isSoldOut } from "../inventory";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
+import { formatPrice } from "../config";
 import styles from "./Shop.module.css";
 
-interface Product {
-  id: number;
-  name: string;
-  image: string;
-  price: number;
-  category: string;
-  stock: string;
-}
+const products = getProductsBySystem("reproductive");
 
-const products: Product[] = [
-  {
-    id: 1,
-    name: "Cartil Omega 30’s",
-    image: "/images/cartil-omega.jpg",
-    price: 2395,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-  {
-    id: 2,
-    name: "Cartil Collagen Caps 30’s",
-    image: "/images/cartil-collagen.jpg",
-    price: 2747,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-  {
-    id: 3,
-    name: "Cartimove-D Tabs 30’s",
-    image: "/images/cartimove-d.jpg",
-    price: 1714,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-  {
-    id: 4,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-    {
-    id: 5,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-    {
-    id: 6,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-    {
-    id: 7,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-    {
-    id: 8,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-    {
-    id: 9,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
+const GUT: React.FC<ListingPageProps> = ({ embedded }) => {
+  const { addToCart } = useCart();
+  const listing = useListing(products, { enabled: !embedded });
 
-      {
-    id: 10,
-    name: "Cartimove Tabs 30’s",
-    image: "/images/cartimove.jpg",
-    price: 1420,
-    category: "Joint Supplements",
-    stock: "In Stock",
-  },
-  // Add more products as needed...
-];
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart`);
+  };
 
-const GUT: React.FC = () => {
   return (
     <section className={styles.shopSection}>
       <div className={styles.header}>
         <h2>Shop</h2>
         <div className={styles.subCategory}>
           <label>Subcategory:</label>
-          <span>Joint Supplements</span>
+          <span>Sexual & Reproductive Health</span>
         </div>
       </div>
 
+      <ListingToolbar listing={listing} />
+
       <div className={styles.grid}>
-        {products.map((product) => (
+        {listing.items.map((product) => (
           <div key={product.id} className={styles.card}>
             <div className={styles.imageWrapper}>
               <img
@@ -117,22 +48,29 @@ const GUT: React.FC = () => {
                 loading="lazy"
                 className={styles.image}
               />
-              <span className={styles.stockBadge}>{product.stock}</span>
+              <span className={styles.stockBadge}>{getStockLabel(product)}</span>
             </div>
 
             <div className={styles.details}>
-              <p className={styles.category}>{product.category}</p>
+              <p className={styles.category}>{product.subcategory}</p>
               <h3 className={styles.name}>{product.name}</h3>
-              <p className={styles.price}>kes {product.price.toLocaleString()}</p>
+              <p className={styles.price}>{formatPrice(product.price)}</p>
             </div>
 
             <div className={styles.actions}>
-              <button className={styles.addToCart}>Add to Cart</button>
-              <button className={styles.moreInfo}>More Info</button>
+              <button
+                className={styles.addToCart}
+                onClick={() => handleAddToCart(product)}
+                disabled={isSoldOut(product)}
+              >
+                Add to Cart
+              </button>
+              <Link to={getProductPath(product)} className={styles.moreInfo}>More Info</Link>
             </div>
           </div>
         ))}
       </div>
+      <ListingPagination listing={listing} />
     </section>
   );
 };
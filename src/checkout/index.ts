@@ -0,0 +1,28 @@
+// src/checkout/index.ts — checkout wizard domain: steps, validation, orders
+
+export type {
+  CheckoutDraft,
+  CheckoutStep,
+  ContactDetails,
+  DeliveryAddress,
+  DeliverySlot,
+  FulfilmentMethod,
+  Order,
+  OrderFulfilment,
+  OrderShipment,
+  PaymentMethod,
+  PickupStation,
+  StepErrors,
+} from "./types";
+
+export {
+  buildChatOrder,
+  buildOrder,
+  describeFulfilment,
+  generateOrderNumber,
+  getOrderShipments,
+} from "./order";
+export { getPaymentLabel, PAYMENT_METHODS } from "./payment";
+export { getDeliverySlots } from "./slots";
+export { getPickupStation, PICKUP_STATIONS } from "./stations";
+export { hasErrors, isValidPhone, normalizePhone, validateDeliveryAddress, validateStep } from "./validation";
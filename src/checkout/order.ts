@@ -0,0 +1,134 @@
+// src/checkout/order.ts
+
+import { STORE } from "../config";
+import type { CartItem } from "../context/CartContext";
+import { EXPRESS_SLOT_ID, getSlotOptions, quoteDelivery } from "../delivery/quote";
+import type { AppliedPromotion } from "../promotions/types";
+import { generateReference } from "../utils/reference";
+import { getPickupStation, PICKUP_STATIONS } from "./stations";
+import { normalizePhone } from "./validation";
+import type {
+  CheckoutDraft,
+  ContactDetails,
+  DeliveryAddress,
+  Order,
+  OrderFulfilment,
+  OrderShipment,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Order numbers — PREFIX-YYMMDD-XXXX, prefix from the store config
+--------------------------------------------------------------- */
+export const generateOrderNumber = (date: Date = new Date()): string =>
+  generateReference(STORE.orderPrefix, date);
+
+/* ---------------------------------------------------------------
+   Draft → Order
+--------------------------------------------------------------- */
+
+/**
+ * Freezes a validated draft, the current cart and its promotions into
+ * an order. Throws if the draft references a slot or station that no
+ * longer exists — callers should have run validateStep on every step first.
+ */
+export const buildOrder = (
+  draft: CheckoutDraft,
+  items: CartItem[],
+  discounts: AppliedPromotion[] = [],
+): Order => {
+  const slot = getSlotOptions(draft).find((s) => s.id === draft.slotId);
+  if (!slot) throw new Error(`Unknown delivery slot: ${draft.slotId}`);
+  if (!draft.payment) throw new Error("Payment method missing");
+
+  let fulfilment: OrderFulfilment;
+  if (draft.method === "pickup") {
+    const station = getPickupStation(draft.stationId);
+    if (!station) throw new Error(`Unknown pickup station: ${draft.stationId}`);
+    fulfilment = { method: "pickup", station };
+  } else {
+    fulfilment = { method: "delivery", address: { ...draft.address } };
+  }
+
+  const subtotal = items.reduce((sum, it) => sum + it.price * it.quantity, 0);
+  const quote = quoteDelivery(draft, items);
+  const discountTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+  const notes = draft.notes.trim();
+
+  return {
+    orderNumber: generateOrderNumber(),
+    placedAt: new Date().toISOString(),
+    contact: {
+      fullName: draft.contact.fullName.trim(),
+      phone: normalizePhone(draft.contact.phone),
+      email: draft.contact.email.trim(),
+    },
+    fulfilment,
+    slot,
+    payment: draft.payment,
+    deliveryFee: quote.fee,
+    deliveryCharges: quote.charges,
+    ...(quote.window && { deliveryWindow: quote.window }),
+    ...(notes && { notes }),
+    items: items.map((it) => ({ ...it })),
+    itemCount: items.reduce((sum, it) => sum + it.quantity, 0),
+    subtotal,
+    ...(discounts.length && { discounts: discounts.map((d) => ({ ...d })) }),
+    total: Math.max(0, subtotal - discountTotal) + quote.fee,
+  };
+};
+
+/**
+ * An order sent from the cart as a WhatsApp chat, before the wizard has
+ * asked for the rest: pickup when no address is chosen, the earliest
+ * standard slot and pay on delivery stand in until the pharmacy confirms
+ * them in the chat.
+ */
+export const buildChatOrder = (
+  { contact, address }: { contact: ContactDetails; address?: DeliveryAddress },
+  items: CartItem[],
+  discounts: AppliedPromotion[] = [],
+): Order => {
+  const draft: CheckoutDraft = {
+    contact,
+    method: address ? "delivery" : "pickup",
+    address: address ?? { county: "", town: "", area: "", street: "", landmark: "" },
+    stationId: PICKUP_STATIONS[0]?.id ?? "",
+    slotId: "",
+    payment: "cash",
+    mpesaPhone: "",
+    notes: "",
+  };
+  const slot = getSlotOptions(draft).find((s) => s.id !== EXPRESS_SLOT_ID);
+  return buildOrder({ ...draft, slotId: slot?.id ?? "" }, items, discounts);
+};
+
+/** One-line summary of where the order is going. */
+export const describeFulfilment = (fulfilment: OrderFulfilment): string =>
+  fulfilment.method === "pickup"
+    ? `${fulfilment.station.name}, ${fulfilment.station.address}`
+    : [fulfilment.address.street, fulfilment.address.area, fulfilment.address.landmark, fulfilment.address.town]
+        .filter(Boolean)
+        .join(", ");
+
+const slotTimeFormat = new Intl.DateTimeFormat("en-KE", {
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  hour: "numeric",
+  minute: "2-digit",
+});
+
+/** Everything ships together from the store and arrives in the quoted window. */
+export const getOrderShipments = ({
+  fulfilment,
+  slot,
+  deliveryWindow = slot,
+}: Pick<Order, "fulfilment" | "slot" | "deliveryWindow">): OrderShipment[] => [
+  {
+    number: 1,
+    station: describeFulfilment(fulfilment),
+    fulfilledBy: STORE.name,
+    deliveryStart: slotTimeFormat.format(new Date(deliveryWindow.start)),
+    deliveryEnd: slotTimeFormat.format(new Date(deliveryWindow.end)),
+  },
+];
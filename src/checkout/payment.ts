@@ -0,0 +1,32 @@
+// src/checkout/payment.ts
+
+import type { PaymentMethod } from "./types";
+
+/* ---------------------------------------------------------------
+   Payment options — M-Pesa is paid up front by STK push,
+   card and cash are settled on delivery / at the counter
+--------------------------------------------------------------- */
+export const PAYMENT_METHODS: readonly {
+  id: PaymentMethod;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "mpesa",
+    label: "M-Pesa",
+    description: "Get a prompt on your phone and pay now with your M-Pesa PIN.",
+  },
+  {
+    id: "card",
+    label: "Card on delivery",
+    description: "Visa or Mastercard via our card machine.",
+  },
+  {
+    id: "cash",
+    label: "Cash",
+    description: "Exact change appreciated.",
+  },
+];
+
+export const getPaymentLabel = (method: PaymentMethod): string =>
+  PAYMENT_METHODS.find((m) => m.id === method)?.label ?? method;
@@ -0,0 +1,87 @@
+// src/checkout/slots.ts
+
+import type { DeliverySlot } from "./types";
+
+/* ---------------------------------------------------------------
+   Delivery windows — follow opening hours: three on weekdays,
+   mornings only on Saturday, none on Sunday
+--------------------------------------------------------------- */
+export type Window = readonly [startHour: number, endHour: number];
+
+const WEEKDAY_WINDOWS: readonly Window[] = [
+  [9, 12],
+  [12, 15],
+  [15, 18],
+];
+
+const SATURDAY_WINDOWS: readonly Window[] = [[9, 12]];
+
+const windowsFor = (day: Date): readonly Window[] => {
+  switch (day.getDay()) {
+    case 0:
+      return [];
+    case 6:
+      return SATURDAY_WINDOWS;
+    default:
+      return WEEKDAY_WINDOWS;
+  }
+};
+
+/** First and last delivery hour on a day; null when we don't deliver. */
+export const getDeliveryHours = (day: Date): Window | null => {
+  const windows = windowsFor(day);
+  return windows.length ? [windows[0][0], windows[windows.length - 1][1]] : null;
+};
+
+const DAYS_AHEAD = 3;
+
+/** A window is offered only if it opens at least this long from now. */
+const LEAD_TIME_MS = 60 * 60 * 1000;
+
+const dayFormat = new Intl.DateTimeFormat("en-KE", {
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+});
+
+const timeFormat = new Intl.DateTimeFormat("en-KE", {
+  hour: "numeric",
+  minute: "2-digit",
+});
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const dateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * Upcoming delivery windows across the next few open days,
+ * skipping any that start too soon.
+ */
+export const getDeliverySlots = (now: Date = new Date()): DeliverySlot[] => {
+  const slots: DeliverySlot[] = [];
+  let openDays = 0;
+
+  for (let offset = 0; openDays < DAYS_AHEAD && offset < 14; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const before = slots.length;
+
+    for (const [startHour, endHour] of windowsFor(day)) {
+      const start = new Date(day);
+      start.setHours(startHour, 0, 0, 0);
+      if (start.getTime() - now.getTime() < LEAD_TIME_MS) continue;
+
+      const end = new Date(day);
+      end.setHours(endHour, 0, 0, 0);
+
+      slots.push({
+        id: `${dateKey(start)}@${pad(startHour)}`,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        label: `${dayFormat.format(start)}, ${timeFormat.format(start)} – ${timeFormat.format(end)}`,
+      });
+    }
+    if (slots.length > before) openDays++;
+  }
+
+  return slots;
+};
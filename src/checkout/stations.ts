@@ -0,0 +1,22 @@
+// src/checkout/stations.ts
+
+import { formatHours, STORE } from "../config";
+import type { PickupStation } from "./types";
+
+/* ---------------------------------------------------------------
+   Pickup points
+--------------------------------------------------------------- */
+export const PICKUP_STATIONS: readonly PickupStation[] = [
+  {
+    id: "juja-jkuat",
+    name: `${STORE.name} — ${STORE.address.city}`,
+    address: `${STORE.address.street}, ${STORE.address.city}`,
+    hours: STORE.hours
+      .filter((h) => h.opens)
+      .map((h) => `${h.days} ${formatHours(h)}`)
+      .join(", "),
+  },
+];
+
+export const getPickupStation = (id: string): PickupStation | undefined =>
+  PICKUP_STATIONS.find((s) => s.id === id);
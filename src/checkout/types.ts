@@ -0,0 +1,105 @@
+// src/checkout/types.ts
+
+import type { CartItem } from "../context/CartContext";
+import type { DeliveryCharge, DeliveryWindow } from "../delivery/types";
+import type { AppliedPromotion } from "../promotions/types";
+
+/* ---------------------------------------------------------------
+   Wizard steps
+--------------------------------------------------------------- */
+export type CheckoutStep = "contact" | "fulfilment" | "slot" | "payment" | "review";
+
+/* ---------------------------------------------------------------
+   Draft — what the customer fills in, step by step
+--------------------------------------------------------------- */
+export interface ContactDetails {
+  fullName: string;
+  phone: string;
+  email: string;
+}
+
+export type FulfilmentMethod = "delivery" | "pickup";
+
+export interface DeliveryAddress {
+  county: string;
+  town: string;
+  /** Estate or neighbourhood */
+  area: string;
+  street: string;
+  landmark: string;
+}
+
+export interface PickupStation {
+  id: string;
+  name: string;
+  address: string;
+  hours: string;
+}
+
+export interface DeliverySlot {
+  id: string;
+  /** ISO timestamps for the window */
+  start: string;
+  end: string;
+  label: string;
+}
+
+export type PaymentMethod = "mpesa" | "card" | "cash";
+
+export interface CheckoutDraft {
+  contact: ContactDetails;
+  method: FulfilmentMethod;
+  address: DeliveryAddress;
+  stationId: string;
+  slotId: string;
+  payment: PaymentMethod | "";
+  /** Phone that receives the M-Pesa prompt; defaults to the contact phone */
+  mpesaPhone: string;
+  notes: string;
+}
+
+/** Field → message; empty when the step is valid. */
+export type StepErrors = Partial<Record<string, string>>;
+
+/* ---------------------------------------------------------------
+   Placed order
+--------------------------------------------------------------- */
+export type OrderFulfilment =
+  | { method: "delivery"; address: DeliveryAddress }
+  | { method: "pickup"; station: PickupStation };
+
+export interface Order {
+  orderNumber: string;
+  /** ISO timestamp */
+  placedAt: string;
+  contact: ContactDetails;
+  fulfilment: OrderFulfilment;
+  slot: DeliverySlot;
+  payment: PaymentMethod;
+  /** KES; 0 for pickup */
+  deliveryFee: number;
+  /** How the fee was made up; absent on orders placed before fees were itemised */
+  deliveryCharges?: DeliveryCharge[];
+  /** When it arrives or is ready to collect; older orders fall back to the slot */
+  deliveryWindow?: DeliveryWindow;
+  /** ISO timestamp — set once paid online; absent means pay on delivery */
+  paidAt?: string;
+  paymentReceipt?: string;
+  notes?: string;
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  /** Promotions taken off the subtotal; absent when none applied */
+  discounts?: AppliedPromotion[];
+  /** Subtotal less discounts, plus delivery */
+  total: number;
+}
+
+/** One parcel of an order, formatted for the confirmation and order pages. */
+export interface OrderShipment {
+  number: number;
+  station: string;
+  fulfilledBy: string;
+  deliveryStart: string;
+  deliveryEnd: string;
+}
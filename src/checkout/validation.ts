@@ -0,0 +1,72 @@
+// src/checkout/validation.ts
+
+import { getSlotOptions } from "../delivery/quote";
+import { getPickupStation } from "./stations";
+import type { CheckoutDraft, CheckoutStep, DeliveryAddress, StepErrors } from "./types";
+
+/* ---------------------------------------------------------------
+   Field rules
+--------------------------------------------------------------- */
+
+/** Safaricom / Airtel mobile numbers: 07xx, 01xx, +2547xx, 2541xx … */
+const KE_PHONE = /^(?:\+?254|0)[17]\d{8}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidPhone = (phone: string): boolean =>
+  KE_PHONE.test(phone.replace(/[\s-]/g, ""));
+
+/** Normalises any accepted format to 2547XXXXXXXX. */
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("0") ? `254${digits.slice(1)}` : digits;
+};
+
+/** Shared by the delivery step and the address book. */
+export const validateDeliveryAddress = (address: DeliveryAddress): StepErrors => {
+  const errors: StepErrors = {};
+  if (!address.county.trim()) errors.county = "Choose your county.";
+  if (!address.town.trim()) errors.town = "Enter your town.";
+  if (!address.area.trim()) errors.area = "Enter your area or estate.";
+  if (!address.street.trim()) errors.street = "Enter a street, building or house number.";
+  return errors;
+};
+
+/* ---------------------------------------------------------------
+   Per-step validators
+--------------------------------------------------------------- */
+const validators: Record<CheckoutStep, (draft: CheckoutDraft) => StepErrors> = {
+  contact: ({ contact }) => {
+    const errors: StepErrors = {};
+    if (contact.fullName.trim().length < 2) errors.fullName = "Enter your full name.";
+    if (!isValidPhone(contact.phone)) errors.phone = "Enter a valid Kenyan mobile number.";
+    if (contact.email.trim() && !EMAIL.test(contact.email.trim())) {
+      errors.email = "Enter a valid email address.";
+    }
+    return errors;
+  },
+
+  fulfilment: ({ method, address, stationId }) => {
+    if (method === "delivery") return validateDeliveryAddress(address);
+    return getPickupStation(stationId) ? {} : { stationId: "Choose a pickup station." };
+  },
+
+  slot: (draft) =>
+    getSlotOptions(draft).some((s) => s.id === draft.slotId)
+      ? {}
+      : { slotId: "Choose an available time slot." },
+
+  payment: ({ payment, mpesaPhone }) => {
+    if (!payment) return { payment: "Choose how you'd like to pay." };
+    if (payment === "mpesa" && !isValidPhone(mpesaPhone)) {
+      return { mpesaPhone: "Enter the M-Pesa number to send the payment prompt to." };
+    }
+    return {};
+  },
+
+  review: () => ({}),
+};
+
+export const validateStep = (step: CheckoutStep, draft: CheckoutDraft): StepErrors =>
+  validators[step](draft);
+
+export const hasErrors = (errors: StepErrors): boolean => Object.keys(errors).length > 0;
@@ -0,0 +1,234 @@
+// src/components/AddressBook.tsx
+// ============================================================================
+// 📍 AddressBook.tsx — saved delivery addresses: choose, add, edit, remove
+// ============================================================================
+
+import React, { useState } from "react";
+import { hasErrors, type StepErrors } from "../checkout";
+import { formatPrice } from "../config";
+import { useAddressBook } from "../context/AddressBookContext";
+import { useAuth } from "../context/AuthContext";
+import {
+  COUNTIES,
+  describeLocation,
+  EMPTY_ADDRESS,
+  formatEta,
+  getZoneForAddress,
+  KENYA_LOCATIONS,
+  validateAddress,
+  type AddressInput,
+  type SavedAddress,
+} from "../delivery";
+import styles from "./AddressBook.module.css";
+
+const LABELS = ["Home", "Office", "Family"];
+
+/** "254712345678" → "0712 345 678" */
+const formatPhone = (phone: string) => {
+  const local = phone.startsWith("254") ? `0${phone.slice(3)}` : phone;
+  return local.replace(/^(\d{4})(\d{3})(\d{3})$/, "$1 $2 $3");
+};
+
+// ===============================================================
+// ✏️ Add / edit
+// ===============================================================
+const AddressForm: React.FC<{
+  initial: AddressInput;
+  onSave: (input: AddressInput) => void;
+  onCancel?: () => void;
+}> = ({ initial, onSave, onCancel }) => {
+  const [form, setForm] = useState(initial);
+  const [errors, setErrors] = useState<StepErrors>({});
+
+  const set = (field: keyof AddressInput) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm((f) => ({ ...f, [field]: e.target.value }));
+    setErrors({});
+  };
+
+  const zone = form.county && form.town.trim() ? getZoneForAddress(form) : null;
+  const towns = KENYA_LOCATIONS[form.county] ?? [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = validateAddress(form);
+    setErrors(found);
+    if (!hasErrors(found)) onSave(form);
+  };
+
+  const field = (
+    name: keyof AddressInput,
+    label: React.ReactNode,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {},
+  ) => (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input value={form[name]} onChange={set(name)} aria-invalid={!!errors[name]} {...props} />
+      {errors[name] && <span className={styles.fieldError}>{errors[name]}</span>}
+    </label>
+  );
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      <div className={styles.labels} role="group" aria-label="Save as">
+        {LABELS.map((label) => (
+          <button
+            key={label}
+            type="button"
+            className={`${styles.chip} ${form.label === label ? styles.chipActive : ""}`}
+            aria-pressed={form.label === label}
+            onClick={() => setForm((f) => ({ ...f, label }))}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.grid}>
+        <label className={styles.field}>
+          <span>County</span>
+          <select
+            value={form.county}
+            onChange={(e) => {
+              setForm((f) => ({ ...f, county: e.target.value, town: "" }));
+              setErrors({});
+            }}
+            aria-invalid={!!errors.county}
+          >
+            <option value="">Choose…</option>
+            {COUNTIES.map((county) => (
+              <option key={county} value={county}>
+                {county}
+              </option>
+            ))}
+          </select>
+          {errors.county && <span className={styles.fieldError}>{errors.county}</span>}
+        </label>
+        {field("town", "Town", { list: "address-towns", autoComplete: "address-level2" })}
+        <datalist id="address-towns">
+          {towns.map((town) => (
+            <option key={town} value={town} />
+          ))}
+        </datalist>
+        {field("area", "Estate / area", { autoComplete: "address-level3" })}
+        {field("street", "Street, building or house no.", { autoComplete: "street-address" })}
+        {field(
+          "landmark",
+          <>
+            Landmark <small>(optional)</small>
+          </>,
+        )}
+        {field("phone", "Phone for the rider", {
+          type: "tel",
+          inputMode: "tel",
+          autoComplete: "tel",
+          placeholder: "07XX XXX XXX",
+        })}
+      </div>
+
+      {zone && (
+        <p className={styles.zone}>
+          {zone.name} delivery · {formatPrice(zone.fee)} · {formatEta(zone)}
+          {!zone.prescriptions && " · prescription medicines are pickup only"}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        {onCancel && (
+          <button type="button" className={styles.secondaryBtn} onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+        <button type="submit" className={styles.primaryBtn}>
+          Save address
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// ===============================================================
+// 📒 Saved addresses
+// ===============================================================
+interface Props {
+  /** Called once the customer has chosen or saved an address */
+  onDone?: () => void;
+}
+
+const AddressBook: React.FC<Props> = ({ onDone }) => {
+  const { user } = useAuth();
+  const { addresses, selectedAddress, saveAddress, removeAddress, selectAddress, canAddAddress } =
+    useAddressBook();
+  const [editing, setEditing] = useState<SavedAddress | "new" | null>(null);
+
+  if (editing || addresses.length === 0) {
+    const initial: AddressInput =
+      editing && editing !== "new"
+        ? editing
+        : { ...EMPTY_ADDRESS, label: addresses.length ? "" : "Home", phone: user?.phone ?? "" };
+    return (
+      <AddressForm
+        key={editing && editing !== "new" ? editing.id : "new"}
+        initial={initial}
+        onCancel={addresses.length ? () => setEditing(null) : undefined}
+        onSave={(input) => {
+          const id = editing && editing !== "new" ? editing.id : undefined;
+          saveAddress(input, { id, select: !id });
+          setEditing(null);
+          if (!id) onDone?.();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className={styles.book}>
+      <ul className={styles.list} role="radiogroup" aria-label="Delivery address">
+        {addresses.map((address) => {
+          const zone = getZoneForAddress(address);
+          const selected = address.id === selectedAddress?.id;
+          return (
+            <li key={address.id} className={`${styles.entry} ${selected ? styles.selected : ""}`}>
+              <label className={styles.choice}>
+                <input
+                  type="radio"
+                  name="saved-address"
+                  checked={selected}
+                  onChange={() => {
+                    selectAddress(address.id);
+                    onDone?.();
+                  }}
+                />
+                <span>
+                  <strong>{address.label}</strong> · {describeLocation(address)}
+                  <small>
+                    {[address.street, address.landmark, address.county].filter(Boolean).join(", ")} ·{" "}
+                    {formatPhone(address.phone)}
+                  </small>
+                  <small className={styles.zoneLine}>
+                    {zone.name} · {formatPrice(zone.fee)} · {formatEta(zone)}
+                  </small>
+                </span>
+              </label>
+              <div className={styles.entryActions}>
+                <button type="button" onClick={() => setEditing(address)}>
+                  Edit
+                </button>
+                <button type="button" onClick={() => removeAddress(address.id)}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {canAddAddress && (
+        <button type="button" className={styles.secondaryBtn} onClick={() => setEditing("new")}>
+          + Add a new address
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AddressBook;
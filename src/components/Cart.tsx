@@ -1,6 +1,6 @@
 // src/components/Cart.tsx
 import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { AnimatePresence, motion } from "framer-motion";
 import { 
   Trash2, 
@@ -14,18 +14,20 @@ import {
 import { toast } from "sonner";
 import clsx from "clsx";
 
+import { useAddressBook } from "../context/AddressBookContext";
+import { useAuth } from "../context/AuthContext";
 import { useCart } from "../context/CartContext";
-import { handleWhatsAppOrder } from "../utils/whatsappOrder";
+import { buildChatOrder } from "../checkout";
+import { formatWindow, quoteDelivery, toDeliveryAddress } from "../delivery";
+import { describeStockIssue, getLineAvailable } from "../inventory";
+import { getOrderAdapter } from "../orders";
+import { handleWhatsAppOrder, orderToWhatsAppDetails } from "../utils/whatsappOrder";
+import { formatPrice, STORE } from "../config";
+import CouponForm from "./CouponForm";
+import LocationPicker from "./LocationPicker";
+import PrescriptionBadge from "./PrescriptionBadge";
 import styles from "./Cart.module.css";
 
-// --- Helpers -------------------------------------------------
-const currencyFormatter = new Intl.NumberFormat("en-KE", {
-  style: "currency",
-  currency: "KES",
-  minimumFractionDigits: 0,
-});
-const formatPrice = (v: number) => currencyFormatter.format(v);
-
 // --- QuantityInput: local-friendly + accessible ----------------
 type QuantityInputProps = {
   id: string;
@@ -89,12 +91,29 @@ const Cart: React.FC = () => {
     clearCart,
     getCartTotal = () => 0,
     getTotalItems = () => 0,
+    getItemsNeedingPrescription,
     updateQuantity,
+    pricing,
+    stockIssues,
+    fitCartToStock,
   } = useCart();
+  const { selectedAddress } = useAddressBook();
+  const { user } = useAuth();
+  const [pickingLocation, setPickingLocation] = useState(false);
+  const closeLocationPicker = useCallback(() => setPickingLocation(false), []);
 
   // memoized values
   const subtotal = useMemo(() => getCartTotal(), [getCartTotal]);
+  // Estimate for the chosen address with the earliest standard slot; checkout confirms it
+  const delivery = useMemo(
+    () =>
+      selectedAddress
+        ? quoteDelivery({ method: "delivery", address: selectedAddress, slotId: "" }, cartItems)
+        : null,
+    [selectedAddress, cartItems]
+  );
   const totalItems = useMemo(() => getTotalItems(), [getTotalItems]);
+  const rxPending = useMemo(() => getItemsNeedingPrescription(), [getItemsNeedingPrescription]);
   const quantityControlsEnabled = Boolean(updateQuantity);
 
   const handleAdjustQty = useCallback(
@@ -130,8 +149,12 @@ const Cart: React.FC = () => {
       toast.info("Your cart is empty");
       return;
     }
+    if (stockIssues.length) {
+      toast.error("Some items are short on stock — update your cart first.");
+      return;
+    }
     navigate("/checkout");
-  }, [cartItems.length, navigate]);
+  }, [cartItems.length, stockIssues.length, navigate]);
 
   /**
    * WhatsApp Order Handler
@@ -141,15 +164,47 @@ const Cart: React.FC = () => {
       toast.info("Your cart is empty. Add items before ordering via WhatsApp.");
       return;
     }
+    // Same gates as checkout: a chat order mustn't skip the stock or prescription checks
+    if (stockIssues.length) {
+      toast.error("Some items are short on stock — update your cart first.");
+      return;
+    }
+    if (rxPending.length) {
+      toast.error("Attach a prescription for your prescription-only items before ordering on WhatsApp.");
+      return;
+    }
+
+    // Built and kept the way checkout does it, so the chat carries the same details
+    // and its reference opens the order for the pharmacy
+    let order;
+    try {
+      order = buildChatOrder(
+        {
+          contact: {
+            fullName: user?.fullName ?? "",
+            phone: user?.phone ?? selectedAddress?.phone ?? "",
+            email: user?.email ?? "",
+          },
+          ...(selectedAddress && { address: toDeliveryAddress(selectedAddress) }),
+        },
+        cartItems,
+        pricing.discounts
+      );
+    } catch (err) {
+      console.error("Cart: couldn't build the WhatsApp order", err);
+      toast.error("Couldn't prepare your order. Please try checkout instead.");
+      return;
+    }
 
-    const success = handleWhatsAppOrder(cartItems, subtotal);
-    
-    if (success) {
+    if (handleWhatsAppOrder(order.items, orderToWhatsAppDetails(order))) {
+      getOrderAdapter()
+        .recordOrder(order, user?.id)
+        .catch((err) => console.warn("Cart: couldn't save the WhatsApp order", err));
       toast.success("Opening WhatsApp...");
     } else {
       toast.error("Failed to open WhatsApp. Please check your settings.");
     }
-  }, [cartItems, subtotal]);
+  }, [cartItems, stockIssues.length, rxPending.length, selectedAddress, user, pricing.discounts]);
 
   // keyboard shortcut: press "c" to clear (only when focused inside cart)
   useEffect(() => {
@@ -186,7 +241,9 @@ const Cart: React.FC = () => {
         {/* Items column */}
         <section className={styles.cartItems} aria-label="Cart items">
           <AnimatePresence initial={false} mode="popLayout">
-            {cartItems.map((item) => (
+            {cartItems.map((item) => {
+              const stockIssue = stockIssues.find((issue) => issue.id === item.id);
+              return (
               <motion.article
                 key={item.id}
                 layout
@@ -215,14 +272,16 @@ const Cart: React.FC = () => {
                     </p>
                   )}
 
-                  {!item.inStock ? (
+                  {stockIssue ? (
                     <div className={styles.stockWarning} aria-live="polite">
                       <AlertCircle size={14} aria-hidden="true" />
-                      <span>Out of stock</span>
+                      <span>{stockIssue.available === 0 ? "Out of stock" : `Only ${stockIssue.available} left`}</span>
                     </div>
                   ) : (
                     <p className={styles.stockStatus}>In stock</p>
                   )}
+
+                  <PrescriptionBadge item={item} />
                 </div>
 
                 <div className={styles.itemPricing}>
@@ -232,6 +291,11 @@ const Cart: React.FC = () => {
                       <p className={styles.originalPrice}>{formatPrice(item.originalPrice)}</p>
                     )}
                     {item.discount && <span className={styles.discountBadge}>-{item.discount}%</span>}
+                    {pricing.lineDiscounts[item.id] > 0 && (
+                      <p className={styles.lineDiscount}>
+                        Promotion −{formatPrice(pricing.lineDiscounts[item.id])} on this line
+                      </p>
+                    )}
                   </div>
 
                   <div className={styles.controlsRow}>
@@ -257,7 +321,7 @@ const Cart: React.FC = () => {
                         type="button"
                         className={styles.quantityBtn}
                         onClick={() => handleAdjustQty(item.id, item.quantity + 1)}
-                        disabled={!quantityControlsEnabled}
+                        disabled={!quantityControlsEnabled || item.quantity >= getLineAvailable(item)}
                         aria-label={`Increase quantity of ${item.name}`}
                       >
                         <Plus size={14} />
@@ -276,7 +340,8 @@ const Cart: React.FC = () => {
                   </div>
                 </div>
               </motion.article>
-            ))}
+              );
+            })}
           </AnimatePresence>
         </section>
 
@@ -290,14 +355,73 @@ const Cart: React.FC = () => {
               <strong className={styles.summaryAmount}>{formatPrice(subtotal)}</strong>
             </div>
 
+            {pricing.discounts.map((discount) => (
+              <div key={discount.promotionId} className={`${styles.summaryRow} ${styles.discountRow}`}>
+                <span>{discount.label}</span>
+                <strong>−{formatPrice(discount.amount)}</strong>
+              </div>
+            ))}
+            <CouponForm />
+
+            {selectedAddress && delivery ? (
+              <>
+                <div className={styles.summaryRow}>
+                  <span>Delivery to {selectedAddress.town}</span>
+                  <strong>{delivery.fee ? formatPrice(delivery.fee) : "Free"}</strong>
+                </div>
+                <div className={styles.deliveryNote}>
+                  {delivery.window && <p>Earliest arrival {formatWindow(delivery.window)}</p>}
+                  {delivery.freeDeliveryGap !== undefined && (
+                    <p>Add {formatPrice(delivery.freeDeliveryGap)} more for free delivery.</p>
+                  )}
+                  <button type="button" onClick={() => setPickingLocation(true)}>
+                    Change location
+                  </button>
+                </div>
+                <div className={styles.summaryRow}>
+                  <span>Estimated total</span>
+                  <strong className={styles.summaryAmount}>{formatPrice(pricing.total + delivery.fee)}</strong>
+                </div>
+              </>
+            ) : (
+              <div className={styles.deliveryNote}>
+                <p>Delivery fees and times depend on where you are.</p>
+                <button type="button" onClick={() => setPickingLocation(true)}>
+                  Choose your location
+                </button>
+              </div>
+            )}
+            <LocationPicker open={pickingLocation} onClose={closeLocationPicker} />
+
+            {stockIssues.length > 0 && (
+              <div className={styles.rxNotice} role="alert">
+                <p>{stockIssues.map(describeStockIssue).join(". ")}.</p>
+                <button type="button" onClick={fitCartToStock}>
+                  Update cart to what's left
+                </button>
+              </div>
+            )}
+
+            {rxPending.length > 0 && (
+              <div className={styles.rxNotice} role="note">
+                <p>
+                  {rxPending.length === 1
+                    ? "1 item needs a prescription"
+                    : `${rxPending.length} items need a prescription`}{" "}
+                  before checkout.
+                </p>
+                <Link to="/prescription/attach?return=/checkout">Attach prescription</Link>
+              </div>
+            )}
+
             <div className={styles.summaryActions}>
               <button
                 type="button"
                 className={clsx(styles.checkoutBtn)}
                 onClick={handleCheckout}
-                aria-label={`Checkout ${formatPrice(subtotal)}`}
+                aria-label={`Checkout ${formatPrice(pricing.total)}`}
               >
-                Checkout ({formatPrice(subtotal)})
+                Checkout ({formatPrice(pricing.total)})
               </button>
 
               <button
@@ -320,7 +444,7 @@ const Cart: React.FC = () => {
             </div>
 
             <div className={styles.tinyNote} aria-hidden>
-              <small>Secure checkout · Local currency: KES</small>
+              <small>Secure checkout · Local currency: {STORE.currency.code}</small>
             </div>
           </div>
 
@@ -20,9 +20,15 @@ import {
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useCart } from "../context/CartContext";
-import { useNavigate } from "react-router-dom";
-import { toast } from "sonner";
-import styles from "./Cart.module.css";
+import { Link, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { formatPrice } from "../config";
+import { getLineAvailable } from "../inventory";
+import PrescriptionBadge from "./PrescriptionBadge";
+import styles from "./CartDrawer.module.css";
+
+const FOCUSABLE =
+  "button:not([disabled]), [href], input:not([disabled]), select, textarea, [tabindex]:not([tabindex='-1'])";
 
 /**
  * QuantityInput
@@ -74,11 +80,14 @@ const QuantityInput: React.FC<{
       disabled={disabled}
       min={1}
       type="text"
-      style={{ width: 64, textAlign: "center" }}
     />
   );
 };
 
+/**
+ * Slide-in cart, mounted once in App and driven by CartContext's
+ * isCartOpen — call openCart() from anywhere to show it.
+ */
 const CartDrawer: React.FC = () => {
   const {
     cartItems,
@@ -86,59 +95,69 @@ const CartDrawer: React.FC = () => {
     clearCart,
     getCartTotal,
     getTotalItems,
+    pricing,
     updateQuantity,
     increaseQty,
     decreaseQty,
+    isCartOpen,
+    closeCart,
+    stockIssues,
   } = useCart();
 
   const navigate = useNavigate();
-  const [isOpen, setIsOpen] = useState(false);
   const drawerRef = useRef<HTMLElement | null>(null);
   const previouslyFocused = useRef<HTMLElement | null>(null);
 
-  // currency formatter memoized
-  const formatPrice = useMemo(
-    () =>
-      new Intl.NumberFormat("en-KE", {
-        style: "currency",
-        currency: "KES",
-        minimumFractionDigits: 0,
-      }).format,
-    []
-  );
-
-  // Prevent body scroll when drawer open & focus trap
+  // Prevent body scroll while open, move focus in and restore it on close
   useEffect(() => {
-    if (isOpen) {
-      previouslyFocused.current = document.activeElement as HTMLElement | null;
-      document.body.style.overflow = "hidden";
-
-      // move focus into the drawer
-      requestAnimationFrame(() => {
-        const node = drawerRef.current;
-        const first = node?.querySelector<HTMLElement>(
-          "button, [href], input, select, textarea, [tabindex]:not([tabindex='-1'])"
-        );
-        first?.focus();
-      });
-    } else {
-      document.body.style.overflow = "";
-      // restore focus
-      previouslyFocused.current?.focus?.();
-    }
+    if (!isCartOpen) return;
+
+    previouslyFocused.current = document.activeElement as HTMLElement | null;
+    document.body.style.overflow = "hidden";
+
+    const frame = requestAnimationFrame(() => {
+      drawerRef.current?.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+    });
+
     return () => {
+      cancelAnimationFrame(frame);
       document.body.style.overflow = "";
+      previouslyFocused.current?.focus?.();
     };
-  }, [isOpen]);
+  }, [isCartOpen]);
 
   // Close with Escape key (accessible)
   useEffect(() => {
+    if (!isCartOpen) return;
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape" && isOpen) setIsOpen(false);
+      if (e.key === "Escape") closeCart();
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [isOpen]);
+  }, [isCartOpen, closeCart]);
+
+  // Focus trap: Tab / Shift+Tab cycle within the drawer
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.key !== "Tab" || !drawerRef.current) return;
+
+      const focusable = Array.from(
+        drawerRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)
+      );
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    },
+    []
+  );
 
   // Safe handlers that gracefully degrade if helpers are absent
   const safeUpdateQty = useCallback(
@@ -161,7 +180,7 @@ const CartDrawer: React.FC = () => {
   const handleRemove = useCallback(
     (id: string, name?: string) => {
       removeFromCart(id);
-      toast?.info?.(`Removed "${name ?? "item"}" from cart`);
+      toast(`Removed "${name ?? "item"}" from cart`);
     },
     [removeFromCart]
   );
@@ -171,18 +190,23 @@ const CartDrawer: React.FC = () => {
     const ok = window.confirm("Clear your cart? This action cannot be undone.");
     if (!ok) return;
     clearCart();
-    toast?.success?.("Cart cleared");
+    toast.success("Cart cleared");
   }, [cartItems.length, clearCart]);
 
   const handleCheckout = useCallback(() => {
     if (cartItems.length === 0) {
-      toast?.info?.("Your cart is empty");
+      toast("Your cart is empty");
+      return;
+    }
+    closeCart();
+    // Short lines get sorted out on the cart page first
+    if (stockIssues.length) {
+      toast.error("Some items are short on stock — update your cart first.");
+      navigate("/cart");
       return;
     }
-    toast?.success?.("Proceeding to checkout...");
-    // small delay to show toast then navigate
-    setTimeout(() => navigate("/checkout"), 350);
-  }, [cartItems.length, navigate]);
+    navigate("/checkout");
+  }, [cartItems.length, stockIssues.length, closeCart, navigate]);
 
   // Reduced-motion: prefer simpler transitions if user prefers reduced motion
   const prefersReducedMotion = useMemo(
@@ -194,192 +218,162 @@ const CartDrawer: React.FC = () => {
   );
 
   return (
-    <>
-      {/* Cart Toggle (placeable in navbar) */}
-      <button
-        className={styles.cartToggleBtn}
-        onClick={() => setIsOpen(true)}
-        aria-label="Open shopping cart"
-      >
-        <ShoppingCart size={20} aria-hidden="true" />
-        {getTotalItems() > 0 && (
-          <span className={styles.itemCount} aria-live="polite">
-            {getTotalItems()}
-          </span>
-        )}
-      </button>
-
-      <AnimatePresence>
-        {isOpen && (
-          <>
-            {/* Overlay */}
-            <motion.div
-              className={styles.overlay}
-              onClick={() => setIsOpen(false)}
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 0.45 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: prefersReducedMotion ? 0 : 0.18 }}
-              aria-hidden="true"
-            />
-
-            {/* Drawer */}
-            <motion.aside
-              className={styles.drawer}
-              initial={{ x: "100%" }}
-              animate={{ x: 0 }}
-              exit={{ x: "100%" }}
-              transition={{
-                type: "spring",
-                stiffness: prefersReducedMotion ? 500 : 300,
-                damping: 35,
-              }}
-              role="dialog"
-              aria-modal="true"
-              aria-label="Shopping cart"
-              ref={drawerRef}
-            >
-              <header className={styles.cartHeader}>
-                <h2 className={styles.cartTitle}>
-                  <ShoppingCart size={18} aria-hidden="true" /> Cart (
-                  {getTotalItems()})
-                </h2>
-
-                <div className={styles.headerActions}>
-                  <button
-                    className={styles.closeBtn}
-                    onClick={() => setIsOpen(false)}
-                    aria-label="Close cart"
-                  >
-                    <X size={18} />
-                  </button>
+    <AnimatePresence>
+      {isCartOpen && (
+        <>
+          {/* Overlay */}
+          <motion.div
+            className={styles.overlay}
+            onClick={closeCart}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: prefersReducedMotion ? 0 : 0.18 }}
+            aria-hidden="true"
+          />
+
+          {/* Drawer */}
+          <motion.aside
+            className={styles.drawer}
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{
+              type: "spring",
+              stiffness: prefersReducedMotion ? 500 : 300,
+              damping: 35,
+            }}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="cart-drawer-title"
+            ref={drawerRef}
+            onKeyDown={handleKeyDown}
+          >
+            <header className={styles.cartHeader}>
+              <h2 id="cart-drawer-title" className={styles.cartTitle}>
+                <ShoppingCart size={18} aria-hidden="true" /> Cart ({getTotalItems()})
+              </h2>
+
+              <button
+                className={styles.closeBtn}
+                onClick={closeCart}
+                aria-label="Close cart"
+              >
+                <X size={18} />
+              </button>
+            </header>
+
+            {/* Body */}
+            <div className={styles.cartContent}>
+              {cartItems.length === 0 ? (
+                <div className={styles.emptyCart}>
+                  <ShoppingCart className={styles.emptyIcon} aria-hidden="true" />
+                  <h2>Your cart is empty</h2>
+                  <p>Add items to get started.</p>
                 </div>
-              </header>
-
-              {/* Body */}
-              <div className={styles.drawerBody}>
-                {cartItems.length === 0 ? (
-                  <div className={styles.emptyCart}>
-                    <ShoppingCart className={styles.emptyIcon} aria-hidden="true" />
-                    <h3 className={styles.emptyTitle}>Your cart is empty</h3>
-                    <p className={styles.emptyMsg}>Add items to get started.</p>
-                  </div>
-                ) : (
-                  <>
-                    <ul className={styles.cartList}>
-                      {cartItems.map((item) => (
-                        <li key={item.id} className={styles.cartItem}>
-                          <div className={styles.itemVisual}>
-                            <img
-                              src={item.image}
-                              alt={item.name}
-                              loading="lazy"
-                              className={styles.productImage}
-                            />
-                            <div className={styles.itemMeta}>
-                              <h3 className={styles.itemName}>{item.name}</h3>
-                              {item.category && (
-                                <small className={styles.itemCategory}>
-                                  {item.category}
-                                </small>
-                              )}
-                              {!item.inStock ? (
-                                <div className={styles.stockWarning}>
-                                  <AlertCircle size={14} />
-                                  <span>Out of stock</span>
-                                </div>
-                              ) : (
-                                <div className={styles.stockStatus}>In stock</div>
-                              )}
-                            </div>
-                          </div>
-
-                          <div className={styles.itemControls}>
-                            <div className={styles.priceWrap}>
-                              <div className={styles.currentPrice}>
-                                {formatPrice(item.price)}
-                              </div>
-                            </div>
-
-                            <div className={styles.qtyAndRemove}>
-                              <div className={styles.quantityControl}>
-                                <button
-                                  type="button"
-                                  className={styles.quantityBtn}
-                                  onClick={() =>
-                                    safeUpdateQty(item.id, Math.max(1, item.quantity - 1))
-                                  }
-                                  disabled={item.quantity <= 1}
-                                  aria-label={`Decrease quantity of ${item.name}`}
-                                >
-                                  <Minus size={14} />
-                                </button>
-
-                                <QuantityInput
-                                  id={item.id}
-                                  value={item.quantity}
-                                  onCommit={(n) => safeUpdateQty(item.id, n)}
-                                  disabled={typeof updateQuantity !== "function" && !increaseQty && !decreaseQty}
-                                />
-
-                                <button
-                                  type="button"
-                                  className={styles.quantityBtn}
-                                  onClick={() => safeUpdateQty(item.id, item.quantity + 1)}
-                                  aria-label={`Increase quantity of ${item.name}`}
-                                >
-                                  <Plus size={14} />
-                                </button>
-                              </div>
-
-                              <button
-                                type="button"
-                                className={styles.removeBtn}
-                                onClick={() => handleRemove(item.id, item.name)}
-                                aria-label={`Remove ${item.name} from cart`}
-                              >
-                                <Trash2 size={14} />
-                                <span className={styles.removeText}>Remove</span>
-                              </button>
-                            </div>
-                          </div>
-                        </li>
-                      ))}
-                    </ul>
-
-                    {/* Summary */}
-                    <div className={styles.cartSummary}>
-                      <div className={styles.summaryRow}>
-                        <span>Subtotal</span>
-                        <strong>{formatPrice(getCartTotal())}</strong>
-                      </div>
+              ) : (
+                cartItems.map((item) => {
+                  const stockIssue = stockIssues.find((issue) => issue.id === item.id);
+                  return (
+                  <article key={item.id} className={styles.cartItem}>
+                    <div className={styles.itemImage}>
+                      <img src={item.image} alt={item.name} loading="lazy" />
+                    </div>
+
+                    <div className={styles.itemDetails}>
+                      <h3 className={styles.itemName}>{item.name}</h3>
+                      {item.category && (
+                        <small className={styles.itemCategory}>{item.category}</small>
+                      )}
+                      {stockIssue ? (
+                        <div className={styles.stockWarning}>
+                          <AlertCircle size={14} />
+                          <span>{stockIssue.available === 0 ? "Out of stock" : `Only ${stockIssue.available} left`}</span>
+                        </div>
+                      ) : (
+                        <div className={styles.stockStatus}>In stock</div>
+                      )}
+                      <PrescriptionBadge item={item} />
+                    </div>
+
+                    <div className={styles.itemPricing}>
+                      <div className={styles.currentPrice}>{formatPrice(item.price)}</div>
 
-                      <div className={styles.summaryActions}>
+                      <div className={styles.quantityControl}>
                         <button
-                          className={styles.checkoutBtn}
-                          onClick={handleCheckout}
-                          aria-label={`Checkout ${formatPrice(getCartTotal())}`}
+                          type="button"
+                          className={styles.quantityBtn}
+                          onClick={() => safeUpdateQty(item.id, Math.max(1, item.quantity - 1))}
+                          disabled={item.quantity <= 1}
+                          aria-label={`Decrease quantity of ${item.name}`}
                         >
-                          Checkout ({formatPrice(getCartTotal())})
+                          <Minus size={14} />
                         </button>
 
+                        <QuantityInput
+                          id={item.id}
+                          value={item.quantity}
+                          onCommit={(n) => safeUpdateQty(item.id, n)}
+                        />
+
                         <button
-                          className={styles.clearBtn}
-                          onClick={handleClear}
-                          aria-label="Clear cart"
+                          type="button"
+                          className={styles.quantityBtn}
+                          onClick={() => safeUpdateQty(item.id, item.quantity + 1)}
+                          disabled={item.quantity >= getLineAvailable(item)}
+                          aria-label={`Increase quantity of ${item.name}`}
                         >
-                          Clear cart
+                          <Plus size={14} />
                         </button>
                       </div>
+
+                      <button
+                        type="button"
+                        className={styles.removeBtn}
+                        onClick={() => handleRemove(item.id, item.name)}
+                        aria-label={`Remove ${item.name} from cart`}
+                      >
+                        <Trash2 size={14} />
+                        <span>Remove</span>
+                      </button>
                     </div>
-                  </>
+                  </article>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Summary */}
+            {cartItems.length > 0 && (
+              <footer className={styles.cartSummary}>
+                <div className={styles.summaryRow}>
+                  <span>Subtotal</span>
+                  <strong>{formatPrice(getCartTotal())}</strong>
+                </div>
+                {pricing.discountTotal > 0 && (
+                  <div className={`${styles.summaryRow} ${styles.savingsRow}`}>
+                    <span>Promotions</span>
+                    <strong>−{formatPrice(pricing.discountTotal)}</strong>
+                  </div>
                 )}
-              </div>
-            </motion.aside>
-          </>
-        )}
-      </AnimatePresence>
-    </>
+
+                <button className={styles.checkoutBtn} onClick={handleCheckout}>
+                  Checkout ({formatPrice(pricing.total)})
+                </button>
+
+                <Link to="/cart" className={styles.viewCartLink} onClick={closeCart}>
+                  View full cart
+                </Link>
+
+                <button className={styles.clearBtn} onClick={handleClear}>
+                  Clear cart
+                </button>
+              </footer>
+            )}
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
   );
 };
 
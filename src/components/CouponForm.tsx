@@ -0,0 +1,75 @@
+// src/components/CouponForm.tsx
+// ============================================================================
+// 🏷️ CouponForm.tsx — enter, show and remove the cart's coupon code
+// ============================================================================
+
+import React, { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { useCart } from "../context/CartContext";
+import { PromotionError } from "../promotions";
+import styles from "./CouponForm.module.css";
+
+const CouponForm: React.FC<{ className?: string }> = ({ className = "" }) => {
+  const { couponCode, couponProblem, applyCoupon, removeCoupon } = useCart();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+
+  if (couponCode) {
+    return (
+      <div className={`${styles.coupon} ${className}`}>
+        <p className={styles.applied}>
+          <Tag size={14} aria-hidden="true" />
+          <strong>{couponCode}</strong>
+          <button type="button" onClick={removeCoupon} aria-label={`Remove code ${couponCode}`}>
+            <X size={14} />
+          </button>
+        </p>
+        {couponProblem && (
+          <p className={styles.error} role="alert">
+            {couponProblem}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      applyCoupon(code);
+      setCode("");
+      setError("");
+    } catch (err) {
+      setError(err instanceof PromotionError ? err.message : "That code can't be used right now.");
+    }
+  };
+
+  return (
+    <form className={`${styles.coupon} ${className}`} onSubmit={handleSubmit} noValidate>
+      <label className={styles.field}>
+        <span>Promo code</span>
+        <span className={styles.row}>
+          <input
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setError("");
+            }}
+            autoCapitalize="characters"
+            aria-invalid={!!error}
+          />
+          <button type="submit" disabled={!code.trim()}>
+            Apply
+          </button>
+        </span>
+      </label>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default CouponForm;
@@ -0,0 +1,35 @@
+// src/components/FlashSaleTag.tsx
+// ============================================================================
+// ⚡ FlashSaleTag.tsx — countdown and units left on a flash-sale card
+// ============================================================================
+
+import React from "react";
+import { Zap } from "lucide-react";
+import { formatCountdown, type FlashOffer } from "../promotions";
+import styles from "./FlashSaleTag.module.css";
+
+/** Below this many units the "left" count turns urgent. */
+const LOW_STOCK = 10;
+
+const FlashSaleTag: React.FC<{ offer: FlashOffer; now: Date; className?: string }> = ({
+  offer,
+  now,
+  className = "",
+}) => {
+  const soldOut = offer.remaining <= 0;
+  const limitReached = !soldOut && offer.available <= 0;
+
+  return (
+    <span className={`${styles.tag} ${soldOut ? styles.soldOut : ""} ${className}`}>
+      <span className={styles.countdown}>
+        <Zap size={13} aria-hidden="true" />
+        Ends in <time dateTime={offer.sale.endsAt}>{formatCountdown(Date.parse(offer.sale.endsAt) - now.getTime())}</time>
+      </span>
+      <span className={offer.remaining <= LOW_STOCK ? styles.low : undefined}>
+        {soldOut ? "Sold out" : limitReached ? "Limit reached" : `${offer.remaining} left`}
+      </span>
+    </span>
+  );
+};
+
+export default FlashSaleTag;
@@ -0,0 +1,65 @@
+// src/components/ListingPagination.tsx
+// ============================================================================
+// 📄 ListingPagination.tsx — previous / numbered / next page links for a
+//    listing; the page lives in the URL, so each one can be shared
+// ============================================================================
+
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Listing } from "../listing";
+import styles from "./ListingPagination.module.css";
+
+/** Pages shown either side of the current one before collapsing to "…" */
+const SPREAD = 1;
+
+/** 1 … 4 5 6 … 12 */
+const getPageNumbers = (page: number, pageCount: number): (number | "gap")[] => {
+  const pages: (number | "gap")[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= SPREAD) pages.push(n);
+    else if (pages[pages.length - 1] !== "gap") pages.push("gap");
+  }
+  return pages;
+};
+
+const ListingPagination: React.FC<{ listing: Listing }> = ({ listing }) => {
+  const { enabled, page, pageCount, update } = listing;
+  if (!enabled || pageCount <= 1) return null;
+
+  const goTo = (next: number) => {
+    update({ page: next });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <nav className={styles.pagination} aria-label="Pages">
+      <button type="button" onClick={() => goTo(page - 1)} disabled={page === 1} aria-label="Previous page">
+        <ChevronLeft size={18} aria-hidden="true" />
+      </button>
+
+      {getPageNumbers(page, pageCount).map((n, i) =>
+        n === "gap" ? (
+          <span key={`gap-${i}`} className={styles.gap} aria-hidden="true">
+            …
+          </span>
+        ) : (
+          <button
+            key={n}
+            type="button"
+            className={n === page ? styles.current : undefined}
+            aria-current={n === page ? "page" : undefined}
+            onClick={() => goTo(n)}
+          >
+            {n}
+          </button>
+        )
+      )}
+
+      <button type="button" onClick={() => goTo(page + 1)} disabled={page === pageCount} aria-label="Next page">
+        <ChevronRight size={18} aria-hidden="true" />
+      </button>
+    </nav>
+  );
+};
+
+export default ListingPagination;
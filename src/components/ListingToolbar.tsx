@@ -0,0 +1,238 @@
+// src/components/ListingToolbar.tsx
+// ============================================================================
+// 🧰 ListingToolbar.tsx — result count, sort and filters (price, brand,
+//    shelf, stock, offers, prescription, rating) for a listing page
+// ============================================================================
+
+import React, { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { formatPrice, STORE } from "../config";
+import { SORT_LABELS, type FacetOption, type Listing, type ListingSort, type RxFilter } from "../listing";
+import styles from "./ListingToolbar.module.css";
+
+interface Props {
+  listing: Listing;
+  /** What the products are called in the count, e.g. "medicines" */
+  noun?: [singular: string, plural: string];
+}
+
+const RATINGS = [4, 3, 2];
+
+/* ---------------------------------------------------------------
+   Price range — typed into a draft and applied on blur or Enter,
+   so the list doesn't jump on every keystroke
+--------------------------------------------------------------- */
+const PriceRange: React.FC<{
+  min?: number;
+  max?: number;
+  range: { min: number; max: number };
+  onApply: (min?: number, max?: number) => void;
+}> = ({ min, max, range, onApply }) => {
+  const [draftMin, setDraftMin] = useState(min?.toString() ?? "");
+  const [draftMax, setDraftMax] = useState(max?.toString() ?? "");
+
+  const apply = () => {
+    const toBound = (raw: string) => (raw.trim() === "" || Number(raw) < 0 ? undefined : Number(raw));
+    let lo = toBound(draftMin);
+    let hi = toBound(draftMax);
+    if (lo !== undefined && hi !== undefined && lo > hi) [lo, hi] = [hi, lo];
+    if (lo !== min || hi !== max) onApply(lo, hi);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") apply();
+  };
+
+  return (
+    <fieldset className={styles.group}>
+      <legend>Price ({STORE.currency.code})</legend>
+      <div className={styles.priceRow}>
+        <input
+          type="number"
+          min={0}
+          inputMode="numeric"
+          placeholder={String(range.min)}
+          aria-label="Minimum price"
+          value={draftMin}
+          onChange={(e) => setDraftMin(e.target.value)}
+          onBlur={apply}
+          onKeyDown={onKeyDown}
+        />
+        <span aria-hidden="true">–</span>
+        <input
+          type="number"
+          min={0}
+          inputMode="numeric"
+          placeholder={String(range.max)}
+          aria-label="Maximum price"
+          value={draftMax}
+          onChange={(e) => setDraftMax(e.target.value)}
+          onBlur={apply}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+      <p className={styles.hint}>
+        {formatPrice(range.min)} – {formatPrice(range.max)}
+      </p>
+    </fieldset>
+  );
+};
+
+/* ---------------------------------------------------------------
+   Checkbox list for brands and shelves
+--------------------------------------------------------------- */
+const OptionGroup: React.FC<{
+  legend: string;
+  options: FacetOption[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+}> = ({ legend, options, selected, onChange }) => (
+  <fieldset className={styles.group}>
+    <legend>{legend}</legend>
+    <ul className={styles.options}>
+      {options.map(({ value, count }) => (
+        <li key={value}>
+          <label>
+            <input
+              type="checkbox"
+              checked={selected.includes(value)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...selected, value] : selected.filter((v) => v !== value))
+              }
+            />
+            <span>{value}</span>
+            <span className={styles.optionCount}>{count}</span>
+          </label>
+        </li>
+      ))}
+    </ul>
+  </fieldset>
+);
+
+const ListingToolbar: React.FC<Props> = ({ listing, noun = ["product", "products"] }) => {
+  const { enabled, query, facets, total, activeFilters, update, clearFilters } = listing;
+  if (!enabled) return null;
+
+  const sorts = (Object.keys(SORT_LABELS) as ListingSort[]).filter((s) => s !== "rating" || facets.rated);
+
+  return (
+    <div className={styles.toolbar}>
+      <div className={styles.bar}>
+        <p className={styles.count} aria-live="polite">
+          {total} {total === 1 ? noun[0] : noun[1]}
+        </p>
+        <label className={styles.sort}>
+          <span>Sort by</span>
+          <select value={query.sort} onChange={(e) => update({ sort: e.target.value as ListingSort })}>
+            {sorts.map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <details className={styles.filters}>
+        <summary>
+          <SlidersHorizontal size={16} aria-hidden="true" />
+          Filters
+          {activeFilters > 0 && <span className={styles.badge}>{activeFilters}</span>}
+        </summary>
+
+        <div className={styles.panel}>
+          {facets.priceRange && (
+            <PriceRange
+              // Reset the draft when the URL changes underneath it (clear, back button)
+              key={`${query.minPrice ?? ""}-${query.maxPrice ?? ""}`}
+              min={query.minPrice}
+              max={query.maxPrice}
+              range={facets.priceRange}
+              onApply={(minPrice, maxPrice) => update({ minPrice, maxPrice })}
+            />
+          )}
+
+          {facets.subcategories.length > 1 && (
+            <OptionGroup
+              legend="Type"
+              options={facets.subcategories}
+              selected={query.subcategories}
+              onChange={(subcategories) => update({ subcategories })}
+            />
+          )}
+
+          {facets.brands.length > 0 && (
+            <OptionGroup
+              legend="Brand"
+              options={facets.brands}
+              selected={query.brands}
+              onChange={(brands) => update({ brands })}
+            />
+          )}
+
+          <fieldset className={styles.group}>
+            <legend>Availability</legend>
+            <label className={styles.toggle}>
+              <input type="checkbox" checked={query.inStock} onChange={(e) => update({ inStock: e.target.checked })} />
+              In stock only
+            </label>
+            {(facets.onSale || query.onSale) && (
+              <label className={styles.toggle}>
+                <input type="checkbox" checked={query.onSale} onChange={(e) => update({ onSale: e.target.checked })} />
+                On offer
+              </label>
+            )}
+          </fieldset>
+
+          {(facets.mixedRx || query.rx) && (
+            <fieldset className={styles.group}>
+              <legend>Prescription</legend>
+              <select
+                value={query.rx ?? ""}
+                onChange={(e) => update({ rx: (e.target.value || undefined) as RxFilter | undefined })}
+              >
+                <option value="">All</option>
+                <option value="rx">Prescription only</option>
+                <option value="otc">Over the counter</option>
+              </select>
+            </fieldset>
+          )}
+
+          {(facets.rated || query.minRating) && (
+            <fieldset className={styles.group}>
+              <legend>Rating</legend>
+              <select
+                value={query.minRating ?? ""}
+                onChange={(e) => update({ minRating: e.target.value ? Number(e.target.value) : undefined })}
+              >
+                <option value="">Any</option>
+                {RATINGS.map((stars) => (
+                  <option key={stars} value={stars}>
+                    {stars}★ &amp; up
+                  </option>
+                ))}
+              </select>
+            </fieldset>
+          )}
+        </div>
+      </details>
+
+      {activeFilters > 0 && (
+        <button type="button" className={styles.clear} onClick={clearFilters}>
+          Clear filters
+        </button>
+      )}
+
+      {total === 0 && activeFilters > 0 && (
+        <p className={styles.empty} role="status">
+          Nothing matches these filters.{" "}
+          <button type="button" onClick={clearFilters}>
+            Show everything
+          </button>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ListingToolbar;
@@ -0,0 +1,60 @@
+// src/components/LocationPicker.tsx
+// ============================================================================
+// 🗺️ LocationPicker.tsx — "Deliver to" dialog over the address book
+// ============================================================================
+
+import React, { useEffect, useRef } from "react";
+import { X } from "lucide-react";
+import AddressBook from "./AddressBook";
+import styles from "./LocationPicker.module.css";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+const LocationPicker: React.FC<Props> = ({ open, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Escape closes; focus moves into the dialog while it's open
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", onKey);
+    dialogRef.current?.focus();
+    return () => document.removeEventListener("keydown", onKey);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className={styles.overlay} onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div
+        ref={dialogRef}
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="location-picker-title"
+        tabIndex={-1}
+      >
+        <header className={styles.header}>
+          <div>
+            <h2 id="location-picker-title" className={styles.title}>
+              Where should we deliver?
+            </h2>
+            <p className={styles.muted}>Delivery fees, times and availability depend on your area.</p>
+          </div>
+          <button type="button" className={styles.close} onClick={onClose} aria-label="Close">
+            <X size={20} />
+          </button>
+        </header>
+
+        <AddressBook onDone={onClose} />
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,16 @@
+// src/components/LowStockBadge.tsx
+// ============================================================================
+// 📦 LowStockBadge.tsx — "Only N left" on a product card when stock runs low
+// ============================================================================
+
+import React from "react";
+import type { Product } from "../catalog";
+import { getStockLabel, getStockLevel } from "../inventory";
+import styles from "./LowStockBadge.module.css";
+
+const LowStockBadge: React.FC<{ product: Product; className?: string }> = ({ product, className = "" }) => {
+  if (getStockLevel(product).status !== "low-stock") return null;
+  return <span className={`${styles.badge} ${className}`}>{getStockLabel(product)}</span>;
+};
+
+export default LowStockBadge;
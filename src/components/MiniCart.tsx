@@ -0,0 +1,94 @@
+// src/components/MiniCart.tsx
+// ============================================================================
+// 🛒 MiniCart.tsx — "Added to cart" preview, shown via showCartPreview()
+// ============================================================================
+
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AnimatePresence, motion } from "framer-motion";
+import { CheckCircle2, X } from "lucide-react";
+import { useCart } from "../context/CartContext";
+import { formatPrice } from "../config";
+import styles from "./MiniCart.module.css";
+
+// How long the preview stays up when the user isn't interacting with it
+const AUTO_HIDE_MS = 4000;
+
+const MiniCart: React.FC = () => {
+  const { cartPreview, hideCartPreview, openCart, getCartTotal, getTotalItems } = useCart();
+  const navigate = useNavigate();
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    if (!cartPreview || isPaused) return;
+    const timer = window.setTimeout(hideCartPreview, AUTO_HIDE_MS);
+    return () => window.clearTimeout(timer);
+  }, [cartPreview, isPaused, hideCartPreview]);
+
+  const handleCheckout = () => {
+    hideCartPreview();
+    navigate("/checkout");
+  };
+
+  const totalItems = getTotalItems();
+
+  return (
+    <AnimatePresence>
+      {cartPreview && (
+        <motion.div
+          key={cartPreview.id}
+          className={styles.miniCart}
+          role="status"
+          aria-live="polite"
+          initial={{ opacity: 0, y: -12 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -12 }}
+          transition={{ duration: 0.18 }}
+          onMouseEnter={() => setIsPaused(true)}
+          onMouseLeave={() => setIsPaused(false)}
+          onFocus={() => setIsPaused(true)}
+          onBlur={() => setIsPaused(false)}
+        >
+          <header className={styles.header}>
+            <CheckCircle2 size={18} aria-hidden="true" />
+            <span>Added to cart</span>
+            <button
+              type="button"
+              className={styles.closeBtn}
+              onClick={hideCartPreview}
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </header>
+
+          <div className={styles.item}>
+            {cartPreview.image && <img src={cartPreview.image} alt="" />}
+            <div>
+              <p className={styles.name}>{cartPreview.name}</p>
+              <p className={styles.meta}>
+                Qty {cartPreview.quantity} · {formatPrice(cartPreview.price * cartPreview.quantity)}
+              </p>
+            </div>
+          </div>
+
+          <p className={styles.summary}>
+            {totalItems} {totalItems === 1 ? "item" : "items"} in cart ·{" "}
+            <strong>{formatPrice(getCartTotal())}</strong>
+          </p>
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.secondary} onClick={openCart}>
+              View Cart
+            </button>
+            <button type="button" className={styles.primary} onClick={handleCheckout}>
+              Checkout
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default MiniCart;
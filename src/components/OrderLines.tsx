@@ -0,0 +1,65 @@
+// src/components/OrderLines.tsx
+// ============================================================================
+// 🧾 OrderLines.tsx — the items of a past order, each with a reorder button
+//    when the viewer can reorder
+// ============================================================================
+
+import React from "react";
+import { Link } from "react-router-dom";
+import { getProductById } from "../catalog";
+import { formatPrice } from "../config";
+import type { CartItem } from "../context/CartContext";
+import { isSoldOut } from "../inventory";
+import styles from "./OrderLines.module.css";
+
+interface Props {
+  items: CartItem[];
+  /** Leave out to list the items without reorder buttons */
+  onReorder?: (item: CartItem) => void;
+}
+
+const OrderLines: React.FC<Props> = ({ items, onReorder }) => (
+  <ul className={styles.lines}>
+    {items.map((item) => {
+      // Stock is today's, not what it was when the order was placed
+      const product = getProductById(item.id);
+      const available = !!product && !isSoldOut(product);
+      return (
+        <li key={item.id} className={styles.line}>
+          {item.image ? (
+            <img src={item.image} alt="" className={styles.thumb} loading="lazy" />
+          ) : (
+            <span className={styles.thumb} aria-hidden="true" />
+          )}
+
+          <div className={styles.info}>
+            <p className={styles.name}>{item.name}</p>
+            <p className={styles.meta}>
+              {item.quantity} × {formatPrice(item.price)}
+              {item.prescription && (
+                <>
+                  {" · "}
+                  <Link to={`/prescription/status/${item.prescription.reference}`}>
+                    Prescription {item.prescription.reference}
+                  </Link>
+                </>
+              )}
+            </p>
+          </div>
+
+          <span className={styles.total}>{formatPrice(item.price * item.quantity)}</span>
+
+          {!onReorder ? null : available ? (
+            <button type="button" className={styles.reorder} onClick={() => onReorder(item)}>
+              Reorder
+            </button>
+          ) : (
+            <span className={styles.unavailable}>Out of stock</span>
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default OrderLines;
@@ -0,0 +1,125 @@
+// src/components/OtpCodeForm.tsx
+// ============================================================================
+// 🔢 OtpCodeForm.tsx — enter the code texted to a phone, with resend
+// ============================================================================
+
+import React, { useEffect, useState } from "react";
+import { describeAuthError, isValidOtp, OTP_LENGTH, type OtpChallenge } from "../auth";
+import styles from "./OtpCodeForm.module.css";
+
+interface Props {
+  challenge: OtpChallenge;
+  /** Rejects with the message to show, e.g. a wrong code */
+  onVerify: (code: string) => Promise<unknown>;
+  onResend: () => Promise<unknown>;
+  /** Back to entering the number */
+  onBack: () => void;
+  submitLabel?: string;
+  /** Extra fields shown above the button, e.g. a new password */
+  children?: React.ReactNode;
+}
+
+/** Seconds left until the ISO timestamp, ticking once a second. */
+const useSecondsUntil = (iso: string) => {
+  const target = Date.parse(iso);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [target]);
+
+  return Math.max(0, Math.ceil((target - now) / 1000));
+};
+
+const OtpCodeForm: React.FC<Props> = ({ challenge, onVerify, onResend, onBack, submitLabel = "Verify", children }) => {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const resendIn = useSecondsUntil(challenge.resendAt);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidOtp(code)) {
+      setError(`Enter the ${OTP_LENGTH}-digit code from the SMS.`);
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      // On success the page moves on, so busy is only reset on failure
+      await onVerify(code.trim());
+    } catch (err) {
+      setError(describeAuthError(err));
+      setBusy(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError("");
+    setCode("");
+    try {
+      await onResend();
+    } catch (err) {
+      setError(describeAuthError(err));
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      <p className={styles.sentTo}>
+        We sent a {OTP_LENGTH}-digit code to <strong>{challenge.sentTo}</strong>.{" "}
+        <button type="button" className={styles.link} onClick={onBack}>
+          Change
+        </button>
+      </p>
+
+      {challenge.devCode && (
+        <p className={styles.devCode} role="note">
+          Development mode — no SMS is sent. Your code is <strong>{challenge.devCode}</strong>.
+        </p>
+      )}
+
+      <label className={styles.field}>
+        <span>Code</span>
+        <input
+          className={styles.codeInput}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, OTP_LENGTH))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={OTP_LENGTH}
+          aria-invalid={!!error}
+          autoFocus
+          required
+        />
+      </label>
+
+      {children}
+
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <button type="submit" className={styles.submit} disabled={busy}>
+        {busy ? "Checking…" : submitLabel}
+      </button>
+
+      <p className={styles.resend}>
+        Didn't get it?{" "}
+        {resendIn > 0 ? (
+          <span>Resend in {resendIn}s</span>
+        ) : (
+          <button type="button" className={styles.link} onClick={handleResend}>
+            Send a new code
+          </button>
+        )}
+      </p>
+    </form>
+  );
+};
+
+export default OtpCodeForm;
@@ -0,0 +1,31 @@
+// src/components/PrescriptionBadge.tsx
+// ============================================================================
+// ℞ PrescriptionBadge.tsx — marks prescription-only cart lines and their state
+// ============================================================================
+
+import React from "react";
+import { FileCheck2, FileClock, FileWarning } from "lucide-react";
+import type { CartItem } from "../context/CartContext";
+import { getPrescriptionGate } from "../prescriptions";
+import styles from "./PrescriptionBadge.module.css";
+
+const BADGES = {
+  required: { icon: FileWarning, label: "Prescription required", className: styles.required },
+  attached: { icon: FileClock, label: "Prescription under review", className: styles.attached },
+  approved: { icon: FileCheck2, label: "Prescription approved", className: styles.approved },
+} as const;
+
+const PrescriptionBadge: React.FC<{ item: CartItem; className?: string }> = ({ item, className = "" }) => {
+  const gate = getPrescriptionGate(item);
+  if (gate === "none") return null;
+
+  const { icon: Icon, label, className: tone } = BADGES[gate];
+  return (
+    <span className={`${styles.badge} ${tone} ${className}`} title={item.prescription?.reference}>
+      <Icon size={14} aria-hidden="true" />
+      {label}
+    </span>
+  );
+};
+
+export default PrescriptionBadge;
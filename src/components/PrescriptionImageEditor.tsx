@@ -0,0 +1,119 @@
+// src/components/PrescriptionImageEditor.tsx
+// ============================================================================
+// ✂️ PrescriptionImageEditor.tsx — rotate and crop a prescription photo
+// ============================================================================
+
+import React, { useRef, useState } from "react";
+import { Crop, RotateCcw, RotateCw, Undo2 } from "lucide-react";
+import type { CropRect, PreparedFile } from "../prescriptions";
+import styles from "./PrescriptionImageEditor.module.css";
+
+interface Props {
+  file: PreparedFile;
+  onRotate: (direction: 1 | -1) => void;
+  /** Rect relative to the image shown; undefined resets the crop */
+  onCrop: (rect?: CropRect) => void;
+  onClose: () => void;
+}
+
+/** Ignore taps and tiny drags — anything under 5% either way isn't a crop. */
+const MIN_FRACTION = 0.05;
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+const PrescriptionImageEditor: React.FC<Props> = ({ file, onRotate, onCrop, onClose }) => {
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [selection, setSelection] = useState<CropRect | null>(null);
+
+  const busy = file.status === "processing";
+
+  const pointAt = (e: React.PointerEvent) => {
+    const box = frameRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - box.left) / box.width), y: clamp01((e.clientY - box.top) / box.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (busy) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = pointAt(e);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const p = pointAt(e);
+    setSelection({
+      x: Math.min(start.x, p.x),
+      y: Math.min(start.y, p.y),
+      width: Math.abs(p.x - start.x),
+      height: Math.abs(p.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+    setSelection((s) => (s && s.width >= MIN_FRACTION && s.height >= MIN_FRACTION ? s : null));
+  };
+
+  const applyCrop = () => {
+    if (!selection) return;
+    onCrop(selection);
+    setSelection(null);
+  };
+
+  const rotate = (direction: 1 | -1) => {
+    setSelection(null);
+    onRotate(direction);
+  };
+
+  return (
+    <div className={styles.editor} role="group" aria-label={`Edit ${file.original.name}`}>
+      <p className={styles.hint}>Drag across the photo to crop it to the prescription.</p>
+
+      <div
+        ref={frameRef}
+        className={`${styles.frame} ${busy ? styles.busy : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {file.previewUrl && <img src={file.previewUrl} alt="" draggable={false} />}
+        {selection && (
+          <div
+            className={styles.selection}
+            style={{
+              left: `${selection.x * 100}%`,
+              top: `${selection.y * 100}%`,
+              width: `${selection.width * 100}%`,
+              height: `${selection.height * 100}%`,
+            }}
+          />
+        )}
+        {busy && <span className={styles.busyLabel}>Processing…</span>}
+      </div>
+
+      <div className={styles.toolbar}>
+        <button type="button" onClick={() => rotate(-1)} disabled={busy} aria-label="Rotate left">
+          <RotateCcw size={16} aria-hidden="true" />
+        </button>
+        <button type="button" onClick={() => rotate(1)} disabled={busy} aria-label="Rotate right">
+          <RotateCw size={16} aria-hidden="true" />
+        </button>
+        <button type="button" onClick={applyCrop} disabled={busy || !selection}>
+          <Crop size={16} aria-hidden="true" /> Crop
+        </button>
+        <button type="button" onClick={() => onCrop(undefined)} disabled={busy || !file.edits.crop}>
+          <Undo2 size={16} aria-hidden="true" /> Undo crop
+        </button>
+        <button type="button" className={styles.done} onClick={onClose}>
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PrescriptionImageEditor;
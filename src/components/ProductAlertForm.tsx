@@ -0,0 +1,130 @@
+// src/components/ProductAlertForm.tsx
+// ============================================================================
+// 🔔 ProductAlertForm.tsx — set, show and cancel a back-in-stock or
+//    price-drop alert for one product
+// ============================================================================
+
+import React, { useState } from "react";
+import { BellRing, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { AlertError, CHANNEL_LABELS, type AlertChannelId, type AlertKind } from "../alerts";
+import type { Product } from "../catalog";
+import { formatPrice, STORE } from "../config";
+import { useAlerts } from "../context/AlertsContext";
+import { useAuth } from "../context/AuthContext";
+import styles from "./ProductAlertForm.module.css";
+
+const CHANNELS = Object.keys(CHANNEL_LABELS) as AlertChannelId[];
+
+interface Props {
+  product: Pick<Product, "id" | "name" | "price">;
+  kind: AlertKind;
+  className?: string;
+}
+
+const ProductAlertForm: React.FC<Props> = ({ product, kind, className = "" }) => {
+  const { user } = useAuth();
+  const { subscribe, unsubscribe, getSubscription } = useAlerts();
+  const [channel, setChannel] = useState<AlertChannelId>("sms");
+  const [address, setAddress] = useState(user?.phone ?? "");
+  const [target, setTarget] = useState("");
+  const [error, setError] = useState("");
+
+  const existing = getSubscription(kind, product.id);
+  if (existing) {
+    return (
+      <p className={`${styles.active} ${className}`} role="status">
+        <BellRing size={16} aria-hidden="true" />
+        <span>
+          {kind === "back-in-stock"
+            ? "We'll let you know when it's back"
+            : `Alert at ${formatPrice(existing.targetPrice ?? 0)} or less`}{" "}
+          by {CHANNEL_LABELS[existing.contact.channel]}.
+        </span>
+        <button type="button" onClick={() => unsubscribe(existing.id)} aria-label="Cancel alert">
+          <X size={14} />
+        </button>
+      </p>
+    );
+  }
+
+  const chooseChannel = (next: AlertChannelId) => {
+    setChannel(next);
+    // Switching between phone and email starts from the account's own details
+    if ((next === "email") !== (channel === "email")) {
+      setAddress((next === "email" ? user?.email : user?.phone) ?? "");
+    }
+    setError("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      subscribe({
+        kind,
+        productId: product.id,
+        contact: { channel, address },
+        ...(kind === "price-drop" && { targetPrice: Number(target) }),
+      });
+      toast.success(kind === "back-in-stock" ? "We'll let you know when it's back" : "Price alert set");
+    } catch (err) {
+      setError(err instanceof AlertError ? err.message : "We couldn't save your alert. Please try again.");
+    }
+  };
+
+  return (
+    <form className={`${styles.form} ${className}`} onSubmit={handleSubmit} noValidate>
+      <p className={styles.heading}>
+        {kind === "back-in-stock" ? "Tell me when it's back in stock" : "Tell me when the price drops"}
+      </p>
+      {kind === "price-drop" && (
+        <label className={styles.field}>
+          <span>Alert me at or below ({STORE.currency.code})</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={product.price - 1}
+            placeholder={String(Math.round(product.price * 0.9))}
+            value={target}
+            onChange={(e) => {
+              setTarget(e.target.value);
+              setError("");
+            }}
+          />
+        </label>
+      )}
+      <span className={styles.row}>
+        <select value={channel} onChange={(e) => chooseChannel(e.target.value as AlertChannelId)} aria-label="Send by">
+          {CHANNELS.map((id) => (
+            <option key={id} value={id}>
+              {CHANNEL_LABELS[id]}
+            </option>
+          ))}
+        </select>
+        <input
+          type={channel === "email" ? "email" : "tel"}
+          autoComplete={channel === "email" ? "email" : "tel"}
+          placeholder={channel === "email" ? "you@example.com" : "07XX XXX XXX"}
+          value={address}
+          onChange={(e) => {
+            setAddress(e.target.value);
+            setError("");
+          }}
+          aria-label={channel === "email" ? "Email address" : "Mobile number"}
+          aria-invalid={!!error}
+        />
+        <button type="submit" disabled={!address.trim() || (kind === "price-drop" && !target)}>
+          Notify me
+        </button>
+      </span>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default ProductAlertForm;
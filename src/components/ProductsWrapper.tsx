@@ -23,7 +23,7 @@ const ProductsWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Sexual & Reproductive Health Section
         </h2>
-        <Sexual/>
+        <Sexual embedded />
       </section>
 
       {/* Best Selling Section */}
@@ -31,7 +31,7 @@ const ProductsWrapper = () => {
         <h2 id="best-selling" className={styles.title}>
           Best Selling Products
         </h2>
-        <Shop />
+        <Shop embedded />
       </section>
 
      {/* Featured Grid Section */}
@@ -39,7 +39,7 @@ const ProductsWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Heart and Cardiovascular Section
         </h2>
-        <CVS />
+        <CVS embedded />
       </section>
 
       {/* Therapeutic Use Section */}
@@ -50,7 +50,7 @@ const ProductsWrapper = () => {
         <h2 id="therapeutic-use" className={styles.title}>
           Respiratory system/ Breathing Section
         </h2>
-        <Resp />
+        <Resp embedded />
       </section>
 
       {/* Therapeutic Use Section */}
@@ -61,7 +61,7 @@ const ProductsWrapper = () => {
         <h2 id="therapeutic-use" className={styles.title}>
           Digestive system Section
         </h2>
-        <GIT />
+        <GIT embedded />
       </section>
 
       {/* Top Products Section */}
@@ -69,7 +69,7 @@ const ProductsWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Renal/Kidney Drugs
         </h2>
-        <Renal />
+        <Renal embedded />
       </section>
 
       {/* Top Products Section */}
@@ -77,7 +77,7 @@ const ProductsWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Nervous System Drugs
         </h2>
-        <CNS />
+        <CNS embedded />
       </section>
       
       {/* Top Products Section */}
@@ -85,7 +85,7 @@ const ProductsWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Musculosketal and Joints Drugs
         </h2>
-        <MSK />
+        <MSK embedded />
       </section>
       
       {/* Top Products Section */}
@@ -93,7 +93,7 @@ const ProductsWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Reproductive/Sexual Health Section
         </h2>
-        <GUT />
+        <GUT embedded />
       </section>
 
       {/* Single Product Section */}
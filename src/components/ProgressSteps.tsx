@@ -0,0 +1,49 @@
+// src/components/ProgressSteps.tsx
+// ============================================================================
+// 🔢 ProgressSteps.tsx — numbered step tracker (prescription wizard & status)
+// ============================================================================
+
+import React from "react";
+import styles from "./ProgressSteps.module.css";
+
+export interface ProgressStep {
+  number: number;
+  label: string;
+}
+
+interface Props {
+  steps: readonly ProgressStep[];
+  /** Number of the step in progress; everything before it shows as done */
+  current: number;
+  /** Highlight the current step as waiting on the user */
+  attention?: boolean;
+  className?: string;
+}
+
+const ProgressSteps: React.FC<Props> = ({ steps, current, attention = false, className = "" }) => (
+  <ol className={`${styles.progressContainer} ${className}`}>
+    {steps.map((step, index) => (
+      <li
+        key={step.number}
+        className={styles.stepWrapper}
+        aria-current={step.number === current ? "step" : undefined}
+      >
+        <div className={styles.stepItem}>
+          <div
+            className={`${styles.stepCircle} ${current >= step.number ? styles.stepActive : ""} ${
+              attention && step.number === current ? styles.stepAttention : ""
+            }`}
+          >
+            {step.number}
+          </div>
+          <span className={styles.stepLabel}>{step.label}</span>
+        </div>
+        {index < steps.length - 1 && (
+          <div className={`${styles.stepLine} ${current > step.number ? styles.stepLineActive : ""}`} />
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+export default ProgressSteps;
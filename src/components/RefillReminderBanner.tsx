@@ -0,0 +1,84 @@
+// src/components/RefillReminderBanner.tsx
+// ============================================================================
+// 💊 RefillReminderBanner.tsx — in-app nudge when repeat medicines run low
+// ============================================================================
+
+import React, { useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { X } from "lucide-react";
+import { useRefills } from "../context/RefillContext";
+import { formatRefillDate } from "../refills";
+import styles from "./RefillReminderBanner.module.css";
+
+const REPEAT_MEDICINES_PATH = "/prescription/repeat";
+
+const DISMISSED_KEY = "refill_banner_dismissed";
+
+const readDismissed = () => {
+  try {
+    return sessionStorage.getItem(DISMISSED_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const RefillReminderBanner: React.FC = () => {
+  const { refills, reorder } = useRefills();
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const [dismissed, setDismissed] = useState(readDismissed);
+
+  const due = refills.filter((r) => r.status !== "ok");
+  // A new medicine falling due brings the banner back
+  const signature = due.map((r) => `${r.productId}@${r.lastFilledAt}`).join(",");
+  if (due.length === 0 || dismissed === signature || pathname === REPEAT_MEDICINES_PATH) return null;
+
+  const overdue = due.some((r) => r.status === "overdue");
+  const first = due[0];
+
+  const dismiss = () => {
+    try {
+      sessionStorage.setItem(DISMISSED_KEY, signature);
+    } catch {
+      // Hidden for this render only
+    }
+    setDismissed(signature);
+  };
+
+  const handleReorder = () => {
+    const { added, unavailable } = reorder(due.map((r) => r.productId));
+    if (unavailable.length) toast.error(`Out of stock: ${unavailable.join(", ")}`);
+    if (added) navigate("/cart");
+  };
+
+  return (
+    <div className={`${styles.banner} ${overdue ? styles.overdue : ""}`} role="status">
+      <p className={styles.text}>
+        {due.length === 1 ? (
+          <>
+            <strong>{first.product.name}</strong>{" "}
+            {overdue ? "has run out" : `runs out ${formatRefillDate(first.nextRefillDate)}`}.
+          </>
+        ) : (
+          <>
+            <strong>{due.length} repeat medicines</strong> {overdue ? "need refilling now" : "run out soon"}.
+          </>
+        )}
+      </p>
+      <div className={styles.actions}>
+        <button type="button" className={styles.reorder} onClick={handleReorder}>
+          Reorder {due.length === 1 ? "now" : "all"}
+        </button>
+        <Link to={REPEAT_MEDICINES_PATH} className={styles.link}>
+          View list
+        </Link>
+        <button type="button" className={styles.close} onClick={dismiss} aria-label="Dismiss refill reminder">
+          <X size={16} aria-hidden="true" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefillReminderBanner;
@@ -0,0 +1,70 @@
+// src/components/UploadStatus.tsx
+// ============================================================================
+// 📶 UploadStatus.tsx — progress, retries and failure for one uploading file
+// ============================================================================
+
+import React, { useEffect, useState } from "react";
+import type { UploadEntry } from "../prescriptions";
+import styles from "./UploadStatus.module.css";
+
+interface Props {
+  upload?: UploadEntry;
+  onRetry: () => void;
+  className?: string;
+}
+
+/** Seconds left until retryAt, ticking once a second. */
+const useCountdown = (retryAt?: number) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+};
+
+const UploadStatus: React.FC<Props> = ({ upload, onRetry, className = "" }) => {
+  const seconds = useCountdown(upload?.status === "retrying" ? upload.retryAt : undefined);
+  if (!upload) return null;
+
+  const label = {
+    queued: "Waiting to upload…",
+    uploading: `Uploading ${upload.progress}%`,
+    retrying: upload.retryAt
+      ? `Connection dropped — retrying in ${seconds}s (${upload.progress}% sent)`
+      : (upload.error ?? "Waiting for a connection…"),
+    uploaded: "Uploaded",
+    failed: upload.error ?? "Upload failed.",
+  }[upload.status];
+
+  return (
+    <div className={`${styles.status} ${styles[upload.status]} ${className}`}>
+      {upload.status !== "uploaded" && upload.status !== "failed" && (
+        <div
+          className={styles.track}
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={upload.progress}
+          aria-label={`${upload.fileName} upload`}
+        >
+          <div className={styles.bar} style={{ width: `${upload.progress}%` }} />
+        </div>
+      )}
+      <span className={styles.label} role={upload.status === "failed" ? "alert" : undefined}>
+        {label}
+      </span>
+      {upload.status === "failed" && (
+        <button type="button" className={styles.retry} onClick={onRetry}>
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UploadStatus;
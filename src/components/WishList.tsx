@@ -1,62 +1,33 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { getProductPath, type Product } from '../catalog';
+import { useAlerts } from '../context/AlertsContext';
+import { useWishlist } from '../context/WishlistContext';
+import { getStockLabel, isSoldOut } from '../inventory';
+import { formatPrice } from '../config';
+import ProductAlertForm from './ProductAlertForm';
 import styles from './Wishlist.module.css';
 
-interface WishlistItem {
-  id: string;
-  name: string;
-  price: number;
-  image: string;
-  quantity: number;
-  inStock: boolean;
-}
-
-interface WishlistProps {
-  items?: WishlistItem[];
-  onUpdateQuantity?: (id: string, quantity: number) => void;
-  onRemoveItem?: (id: string) => void;
-  onCheckout?: () => void;
-}
-
-const Wishlist: React.FC<WishlistProps> = ({
-  items = [],
-  onUpdateQuantity,
-  onRemoveItem,
-  onCheckout
-}) => {
-  const [localItems, setLocalItems] = useState<WishlistItem[]>(items);
-
-  const handleQuantityChange = (id: string, delta: number) => {
-    setLocalItems(prev => {
-      const updated = prev.map(item => {
-        if (item.id === id) {
-          const newQuantity = Math.max(0, item.quantity + delta);
-          if (newQuantity === 0 && onRemoveItem) {
-            onRemoveItem(id);
-            return null;
-          }
-          if (onUpdateQuantity) {
-            onUpdateQuantity(id, newQuantity);
-          }
-          return { ...item, quantity: newQuantity };
-        }
-        return item;
-      }).filter(Boolean) as WishlistItem[];
-      return updated;
-    });
+const Wishlist: React.FC = () => {
+  const navigate = useNavigate();
+  const { wishlistItems, removeFromWishlist, moveToCart } = useWishlist();
+  const { getSubscription } = useAlerts();
+
+  const handleMoveToCart = (item: Product) => {
+    if (moveToCart(item.id)) toast.success(`${item.name} moved to cart`);
   };
 
-  const handleRemove = (id: string) => {
-    setLocalItems(prev => prev.filter(item => item.id !== id));
-    if (onRemoveItem) {
-      onRemoveItem(id);
-    }
+  const handleMoveAllToCart = () => {
+    const moved = wishlistItems.filter(item => !isSoldOut(item) && moveToCart(item.id));
+    if (moved.length) toast.success(`${moved.length} ${moved.length === 1 ? 'item' : 'items'} moved to cart`);
   };
 
   const calculateSubtotal = () => {
-    return localItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    return wishlistItems.reduce((sum, item) => sum + item.price, 0);
   };
 
-  const isEmpty = localItems.length === 0;
+  const isEmpty = wishlistItems.length === 0;
 
   if (isEmpty) {
     return (
@@ -92,7 +63,11 @@ const Wishlist: React.FC<WishlistProps> = ({
             </div>
           </div>
 
-          <button className={styles.productsButton} aria-label="Browse products">
+          <button
+            className={styles.productsButton}
+            aria-label="Browse products"
+            onClick={() => navigate('/shop')}
+          >
             <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
               <path d="M10 3.5C6.5 3.5 3.5 5.5 3.5 8C3.5 9.5 4.5 10.5 5.5 11.5L10 16.5L14.5 11.5C15.5 10.5 16.5 9.5 16.5 8C16.5 5.5 13.5 3.5 10 3.5Z"/>
             </svg>
@@ -107,107 +82,91 @@ const Wishlist: React.FC<WishlistProps> = ({
   return (
     <div className={styles.container}>
       <div className={styles.header}>
-        <h1 className={styles.title}>Shopping Cart</h1>
-        <span className={styles.itemCount}>{localItems.length} {localItems.length === 1 ? 'item' : 'items'}</span>
+        <h1 className={styles.title}>My Wishlist</h1>
+        <span className={styles.itemCount}>{wishlistItems.length} {wishlistItems.length === 1 ? 'item' : 'items'}</span>
       </div>
 
       <div className={styles.content}>
         <div className={styles.itemsList}>
-          {localItems.map(item => (
+          {wishlistItems.map(item => {
+            // Sold out: wait for it to come back; otherwise wait for a lower price
+            const alertKind = isSoldOut(item) ? 'back-in-stock' : 'price-drop';
+            const alertForm = <ProductAlertForm product={item} kind={alertKind} />;
+            return (
             <article key={item.id} className={styles.cartItem}>
               <div className={styles.itemImage}>
                 <img src={item.image} alt={item.name} loading="lazy" />
               </div>
               
               <div className={styles.itemDetails}>
-                <h3 className={styles.itemName}>{item.name}</h3>
-                <p className={styles.itemPrice}>
-                  KSh {item.price.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                </p>
-                {!item.inStock && (
+                <h3 className={styles.itemName}>
+                  <Link to={getProductPath(item)}>{item.name}</Link>
+                </h3>
+                <p className={styles.itemPrice}>{formatPrice(item.price)}</p>
+                {isSoldOut(item) ? (
                   <span className={styles.outOfStock}>Out of stock</span>
+                ) : (
+                  <span className={styles.inStock}>{getStockLabel(item)}</span>
                 )}
-                {item.inStock && (
-                  <span className={styles.inStock}>In stock</span>
+                {getSubscription(alertKind, item.id) ? (
+                  <div className={styles.alert}>{alertForm}</div>
+                ) : (
+                  <details className={styles.alert}>
+                    <summary>{alertKind === 'price-drop' ? 'Set a price alert' : 'Notify me when it\'s back'}</summary>
+                    {alertForm}
+                  </details>
                 )}
               </div>
 
               <div className={styles.itemActions}>
-                <div className={styles.quantityControl}>
-                  <button
-                    className={styles.quantityButton}
-                    onClick={() => handleQuantityChange(item.id, -1)}
-                    aria-label="Decrease quantity"
-                    disabled={!item.inStock}
-                  >
-                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                      <path d="M4 8H12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
-                    </svg>
-                  </button>
-                  <span className={styles.quantity}>{item.quantity}</span>
-                  <button
-                    className={styles.quantityButton}
-                    onClick={() => handleQuantityChange(item.id, 1)}
-                    aria-label="Increase quantity"
-                    disabled={!item.inStock}
-                  >
-                    <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-                      <path d="M8 4V12M4 8H12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
-                    </svg>
-                  </button>
-                </div>
-                
+                <button
+                  className={styles.moveButton}
+                  onClick={() => handleMoveToCart(item)}
+                  disabled={isSoldOut(item)}
+                >
+                  Move to Cart
+                </button>
+
                 <button
                   className={styles.removeButton}
-                  onClick={() => handleRemove(item.id)}
-                  aria-label={`Remove ${item.name} from cart`}
+                  onClick={() => removeFromWishlist(item.id)}
+                  aria-label={`Remove ${item.name} from wishlist`}
                 >
                   <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
                     <path d="M6 6L14 14M14 6L6 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
                   </svg>
                 </button>
               </div>
-
-              <div className={styles.itemTotal}>
-                <span className={styles.totalLabel}>Total:</span>
-                <span className={styles.totalPrice}>
-                  KSh {(item.price * item.quantity).toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                </span>
-              </div>
             </article>
-          ))}
+            );
+          })}
         </div>
 
         <aside className={styles.summary}>
           <div className={styles.summaryCard}>
-            <h2 className={styles.summaryTitle}>Order Summary</h2>
+            <h2 className={styles.summaryTitle}>Wishlist Summary</h2>
             
             <div className={styles.summaryRow}>
-              <span>Subtotal ({localItems.length} items)</span>
-              <span>KSh {calculateSubtotal().toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              <span>Saved items</span>
+              <span>{wishlistItems.length}</span>
             </div>
             
-            <div className={styles.summaryRow}>
-              <span>Shipping</span>
-              <span className={styles.freeShipping}>FREE</span>
-            </div>
-
             <div className={styles.summaryDivider} />
 
             <div className={`${styles.summaryRow} ${styles.summaryTotal}`}>
-              <span>Total</span>
-              <span>KSh {calculateSubtotal().toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              <span>Total value</span>
+              <span>{formatPrice(calculateSubtotal())}</span>
             </div>
 
             <button 
               className={styles.checkoutButton}
-              onClick={onCheckout}
-              disabled={localItems.some(item => !item.inStock)}
+              onClick={handleMoveAllToCart}
+              disabled={wishlistItems.every(item => isSoldOut(item))}
             >
-              Proceed to Checkout
+              Move All to Cart
             </button>
 
-            <button className={styles.continueButton}>
+            <button className={styles.continueButton} onClick={() => navigate('/shop')}>
               Continue Shopping
             </button>
           </div>
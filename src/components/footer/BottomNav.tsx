@@ -1,9 +1,9 @@
 import React from "react";
-import { NavLink, useNavigate } from "react-router-dom";
+import { NavLink } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Home, ShoppingBag, ShoppingCart, FileText, MapPin } from "lucide-react";
-import toast from "react-hot-toast";
 import { useCart } from   "../../context/CartContext" ; // ✅ Import your cart context
+import { STORE } from "../../config";
 import styles from "./BottomNav.module.css";
 
 interface BottomNavProps {
@@ -11,8 +11,7 @@ interface BottomNavProps {
 }
 
 const BottomNav: React.FC<BottomNavProps> = ({ onCartToggle }) => {
-  const navigate = useNavigate();
-  const { getTotalItems } = useCart(); // ✅ access cart count
+  const { getTotalItems, openCart } = useCart(); // ✅ access cart count
   const totalItems = getTotalItems?.() ?? 0;
 
   const navItems = [
@@ -40,13 +39,12 @@ const BottomNav: React.FC<BottomNavProps> = ({ onCartToggle }) => {
         </div>
       ),
       onClick: () => {
-        toast.success("Opening your cart...", { duration: 1800 });
+        openCart();
         onCartToggle?.();
-        setTimeout(() => navigate("/cart"), 500);
       },
     },
     {
-      to: "https://www.google.com/maps/dir/-1.1010048,37.011456/HEALTHFIELD+PHARMACY,+Jkuat,+Muramati+road,+Gate+C+Rd,+Juja",
+      to: STORE.address.mapsUrl,
       label: "Stores",
       icon: <MapPin strokeWidth={1.8} className={styles.mapIcon} />,
       external: true,
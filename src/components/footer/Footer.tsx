@@ -1,6 +1,19 @@
 import React, { useState } from 'react';
+import { STORE, splitBrandName } from '../../config';
 import styles from './Footer.module.css';
 
+const [BRAND_LEAD] = splitBrandName();
+
+const SOCIAL_LABELS: Record<string, string> = {
+  facebook: 'Facebook',
+  instagram: 'Instagram',
+  tiktok: 'TikTok',
+  x: 'X',
+  youtube: 'YouTube',
+};
+
+const socialLinks = Object.entries(STORE.social).filter(([, url]) => url);
+
 interface FooterProps {
   className?: string;
 }
@@ -27,7 +40,7 @@ const Footer: React.FC<FooterProps> = ({ className }) => {
               <li><a href="/medical-devices">Medical Devices</a></li>
               <li><a href="/snacks-drinks">Snacks and Drinks</a></li>
               <li><a href="/offers">Offers</a></li>
-              <li><a href="/new">New on HEALTHFIELD</a></li>
+              <li><a href="/new">New on {BRAND_LEAD}</a></li>
             </ul>
           </div>
 
@@ -53,6 +66,21 @@ const Footer: React.FC<FooterProps> = ({ className }) => {
             </ul>
           </div>
 
+          {socialLinks.length > 0 && (
+            <div className={styles.column}>
+              <h3 className={styles.columnTitle}>Follow Us</h3>
+              <ul className={styles.linkList}>
+                {socialLinks.map(([network, url]) => (
+                  <li key={network}>
+                    <a href={url} target="_blank" rel="noopener noreferrer">
+                      {SOCIAL_LABELS[network] ?? network}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className={styles.column}>
             <h3 className={styles.columnTitle}>Telehealth Partners</h3>
             <ul className={styles.linkList}>
@@ -63,7 +91,7 @@ const Footer: React.FC<FooterProps> = ({ className }) => {
           <div className={styles.column}>
             <h3 className={styles.columnTitle}>Authorized Pharmacy</h3>
             <p className={styles.authText}>
-              HEALTHFIELD is a registered pharmacy governed by the Pharmacy and Poisons Board of Kenya, PPB (K) Health Safety code P0940
+              {BRAND_LEAD} is a registered pharmacy governed by the Pharmacy and Poisons Board of Kenya, PPB (K) Health Safety code P0940
             </p>
             <div className={styles.certificationBadge}>
               <img 
@@ -110,7 +138,7 @@ const Footer: React.FC<FooterProps> = ({ className }) => {
           <div className={styles.mobileSection}>
             <h3 className={styles.mobileSectionTitle}>Authorized Pharmacy</h3>
             <p className={styles.authText}>
-              HEALTHFIELD is a registered pharmacy governed by the Pharmacy and Poisons Board of Kenya, PPB (K) Health Safety code P0940
+              {BRAND_LEAD} is a registered pharmacy governed by the Pharmacy and Poisons Board of Kenya, PPB (K) Health Safety code P0940
             </p>
             <div className={styles.certificationBadge}>
               <img 
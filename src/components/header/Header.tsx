@@ -1,9 +1,20 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
-import { User, ShoppingCart, Heart } from "lucide-react";
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { User, ShoppingCart, Heart, Bell } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { useAddressBook } from '../../context/AddressBookContext';
+import { useAlerts } from '../../context/AlertsContext';
+import { useAuth } from '../../context/AuthContext';
+import { useCart } from '../../context/CartContext';
+import { useWishlist } from '../../context/WishlistContext';
+import { formatPhone, STORE, splitBrandName, telHref } from '../../config';
+import { describeLocation } from '../../delivery';
+import LocationPicker from '../LocationPicker';
+import SearchBox from './SearchBox';
 import styles from './Header.module.css';
 import logo from "/icon.ico"; // adjust path if needed
 
+const [BRAND_LEAD, BRAND_REST] = splitBrandName();
+
 
 interface NavLink {
   label: string;
@@ -18,16 +29,23 @@ interface NavSection {
 }
 
 interface HeaderProps {
-  onLocationChange?: (location: string) => void;
   onSearch?: (query: string) => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ onSearch }) => {
    const navigate = useNavigate();
+  const { getTotalItems, openCart } = useCart();
+  const { getWishlistCount } = useWishlist();
+  const { unreadCount } = useAlerts();
+  const { user } = useAuth();
+  const accountPath = user ? '/account' : '/login';
+  const accountLabel = user ? `My Account (${user.fullName})` : 'Sign in';
+  const cartCount = getTotalItems();
+  const wishlistCount = getWishlistCount();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [deliveryLocation] = useState('Juja');
-  const [cartCount] = useState(3);
+  const { selectedAddress } = useAddressBook();
+  const deliveryLocation = selectedAddress ? describeLocation(selectedAddress) : 'Choose location';
+  const [isLocationPickerOpen, setIsLocationPickerOpen] = useState(false);
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const [mobileActiveSection, setMobileActiveSection] = useState<string | null>(null);
   
@@ -111,12 +129,7 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
     };
   }, [isMobileMenuOpen]);
 
-  const handleSearchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (onSearch && searchQuery.trim()) {
-      onSearch(searchQuery);
-    }
-  };
+  const closeLocationPicker = useCallback(() => setIsLocationPickerOpen(false), []);
 
   const toggleMobileMenu = () => {
     setIsMobileMenuOpen(!isMobileMenuOpen);
@@ -148,36 +161,37 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
                 <div className={styles.container}>
                     <div className={styles.logo}>
                       <a href="/" aria-label="Home" className={styles.logoContainer}>
-                        <img src={logo} alt="Company Logo" className={styles.logoImage} />
+                        <img src={logo} alt={`${STORE.name} logo`} className={styles.logoImage} />
                       </a>
 
-                      <a href="/" aria-label="YALLAH PHARMACY" className={styles.logoTextGroup}>
+                      <a href="/" aria-label={STORE.name} className={styles.logoTextGroup}>
                         <div className={styles.logoText}>
-                          <span className={styles.logoHealth}>YALLAH</span>
-                          <span className={styles.logoField}>PHARMACY</span>
+                          <span className={styles.logoHealth}>{BRAND_LEAD}</span>
+                          <span className={styles.logoField}>{BRAND_REST}</span>
                         </div>
-                        <span className={styles.logoTagline}>caring beyond drugs</span>
+                        <span className={styles.logoTagline}>{STORE.tagline.toLowerCase()}</span>
                       </a>
                     </div>
 
 
-              <form className={styles.searchBar} onSubmit={handleSearchSubmit}>
-                <input
-                  type="search"
-                  placeholder="Search for products, medicines..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className={styles.searchInput}
-                  aria-label="Search for products"
-                />
-                <button type="submit" className={styles.searchButton} aria-label="Search">
+              <SearchBox
+                className={styles.searchBar}
+                inputClassName={styles.searchInput}
+                buttonClassName={styles.searchButton}
+                placeholder="Search for products, medicines..."
+                onSearch={onSearch}
+              >
                   <svg width="22" height="22" viewBox="0 0 24 24" fill="none">
                     <path d="M21 21L16.65 16.65M19 11C19 15.4183 15.4183 19 11 19C6.58172 19 3 15.4183 3 11C3 6.58172 6.58172 3 11 3C15.4183 3 19 6.58172 19 11Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
                   </svg>
-                </button>
-              </form>
-
-              <div className={styles.deliverTo}>
+              </SearchBox>
+
+              <button
+                type="button"
+                className={styles.deliverTo}
+                onClick={() => setIsLocationPickerOpen(true)}
+                aria-label={`Deliver to ${deliveryLocation}. Change delivery location`}
+              >
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                   <path d="M12 2C8.13 2 5 5.13 5 9C5 14.25 12 22 12 22C12 22 19 14.25 19 9C19 5.13 15.87 2 12 2ZM12 11.5C10.62 11.5 9.5 10.38 9.5 9C9.5 7.62 10.62 6.5 12 6.5C13.38 6.5 14.5 7.62 14.5 9C14.5 10.38 13.38 11.5 12 11.5Z" fill="currentColor"/>
                 </svg>
@@ -185,7 +199,7 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
                   <span className={styles.deliverLabel}>Deliver to</span>
                   <span className={styles.locationName}>{deliveryLocation}</span>
                 </div>
-              </div>
+              </button>
 
               <div className={styles.headerActions}>
 
@@ -193,19 +207,39 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
                 <button
                 
                   className={styles.iconButton}
-                  aria-label="My Account"
-                  onClick={() => navigate("/login")}
+                  aria-label={accountLabel}
+                  title={accountLabel}
+                  onClick={() => navigate(accountPath)}
                 >
                   <User size={26} strokeWidth={2.2} />
                 </button>
 
+                {/* 🔔 Alerts Button */}
+                <button
+                  className={`${styles.iconButton} ${styles.wishlistButton}`}
+                  aria-label={`Alerts (${unreadCount} unread)`}
+                  onClick={() => navigate('/alerts')}
+                >
+                  <Bell size={26} strokeWidth={2.2} />
+                  {unreadCount > 0 && <span className={styles.cartBadge}>{unreadCount}</span>}
+                </button>
+
                 {/* ❤️ Wishlist Button */}
-                <button className={styles.iconButton} aria-label="Wishlist">
+                <button
+                  className={`${styles.iconButton} ${styles.wishlistButton}`}
+                  aria-label={`Wishlist (${wishlistCount} ${wishlistCount === 1 ? 'item' : 'items'})`}
+                  onClick={() => navigate('/wishlist')}
+                >
                   <Heart size={26} strokeWidth={2.2} />
+                  {wishlistCount > 0 && <span className={styles.cartBadge}>{wishlistCount}</span>}
                 </button>
 
                 {/* 🛒 Cart Button */}
-                <button className={styles.cartButton} aria-label="Shopping Cart">
+                <button
+                  className={styles.cartButton}
+                  aria-label={`Shopping Cart (${cartCount} ${cartCount === 1 ? 'item' : 'items'})`}
+                  onClick={openCart}
+                >
                   <ShoppingCart size={28} strokeWidth={2.2} />
                   {cartCount > 0 && <span className={styles.cartBadge}>{cartCount}</span>}
                 </button>
@@ -249,11 +283,11 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
                   </li>
                 ))}
               </ul>
-              <a href="tel:+254111054949" className={styles.phoneNumber}>
+              <a href={telHref(STORE.phones.main)} className={styles.phoneNumber}>
                 <svg width="18" height="18" viewBox="0 0 24 24" fill="none">
                   <path d="M3 5C3 3.89543 3.89543 3 5 3H8.27924C8.70967 3 9.09181 3.27543 9.22792 3.68377L10.7257 8.17721C10.8831 8.64932 10.6694 9.16531 10.2243 9.38787L7.96701 10.5165C9.06925 12.9612 11.0388 14.9308 13.4835 16.033L14.6121 13.7757C14.8347 13.3306 15.3507 13.1169 15.8228 13.2743L20.3162 14.7721C20.7246 14.9082 21 15.2903 21 15.7208V19C21 20.1046 20.1046 21 19 21H18C9.71573 21 3 14.2843 3 6V5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
                 </svg>
-                +254 111 054 949
+                {formatPhone(STORE.phones.main)}
               </a>
             </div>
           </nav>
@@ -274,25 +308,30 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
             </button>
 
             <div className={styles.mobileLogo}>
-              <a href="/" aria-label="Yallah Pharmacy">
+              <a href="/" aria-label={STORE.name}>
                 <span className={styles.logoText}>
-                  <span className={styles.logoHealth}>YALLAH</span>
-                  <span className={styles.logoField}>PHARMACY</span>
+                  <span className={styles.logoHealth}>{BRAND_LEAD}</span>
+                  <span className={styles.logoField}>{BRAND_REST}</span>
                 </span>
-                <span className={styles.logoTagline}>caring beyond drugs</span>
+                <span className={styles.logoTagline}>{STORE.tagline.toLowerCase()}</span>
               </a>
             </div>
 
                <button
                 
                   className={styles.iconButton}
-                  aria-label="My Account"
-                  onClick={() => navigate("/login")}
+                  aria-label={accountLabel}
+                  title={accountLabel}
+                  onClick={() => navigate(accountPath)}
                 >
                   <User size={26} strokeWidth={2.2} />
                 </button>
 
-            <button className={styles.mobileCartButton} aria-label="Shopping Cart">
+            <button
+              className={styles.mobileCartButton}
+              aria-label={`Shopping Cart (${cartCount} ${cartCount === 1 ? 'item' : 'items'})`}
+              onClick={openCart}
+            >
               <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
                 <path d="M3 3H5L5.4 5M7 13H17L21 5H5.4M7 13L5.4 5M7 13L4.70711 15.2929C4.07714 15.9229 4.52331 17 5.41421 17H17M17 17C15.8954 17 15 17.8954 15 19C15 20.1046 15.8954 21 17 21C18.1046 21 19 20.1046 19 19C19 17.8954 18.1046 17 17 17ZM9 19C9 20.1046 8.10457 21 7 21C5.89543 21 5 20.1046 5 19C5 17.8954 5.89543 17 7 17C8.10457 17 9 17.8954 9 19Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
               </svg>
@@ -300,21 +339,17 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
             </button>
           </div>
 
-          <form className={styles.mobileSearchBar} onSubmit={handleSearchSubmit}>
-            <input
-              type="search"
-              placeholder="Search for products"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className={styles.searchInput}
-              aria-label="Search for products"
-            />
-            <button type="submit" className={styles.searchButton} aria-label="Search">
+          <SearchBox
+            className={styles.mobileSearchBar}
+            inputClassName={styles.searchInput}
+            buttonClassName={styles.searchButton}
+            placeholder="Search for products"
+            onSearch={onSearch}
+          >
               <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                 <path d="M21 21L16.65 16.65M19 11C19 15.4183 15.4183 19 11 19C6.58172 19 3 15.4183 3 11C3 6.58172 6.58172 3 11 3C15.4183 3 19 6.58172 19 11Z" stroke="currentColor" strokeWidth="2"/>
               </svg>
-            </button>
-          </form>
+          </SearchBox>
 
           <div className={styles.mobileActionButtons}>
             <button className={styles.prescriptionButton}>
@@ -325,15 +360,21 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
             </button>
           </div>
 
-          <div className={styles.mobileDeliverTo}>
+          <button
+            type="button"
+            className={styles.mobileDeliverTo}
+            onClick={() => setIsLocationPickerOpen(true)}
+          >
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
               <path d="M12 2C8.13 2 5 5.13 5 9C5 14.25 12 22 12 22C12 22 19 14.25 19 9C19 5.13 15.87 2 12 2ZM12 11.5C10.62 11.5 9.5 10.38 9.5 9C9.5 7.62 10.62 6.5 12 6.5C13.38 6.5 14.5 7.62 14.5 9C14.5 10.38 13.38 11.5 12 11.5Z" fill="currentColor"/>
             </svg>
             <span>Deliver to <strong>{deliveryLocation}</strong></span>
-          </div>
+          </button>
         </div>
       </header>
 
+      <LocationPicker open={isLocationPickerOpen} onClose={closeLocationPicker} />
+
       {/* Mobile Menu Overlay */}
       {isMobileMenuOpen && (
         <div className={styles.menuOverlay}>
@@ -346,7 +387,15 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
                     <path d="M4 20C4 16.6863 6.68629 14 10 14H14C17.3137 14 20 16.6863 20 20" stroke="currentColor" strokeWidth="2"/>
                   </svg>
                 </div>
-                <span className={styles.userName}>My Account</span>
+                <button
+                  className={styles.userName}
+                  onClick={() => {
+                    setIsMobileMenuOpen(false);
+                    navigate(accountPath);
+                  }}
+                >
+                  {user ? `Hi, ${user.fullName.split(' ')[0]}` : 'Sign in / Register'}
+                </button>
               </div>
             </div>
 
@@ -390,11 +439,11 @@ const Header: React.FC<HeaderProps> = ({ onSearch }) => {
               </ul>
 
               <div className={styles.menuFooter}>
-                <a href="tel:+254111054949" className={styles.menuPhoneButton}>
+                <a href={telHref(STORE.phones.main)} className={styles.menuPhoneButton}>
                   <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                     <path d="M3 5C3 3.89543 3.89543 3 5 3H8.27924C8.70967 3 9.09181 3.27543 9.22792 3.68377L10.7257 8.17721C10.8831 8.64932 10.6694 9.16531 10.2243 9.38787L7.96701 10.5165C9.06925 12.9612 11.0388 14.9308 13.4835 16.033L14.6121 13.7757C14.8347 13.3306 15.3507 13.1169 15.8228 13.2743L20.3162 14.7721C20.7246 14.9082 21 15.2903 21 15.7208V19C21 20.1046 20.1046 21 19 21H18C9.71573 21 3 14.2843 3 6V5Z" stroke="currentColor" strokeWidth="2"/>
                   </svg>
-                  Call Us: +254 111 054 949
+                  Call Us: {formatPhone(STORE.phones.main)}
                 </a>
               </div>
             </nav>
@@ -84,6 +84,8 @@ const Navbar: React.FC = () => {
         links: [
           ["Upload Prescription", "/prescription/upload"],
           ["Request Prescription", "/prescription/refill"],
+          ["Track a Prescription", "/prescription/status"],
+          ["Repeat Medicines", "/prescription/repeat"],
           ["Talk to a Pharmacist", "/prescription/support"],
         ] as [string, string][],
       },
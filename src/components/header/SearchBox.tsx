@@ -0,0 +1,142 @@
+import { useId, useMemo, useState, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getProductPath, getSearchSuggestions, type Product } from '../../catalog';
+import { formatPrice } from '../../config';
+import styles from './SearchBox.module.css';
+
+interface SearchBoxProps {
+  className?: string;
+  inputClassName?: string;
+  buttonClassName?: string;
+  placeholder?: string;
+  /** Called with the submitted query, after navigating to `/search`. */
+  onSearch?: (query: string) => void;
+  /** Submit button content, usually the search icon. */
+  children: ReactNode;
+}
+
+/**
+ * Header search form with an autosuggest dropdown. Follows the ARIA
+ * combobox pattern: arrows move through suggestions, Enter opens the
+ * highlighted product (or the results page), Escape closes the list.
+ */
+const SearchBox: React.FC<SearchBoxProps> = ({
+  className,
+  inputClassName,
+  buttonClassName,
+  placeholder,
+  onSearch,
+  children,
+}) => {
+  const navigate = useNavigate();
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = useMemo(() => getSearchSuggestions(query), [query]);
+  const showList = isOpen && suggestions.length > 0;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const openProduct = (product: Product) => {
+    close();
+    setQuery('');
+    navigate(getProductPath(product));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (showList && activeIndex >= 0) {
+      openProduct(suggestions[activeIndex]);
+      return;
+    }
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    close();
+    navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+    onSearch?.(trimmed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        if (suggestions.length === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((i) => (i + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        if (suggestions.length === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+        break;
+      case 'Escape':
+        close();
+        break;
+    }
+  };
+
+  return (
+    <form className={className} onSubmit={handleSubmit} role="search">
+      <input
+        type="search"
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+        aria-label="Search for products"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={
+          showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined
+        }
+        autoComplete="off"
+      />
+      <button type="submit" className={buttonClassName} aria-label="Search">
+        {children}
+      </button>
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className={styles.suggestions}
+          // Keep focus in the input so blur doesn't close the list mid-click
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {suggestions.map((product, index) => (
+            <li
+              key={product.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`${styles.suggestion} ${index === activeIndex ? styles.active : ''}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => openProduct(product)}
+            >
+              <img src={product.image} alt="" className={styles.thumb} loading="lazy" />
+              <span className={styles.name}>{product.name}</span>
+              <span className={styles.price}>{formatPrice(product.price)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+};
+
+export default SearchBox;
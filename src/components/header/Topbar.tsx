@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
+import { STORE, splitBrandName } from "../../config";
 import styles from "./Topbar.module.css";
 
+const [BRAND_LEAD, BRAND_REST] = splitBrandName();
+
 const Topbar: React.FC = () => {
 
   const [isScrolled, setIsScrolled] = useState(false);
@@ -27,14 +30,14 @@ const Topbar: React.FC = () => {
       <div className={styles.navbarContainer}>
         {/* === Logo Section === */}
         <div className={styles.logoContainer}>
-          <Link to="/" className={styles.logoLink} aria-label="Healthfield Pharmacy Home">
+          <Link to="/" className={styles.logoLink} aria-label={`${STORE.name} Home`}>
             <div className={styles.logo}>
             <div className={styles.logoIcon}>
-              <img src="/logo.png" alt="Healthfield Pharmacy logo" className={styles.logoImage} />
+              <img src="/logo.png" alt={`${STORE.name} logo`} className={styles.logoImage} />
             </div>
              <div className={styles.logoText}>
-                <span className={styles.maplewood}>HEALTHFIELD</span>
-                <span className={styles.pharmacy}>PHARMACY</span>
+                <span className={styles.maplewood}>{BRAND_LEAD}</span>
+                <span className={styles.pharmacy}>{BRAND_REST}</span>
                 <span className={styles.tagline}>
                   Your Health, Our Mission — Reliable Care. Anytime
                 </span>
@@ -3,68 +3,31 @@ import React, { useState, memo } from "react";
 import { Link } from "react-router-dom";
 import { ShoppingCart } from "lucide-react";
 import { useCart } from "../context/CartContext";
+import {
+  getDiscountPercent,
+  getProductPath,
+  getProductsByCondition,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
 import toast from "react-hot-toast";
+import { formatPrice } from "../config";
 import styles from "./Offers.module.css";
 
-// === Example placeholder images (replace with your local product images later) ===
-import pic1 from "../assets/products/cerave-cleanser.png";
-import pic2 from "../assets/products/ordinary-serum.png";
-import pic3 from "../assets/products/laroche-moisturizer.png";
-import pic4 from "../assets/products/neutrogena-sunscreen.png";
-import pic5 from "../assets/products/tatcha-cream.png";
-import pic6 from "../assets/products/olay-retinol.png";
-import pic7 from "../assets/products/paulas-choice.png";
-import pic8 from "../assets/products/elf-hydrating.png";
-import pic9 from "../assets/products/innisfree-serum.png";
-import pic10 from "../assets/products/drunk-elephant.png";
-import pic11 from "../assets/products/fenty-cleanser.png";
-import pic12 from "../assets/products/aveeno-daily.png";
-import pic13 from "../assets/products/glow-recipe.png";
-import pic14 from "../assets/products/cosrx-snail.png";
-import pic15 from "../assets/products/first-aid-beauty.png";
+const offersData = getProductsByCondition("oral-hygiene");
 
-
-
-type Offer = {
-  id: string;
-  name: string;
-  image: string;
-  discount: number;
-  price: number;
-  oldPrice: number;
-};
-
-const offersData: Offer[] = [
-  { id: "1", name: "Colgate Total Whitening Toothpaste 120g", image: pic1, discount: 10, price: 650, oldPrice: 720 },
-  { id: "2", name: "Sensodyne Repair & Protect Toothpaste 100g", image: pic2, discount: 12, price: 950, oldPrice: 1080 },
-  { id: "3", name: "Oral-B Pro-Health Toothbrush (Medium Bristles)", image: pic3, discount: 10, price: 500, oldPrice: 560 },
-  { id: "4", name: "Listerine Cool Mint Mouthwash 500ml", image: pic4, discount: 15, price: 1100, oldPrice: 1290 },
-  { id: "5", name: "Colgate Plax Fresh Tea Mouthwash 500ml", image: pic5, discount: 10, price: 950, oldPrice: 1050 },
-  { id: "6", name: "Crest 3D White Brilliance Toothpaste 116g", image: pic6, discount: 10, price: 1200, oldPrice: 1340 },
-  { id: "7", name: "Oral-B Glide Pro-Health Dental Floss 40m", image: pic7, discount: 12, price: 650, oldPrice: 740 },
-  { id: "8", name: "Sensodyne Fresh Mint Toothpaste 100g", image: pic8, discount: 10, price: 900, oldPrice: 1000 },
-  { id: "9", name: "TheraBreath Fresh Breath Oral Rinse 473ml", image: pic9, discount: 8, price: 1650, oldPrice: 1790 },
-  { id: "10", name: "Colgate 360° Total Advanced Toothbrush", image: pic10, discount: 10, price: 700, oldPrice: 780 },
-  { id: "11", name: "Oral-B Electric Toothbrush Vitality CrossAction", image: pic11, discount: 12, price: 3800, oldPrice: 4300 },
-  { id: "12", name: "Crest Pro-Health Advanced Mouthwash 1L", image: pic12, discount: 10, price: 1450, oldPrice: 1600 },
-  { id: "13", name: "Colgate Optic White Renewal Toothpaste 85g", image: pic13, discount: 10, price: 1150, oldPrice: 1280 },
-  { id: "14", name: "Tom’s of Maine Fluoride-Free Toothpaste 100g", image: pic14, discount: 12, price: 1050, oldPrice: 1190 },
-  { id: "15", name: "GUM Soft-Picks Advanced Dental Picks (60 pack)", image: pic15, discount: 10, price: 850, oldPrice: 940 },
-];
-
-const OralCare: React.FC = memo(() => {
+const OralCare: React.FC<ListingPageProps> = memo(({ embedded }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const { addToCart } = useCart();
+  const listing = useListing(offersData, { enabled: !embedded });
 
-  const handleAddToCart = (offer: Offer) => {
-    addToCart({
-      id: offer.id,
-      name: offer.name,
-      price: offer.price,
-      image: offer.image,
-      quantity: 1,
-    });
-    toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
+  const handleAddToCart = (offer: Product) => {
+    if (addToCart(toCartItem(offer))) toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
   };
 
   const handleImageClick = (image: string) => {
@@ -82,10 +45,14 @@ const OralCare: React.FC = memo(() => {
         </Link>
       </div>
 
+      <ListingToolbar listing={listing} />
+
       <div className={styles.offersGrid}>
-        {offersData.map((offer) => (
+        {listing.items.map((offer) => (
           <div key={offer.id} className={styles.card}>
-            <div className={styles.discountTag}>-{offer.discount}%</div>
+            {getDiscountPercent(offer) > 0 && (
+              <div className={styles.discountTag}>-{getDiscountPercent(offer)}%</div>
+            )}
 
             <div className={styles.imageWrapper}>
               <img
@@ -104,17 +71,25 @@ const OralCare: React.FC = memo(() => {
             </div>
 
             <div className={styles.info}>
-              <p className={styles.name}>{offer.name}</p>
+              <p className={styles.name}>
+                <Link to={getProductPath(offer)} className={styles.nameLink}>
+                  {offer.name}
+                </Link>
+              </p>
               <div className={styles.prices}>
-                <span className={styles.newPrice}>KSh {offer.price.toLocaleString()}</span>
-                <span className={styles.oldPrice}>KSh {offer.oldPrice.toLocaleString()}</span>
+                <span className={styles.newPrice}>{formatPrice(offer.price)}</span>
+                {offer.originalPrice && (
+                  <span className={styles.oldPrice}>{formatPrice(offer.originalPrice)}</span>
+                )}
               </div>
+              <LowStockBadge product={offer} />
             </div>
 
             <div className={styles.actions}>
               <button
                 className={styles.addToCart}
                 onClick={() => handleAddToCart(offer)}
+                disabled={isSoldOut(offer)}
               >
                 <ShoppingCart size={18} strokeWidth={1.8} />
                 <span>Add to Cart</span>
@@ -123,6 +98,7 @@ const OralCare: React.FC = memo(() => {
           </div>
         ))}
       </div>
+      <ListingPagination listing={listing} />
 
       {selectedImage && (
         <div className={styles.modalOverlay} onClick={closeModal}>
@@ -3,61 +3,31 @@ import React, { useState, memo } from "react";
 import { Link } from "react-router-dom";
 import { ShoppingCart } from "lucide-react";
 import { useCart } from "../context/CartContext";
+import {
+  getDiscountPercent,
+  getProductPath,
+  getProductsByCondition,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
 import toast from "react-hot-toast";
+import { formatPrice } from "../config";
 import styles from "./Offers.module.css";
 
-// === Example placeholder images (replace with your local product images later) ===
-import pic1 from "../assets/products/Nitrofurantoin 100mg Capsules (Macrobid) - Google Search.png";
-import pic2 from "../assets/products/Trimethoprim-Sulfamethoxazole (Septrin DS).png";
-import pic3 from "../assets/products/Ciprofloxacin-500mg-Tablets.png";
-import pic4 from "../assets/products/Amoxicillin-Clavulanic Acid (Augmentin) 625mg.png";
-import pic5 from "../assets/products/Fosfomycin-trometamol-3g-sachet.png";
-import pic6 from "../assets/products/Cefuroxime Axetil 500mg Tablets.png";
-import pic7 from "../assets/products/Levofloxacin 500mg tablets.png";
-import pic8 from "../assets/products/Amoxicillin 500mg capsules.png";
-import pic9 from "../assets/products/cefalexin 500mg capsules.png";
-import pic10 from "../assets/products/Phenazopyridine 200mg Tablets (Uristat).png";
-import pic11 from "../assets/products/Doxycycline 100mg capsules.png";
-import pic12 from "../assets/products/Ofloxacin 200mg tablets.png";
+const offersData = getProductsByCondition("uti");
 
-type Offer = {
-  id: string;
-  name: string;
-  image: string;
-  discount: number;
-  price: number;
-  oldPrice: number;
-};
-
-const offersData: Offer[] = [
-  { id: "1", name: "Nitrofurantoin 100mg Capsules (Macrobid)", image: pic1, discount: 10, price: 750, oldPrice: 830 },
-  { id: "2", name: "Trimethoprim-Sulfamethoxazole (Septrin DS)", image: pic2, discount: 12, price: 650, oldPrice: 740 },
-  { id: "3", name: "Ciprofloxacin 500mg Tablets", image: pic3, discount: 15, price: 850, oldPrice: 1000 },
-  { id: "4", name: "Amoxicillin-Clavulanic Acid (Augmentin) 625mg", image: pic4, discount: 10, price: 1200, oldPrice: 1340 },
-  { id: "5", name: "Fosfomycin Trometamol 3g Sachet", image: pic5, discount: 8, price: 1350, oldPrice: 1470 },
-  { id: "6", name: "Cefuroxime Axetil 500mg Tablets", image: pic6, discount: 10, price: 1150, oldPrice: 1280 },
-  { id: "7", name: "Levofloxacin 500mg Tablets", image: pic7, discount: 15, price: 1050, oldPrice: 1230 },
-  { id: "8", name: "Amoxicillin 500mg Capsules", image: pic8, discount: 10, price: 450, oldPrice: 500 },
-  { id: "9", name: "Cefalexin 500mg Capsules", image: pic9, discount: 12, price: 700, oldPrice: 800 },
-  { id: "10", name: "Phenazopyridine 200mg Tablets (Uristat)", image: pic10, discount: 10, price: 950, oldPrice: 1050 },
-  { id: "11", name: "Doxycycline 100mg Capsules", image: pic11, discount: 10, price: 550, oldPrice: 610 },
-  { id: "12", name: "Ofloxacin 200mg Tablets", image: pic12, discount: 10, price: 650, oldPrice: 720 },
-];
-
-
-const UTI: React.FC = memo(() => {
+const UTI: React.FC<ListingPageProps> = memo(({ embedded }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const { addToCart } = useCart();
+  const listing = useListing(offersData, { enabled: !embedded });
 
-  const handleAddToCart = (offer: Offer) => {
-    addToCart({
-      id: offer.id,
-      name: offer.name,
-      price: offer.price,
-      image: offer.image,
-      quantity: 1,
-    });
-    toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
+  const handleAddToCart = (offer: Product) => {
+    if (addToCart(toCartItem(offer))) toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
   };
 
   const handleImageClick = (image: string) => {
@@ -75,10 +45,14 @@ const UTI: React.FC = memo(() => {
         </Link>
       </div>
 
+      <ListingToolbar listing={listing} />
+
       <div className={styles.offersGrid}>
-        {offersData.map((offer) => (
+        {listing.items.map((offer) => (
           <div key={offer.id} className={styles.card}>
-            <div className={styles.discountTag}>-{offer.discount}%</div>
+            {getDiscountPercent(offer) > 0 && (
+              <div className={styles.discountTag}>-{getDiscountPercent(offer)}%</div>
+            )}
 
             <div className={styles.imageWrapper}>
               <img
@@ -97,17 +71,25 @@ const UTI: React.FC = memo(() => {
             </div>
 
             <div className={styles.info}>
-              <p className={styles.name}>{offer.name}</p>
+              <p className={styles.name}>
+                <Link to={getProductPath(offer)} className={styles.nameLink}>
+                  {offer.name}
+                </Link>
+              </p>
               <div className={styles.prices}>
-                <span className={styles.newPrice}>KSh {offer.price.toLocaleString()}</span>
-                <span className={styles.oldPrice}>KSh {offer.oldPrice.toLocaleString()}</span>
+                <span className={styles.newPrice}>{formatPrice(offer.price)}</span>
+                {offer.originalPrice && (
+                  <span className={styles.oldPrice}>{formatPrice(offer.originalPrice)}</span>
+                )}
               </div>
+              <LowStockBadge product={offer} />
             </div>
 
             <div className={styles.actions}>
               <button
                 className={styles.addToCart}
                 onClick={() => handleAddToCart(offer)}
+                disabled={isSoldOut(offer)}
               >
                 <ShoppingCart size={18} strokeWidth={1.8} />
                 <span>Add to Cart</span>
@@ -116,6 +98,7 @@ const UTI: React.FC = memo(() => {
           </div>
         ))}
       </div>
+      <ListingPagination listing={listing} />
 
       {selectedImage && (
         <div className={styles.modalOverlay} onClick={closeModal}>
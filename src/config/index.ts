@@ -0,0 +1,17 @@
+// src/config/index.ts — store profile: name, contacts, address, hours, currency
+
+export type { OpeningHours, SocialNetwork, StoreConfig } from "./store";
+
+export {
+  formatHours,
+  formatPhone,
+  formatPrice,
+  loadStoreConfig,
+  splitBrandName,
+  splitPrice,
+  STORE,
+  StoreConfigError,
+  telHref,
+  validateStoreConfig,
+  whatsappUrl,
+} from "./store";
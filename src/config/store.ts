@@ -0,0 +1,227 @@
+// src/config/store.ts
+
+import defaults from "./store.json";
+
+/* ---------------------------------------------------------------
+   Shape
+--------------------------------------------------------------- */
+export interface OpeningHours {
+  /** Display label, e.g. "Mon–Fri" */
+  days: string;
+  /** 24h "HH:MM"; omit both for a closed day */
+  opens?: string;
+  closes?: string;
+}
+
+export type SocialNetwork = "facebook" | "instagram" | "tiktok" | "x" | "youtube";
+
+export interface StoreConfig {
+  name: string;
+  tagline: string;
+  /** Leads every order number, e.g. "HF" → HF-261019-AB12 */
+  orderPrefix: string;
+  phones: {
+    /** E.164, e.g. +254111054949 */
+    main: string;
+    emergency: string;
+  };
+  /** wa.me format — country code + number, digits only */
+  whatsapp: string;
+  email: {
+    info: string;
+    orders: string;
+  };
+  address: {
+    street: string;
+    city: string;
+    country: string;
+    mapsUrl: string;
+  };
+  hours: OpeningHours[];
+  currency: {
+    /** ISO 4217 */
+    code: string;
+    locale: string;
+  };
+  social: Partial<Record<SocialNetwork, string>>;
+}
+
+export class StoreConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid store config:\n  - ${problems.join("\n  - ")}`);
+    this.name = "StoreConfigError";
+    this.problems = problems;
+  }
+}
+
+/* ---------------------------------------------------------------
+   Validation
+--------------------------------------------------------------- */
+const E164 = /^\+\d{10,15}$/;
+const WA_NUMBER = /^\d{10,15}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CURRENCY = /^[A-Z]{3}$/;
+const ORDER_PREFIX = /^[A-Z]{2,4}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUrl = (value: unknown): boolean => {
+  if (typeof value !== "string") return false;
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/** Checks every field and reports all problems at once rather than the first. */
+export const validateStoreConfig = (raw: unknown): StoreConfig => {
+  const problems: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    if (!ok) problems.push(message);
+  };
+  const text = (value: unknown) => typeof value === "string" && value.trim().length > 0;
+  const matches = (value: unknown, re: RegExp) => typeof value === "string" && re.test(value);
+
+  if (!isRecord(raw)) throw new StoreConfigError(["config must be an object"]);
+  const { phones, email, address, hours, currency, social } = raw;
+
+  check(text(raw.name), "name is required");
+  check(typeof raw.tagline === "string", "tagline must be a string");
+  check(matches(raw.orderPrefix, ORDER_PREFIX), "orderPrefix must be 2–4 capital letters, e.g. HF");
+  check(matches(raw.whatsapp, WA_NUMBER), "whatsapp must be digits only with country code, e.g. 2547XXXXXXXX");
+
+  if (isRecord(phones)) {
+    check(matches(phones.main, E164), "phones.main must be E.164, e.g. +2547XXXXXXXX");
+    check(matches(phones.emergency, E164), "phones.emergency must be E.164, e.g. +2547XXXXXXXX");
+  } else problems.push("phones is required");
+
+  if (isRecord(email)) {
+    check(matches(email.info, EMAIL), "email.info must be an email address");
+    check(matches(email.orders, EMAIL), "email.orders must be an email address");
+  } else problems.push("email is required");
+
+  if (isRecord(address)) {
+    for (const key of ["street", "city", "country"] as const) check(text(address[key]), `address.${key} is required`);
+    check(isUrl(address.mapsUrl), "address.mapsUrl must be an https URL");
+  } else problems.push("address is required");
+
+  if (Array.isArray(hours) && hours.length > 0) {
+    hours.forEach((h: unknown, i) => {
+      if (!isRecord(h) || !text(h.days)) {
+        problems.push(`hours[${i}].days is required`);
+      } else if (h.opens !== undefined || h.closes !== undefined) {
+        // "HH:MM" strings compare correctly as text
+        check(
+          matches(h.opens, TIME) && matches(h.closes, TIME) && String(h.opens) < String(h.closes),
+          `hours[${i}] needs opens < closes as HH:MM`,
+        );
+      }
+    });
+  } else problems.push("hours must list at least one day");
+
+  if (isRecord(currency)) {
+    check(matches(currency.code, CURRENCY), "currency.code must be an ISO 4217 code, e.g. KES");
+    check(text(currency.locale), "currency.locale is required");
+  } else problems.push("currency is required");
+
+  if (isRecord(social)) {
+    for (const [network, url] of Object.entries(social)) check(isUrl(url), `social.${network} must be an https URL`);
+  } else if (social !== undefined) problems.push("social must be an object");
+
+  if (problems.length > 0) throw new StoreConfigError(problems);
+  return { ...(raw as unknown as StoreConfig), social: (social ?? {}) as StoreConfig["social"] };
+};
+
+/* ---------------------------------------------------------------
+   Loading — store.json, then env overrides
+
+     VITE_STORE_CONFIG     JSON object merged over store.json
+     VITE_STORE_NAME       name
+     VITE_STORE_PHONE      phones.main
+     VITE_WHATSAPP_NUMBER  whatsapp
+     VITE_STORE_EMAIL      email.info
+--------------------------------------------------------------- */
+type Env = Record<string, string | boolean | undefined>;
+
+/** Merges plain objects one level deep; arrays and scalars are replaced. */
+const merge = (base: Record<string, unknown>, patch: Record<string, unknown>) => {
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    out[key] = isRecord(value) && isRecord(base[key]) ? { ...base[key], ...value } : value;
+  }
+  return out;
+};
+
+export const loadStoreConfig = (env: Env = import.meta.env, base: unknown = defaults): StoreConfig => {
+  let config: Record<string, unknown> = isRecord(base) ? base : {};
+
+  const json = env.VITE_STORE_CONFIG;
+  if (typeof json === "string" && json.trim()) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new StoreConfigError(["VITE_STORE_CONFIG is not valid JSON"]);
+    }
+    if (!isRecord(parsed)) throw new StoreConfigError(["VITE_STORE_CONFIG must be a JSON object"]);
+    config = merge(config, parsed);
+  }
+
+  const str = (key: string) => (typeof env[key] === "string" && env[key] ? (env[key] as string) : undefined);
+  const overrides: Record<string, unknown> = {};
+  if (str("VITE_STORE_NAME")) overrides.name = str("VITE_STORE_NAME");
+  if (str("VITE_WHATSAPP_NUMBER")) overrides.whatsapp = str("VITE_WHATSAPP_NUMBER");
+  if (str("VITE_STORE_PHONE")) overrides.phones = { main: str("VITE_STORE_PHONE") };
+  if (str("VITE_STORE_EMAIL")) overrides.email = { info: str("VITE_STORE_EMAIL") };
+
+  return validateStoreConfig(merge(config, overrides));
+};
+
+/** The validated profile — evaluated once, so a bad config fails at startup. */
+export const STORE: Readonly<StoreConfig> = loadStoreConfig();
+
+/* ---------------------------------------------------------------
+   Helpers
+--------------------------------------------------------------- */
+
+/** "+254111054949" → "+254 111 054 949" */
+export const formatPhone = (phone: string): string =>
+  phone.replace(/^(\+\d{3})(\d{3})(\d{3})(\d+)$/, "$1 $2 $3 $4");
+
+/** "Healthfield Pharmacy" → ["HEALTHFIELD", "PHARMACY"] for the two-tone logo. */
+export const splitBrandName = (name: string = STORE.name): [string, string] => {
+  const [lead, ...rest] = name.toUpperCase().split(/\s+/);
+  return [lead, rest.join(" ")];
+};
+
+export const telHref = (phone: string): string => `tel:${phone}`;
+
+export const whatsappUrl = (text?: string, number: string = STORE.whatsapp): string =>
+  `https://wa.me/${number}${text ? `?text=${encodeURIComponent(text)}` : ""}`;
+
+export const formatHours = ({ opens, closes }: OpeningHours): string =>
+  opens && closes ? `${opens}–${closes}` : "Closed";
+
+const priceFormat = new Intl.NumberFormat(STORE.currency.locale, {
+  style: "currency",
+  currency: STORE.currency.code,
+  minimumFractionDigits: 0,
+});
+
+export const formatPrice = (amount: number): string => priceFormat.format(amount);
+
+/** 1250 → ["Ksh", "1,250"] for cards that style the currency apart from the amount. */
+export const splitPrice = (amount: number): [string, string] => {
+  const parts = priceFormat.formatToParts(amount);
+  const currency = parts.find((part) => part.type === "currency")?.value ?? STORE.currency.code;
+  const value = parts
+    .filter((part) => part.type !== "currency" && part.type !== "literal")
+    .map((part) => part.value)
+    .join("");
+  return [currency, value];
+};
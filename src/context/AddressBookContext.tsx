@@ -0,0 +1,267 @@
+// src/context/AddressBookContext.tsx
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import type { ReactNode } from "react";
+
+import { accountStorageKey } from "../auth";
+import {
+  getZoneForAddress,
+  isSameAddress,
+  MAX_SAVED_ADDRESSES,
+  normalizeAddress,
+  sanitizeAddresses,
+  type AddressInput,
+  type DeliveryZone,
+  type SavedAddress,
+} from "../delivery";
+import { useAuth } from "./AuthContext";
+
+/**
+ * Type definitions
+ *
+ * The selected address is the header's "Deliver to" — it sets the
+ * zone for delivery fees and availability, and starts checkout.
+ */
+interface AddressBookState {
+  addresses: SavedAddress[];
+  selectedId: string | null;
+}
+
+type Action =
+  | { type: "INIT"; payload: AddressBookState }
+  | { type: "SAVE"; payload: { address: SavedAddress; select: boolean } }
+  | { type: "REMOVE"; payload: { id: string } }
+  | { type: "SELECT"; payload: { id: string } };
+
+/**
+ * Public context API
+ */
+interface AddressBookContextType {
+  addresses: SavedAddress[];
+  selectedAddress: SavedAddress | null;
+  /** Zone of the selected address; null until one is chosen */
+  selectedZone: DeliveryZone | null;
+  /**
+   * Adds an address, or updates the one with `id`. An address already
+   * in the book is reused rather than saved twice.
+   */
+  saveAddress: (input: AddressInput, options?: { id?: string; select?: boolean }) => SavedAddress;
+  removeAddress: (id: string) => void;
+  selectAddress: (id: string) => void;
+  /** Room for another address */
+  canAddAddress: boolean;
+}
+
+const AddressBookContext = createContext<AddressBookContextType | undefined>(undefined);
+
+const STORAGE_KEY = "address_book_v1"; // bump version if shape changes; suffixed per signed-in user
+
+const EMPTY: AddressBookState = { addresses: [], selectedId: null };
+
+const newAddressId = () => `addr_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/** Well-formed addresses, and a selection that points at one of them. */
+const sanitize = (value: unknown): AddressBookState => {
+  if (typeof value !== "object" || value === null) return EMPTY;
+  const raw = value as Partial<AddressBookState>;
+  const addresses = sanitizeAddresses(raw.addresses).slice(0, MAX_SAVED_ADDRESSES);
+  const selectedId = addresses.some((a) => a.id === raw.selectedId) ? raw.selectedId! : (addresses[0]?.id ?? null);
+  return { addresses, selectedId };
+};
+
+/**
+ * A guest's addresses joining an account's book: new places are added,
+ * ones the account already has are skipped, and the account keeps its
+ * own selection when it has one.
+ */
+const mergeBooks = (saved: AddressBookState, guest: AddressBookState): AddressBookState => {
+  const extra = guest.addresses.filter((g) => !saved.addresses.some((a) => a.id === g.id || isSameAddress(a, g)));
+  return sanitize({
+    addresses: [...saved.addresses, ...extra],
+    selectedId: saved.selectedId ?? guest.selectedId,
+  });
+};
+
+/**
+ * Reducer: pure state transitions
+ */
+const reducer = (state: AddressBookState, action: Action): AddressBookState => {
+  switch (action.type) {
+    case "INIT":
+      return action.payload;
+
+    case "SAVE": {
+      const { address, select } = action.payload;
+      const exists = state.addresses.some((a) => a.id === address.id);
+      const addresses = exists
+        ? state.addresses.map((a) => (a.id === address.id ? address : a))
+        : [...state.addresses, address].slice(-MAX_SAVED_ADDRESSES);
+      return { addresses, selectedId: select || !state.selectedId ? address.id : state.selectedId };
+    }
+
+    case "REMOVE": {
+      const addresses = state.addresses.filter((a) => a.id !== action.payload.id);
+      const selectedId = state.selectedId === action.payload.id ? (addresses[0]?.id ?? null) : state.selectedId;
+      return { addresses, selectedId };
+    }
+
+    case "SELECT":
+      if (!state.addresses.some((a) => a.id === action.payload.id)) return state;
+      return { ...state, selectedId: action.payload.id };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Provider — must sit inside AuthProvider; each account has its own
+ * address book.
+ */
+export const AddressBookProvider = ({ children }: { children: ReactNode }) => {
+  const isBrowser = typeof window !== "undefined" && !!window.localStorage;
+  const { user } = useAuth();
+  const storageKey = accountStorageKey(STORAGE_KEY, user?.id);
+
+  const [state, dispatch] = useReducer(reducer, EMPTY);
+
+  // Ref used for debounced localStorage writes
+  const saveTimerRef = useRef<number | null>(null);
+
+  // Whose book is loaded, so signing in can carry the guest one over
+  const loadedKeyRef = useRef<string | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Initialize from storage — again whenever someone signs in or out
+  useEffect(() => {
+    if (!isBrowser) return;
+    const previousKey = loadedKeyRef.current;
+    loadedKeyRef.current = storageKey;
+    const carried = previousKey === STORAGE_KEY && storageKey !== STORAGE_KEY ? stateRef.current : EMPTY;
+
+    let saved = EMPTY;
+    try {
+      const raw = localStorage.getItem(storageKey);
+      saved = raw ? sanitize(JSON.parse(raw)) : EMPTY;
+    } catch (err) {
+      console.warn("Address book: failed to read from localStorage:", err);
+    }
+    dispatch({ type: "INIT", payload: mergeBooks(saved, carried) });
+
+    // The guest's addresses now live in the account
+    if (carried.addresses.length) {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // They merge again on the next sign-in, which is harmless
+      }
+    }
+  }, [isBrowser, storageKey]);
+
+  // Persist to localStorage (debounced)
+  useEffect(() => {
+    if (!isBrowser) return;
+    if (saveTimerRef.current) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(() => {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(state));
+      } catch (err) {
+        console.error("Address book: failed to write to localStorage:", err);
+      } finally {
+        saveTimerRef.current = null;
+      }
+    }, 300);
+
+    return () => {
+      if (saveTimerRef.current) {
+        window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    };
+  }, [state, isBrowser, storageKey]);
+
+  // Cross-tab sync: update state when another tab modifies the book
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== storageKey) return;
+      try {
+        dispatch({ type: "INIT", payload: e.newValue ? sanitize(JSON.parse(e.newValue)) : EMPTY });
+      } catch (err) {
+        console.warn("Address book: failed to parse storage event value", err);
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [isBrowser, storageKey]);
+
+  /**
+   * Public API helpers
+   */
+  const selectedAddress = useMemo(
+    () => state.addresses.find((a) => a.id === state.selectedId) ?? null,
+    [state.addresses, state.selectedId]
+  );
+
+  const selectedZone = useMemo(
+    () => (selectedAddress ? getZoneForAddress(selectedAddress) : null),
+    [selectedAddress]
+  );
+
+  const saveAddress = useCallback(
+    (input: AddressInput, { id, select = false }: { id?: string; select?: boolean } = {}) => {
+      const fields = normalizeAddress(input);
+      const duplicate = id ? undefined : stateRef.current.addresses.find((a) => isSameAddress(a, fields));
+      const address: SavedAddress = { ...fields, id: id ?? duplicate?.id ?? newAddressId() };
+      dispatch({ type: "SAVE", payload: { address, select } });
+      return address;
+    },
+    []
+  );
+
+  const removeAddress = useCallback((id: string) => {
+    dispatch({ type: "REMOVE", payload: { id } });
+  }, []);
+
+  const selectAddress = useCallback((id: string) => {
+    dispatch({ type: "SELECT", payload: { id } });
+  }, []);
+
+  const canAddAddress = state.addresses.length < MAX_SAVED_ADDRESSES;
+
+  // Memoize context value to avoid re-renders
+  const value = useMemo(
+    (): AddressBookContextType => ({
+      addresses: state.addresses,
+      selectedAddress,
+      selectedZone,
+      saveAddress,
+      removeAddress,
+      selectAddress,
+      canAddAddress,
+    }),
+    [state.addresses, selectedAddress, selectedZone, saveAddress, removeAddress, selectAddress, canAddAddress]
+  );
+
+  return <AddressBookContext.Provider value={value}>{children}</AddressBookContext.Provider>;
+};
+
+/**
+ * Hook
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useAddressBook = (): AddressBookContextType => {
+  const ctx = useContext(AddressBookContext);
+  if (!ctx) throw new Error("useAddressBook must be used within an AddressBookProvider");
+  return ctx;
+};
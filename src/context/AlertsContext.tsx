@@ -0,0 +1,148 @@
+// src/context/AlertsContext.tsx
+import { createContext, useContext, useEffect, useCallback, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import toast from "react-hot-toast";
+
+import {
+  checkAlerts,
+  listNotifications,
+  listSubscriptions,
+  markNotificationsRead,
+  NOTIFICATIONS_KEY,
+  subscribe as saveSubscription,
+  SUBSCRIPTIONS_KEY,
+  unsubscribe as removeSubscription,
+  type AlertInput,
+  type AlertKind,
+  type AlertNotification,
+  type AlertSubscription,
+} from "../alerts";
+import { useAuth } from "./AuthContext";
+
+/**
+ * Public context API
+ */
+interface AlertsContextType {
+  subscriptions: AlertSubscription[];
+  /** Newest first */
+  notifications: AlertNotification[];
+  unreadCount: number;
+  /** Throws AlertError when the alert can't be set */
+  subscribe: (input: Omit<AlertInput, "accountId">) => AlertSubscription;
+  unsubscribe: (id: string) => void;
+  getSubscription: (kind: AlertKind, productId: string) => AlertSubscription | undefined;
+  markAllRead: () => void;
+}
+
+const AlertsContext = createContext<AlertsContextType | undefined>(undefined);
+
+/** How often alerts are checked against the catalog while the app is open. */
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Provider — must sit inside AuthProvider; guests see the alerts set
+ * up on this device while signed out.
+ */
+export const AlertsProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const accountId = user?.id;
+  const [subscriptions, setSubscriptions] = useState<AlertSubscription[]>([]);
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+
+  const refresh = useCallback(() => {
+    setSubscriptions(listSubscriptions(accountId));
+    setNotifications(listNotifications(accountId));
+  }, [accountId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Check on load, every few minutes, and whenever the tab comes back
+  useEffect(() => {
+    let active = true;
+    const run = () => {
+      checkAlerts()
+        .then((raised) => {
+          if (!active) return;
+          for (const note of raised) {
+            if (note.accountId === accountId) toast(note.title, { icon: "🔔", duration: 8000 });
+          }
+          if (raised.length) refresh();
+        })
+        .catch((err) => console.warn("Alerts: check failed", err));
+    };
+    const onVisible = () => document.visibilityState === "visible" && run();
+
+    run();
+    const timer = window.setInterval(run, CHECK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      active = false;
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [accountId, refresh]);
+
+  // Cross-tab sync
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === SUBSCRIPTIONS_KEY || e.key === NOTIFICATIONS_KEY) refresh();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [refresh]);
+
+  const subscribe = useCallback(
+    (input: Omit<AlertInput, "accountId">) => {
+      const saved = saveSubscription({ ...input, accountId });
+      refresh();
+      return saved;
+    },
+    [accountId, refresh]
+  );
+
+  const unsubscribe = useCallback(
+    (id: string) => {
+      removeSubscription(id);
+      refresh();
+    },
+    [refresh]
+  );
+
+  const getSubscription = useCallback(
+    (kind: AlertKind, productId: string) =>
+      subscriptions.find((s) => s.kind === kind && s.productId === productId),
+    [subscriptions]
+  );
+
+  const markAllRead = useCallback(() => {
+    markNotificationsRead(accountId);
+    refresh();
+  }, [accountId, refresh]);
+
+  const value = useMemo(
+    (): AlertsContextType => ({
+      subscriptions,
+      notifications,
+      unreadCount: notifications.filter((n) => !n.read).length,
+      subscribe,
+      unsubscribe,
+      getSubscription,
+      markAllRead,
+    }),
+    [subscriptions, notifications, subscribe, unsubscribe, getSubscription, markAllRead]
+  );
+
+  return <AlertsContext.Provider value={value}>{children}</AlertsContext.Provider>;
+};
+
+/**
+ * Hook
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useAlerts = (): AlertsContextType => {
+  const ctx = useContext(AlertsContext);
+  if (!ctx) throw new Error("useAlerts must be used within an AlertsProvider");
+  return ctx;
+};
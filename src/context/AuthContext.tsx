@@ -0,0 +1,213 @@
+// src/context/AuthContext.tsx
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import type { ReactNode } from "react";
+import toast from "react-hot-toast";
+
+import {
+  AuthError,
+  getAuthAdapter,
+  parseSession,
+  SESSION_STORAGE_KEY,
+  type OtpChallenge,
+  type PasswordLogin,
+  type ProfileUpdate,
+  type RegisterInput,
+  type Session,
+  type User,
+} from "../auth";
+
+/**
+ * Public context API
+ *
+ * Every action resolves with the signed-in user or rejects with an
+ * AuthError whose message can be shown as is.
+ */
+interface AuthContextType {
+  user: User | null;
+  /** True until a saved session has been confirmed with the server */
+  verifying: boolean;
+  register: (input: RegisterInput) => Promise<User>;
+  login: (input: PasswordLogin) => Promise<User>;
+  /** Texts a one-time code to the account with this phone number. */
+  requestOtp: (phone: string) => Promise<OtpChallenge>;
+  verifyOtp: (challengeId: string, code: string) => Promise<User>;
+  requestPasswordReset: (identifier: string) => Promise<OtpChallenge>;
+  /** Sets the new password and signs in. */
+  resetPassword: (challengeId: string, code: string, password: string) => Promise<User>;
+  updateProfile: (update: ProfileUpdate) => Promise<User>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+const isUnauthorized = (err: unknown) => err instanceof AuthError && err.code === "unauthorized";
+
+/**
+ * Provider — sits outside the cart, wishlist and refill providers,
+ * which keep their data per signed-in user.
+ */
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const isBrowser = typeof window !== "undefined" && !!window.localStorage;
+
+  // Read synchronously so account-scoped data loads for the right user on first render
+  const [session, setSession] = useState<Session | null>(() =>
+    isBrowser ? parseSession(localStorage.getItem(SESSION_STORAGE_KEY)) : null
+  );
+  const [verifying, setVerifying] = useState(session !== null);
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const persist = useCallback(
+    (next: Session | null) => {
+      setSession(next);
+      if (!isBrowser) return;
+      try {
+        if (next) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+        else localStorage.removeItem(SESSION_STORAGE_KEY);
+      } catch (err) {
+        console.error("Auth: failed to write to localStorage:", err);
+      }
+    },
+    [isBrowser]
+  );
+
+  // Confirm the saved session once; offline, the saved user stands until the next visit
+  useEffect(() => {
+    const saved = sessionRef.current;
+    if (!saved) return;
+    let active = true;
+    getAuthAdapter()
+      .getUser(saved.token)
+      .then((user) => {
+        if (active) persist({ ...saved, user });
+      })
+      .catch((err: unknown) => {
+        if (!active) return;
+        if (isUnauthorized(err)) {
+          persist(null);
+          toast("Your session ended — please sign in again.", { icon: "🔒" });
+        } else {
+          console.warn("Auth: couldn't confirm the saved session", err);
+        }
+      })
+      .finally(() => {
+        if (active) setVerifying(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [persist]);
+
+  // Cross-tab sync: signing in or out in one tab does so in all of them
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== SESSION_STORAGE_KEY) return;
+      setSession(parseSession(e.newValue));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [isBrowser]);
+
+  /**
+   * Public API helpers
+   */
+  const signIn = useCallback(
+    (next: Session) => {
+      persist(next);
+      return next.user;
+    },
+    [persist]
+  );
+
+  const register = useCallback(
+    (input: RegisterInput) => getAuthAdapter().register(input).then(signIn),
+    [signIn]
+  );
+
+  const login = useCallback((input: PasswordLogin) => getAuthAdapter().login(input).then(signIn), [signIn]);
+
+  const requestOtp = useCallback((phone: string) => getAuthAdapter().requestOtp(phone), []);
+
+  const verifyOtp = useCallback(
+    (challengeId: string, code: string) => getAuthAdapter().verifyOtp(challengeId, code).then(signIn),
+    [signIn]
+  );
+
+  const requestPasswordReset = useCallback(
+    (identifier: string) => getAuthAdapter().requestPasswordReset(identifier),
+    []
+  );
+
+  const resetPassword = useCallback(
+    (challengeId: string, code: string, password: string) =>
+      getAuthAdapter().resetPassword(challengeId, code, password).then(signIn),
+    [signIn]
+  );
+
+  const updateProfile = useCallback(
+    async (update: ProfileUpdate) => {
+      const current = sessionRef.current;
+      if (!current) throw new AuthError("Sign in to update your details.", "unauthorized");
+      try {
+        const user = await getAuthAdapter().updateProfile(current.token, update);
+        persist({ ...current, user });
+        return user;
+      } catch (err) {
+        if (isUnauthorized(err)) persist(null);
+        throw err;
+      }
+    },
+    [persist]
+  );
+
+  const logout = useCallback(async () => {
+    const current = sessionRef.current;
+    persist(null);
+    if (!current) return;
+    try {
+      await getAuthAdapter().logout(current.token);
+    } catch (err) {
+      // Signed out here either way; the server session just runs out
+      console.warn("Auth: sign-out didn't reach the server", err);
+    }
+  }, [persist]);
+
+  // Memoize context value to avoid re-renders
+  const user = session?.user ?? null;
+  const value = useMemo(
+    (): AuthContextType => ({
+      user,
+      verifying,
+      register,
+      login,
+      requestOtp,
+      verifyOtp,
+      requestPasswordReset,
+      resetPassword,
+      updateProfile,
+      logout,
+    }),
+    [user, verifying, register, login, requestOtp, verifyOtp, requestPasswordReset, resetPassword, updateProfile, logout]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+/**
+ * Hook
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useAuth = (): AuthContextType => {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used within an AuthProvider");
+  return ctx;
+};
@@ -15,6 +15,21 @@ import  type {
   ReactNode,
 
 } from "react";
+import toast from "react-hot-toast";
+import { getProductById } from "../catalog";
+import { accountStorageKey } from "../auth";
+import { getOrderAdapter } from "../orders/service";
+import { checkCartStock, getLineAvailable, type StockIssue } from "../inventory";
+import {
+  checkCoupon,
+  getNextSaleChange,
+  normalizeCode,
+  priceCart,
+  recordRedemptions,
+  type AppliedPromotion,
+  type CartPricing,
+} from "../promotions";
+import { useAuth } from "./AuthContext";
 
 /**
  * Type definitions
@@ -32,6 +47,20 @@ export interface CartItem {
   inStock?: boolean;
   originalPrice?: number;
   discount?: number;
+  /** Prescription-only line — can't be checked out until `prescription` is set */
+  requiresPrescription?: boolean;
+  prescription?: CartPrescription;
+  /** Prescription whose pharmacist quote set this line's price */
+  quoteReference?: string;
+}
+
+/**
+ * Prescription on file for a line: "attached" once the customer uploads
+ * one (held for pharmacist review), "approved" once a pharmacist clears it.
+ */
+export interface CartPrescription {
+  reference: string;
+  status: "attached" | "approved";
 }
 
 interface CartState {
@@ -45,33 +74,96 @@ type Action =
   | { type: "CLEAR" }
   | { type: "UPDATE_QTY"; payload: { id: string; quantity: number } }
   | { type: "INCREASE_QTY"; payload: { id: string; delta?: number } }
-  | { type: "DECREASE_QTY"; payload: { id: string; delta?: number } };
+  | { type: "DECREASE_QTY"; payload: { id: string; delta?: number } }
+  | { type: "FIT_TO_STOCK" }
+  | { type: "ADD_QUOTED"; payload: CartItem[] }
+  | { type: "ATTACH_PRESCRIPTION"; payload: { ids: string[]; reference: string } }
+  | { type: "APPROVE_PRESCRIPTION"; payload: { reference: string } };
 
 /**
  * Public context API
  */
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (item: CartItem) => void;
+  /** False when stock kept some of it out — the customer has already been told */
+  addToCart: (item: CartItem) => boolean;
   removeFromCart: (id: string) => void;
   clearCart: () => void;
-  updateQuantity: (id: string, quantity: number) => void;
+  /** False when stock capped the line below `quantity`, as for addToCart */
+  updateQuantity: (id: string, quantity: number) => boolean;
   increaseQty: (id: string, delta?: number) => void;
   decreaseQty: (id: string, delta?: number) => void;
   getCartTotal: () => number;
   getTotalItems: () => number;
+  /** Prescription-only lines with nothing on file yet — these block checkout */
+  getItemsNeedingPrescription: () => CartItem[];
+  /** Lines asking for more than is left — these block checkout */
+  stockIssues: StockIssue[];
+  /** Cuts those lines down to what's left, dropping sold-out ones */
+  fitCartToStock: () => void;
+  /**
+   * Puts a pharmacist's quote in the cart at the quoted prices and
+   * quantities, replacing lines already there. All or nothing: returns
+   * the lines stock can't cover, and adds none of them if there are any.
+   */
+  addQuotedItems: (items: CartItem[]) => StockIssue[];
+  /** Promotions applied to the cart, line by line; `getCartTotal` stays the pre-discount subtotal */
+  pricing: CartPricing;
+  couponCode: string | null;
+  /** Why the entered code isn't taking anything off, if it isn't */
+  couponProblem: string | null;
+  /** Throws PromotionError when the code can't be used */
+  applyCoupon: (code: string) => void;
+  removeCoupon: () => void;
+  /** Counts the order's promotions and flash-sale units against their limits */
+  redeemPromotions: (discounts: AppliedPromotion[]) => void;
+  attachPrescription: (ids: string[], reference: string) => void;
+  approvePrescription: (reference: string) => void;
   openCart: () => void;          // 👈 added
   closeCart: () => void;         // 👈 optional
   isCartOpen: boolean;           // 👈 optional state
-  
+  cartPreview: CartItem | null;  // item shown in the mini-cart popover
+  showCartPreview: (item: CartItem) => void;
+  hideCartPreview: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const STORAGE_KEY = "cart_items_v1"; // bump version if shape changes
+const STORAGE_KEY = "cart_items_v1"; // bump version if shape changes; suffixed per signed-in user
+
+/**
+ * Normalises a line from storage or a caller: whole quantity >= 1, and the
+ * prescription flag taken from the catalog so an old or hand-built item
+ * can't skip the prescription check.
+ */
+const sanitizeItem = (item: CartItem): CartItem => {
+  const requiresPrescription =
+    getProductById(item.id)?.requiresPrescription ?? item.requiresPrescription;
+  const { prescription, ...rest } = item;
+  return {
+    ...rest,
+    quantity: Math.max(1, Math.trunc(item.quantity || 1)),
+    ...(requiresPrescription && { requiresPrescription: true }),
+    ...(requiresPrescription && prescription && { prescription }),
+  };
+};
 
 /**
- * Reducer: pure state transitions
+ * A guest cart joining an account's saved one: where both have a line,
+ * the larger quantity wins, so merging twice doesn't double anything.
+ */
+const mergeItems = (saved: CartItem[], guest: CartItem[]): CartItem[] => {
+  const byId = new Map(saved.map((item) => [item.id, item]));
+  for (const item of guest) {
+    const existing = byId.get(item.id);
+    byId.set(item.id, existing && existing.quantity >= item.quantity ? existing : { ...existing, ...item });
+  }
+  return [...byId.values()];
+};
+
+/**
+ * Reducer: pure state transitions. Adding never takes a line past the
+ * stock left; lines already over it are reported by checkCartStock.
  */
 const reducer = (state: CartState, action: Action): CartState => {
   switch (action.type) {
@@ -81,14 +173,15 @@ const reducer = (state: CartState, action: Action): CartState => {
     case "ADD": {
       const item = action.payload;
       const existing = state.items.find((i) => i.id === item.id);
+      const available = getLineAvailable(existing ?? item);
       if (existing) {
+        const quantity = Math.max(existing.quantity, Math.min(existing.quantity + item.quantity, available));
         return {
-          items: state.items.map((i) =>
-            i.id === item.id ? { ...i, quantity: i.quantity + item.quantity } : i
-          ),
+          items: state.items.map((i) => (i.id === item.id ? { ...i, quantity } : i)),
         };
       }
-      return { items: [...state.items, item] };
+      if (available < 1) return state;
+      return { items: [...state.items, { ...item, quantity: Math.min(item.quantity, available) }] };
     }
 
     case "REMOVE":
@@ -104,7 +197,9 @@ const reducer = (state: CartState, action: Action): CartState => {
         return state;
       }
       return {
-        items: state.items.map((i) => (i.id === id ? { ...i, quantity } : i)),
+        items: state.items.map((i) =>
+          i.id === id ? { ...i, quantity: Math.max(1, Math.min(quantity, getLineAvailable(i))) } : i
+        ),
       };
     }
 
@@ -112,7 +207,15 @@ const reducer = (state: CartState, action: Action): CartState => {
       const { id, delta = 1 } = action.payload;
       return {
         items: state.items.map((i) =>
-          i.id === id ? { ...i, quantity: i.quantity + Math.max(1, Math.trunc(delta)) } : i
+          i.id === id
+            ? {
+                ...i,
+                quantity: Math.max(
+                  i.quantity,
+                  Math.min(i.quantity + Math.max(1, Math.trunc(delta)), getLineAvailable(i))
+                ),
+              }
+            : i
         ),
       };
     }
@@ -126,16 +229,55 @@ const reducer = (state: CartState, action: Action): CartState => {
       };
     }
 
+    case "FIT_TO_STOCK":
+      return {
+        items: state.items.flatMap((i) => {
+          const available = getLineAvailable(i);
+          return available < 1 ? [] : [{ ...i, quantity: Math.min(i.quantity, available) }];
+        }),
+      };
+
+    case "ADD_QUOTED": {
+      const quoted = new Map(action.payload.map((item) => [item.id, item]));
+      const kept = state.items.map((i) => quoted.get(i.id) ?? i);
+      const added = action.payload.filter((item) => !state.items.some((i) => i.id === item.id));
+      return { items: [...kept, ...added] };
+    }
+
+    case "ATTACH_PRESCRIPTION": {
+      const { ids, reference } = action.payload;
+      return {
+        items: state.items.map((i) =>
+          i.requiresPrescription && ids.includes(i.id)
+            ? { ...i, prescription: { reference, status: "attached" } }
+            : i
+        ),
+      };
+    }
+
+    case "APPROVE_PRESCRIPTION": {
+      const { reference } = action.payload;
+      return {
+        items: state.items.map((i) =>
+          i.prescription?.reference === reference
+            ? { ...i, prescription: { reference, status: "approved" } }
+            : i
+        ),
+      };
+    }
+
     default:
       return state;
   }
 };
 
 /**
- * Provider
+ * Provider — must sit inside AuthProvider; each account has its own cart.
  */
 export const CartProvider = ({ children }: { children: ReactNode }) => {
   const isBrowser = typeof window !== "undefined" && !!window.localStorage;
+  const { user } = useAuth();
+  const storageKey = accountStorageKey(STORAGE_KEY, user?.id);
 
   // lazy init: read from localStorage safely
   const initialState: CartState = { items: [] };
@@ -144,30 +286,42 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   // Ref used for debounced localStorage writes
   const saveTimerRef = useRef<number | null>(null);
 
-  // Initialize once from storage
+  // Whose cart is loaded, so signing in can carry the guest cart over
+  const loadedKeyRef = useRef<string | null>(null);
+  const itemsRef = useRef(state.items);
+  itemsRef.current = state.items;
+
+  // Initialize from storage — again whenever someone signs in or out
   useEffect(() => {
     if (!isBrowser) return;
+    const previousKey = loadedKeyRef.current;
+    loadedKeyRef.current = storageKey;
+    const carried = previousKey === STORAGE_KEY && storageKey !== STORAGE_KEY ? itemsRef.current : [];
+
+    let saved: CartItem[] = [];
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) {
-        dispatch({ type: "INIT", payload: [] });
-        return;
-      }
-      const parsed = JSON.parse(raw) as CartItem[];
-      if (!Array.isArray(parsed)) {
+      const raw = localStorage.getItem(storageKey);
+      const parsed = raw ? (JSON.parse(raw) as CartItem[]) : [];
+      if (Array.isArray(parsed)) {
+        // ensure quantities are integers >= 1 and prescription flags are current
+        saved = parsed.map(sanitizeItem);
+      } else {
         console.warn("Cart: stored data invalid, resetting.");
-        dispatch({ type: "INIT", payload: [] });
-        return;
       }
-      // ensure quantities are integers >= 1
-      const safe = parsed.map((p) => ({ ...p, quantity: Math.max(1, Math.trunc(p.quantity || 1)) }));
-      dispatch({ type: "INIT", payload: safe });
     } catch (err) {
       console.warn("Cart: failed to read from localStorage:", err);
-      dispatch({ type: "INIT", payload: [] });
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    dispatch({ type: "INIT", payload: mergeItems(saved, carried) });
+
+    // The guest cart now lives in the account
+    if (carried.length) {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // It merges again on the next sign-in, which is harmless
+      }
+    }
+  }, [isBrowser, storageKey]);
 
   // Persist to localStorage (debounced)
   useEffect(() => {
@@ -178,7 +332,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     // debounce writes: 300ms after last change
     saveTimerRef.current = window.setTimeout(() => {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(state.items));
+        localStorage.setItem(storageKey, JSON.stringify(state.items));
       } catch (err) {
         console.error("Cart: failed to write to localStorage:", err);
       } finally {
@@ -192,18 +346,18 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         saveTimerRef.current = null;
       }
     };
-  }, [state.items, isBrowser]);
+  }, [state.items, isBrowser, storageKey]);
 
   // Cross-tab sync: update state when other tab modifies cart
   useEffect(() => {
     if (!isBrowser) return;
     const onStorage = (e: StorageEvent) => {
-      if (e.key !== STORAGE_KEY) return;
+      if (e.key !== storageKey) return;
       try {
         const newVal = e.newValue ? JSON.parse(e.newValue) : [];
         if (Array.isArray(newVal)) {
           // sanitize
-          const safe = newVal.map((p: any) => ({ ...p, quantity: Math.max(1, Math.trunc(p.quantity || 1)) }));
+          const safe = newVal.map((p: any) => sanitizeItem(p));
           dispatch({ type: "INIT", payload: safe });
         }
       } catch (err) {
@@ -213,17 +367,31 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     };
     window.addEventListener("storage", onStorage);
     return () => window.removeEventListener("storage", onStorage);
-  }, [isBrowser]);
+  }, [isBrowser, storageKey]);
 
   /**
    * Public API helpers
    */
-  const addToCart = useCallback((item: CartItem) => {
-    // sanitize
-    const safeItem: CartItem = { ...item, quantity: Math.max(1, Math.trunc(item.quantity || 1)) };
-    dispatch({ type: "ADD", payload: safeItem });
+  // Says so when stock stops a line growing, and returns whether it fits; the reducer does the capping
+  const warnIfShort = useCallback((line: Pick<CartItem, "id" | "name" | "quoteReference">, wanted: number) => {
+    const available = getLineAvailable(line);
+    if (wanted <= available) return true;
+    const { id, name } = line;
+    toast.error(available < 1 ? `${name} is out of stock` : `Only ${available} of ${name} left`, { id: `stock-${id}` });
+    return false;
   }, []);
 
+  const addToCart = useCallback(
+    (item: CartItem) => {
+      const line = sanitizeItem(item);
+      const existing = itemsRef.current.find((i) => i.id === line.id);
+      const fits = warnIfShort(existing ?? line, (existing?.quantity ?? 0) + line.quantity);
+      dispatch({ type: "ADD", payload: line });
+      return fits;
+    },
+    [warnIfShort]
+  );
+
   const removeFromCart = useCallback((id: string) => {
     dispatch({ type: "REMOVE", payload: { id } });
   }, []);
@@ -232,14 +400,25 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     dispatch({ type: "CLEAR" });
   }, []);
 
-  const updateQuantity = useCallback((id: string, quantity: number) => {
-    const q = Math.max(1, Math.trunc(quantity));
-    dispatch({ type: "UPDATE_QTY", payload: { id, quantity: q } });
-  }, []);
+  const updateQuantity = useCallback(
+    (id: string, quantity: number) => {
+      const q = Math.max(1, Math.trunc(quantity));
+      const line = itemsRef.current.find((i) => i.id === id);
+      const fits = !line || q <= line.quantity || warnIfShort(line, q);
+      dispatch({ type: "UPDATE_QTY", payload: { id, quantity: q } });
+      return fits;
+    },
+    [warnIfShort]
+  );
 
-  const increaseQty = useCallback((id: string, delta: number = 1) => {
-    dispatch({ type: "INCREASE_QTY", payload: { id, delta } });
-  }, []);
+  const increaseQty = useCallback(
+    (id: string, delta: number = 1) => {
+      const line = itemsRef.current.find((i) => i.id === id);
+      if (line) warnIfShort(line, line.quantity + Math.max(1, Math.trunc(delta)));
+      dispatch({ type: "INCREASE_QTY", payload: { id, delta } });
+    },
+    [warnIfShort]
+  );
 
   const decreaseQty = useCallback((id: string, delta: number = 1) => {
     dispatch({ type: "DECREASE_QTY", payload: { id, delta } });
@@ -252,10 +431,113 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
 
   const getTotalItems = useCallback(() => state.items.reduce((sum, it) => sum + it.quantity, 0), [state.items]);
 
-  // Memoize context value to avoid re-renders
- const [isCartOpen, setIsCartOpen] = useState(false);
-const openCart = () => setIsCartOpen(true);
-const closeCart = () => setIsCartOpen(false);
+  const getItemsNeedingPrescription = useCallback(
+    () => state.items.filter((it) => it.requiresPrescription && !it.prescription),
+    [state.items]
+  );
+
+  // Stock can sell out while a cart sits in storage; checkout re-checks before placing
+  const stockIssues = useMemo(() => checkCartStock(state.items), [state.items]);
+
+  const fitCartToStock = useCallback(() => {
+    dispatch({ type: "FIT_TO_STOCK" });
+  }, []);
+
+  const addQuotedItems = useCallback((items: CartItem[]) => {
+    const lines = items.map(sanitizeItem);
+    const issues = checkCartStock(lines);
+    if (!issues.length) dispatch({ type: "ADD_QUOTED", payload: lines });
+    return issues;
+  }, []);
+
+  const attachPrescription = useCallback((ids: string[], reference: string) => {
+    dispatch({ type: "ATTACH_PRESCRIPTION", payload: { ids, reference } });
+  }, []);
+
+  const approvePrescription = useCallback((reference: string) => {
+    dispatch({ type: "APPROVE_PRESCRIPTION", payload: { reference } });
+  }, []);
+
+  // Promotions: first-order offers need to know whether the account has ordered before
+  const accountId = user?.id;
+  const [hasOrdered, setHasOrdered] = useState<boolean | null>(null);
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHasOrdered(null);
+    if (!accountId) return;
+    let active = true;
+    getOrderAdapter()
+      .listOrders(accountId)
+      .then((orders) => active && setHasOrdered(orders.length > 0))
+      // Unknown history: hold first-order offers back rather than give them twice
+      .catch(() => active && setHasOrdered(true));
+    return () => {
+      active = false;
+    };
+  }, [accountId]);
+
+  // Flash sales start and end on the clock: re-price the cart right then
+  const [pricedAt, setPricedAt] = useState(() => new Date());
+  useEffect(() => {
+    const next = getNextSaleChange(pricedAt);
+    if (next === undefined) return;
+    // setTimeout overflows past ~24.8 days; waking early just re-arms it
+    const delay = Math.min(next - Date.now() + 50, 2 ** 31 - 1);
+    const timer = window.setTimeout(() => setPricedAt(new Date()), Math.max(delay, 0));
+    return () => window.clearTimeout(timer);
+  }, [pricedAt]);
+
+  const promotionContext = useMemo(
+    () => ({ accountId, firstOrder: !!accountId && hasOrdered === false, now: pricedAt }),
+    [accountId, hasOrdered, pricedAt]
+  );
+
+  const pricing = useMemo(
+    () => priceCart(state.items, { ...promotionContext, codes: couponCode ? [couponCode] : [] }),
+    [state.items, promotionContext, couponCode]
+  );
+
+  const couponProblem = useMemo(() => {
+    if (!couponCode || pricing.discounts.some((d) => d.code === couponCode)) return null;
+    try {
+      checkCoupon(couponCode, pricing.subtotal, promotionContext);
+      return "This code doesn't apply to anything in your cart.";
+    } catch (err) {
+      return err instanceof Error ? err.message : "This code can't be used right now.";
+    }
+  }, [couponCode, pricing, promotionContext]);
+
+  const applyCoupon = useCallback(
+    (code: string) => {
+      const coupon = checkCoupon(code, getCartTotal(), promotionContext);
+      setCouponCode(coupon.code ?? normalizeCode(code));
+    },
+    [getCartTotal, promotionContext]
+  );
+
+  const removeCoupon = useCallback(() => setCouponCode(null), []);
+
+  const redeemPromotions = useCallback(
+    (discounts: AppliedPromotion[]) => {
+      recordRedemptions(discounts, accountId);
+      setCouponCode(null);
+      if (accountId) setHasOrdered(true);
+    },
+    [accountId]
+  );
+
+  // Drawer + mini-cart visibility (not persisted)
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [cartPreview, setCartPreview] = useState<CartItem | null>(null);
+
+  const openCart = useCallback(() => {
+    setCartPreview(null);
+    setIsCartOpen(true);
+  }, []);
+  const closeCart = useCallback(() => setIsCartOpen(false), []);
+  const showCartPreview = useCallback((item: CartItem) => setCartPreview(item), []);
+  const hideCartPreview = useCallback(() => setCartPreview(null), []);
 
 // Memoize context value to avoid re-renders
 const value = useMemo(
@@ -269,9 +551,24 @@ const value = useMemo(
     decreaseQty,
     getCartTotal,
     getTotalItems,
+    getItemsNeedingPrescription,
+    stockIssues,
+    fitCartToStock,
+    addQuotedItems,
+    pricing,
+    couponCode,
+    couponProblem,
+    applyCoupon,
+    removeCoupon,
+    redeemPromotions,
+    attachPrescription,
+    approvePrescription,
     isCartOpen,   // ✅ added
     openCart,     // ✅ added
     closeCart,    // ✅ added
+    cartPreview,
+    showCartPreview,
+    hideCartPreview,
   }),
   [
     state.items,
@@ -283,9 +580,24 @@ const value = useMemo(
     decreaseQty,
     getCartTotal,
     getTotalItems,
+    getItemsNeedingPrescription,
+    stockIssues,
+    fitCartToStock,
+    addQuotedItems,
+    pricing,
+    couponCode,
+    couponProblem,
+    applyCoupon,
+    removeCoupon,
+    redeemPromotions,
+    attachPrescription,
+    approvePrescription,
     isCartOpen,   // ✅ include dependencies
     openCart,
     closeCart,
+    cartPreview,
+    showCartPreview,
+    hideCartPreview,
   ]
 );
 
@@ -0,0 +1,356 @@
+// src/context/RefillContext.tsx
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import type { ReactNode } from "react";
+import toast from "react-hot-toast";
+
+import { getProductById, toCartItem, type Product } from "../catalog";
+import {
+  DEFAULT_DAYS_SUPPLY,
+  getDaysUntilRefill,
+  getNextRefillDate,
+  getNotificationScheduler,
+  getRefillStatus,
+  MAX_DAYS_SUPPLY,
+  MAX_REFILL_QUANTITY,
+  planReminders,
+  toDateKey,
+  type RefillStatus,
+  type RepeatMedication,
+} from "../refills";
+import { accountStorageKey } from "../auth";
+import { isSoldOut } from "../inventory";
+import { useAuth } from "./AuthContext";
+import { useCart } from "./CartContext";
+
+/**
+ * Type definitions
+ *
+ * Only the schedule is stored; product details come from the catalog
+ * on read, as in the wishlist.
+ */
+interface RefillState {
+  items: RepeatMedication[];
+}
+
+type Action =
+  | { type: "INIT"; payload: RepeatMedication[] }
+  | { type: "ADD"; payload: RepeatMedication }
+  | { type: "UPDATE"; payload: { productId: string; patch: Partial<Omit<RepeatMedication, "productId">> } }
+  | { type: "REMOVE"; payload: { productId: string } }
+  | { type: "REFILLED"; payload: { productIds: string[]; date: string } }
+  | { type: "CLEAR" };
+
+/** A repeat medicine with its product and where it stands today. */
+export interface RefillEntry extends RepeatMedication {
+  product: Product;
+  nextRefillDate: Date;
+  /** Negative once overdue */
+  daysLeft: number;
+  status: RefillStatus;
+}
+
+export interface ReorderResult {
+  /** Medicines put in the cart */
+  added: number;
+  /** Names of those out of stock */
+  unavailable: string[];
+}
+
+/**
+ * Public context API
+ */
+interface RefillContextType {
+  /** Soonest to run out first */
+  refills: RefillEntry[];
+  /** Starts the supply count today unless lastFilledAt says otherwise. */
+  addRepeatMedication: (productId: string, options?: Partial<Omit<RepeatMedication, "productId">>) => void;
+  updateRepeatMedication: (productId: string, patch: Partial<Omit<RepeatMedication, "productId">>) => void;
+  removeRepeatMedication: (productId: string) => void;
+  isRepeatMedication: (productId: string) => boolean;
+  /** Restarts the supply count today for any of these on the list. */
+  markRefilled: (productIds: string[]) => void;
+  /**
+   * Tops the cart up to each medicine's usual quantity — all of them, or
+   * just productIds. Out-of-stock ones are skipped and reported.
+   */
+  reorder: (productIds?: string[]) => ReorderResult;
+  /** Due or overdue */
+  dueCount: number;
+}
+
+const RefillContext = createContext<RefillContextType | undefined>(undefined);
+
+const STORAGE_KEY = "refill_list_v1"; // bump version if shape changes; suffixed per signed-in user
+
+const clamp = (n: unknown, min: number, max: number, fallback: number) =>
+  typeof n === "number" && Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+
+const normalize = (med: Partial<RepeatMedication> & { productId: string }): RepeatMedication => ({
+  productId: med.productId,
+  quantity: clamp(med.quantity, 1, MAX_REFILL_QUANTITY, 1),
+  daysSupply: clamp(med.daysSupply, 1, MAX_DAYS_SUPPLY, DEFAULT_DAYS_SUPPLY),
+  lastFilledAt:
+    typeof med.lastFilledAt === "string" && !Number.isNaN(Date.parse(med.lastFilledAt))
+      ? med.lastFilledAt
+      : toDateKey(new Date()),
+});
+
+/** Keep well-formed entries for products the catalog still knows about. */
+const sanitize = (value: unknown): RepeatMedication[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.flatMap((raw: unknown) => {
+    if (typeof raw !== "object" || raw === null) return [];
+    const med = raw as Partial<RepeatMedication>;
+    if (typeof med.productId !== "string" || seen.has(med.productId) || !getProductById(med.productId)) return [];
+    seen.add(med.productId);
+    return [normalize({ ...med, productId: med.productId })];
+  });
+};
+
+/**
+ * Reducer: pure state transitions
+ */
+const reducer = (state: RefillState, action: Action): RefillState => {
+  switch (action.type) {
+    case "INIT":
+      return { items: action.payload };
+
+    case "ADD":
+      if (state.items.some((m) => m.productId === action.payload.productId)) return state;
+      return { items: [...state.items, action.payload] };
+
+    case "UPDATE":
+      return {
+        items: state.items.map((m) =>
+          m.productId === action.payload.productId ? normalize({ ...m, ...action.payload.patch }) : m
+        ),
+      };
+
+    case "REMOVE":
+      return { items: state.items.filter((m) => m.productId !== action.payload.productId) };
+
+    case "REFILLED": {
+      const ids = new Set(action.payload.productIds);
+      if (!state.items.some((m) => ids.has(m.productId))) return state;
+      return {
+        items: state.items.map((m) => (ids.has(m.productId) ? { ...m, lastFilledAt: action.payload.date } : m)),
+      };
+    }
+
+    case "CLEAR":
+      return { items: [] };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Provider — must sit inside CartProvider for reorder, and inside
+ * AuthProvider; each account has its own list and reminders.
+ */
+export const RefillProvider = ({ children }: { children: ReactNode }) => {
+  const isBrowser = typeof window !== "undefined" && !!window.localStorage;
+  const { user } = useAuth();
+  const storageKey = accountStorageKey(STORAGE_KEY, user?.id);
+  const { cartItems, addToCart } = useCart();
+
+  const [state, dispatch] = useReducer(reducer, { items: [] });
+  // Ref used for debounced localStorage writes
+  const saveTimerRef = useRef<number | null>(null);
+
+  // Whose list is loaded, so signing in can carry the guest one over
+  const loadedKeyRef = useRef<string | null>(null);
+  const itemsRef = useRef(state.items);
+  itemsRef.current = state.items;
+
+  // Initialize from storage — again whenever someone signs in or out
+  useEffect(() => {
+    if (!isBrowser) return;
+    const previousKey = loadedKeyRef.current;
+    loadedKeyRef.current = storageKey;
+    const carried = previousKey === STORAGE_KEY && storageKey !== STORAGE_KEY ? itemsRef.current : [];
+
+    let saved: RepeatMedication[] = [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      saved = raw ? sanitize(JSON.parse(raw)) : [];
+    } catch (err) {
+      console.warn("Refills: failed to read from localStorage:", err);
+    }
+    // The account's own schedule wins for a medicine on both lists
+    const known = new Set(saved.map((m) => m.productId));
+    dispatch({ type: "INIT", payload: [...saved, ...carried.filter((m) => !known.has(m.productId))] });
+
+    // The guest list now lives in the account
+    if (carried.length) {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // It merges again on the next sign-in, which is harmless
+      }
+    }
+  }, [isBrowser, storageKey]);
+
+  // Persist (debounced) and hand the new schedule to the notification scheduler
+  useEffect(() => {
+    if (saveTimerRef.current) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      if (isBrowser) {
+        try {
+          localStorage.setItem(storageKey, JSON.stringify(state.items));
+        } catch (err) {
+          console.error("Refills: failed to write to localStorage:", err);
+        }
+      }
+      void getNotificationScheduler().sync(planReminders(state.items));
+    }, 300);
+
+    return () => {
+      if (saveTimerRef.current) {
+        window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    };
+  }, [state.items, isBrowser, storageKey]);
+
+  // In-app delivery, for schedulers that deliver here (the local mock)
+  useEffect(() => {
+    const scheduler = getNotificationScheduler();
+    return scheduler.subscribe?.((reminder) => toast(reminder.body, { icon: "💊", duration: 8000 }));
+  }, []);
+
+  // Cross-tab sync: update state when another tab modifies the list
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== storageKey) return;
+      try {
+        dispatch({ type: "INIT", payload: e.newValue ? sanitize(JSON.parse(e.newValue)) : [] });
+      } catch (err) {
+        console.warn("Refills: failed to parse storage event value", err);
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [isBrowser, storageKey]);
+
+  /**
+   * Public API helpers
+   */
+  const refills = useMemo(() => {
+    const now = new Date();
+    return state.items
+      .flatMap((med): RefillEntry[] => {
+        const product = getProductById(med.productId);
+        return product
+          ? [
+              {
+                ...med,
+                product,
+                nextRefillDate: getNextRefillDate(med),
+                daysLeft: getDaysUntilRefill(med, now),
+                status: getRefillStatus(med, now),
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => a.daysLeft - b.daysLeft);
+  }, [state.items]);
+
+  const idSet = useMemo(() => new Set(state.items.map((m) => m.productId)), [state.items]);
+
+  const addRepeatMedication = useCallback(
+    (productId: string, options: Partial<Omit<RepeatMedication, "productId">> = {}) => {
+      if (!getProductById(productId)) return;
+      dispatch({ type: "ADD", payload: normalize({ ...options, productId }) });
+    },
+    []
+  );
+
+  const updateRepeatMedication = useCallback(
+    (productId: string, patch: Partial<Omit<RepeatMedication, "productId">>) => {
+      dispatch({ type: "UPDATE", payload: { productId, patch } });
+    },
+    []
+  );
+
+  const removeRepeatMedication = useCallback((productId: string) => {
+    dispatch({ type: "REMOVE", payload: { productId } });
+  }, []);
+
+  const isRepeatMedication = useCallback((productId: string) => idSet.has(productId), [idSet]);
+
+  const markRefilled = useCallback((productIds: string[]) => {
+    dispatch({ type: "REFILLED", payload: { productIds, date: toDateKey(new Date()) } });
+  }, []);
+
+  const reorder = useCallback(
+    (productIds?: string[]): ReorderResult => {
+      const wanted = productIds ? refills.filter((r) => productIds.includes(r.productId)) : refills;
+      const result: ReorderResult = { added: 0, unavailable: [] };
+      for (const { product, quantity } of wanted) {
+        if (isSoldOut(product)) {
+          result.unavailable.push(product.name);
+          continue;
+        }
+        // Already in the cart counts towards the usual quantity
+        const inCart = cartItems.find((i) => i.id === product.id)?.quantity ?? 0;
+        if (quantity > inCart) addToCart(toCartItem(product, quantity - inCart));
+        result.added++;
+      }
+      return result;
+    },
+    [refills, cartItems, addToCart]
+  );
+
+  const dueCount = useMemo(() => refills.filter((r) => r.status !== "ok").length, [refills]);
+
+  // Memoize context value to avoid re-renders
+  const value = useMemo(
+    (): RefillContextType => ({
+      refills,
+      addRepeatMedication,
+      updateRepeatMedication,
+      removeRepeatMedication,
+      isRepeatMedication,
+      markRefilled,
+      reorder,
+      dueCount,
+    }),
+    [
+      refills,
+      addRepeatMedication,
+      updateRepeatMedication,
+      removeRepeatMedication,
+      isRepeatMedication,
+      markRefilled,
+      reorder,
+      dueCount,
+    ]
+  );
+
+  return <RefillContext.Provider value={value}>{children}</RefillContext.Provider>;
+};
+
+/**
+ * Hook
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useRefills = (): RefillContextType => {
+  const ctx = useContext(RefillContext);
+  if (!ctx) throw new Error("useRefills must be used within a RefillProvider");
+  return ctx;
+};
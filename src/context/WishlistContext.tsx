@@ -0,0 +1,251 @@
+// src/context/WishlistContext.tsx
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import type { ReactNode } from "react";
+
+import { getProductById, toCartItem, type Product } from "../catalog";
+import { accountStorageKey } from "../auth";
+import { isSoldOut } from "../inventory";
+import { useAuth } from "./AuthContext";
+import { useCart } from "./CartContext";
+
+/**
+ * Type definitions
+ *
+ * Only product ids are stored; names, prices and stock come from the
+ * catalog on read so a saved item never shows a stale price.
+ */
+interface WishlistState {
+  ids: string[];
+}
+
+type Action =
+  | { type: "INIT"; payload: string[] }
+  | { type: "ADD"; payload: { id: string } }
+  | { type: "REMOVE"; payload: { id: string } }
+  | { type: "CLEAR" };
+
+/**
+ * Public context API
+ */
+interface WishlistContextType {
+  wishlistItems: Product[];
+  addToWishlist: (id: string) => void;
+  removeFromWishlist: (id: string) => void;
+  /** Adds or removes `id`; returns true when the item is now saved. */
+  toggleWishlist: (id: string) => boolean;
+  isInWishlist: (id: string) => boolean;
+  /** Adds the item to the cart (qty 1) and drops it from the wishlist; false when stock kept it out. */
+  moveToCart: (id: string) => boolean;
+  clearWishlist: () => void;
+  getWishlistCount: () => number;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+const STORAGE_KEY = "wishlist_ids_v1"; // bump version if shape changes; suffixed per signed-in user
+
+/** Keep only unique ids the catalog still knows about. */
+const sanitize = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(
+        new Set(value.filter((id): id is string => typeof id === "string" && !!getProductById(id)))
+      )
+    : [];
+
+/**
+ * Reducer: pure state transitions
+ */
+const reducer = (state: WishlistState, action: Action): WishlistState => {
+  switch (action.type) {
+    case "INIT":
+      return { ids: action.payload };
+
+    case "ADD":
+      if (state.ids.includes(action.payload.id)) return state;
+      return { ids: [...state.ids, action.payload.id] };
+
+    case "REMOVE":
+      return { ids: state.ids.filter((id) => id !== action.payload.id) };
+
+    case "CLEAR":
+      return { ids: [] };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Provider — must sit inside CartProvider for moveToCart, and inside
+ * AuthProvider; each account has its own wishlist.
+ */
+export const WishlistProvider = ({ children }: { children: ReactNode }) => {
+  const isBrowser = typeof window !== "undefined" && !!window.localStorage;
+  const { user } = useAuth();
+  const storageKey = accountStorageKey(STORAGE_KEY, user?.id);
+  const { addToCart } = useCart();
+
+  const [state, dispatch] = useReducer(reducer, { ids: [] });
+
+  // Ref used for debounced localStorage writes
+  const saveTimerRef = useRef<number | null>(null);
+
+  // Whose wishlist is loaded, so signing in can carry the guest one over
+  const loadedKeyRef = useRef<string | null>(null);
+  const idsRef = useRef(state.ids);
+  idsRef.current = state.ids;
+
+  // Initialize from storage — again whenever someone signs in or out
+  useEffect(() => {
+    if (!isBrowser) return;
+    const previousKey = loadedKeyRef.current;
+    loadedKeyRef.current = storageKey;
+    const carried = previousKey === STORAGE_KEY && storageKey !== STORAGE_KEY ? idsRef.current : [];
+
+    let saved: string[] = [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      saved = raw ? sanitize(JSON.parse(raw)) : [];
+    } catch (err) {
+      console.warn("Wishlist: failed to read from localStorage:", err);
+    }
+    dispatch({ type: "INIT", payload: Array.from(new Set([...saved, ...carried])) });
+
+    // The guest wishlist now lives in the account
+    if (carried.length) {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // It merges again on the next sign-in, which is harmless
+      }
+    }
+  }, [isBrowser, storageKey]);
+
+  // Persist to localStorage (debounced)
+  useEffect(() => {
+    if (!isBrowser) return;
+    if (saveTimerRef.current) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(() => {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(state.ids));
+      } catch (err) {
+        console.error("Wishlist: failed to write to localStorage:", err);
+      } finally {
+        saveTimerRef.current = null;
+      }
+    }, 300);
+
+    return () => {
+      if (saveTimerRef.current) {
+        window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    };
+  }, [state.ids, isBrowser, storageKey]);
+
+  // Cross-tab sync: update state when another tab modifies the wishlist
+  useEffect(() => {
+    if (!isBrowser) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== storageKey) return;
+      try {
+        dispatch({ type: "INIT", payload: e.newValue ? sanitize(JSON.parse(e.newValue)) : [] });
+      } catch (err) {
+        console.warn("Wishlist: failed to parse storage event value", err);
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [isBrowser, storageKey]);
+
+  /**
+   * Public API helpers
+   */
+  const idSet = useMemo(() => new Set(state.ids), [state.ids]);
+
+  const wishlistItems = useMemo(
+    () => state.ids.map(getProductById).filter((p): p is Product => !!p),
+    [state.ids]
+  );
+
+  const addToWishlist = useCallback((id: string) => {
+    dispatch({ type: "ADD", payload: { id } });
+  }, []);
+
+  const removeFromWishlist = useCallback((id: string) => {
+    dispatch({ type: "REMOVE", payload: { id } });
+  }, []);
+
+  const isInWishlist = useCallback((id: string) => idSet.has(id), [idSet]);
+
+  const toggleWishlist = useCallback(
+    (id: string) => {
+      const saved = !idSet.has(id);
+      dispatch({ type: saved ? "ADD" : "REMOVE", payload: { id } });
+      return saved;
+    },
+    [idSet]
+  );
+
+  const moveToCart = useCallback(
+    (id: string) => {
+      const product = getProductById(id);
+      if (!product || isSoldOut(product) || !addToCart(toCartItem(product))) return false;
+      dispatch({ type: "REMOVE", payload: { id } });
+      return true;
+    },
+    [addToCart]
+  );
+
+  const clearWishlist = useCallback(() => {
+    dispatch({ type: "CLEAR" });
+  }, []);
+
+  const getWishlistCount = useCallback(() => state.ids.length, [state.ids]);
+
+  // Memoize context value to avoid re-renders
+  const value = useMemo(
+    (): WishlistContextType => ({
+      wishlistItems,
+      addToWishlist,
+      removeFromWishlist,
+      toggleWishlist,
+      isInWishlist,
+      moveToCart,
+      clearWishlist,
+      getWishlistCount,
+    }),
+    [
+      wishlistItems,
+      addToWishlist,
+      removeFromWishlist,
+      toggleWishlist,
+      isInWishlist,
+      moveToCart,
+      clearWishlist,
+      getWishlistCount,
+    ]
+  );
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+};
+
+/**
+ * Hook
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useWishlist = (): WishlistContextType => {
+  const ctx = useContext(WishlistContext);
+  if (!ctx) throw new Error("useWishlist must be used within a WishlistProvider");
+  return ctx;
+};
@@ -0,0 +1,75 @@
+// src/delivery/addresses.ts
+
+import type { DeliveryAddress, StepErrors } from "../checkout/types";
+import { isValidPhone, normalizePhone, validateDeliveryAddress } from "../checkout/validation";
+import type { AddressInput, SavedAddress } from "./types";
+
+/* ---------------------------------------------------------------
+   Address book entries
+--------------------------------------------------------------- */
+export const MAX_SAVED_ADDRESSES = 10;
+
+export const EMPTY_ADDRESS: AddressInput = {
+  label: "",
+  county: "",
+  town: "",
+  area: "",
+  street: "",
+  landmark: "",
+  phone: "",
+};
+
+export const validateAddress = (input: AddressInput): StepErrors => {
+  const errors = validateDeliveryAddress(input);
+  if (!isValidPhone(input.phone)) errors.phone = "Enter a valid Kenyan mobile number.";
+  return errors;
+};
+
+/** Trimmed, with the phone as 2547XXXXXXXX and a label to show. */
+export const normalizeAddress = (input: AddressInput): AddressInput => ({
+  label: input.label.trim() || "Address",
+  county: input.county.trim(),
+  town: input.town.trim(),
+  area: input.area.trim(),
+  street: input.street.trim(),
+  landmark: input.landmark.trim(),
+  phone: normalizePhone(input.phone),
+});
+
+/** Just the delivery part — what checkout and orders carry. */
+export const toDeliveryAddress = ({ county, town, area, street, landmark }: DeliveryAddress): DeliveryAddress => ({
+  county,
+  town,
+  area,
+  street,
+  landmark,
+});
+
+/** Same place, ignoring case and spacing. */
+export const isSameAddress = (a: DeliveryAddress, b: DeliveryAddress): boolean =>
+  (["county", "town", "area", "street", "landmark"] as const).every(
+    (key) => a[key].trim().toLowerCase() === b[key].trim().toLowerCase(),
+  );
+
+/** "Gachororo, Juja" — the short form for the header. */
+export const describeLocation = ({ area, town }: Pick<DeliveryAddress, "area" | "town">): string =>
+  [area, town].filter(Boolean).join(", ");
+
+const isSavedAddress = (value: unknown): value is SavedAddress => {
+  if (typeof value !== "object" || value === null) return false;
+  const a = value as Record<string, unknown>;
+  return ["id", "label", "county", "town", "area", "street", "landmark", "phone"].every(
+    (key) => typeof a[key] === "string",
+  );
+};
+
+/** Well-formed entries only, first of each id. */
+export const sanitizeAddresses = (value: unknown): SavedAddress[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.filter((a): a is SavedAddress => {
+    if (!isSavedAddress(a) || seen.has(a.id)) return false;
+    seen.add(a.id);
+    return true;
+  });
+};
@@ -0,0 +1,31 @@
+// src/delivery/availability.ts
+
+import type { Product } from "../catalog";
+import type { DeliveryAddress } from "../checkout/types";
+import { formatPrice, STORE } from "../config";
+import { isSoldOut } from "../inventory";
+import type { Availability } from "./types";
+import { formatEta, getZoneForAddress } from "./zones";
+
+/* ---------------------------------------------------------------
+   "Can I get this where I am?" — stock plus the chosen location
+--------------------------------------------------------------- */
+export const getAvailability = (
+  product: Pick<Product, "id" | "inStock" | "stockQuantity" | "requiresPrescription">,
+  address: DeliveryAddress | null,
+): Availability => {
+  if (isSoldOut(product)) return { tone: "out", text: "Out of stock" };
+  if (!address) return { tone: "ok", text: "In stock — choose your location to see delivery times" };
+
+  const zone = getZoneForAddress(address);
+  if (product.requiresPrescription && !zone.prescriptions) {
+    return {
+      tone: "warn",
+      text: `Prescription medicines can't be delivered to ${address.town} — collect from our ${STORE.address.city} store.`,
+    };
+  }
+  return {
+    tone: "ok",
+    text: `In stock — delivered to ${address.town} in ${formatEta(zone)} for ${formatPrice(zone.fee)}`,
+  };
+};
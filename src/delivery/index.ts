@@ -0,0 +1,27 @@
+// src/delivery/index.ts — delivery zones, quotes, the address book and where products can go
+
+export type {
+  AddressInput,
+  Availability,
+  DeliveryCharge,
+  DeliveryQuote,
+  DeliverySpeed,
+  DeliveryWindow,
+  DeliveryZone,
+  SavedAddress,
+  ZoneArea,
+} from "./types";
+
+export {
+  describeLocation,
+  EMPTY_ADDRESS,
+  isSameAddress,
+  MAX_SAVED_ADDRESSES,
+  normalizeAddress,
+  sanitizeAddresses,
+  toDeliveryAddress,
+  validateAddress,
+} from "./addresses";
+export { getAvailability } from "./availability";
+export { describeCharges, EXPRESS_SLOT_ID, formatWindow, getSlotOptions, quoteDelivery } from "./quote";
+export { COUNTIES, DELIVERY_ZONES, formatEta, getZone, getZoneForAddress, KENYA_LOCATIONS } from "./zones";
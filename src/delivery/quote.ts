@@ -0,0 +1,160 @@
+// src/delivery/quote.ts
+
+import { getProductById } from "../catalog";
+import { getDeliveryHours, getDeliverySlots } from "../checkout/slots";
+import type { CheckoutDraft, DeliverySlot } from "../checkout/types";
+import { formatPrice } from "../config";
+import type { CartItem } from "../context/CartContext";
+import type { DeliveryCharge, DeliveryQuote, DeliveryWindow, DeliveryZone } from "./types";
+import { getZoneForAddress } from "./zones";
+
+type FulfilmentChoice = Pick<CheckoutDraft, "method" | "address">;
+type ShippingItem = Pick<CartItem, "id" | "price" | "quantity">;
+
+/* ---------------------------------------------------------------
+   Surcharges that apply in every zone
+--------------------------------------------------------------- */
+const SHIPPING_RULES = {
+  /** Assumed for products without a listed weight */
+  defaultItemKg: 0.25,
+  /** Carried at the base fee */
+  includedKg: 5,
+  /** KES per started kg above the allowance */
+  perExtraKg: 40,
+  /** KES, once per order — the parcel goes by car instead of motorbike */
+  bulkyFee: 500,
+} as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/* ---------------------------------------------------------------
+   Slots — same-day cutoffs and express for delivery,
+   plain opening-hours windows for pickup
+--------------------------------------------------------------- */
+export const EXPRESS_SLOT_ID = "express";
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+/** Straight-away rider slot, while the store is delivering and before the zone's cutoff. */
+const getExpressSlot = (zone: DeliveryZone, now: Date): DeliverySlot | null => {
+  const hours = getDeliveryHours(now);
+  if (!zone.express || !hours || zone.sameDayCutoff === undefined) return null;
+  const hour = now.getHours();
+  if (hour < hours[0] || hour >= Math.min(hours[1], zone.sameDayCutoff)) return null;
+
+  const { maxHours } = zone.express;
+  return {
+    id: EXPRESS_SLOT_ID,
+    start: now.toISOString(),
+    end: new Date(now.getTime() + maxHours * HOUR_MS).toISOString(),
+    label: `Express — within ${maxHours === 1 ? "an hour" : `${maxHours} hours`}`,
+  };
+};
+
+/** Slots the customer can book for this address: express first, then today's (before the cutoff) and later days'. */
+export const getSlotOptions = ({ method, address }: FulfilmentChoice, now: Date = new Date()): DeliverySlot[] => {
+  const slots = getDeliverySlots(now);
+  if (method === "pickup") return slots;
+
+  const zone = getZoneForAddress(address);
+  const sameDay = zone.sameDayCutoff !== undefined && now.getHours() < zone.sameDayCutoff;
+  const standard = sameDay ? slots : slots.filter((slot) => !isSameDay(new Date(slot.start), now));
+  const express = getExpressSlot(zone, now);
+  return express ? [express, ...standard] : standard;
+};
+
+/* ---------------------------------------------------------------
+   Quote — fee breakdown and arrival window
+--------------------------------------------------------------- */
+const measureParcel = (items: readonly ShippingItem[]) =>
+  items.reduce(
+    (parcel, item) => {
+      const product = getProductById(item.id);
+      return {
+        weightKg: parcel.weightKg + (product?.weightKg ?? SHIPPING_RULES.defaultItemKg) * item.quantity,
+        bulky: parcel.bulky || !!product?.bulky,
+      };
+    },
+    { weightKg: 0, bulky: false },
+  );
+
+/** Couriers collect in the slot, then take the zone's ETA to arrive. */
+const arrivalWindow = (zone: DeliveryZone, slot: DeliverySlot): DeliveryWindow => {
+  if (!zone.courier) return { start: slot.start, end: slot.end };
+  return {
+    start: new Date(Date.parse(slot.start) + zone.eta.minHours * HOUR_MS).toISOString(),
+    end: new Date(Date.parse(slot.end) + zone.eta.maxHours * HOUR_MS).toISOString(),
+  };
+};
+
+/**
+ * What delivering these items costs and when they arrive. Until a slot
+ * is picked, the window is estimated from the earliest standard one.
+ */
+export const quoteDelivery = (
+  draft: FulfilmentChoice & Pick<CheckoutDraft, "slotId">,
+  items: readonly ShippingItem[],
+  now: Date = new Date(),
+): DeliveryQuote => {
+  const options = getSlotOptions(draft, now);
+  const slot = options.find((s) => s.id === draft.slotId);
+
+  if (draft.method === "pickup") {
+    const target = slot ?? options[0];
+    return {
+      speed: "standard",
+      charges: [],
+      fee: 0,
+      window: target ? { start: target.start, end: target.end } : null,
+    };
+  }
+
+  const zone = getZoneForAddress(draft.address);
+  const speed = slot?.id === EXPRESS_SLOT_ID ? "express" : "standard";
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const { weightKg, bulky } = measureParcel(items);
+
+  const charges: DeliveryCharge[] = [{ label: `${zone.name} delivery`, amount: zone.fee }];
+  if (zone.freeOver !== undefined && subtotal >= zone.freeOver) {
+    charges.push({ label: `Free delivery over ${formatPrice(zone.freeOver)}`, amount: -zone.fee });
+  }
+  const extraKg = Math.ceil(weightKg - SHIPPING_RULES.includedKg);
+  if (extraKg > 0) {
+    charges.push({ label: `Extra weight (${extraKg} kg)`, amount: extraKg * SHIPPING_RULES.perExtraKg });
+  }
+  if (bulky) charges.push({ label: "Bulky item (by car)", amount: SHIPPING_RULES.bulkyFee });
+  if (speed === "express" && zone.express) charges.push({ label: "Express", amount: zone.express.fee });
+
+  const target = slot ?? options.find((s) => s.id !== EXPRESS_SLOT_ID);
+  const gap = zone.freeOver !== undefined ? zone.freeOver - subtotal : 0;
+
+  return {
+    speed,
+    zoneId: zone.id,
+    charges,
+    fee: Math.max(0, charges.reduce((sum, charge) => sum + charge.amount, 0)),
+    window: target ? arrivalWindow(zone, target) : null,
+    ...(gap > 0 && { freeDeliveryGap: gap }),
+  };
+};
+
+/* ---------------------------------------------------------------
+   Formatting
+--------------------------------------------------------------- */
+const dayFormat = new Intl.DateTimeFormat("en-KE", { weekday: "short", day: "numeric", month: "short" });
+const timeFormat = new Intl.DateTimeFormat("en-KE", { hour: "numeric", minute: "2-digit" });
+
+/** "Mon, 20 Oct, 9:00 am – 12:00 pm" within a day, "Mon, 20 Oct – Wed, 22 Oct" across days. */
+export const formatWindow = ({ start, end }: DeliveryWindow): string => {
+  const from = new Date(start);
+  const to = new Date(end);
+  return isSameDay(from, to)
+    ? `${dayFormat.format(from)}, ${timeFormat.format(from)} – ${timeFormat.format(to)}`
+    : `${dayFormat.format(from)} – ${dayFormat.format(to)}`;
+};
+
+/** "Juja delivery KSh 100, Bulky item (by car) KSh 500" */
+export const describeCharges = (charges: readonly DeliveryCharge[]): string =>
+  charges
+    .map(({ label, amount }) => `${label} ${amount < 0 ? "-" : ""}${formatPrice(Math.abs(amount))}`)
+    .join(", ");
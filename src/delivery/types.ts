@@ -0,0 +1,82 @@
+// src/delivery/types.ts
+
+import type { DeliveryAddress } from "../checkout/types";
+
+/* ---------------------------------------------------------------
+   Delivery zones — where we deliver, for how much, how fast
+--------------------------------------------------------------- */
+export interface ZoneArea {
+  county: string;
+  /** Leave out to cover the whole county */
+  towns?: readonly string[];
+}
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  /** No areas: the catch-all for everywhere else */
+  areas: readonly ZoneArea[];
+  /** KES */
+  fee: number;
+  /** Hours from dispatch to the door */
+  eta: { minHours: number; maxHours: number };
+  /** Prescription-only medicines go out by rider; otherwise they're pickup only */
+  prescriptions: boolean;
+  /** Subtotal (KES) from which the base fee is waived */
+  freeOver?: number;
+  /** Hour of the day after which orders go out the next delivery day; absent means never same-day */
+  sameDayCutoff?: number;
+  /** Rider sent straight away, for an extra fee — only before the cutoff */
+  express?: { fee: number; maxHours: number };
+  /** Handed to a courier: the booked slot is when it leaves the store, not when it arrives */
+  courier?: boolean;
+}
+
+/* ---------------------------------------------------------------
+   Quotes — what a delivery costs and when it arrives
+--------------------------------------------------------------- */
+export type DeliverySpeed = "standard" | "express";
+
+/** One line of the fee breakdown; waivers are negative. */
+export interface DeliveryCharge {
+  label: string;
+  amount: number;
+}
+
+/** ISO timestamps */
+export interface DeliveryWindow {
+  start: string;
+  end: string;
+}
+
+export interface DeliveryQuote {
+  speed: DeliverySpeed;
+  /** Absent for pickup */
+  zoneId?: string;
+  charges: DeliveryCharge[];
+  /** KES — sum of the charges, never below zero */
+  fee: number;
+  /** When it reaches the customer (or is ready to collect); null until a slot is known */
+  window: DeliveryWindow | null;
+  /** KES still to add for free delivery, when the zone offers it */
+  freeDeliveryGap?: number;
+}
+
+/* ---------------------------------------------------------------
+   Address book
+--------------------------------------------------------------- */
+export interface SavedAddress extends DeliveryAddress {
+  id: string;
+  /** "Home", "Office" … */
+  label: string;
+  /** Who takes delivery — the rider calls this number */
+  phone: string;
+}
+
+export type AddressInput = Omit<SavedAddress, "id">;
+
+/** Product line for the detail page and cards. */
+export interface Availability {
+  tone: "ok" | "warn" | "out";
+  text: string;
+}
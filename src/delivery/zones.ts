@@ -0,0 +1,114 @@
+// src/delivery/zones.ts
+
+import type { DeliveryAddress } from "../checkout/types";
+import type { DeliveryZone } from "./types";
+
+/* ---------------------------------------------------------------
+   Zones — most specific first. A town listed in a zone wins over
+   a county-wide one; the last zone catches everything else.
+   Surcharges that apply everywhere live in quote.ts.
+--------------------------------------------------------------- */
+export const DELIVERY_ZONES: readonly DeliveryZone[] = [
+  {
+    id: "juja",
+    name: "Juja",
+    areas: [{ county: "Kiambu", towns: ["Juja", "Kalimoni", "Witeithie", "Gachororo", "Highpoint", "Mang'u"] }],
+    fee: 100,
+    eta: { minHours: 1, maxHours: 3 },
+    prescriptions: true,
+    freeOver: 2500,
+    sameDayCutoff: 17,
+    express: { fee: 200, maxHours: 1 },
+  },
+  {
+    id: "thika-ruiru",
+    name: "Thika & Ruiru",
+    areas: [{ county: "Kiambu", towns: ["Thika", "Ruiru", "Kahawa Sukari", "Kahawa Wendani", "Githurai 45", "Membley"] }],
+    fee: 200,
+    eta: { minHours: 2, maxHours: 5 },
+    prescriptions: true,
+    freeOver: 4000,
+    sameDayCutoff: 15,
+    express: { fee: 350, maxHours: 2 },
+  },
+  {
+    id: "kiambu",
+    name: "Kiambu",
+    areas: [{ county: "Kiambu" }],
+    fee: 300,
+    eta: { minHours: 4, maxHours: 24 },
+    prescriptions: true,
+    freeOver: 6000,
+    sameDayCutoff: 12,
+  },
+  {
+    id: "nairobi",
+    name: "Nairobi",
+    areas: [{ county: "Nairobi" }],
+    fee: 350,
+    eta: { minHours: 4, maxHours: 24 },
+    prescriptions: true,
+    freeOver: 6000,
+    sameDayCutoff: 11,
+  },
+  {
+    id: "countrywide",
+    name: "Rest of Kenya",
+    areas: [],
+    fee: 500,
+    eta: { minHours: 48, maxHours: 96 },
+    prescriptions: false,
+    freeOver: 10000,
+    courier: true,
+  },
+];
+
+/** Counties and the towns the location picker suggests for each. */
+export const KENYA_LOCATIONS: Readonly<Record<string, readonly string[]>> = {
+  Kiambu: [
+    "Juja",
+    "Kalimoni",
+    "Witeithie",
+    "Gachororo",
+    "Highpoint",
+    "Thika",
+    "Ruiru",
+    "Kahawa Sukari",
+    "Kahawa Wendani",
+    "Githurai 45",
+    "Membley",
+    "Kiambu Town",
+    "Kikuyu",
+    "Limuru",
+  ],
+  Nairobi: ["CBD", "Westlands", "Kasarani", "Roysambu", "Embakasi", "Kilimani", "Eastleigh", "Lang'ata", "Karen"],
+  "Murang'a": ["Kenol", "Murang'a Town", "Kandara"],
+  Machakos: ["Athi River", "Mlolongo", "Machakos Town"],
+  Nakuru: ["Nakuru Town", "Naivasha"],
+  Mombasa: ["Mombasa Island", "Nyali", "Bamburi"],
+  Kisumu: ["Kisumu City"],
+};
+
+export const COUNTIES = Object.keys(KENYA_LOCATIONS);
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const FALLBACK_ZONE = DELIVERY_ZONES.find((zone) => zone.areas.length === 0)!;
+
+export const getZone = (id: string): DeliveryZone | undefined => DELIVERY_ZONES.find((zone) => zone.id === id);
+
+/** The zone an address falls in: its town first, then its county, then the catch-all. */
+export const getZoneForAddress = ({ county, town }: Pick<DeliveryAddress, "county" | "town">): DeliveryZone => {
+  const byTown = DELIVERY_ZONES.find((zone) =>
+    zone.areas.some((area) => same(area.county, county) && area.towns?.some((t) => same(t, town))),
+  );
+  const byCounty = DELIVERY_ZONES.find((zone) => zone.areas.some((area) => same(area.county, county) && !area.towns));
+  return byTown ?? byCounty ?? FALLBACK_ZONE;
+};
+
+/** "1–3 hours", "Same or next day", "2–4 days". */
+export const formatEta = ({ eta: { minHours, maxHours } }: DeliveryZone): string => {
+  if (maxHours <= 12) return `${minHours}–${maxHours} hours`;
+  if (maxHours <= 24) return "Same or next day";
+  return `${Math.ceil(minHours / 24)}–${Math.ceil(maxHours / 24)} days`;
+};
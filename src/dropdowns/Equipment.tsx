@@ -1,56 +1,16 @@
 // File: src/dropdowns/Equipment.tsx
 import React, { useRef, useState, useEffect, useCallback, useMemo } from "react";
+import {
+  getDiscountPercent,
+  getProductsByCategory,
+  type Product,
+} from "../catalog";
+import { formatPrice, whatsappUrl } from "../config";
+import { getStockLabel, getStockLevel } from "../inventory";
 import styles from "./Equipment.module.css";
 
-// === Import Local Images (replace with optimized CDN or WebP later) ===
-import image1 from "../assets/Equipment/BP.png";
-import image2 from "../assets/Equipment/Glucose-meter.png";
-import image3 from "../assets/Equipment/Oximeter.png";
-import image4 from "../assets/Equipment/Portable-Nebulizer.png";
-import image5 from "../assets/Equipment/Stethoscope.png";
-import image6 from "../assets/Equipment/Weifgt-scale.png";
-import image7 from "../assets/Equipment/Walker.png";
-import image8 from "../assets/Equipment/Wheelchair.png";
-import image9 from "../assets/Equipment/Portable-Oxygen-Concentrator.png";
-import image10 from "../assets/Equipment/First-Aid-Kit.png";
-import image11 from "../assets/Equipment/Home-Infusion-Pump (Ambulatory).png";
-import image12 from "../assets/Equipment/TENS Unit (Pain Relief Electrotherapy).png";
-import image13 from "../assets/Equipment/Suction.png";
-
-// Example environment variable for WhatsApp number
-const WHATSAPP_NUMBER = import.meta.env.VITE_WHATSAPP_NUMBER || "254796787207";
-
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  packSize?: string;
-  sku?: string;
-  currentPrice?: number;
-  originalPrice?: number;
-  discount?: string;
-  image: string;
-  stock?: number;
-  rating?: number;
-}
-
-// --- Data: Seeded for now (scalable for API use) ---
-const productsSeed: Product[] = [
-  { id: "bp-omron-001", name: "Upper-Arm Digital Blood Pressure Monitor", category: "Monitoring", packSize: "Unit", currentPrice: 5500, originalPrice: 7500, discount: "26% Off", image: image1, stock: 12, rating: 4.5 },
-  { id: "glucometer-001", name: "Blood Glucose Meter Kit", category: "Diabetes Care", packSize: "Kit", currentPrice: 2200, originalPrice: 2800, discount: "21% Off", image: image2, stock: 30, rating: 4.4 },
-  { id: "oximeter-001", name: "Finger Pulse Oximeter", category: "Monitoring", packSize: "Unit", currentPrice: 900, image: image3, stock: 40, rating: 4.3 },
-  { id: "nebulizer-001", name: "Portable Nebulizer", category: "Respiratory", packSize: "Unit", currentPrice: 3500, image: image4, stock: 18, rating: 4.1 },
-  { id: "stethoscope-001", name: "Clinical Stethoscope", category: "Diagnostics", packSize: "Unit", currentPrice: 1800, image: image5, stock: 22, rating: 4.6 },
-  { id: "scale-digital-001", name: "Digital Body Weight Scale", category: "Monitoring", packSize: "Unit", currentPrice: 2400, image: image6, stock: 16, rating: 4.0 },
-  { id: "walker-001", name: "Adjustable Walker", category: "Mobility Aids", packSize: "Unit", currentPrice: 4200, image: image8, stock: 8, rating: 4.1 },
-  { id: "wheelchair-basic-001", name: "Manual Wheelchair", category: "Mobility Aids", packSize: "Unit", currentPrice: 12500, image: image7, stock: 4, rating: 4.2 },
-  { id: "oxygen-conc-001", name: "Portable Oxygen Concentrator (Lightweight)", category: "Respiratory", packSize: "Unit", currentPrice: 85000, image: image9, stock: 2, rating: 4.4 },
-  { id: "firstaid-001", name: "First Aid Kit (Household, 120 pcs)", category: "First Aid", packSize: "Kit", currentPrice: 1500, image: image10, stock: 60, rating: 4.7 },
-  { id: "infusion-pump-001", name: "Home Infusion Pump (Ambulatory)", category: "Therapy", packSize: "Unit", currentPrice: 42000, image: image11, stock: 1, rating: 4.3 },
-  { id: "tens-001", name: "TENS Unit (Pain Relief Electrotherapy)", category: "Therapy", packSize: "Unit", currentPrice: 2100, image: image12, stock: 20, rating: 4.1 },
-  { id: "suction-001", name: "Portable Suction Device (Emergency)", category: "Emergency", packSize: "Unit", currentPrice: 5600, image: image13, stock: 6, rating: 4.0 }
-
-];
+// --- Data: shared catalog ---
+const productsSeed = getProductsByCategory("equipment");
 
 const Equipment: React.FC = () => {
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -99,21 +59,11 @@ const Equipment: React.FC = () => {
     return () => window.removeEventListener("keydown", handleKey);
   }, [scroll]);
 
-  const formatPrice = (value?: number) =>
-    value
-      ? new Intl.NumberFormat("en-KE", {
-          style: "currency",
-          currency: "KES",
-        })
-          .format(value)
-          .replace("KSh", "KSH")
-      : "Contact for price";
+  const priceLabel = (value?: number) => (value ? formatPrice(value) : "Contact for price");
 
   const orderViaWhatsApp = (p: Product) => {
-    const text = encodeURIComponent(
-      `Hello! I'm interested in ${p.name} (${p.category}). Price: ${formatPrice(p.currentPrice)}. Product ID: ${p.id}`
-    );
-    window.open(`https://wa.me/${WHATSAPP_NUMBER}?text=${text}`, "_blank");
+    const text = `Hello! I'm interested in ${p.name} (${p.subcategory}). Price: ${priceLabel(p.price)}. Product ID: ${p.id}`;
+    window.open(whatsappUrl(text), "_blank");
   };
 
   return (
@@ -148,25 +98,31 @@ const Equipment: React.FC = () => {
       </div>
 
       <div ref={scrollRef} className={styles.productsWrapper} tabIndex={0}>
-        {products.map((p) => (
+        {products.map((p) => {
+          const { status } = getStockLevel(p);
+          return (
           <article key={p.id} className={styles.card}>
-            {p.discount && <span className={styles.badge}>{p.discount}</span>}
+            {getDiscountPercent(p) > 0 && (
+              <span className={styles.badge}>{getDiscountPercent(p)}% Off</span>
+            )}
             <div className={styles.imageBox}>
               <img src={p.image} alt={p.name} loading="lazy" decoding="async" className={styles.image} />
             </div>
             <div className={styles.info}>
               <h3 className={styles.name}>{p.name}</h3>
               <p className={styles.meta}>
-                {p.category}
+                {p.subcategory}
                 {p.packSize && ` • ${p.packSize}`}
               </p>
               <div className={styles.priceRow}>
-                <span className={styles.current}>{formatPrice(p.currentPrice)}</span>
-                {p.originalPrice && <span className={styles.old}>{formatPrice(p.originalPrice)}</span>}
+                <span className={styles.current}>{priceLabel(p.price)}</span>
+                {p.originalPrice && <span className={styles.old}>{priceLabel(p.originalPrice)}</span>}
               </div>
+              <p className={`${styles.stock} ${status === "in-stock" ? "" : styles.stockLow}`}>{getStockLabel(p)}</p>
               <div className={styles.actions}>
                 <button
                   onClick={() => orderViaWhatsApp(p)}
+                  disabled={status === "out-of-stock"}
                   className={styles.orderBtn}
                   aria-label={`Order ${p.name}`}
                 >
@@ -181,7 +137,8 @@ const Equipment: React.FC = () => {
               </div>
             </div>
           </article>
-        ))}
+          );
+        })}
       </div>
     </section>
   );
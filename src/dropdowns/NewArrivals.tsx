@@ -1,119 +1,27 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useCart } from '../context/CartContext';
+import { getProductPath, getProductsByTag, toCartItem, type Product } from '../catalog';
+import { isSoldOut } from '../inventory';
+import LowStockBadge from '../components/LowStockBadge';
+import { useWishlist } from '../context/WishlistContext';
+import { formatPrice } from '../config';
 import styles from './NewArrivals.module.css';
 
-interface Product {
-  id: number;
-  name: string;
-  brand: string;
-  price: number;
-  image: string;
-  isFavorite: boolean;
-}
-
-
-
-// === Import images ===
-import pic1 from "../assets/products/2025-1Sunshine-Nutrition-Melatonin-5mg.png";
-import pic2 from "../assets/products/Folic-Acid-5mg.png";
-import pic3 from "../assets/products/Mason-Natural-Magnesium-Oxide-500mg-100'S.png";
-import pic4 from "../assets/products/Sunshine-Nutrition-Vitamin-C.png";
-import pic5 from "../assets/products/Sunshine-Nutrition-Skin-Radiance-EFF-Pineapple.png";
-import pic6 from "../assets/products/Sunshine-Nutrition-Zinc-Gluconate-50mg.png";
-import pic7 from "../assets/products/2Sunshine-Nutrition-Good-Morning-Multivitamin + 9 60'S.png";
-import pic8 from "../assets/products/Piriteze-Allergy-Tablets-10'S.png";
+const products = getProductsByTag('new-arrival');
 
 const NewArrivals: React.FC = () => {
-  const [products, setProducts] = useState<Product[]>([
-    {
-      id: 1,
-      name: 'Sunshine Nutrition Melatonin 5mg Tablets 100\'S',
-      brand: 'Sunshine Nutrition',
-      price: 3200.00,
-      image: pic1,
-      isFavorite: false
-    },
-
-  
-    {
-      id: 2,
-      name: 'Folic Acid 5mg',
-      brand: 'Lab Brand',
-      price: 344.00,
-      image: pic2,
-      isFavorite: false
-    },
-    {
-      id: 3,
-      name: 'Mason Natural Magnesium Oxide 500mg 100\'S',
-      brand: 'Mason Natural',
-      price: 3096.00,
-      image: pic3,
-      isFavorite: false
-    },
-    {
-      id: 4,
-      name: 'Sunshine Nutrition Vitamin C 1000mg HT Tabs 100\'S',
-      brand: 'Sunshine Nutrition',
-      price: 3200.00,
-      image: pic4,
-      isFavorite: false
-    },
-    {
-      id: 5,
-      name: 'Sunshine Nutrition Skin Radiance EFF Pineapple 20\'S',
-      brand: 'Sunshine Nutrition',
-      price: 1800.00,
-      image: pic5,
-      isFavorite: false
-    },
-    {
-      id: 6,
-      name: 'Sunshine Nutrition Zinc Gluconate 50mg Gss 100\'S',
-      brand: 'Sunshine Nutrition',
-      price: 2700.00,
-      image: pic6,
-      isFavorite: false
-    },
-    {
-      id: 7,
-      name: 'Sunshine Nutrition Good Morning Multivitamin + 9 60\'S',
-      brand: 'Sunshine Nutrition',
-      price: 3800.00,
-      image: pic7,
-      isFavorite: false
-    },
-    {
-      id: 8,
-      name: 'Piritaze Allergy Tablets 10\'S',
-      brand: 'Niiux',
-      price: 1040.00,
-      image: pic8,
-      isFavorite: false
-    }
-  ]);
-
-  const toggleFavorite = (id: number): void => {
-    setProducts(prevProducts =>
-      prevProducts.map(product =>
-        product.id === id
-          ? { ...product, isFavorite: !product.isFavorite }
-          : product
-      )
-    );
-  };
-
-  const handleAddToCart = (productId: number): void => {
-    console.log(`Product ${productId} added to cart`);
-    // Implement cart logic here
-  };
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const { addToCart } = useCart();
+  const navigate = useNavigate();
 
-  const handleViewDetails = (productId: number): void => {
-    console.log(`Viewing details for product ${productId}`);
-    // Implement navigation to product details
+  const handleAddToCart = (product: Product): void => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart`);
   };
 
-  const formatPrice = (price: number): string => {
-    return `Kes ${price.toFixed(2)}`;
+  const handleViewDetails = (product: Product): void => {
+    navigate(getProductPath(product));
   };
 
   return (
@@ -122,7 +30,9 @@ const NewArrivals: React.FC = () => {
         <h2 id="new-arrivals-heading" className={styles.title}>
           New Arrivals
         </h2>
-        <p className={styles.subtitle}>Showing 20 out of 20</p>
+        <p className={styles.subtitle}>
+          Showing {products.length} out of {products.length}
+        </p>
       </div>
 
       <div className={styles.productGrid} role="list">
@@ -135,15 +45,15 @@ const NewArrivals: React.FC = () => {
             <div className={styles.cardHeader}>
               <button
                 className={styles.favoriteBtn}
-                onClick={() => toggleFavorite(product.id)}
-                aria-label={product.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
-                aria-pressed={product.isFavorite}
+                onClick={() => toggleWishlist(product.id)}
+                aria-label={isInWishlist(product.id) ? 'Remove from favorites' : 'Add to favorites'}
+                aria-pressed={isInWishlist(product.id)}
               >
                 <svg
                   width="20"
                   height="20"
                   viewBox="0 0 24 24"
-                  fill={product.isFavorite ? '#10b981' : 'none'}
+                  fill={isInWishlist(product.id) ? '#10b981' : 'none'}
                   stroke="#10b981"
                   strokeWidth="2"
                   strokeLinecap="round"
@@ -179,7 +89,7 @@ const NewArrivals: React.FC = () => {
                 <button
                   className={styles.iconBtn}
                   aria-label="View product details"
-                  onClick={() => handleViewDetails(product.id)}
+                  onClick={() => handleViewDetails(product)}
                 >
                   <svg
                     width="18"
@@ -212,12 +122,14 @@ const NewArrivals: React.FC = () => {
               <h3 className={styles.productName}>{product.name}</h3>
               <p className={styles.productBrand}>{product.brand}</p>
               <p className={styles.productPrice}>{formatPrice(product.price)}</p>
+              <LowStockBadge product={product} />
             </div>
 
             <div className={styles.cardFooter}>
               <button
                 className={styles.addBtn}
-                onClick={() => handleAddToCart(product.id)}
+                onClick={() => handleAddToCart(product)}
+                disabled={isSoldOut(product)}
                 aria-label={`Add ${product.name} to cart`}
               >
                 <svg
@@ -238,7 +150,7 @@ const NewArrivals: React.FC = () => {
               </button>
               <button
                 className={styles.detailsBtn}
-                onClick={() => handleViewDetails(product.id)}
+                onClick={() => handleViewDetails(product)}
               >
                 View Details
               </button>
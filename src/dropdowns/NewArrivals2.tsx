@@ -1,74 +1,21 @@
 import React, { useRef, useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useCart } from '../context/CartContext';
+import { getProductPath, getProductsByTag, toCartItem, type Product } from '../catalog';
+import { isSoldOut } from '../inventory';
+import LowStockBadge from '../components/LowStockBadge';
+import { splitPrice, STORE } from '../config';
 import styles from './NewArrivals2.module.css';
 
-
-
-// === Import images ===
-import pic1 from "../assets/products/Anua-Azelaic-Acid+Hyaluron-Redness-Soothing-Serum.png";
-import pic2 from "../assets/products/anua-heartleaf-pore-control-cleansing-OIL.png";
-import pic3 from "../assets/products/Ariul-Hydro-Sleeping-Mask-80g.png";
-import pic4 from "../assets/products/Axis-Y-Dark-Spot-Correcting-Glow-Serum-50g.png";
-import pic5 from "../assets/products/Beauty-of-joseon-ginseng-cleansing-oil-210ml.png";
-
-interface Product {
-  id: number;
-  image: string;
-  category: string;
-  name: string;
-  price: number;
-  currency: string;
-  outOfStock?: boolean;
-}
+const products = getProductsByTag('new-in-beauty');
 
 const NewArrivals1: React.FC = () => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const { addToCart } = useCart();
   const [canScrollLeft, setCanScrollLeft] = useState(false);
   const [canScrollRight, setCanScrollRight] = useState(true);
 
-  const products: Product[] = [
-    {
-      id: 1,
-      image: pic1,
-      category: 'Beauty and Skin Care',
-      name: 'Anua Azaleic Acid+Hyaluron Redness Soothing Serum',
-      price: 3200,
-      currency: 'KES'
-    },
-    {
-      id: 2,
-      image: pic2,
-      category: 'Beauty and Skin Care',
-      name: 'Anua Heartleaf Pore Control Cleansing Oil 200ml',
-      price: 2700,
-      currency: 'KES'
-    },
-    {
-      id: 3,
-      image: pic3,
-      category: 'Beauty and Skin Care',
-      name: 'Ariul Hydro Sleeping Mask 80g',
-      price: 0,
-      currency: 'KES',
-      outOfStock: true
-    },
-    {
-      id: 4,
-      image: pic4,
-      category: 'New on MYDAWA',
-      name: 'Axis-Y Dark Spot Correcting Glow Serum 50g',
-      price: 2800,
-      currency: 'KES'
-    },
-    {
-      id: 5,
-      image: pic5,
-      category: 'Beauty and Skin Care',
-      name: 'Beauty of Joseon Ginseng Cleansing Oil 210ml',
-      price: 3000,
-      currency: 'KES'
-    }
-  ];
-
   const checkScrollButtons = () => {
     if (scrollContainerRef.current) {
       const { scrollLeft, scrollWidth, clientWidth } = scrollContainerRef.current;
@@ -97,15 +44,15 @@ const NewArrivals1: React.FC = () => {
     }
   };
 
-  const handleAddToCart = (productId: number) => {
-    console.log(`Add to cart: ${productId}`);
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart`);
   };
 
   return (
     <section className={styles.newArrivals} aria-labelledby="new-arrivals-heading">
       <div className={styles.container}>
         <h2 id="new-arrivals-heading" className={styles.heading}>
-          New At Healthfield 
+          New At {STORE.name}
         </h2>
 
         <div className={styles.carouselWrapper}>
@@ -156,25 +103,31 @@ const NewArrivals1: React.FC = () => {
                 </div>
 
                 <div className={styles.productInfo}>
-                  <p className={styles.category}>{product.category}</p>
+                  <p className={styles.category}>{product.subcategory}</p>
                   <h3 className={styles.productName}>{product.name}</h3>
+                  <LowStockBadge product={product} />
 
                   <div className={styles.productFooter}>
-                    {product.outOfStock ? (
-                      <span className={styles.outOfStock}>Out Of Stock</span>
+                    {isSoldOut(product) ? (
+                      <span className={styles.outOfStock}>
+                        Out Of Stock
+                        <Link to={getProductPath(product)} className={styles.notifyLink}>
+                          Notify me
+                        </Link>
+                      </span>
                     ) : (
                       <p className={styles.price}>
-                        <span className={styles.currency}>{product.currency}</span>
+                        <span className={styles.currency}>{splitPrice(product.price)[0]}</span>
                         <span className={styles.amount}>
-                          {product.price.toLocaleString()}
+                          {splitPrice(product.price)[1]}
                         </span>
                       </p>
                     )}
 
                     <button
                       className={styles.cartButton}
-                      onClick={() => handleAddToCart(product.id)}
-                      disabled={product.outOfStock}
+                      onClick={() => handleAddToCart(product)}
+                      disabled={isSoldOut(product)}
                       aria-label={`Add ${product.name} to cart`}
                       type="button"
                     >
@@ -1,73 +1,40 @@
 // src/components/offers/Offers.tsx
 import React, { useState, memo } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import { ShoppingCart, MessageCircle } from "lucide-react";
+import toast from "react-hot-toast";
+import { useCart } from "../context/CartContext";
+import {
+  getDiscountPercent,
+  getProductPath,
+  getProductsByCategory,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
+import { formatPrice, whatsappUrl } from "../config";
 import styles from "./../pages/Offers.module.css";
 
-// === Import placeholder images (replace with your own product images later) ===
-import pic1 from "../assets/products/OTC/Ibuprofen.png";
-import pic2 from "../assets/products/OTC/Acetaminophen.png";
-import pic3 from "../assets/products/OTC/Loratadine.png";
-import pic4 from "../assets/products/OTC/Diphenhydramine.png";
-import pic5 from "../assets/products/OTC/Famotidine.png";
-import pic6 from "../assets/products/OTC/Omeprazole.png";
-import pic7 from "../assets/products/OTC/Loperamide.png";
-import pic8 from "../assets/products/OTC/Psyllium.png";
-import pic9 from "../assets/products/OTC/Pepto.png";
-import pic10 from "../assets/products/OTC/Dextromethorphan.png";
-import pic11 from "../assets/products/OTC/Guaifenesin.png";
-import pic12 from "../assets/products/OTC//Acetylsalicylic.png";
-import pic13 from "../assets/products/OTC/Hydrocortisone.png";
-import pic14 from "../assets/products/OTC/Neosporin.png";
-import pic15 from "../assets/products/OTC/PlanB.png";
-import pic16 from "../assets/products/OTC/Nicotinepatch.png";
-import pic17 from "../assets/products/OTC/Melatonin.png";
-import pic18 from "../assets/products/OTC/VitaminC.png";
-import pic19 from "../assets/products/OTC/Salinespray.png";
-import pic20 from "../assets/products/OTC/Zinc.png"; 
-
-type OTC = {
-  id: string;
-  name: string;
-  image: string;
-  discount: number;
-  price: number;
-  oldPrice: number;
-};
-
-const OTCData: OTC[] = [
-  { id: "1", name: "Ibuprofen (Advil®, Motrin®) – Pain & Inflammation", image: pic1, discount: 15, price: 490, oldPrice: 560 },
-  { id: "2", name: "Acetaminophen (Tylenol®) – Pain & Fever", image: pic2, discount: 12, price: 450, oldPrice: 510 },
-  { id: "3", name: "Loratadine (Claritin®) – Allergy Relief", image: pic3, discount: 10, price: 780, oldPrice: 850 },
-  { id: "4", name: "Diphenhydramine (Benadryl®) – Sleep & Allergy", image: pic4, discount: 12, price: 620, oldPrice: 700 },
-  { id: "5", name: "Famotidine (Pepcid®) – Heartburn Relief", image: pic5, discount: 14, price: 350, oldPrice: 410 },
-  { id: "6", name: "Omeprazole (Prilosec®) – Acid Reflux", image: pic6, discount: 11, price: 820, oldPrice: 910 },
-  { id: "7", name: "Loperamide (Imodium®) – Diarrhea Control", image: pic7, discount: 13, price: 290, oldPrice: 330 },
-  { id: "8", name: "Psyllium Fiber (Metamucil®) – Constipation", image: pic8, discount: 10, price: 670, oldPrice: 750 },
-  { id: "9", name: "Bismuth Subsalicylate (Pepto-Bismol®) – Upset Stomach", image: pic9, discount: 15, price: 540, oldPrice: 620 },
-  { id: "10", name: "Dextromethorphan (Delsym®) – Cough Suppressant", image: pic10, discount: 14, price: 690, oldPrice: 750 },
-  { id: "11", name: "Guaifenesin (Mucinex®) – Chest Congestion", image: pic11, discount: 10, price: 720, oldPrice: 790 },
-  { id: "12", name: "Aspirin (Bayer®) – Pain & Heart Health", image: pic12, discount: 11, price: 250, oldPrice: 280 },
-  { id: "13", name: "Hydrocortisone 1% Cream – Rash & Itch Relief", image: pic13, discount: 10, price: 390, oldPrice: 440 },
-  { id: "14", name: "Neosporin® Ointment – Minor Cuts & Wounds", image: pic14, discount: 13, price: 650, oldPrice: 720 },
-  { id: "15", name: "Plan B One-Step® – Emergency Contraceptive", image: pic15, discount: 10, price: 3400, oldPrice: 3650 }, 
-  { id: "16", name: "Nicotine Patch (Nicoderm®) – Smoking Cessation", image: pic16, discount: 12, price: 1850, oldPrice: 1990 },
-  { id: "17", name: "Melatonin – Natural Sleep Aid", image: pic17, discount: 14, price: 560, oldPrice: 640 },
-  { id: "18", name: "Vitamin C 1000mg – Immunity Support", image: pic18, discount: 10, price: 430, oldPrice: 480 },
-  { id: "19", name: "Saline Nasal Spray – Nasal Dryness & Allergy", image: pic19, discount: 11, price: 320, oldPrice: 360 },
-  { id: "20", name: "Zinc Lozenges – Cold & Immunity Support", image: pic20, discount: 9, price: 400, oldPrice: 440 },
-];
-
-const WHATSAPP_NUMBER = "254796787207";
-const WHATSAPP_MESSAGE = encodeURIComponent("Hello, I’d like to order this product:");
-
-const OTC: React.FC = memo(() => {
+const OTCData = getProductsByCategory("otc");
+
+const WHATSAPP_MESSAGE = "Hello, I’d like to order this product:";
+
+const OTC: React.FC<ListingPageProps> = memo(({ embedded }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { addToCart } = useCart();
+  const listing = useListing(OTCData, { enabled: !embedded });
+
+  const handleAddToCart = (offer: Product) => {
+    if (addToCart(toCartItem(offer))) toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
+  };
 
   const handleWhatsAppOrder = (productName: string) => {
-    const whatsappLink = `https://wa.me/${WHATSAPP_NUMBER}?text=${WHATSAPP_MESSAGE}%20${encodeURIComponent(
-      productName
-    )}`;
-    window.open(whatsappLink, "_blank");
+    window.open(whatsappUrl(`${WHATSAPP_MESSAGE} ${productName}`), "_blank");
   };
 
   const handleImageClick = (image: string) => {
@@ -86,11 +53,15 @@ const OTC: React.FC = memo(() => {
         </Link>
       </div>
 
+      <ListingToolbar listing={listing} />
+
       {/* === Offers Grid === */}
       <div className={styles.offersGrid}>
-        {OTCData.map((offer) => (
+        {listing.items.map((offer) => (
           <div key={offer.id} className={styles.card}>
-            <div className={styles.discountTag}>-{offer.discount}%</div>
+            {getDiscountPercent(offer) > 0 && (
+              <div className={styles.discountTag}>-{getDiscountPercent(offer)}%</div>
+            )}
 
             <div className={styles.imageWrapper}>
               <img
@@ -111,22 +82,35 @@ const OTC: React.FC = memo(() => {
             <div className={styles.info}>
               <p className={styles.name}>{offer.name}</p>
               <div className={styles.prices}>
-                <span className={styles.newPrice}>KSh {offer.price.toLocaleString()}</span>
-                <span className={styles.oldPrice}>KSh {offer.oldPrice.toLocaleString()}</span>
+                <span className={styles.newPrice}>{formatPrice(offer.price)}</span>
+                {offer.originalPrice && (
+                  <span className={styles.oldPrice}>{formatPrice(offer.originalPrice)}</span>
+                )}
               </div>
+              <LowStockBadge product={offer} />
             </div>
 
             <div className={styles.actions}>
               <button
                 className={styles.addToCart}
+                onClick={() => handleAddToCart(offer)}
+                disabled={isSoldOut(offer)}
+              >
+                <ShoppingCart size={18} strokeWidth={1.8} />
+                <span>Add to Cart</span>
+              </button>
+
+              <button
+                className={styles.whatsappBtn}
                 onClick={() => handleWhatsAppOrder(offer.name)}
               >
-                Order via WhatsApp
+                <MessageCircle size={18} strokeWidth={1.8} />
+                <span>Order via WhatsApp</span>
               </button>
 
               <button
                 className={styles.viewProduct}
-                onClick={() => handleImageClick(offer.image)}
+                onClick={() => navigate(getProductPath(offer))}
               >
                 View Product
               </button>
@@ -134,6 +118,7 @@ const OTC: React.FC = memo(() => {
           </div>
         ))}
       </div>
+      <ListingPagination listing={listing} />
 
       {/* === Image Modal === */}
       {selectedImage && (
@@ -1,11 +1,15 @@
 import { useState, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { withRedirect } from '../auth';
+import { useAddressBook } from '../context/AddressBookContext';
+import { useAuth } from '../context/AuthContext';
+import ProgressSteps from '../components/ProgressSteps';
+import PrescriptionImageEditor from '../components/PrescriptionImageEditor';
+import UploadStatus from '../components/UploadStatus';
+import { QUALITY_WARNING_MESSAGES, usePreparedFiles, usePrescriptionSubmit } from '../prescriptions';
+import { getWelcomeOffer } from '../promotions';
 import styles from './Prescription.module.css';
 
-interface PrescriptionFile {
-  file: File;
-  preview: string;
-}
-
 interface RecipientInfo {
   fullName: string;
   phone: string;
@@ -16,18 +20,29 @@ interface RecipientInfo {
 }
 
 const Prescription: React.FC = () => {
+  const { user } = useAuth();
+  const welcomeOffer = getWelcomeOffer();
+  const { selectedAddress } = useAddressBook();
+  const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState(1);
-  const [prescriptions, setPrescriptions] = useState<PrescriptionFile[]>([]);
-  const [recipientInfo, setRecipientInfo] = useState<RecipientInfo>({
-    fullName: '',
-    phone: '',
-    email: '',
-    deliveryAddress: '',
-    city: '',
+  const prescriptions = usePreparedFiles({ scope: 'wizard' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [fileError, setFileError] = useState('');
+  // Signed-in customers start with their own details, and everyone with their chosen address
+  const [recipientInfo, setRecipientInfo] = useState<RecipientInfo>(() => ({
+    fullName: user?.fullName ?? '',
+    phone: user?.phone ?? '',
+    email: user?.email ?? '',
+    deliveryAddress: selectedAddress
+      ? [selectedAddress.street, selectedAddress.area, selectedAddress.landmark].filter(Boolean).join(', ')
+      : '',
+    city: selectedAddress?.town ?? '',
     additionalInfo: ''
-  });
+  }));
   const [paymentMethod, setPaymentMethod] = useState<'mpesa' | 'card' | ''>('');
   const [mpesaPhone, setMpesaPhone] = useState('');
+  const [prescriberName, setPrescriberName] = useState('');
+  const submission = usePrescriptionSubmit();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const steps = [
@@ -38,24 +53,20 @@ const Prescription: React.FC = () => {
     { number: 5, label: 'Complete' }
   ];
 
+  // Photos are straightened and compressed in the browser, then upload in the background
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files) {
-      const newFiles = Array.from(files).map(file => ({
-        file,
-        preview: URL.createObjectURL(file)
-      }));
-      setPrescriptions([...prescriptions, ...newFiles]);
-    }
+    const rejected = prescriptions.add(e.target.files);
+    setFileError(rejected.join(' '));
+    e.target.value = '';
   };
 
-  const removeFile = (index: number) => {
-    const newPrescriptions = [...prescriptions];
-    URL.revokeObjectURL(newPrescriptions[index].preview);
-    newPrescriptions.splice(index, 1);
-    setPrescriptions(newPrescriptions);
+  const removeFile = (id: string) => {
+    if (editingId === id) setEditingId(null);
+    prescriptions.remove(id);
   };
 
+  const editing = prescriptions.files.find(f => f.id === editingId && f.kind === 'image');
+
   const handleNext = () => {
     if (currentStep < 5) {
       setCurrentStep(currentStep + 1);
@@ -70,11 +81,37 @@ const Prescription: React.FC = () => {
     }
   };
 
+  const handleSubmit = async () => {
+    if (!paymentMethod || prescriptions.uploading) return;
+    const receipt = await submission.submit({
+      source: 'wizard',
+      files: prescriptions.uploaded,
+      patient: {
+        fullName: recipientInfo.fullName,
+        phone: recipientInfo.phone,
+        email: recipientInfo.email
+      },
+      prescriber: prescriberName.trim() ? { name: prescriberName.trim() } : undefined,
+      delivery: {
+        method: 'delivery',
+        address: recipientInfo.deliveryAddress,
+        city: recipientInfo.city,
+        notes: recipientInfo.additionalInfo
+      },
+      payment: { method: paymentMethod, phone: paymentMethod === 'mpesa' ? mpesaPhone : undefined },
+      accountId: user?.id
+    });
+    if (!receipt) return;
+    prescriptions.clear(); // sent — don't bring these back after a reload
+    handleNext();
+  };
+
   const handleRecipientChange = (field: keyof RecipientInfo, value: string) => {
     setRecipientInfo({ ...recipientInfo, [field]: value });
   };
 
-  const canProceedFromUploads = prescriptions.length > 0;
+  const canProceedFromUploads =
+    prescriptions.files.length > 0 && !prescriptions.processing && !prescriptions.hasErrors;
   const canProceedFromRecipient = recipientInfo.fullName && recipientInfo.phone && recipientInfo.deliveryAddress && recipientInfo.city;
   const canProceedFromPayment = paymentMethod && (paymentMethod !== 'mpesa' || mpesaPhone);
 
@@ -84,21 +121,7 @@ const Prescription: React.FC = () => {
         <h1 className={styles.mainTitle}>Submit Prescription</h1>
 
         {/* Progress Steps */}
-        <div className={styles.progressContainer}>
-          {steps.map((step, index) => (
-            <div key={step.number} className={styles.stepWrapper}>
-              <div className={styles.stepItem}>
-                <div className={`${styles.stepCircle} ${currentStep >= step.number ? styles.stepActive : ''}`}>
-                  {step.number}
-                </div>
-                <span className={styles.stepLabel}>{step.label}</span>
-              </div>
-              {index < steps.length - 1 && (
-                <div className={`${styles.stepLine} ${currentStep > step.number ? styles.stepLineActive : ''}`} />
-              )}
-            </div>
-          ))}
-        </div>
+        <ProgressSteps steps={steps} current={currentStep} />
 
         {/* Step Content */}
         <div className={styles.stepContent}>
@@ -113,13 +136,21 @@ const Prescription: React.FC = () => {
                 Upload your first prescription photo
               </button>
 
-              <div className={styles.infoBox}>
-                <h3 className={styles.infoTitle}>Did you know?</h3>
-                <p className={styles.infoText}>
-                  If you create an account with us, you will get <strong>10% off your next purchase</strong>
-                </p>
-                <button className={styles.secondaryButton}>Create account now</button>
-              </div>
+              {!user && welcomeOffer && (
+                <div className={styles.infoBox}>
+                  <h3 className={styles.infoTitle}>Did you know?</h3>
+                  <p className={styles.infoText}>
+                    If you create an account with us, you will get{' '}
+                    <strong>{welcomeOffer.summary ?? welcomeOffer.label}</strong>
+                  </p>
+                  <button
+                    className={styles.secondaryButton}
+                    onClick={() => navigate(withRedirect('/register', '/prescription'))}
+                  >
+                    Create account now
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
@@ -136,7 +167,7 @@ const Prescription: React.FC = () => {
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept="image/*"
+                  accept="image/*,.pdf"
                   multiple
                   className={styles.fileInput}
                 />
@@ -153,14 +184,44 @@ const Prescription: React.FC = () => {
                 </button>
               </div>
 
-              {prescriptions.length > 0 && (
+              {fileError && <p className={styles.errorText} role="alert">{fileError}</p>}
+
+              {prescriptions.files.length > 0 && (
                 <div className={styles.previewGrid}>
-                  {prescriptions.map((prescription, index) => (
-                    <div key={index} className={styles.previewCard}>
-                      <img src={prescription.preview} alt={`Prescription ${index + 1}`} className={styles.previewImage} />
+                  {prescriptions.files.map((prescription, index) => (
+                    <div key={prescription.id} className={styles.previewCard}>
+                      {prescription.previewUrl ? (
+                        <img src={prescription.previewUrl} alt={`Prescription ${index + 1}`} className={styles.previewImage} />
+                      ) : (
+                        <div className={styles.previewPlaceholder}>
+                          {prescription.status === 'processing' ? 'Preparing…' : prescription.kind === 'pdf' ? 'PDF' : ''}
+                        </div>
+                      )}
+                      <div className={styles.previewFooter}>
+                        {(prescription.error || prescription.warnings.length > 0) && (
+                          <p className={prescription.error ? styles.previewError : styles.previewWarning}>
+                            {prescription.error ?? QUALITY_WARNING_MESSAGES[prescription.warnings[0]]}
+                          </p>
+                        )}
+                        <UploadStatus
+                          className={styles.previewUpload}
+                          upload={prescription.upload}
+                          onRetry={() => prescriptions.retry(prescription.id)}
+                        />
+                      </div>
+                      {prescription.kind === 'image' && prescription.previewUrl && (
+                        <button
+                          className={styles.editButton}
+                          onClick={() => setEditingId(editingId === prescription.id ? null : prescription.id)}
+                          aria-label={`Rotate or crop prescription ${index + 1}`}
+                        >
+                          Edit
+                        </button>
+                      )}
                       <button 
                         className={styles.removeButton}
-                        onClick={() => removeFile(index)}
+                        onClick={() => removeFile(prescription.id)}
+                        aria-label={`Remove prescription ${index + 1}`}
                       >
                         ×
                       </button>
@@ -169,6 +230,15 @@ const Prescription: React.FC = () => {
                 </div>
               )}
 
+              {editing && (
+                <PrescriptionImageEditor
+                  file={editing}
+                  onRotate={(direction) => prescriptions.rotate(editing.id, direction)}
+                  onCrop={(rect) => prescriptions.crop(editing.id, rect)}
+                  onClose={() => setEditingId(null)}
+                />
+              )}
+
               <div className={styles.buttonGroup}>
                 <button className={styles.backButton} onClick={handleBack}>Back</button>
                 <button 
@@ -250,6 +320,17 @@ const Prescription: React.FC = () => {
                   />
                 </div>
 
+                <div className={styles.formGroup}>
+                  <label className={styles.label}>Prescribing Doctor</label>
+                  <input
+                    type="text"
+                    className={styles.input}
+                    value={prescriberName}
+                    onChange={(e) => setPrescriberName(e.target.value)}
+                    placeholder="Doctor's name (optional)"
+                  />
+                </div>
+
                 <div className={styles.formGroup}>
                   <label className={styles.label}>Additional Information</label>
                   <textarea
@@ -329,14 +410,38 @@ const Prescription: React.FC = () => {
                 </div>
               </div>
 
+              {submission.status === 'error' && (
+                <p className={styles.errorText} role="alert">{submission.error}</p>
+              )}
+              {prescriptions.hasErrors && (
+                <p className={styles.errorText} role="alert">
+                  Some prescription files didn't upload. Go back to retry or remove them.
+                </p>
+              )}
+
               <div className={styles.buttonGroup}>
-                <button className={styles.backButton} onClick={handleBack}>Back</button>
+                <button
+                  className={styles.backButton}
+                  onClick={handleBack}
+                  disabled={submission.status === 'submitting'}
+                >
+                  Back
+                </button>
                 <button 
                   className={styles.primaryButton} 
-                  onClick={handleNext}
-                  disabled={!canProceedFromPayment}
+                  onClick={handleSubmit}
+                  disabled={
+                    !canProceedFromPayment ||
+                    submission.status === 'submitting' ||
+                    prescriptions.uploading ||
+                    prescriptions.hasErrors
+                  }
                 >
-                  Complete Submission
+                  {submission.status === 'submitting'
+                    ? 'Submitting…'
+                    : prescriptions.uploading
+                      ? `Finishing uploads (${prescriptions.uploaded.length}/${prescriptions.files.length})…`
+                      : 'Complete Submission'}
                 </button>
               </div>
             </div>
@@ -357,14 +462,19 @@ const Prescription: React.FC = () => {
               </p>
               <p className={styles.successInfo}>
                 You will receive a confirmation message on <strong>{recipientInfo.phone}</strong>
-                {recipientInfo.email && <> and at <strong>{recipientInfo.email}</strong></>}
+                {recipientInfo.email && <> and at <strong>{recipientInfo.email}</strong></>}.
+                Quote your reference when you contact us.
               </p>
 
               <div className={styles.summaryBox}>
                 <h3 className={styles.summaryTitle}>Submission Summary</h3>
+                <div className={styles.summaryItem}>
+                  <span className={styles.summaryLabel}>Reference:</span>
+                  <span className={styles.summaryValue}><strong>{submission.receipt?.reference}</strong></span>
+                </div>
                 <div className={styles.summaryItem}>
                   <span className={styles.summaryLabel}>Prescriptions Uploaded:</span>
-                  <span className={styles.summaryValue}>{prescriptions.length}</span>
+                  <span className={styles.summaryValue}>{submission.receipt?.files.length}</span>
                 </div>
                 <div className={styles.summaryItem}>
                   <span className={styles.summaryLabel}>Recipient:</span>
@@ -381,12 +491,22 @@ const Prescription: React.FC = () => {
               </div>
 
               <div className={styles.buttonGroup}>
-                <button className={styles.primaryButton} onClick={() => window.location.href = '/'}>
+                {submission.receipt && (
+                  <Link
+                    to={`/prescription/status/${submission.receipt.reference}`}
+                    className={styles.primaryButton}
+                  >
+                    Track this prescription
+                  </Link>
+                )}
+                <button className={styles.secondaryButton} onClick={() => window.location.href = '/'}>
                   Return to Home
                 </button>
                 <button className={styles.secondaryButton} onClick={() => {
                   setCurrentStep(1);
-                  setPrescriptions([]);
+                  prescriptions.clear();
+                  setEditingId(null);
+                  setFileError('');
                   setRecipientInfo({
                     fullName: '',
                     phone: '',
@@ -397,6 +517,8 @@ const Prescription: React.FC = () => {
                   });
                   setPaymentMethod('');
                   setMpesaPhone('');
+                  setPrescriberName('');
+                  submission.reset();
                 }}>
                   Submit Another Prescription
                 </button>
@@ -4,26 +4,41 @@
 // Paired CSS: PrescriptionUpload.module.css
 // ============================================================
 
-import React, { useRef, useState, useCallback } from "react";
+import React, { useRef, useState, useCallback, useMemo } from "react";
 import type { DragEvent } from "react";
+import { Link } from "react-router-dom";
+import PrescriptionImageEditor from "../components/PrescriptionImageEditor";
+import UploadStatus from "../components/UploadStatus";
+import { useAuth } from "../context/AuthContext";
+import {
+  createUploadQueue,
+  getUploadQueue,
+  MAX_PRESCRIPTION_FILE_SIZE,
+  QUALITY_WARNING_MESSAGES,
+  usePreparedFiles,
+  usePrescriptionSubmit,
+  type PatientDetails,
+  type PrescriptionAdapter,
+  type PrescriptionReceipt,
+  type PrescriptionSource,
+} from "../prescriptions";
 import styles from "./PrescriptionUpload.module.css";
 
-export type UploadResult = {
-  fileName: string;
-  size: number;
-  type: string;
-  url?: string; // optional server URL after successful upload
-};
-
 interface Props {
-  /** Optional server endpoint to POST files to. If not provided, onComplete will be called with local results. */
-  uploadUrl?: string;
-  /** Maximum allowed file size in bytes (default: 10 MB). */
+  /** Backend to upload and submit to (default: the configured prescription adapter). */
+  adapter?: PrescriptionAdapter;
+  /** Which flow is uploading, recorded with the submission (default: "upload"). */
+  source?: PrescriptionSource;
+  /** Prefills the patient's name and phone. */
+  patient?: Partial<PatientDetails>;
+  /** Cart lines this prescription covers, when uploading from the cart. */
+  cartItemIds?: string[];
+  /** Maximum upload size per file in bytes, after compression (default: 10 MB). */
   maxFileSize?: number;
   /** Allowed MIME types / extensions (default: images + PDF). */
   accept?: string;
-  /** Callback when upload finishes (success or local-only). */
-  onComplete?: (results: UploadResult[]) => void;
+  /** Called with the receipt once the pharmacy has accepted the upload. */
+  onComplete?: (receipt: PrescriptionReceipt) => void;
   /** Optional container className for layout control. */
   className?: string;
 }
@@ -38,63 +53,41 @@ const formatBytes = (bytes: number) => {
 };
 
 export default function PrescriptionUpload({
-  uploadUrl,
-  maxFileSize = 10 * 1024 * 1024,
+  adapter,
+  source = "upload",
+  patient,
+  cartItemIds,
+  maxFileSize = MAX_PRESCRIPTION_FILE_SIZE,
   accept = "image/*,.pdf",
   onComplete,
   className = "",
 }: Props) {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [dragActive, setDragActive] = useState(false);
-  const [files, setFiles] = useState<File[]>([]);
-  const [previews, setPreviews] = useState<Record<string, string>>({});
   const [error, setError] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState<number>(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const [fullName, setFullName] = useState(patient?.fullName ?? user?.fullName ?? "");
+  const [phone, setPhone] = useState(patient?.phone ?? user?.phone ?? "");
+  // Files upload as soon as they're prepared; the button only sends the submission
+  const queue = useMemo(() => (adapter ? createUploadQueue({ adapter }) : getUploadQueue()), [adapter]);
+  const prepared = usePreparedFiles({ scope: source, maxFileSize, queue });
+  const { files, add: addFiles } = prepared;
+  const upload = usePrescriptionSubmit(adapter);
+  const sending = upload.status === "submitting";
+  const waiting = prepared.processing || prepared.uploading;
+  const editing = files.find((f) => f.id === editingId && f.kind === "image");
 
   // ============================================================
   // VALIDATION & FILE HANDLING
   // ============================================================
+  // Photos are straightened and compressed in the browser before upload
   const validateAndAdd = useCallback(
     (incoming: FileList | null) => {
-      if (!incoming) return;
-      setError(null);
-
-      const allowed: File[] = [];
-      for (let i = 0; i < incoming.length; i++) {
-        const f = incoming[i];
-        if (f.size > maxFileSize) {
-          setError(
-            `File "${f.name}" is too large (${formatBytes(
-              f.size
-            )}). Max allowed: ${formatBytes(maxFileSize)}.`
-          );
-          continue;
-        }
-        allowed.push(f);
-      }
-
-      if (allowed.length === 0) return;
-
-      setFiles((prev) => {
-        const combined = [...prev, ...allowed].slice(0, 8); // max 8
-        allowed.forEach((f) => {
-          if (f.type.startsWith("image/")) {
-            const reader = new FileReader();
-            reader.onload = (e) =>
-              setPreviews((p) => ({
-                ...p,
-                [f.name]: String(e.target?.result ?? ""),
-              }));
-            reader.readAsDataURL(f);
-          } else {
-            setPreviews((p) => ({ ...p, [f.name]: "" }));
-          }
-        });
-        return combined;
-      });
+      const rejected = addFiles(incoming);
+      setError(rejected.length ? rejected.join(" ") : null);
     },
-    [maxFileSize]
+    [addFiles]
   );
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -132,84 +125,36 @@ export default function PrescriptionUpload({
       setError("Please add at least one file to upload.");
       return;
     }
+    if (prepared.hasErrors) {
+      setError("Retry or remove the files marked with a problem before sending.");
+      return;
+    }
+    if (waiting) {
+      setError("Please wait — your files are still uploading.");
+      return;
+    }
 
     setError(null);
-    setUploading(true);
-    setProgress(0);
-
-    try {
-      if (uploadUrl) {
-        const formData = new FormData();
-        files.forEach((f) => formData.append("prescriptions", f));
-
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-          xhr.open("POST", uploadUrl, true);
-
-          xhr.upload.onprogress = (ev) => {
-            if (ev.lengthComputable) {
-              setProgress(Math.round((ev.loaded / ev.total) * 100));
-            }
-          };
-
-          xhr.onload = () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              try {
-                const json = JSON.parse(xhr.responseText);
-                const results: UploadResult[] = files.map((f, i) => ({
-                  fileName: f.name,
-                  size: f.size,
-                  type: f.type,
-                  url: json?.files?.[i]?.url,
-                }));
-                onComplete?.(results);
-              } catch {
-                onComplete?.(
-                  files.map((f) => ({
-                    fileName: f.name,
-                    size: f.size,
-                    type: f.type,
-                  }))
-                );
-              }
-              resolve();
-            } else {
-              reject(new Error(`Upload failed with status ${xhr.status}`));
-            }
-          };
+    setEditingId(null);
+    const receipt = await upload.submit({
+      source,
+      files: prepared.uploaded,
+      patient: { fullName, phone, email: patient?.email ?? user?.email },
+      cartItemIds,
+      accountId: user?.id,
+    });
+    if (!receipt) return;
 
-          xhr.onerror = () => reject(new Error("Network error during upload."));
-          xhr.send(formData);
-        });
-      } else {
-        // fallback: no server upload
-        onComplete?.(
-          files.map((f) => ({
-            fileName: f.name,
-            size: f.size,
-            type: f.type,
-          }))
-        );
-      }
-    } catch (err: any) {
-      console.error(err);
-      setError(err?.message ?? "Upload failed.");
-    } finally {
-      setUploading(false);
-      setProgress(0);
-    }
+    prepared.clear();
+    onComplete?.(receipt);
   };
 
   // ============================================================
   // REMOVE FILE
   // ============================================================
-  const removeFile = (name: string) => {
-    setFiles((prev) => prev.filter((f) => f.name !== name));
-    setPreviews((p) => {
-      const next = { ...p };
-      delete next[name];
-      return next;
-    });
+  const removeFile = (id: string) => {
+    if (editingId === id) setEditingId(null);
+    prepared.remove(id);
   };
 
   // ============================================================
@@ -303,9 +248,16 @@ export default function PrescriptionUpload({
         </div>
       </div>
 
-      {error && (
+      {(error || upload.status === "error") && (
         <div className={styles.error} role="alert">
-          {error}
+          {error ?? upload.error}
+        </div>
+      )}
+
+      {upload.status === "submitted" && upload.receipt && (
+        <div className={styles.success} role="status">
+          Prescription received. Your reference is <strong>{upload.receipt.reference}</strong>.{" "}
+          <Link to={`/prescription/status/${upload.receipt.reference}`}>Track its progress</Link>
         </div>
       )}
 
@@ -313,10 +265,10 @@ export default function PrescriptionUpload({
         <div className={styles.previewWrap}>
           <ul className={styles.previewList}>
             {files.map((f) => (
-              <li key={f.name} className={styles.previewItem}>
+              <li key={f.id} className={styles.previewItem}>
                 <div className={styles.thumb} aria-hidden>
-                  {previews[f.name] ? (
-                    <img src={previews[f.name]} alt={`${f.name} preview`} />
+                  {f.previewUrl ? (
+                    <img src={f.previewUrl} alt={`${f.original.name} preview`} />
                   ) : (
                     <div className={styles.pdfIcon} aria-hidden>
                       <svg
@@ -346,18 +298,47 @@ export default function PrescriptionUpload({
                 </div>
 
                 <div className={styles.meta}>
-                  <div className={styles.name} title={f.name}>
-                    {f.name}
+                  <div className={styles.name} title={f.original.name}>
+                    {f.original.name}
+                  </div>
+                  <div className={styles.size}>
+                    {f.status === "processing"
+                      ? "Preparing…"
+                      : f.file !== f.original
+                        ? `${formatBytes(f.original.size)} → ${formatBytes(f.file.size)}`
+                        : formatBytes(f.file.size)}
+                    {!!f.pageCount && ` · ${f.pageCount} page${f.pageCount > 1 ? "s" : ""}`}
                   </div>
-                  <div className={styles.size}>{formatBytes(f.size)}</div>
+                  {f.error && (
+                    <div className={styles.fileError} role="alert">
+                      {f.error}
+                    </div>
+                  )}
+                  {f.warnings.map((w) => (
+                    <div key={w} className={styles.warning}>
+                      {QUALITY_WARNING_MESSAGES[w]}
+                    </div>
+                  ))}
+                  <UploadStatus upload={f.upload} onRetry={() => prepared.retry(f.id)} />
                 </div>
 
                 <div className={styles.actions}>
+                  {f.kind === "image" && f.previewUrl && (
+                    <button
+                      type="button"
+                      className={styles.editBtn}
+                      onClick={() => setEditingId(editingId === f.id ? null : f.id)}
+                      aria-expanded={editingId === f.id}
+                      aria-label={`Rotate or crop ${f.original.name}`}
+                    >
+                      Edit
+                    </button>
+                  )}
                   <button
                     type="button"
                     className={styles.removeBtn}
-                    onClick={() => removeFile(f.name)}
-                    aria-label={`Remove ${f.name}`}
+                    onClick={() => removeFile(f.id)}
+                    aria-label={`Remove ${f.original.name}`}
                   >
                     Remove
                   </button>
@@ -366,12 +347,50 @@ export default function PrescriptionUpload({
             ))}
           </ul>
 
+          {editing && (
+            <PrescriptionImageEditor
+              file={editing}
+              onRotate={(direction) => prepared.rotate(editing.id, direction)}
+              onCrop={(rect) => prepared.crop(editing.id, rect)}
+              onClose={() => setEditingId(null)}
+            />
+          )}
+
+          <div className={styles.patient}>
+            <label className={styles.field}>
+              <span>Patient name</span>
+              <input
+                type="text"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                autoComplete="name"
+                placeholder="Full name"
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Phone number</span>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                autoComplete="tel"
+                placeholder="0712 345 678"
+              />
+            </label>
+          </div>
+
           <div className={styles.uploadBar}>
             <div className={styles.leftActions}>
               <div className={styles.count}>
                 {files.length} file{files.length > 1 ? "s" : ""}
               </div>
-              <div className={styles.instructions}>Ready to upload</div>
+              <div className={styles.instructions}>
+                {prepared.processing
+                  ? "Preparing files…"
+                  : prepared.uploading
+                    ? `Uploading ${prepared.uploaded.length} of ${files.length}…`
+                    : "All files uploaded"}
+              </div>
             </div>
 
             <div className={styles.rightActions}>
@@ -379,9 +398,9 @@ export default function PrescriptionUpload({
                 type="button"
                 className={styles.uploadBtn}
                 onClick={handleUpload}
-                disabled={uploading}
+                disabled={sending || waiting || prepared.hasErrors}
               >
-                {uploading ? `Uploading ${progress}%` : "Upload"}
+                {sending ? "Sending…" : "Send to pharmacist"}
               </button>
             </div>
           </div>
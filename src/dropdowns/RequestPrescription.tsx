@@ -4,6 +4,10 @@
 // ==========================================================
 
 import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import UploadStatus from "../components/UploadStatus";
+import { useAuth } from "../context/AuthContext";
+import { usePreparedFiles, usePrescriptionSubmit } from "../prescriptions";
 import styles from "./RequestPrescription.module.css";
 
 interface FormData {
@@ -12,21 +16,31 @@ interface FormData {
   phone: string;
   prescriptionDetails: string;
   doctorName: string;
-  file?: File | null;
 }
 
+const EMPTY_FORM: FormData = {
+  fullName: "",
+  email: "",
+  phone: "",
+  prescriptionDetails: "",
+  doctorName: "",
+};
+
 const RequestPrescription: React.FC = () => {
-  const [formData, setFormData] = useState<FormData>({
-    fullName: "",
-    email: "",
-    phone: "",
-    prescriptionDetails: "",
-    doctorName: "",
-    file: null,
-  });
-
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [message, setMessage] = useState("");
+  const { user } = useAuth();
+  // Signed-in customers start with their own details filled in
+  const startingForm: FormData = {
+    ...EMPTY_FORM,
+    fullName: user?.fullName ?? "",
+    email: user?.email ?? "",
+    phone: user?.phone ?? "",
+  };
+  const [formData, setFormData] = useState<FormData>(startingForm);
+  const [fileError, setFileError] = useState("");
+  const attachments = usePreparedFiles({ scope: "request" });
+  const { status, error, receipt, submit } = usePrescriptionSubmit();
+  const isSubmitting = status === "submitting";
+  const isUploading = attachments.processing || attachments.uploading;
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -35,29 +49,29 @@ const RequestPrescription: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  // Attachments upload in the background while the rest of the form is filled in
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files ? e.target.files[0] : null;
-    setFormData(prev => ({ ...prev, file }));
+    setFileError(attachments.add(e.target.files).join(" "));
+    e.target.value = "";
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
-    setMessage("");
-
-    // Simulate form submission (replace with your API endpoint)
-    setTimeout(() => {
-      setIsSubmitting(false);
-      setMessage("✅ Prescription request submitted successfully!");
-      setFormData({
-        fullName: "",
-        email: "",
-        phone: "",
-        prescriptionDetails: "",
-        doctorName: "",
-        file: null,
-      });
-    }, 2000);
+    if (isUploading || attachments.hasErrors) return;
+
+    const sent = await submit({
+      source: "request",
+      files: attachments.uploaded,
+      patient: { fullName: formData.fullName, phone: formData.phone, email: formData.email },
+      prescriber: formData.doctorName.trim() ? { name: formData.doctorName.trim() } : undefined,
+      details: formData.prescriptionDetails,
+      accountId: user?.id,
+    });
+
+    if (sent) {
+      setFormData(startingForm);
+      attachments.clear();
+    }
   };
 
   return (
@@ -68,6 +82,11 @@ const RequestPrescription: React.FC = () => {
           Please fill in the form below to request a new or refill prescription. 
           Our pharmacists will review and get back to you promptly.
         </p>
+        <p className={styles.repeatHint}>
+          Take the same medicines every month?{" "}
+          <Link to="/prescription/repeat">Save them as repeat medicines</Link> and we'll remind you before they
+          run out.
+        </p>
 
         <form className={styles.form} onSubmit={handleSubmit} aria-label="Prescription Request Form">
           <div className={styles.formGroup}>
@@ -103,11 +122,11 @@ const RequestPrescription: React.FC = () => {
                 id="phone"
                 name="phone"
                 type="tel"
-                pattern="[0-9+\- ]{7,15}"
+                pattern="[0-9+\- ]{10,16}"
                 value={formData.phone}
                 onChange={handleChange}
                 required
-                placeholder="+1 555 123 4567"
+                placeholder="0712 345 678"
               />
             </div>
           </div>
@@ -144,20 +163,59 @@ const RequestPrescription: React.FC = () => {
               name="file"
               type="file"
               accept=".pdf,image/*"
+              multiple
               onChange={handleFileChange}
               aria-label="Upload prescription file"
             />
+            {fileError && (
+              <p className={styles.fileError} role="alert">
+                {fileError}
+              </p>
+            )}
+            {attachments.files.length > 0 && (
+              <ul className={styles.fileList}>
+                {attachments.files.map((f) => (
+                  <li key={f.id} className={styles.fileItem}>
+                    <div className={styles.fileInfo}>
+                      <span className={styles.fileName}>{f.original.name}</span>
+                      {f.status === "processing" && <span className={styles.fileNote}>Preparing…</span>}
+                      {f.error && <span className={styles.fileError}>{f.error}</span>}
+                      <UploadStatus upload={f.upload} onRetry={() => attachments.retry(f.id)} />
+                    </div>
+                    <button
+                      type="button"
+                      className={styles.removeBtn}
+                      onClick={() => attachments.remove(f.id)}
+                      aria-label={`Remove ${f.original.name}`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <button
             type="submit"
             className={styles.submitBtn}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isUploading || attachments.hasErrors}
           >
-            {isSubmitting ? "Submitting..." : "Submit Request"}
+            {isSubmitting ? "Submitting..." : isUploading ? "Uploading files..." : "Submit Request"}
           </button>
 
-          {message && <p className={styles.successMsg}>{message}</p>}
+          {status === "error" && (
+            <p className={styles.errorMsg} role="alert">
+              {error}
+            </p>
+          )}
+          {status === "submitted" && receipt && (
+            <p className={styles.successMsg} role="status">
+              ✅ Prescription request submitted! Your reference is{" "}
+              <strong>{receipt.reference}</strong> — quote it when you contact us.{" "}
+              <Link to={`/prescription/status/${receipt.reference}`}>Track it here</Link>.
+            </p>
+          )}
         </form>
       </div>
     </section>
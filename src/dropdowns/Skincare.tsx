@@ -2,61 +2,35 @@
 import React, { useState, memo } from "react";
 import { Link } from "react-router-dom";
 
-
 import { ShoppingCart, } from "lucide-react";
 import { useCart } from "../context/CartContext";
+import {
+  getDiscountPercent,
+  getProductPath,
+  getProductsByTag,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+import ListingPagination from "../components/ListingPagination";
 import toast from "react-hot-toast";
+import { formatPrice } from "../config";
 import styles from "./Offers.module.css";
 
+const offersData = getProductsByTag("everyday-relief");
 
-// === Import images ===
-import pic1 from "../assets/products/Allergy.png";
-import pic2 from "../assets/products/Anthelios.png";
-import pic3 from "../assets/products/Contraception.png";
-import pic4 from "../assets/products/Cough.png";
-import pic5 from "../assets/products/Headache.png";
-import pic6 from "../assets/products/Eno.png";
-import pic7 from "../assets/products/Diclofenac.png";
-import pic8 from "../assets/products/UTI.png";
-
-type Offer = {
-  id: string;
-  name: string;
-  image: string;
-  discount: number;
-  price: number;
-  oldPrice: number;
-};
-
-const offersData: Offer[] = [
-  { id: "1", name: "Allergy Relief", image: pic1, discount: 12, price: 350, oldPrice: 490 },
-  { id: "2", name: "La Roche-Posay Effaclar Foaming Gel", image: pic2, discount: 12, price: 830, oldPrice: 980 },
-  { id: "3", name: "Emergency Contraception", image: pic3, discount: 11, price: 1700, oldPrice: 2035 },
-  { id: "4", name: "Benyllin Cough Syrup", image: pic4, discount: 15, price: 989, oldPrice: 1075 },
-  { id: "5", name: "Paracetamol Headache Relief", image: pic5, discount: 15, price: 84, oldPrice: 95 },
-  { id: "6", name: "ENO Antacid Relief", image: pic6, discount: 11, price: 50, oldPrice: 75 },
-  { id: "7", name: "Diclofenac Pain Relief", image: pic7, discount: 15, price: 159, oldPrice: 175 },
-  { id: "8", name: "Cystex Painful Urination Relief", image: pic8, discount: 15, price: 214, oldPrice: 305 },
-];
-
-const SkinCare: React.FC = memo(() => {
+const SkinCare: React.FC<ListingPageProps> = memo(({ embedded }) => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
    const { addToCart } = useCart();
+   const listing = useListing(offersData, { enabled: !embedded });
 
-
-
-     const handleAddToCart = (offer: Offer) => {
-       addToCart({
-         id: offer.id,
-         name: offer.name,
-         price: offer.price,
-         image: offer.image,
-         quantity: 1,
-       });
-       toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
+     const handleAddToCart = (offer: Product) => {
+       if (addToCart(toCartItem(offer))) toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
      };
 
-
   const handleImageClick = (image: string) => {
     setSelectedImage(image);
   };
@@ -73,11 +47,15 @@ const SkinCare: React.FC = memo(() => {
         </Link>
       </div>
 
+      <ListingToolbar listing={listing} />
+
       {/* === Offers Grid === */}
       <div className={styles.offersGrid}>
-        {offersData.map((offer) => (
+        {listing.items.map((offer) => (
           <div key={offer.id} className={styles.card}>
-            <div className={styles.discountTag}>-{offer.discount}%</div>
+            {getDiscountPercent(offer) > 0 && (
+              <div className={styles.discountTag}>-{getDiscountPercent(offer)}%</div>
+            )}
 
             <div className={styles.imageWrapper}>
               <img
@@ -96,15 +74,22 @@ const SkinCare: React.FC = memo(() => {
             </div>
 
             <div className={styles.info}>
-              <p className={styles.name}>{offer.name}</p>
+              <p className={styles.name}>
+                <Link to={getProductPath(offer)} className={styles.nameLink}>
+                  {offer.name}
+                </Link>
+              </p>
               <div className={styles.prices}>
                 <span className={styles.newPrice}>
-                  KSh {offer.price.toLocaleString()}
-                </span>
-                <span className={styles.oldPrice}>
-                  KSh {offer.oldPrice.toLocaleString()}
+                  {formatPrice(offer.price)}
                 </span>
+                {offer.originalPrice && (
+                  <span className={styles.oldPrice}>
+                    {formatPrice(offer.originalPrice)}
+                  </span>
+                )}
               </div>
+              <LowStockBadge product={offer} />
             </div>
              
             <div className={styles.actions}>
@@ -112,6 +97,7 @@ const SkinCare: React.FC = memo(() => {
               <button
                 className={styles.addToCart}
                 onClick={() => handleAddToCart(offer)}
+                disabled={isSoldOut(offer)}
               >
                 <ShoppingCart size={18} strokeWidth={1.8} />
                 <span>Add to Cart</span>
@@ -121,6 +107,7 @@ const SkinCare: React.FC = memo(() => {
           </div>
         ))}
       </div>
+      <ListingPagination listing={listing} />
 
       {/* === Image Modal === */}
       {selectedImage && (
@@ -139,4 +126,3 @@ const SkinCare: React.FC = memo(() => {
 
 export default SkinCare;
 
-
@@ -0,0 +1,15 @@
+// src/inventory/index.ts — stock levels and cart stock checks
+
+export type { StockIssue, StockLevel, StockStatus } from "./types";
+
+export {
+  checkCartStock,
+  describeStockIssue,
+  getAvailableQuantity,
+  getLineAvailable,
+  getStockLabel,
+  getStockLevel,
+  isSoldOut,
+  LOW_STOCK_THRESHOLD,
+  recordSale,
+} from "./stock";
@@ -0,0 +1,92 @@
+// src/inventory/stock.ts
+
+import { getProductById, type Product } from "../catalog";
+import type { CartItem } from "../context/CartContext";
+import type { StockIssue, StockLevel } from "./types";
+
+/** At or below this many units, cards say "Only N left". */
+export const LOW_STOCK_THRESHOLD = 10;
+
+/* ---------------------------------------------------------------
+   Units sold — counted SKUs go down as orders are placed. Kept in
+   localStorage until stock comes from the pharmacy's system.
+--------------------------------------------------------------- */
+export const SOLD_KEY = "inventory_sold_v1"; // bump version if shape changes
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readSold = (): Record<string, number> => {
+  try {
+    const raw = defaultStorage()?.getItem(SOLD_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Takes a placed order's units off the shelf. */
+export const recordSale = (items: readonly Pick<CartItem, "id" | "quantity">[]): void => {
+  const sold = readSold();
+  for (const item of items) {
+    if (getProductById(item.id)?.stockQuantity === undefined) continue;
+    sold[item.id] = (sold[item.id] ?? 0) + item.quantity;
+  }
+  try {
+    defaultStorage()?.setItem(SOLD_KEY, JSON.stringify(sold));
+  } catch (err) {
+    console.warn("Inventory: couldn't save units sold", err);
+  }
+};
+
+/* ---------------------------------------------------------------
+   Levels
+--------------------------------------------------------------- */
+export const getStockLevel = (product: Pick<Product, "id" | "inStock" | "stockQuantity">): StockLevel => {
+  if (!product.inStock) return { status: "out-of-stock", available: 0 };
+  if (product.stockQuantity === undefined) return { status: "in-stock", available: null };
+
+  const available = Math.max(0, product.stockQuantity - (readSold()[product.id] ?? 0));
+  if (available === 0) return { status: "out-of-stock", available };
+  return { status: available <= LOW_STOCK_THRESHOLD ? "low-stock" : "in-stock", available };
+};
+
+export const isSoldOut = (product: Pick<Product, "id" | "inStock" | "stockQuantity">): boolean =>
+  getStockLevel(product).status === "out-of-stock";
+
+export const getStockLabel = (product: Pick<Product, "id" | "inStock" | "stockQuantity">): string => {
+  const { status, available } = getStockLevel(product);
+  if (status === "out-of-stock") return "Out of Stock";
+  return status === "low-stock" ? `Only ${available} left` : "In Stock";
+};
+
+/** Most units of a product one cart can hold: 0 when it can't be sold, Infinity when it isn't counted. */
+export const getAvailableQuantity = (productId: string): number => {
+  const product = getProductById(productId);
+  if (!product) return 0;
+  return getStockLevel(product).available ?? Infinity;
+};
+
+/**
+ * Same, for a line already in a cart. Items a pharmacist quoted by hand
+ * aren't in the catalog; the pharmacy sources those, so they aren't capped.
+ */
+export const getLineAvailable = (item: Pick<CartItem, "id" | "quoteReference">): number =>
+  item.quoteReference && !getProductById(item.id) ? Infinity : getAvailableQuantity(item.id);
+
+/* ---------------------------------------------------------------
+   Cart checks — run again before checkout, since stock can sell
+   out while a cart sits in storage
+--------------------------------------------------------------- */
+export const checkCartStock = (
+  items: readonly Pick<CartItem, "id" | "name" | "quantity" | "quoteReference">[]
+): StockIssue[] =>
+  items.flatMap((item) => {
+    const available = getLineAvailable(item);
+    return item.quantity > available
+      ? [{ id: item.id, name: item.name, requested: item.quantity, available }]
+      : [];
+  });
+
+export const describeStockIssue = ({ name, available }: StockIssue): string =>
+  available === 0 ? `${name} is out of stock` : `Only ${available} of ${name} left`;
@@ -0,0 +1,21 @@
+// src/inventory/types.ts
+
+/* ---------------------------------------------------------------
+   Stock
+--------------------------------------------------------------- */
+export type StockStatus = "in-stock" | "low-stock" | "out-of-stock";
+
+export interface StockLevel {
+  status: StockStatus;
+  /** Units that can still be sold; null for SKUs whose stock isn't counted */
+  available: number | null;
+}
+
+/** A cart line asking for more than the shelf has. */
+export interface StockIssue {
+  id: string;
+  name: string;
+  requested: number;
+  /** 0 when the product is out of stock or no longer sold */
+  available: number;
+}
@@ -0,0 +1,101 @@
+// src/listing/filter.ts
+
+import { getDiscountPercent, type Product, type ProductTag } from "../catalog";
+import { isSoldOut } from "../inventory";
+import { getFlashOffer } from "../promotions";
+import type { FacetOption, ListingFacets, ListingFilters, ListingSort } from "./types";
+
+/* ---------------------------------------------------------------
+   Helpers
+--------------------------------------------------------------- */
+
+/** A catalog markdown or a flash sale running right now. */
+export const isOnSale = (product: Product, now: Date = new Date()): boolean =>
+  getDiscountPercent(product) > 0 || getFlashOffer(product.id, { now }) !== null;
+
+/** Some catalog entries aren't priced yet (0); they never match a price range. */
+const isPriced = (product: Product) => product.price > 0;
+
+const toFacet = (values: (string | undefined)[]): FacetOption[] => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => value && counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+};
+
+/* ---------------------------------------------------------------
+   Facets
+--------------------------------------------------------------- */
+export const getListingFacets = (products: readonly Product[], now: Date = new Date()): ListingFacets => {
+  const prices = products.filter(isPriced).map((p) => p.price);
+  const rxCount = products.filter((p) => p.requiresPrescription).length;
+
+  return {
+    brands: toFacet(products.map((p) => p.brand)),
+    subcategories: toFacet(products.map((p) => p.subcategory)),
+    priceRange: prices.length ? { min: Math.min(...prices), max: Math.max(...prices) } : undefined,
+    mixedRx: rxCount > 0 && rxCount < products.length,
+    rated: products.some((p) => p.rating !== undefined),
+    onSale: products.some((p) => isOnSale(p, now)),
+  };
+};
+
+/* ---------------------------------------------------------------
+   Filter
+--------------------------------------------------------------- */
+export const filterProducts = (
+  products: readonly Product[],
+  filters: ListingFilters,
+  now: Date = new Date()
+): Product[] =>
+  products.filter((p) => {
+    const { minPrice, maxPrice, brands, subcategories, rx, minRating } = filters;
+    if ((minPrice !== undefined || maxPrice !== undefined) && !isPriced(p)) return false;
+    if (minPrice !== undefined && p.price < minPrice) return false;
+    if (maxPrice !== undefined && p.price > maxPrice) return false;
+    if (brands.length && !(p.brand && brands.includes(p.brand))) return false;
+    if (subcategories.length && !(p.subcategory && subcategories.includes(p.subcategory))) return false;
+    if (filters.inStock && isSoldOut(p)) return false;
+    if (filters.onSale && !isOnSale(p, now)) return false;
+    if (rx && (rx === "rx") !== Boolean(p.requiresPrescription)) return false;
+    if (minRating && (p.rating ?? 0) < minRating) return false;
+    return true;
+  });
+
+/* ---------------------------------------------------------------
+   Sort — stable, so ties keep catalog ("featured") order
+--------------------------------------------------------------- */
+
+/** Merchandising tags stand in for sales data until the catalog carries it. */
+const POPULARITY: Partial<Record<ProductTag, number>> = { "best-seller": 3, trending: 2 };
+
+const popularity = (p: Product) => p.tags.reduce((sum, tag) => sum + (POPULARITY[tag] ?? 0), 0);
+
+/** The catalog has no listing dates; items tagged as new lead. */
+const isNew = (p: Product) => p.tags.includes("new-arrival") || p.tags.includes("new-in-beauty");
+
+const COMPARATORS: Record<Exclude<ListingSort, "featured">, (a: Product, b: Product) => number> = {
+  // Unpriced items sink to the end either way
+  "price-asc": (a, b) => Number(!isPriced(a)) - Number(!isPriced(b)) || a.price - b.price,
+  "price-desc": (a, b) => Number(!isPriced(a)) - Number(!isPriced(b)) || b.price - a.price,
+  popular: (a, b) => popularity(b) - popularity(a) || (b.rating ?? 0) - (a.rating ?? 0),
+  rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+  newest: (a, b) => Number(isNew(b)) - Number(isNew(a)),
+};
+
+export const sortProducts = (products: readonly Product[], sort: ListingSort): Product[] =>
+  sort === "featured" ? [...products] : [...products].sort(COMPARATORS[sort]);
+
+/* ---------------------------------------------------------------
+   Pagination
+--------------------------------------------------------------- */
+
+/** Slices out `page`, clamped to the pages that exist; an infinite `pageSize` is one page. */
+export const paginate = <T>(items: readonly T[], page: number, pageSize: number) => {
+  if (!Number.isFinite(pageSize)) return { items: [...items], page: 1, pageCount: 1 };
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  const start = (current - 1) * pageSize;
+  return { items: items.slice(start, start + pageSize), page: current, pageCount };
+};
@@ -0,0 +1,16 @@
+// src/listing/index.ts — filters, sorting and pagination for product listing pages, kept in the URL
+
+export type {
+  FacetOption,
+  ListingFacets,
+  ListingFilters,
+  ListingPageProps,
+  ListingQuery,
+  ListingSort,
+  RxFilter,
+} from "./types";
+export type { Listing } from "./useListing";
+
+export { filterProducts, getListingFacets, isOnSale, paginate, sortProducts } from "./filter";
+export { countActiveFilters, DEFAULT_QUERY, parseListingQuery, SORT_LABELS, writeListingQuery } from "./query";
+export { DEFAULT_PAGE_SIZE, useListing } from "./useListing";
@@ -0,0 +1,104 @@
+// src/listing/query.ts
+
+import type { ListingFilters, ListingQuery, ListingSort, RxFilter } from "./types";
+
+/* ---------------------------------------------------------------
+   URL keys — short so shared links stay readable, e.g.
+   ?brand=Cetaphil&stock=1&sort=price-asc&page=2
+--------------------------------------------------------------- */
+const KEYS = {
+  minPrice: "min",
+  maxPrice: "max",
+  brands: "brand",
+  subcategories: "type",
+  inStock: "stock",
+  onSale: "sale",
+  rx: "rx",
+  minRating: "rating",
+  sort: "sort",
+  page: "page",
+} as const;
+
+export const SORT_LABELS: Record<ListingSort, string> = {
+  featured: "Featured",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  popular: "Most popular",
+  rating: "Top rated",
+  newest: "Newest",
+};
+
+export const DEFAULT_QUERY: ListingQuery = {
+  brands: [],
+  subcategories: [],
+  inStock: false,
+  onSale: false,
+  sort: "featured",
+  page: 1,
+};
+
+const readNumber = (raw: string | null): number | undefined => {
+  if (raw === null || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+const isSort = (raw: string | null): raw is ListingSort => raw !== null && raw in SORT_LABELS;
+
+const isRx = (raw: string | null): raw is RxFilter => raw === "rx" || raw === "otc";
+
+/* ---------------------------------------------------------------
+   Parse / write — anything unrecognised falls back to the default,
+   so hand-edited or stale links still open a sensible view
+--------------------------------------------------------------- */
+export const parseListingQuery = (params: URLSearchParams): ListingQuery => {
+  const rating = readNumber(params.get(KEYS.minRating));
+  const page = readNumber(params.get(KEYS.page));
+  const sort = params.get(KEYS.sort);
+  const rx = params.get(KEYS.rx);
+
+  return {
+    minPrice: readNumber(params.get(KEYS.minPrice)),
+    maxPrice: readNumber(params.get(KEYS.maxPrice)),
+    brands: params.getAll(KEYS.brands).filter(Boolean),
+    subcategories: params.getAll(KEYS.subcategories).filter(Boolean),
+    inStock: params.get(KEYS.inStock) === "1",
+    onSale: params.get(KEYS.onSale) === "1",
+    rx: isRx(rx) ? rx : undefined,
+    minRating: rating && rating >= 1 && rating <= 5 ? Math.floor(rating) : undefined,
+    sort: isSort(sort) ? sort : DEFAULT_QUERY.sort,
+    page: page && page >= 1 ? Math.floor(page) : DEFAULT_QUERY.page,
+  };
+};
+
+/**
+ * Writes `query` over `base`, leaving unrelated params (such as a
+ * search term) alone. Defaults are left out to keep links short.
+ */
+export const writeListingQuery = (query: ListingQuery, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  Object.values(KEYS).forEach((key) => params.delete(key));
+
+  if (query.minPrice !== undefined) params.set(KEYS.minPrice, String(query.minPrice));
+  if (query.maxPrice !== undefined) params.set(KEYS.maxPrice, String(query.maxPrice));
+  query.brands.forEach((brand) => params.append(KEYS.brands, brand));
+  query.subcategories.forEach((sub) => params.append(KEYS.subcategories, sub));
+  if (query.inStock) params.set(KEYS.inStock, "1");
+  if (query.onSale) params.set(KEYS.onSale, "1");
+  if (query.rx) params.set(KEYS.rx, query.rx);
+  if (query.minRating) params.set(KEYS.minRating, String(query.minRating));
+  if (query.sort !== DEFAULT_QUERY.sort) params.set(KEYS.sort, query.sort);
+  if (query.page > 1) params.set(KEYS.page, String(query.page));
+
+  return params;
+};
+
+/** How many filters are narrowing the list — sort and page don't count. */
+export const countActiveFilters = (filters: ListingFilters): number =>
+  (filters.minPrice !== undefined || filters.maxPrice !== undefined ? 1 : 0) +
+  filters.brands.length +
+  filters.subcategories.length +
+  (filters.inStock ? 1 : 0) +
+  (filters.onSale ? 1 : 0) +
+  (filters.rx ? 1 : 0) +
+  (filters.minRating ? 1 : 0);
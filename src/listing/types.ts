@@ -0,0 +1,56 @@
+// src/listing/types.ts
+
+/* ---------------------------------------------------------------
+   Query — everything a listing page keeps in its URL
+--------------------------------------------------------------- */
+export type ListingSort = "featured" | "price-asc" | "price-desc" | "popular" | "rating" | "newest";
+
+/** Prescription-only medicines vs everything sold over the counter. */
+export type RxFilter = "rx" | "otc";
+
+export interface ListingFilters {
+  /** Inclusive price bounds in KES */
+  minPrice?: number;
+  maxPrice?: number;
+  brands: string[];
+  /** Shelf or drug class, matched against `Product.subcategory` */
+  subcategories: string[];
+  inStock: boolean;
+  onSale: boolean;
+  rx?: RxFilter;
+  /** Whole stars, 1–5 */
+  minRating?: number;
+}
+
+export interface ListingQuery extends ListingFilters {
+  sort: ListingSort;
+  /** 1-based */
+  page: number;
+}
+
+/* ---------------------------------------------------------------
+   Facets — the choices worth offering for one set of products
+--------------------------------------------------------------- */
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface ListingFacets {
+  brands: FacetOption[];
+  subcategories: FacetOption[];
+  /** Lowest and highest known prices, or undefined when nothing is priced */
+  priceRange?: { min: number; max: number };
+  /** Both prescription and OTC items are present */
+  mixedRx: boolean;
+  rated: boolean;
+  onSale: boolean;
+}
+
+/* ---------------------------------------------------------------
+   Pages
+--------------------------------------------------------------- */
+export interface ListingPageProps {
+  /** Shown as a section of another page: lists everything, no toolbar, URL left alone */
+  embedded?: boolean;
+}
@@ -0,0 +1,87 @@
+// src/listing/useListing.ts
+
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { Product } from "../catalog";
+import { filterProducts, getListingFacets, paginate, sortProducts } from "./filter";
+import { countActiveFilters, DEFAULT_QUERY, parseListingQuery, writeListingQuery } from "./query";
+import type { ListingFacets, ListingQuery } from "./types";
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+export interface Listing {
+  /** False for embedded sections; the toolbar and pager render nothing */
+  enabled: boolean;
+  query: ListingQuery;
+  facets: ListingFacets;
+  /** The products on the current page */
+  items: Product[];
+  /** Matches across all pages */
+  total: number;
+  page: number;
+  pageCount: number;
+  activeFilters: number;
+  /** Merges into the query; changing anything but the page goes back to page 1 */
+  update: (patch: Partial<ListingQuery>) => void;
+  clearFilters: () => void;
+}
+
+interface Options {
+  /** Use Infinity for carousels that scroll instead of paging */
+  pageSize?: number;
+  /**
+   * Off for sections shown inside another page (home, offers) — they
+   * list everything and leave the URL to the page around them.
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Filters, sorts and pages `products` from the URL query, so any view
+ * can be bookmarked or shared.
+ */
+export const useListing = (
+  products: readonly Product[],
+  { pageSize = DEFAULT_PAGE_SIZE, enabled = true }: Options = {}
+): Listing => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(
+    () => (enabled ? parseListingQuery(searchParams) : DEFAULT_QUERY),
+    [enabled, searchParams]
+  );
+
+  const facets = useMemo(() => getListingFacets(products), [products]);
+  const matches = useMemo(
+    () => sortProducts(filterProducts(products, query), query.sort),
+    [products, query]
+  );
+  const paged = useMemo(
+    () => (enabled ? paginate(matches, query.page, pageSize) : { items: matches, page: 1, pageCount: 1 }),
+    [enabled, matches, query.page, pageSize]
+  );
+
+  const update = useCallback(
+    (patch: Partial<ListingQuery>) => {
+      if (!enabled) return;
+      const next = { ...query, page: 1, ...patch };
+      // Paging gets its own history entry; filter tweaks replace the current one
+      setSearchParams((prev) => writeListingQuery(next, prev), { replace: !("page" in patch) });
+    },
+    [enabled, query, setSearchParams]
+  );
+
+  const clearFilters = useCallback(() => update({ ...DEFAULT_QUERY, sort: query.sort }), [update, query.sort]);
+
+  return {
+    enabled,
+    query,
+    facets,
+    items: paged.items,
+    total: matches.length,
+    page: paged.page,
+    pageCount: paged.pageCount,
+    activeFilters: countActiveFilters(query),
+    update,
+    clearFilters,
+  };
+};
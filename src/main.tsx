@@ -2,6 +2,7 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App.tsx";
+import { STORE } from "./config";
 import "./index.css";
 
 const container = document.getElementById("root");
@@ -9,6 +10,9 @@ if (!container) {
   throw new Error("Root container not found. Please ensure #root exists in index.html");
 }
 
+// Importing the store profile validates it; a bad config throws before render
+document.title = `${STORE.name} | ${STORE.tagline}`;
+
 const root = createRoot(container);
 
 root.render(
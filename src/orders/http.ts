@@ -0,0 +1,102 @@
+// src/orders/http.ts
+
+import type { Order } from "../checkout/types";
+import { OrderError, type OrderAdapter, type OrderRecord, type TrackedOrder } from "./types";
+
+/* ---------------------------------------------------------------
+   Backend adapter — JSON throughout
+
+     POST {baseUrl}/orders                        { order, accountId? } → OrderRecord
+     GET  {baseUrl}/orders?accountId=…            → OrderRecord[], newest first
+     GET  {baseUrl}/orders/:number?accountId=…    → OrderRecord
+       404 when the order isn't on that account
+     GET  {baseUrl}/orders/:number/track          → TrackedOrder
+
+   Account lookups are only answered for the signed-in owner;
+   tracking answers anyone with the number, without contact details.
+   Errors answer { message?, code? }.
+--------------------------------------------------------------- */
+export interface HttpOrderConfig {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+interface ErrorBody {
+  message?: string;
+  code?: string;
+}
+
+const parse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const NETWORK_ERROR = "Couldn't reach the pharmacy. Check your connection.";
+
+export const createHttpOrderAdapter = ({
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: HttpOrderConfig): OrderAdapter => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/orders`;
+
+  const request = async (url: string, body?: unknown): Promise<unknown> => {
+    let res: Response;
+    try {
+      res = await fetchImpl(url, {
+        method: body === undefined ? "GET" : "POST",
+        credentials: "include",
+        headers: {
+          Accept: "application/json",
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+    } catch {
+      throw new OrderError(NETWORK_ERROR, "network");
+    }
+
+    const data = parse(await res.text());
+    if (!res.ok) {
+      const { message, code } = (typeof data === "object" && data !== null ? data : {}) as ErrorBody;
+      if (res.status === 404) throw new OrderError(message ?? "We couldn't find that order.", code ?? "not_found");
+      throw new OrderError(
+        message ?? `Order service error (${res.status}).`,
+        code ?? (res.status >= 500 ? "server" : "rejected"),
+      );
+    }
+    return data;
+  };
+
+  const record = (data: unknown): OrderRecord => {
+    const order = data as Partial<OrderRecord> | undefined;
+    if (!order?.orderNumber || !Array.isArray(order.items)) {
+      throw new OrderError("The pharmacy sent an order we couldn't read.", "bad_response");
+    }
+    return { ...order, history: order.history ?? [] } as OrderRecord;
+  };
+
+  const account = (accountId: string) => `accountId=${encodeURIComponent(accountId)}`;
+
+  return {
+    name: "http",
+
+    recordOrder: (order: Order, accountId?: string) =>
+      request(endpoint, { order, ...(accountId && { accountId }) }).then(record),
+
+    listOrders: (accountId: string) =>
+      request(`${endpoint}?${account(accountId)}`).then((data) =>
+        (Array.isArray(data) ? data : []).map(record),
+      ),
+
+    getOrder: (accountId: string, orderNumber: string) =>
+      request(`${endpoint}/${encodeURIComponent(orderNumber)}?${account(accountId)}`).then(record),
+
+    trackOrder: (orderNumber: string) =>
+      request(`${endpoint}/${encodeURIComponent(orderNumber)}/track`).then(
+        (data) => record(data) as TrackedOrder,
+      ),
+  };
+};
@@ -0,0 +1,14 @@
+// src/orders/index.ts — order history: placed orders, their status, reordering
+
+export type { OrderAdapter, OrderEvent, OrderRecord, OrderStatus, TrackedOrder } from "./types";
+export type { HttpOrderConfig } from "./http";
+export type { MockOrderOptions } from "./mock";
+export type { PriceChange, ReorderPlan } from "./reorder";
+
+export { OrderError } from "./types";
+export { createHttpOrderAdapter } from "./http";
+export { createMockOrderAdapter } from "./mock";
+export { planReorder } from "./reorder";
+export { describeOrderError, getOrderAdapter, setOrderAdapter } from "./service";
+export { isOrderOpen, ORDER_STATUS_LABELS, ORDER_STATUS_NOTES } from "./status";
+export { useReorder } from "./useReorder";
@@ -0,0 +1,135 @@
+// src/orders/mock.ts
+
+import type { Order } from "../checkout/types";
+import {
+  OrderError,
+  type OrderAdapter,
+  type OrderEvent,
+  type OrderRecord,
+  type OrderStatus,
+  type TrackedOrder,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Local mock server — order history without a backend
+
+   Orders live in localStorage. Their status is worked out from
+   the clock whenever they are looked up, so history moves along
+   the way a real order would:
+
+     placed → confirmed (confirmAfterMs later)
+            → out for delivery / ready for pickup (slot start)
+            → delivered (end of the quoted delivery window)
+
+   Collection is marked at the pickup counter, so pickup orders
+   stop at "ready for pickup".
+--------------------------------------------------------------- */
+export interface MockOrderOptions {
+  /** Simulated round trip, in ms */
+  latencyMs?: number;
+  /** Time from placing to the pharmacist's confirmation */
+  confirmAfterMs?: number;
+  /** Defaults to window.localStorage when there is one */
+  storage?: Pick<Storage, "getItem" | "setItem">;
+}
+
+interface StoredOrder extends Order {
+  accountId?: string;
+}
+
+export const MOCK_ORDERS_KEY = "orders_v1"; // bump version if shape changes
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readRecords = <T>(storage: MockOrderOptions["storage"], key: string): Record<string, T> => {
+  try {
+    const raw = storage?.getItem(key);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, T>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Drops who placed the order before it goes to someone holding only the number. */
+const toTracked = (record: OrderRecord): TrackedOrder => {
+  const tracked: Partial<OrderRecord> = { ...record };
+  delete tracked.accountId;
+  delete tracked.contact;
+  return tracked as TrackedOrder;
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Every step reached by `now`, each no earlier than the one before. */
+const progress = (order: StoredOrder, confirmAfterMs: number, now: number): OrderEvent[] => {
+  const placedAt = Date.parse(order.placedAt);
+  const pickup = order.fulfilment.method === "pickup";
+  const steps: [OrderStatus, number][] = [
+    ["placed", placedAt],
+    ["confirmed", placedAt + confirmAfterMs],
+    [pickup ? "ready-for-pickup" : "out-for-delivery", Date.parse(order.slot.start)],
+    ...(pickup ? [] : [["delivered", Date.parse((order.deliveryWindow ?? order.slot).end)] as [OrderStatus, number]]),
+  ];
+
+  const events: OrderEvent[] = [];
+  let last = placedAt;
+  for (const [status, at] of steps) {
+    last = Math.max(last, at);
+    if (last > now) break;
+    events.push({ status, at: new Date(last).toISOString() });
+  }
+  return events;
+};
+
+export const createMockOrderAdapter = ({
+  latencyMs = 400,
+  confirmAfterMs = 5 * 60 * 1000,
+  storage = defaultStorage(),
+}: MockOrderOptions = {}): OrderAdapter => {
+  const load = () => readRecords<StoredOrder>(storage, MOCK_ORDERS_KEY);
+
+  const toRecord = (stored: StoredOrder): OrderRecord => {
+    const history = progress(stored, confirmAfterMs, Date.now());
+    return { ...stored, status: history[history.length - 1]?.status ?? "placed", history };
+  };
+
+  return {
+    name: "mock",
+
+    async recordOrder(order: Order, accountId?: string) {
+      await wait(latencyMs);
+      const stored: StoredOrder = { ...order, ...(accountId && { accountId }) };
+      try {
+        storage?.setItem(MOCK_ORDERS_KEY, JSON.stringify({ ...load(), [order.orderNumber]: stored }));
+      } catch {
+        throw new OrderError("Couldn't save the order on this device.", "server");
+      }
+      return toRecord(stored);
+    },
+
+    async listOrders(accountId: string) {
+      await wait(latencyMs);
+      return Object.values(load())
+        .filter((order) => order.accountId === accountId)
+        .sort((a, b) => Date.parse(b.placedAt) - Date.parse(a.placedAt))
+        .map(toRecord);
+    },
+
+    async getOrder(accountId: string, orderNumber: string) {
+      await wait(latencyMs);
+      const stored = load()[orderNumber];
+      if (!stored || stored.accountId !== accountId) {
+        throw new OrderError(`We couldn't find order ${orderNumber} on your account.`, "not_found");
+      }
+      return toRecord(stored);
+    },
+
+    async trackOrder(orderNumber: string): Promise<TrackedOrder> {
+      await wait(latencyMs);
+      const stored = load()[orderNumber];
+      if (!stored) throw new OrderError(`We couldn't find order ${orderNumber}.`, "not_found");
+      return toTracked(toRecord(stored));
+    },
+  };
+};
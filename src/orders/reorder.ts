@@ -0,0 +1,44 @@
+// src/orders/reorder.ts
+
+import { getProductById, toCartItem } from "../catalog";
+import type { CartItem } from "../context/CartContext";
+import { getAvailableQuantity } from "../inventory";
+
+/* ---------------------------------------------------------------
+   Reorder — past lines back into the cart at today's price
+
+   Lines are rebuilt from the catalog rather than copied, so the
+   cart never carries an old price or a prescription that was
+   attached to a different order.
+--------------------------------------------------------------- */
+export interface PriceChange {
+  name: string;
+  was: number;
+  now: number;
+}
+
+export interface ReorderPlan {
+  /** Fresh cart lines for everything that can be bought again */
+  lines: CartItem[];
+  /** Lines whose price has moved since the order */
+  priceChanges: PriceChange[];
+  /** Names of items that are out of stock or no longer sold */
+  unavailable: string[];
+}
+
+export const planReorder = (items: CartItem[]): ReorderPlan => {
+  const plan: ReorderPlan = { lines: [], priceChanges: [], unavailable: [] };
+  for (const item of items) {
+    const product = getProductById(item.id);
+    const available = product ? getAvailableQuantity(product.id) : 0;
+    if (!product || available === 0) {
+      plan.unavailable.push(product?.name ?? item.name);
+      continue;
+    }
+    plan.lines.push(toCartItem(product, Math.min(item.quantity, available)));
+    if (product.price !== item.price) {
+      plan.priceChanges.push({ name: product.name, was: item.price, now: product.price });
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,30 @@
+// src/orders/service.ts
+
+import { createHttpOrderAdapter } from "./http";
+import { createMockOrderAdapter } from "./mock";
+import { OrderError, type OrderAdapter } from "./types";
+
+/* ---------------------------------------------------------------
+   Default adapter — the pharmacy backend when one is configured,
+   otherwise the local mock so order history works in development.
+
+     VITE_ORDERS_API_URL   backend root for /orders
+--------------------------------------------------------------- */
+let adapter: OrderAdapter | null = null;
+
+export const getOrderAdapter = (): OrderAdapter => {
+  if (!adapter) {
+    const baseUrl = import.meta.env.VITE_ORDERS_API_URL as string | undefined;
+    adapter = baseUrl ? createHttpOrderAdapter({ baseUrl }) : createMockOrderAdapter();
+  }
+  return adapter;
+};
+
+/** Swap the adapter, e.g. for a mock with instant responses. */
+export const setOrderAdapter = (next: OrderAdapter): void => {
+  adapter = next;
+};
+
+/** What to tell the customer when an order lookup fails. */
+export const describeOrderError = (err: unknown): string =>
+  err instanceof OrderError ? err.message : "Something went wrong. Please try again.";
@@ -0,0 +1,30 @@
+// src/orders/status.ts
+
+import type { OrderRecord, OrderStatus } from "./types";
+
+/* ---------------------------------------------------------------
+   Display — labels and what each status means for the customer
+--------------------------------------------------------------- */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: "Placed",
+  confirmed: "Confirmed",
+  "out-for-delivery": "Out for delivery",
+  "ready-for-pickup": "Ready for pickup",
+  delivered: "Delivered",
+  collected: "Collected",
+  cancelled: "Cancelled",
+};
+
+export const ORDER_STATUS_NOTES: Record<OrderStatus, string> = {
+  placed: "We've received your order and will confirm it shortly.",
+  confirmed: "A pharmacist has checked your order and it's being packed.",
+  "out-for-delivery": "Your rider is on the way.",
+  "ready-for-pickup": "Your order is waiting at the pickup station.",
+  delivered: "Delivered. We hope you feel better soon!",
+  collected: "Collected. We hope you feel better soon!",
+  cancelled: "This order was cancelled.",
+};
+
+/** Still on its way to the customer. */
+export const isOrderOpen = ({ status }: Pick<OrderRecord, "status">): boolean =>
+  status !== "delivered" && status !== "collected" && status !== "cancelled";
@@ -0,0 +1,56 @@
+// src/orders/types.ts
+
+import type { Order } from "../checkout/types";
+
+/* ---------------------------------------------------------------
+   Order history — what the pharmacy keeps once checkout is done
+--------------------------------------------------------------- */
+export type OrderStatus =
+  | "placed"
+  | "confirmed"
+  | "out-for-delivery"
+  | "ready-for-pickup"
+  | "delivered"
+  | "collected"
+  | "cancelled";
+
+export interface OrderEvent {
+  status: OrderStatus;
+  /** ISO timestamp */
+  at: string;
+}
+
+/** A placed order plus where it has got to. */
+export interface OrderRecord extends Order {
+  /** Absent for orders placed as a guest */
+  accountId?: string;
+  status: OrderStatus;
+  /** Oldest first; the last entry is the current status */
+  history: OrderEvent[];
+}
+
+/** What anyone holding the order number may see — no owner or contact details. */
+export type TrackedOrder = Omit<OrderRecord, "accountId" | "contact">;
+
+export interface OrderAdapter {
+  /** "mock" or "http" — shown in dev tools */
+  readonly name: string;
+  /** Keeps a just-placed order, against the account when signed in. */
+  recordOrder(order: Order, accountId?: string): Promise<OrderRecord>;
+  /** The account's orders, newest first. */
+  listOrders(accountId: string): Promise<OrderRecord[]>;
+  /** One of the account's orders; "not_found" for anyone else's. */
+  getOrder(accountId: string, orderNumber: string): Promise<OrderRecord>;
+  /** Any order by its number alone, as the link in a WhatsApp order opens it. */
+  trackOrder(orderNumber: string): Promise<TrackedOrder>;
+}
+
+export class OrderError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "order_error") {
+    super(message);
+    this.name = "OrderError";
+    this.code = code;
+  }
+}
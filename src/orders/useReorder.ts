@@ -0,0 +1,37 @@
+// src/orders/useReorder.ts
+
+import { useCallback } from "react";
+import toast from "react-hot-toast";
+import { formatPrice } from "../config";
+import { useCart, type CartItem } from "../context/CartContext";
+import { planReorder, type ReorderPlan } from "./reorder";
+
+/**
+ * "Reorder all" / "Reorder item": adds what can still be bought to
+ * the cart, tells the customer about price changes and anything
+ * unavailable, then opens the cart.
+ */
+export const useReorder = () => {
+  const { addToCart, openCart } = useCart();
+
+  return useCallback(
+    (items: CartItem[]): ReorderPlan => {
+      const plan = planReorder(items);
+      plan.lines.forEach(addToCart);
+
+      if (plan.unavailable.length) toast.error(`Out of stock: ${plan.unavailable.join(", ")}`);
+      for (const { name, was, now } of plan.priceChanges) {
+        toast(`${name} is now ${formatPrice(now)} (was ${formatPrice(was)})`, {
+          icon: now < was ? "🔻" : "🔺",
+        });
+      }
+      if (plan.lines.length) {
+        const count = plan.lines.length;
+        toast.success(`${count} item${count === 1 ? "" : "s"} added to your cart`);
+        openCart();
+      }
+      return plan;
+    },
+    [addToCart, openCart],
+  );
+};
@@ -1,6 +1,7 @@
 // src/components/AboutUs.tsx
 import React from "react";
 import styles from "./AboutUs.module.css";
+import { STORE } from "../config";
 
 // Local images (you can replace these with actual photos in your assets folder)
 import pharmacyImg from "../assets/pharmacy.png";
@@ -50,7 +51,7 @@ const AboutUs: React.FC = () => {
           About Our Comprehensive Care Clinic
         </h2>
         <p className={styles.subtitle}>
-          At Healthfield  Comprehensive Healthcare Centre, we are dedicated to providing
+          At {STORE.name}, we are dedicated to providing
           patient-centered, affordable, and high-quality healthcare under one roof.
           Our multidisciplinary team ensures that every patient receives the care
           they deserve with compassion and professionalism.
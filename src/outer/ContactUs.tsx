@@ -4,6 +4,7 @@
 
 import React, { useState, useRef } from "react";
 import type { ChangeEvent, FormEvent } from "react";
+import { formatHours, formatPhone, STORE, telHref, whatsappUrl } from "../config";
 import styles from "./ContactUs.module.css";
 
 // Hero & team images (replace with your assets)
@@ -168,17 +169,17 @@ const ContactUs: React.FC<Props> = ({ onSubmit }) => {
               <div className={styles.cardBody}>
                 <h3 className={styles.cardTitle}>Main Pharmacy & Clinic</h3>
                 <address className={styles.address}>
-                  123 Health Ave, Suite 4
+                  {STORE.address.street}
                   <br />
-                  Nairobi, Kenya
+                  {STORE.address.city}, {STORE.address.country}
                 </address>
 
                 <dl className={styles.contactList}>
                   <div className={styles.contactItem}>
                     <dt>Phone</dt>
                     <dd>
-                      <a href="tel:+254700000000" className={styles.link}>
-                        +254 700 000 000
+                      <a href={telHref(STORE.phones.main)} className={styles.link}>
+                        {formatPhone(STORE.phones.main)}
                       </a>
                     </dd>
                   </div>
@@ -187,10 +188,10 @@ const ContactUs: React.FC<Props> = ({ onSubmit }) => {
                     <dt>Email</dt>
                     <dd>
                       <a
-                        href="mailto:info@yourpharmacy.co.ke"
+                        href={`mailto:${STORE.email.info}`}
                         className={styles.link}
                       >
-                        info@yourpharmacy.co.ke
+                        {STORE.email.info}
                       </a>
                     </dd>
                   </div>
@@ -198,11 +199,12 @@ const ContactUs: React.FC<Props> = ({ onSubmit }) => {
                   <div className={styles.contactItem}>
                     <dt>Opening Hours</dt>
                     <dd>
-                      Mon–Fri: 08:00–18:00
-                      <br />
-                      Sat: 09:00–13:00
-                      <br />
-                      Sun: Closed
+                      {STORE.hours.map((h, i) => (
+                        <React.Fragment key={h.days}>
+                          {i > 0 && <br />}
+                          {h.days}: {formatHours(h)}
+                        </React.Fragment>
+                      ))}
                     </dd>
                   </div>
                 </dl>
@@ -353,20 +355,20 @@ const ContactUs: React.FC<Props> = ({ onSubmit }) => {
               <ul className={styles.quickList}>
                 <li>
                   <strong>Emergency</strong>{" "}
-                  <a href="tel:+254700000001" className={styles.link}>
-                    +254 700 000 001
+                  <a href={telHref(STORE.phones.emergency)} className={styles.link}>
+                    {formatPhone(STORE.phones.emergency)}
                   </a>
                 </li>
                 <li>
                   <strong>Pharmacy orders</strong>{" "}
-                  <a href="mailto:orders@yourpharmacy.co.ke" className={styles.link}>
-                    orders@yourpharmacy.co.ke
+                  <a href={`mailto:${STORE.email.orders}`} className={styles.link}>
+                    {STORE.email.orders}
                   </a>
                 </li>
                 <li>
                   <strong>WhatsApp</strong>{" "}
                   <a
-                    href="https://wa.me/254700000002"
+                    href={whatsappUrl()}
                     target="_blank"
                     rel="noreferrer noopener"
                     className={styles.link}
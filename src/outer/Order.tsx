@@ -1,37 +1,41 @@
 import React from "react";
 import { motion } from "framer-motion";
-import { CheckCircle, Package, CreditCard, MessageCircle, ArrowRight } from "lucide-react";
+import { CheckCircle, CreditCard, MessageCircle, ArrowRight } from "lucide-react";
+import { STORE, whatsappUrl } from "../config";
+import OrderShipments, { type ShipmentInfo } from "./OrderShipments";
 import styles from "./Order.module.css";
 
-interface ShipmentInfo {
-  number?: number;
-  station?: string;
-  fulfilledBy?: string;
-  deliveryStart?: string;
-  deliveryEnd?: string;
-}
-
 interface OrderProps {
   orderNumber?: string;
   shipments?: ShipmentInfo[];
+  deliveryMethod?: "delivery" | "pickup";
+  paymentMethod?: string;
+  /** True once the order has been paid online (M-Pesa STK push) */
+  paid?: boolean;
+  paymentReceipt?: string;
   hasGlobalItems?: boolean;
   onSeeDetails?: () => void;
   whatsappNumber?: string;
+  /** Pre-filled chat text; defaults to a short note with the order number */
+  whatsappMessage?: string;
 }
 
 const Order: React.FC<OrderProps> = ({
   orderNumber = "Pending...",
   shipments = [],
+  deliveryMethod = "pickup",
+  paymentMethod,
+  paid = false,
+  paymentReceipt,
   hasGlobalItems = false,
   onSeeDetails,
-  whatsappNumber = "1234567890",
+  whatsappNumber = STORE.whatsapp,
+  whatsappMessage,
 }) => {
   const handleWhatsAppOrder = () => {
-    const message = encodeURIComponent(
-      `Hi! I'd like to place an order. Order reference: ${orderNumber}`
-    );
-    const whatsappUrl = `https://wa.me/${whatsappNumber}?text=${message}`;
-    window.open(whatsappUrl, "_blank", "noopener,noreferrer");
+    const message =
+      whatsappMessage ?? `Hi! I'd like to place an order. Order reference: ${orderNumber}`;
+    window.open(whatsappUrl(message, whatsappNumber), "_blank", "noopener,noreferrer");
   };
 
   return (
@@ -65,73 +69,34 @@ const Order: React.FC<OrderProps> = ({
       {/* ✅ Main Content */}
       <div className={styles.contentGrid}>
         {/* === Pickup Info === */}
-        <section className={styles.pickupSection}>
-          <div className={styles.sectionHeader}>
-            <Package className={styles.sectionIcon} aria-hidden="true" />
-            <h2 className={styles.sectionTitle}>Pick-up Station</h2>
-          </div>
-
-          <p className={styles.notificationText}>
-            You'll receive an SMS, email, and push notification when your package is ready for pickup.
-          </p>
-
-          <div className={styles.shipmentsContainer}>
-            {Array.isArray(shipments) && shipments.length > 0 ? (
-              shipments.map((shipment, idx) => (
-                <motion.div
-                  key={shipment.number ?? idx}
-                  className={styles.shipmentItem}
-                  whileHover={{ scale: 1.02 }}
-                  transition={{ type: "spring", stiffness: 300 }}
-                >
-                  <h3 className={styles.shipmentTitle}>
-                    Shipment {shipment.number ?? idx + 1}
-                  </h3>
-                  <p className={styles.shipmentDetail}>
-                    {shipment.station ?? "Unknown Station"} • Fulfilled by{" "}
-                    {shipment.fulfilledBy ?? "Pending"}
-                  </p>
-                  <p className={styles.deliverySchedule}>
-                    Delivery{" "}
-                    {shipment.deliveryEnd ? "between" : "scheduled on"}{" "}
-                    <span className={styles.deliveryDate}>
-                      {shipment.deliveryStart ?? "TBD"}
-                    </span>
-                    {shipment.deliveryEnd && (
-                      <>
-                        {" and "}
-                        <span className={styles.deliveryDate}>
-                          {shipment.deliveryEnd}
-                        </span>
-                      </>
-                    )}
-                  </p>
-                </motion.div>
-              ))
-            ) : (
-              <p className={styles.emptyStateText}>
-                No shipment information available yet.
-              </p>
-            )}
-          </div>
-
-          {hasGlobalItems && (
-            <p className={styles.globalItemsNote}>
-              🌍 This order includes global items which may take longer to arrive.
-            </p>
-          )}
-        </section>
+        <OrderShipments
+          shipments={shipments}
+          deliveryMethod={deliveryMethod}
+          hasGlobalItems={hasGlobalItems}
+        />
 
         {/* === Payment Info === */}
         <section className={styles.paymentSection}>
           <div className={styles.sectionHeader}>
             <CreditCard className={styles.sectionIcon} aria-hidden="true" />
             <h2 className={styles.sectionTitle}>
-              Pay on Delivery via Mobile Money or Bank Cards
+              {paid
+                ? `Paid with ${paymentMethod ?? "M-Pesa"}`
+                : paymentMethod
+                ? `Paying with ${paymentMethod}`
+                : "Pay on Delivery via Mobile Money or Bank Cards"}
             </h2>
           </div>
           <p className={styles.paymentDescription}>
-            Enjoy fast and secure payments — available for M-Pesa, Airtel Money, and major bank cards.
+            {paid
+              ? `${paymentReceipt ? `Confirmation code ${paymentReceipt}. ` : ""}Nothing more to pay when your order ${
+                  deliveryMethod === "delivery" ? "arrives" : "is collected"
+                }.`
+              : paymentMethod
+              ? `Have your ${paymentMethod} payment ready when your order ${
+                  deliveryMethod === "delivery" ? "arrives" : "is collected"
+                }.`
+              : "Enjoy fast and secure payments — available for M-Pesa, Airtel Money, and major bank cards."}
           </p>
         </section>
 
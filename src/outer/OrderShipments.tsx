@@ -0,0 +1,92 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Package } from "lucide-react";
+import styles from "./Order.module.css";
+
+export interface ShipmentInfo {
+  number?: number;
+  station?: string;
+  fulfilledBy?: string;
+  deliveryStart?: string;
+  deliveryEnd?: string;
+}
+
+interface OrderShipmentsProps {
+  shipments?: ShipmentInfo[];
+  deliveryMethod?: "delivery" | "pickup";
+  hasGlobalItems?: boolean;
+  /** Replaces the "we'll let you know" line, e.g. with the order's current status */
+  notice?: string;
+}
+
+/** Where an order is going and when — shared by the confirmation and order history. */
+const OrderShipments: React.FC<OrderShipmentsProps> = ({
+  shipments = [],
+  deliveryMethod = "pickup",
+  hasGlobalItems = false,
+  notice,
+}) => (
+  <section className={styles.pickupSection}>
+    <div className={styles.sectionHeader}>
+      <Package className={styles.sectionIcon} aria-hidden="true" />
+      <h2 className={styles.sectionTitle}>
+        {deliveryMethod === "delivery" ? "Home Delivery" : "Pick-up Station"}
+      </h2>
+    </div>
+
+    <p className={styles.notificationText}>
+      {notice ??
+        (deliveryMethod === "delivery"
+          ? "You'll receive an SMS when your rider is on the way."
+          : "You'll receive an SMS, email, and push notification when your package is ready for pickup.")}
+    </p>
+
+    <div className={styles.shipmentsContainer}>
+      {Array.isArray(shipments) && shipments.length > 0 ? (
+        shipments.map((shipment, idx) => (
+          <motion.div
+            key={shipment.number ?? idx}
+            className={styles.shipmentItem}
+            whileHover={{ scale: 1.02 }}
+            transition={{ type: "spring", stiffness: 300 }}
+          >
+            <h3 className={styles.shipmentTitle}>
+              Shipment {shipment.number ?? idx + 1}
+            </h3>
+            <p className={styles.shipmentDetail}>
+              {shipment.station ?? "Unknown Station"} • Fulfilled by{" "}
+              {shipment.fulfilledBy ?? "Pending"}
+            </p>
+            <p className={styles.deliverySchedule}>
+              Delivery{" "}
+              {shipment.deliveryEnd ? "between" : "scheduled on"}{" "}
+              <span className={styles.deliveryDate}>
+                {shipment.deliveryStart ?? "TBD"}
+              </span>
+              {shipment.deliveryEnd && (
+                <>
+                  {" and "}
+                  <span className={styles.deliveryDate}>
+                    {shipment.deliveryEnd}
+                  </span>
+                </>
+              )}
+            </p>
+          </motion.div>
+        ))
+      ) : (
+        <p className={styles.emptyStateText}>
+          No shipment information available yet.
+        </p>
+      )}
+    </div>
+
+    {hasGlobalItems && (
+      <p className={styles.globalItemsNote}>
+        🌍 This order includes global items which may take longer to arrive.
+      </p>
+    )}
+  </section>
+);
+
+export default OrderShipments;
@@ -0,0 +1,225 @@
+// ===============================================================
+// 👤 Account.tsx — Profile, address book, shortcuts to orders
+//    and lists, and the customer's prescriptions (/account)
+// ===============================================================
+
+import React, { useEffect, useState } from "react";
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { describeAuthError, validateProfile, withRedirect, type AuthErrors, type User } from "../auth";
+import { STORE } from "../config";
+import { useAlerts } from "../context/AlertsContext";
+import { useAuth } from "../context/AuthContext";
+import { useRefills } from "../context/RefillContext";
+import { useWishlist } from "../context/WishlistContext";
+import AddressBook from "../components/AddressBook";
+import {
+  getPrescriptionAdapter,
+  needsPatientAction,
+  PRESCRIPTION_STATUS_LABELS,
+  type PrescriptionTracking,
+} from "../prescriptions";
+import styles from "./Account.module.css";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(STORE.currency.locale, { dateStyle: "medium" });
+
+/** "254712345678" → "0712 345 678" */
+const formatPhone = (phone: string) => {
+  const local = phone.startsWith("254") ? `0${phone.slice(3)}` : phone;
+  return local.replace(/^(\d{4})(\d{3})(\d{3})$/, "$1 $2 $3");
+};
+
+// ===============================================================
+// ✏️ Details
+// ===============================================================
+const ProfileForm: React.FC<{ user: User }> = ({ user }) => {
+  const { updateProfile } = useAuth();
+  const [fullName, setFullName] = useState(user.fullName);
+  const [email, setEmail] = useState(user.email ?? "");
+  const [errors, setErrors] = useState<AuthErrors>({});
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const update = { fullName, email };
+    const found = validateProfile(update);
+    setErrors(found);
+    if (Object.keys(found).length) return;
+
+    setBusy(true);
+    try {
+      await updateProfile(update);
+      toast.success("Your details are saved.");
+    } catch (err) {
+      toast.error(describeAuthError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const field = (
+    label: string,
+    value: string,
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void,
+    error?: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {},
+  ) => (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input value={value} onChange={onChange} aria-invalid={!!error} {...props} />
+      {error && <span className={styles.fieldError}>{error}</span>}
+    </label>
+  );
+
+  return (
+    <form className={styles.card} onSubmit={handleSubmit} noValidate aria-labelledby="details-title">
+      <h2 id="details-title" className={styles.cardTitle}>
+        Your details
+      </h2>
+
+      <div className={styles.grid}>
+        {field("Full name", fullName, (e) => setFullName(e.target.value), errors.fullName, {
+          autoComplete: "name",
+        })}
+        {field("Email", email, (e) => setEmail(e.target.value), errors.email, {
+          type: "email",
+          autoComplete: "email",
+        })}
+        <div className={styles.field}>
+          <span>Phone</span>
+          <p className={styles.readonly}>{formatPhone(user.phone)}</p>
+          <span className={styles.hint}>Your sign-in number. Call us to change it.</span>
+        </div>
+      </div>
+
+      <button type="submit" className={styles.primaryBtn} disabled={busy}>
+        {busy ? "Saving…" : "Save details"}
+      </button>
+    </form>
+  );
+};
+
+// ===============================================================
+// 📋 Prescriptions sent from this account
+// ===============================================================
+const MyPrescriptions: React.FC<{ accountId: string }> = ({ accountId }) => {
+  const [items, setItems] = useState<PrescriptionTracking[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    getPrescriptionAdapter()
+      .listPrescriptions(accountId)
+      .then((list) => {
+        if (active) setItems(list);
+      })
+      .catch(() => {
+        if (active) setFailed(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, [accountId]);
+
+  return (
+    <section className={styles.card} aria-labelledby="rx-title">
+      <div className={styles.cardHeader}>
+        <h2 id="rx-title" className={styles.cardTitle}>
+          My prescriptions
+        </h2>
+        <Link to="/prescription" className={styles.secondaryBtn}>
+          Send a prescription
+        </Link>
+      </div>
+
+      {failed ? (
+        <p className={styles.muted}>Couldn't load your prescriptions. Please refresh to try again.</p>
+      ) : !items ? (
+        <p className={styles.muted}>Loading…</p>
+      ) : items.length === 0 ? (
+        <p className={styles.muted}>Prescriptions you send while signed in will appear here.</p>
+      ) : (
+        <ul className={styles.rxList}>
+          {items.map((rx) => (
+            <li key={rx.reference}>
+              <Link to={`/prescription/status/${rx.reference}`} className={styles.rxRow}>
+                <span className={styles.rxRef}>{rx.reference}</span>
+                <span className={styles.muted}>{formatDate(rx.submittedAt)}</span>
+                <span className={`${styles.badge} ${needsPatientAction(rx) ? styles.badgeAction : ""}`}>
+                  {PRESCRIPTION_STATUS_LABELS[rx.status]}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+// ===============================================================
+// 🧭 Page
+// ===============================================================
+const Account: React.FC = () => {
+  const { user, logout } = useAuth();
+  const { getWishlistCount } = useWishlist();
+  const { refills, dueCount } = useRefills();
+  const { subscriptions, unreadCount } = useAlerts();
+  const navigate = useNavigate();
+
+  if (!user) return <Navigate to={withRedirect("/login", "/account")} replace />;
+
+  const handleLogout = async () => {
+    navigate("/");
+    await logout();
+    toast.success("You're signed out.");
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="account-title">
+      <header className={styles.header}>
+        <div>
+          <h1 id="account-title" className={styles.title}>
+            Hi, {user.fullName.split(" ")[0]}
+          </h1>
+          <p className={styles.muted}>Member since {formatDate(user.createdAt)}</p>
+        </div>
+        <button type="button" className={styles.secondaryBtn} onClick={handleLogout}>
+          Sign out
+        </button>
+      </header>
+
+      <nav className={styles.shortcuts} aria-label="Your lists">
+        <Link to="/account/orders">My orders</Link>
+        <Link to="/prescription/repeat">
+          <strong>{refills.length}</strong> repeat medicine{refills.length === 1 ? "" : "s"}
+          {dueCount > 0 && <span className={styles.badgeAction}>{dueCount} due</span>}
+        </Link>
+        <Link to="/wishlist">
+          <strong>{getWishlistCount()}</strong> saved item{getWishlistCount() === 1 ? "" : "s"}
+        </Link>
+        <Link to="/alerts">
+          <strong>{subscriptions.length}</strong> alert{subscriptions.length === 1 ? "" : "s"} set
+          {unreadCount > 0 && <span className={styles.badgeAction}>{unreadCount} new</span>}
+        </Link>
+        <Link to="/cart">View cart</Link>
+      </nav>
+
+      {/* Remount when the user changes so the form starts from their saved details */}
+      <ProfileForm key={user.id} user={user} />
+      <section className={styles.card} aria-labelledby="addresses-title">
+        <h2 id="addresses-title" className={styles.cardTitle}>
+          Delivery addresses
+        </h2>
+        <p className={`${styles.muted} ${styles.intro}`}>
+          The selected address sets delivery fees and times, and is filled in for you at checkout.
+        </p>
+        <AddressBook />
+      </section>
+      <MyPrescriptions accountId={user.id} />
+    </section>
+  );
+};
+
+export default Account;
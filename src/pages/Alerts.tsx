@@ -0,0 +1,101 @@
+// ===============================================================
+// 🔔 Alerts.tsx — Back-in-stock and price-drop alerts: what's
+//    been sent, and what's still being watched (/alerts)
+// ===============================================================
+
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { CHANNEL_LABELS, type AlertSubscription } from "../alerts";
+import { getProductById, getProductPath } from "../catalog";
+import { formatPrice, STORE } from "../config";
+import { useAlerts } from "../context/AlertsContext";
+import styles from "./Alerts.module.css";
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(STORE.currency.locale, { dateStyle: "medium", timeStyle: "short" });
+
+const describeSubscription = (sub: AlertSubscription) =>
+  sub.kind === "price-drop" && sub.targetPrice !== undefined
+    ? `Price at or below ${formatPrice(sub.targetPrice)}`
+    : "Back in stock";
+
+const Alerts: React.FC = () => {
+  const { subscriptions, notifications, unsubscribe, markAllRead } = useAlerts();
+  // Remember what was new while on the page so it stays highlighted after marking read
+  const [fresh, setFresh] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    const unread = notifications.filter((n) => !n.read).map((n) => n.id);
+    if (!unread.length) return;
+    setFresh((prev) => new Set([...prev, ...unread]));
+    markAllRead();
+  }, [notifications, markAllRead]);
+
+  return (
+    <section className={styles.page} aria-labelledby="alerts-title">
+      <h1 id="alerts-title" className={styles.title}>
+        Alerts
+      </h1>
+      <p className={`${styles.muted} ${styles.intro}`}>
+        Set an alert from a sold-out product page or from your <Link to="/wishlist">wishlist</Link>.
+      </p>
+
+      <section className={styles.card} aria-labelledby="notifications-title">
+        <h2 id="notifications-title" className={styles.cardTitle}>
+          Notifications
+        </h2>
+        {notifications.length === 0 ? (
+          <p className={styles.muted}>Nothing yet — we'll post here when one of your alerts goes off.</p>
+        ) : (
+          <ol className={styles.list}>
+            {notifications.map((note) => {
+              const product = getProductById(note.productId);
+              return (
+                <li key={note.id} className={fresh.has(note.id) ? styles.unread : undefined}>
+                  <div>
+                    <strong>{product ? <Link to={getProductPath(product)}>{note.title}</Link> : note.title}</strong>
+                    <p>{note.body}</p>
+                    <p className={styles.muted}>{formatDateTime(note.createdAt)}</p>
+                    {note.deliveryFailed && (
+                      <p className={styles.failed}>We couldn't send this message — it's only shown here.</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </section>
+
+      <section className={styles.card} aria-labelledby="watching-title">
+        <h2 id="watching-title" className={styles.cardTitle}>
+          Watching
+        </h2>
+        {subscriptions.length === 0 ? (
+          <p className={styles.muted}>You have no alerts set.</p>
+        ) : (
+          <ul className={styles.list}>
+            {subscriptions.map((sub) => {
+              const product = getProductById(sub.productId);
+              return (
+                <li key={sub.id}>
+                  <div>
+                    {product ? <Link to={getProductPath(product)}>{product.name}</Link> : sub.productId}
+                    <p className={styles.muted}>
+                      {describeSubscription(sub)} · {CHANNEL_LABELS[sub.contact.channel]} {sub.contact.address}
+                    </p>
+                  </div>
+                  <button type="button" className={styles.removeBtn} onClick={() => unsubscribe(sub.id)}>
+                    Remove
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </section>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,88 @@
+// ===============================================================
+// ✅ AttachPrescription.tsx — Upload a prescription for cart items
+//    (/prescription/attach?return=/checkout)
+// ===============================================================
+
+import React from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useCart } from "../context/CartContext";
+import PrescriptionUpload from "../dropdowns/PrescriptionUpload";
+import PrescriptionBadge from "../components/PrescriptionBadge";
+import type { PrescriptionReceipt } from "../prescriptions";
+import styles from "./AttachPrescription.module.css";
+
+/** Only follow in-app paths, never an absolute URL from the query string. */
+const safeReturnPath = (value: string | null): string =>
+  value && value.startsWith("/") && !value.startsWith("//") ? value : "/cart";
+
+const AttachPrescription: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { cartItems, getItemsNeedingPrescription, attachPrescription } = useCart();
+
+  const returnTo = safeReturnPath(searchParams.get("return"));
+  const pending = getItemsNeedingPrescription();
+  const rxItems = cartItems.filter((item) => item.requiresPrescription);
+
+  const handleComplete = ({ reference }: PrescriptionReceipt) => {
+    attachPrescription(
+      pending.map((item) => item.id),
+      reference
+    );
+    toast.success(`Prescription ${reference} attached — a pharmacist will review it.`);
+    navigate(returnTo);
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="attach-rx-title">
+      <h1 id="attach-rx-title" className={styles.title}>
+        Attach a prescription
+      </h1>
+
+      {rxItems.length === 0 ? (
+        <div className={styles.empty}>
+          <p>Nothing in your cart needs a prescription.</p>
+          <Link to={returnTo} className={styles.backLink}>
+            Go back
+          </Link>
+        </div>
+      ) : (
+        <>
+          <p className={styles.intro}>
+            These medicines are prescription-only. Upload a clear photo or PDF of a valid
+            prescription and our pharmacist will verify it before your order is dispatched.
+          </p>
+
+          <ul className={styles.items}>
+            {rxItems.map((item) => (
+              <li key={item.id}>
+                <span>
+                  {item.name} × {item.quantity}
+                </span>
+                <PrescriptionBadge item={item} />
+              </li>
+            ))}
+          </ul>
+
+          {pending.length > 0 ? (
+            <PrescriptionUpload
+              source="cart"
+              cartItemIds={pending.map((item) => item.id)}
+              onComplete={handleComplete}
+            />
+          ) : (
+            <div className={styles.empty}>
+              <p>All prescription items already have a prescription on file.</p>
+              <Link to={returnTo} className={styles.backLink}>
+                Continue
+              </Link>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default AttachPrescription;
@@ -1,123 +1,47 @@
 // src/pages/BeautyProducts.tsx
 // ✅ Modern, Minimal, Responsive, Accessible (2025 Optimized Version)
 
-import React, { useState, useRef, useCallback } from "react";
+import React, { useRef, useCallback } from "react";
 import { motion } from "framer-motion";
 import { Heart, Share2, ChevronLeft, ChevronRight, ShoppingCart } from "lucide-react";
 import { LazyLoadImage } from "react-lazy-load-image-component";
 import toast, { Toaster } from "react-hot-toast";
 import "react-lazy-load-image-component/src/effects/blur.css";
+import { formatPrice } from "../config";
 import styles from "./BeautyProducts.module.css";
 import { useCart } from "../context/CartContext";
-
-// === Import images ===
-import pic1 from "../assets/products/revitalizing-supreme.png";
-import pic2 from "../assets/products/super-blendable.png";
-import pic3 from "../assets/products/rouge-volupté-shine-lipstick.png";
-import pic4 from "../assets/products/better-than-sex-mascara.png";
-import pic5 from "../assets/products/born-this-way-foundation.png";
-import pic6 from "../assets/products/Soft-Matte-Complete-Lipstick.png";
-import pic7 from "../assets/products/Soft-Radiance-Pressed-Powder.png";
-import pic8 from "../assets/products/airbrush-flawless-foundation.png";
-
-
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  image: string;
-  brand: string;
-}
-
-const BeautyProducts: React.FC = () => {
+import { useWishlist } from "../context/WishlistContext";
+import {
+  getProductPath,
+  getProductsByCategory,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { useListing, type ListingPageProps } from "../listing";
+import ListingToolbar from "../components/ListingToolbar";
+
+const products = getProductsByCategory("beauty-care-cosmetics");
+
+const BeautyProducts: React.FC<ListingPageProps> = ({ embedded }) => {
   const carouselRef = useRef<HTMLDivElement | null>(null);
   const { addToCart, updateQuantity, openCart, cartItems } = useCart();
+  const listing = useListing(products, { enabled: !embedded, pageSize: Infinity });
 
   // ❤️ Favorites feature
-  const [favorites, setFavorites] = useState<Set<number>>(new Set());
+  const { isInWishlist, toggleWishlist } = useWishlist();
 
-  const toggleFavorite = useCallback((id: number) => {
-    setFavorites((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(id)) {
-        newSet.delete(id);
-        toast.error("Removed from favorites");
-      } else {
-        newSet.add(id);
+  const toggleFavorite = useCallback(
+    (id: string) => {
+      if (toggleWishlist(id)) {
         toast.success("Added to favorites");
+      } else {
+        toast.error("Removed from favorites");
       }
-      return newSet;
-    });
-  }, []);
-
-  // 🛍️ Realistic beauty products list
-  const products: Product[] = [
-    {
-      id: 1,
-      name: "Revitalizing Supreme+ Youth Power Crème",
-      description: "Prestige anti-aging cream that firms, smooths, and rejuvenates skin.",
-      price: 18900,
-      image: pic1,
-      brand: "Estée Lauder",
-    },
-    {
-      id: 2,
-      name: "True Match Super-Blendable Foundation",
-      description: "Lightweight, seamless foundation for natural, flawless coverage.",
-      price: 2400,
-      image: pic2,
-      brand: "L’Oréal Paris",
     },
-    {
-      id: 3,
-      name: "Rouge Volupté Shine Lipstick",
-      description: "Luxurious lipstick delivering intense color and moisture.",
-      price: 5200,
-      image: pic3,
-      brand: "Yves Saint Laurent (YSL)",
-    },
-    {
-      id: 4,
-      name: "Better Than Sex Mascara",
-      description: "Iconic volumizing mascara for dramatic, curled lashes.",
-      price: 4200,
-      image: pic4,
-      brand: "Too Faced",
-    },
-    {
-      id: 5,
-      name: "Born This Way Foundation",
-      description: "Medium-to-full coverage foundation with natural finish.",
-      price: 5600,
-      image: pic5,
-      brand: "Too Faced",
-    },
-    {
-      id: 6,
-      name: "Soft Matte Complete Lipstick",
-      description: "Velvety matte finish lipstick with long-lasting comfort.",
-      price: 4100,
-      image: pic6,
-      brand: "NARS",
-    },
-    {
-      id: 7,
-      name: "Soft Radiance Pressed Powder",
-      description: "Finishing powder for luminous, flawless skin.",
-      price: 5300,
-      image: pic7,
-      brand: "Laura Mercier",
-    },
-    {
-      id: 8,
-      name: "Airbrush Flawless Foundation",
-      description: "Full-coverage foundation with a natural matte finish.",
-      price: 5900,
-      image: pic8,
-      brand: "Charlotte Tilbury",
-    },
-  ];
+    [toggleWishlist]
+  );
 
   const handlePrev = useCallback(() => {
     carouselRef.current?.scrollBy({
@@ -135,7 +59,7 @@ const BeautyProducts: React.FC = () => {
 
   const handleShare = async (product: Product) => {
     try {
-      const url = `${window.location.origin}/product/${product.id}`;
+      const url = `${window.location.origin}${getProductPath(product)}`;
       await navigator.clipboard.writeText(url);
       toast.success("Link copied to clipboard");
     } catch {
@@ -144,21 +68,11 @@ const BeautyProducts: React.FC = () => {
   };
 
   const handleAddToCart = (product: Product) => {
-    const stringId = product.id.toString();
-    const inCart = cartItems.find((ci) => ci.id === stringId);
-    if (inCart) updateQuantity(stringId, inCart.quantity + 1);
-    else
-      addToCart({
-        id: stringId,
-        name: product.name,
-        price: product.price,
-        image: product.image,
-        quantity: 1,
-        category: product.brand,
-        description: product.description,
-        inStock: true,
-      });
-    toast.success(`${product.name} added to cart`);
+    const inCart = cartItems.find((ci) => ci.id === product.id);
+    const added = inCart
+      ? updateQuantity(product.id, inCart.quantity + 1)
+      : addToCart(toCartItem(product));
+    if (added) toast.success(`${product.name} added to cart`);
     openCart?.();
   };
 
@@ -180,9 +94,11 @@ const BeautyProducts: React.FC = () => {
           </div>
         </header>
 
+        <ListingToolbar listing={listing} />
+
         <div className={styles.productsWrapper} ref={carouselRef}>
-          {products.map((product) => {
-            const isFavorited = favorites.has(product.id);
+          {listing.items.map((product) => {
+            const isFavorited = isInWishlist(product.id);
             return (
               <motion.article
                 key={product.id}
@@ -218,13 +134,15 @@ const BeautyProducts: React.FC = () => {
                   <h3 className={styles.productName}>{product.name}</h3>
                   <p className={styles.productDesc}>{product.description}</p>
                   <span className={styles.brandName}>{product.brand}</span>
-                  <p className={styles.price}>KES {product.price.toFixed(2)}</p>
+                  <p className={styles.price}>{formatPrice(product.price)}</p>
+                  <LowStockBadge product={product} />
 
                   <motion.button
                     className={styles.addButton}
                     whileHover={{ scale: 1.03 }}
                     whileTap={{ scale: 0.96 }}
                     onClick={() => handleAddToCart(product)}
+                    disabled={isSoldOut(product)}
                   >
                     <ShoppingCart size={16} /> Add to Cart
                   </motion.button>
@@ -2,7 +2,8 @@
 // ✅ BestSellers.tsx — Modern, Responsive, Type-Safe (2025 Optimized)
 // ===============================================================
 
-import React, { useState, useRef } from "react";
+import React, { useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import type { Variants } from "framer-motion";
 import {
@@ -15,69 +16,50 @@ import {
 import toast from "react-hot-toast";
 import { LazyLoadImage } from "react-lazy-load-image-component";
 import "react-lazy-load-image-component/src/effects/blur.css";
+import {
+  getProductPath,
+  getProductsByTag,
+  isPharmaProduct,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { formatPrice, STORE } from "../config";
+import { useCart } from "../context/CartContext";
+import { useWishlist } from "../context/WishlistContext";
 import styles from "./BestSellers.module.css";
 
-// === Import images ===
-import pic1 from "../assets/products/Durex-Fetherlite-Condoms.png";
-import pic2 from "../assets/products/Always-Ultra-Thin-Pads-8s.png";
-import pic3 from "../assets/products/Swift-Pregnancy-Test-Kit.png";
-import pic4 from "../assets/products/Panadol-Extra-10s.png";
-import pic5 from "../assets/products/Strepsils-Lozenges-24s.png";
-import pic6 from "../assets/products/E45 Moisturizing-Cream-100g.png";
-import pic7 from "../assets/products/Dettol-hand-sanitizer-50ml.png";
-import pic8 from "../assets/products/Gaviscon-peppermint-liquid-200ml.png";
-import pic9 from "../assets/products/Deep-Heat-Rub-35g.png";
-import pic10 from "../assets/products/Nivea-Lip-Balm-Original-4.8g.png";
-import pic11 from "../assets/products/Vaseline-Petroleum-Jelly-100.png";
-import pic12 from "../assets/products/savlon.png";
-import pic13 from "../assets/products/centrum-energy.png";
-import pic14 from "../assets/products/ors.png";
-import pic15 from "../assets/products/clearasil.png";
-
 // ===============================================================
-// 🧩 Interfaces
+// 🧴 Product Data
 // ===============================================================
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  description: string;
-  price: number;
-  image: string;
-  isTopSeller: boolean;
-  isPharma?: boolean;
-  isNonPharma?: boolean;
-}
+const products = getProductsByTag("best-seller");
 
 // ===============================================================
 // 🧠 Component
 // ===============================================================
 const BestSellers: React.FC = () => {
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const { addToCart } = useCart();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
 
   // ===============================================================
   // ❤️ Toggle Favorites
   // ===============================================================
   const toggleFavorite = (productId: string) => {
-    setFavorites((prev) => {
-      const updated = new Set(prev);
-      if (updated.has(productId)) {
-        updated.delete(productId);
-        toast("Removed from favorites ❤️‍🔥", { icon: "💔" });
-      } else {
-        updated.add(productId);
-        toast.success("Added to favorites ❤️");
-      }
-      return updated;
-    });
+    if (toggleWishlist(productId)) {
+      toast.success("Added to favorites ❤️");
+    } else {
+      toast("Removed from favorites ❤️‍🔥", { icon: "💔" });
+    }
   };
 
   // ===============================================================
   // 🧺 Add to Cart
   // ===============================================================
-  const addToCart = (productName: string) => {
-    toast.success(`${productName} added to cart!`);
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart!`);
   };
 
   // ===============================================================
@@ -88,7 +70,7 @@ const BestSellers: React.FC = () => {
       navigator
         .share({
           title: productName,
-          text: `Check out ${productName} at Healthfield Pharmacy`,
+          text: `Check out ${productName} at ${STORE.name}`,
           url: window.location.href,
         })
         .catch(() => toast.error("Failed to share"));
@@ -134,168 +116,6 @@ const BestSellers: React.FC = () => {
     },
   };
 
-  // ===============================================================
-  // 🧴 Product Data
-  // ===============================================================
-  const products: Product[] = [
-    {
-      id: "1",
-      name: "Durex Fetherlite Condoms 3s",
-      category: "Non-Pharma",
-      description: "Ultra-thin condoms designed for comfort and protection.",
-      price: 650,
-      image: pic1,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "2",
-      name: "Always Ultra Thin Pads 8s",
-      category: "Non-Pharma",
-      description:
-        "Super absorbent sanitary pads with odor-neutralizing technology.",
-      price: 380,
-      image: pic2,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "3",
-      name: "Swift Pregnancy Test Kit",
-      category: "Non-Pharma",
-      description: "Quick and accurate pregnancy test for early detection.",
-      price: 300,
-      image: pic3,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "4",
-      name: "Panadol Extra 10s",
-      category: "Pharma",
-      description:
-        "Effective pain and headache relief with caffeine boost.",
-      price: 150,
-      image: pic4,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "5",
-      name: "Strepsils Lozenges 24s",
-      category: "Pharma",
-      description:
-        "Soothing relief for sore throats and mouth irritation.",
-      price: 420,
-      image: pic5,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "6",
-      name: "E45 Moisturizing Cream 100g",
-      category: "Non-Pharma",
-      description:
-        "Dermatologically tested cream for dry and sensitive skin.",
-      price: 950,
-      image: pic6,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "7",
-      name: "Dettol Hand Sanitizer 50ml",
-      category: "Non-Pharma",
-      description: "Kills 99.9% of germs, perfect for on-the-go hygiene.",
-      price: 250,
-      image: pic7,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "8",
-      name: pic8,
-      category: "Pharma",
-      description: "Fast-acting relief for acid reflux and heartburn.",
-      price: 720,
-      image: "/images/gaviscon.jpg",
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "9",
-      name: "Deep Heat Rub 35g",
-      category: "Pharma",
-      description:
-        "Muscle pain relief cream for active individuals and athletes.",
-      price: 550,
-      image: pic9,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "10",
-      name: "Nivea Lip Balm Original 4.8g",
-      category: "Non-Pharma",
-      description: "Moisturizing lip balm for smooth and hydrated lips.",
-      price: 280,
-      image: pic10,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "11",
-      name: "Vaseline Petroleum Jelly 100ml",
-      category: "Non-Pharma",
-      description: "Multipurpose skin protectant for dry skin and minor cuts.",
-      price: 300,
-      image: pic11,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-    {
-      id: "12",
-      name: "Savlon Antiseptic Liquid 200ml",
-      category: "Pharma",
-      description: "Trusted antiseptic for cuts, grazes, and personal hygiene.",
-      price: 400,
-      image: pic12,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "13",
-      name: "Centrum Energy Multivitamins 30s",
-      category: "Pharma",
-      description:
-        "Daily multivitamin for immune support and energy metabolism.",
-      price: 1200,
-      image: pic13,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "14",
-      name: "ORS Rehydration Salts 10s",
-      category: "Pharma",
-      description: "Essential salts to restore hydration and electrolytes.",
-      price: 180,
-      image: pic14,
-      isTopSeller: true,
-      isPharma: true,
-    },
-    {
-      id: "15",
-      name: "Clearasil Daily Face Wash 150ml",
-      category: "Non-Pharma",
-      description: "Gentle cleanser to prevent acne and keep skin fresh.",
-      price: 850,
-      image: pic15,
-      isTopSeller: true,
-      isNonPharma: true,
-    },
-  ];
-
   // ===============================================================
   // 🧩 JSX Layout
   // ===============================================================
@@ -346,16 +166,14 @@ const BestSellers: React.FC = () => {
               transition={{ type: "spring", stiffness: 300, damping: 20 }}
             >
               {/* ⭐ Top Seller Badge */}
-              {product.isTopSeller && (
-                <motion.div
-                  className={styles.topSellerBadge}
-                  initial={{ scale: 0, rotate: -180 }}
-                  animate={{ scale: 1, rotate: 0 }}
-                  transition={{ type: "spring", delay: 0.15 }}
-                >
-                  ⭐ Top Seller
-                </motion.div>
-              )}
+              <motion.div
+                className={styles.topSellerBadge}
+                initial={{ scale: 0, rotate: -180 }}
+                animate={{ scale: 1, rotate: 0 }}
+                transition={{ type: "spring", delay: 0.15 }}
+              >
+                ⭐ Top Seller
+              </motion.div>
 
               {/* 🖼️ Product Image */}
               <div className={styles.imageContainer}>
@@ -372,15 +190,15 @@ const BestSellers: React.FC = () => {
                   onClick={() => toggleFavorite(product.id)}
                   whileTap={{ scale: 0.9 }}
                   aria-label={
-                    favorites.has(product.id)
+                    isInWishlist(product.id)
                       ? "Remove from favorites"
                       : "Add to favorites"
                   }
                 >
                   <Heart
                     size={20}
-                    fill={favorites.has(product.id) ? "#e53e3e" : "none"}
-                    color={favorites.has(product.id) ? "#e53e3e" : "#718096"}
+                    fill={isInWishlist(product.id) ? "#e53e3e" : "none"}
+                    color={isInWishlist(product.id) ? "#e53e3e" : "#718096"}
                   />
                 </motion.button>
 
@@ -399,12 +217,12 @@ const BestSellers: React.FC = () => {
                 <h3 className={styles.productName}>{product.name}</h3>
 
                 <div className={styles.categoryBadge}>
-                  {product.isPharma && (
+                  {isPharmaProduct(product) && (
                     <span className={`${styles.badge} ${styles.pharmaBadge}`}>
                       Pharma
                     </span>
                   )}
-                  {product.isNonPharma && (
+                  {!isPharmaProduct(product) && (
                     <span
                       className={`${styles.badge} ${styles.nonPharmaBadge}`}
                     >
@@ -419,14 +237,16 @@ const BestSellers: React.FC = () => {
 
                 <div className={styles.priceContainer}>
                   <span className={styles.price}>
-                    Kes. {product.price.toFixed(2)}
+                    {formatPrice(product.price)}
                   </span>
                 </div>
+                <LowStockBadge product={product} />
 
                 <div className={styles.actionButtons}>
                   <motion.button
                     className={styles.addButton}
-                    onClick={() => addToCart(product.name)}
+                    onClick={() => handleAddToCart(product)}
+                    disabled={isSoldOut(product)}
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                   >
@@ -436,6 +256,7 @@ const BestSellers: React.FC = () => {
 
                   <motion.button
                     className={styles.detailsButton}
+                    onClick={() => navigate(getProductPath(product))}
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                   >
@@ -0,0 +1,823 @@
+// ===============================================================
+// ✅ Checkout.tsx — Multi-step checkout wizard (/checkout)
+// ===============================================================
+
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import toast from "react-hot-toast";
+import { AlertCircle, Check, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useAddressBook } from "../context/AddressBookContext";
+import { useAuth } from "../context/AuthContext";
+import { useCart } from "../context/CartContext";
+import { useRefills } from "../context/RefillContext";
+import {
+  buildOrder,
+  describeFulfilment,
+  getOrderShipments,
+  getPaymentLabel,
+  getPickupStation,
+  hasErrors,
+  normalizePhone,
+  PAYMENT_METHODS,
+  PICKUP_STATIONS,
+  validateStep,
+  type CheckoutDraft,
+  type CheckoutStep,
+  type Order as PlacedOrder,
+  type PaymentMethod,
+  type StepErrors,
+} from "../checkout";
+import CouponForm from "../components/CouponForm";
+import PrescriptionBadge from "../components/PrescriptionBadge";
+import { formatPrice, STORE } from "../config";
+import {
+  COUNTIES,
+  EXPRESS_SLOT_ID,
+  formatEta,
+  formatWindow,
+  getSlotOptions,
+  getZoneForAddress,
+  isSameAddress,
+  KENYA_LOCATIONS,
+  quoteDelivery,
+  toDeliveryAddress,
+} from "../delivery";
+import { checkCartStock, describeStockIssue, recordSale } from "../inventory";
+import { getOrderAdapter } from "../orders";
+import { isHeldForReview } from "../prescriptions";
+import { useStkPayment } from "../payments";
+import { buildWhatsAppOrderMessage, orderToWhatsAppDetails } from "../utils/whatsappOrder";
+import Order from "../outer/Order";
+import styles from "./Checkout.module.css";
+
+const STEPS: { id: CheckoutStep; label: string }[] = [
+  { id: "contact", label: "Contact" },
+  { id: "fulfilment", label: "Delivery" },
+  { id: "slot", label: "Time Slot" },
+  { id: "payment", label: "Payment" },
+  { id: "review", label: "Review" },
+];
+
+const INITIAL_DRAFT: CheckoutDraft = {
+  contact: { fullName: "", phone: "", email: "" },
+  method: "delivery",
+  address: { county: "", town: "", area: "", street: "", landmark: "" },
+  stationId: PICKUP_STATIONS[0]?.id ?? "",
+  slotId: "",
+  payment: "",
+  mpesaPhone: "",
+  notes: "",
+};
+
+const Checkout: React.FC = () => {
+  const {
+    cartItems,
+    clearCart,
+    getCartTotal,
+    getTotalItems,
+    getItemsNeedingPrescription,
+    removeFromCart,
+    pricing,
+    redeemPromotions,
+    stockIssues,
+    fitCartToStock,
+  } = useCart();
+  const { markRefilled } = useRefills();
+  const { user } = useAuth();
+  const { addresses, selectedAddress, saveAddress, selectAddress } = useAddressBook();
+
+  const [stepIndex, setStepIndex] = useState(0);
+  // Signed-in customers start from their contact details; everyone from their chosen address
+  const [draft, setDraft] = useState<CheckoutDraft>(() => ({
+    ...INITIAL_DRAFT,
+    ...(user && { contact: { fullName: user.fullName, phone: user.phone, email: user.email ?? "" } }),
+    ...(selectedAddress && { address: toDeliveryAddress(selectedAddress) }),
+  }));
+  const [errors, setErrors] = useState<StepErrors>({});
+  const [placedOrder, setPlacedOrder] = useState<PlacedOrder | null>(null);
+  // The order an M-Pesa prompt last went out for: retries keep its number, so an
+  // earlier prompt that was paid after all is found instead of charging again
+  const [promptedOrder, setPromptedOrder] = useState<PlacedOrder | null>(null);
+
+  const stk = useStkPayment();
+  const paying = stk.status === "sending" || stk.status === "pending";
+
+  const step = STEPS[stepIndex].id;
+
+  // Prescription-only lines: "pending" blocks the order, "held" ships after review
+  const rxPending = getItemsNeedingPrescription();
+  const rxHeld = cartItems.filter(isHeldForReview);
+
+  // The address's zone sets the fee and slots; some zones take prescription medicines by pickup only
+  const zone = draft.method === "delivery" && draft.address.county ? getZoneForAddress(draft.address) : null;
+  const slots = getSlotOptions(draft);
+  const quote = quoteDelivery(draft, cartItems);
+  // Until the address names a county there's no zone, so the fee isn't known yet — leave it out
+  const deliveryKnown = draft.method === "pickup" || !!zone;
+  const orderTotal = pricing.total + (deliveryKnown ? quote.fee : 0);
+  const rxPickupOnly = !!zone && !zone.prescriptions && cartItems.some((item) => item.requiresPrescription);
+  const rxPickupOnlyMessage = `Prescription medicines can't be delivered to ${draft.address.town || zone?.name}. Choose pickup, or remove them.`;
+
+  // ===============================================================
+  // ✏️ Draft updates
+  // ===============================================================
+  const update = <K extends keyof CheckoutDraft>(key: K, value: CheckoutDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setErrors({});
+  };
+
+  const updateContact = (field: keyof CheckoutDraft["contact"], value: string) =>
+    update("contact", { ...draft.contact, [field]: value });
+
+  const updateAddress = (field: keyof CheckoutDraft["address"], value: string) =>
+    update("address", { ...draft.address, [field]: value });
+
+  // ===============================================================
+  // 🧭 Navigation
+  // ===============================================================
+  const goTo = (index: number) => {
+    stk.reset();
+    setErrors({});
+    setStepIndex(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const chooseSavedAddress = (id: string) => {
+    const saved = addresses.find((a) => a.id === id);
+    if (!saved) return;
+    update("address", toDeliveryAddress(saved));
+    selectAddress(id);
+  };
+
+  const handleNext = () => {
+    const stepErrors = validateStep(step, draft);
+    if (step === "fulfilment" && rxPickupOnly) stepErrors.zone = rxPickupOnlyMessage;
+    if (hasErrors(stepErrors)) {
+      setErrors(stepErrors);
+      return;
+    }
+    goTo(stepIndex + 1);
+  };
+
+  const choosePayment = (method: PaymentMethod) => {
+    setDraft((prev) => ({
+      ...prev,
+      payment: method,
+      mpesaPhone: prev.mpesaPhone || prev.contact.phone,
+    }));
+    setErrors({});
+  };
+
+  const completeOrder = (order: PlacedOrder) => {
+    redeemPromotions(order.discounts ?? []);
+    recordSale(order.items);
+    clearCart();
+    markRefilled(order.items.map((item) => item.id));
+    // Keep it for order history; a failed save doesn't undo the order
+    getOrderAdapter()
+      .recordOrder(order, user?.id)
+      .catch((err) => console.warn("Checkout: couldn't save the order to history", err));
+    // A new delivery address goes into the address book for next time
+    const { fulfilment } = order;
+    if (fulfilment.method === "delivery" && !addresses.some((a) => isSameAddress(a, fulfilment.address))) {
+      saveAddress({ ...fulfilment.address, label: "", phone: order.contact.phone }, { select: true });
+    }
+    setPlacedOrder(order);
+    window.scrollTo({ top: 0 });
+    toast.success(`Order ${order.orderNumber} placed!`);
+  };
+
+  const handlePlaceOrder = async () => {
+    if (rxPending.length > 0) {
+      toast.error("Attach a prescription or remove prescription-only items first.");
+      window.scrollTo({ top: 0, behavior: "smooth" });
+      return;
+    }
+
+    // Stock may have sold out since the cart was filled
+    if (checkCartStock(cartItems).length > 0) {
+      toast.error("Some items are short on stock — update your cart to continue.");
+      window.scrollTo({ top: 0, behavior: "smooth" });
+      return;
+    }
+
+    if (rxPickupOnly) {
+      goTo(1);
+      setErrors({ zone: rxPickupOnlyMessage });
+      return;
+    }
+
+    // Re-check every step: slots can expire while the review is open
+    const failing = STEPS.findIndex(({ id }) => hasErrors(validateStep(id, draft)));
+    if (failing !== -1) {
+      goTo(failing);
+      setErrors(validateStep(STEPS[failing].id, draft));
+      toast.error("Please review the highlighted details.");
+      return;
+    }
+
+    const built = buildOrder(draft, cartItems, pricing.discounts);
+    const order = promptedOrder ? { ...built, orderNumber: promptedOrder.orderNumber } : built;
+    if (order.payment !== "mpesa") {
+      completeOrder(order);
+      return;
+    }
+
+    // M-Pesa is paid up front: the order only goes through once the STK push succeeds
+    const result = await stk.pay(
+      {
+        amount: order.total,
+        phone: normalizePhone(draft.mpesaPhone),
+        reference: order.orderNumber,
+        description: STORE.name,
+      },
+      () => setPromptedOrder(order)
+    );
+    if (result?.status === "success") {
+      // Paid on the earlier prompt: the money covers that order, even if details changed since
+      completeOrder({
+        ...(result.earlier && promptedOrder ? promptedOrder : order),
+        paidAt: new Date().toISOString(),
+        ...(result.receipt && { paymentReceipt: result.receipt }),
+      });
+    }
+  };
+
+  // ===============================================================
+  // ✅ Confirmation
+  // ===============================================================
+  if (placedOrder) {
+    return (
+      <Order
+        orderNumber={placedOrder.orderNumber}
+        deliveryMethod={placedOrder.fulfilment.method}
+        paymentMethod={getPaymentLabel(placedOrder.payment)}
+        paid={!!placedOrder.paidAt}
+        paymentReceipt={placedOrder.paymentReceipt}
+        whatsappMessage={
+          buildWhatsAppOrderMessage(placedOrder.items, orderToWhatsAppDetails(placedOrder)).message
+        }
+        shipments={getOrderShipments(placedOrder)}
+      />
+    );
+  }
+
+  // ===============================================================
+  // 🛒 Empty cart
+  // ===============================================================
+  if (cartItems.length === 0) {
+    return (
+      <section className={styles.empty}>
+        <h2>Your cart is empty</h2>
+        <p>Add a few products before checking out.</p>
+        <Link to="/shop" className={styles.primaryButton}>
+          Continue shopping
+        </Link>
+      </section>
+    );
+  }
+
+  const fieldError = (name: string) =>
+    errors[name] && (
+      <span className={styles.error} id={`${name}-error`} role="alert">
+        {errors[name]}
+      </span>
+    );
+
+  const describedBy = (name: string) => (errors[name] ? `${name}-error` : undefined);
+
+  // ===============================================================
+  // 🧩 Steps
+  // ===============================================================
+  const renderStep = () => {
+    switch (step) {
+      case "contact":
+        return (
+          <fieldset className={styles.fieldset}>
+            <legend>Contact details</legend>
+            <label className={styles.field}>
+              <span>Full name</span>
+              <input
+                value={draft.contact.fullName}
+                onChange={(e) => updateContact("fullName", e.target.value)}
+                autoComplete="name"
+                aria-invalid={!!errors.fullName}
+                aria-describedby={describedBy("fullName")}
+              />
+              {fieldError("fullName")}
+            </label>
+            <label className={styles.field}>
+              <span>Phone number</span>
+              <input
+                type="tel"
+                value={draft.contact.phone}
+                onChange={(e) => updateContact("phone", e.target.value)}
+                placeholder="07XX XXX XXX"
+                autoComplete="tel"
+                aria-invalid={!!errors.phone}
+                aria-describedby={describedBy("phone")}
+              />
+              {fieldError("phone")}
+            </label>
+            <label className={styles.field}>
+              <span>
+                Email <small>(optional)</small>
+              </span>
+              <input
+                type="email"
+                value={draft.contact.email}
+                onChange={(e) => updateContact("email", e.target.value)}
+                autoComplete="email"
+                aria-invalid={!!errors.email}
+                aria-describedby={describedBy("email")}
+              />
+              {fieldError("email")}
+            </label>
+          </fieldset>
+        );
+
+      case "fulfilment":
+        return (
+          <fieldset className={styles.fieldset}>
+            <legend>How would you like to receive your order?</legend>
+            <div className={styles.options}>
+              {(["delivery", "pickup"] as const).map((method) => (
+                <label
+                  key={method}
+                  className={`${styles.option} ${draft.method === method ? styles.selected : ""}`}
+                >
+                  <input
+                    type="radio"
+                    name="method"
+                    checked={draft.method === method}
+                    onChange={() => update("method", method)}
+                  />
+                  <strong>{method === "delivery" ? "Home delivery" : "Pickup station"}</strong>
+                  <span>
+                    {method === "delivery"
+                      ? "We'll bring it to your door."
+                      : "Collect from one of our pharmacies."}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {draft.method === "delivery" ? (
+              <>
+                {addresses.length > 0 && (
+                  <div className={styles.options} role="radiogroup" aria-label="Saved addresses">
+                    {addresses.map((saved) => (
+                      <label
+                        key={saved.id}
+                        className={`${styles.option} ${isSameAddress(saved, draft.address) ? styles.selected : ""}`}
+                      >
+                        <input
+                          type="radio"
+                          name="savedAddress"
+                          checked={isSameAddress(saved, draft.address)}
+                          onChange={() => chooseSavedAddress(saved.id)}
+                        />
+                        <strong>{saved.label}</strong>
+                        <span>{describeFulfilment({ method: "delivery", address: saved })}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <label className={styles.field}>
+                  <span>County</span>
+                  <select
+                    value={draft.address.county}
+                    onChange={(e) => update("address", { ...draft.address, county: e.target.value, town: "" })}
+                    aria-invalid={!!errors.county}
+                    aria-describedby={describedBy("county")}
+                  >
+                    <option value="">Choose your county…</option>
+                    {COUNTIES.map((county) => (
+                      <option key={county} value={county}>
+                        {county}
+                      </option>
+                    ))}
+                  </select>
+                  {fieldError("county")}
+                </label>
+                <label className={styles.field}>
+                  <span>Town</span>
+                  <input
+                    value={draft.address.town}
+                    onChange={(e) => updateAddress("town", e.target.value)}
+                    list="checkout-towns"
+                    autoComplete="address-level2"
+                    aria-invalid={!!errors.town}
+                    aria-describedby={describedBy("town")}
+                  />
+                  <datalist id="checkout-towns">
+                    {(KENYA_LOCATIONS[draft.address.county] ?? []).map((town) => (
+                      <option key={town} value={town} />
+                    ))}
+                  </datalist>
+                  {fieldError("town")}
+                </label>
+                <label className={styles.field}>
+                  <span>Area / estate</span>
+                  <input
+                    value={draft.address.area}
+                    onChange={(e) => updateAddress("area", e.target.value)}
+                    placeholder="e.g. Juja, Gachororo"
+                    aria-invalid={!!errors.area}
+                    aria-describedby={describedBy("area")}
+                  />
+                  {fieldError("area")}
+                </label>
+                <label className={styles.field}>
+                  <span>Street, building & house no.</span>
+                  <input
+                    value={draft.address.street}
+                    onChange={(e) => updateAddress("street", e.target.value)}
+                    autoComplete="street-address"
+                    aria-invalid={!!errors.street}
+                    aria-describedby={describedBy("street")}
+                  />
+                  {fieldError("street")}
+                </label>
+                <label className={styles.field}>
+                  <span>
+                    Landmark <small>(optional)</small>
+                  </span>
+                  <input
+                    value={draft.address.landmark}
+                    onChange={(e) => updateAddress("landmark", e.target.value)}
+                  />
+                </label>
+                {zone && (
+                  <p className={styles.zoneNote}>
+                    {zone.name} delivery · {formatPrice(zone.fee)} · usually {formatEta(zone).toLowerCase()}
+                    {zone.freeOver !== undefined && ` · free over ${formatPrice(zone.freeOver)}`}
+                    {zone.express && ` · express for ${formatPrice(zone.express.fee)} more`}
+                  </p>
+                )}
+                {fieldError("zone")}
+              </>
+            ) : (
+              <div className={styles.options} role="radiogroup" aria-label="Pickup station">
+                {PICKUP_STATIONS.map((station) => (
+                  <label
+                    key={station.id}
+                    className={`${styles.option} ${draft.stationId === station.id ? styles.selected : ""}`}
+                  >
+                    <input
+                      type="radio"
+                      name="station"
+                      checked={draft.stationId === station.id}
+                      onChange={() => update("stationId", station.id)}
+                    />
+                    <strong>{station.name}</strong>
+                    <span>{station.address}</span>
+                    <small>{station.hours}</small>
+                  </label>
+                ))}
+                {fieldError("stationId")}
+              </div>
+            )}
+          </fieldset>
+        );
+
+      case "slot":
+        return (
+          <fieldset className={styles.fieldset}>
+            <legend>
+              {draft.method === "pickup"
+                ? "Choose a pickup window"
+                : zone?.courier
+                  ? "Choose when we hand it to the courier"
+                  : "Choose a delivery window"}
+            </legend>
+            {zone?.courier && (
+              <p className={styles.zoneNote}>
+                Couriers to {draft.address.town || zone.name} take {formatEta(zone).toLowerCase()} after
+                pickup from our store.
+              </p>
+            )}
+            <div className={styles.slotGrid}>
+              {slots.map((slot) => (
+                <label
+                  key={slot.id}
+                  className={`${styles.option} ${draft.slotId === slot.id ? styles.selected : ""}`}
+                >
+                  <input
+                    type="radio"
+                    name="slot"
+                    checked={draft.slotId === slot.id}
+                    onChange={() => update("slotId", slot.id)}
+                  />
+                  <strong>{slot.label}</strong>
+                  {slot.id === EXPRESS_SLOT_ID && zone?.express && (
+                    <span>+{formatPrice(zone.express.fee)} · rider leaves as soon as it's packed</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            {fieldError("slotId")}
+          </fieldset>
+        );
+
+      case "payment":
+        return (
+          <fieldset className={styles.fieldset}>
+            <legend>Payment method</legend>
+            <div className={styles.options}>
+              {PAYMENT_METHODS.map((method) => (
+                <label
+                  key={method.id}
+                  className={`${styles.option} ${draft.payment === method.id ? styles.selected : ""}`}
+                >
+                  <input
+                    type="radio"
+                    name="payment"
+                    checked={draft.payment === method.id}
+                    onChange={() => choosePayment(method.id)}
+                  />
+                  <strong>{method.label}</strong>
+                  <span>{method.description}</span>
+                </label>
+              ))}
+            </div>
+            {fieldError("payment")}
+
+            {draft.payment === "mpesa" && (
+              <label className={styles.field}>
+                <span>M-Pesa number</span>
+                <input
+                  type="tel"
+                  value={draft.mpesaPhone}
+                  onChange={(e) => update("mpesaPhone", e.target.value)}
+                  placeholder="07XX XXX XXX"
+                  autoComplete="tel"
+                  aria-invalid={!!errors.mpesaPhone}
+                  aria-describedby={describedBy("mpesaPhone")}
+                />
+                <small>We'll send a payment prompt to this phone when you place the order.</small>
+                {fieldError("mpesaPhone")}
+              </label>
+            )}
+          </fieldset>
+        );
+
+      case "review": {
+        const slot = slots.find((s) => s.id === draft.slotId);
+        const station = getPickupStation(draft.stationId);
+        return (
+          <div className={styles.review}>
+            <section>
+              <h3>
+                Contact <button type="button" onClick={() => goTo(0)}>Edit</button>
+              </h3>
+              <p>
+                {draft.contact.fullName} · {draft.contact.phone}
+                {draft.contact.email && ` · ${draft.contact.email}`}
+              </p>
+            </section>
+            <section>
+              <h3>
+                {draft.method === "delivery" ? "Delivery address" : "Pickup station"}{" "}
+                <button type="button" onClick={() => goTo(1)}>Edit</button>
+              </h3>
+              <p>
+                {draft.method === "delivery"
+                  ? `${describeFulfilment({ method: "delivery", address: draft.address })} · ${formatPrice(quote.fee)}`
+                  : station && `${station.name}, ${station.address}`}
+              </p>
+            </section>
+            <section>
+              <h3>
+                Time slot <button type="button" onClick={() => goTo(2)}>Edit</button>
+              </h3>
+              <p>{slot?.label}</p>
+              {zone?.courier && quote.window && <p>Expected {formatWindow(quote.window)}</p>}
+            </section>
+            <section>
+              <h3>
+                Payment <button type="button" onClick={() => goTo(3)}>Edit</button>
+              </h3>
+              <p>
+                {draft.payment && getPaymentLabel(draft.payment)}
+                {draft.payment === "mpesa" && ` · ${draft.mpesaPhone}`}
+              </p>
+            </section>
+            {rxHeld.length > 0 && (
+              <p className={styles.rxHeldNote}>
+                Prescription items ({rxHeld.map((item) => item.name).join(", ")}) will be dispatched
+                once our pharmacist has verified your prescription.
+              </p>
+            )}
+            <label className={styles.field}>
+              <span>
+                Order notes <small>(optional)</small>
+              </span>
+              <textarea
+                rows={3}
+                value={draft.notes}
+                onChange={(e) => update("notes", e.target.value)}
+                placeholder="Gate code, preferred contact time…"
+              />
+            </label>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="checkout-title">
+      <h1 id="checkout-title" className={styles.title}>
+        Checkout
+      </h1>
+
+      {/* ===== Progress ===== */}
+      <ol className={styles.stepper}>
+        {STEPS.map(({ id, label }, index) => (
+          <li
+            key={id}
+            className={`${styles.stepItem} ${index === stepIndex ? styles.current : ""} ${
+              index < stepIndex ? styles.done : ""
+            }`}
+            aria-current={index === stepIndex ? "step" : undefined}
+          >
+            <span className={styles.stepDot}>{index < stepIndex ? <Check size={14} /> : index + 1}</span>
+            <span className={styles.stepLabel}>{label}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div className={styles.layout}>
+        <form
+          className={styles.form}
+          noValidate
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (paying) return;
+            if (step === "review") void handlePlaceOrder();
+            else handleNext();
+          }}
+        >
+          {/* ===== Prescription gate ===== */}
+          {rxPending.length > 0 && (
+            <div className={styles.rxGate} role="alert">
+              <p>
+                <strong>Prescription needed.</strong> These medicines can't be ordered until you
+                attach a valid prescription:
+              </p>
+              <ul>
+                {rxPending.map((item) => (
+                  <li key={item.id}>
+                    <span>{item.name}</span>
+                    <button type="button" onClick={() => removeFromCart(item.id)}>
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <Link to="/prescription/attach?return=/checkout" className={styles.secondaryButton}>
+                Attach prescription
+              </Link>
+            </div>
+          )}
+
+          {/* ===== Stock gate ===== */}
+          {stockIssues.length > 0 && (
+            <div className={styles.rxGate} role="alert">
+              <p>
+                <strong>Short on stock.</strong> We can't send everything in your cart:
+              </p>
+              <ul>
+                {stockIssues.map((issue) => (
+                  <li key={issue.id}>
+                    <span>{describeStockIssue(issue)}</span>
+                  </li>
+                ))}
+              </ul>
+              <button type="button" className={styles.secondaryButton} onClick={fitCartToStock}>
+                Update cart to what's left
+              </button>
+            </div>
+          )}
+
+          {renderStep()}
+
+          {/* ===== M-Pesa status ===== */}
+          {step === "review" && stk.status !== "idle" && (
+            <div
+              className={`${styles.paymentStatus} ${paying ? "" : styles.paymentStatusError}`}
+              role={paying ? "status" : "alert"}
+            >
+              {paying ? (
+                <Loader2 size={20} className={styles.spinner} aria-hidden="true" />
+              ) : (
+                <AlertCircle size={20} aria-hidden="true" />
+              )}
+              <div>
+                <p>{stk.message}</p>
+                {paying ? (
+                  <button type="button" onClick={stk.cancel}>
+                    Stop waiting
+                  </button>
+                ) : (
+                  <button type="button" onClick={() => goTo(3)}>
+                    Use a different payment method
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className={styles.navButtons}>
+            {stepIndex > 0 && (
+              <button
+                type="button"
+                className={styles.secondaryButton}
+                onClick={() => goTo(stepIndex - 1)}
+                disabled={paying}
+              >
+                <ChevronLeft size={18} /> Back
+              </button>
+            )}
+            <button type="submit" className={styles.primaryButton} disabled={paying}>
+              {step === "review" ? (
+                paying ? (
+                  "Waiting for M-Pesa…"
+                ) : draft.payment === "mpesa" ? (
+                  `${stk.status === "idle" ? "Pay" : "Retry payment"} · ${formatPrice(orderTotal)}`
+                ) : (
+                  `Place order · ${formatPrice(orderTotal)}`
+                )
+              ) : (
+                <>
+                  Continue <ChevronRight size={18} />
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+
+        {/* ===== Order Summary ===== */}
+        <aside className={styles.summary} aria-label="Order summary">
+          <h2>Order summary</h2>
+          <ul>
+            {cartItems.map((item) => (
+              <li key={item.id}>
+                <span>
+                  {item.name} × {item.quantity}
+                  <PrescriptionBadge item={item} className={styles.summaryBadge} />
+                </span>
+                <span>{formatPrice(item.price * item.quantity)}</span>
+              </li>
+            ))}
+          </ul>
+          <div className={styles.summaryLine}>
+            <span>Subtotal ({getTotalItems()} items)</span>
+            <span>{formatPrice(getCartTotal())}</span>
+          </div>
+          {pricing.discounts.map((discount) => (
+            <div key={discount.promotionId} className={`${styles.summaryLine} ${styles.summaryDiscount}`}>
+              <span>{discount.label}</span>
+              <span>−{formatPrice(discount.amount)}</span>
+            </div>
+          ))}
+          <CouponForm className={styles.summaryCoupon} />
+          {draft.method === "pickup" ? (
+            <div className={styles.summaryLine}>
+              <span>Pickup</span>
+              <span>Free</span>
+            </div>
+          ) : zone ? (
+            quote.charges.map((charge) => (
+              <div key={charge.label} className={styles.summaryLine}>
+                <span>{charge.label}</span>
+                <span>{charge.amount < 0 ? `−${formatPrice(-charge.amount)}` : formatPrice(charge.amount)}</span>
+              </div>
+            ))
+          ) : (
+            <div className={styles.summaryLine}>
+              <span>Delivery</span>
+              <span>Set at the delivery step</span>
+            </div>
+          )}
+          {zone && quote.window && (
+            <p className={styles.zoneNote}>
+              {slots.some((slot) => slot.id === draft.slotId) ? "Arrives" : "Earliest arrival"}{" "}
+              {formatWindow(quote.window)}
+            </p>
+          )}
+          {zone && quote.freeDeliveryGap !== undefined && (
+            <p className={styles.zoneNote}>Add {formatPrice(quote.freeDeliveryGap)} more for free delivery.</p>
+          )}
+          <div className={styles.summaryTotal}>
+            <span>{deliveryKnown ? "Total" : "Total (excl. delivery)"}</span>
+            <strong>{formatPrice(orderTotal)}</strong>
+          </div>
+        </aside>
+      </div>
+    </section>
+  );
+};
+
+export default Checkout;
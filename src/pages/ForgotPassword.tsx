@@ -0,0 +1,124 @@
+// ===============================================================
+// 🔁 ForgotPassword.tsx — Reset a password with a code texted to
+//    the account's phone (/forgot-password)
+// ===============================================================
+
+import React, { useState } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import toast from "react-hot-toast";
+import {
+  AuthError,
+  checkPassword,
+  describeAuthError,
+  getRedirectTarget,
+  MIN_PASSWORD_LENGTH,
+  withRedirect,
+  type OtpChallenge,
+} from "../auth";
+import { useAuth } from "../context/AuthContext";
+import OtpCodeForm from "../components/OtpCodeForm";
+import styles from "./Auth.module.css";
+
+const ForgotPassword: React.FC = () => {
+  const { user, requestPasswordReset, resetPassword } = useAuth();
+  const { search } = useLocation();
+  const next = getRedirectTarget(search);
+
+  const [identifier, setIdentifier] = useState("");
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  if (user) return <Navigate to={next} replace />;
+
+  const sendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!identifier.trim()) {
+      setError("Enter the email or phone number on your account.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      setChallenge(await requestPasswordReset(identifier));
+    } catch (err) {
+      setError(describeAuthError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = async (code: string) => {
+    const weak = checkPassword(password);
+    if (weak) throw new AuthError(`New password: ${weak}`, "invalid");
+    await resetPassword(challenge!.challengeId, code, password);
+    toast.success("Password changed — you're signed in.");
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="forgot-title">
+      <div className={styles.card}>
+        <h1 id="forgot-title" className={styles.title}>
+          Reset your password
+        </h1>
+        <p className={styles.muted}>
+          We'll text a code to the phone on your account. Prefer not to bother?{" "}
+          <Link to={withRedirect("/login", next)}>Sign in with a phone code</Link> instead.
+        </p>
+
+        {challenge ? (
+          <OtpCodeForm
+            challenge={challenge}
+            submitLabel="Set new password"
+            onVerify={reset}
+            onResend={async () => setChallenge(await requestPasswordReset(identifier))}
+            onBack={() => setChallenge(null)}
+          >
+            <label className={styles.field}>
+              <span>New password</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+              <span className={styles.hint}>
+                At least {MIN_PASSWORD_LENGTH} characters, with letters and numbers.
+              </span>
+            </label>
+          </OtpCodeForm>
+        ) : (
+          <form className={styles.form} onSubmit={sendCode} noValidate>
+            {error && (
+              <p className={styles.error} role="alert">
+                {error}
+              </p>
+            )}
+
+            <label className={styles.field}>
+              <span>Email or phone number</span>
+              <input
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                autoComplete="username"
+                required
+              />
+            </label>
+
+            <button type="submit" className={styles.submit} disabled={busy}>
+              {busy ? "Sending…" : "Send reset code"}
+            </button>
+          </form>
+        )}
+
+        <p className={styles.footer}>
+          Remembered it? <Link to={withRedirect("/login", next)}>Back to sign in</Link>
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default ForgotPassword;
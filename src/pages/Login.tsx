@@ -0,0 +1,219 @@
+// ===============================================================
+// 🔐 Login.tsx — Sign in with a password or a code texted to
+//    your phone (/login)
+// ===============================================================
+
+import React, { useState } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import toast from "react-hot-toast";
+import { isValidPhone } from "../checkout";
+import { STORE } from "../config";
+import {
+  describeAuthError,
+  getRedirectTarget,
+  validateLogin,
+  withRedirect,
+  type AuthErrors,
+  type OtpChallenge,
+} from "../auth";
+import { useAuth } from "../context/AuthContext";
+import OtpCodeForm from "../components/OtpCodeForm";
+import styles from "./Auth.module.css";
+
+type Method = "password" | "phone";
+
+const firstName = (fullName: string) => fullName.split(" ")[0];
+
+// ===============================================================
+// 🔑 Email / phone + password
+// ===============================================================
+const PasswordForm: React.FC<{ next: string }> = ({ next }) => {
+  const { login } = useAuth();
+  const [identifier, setIdentifier] = useState("");
+  const [password, setPassword] = useState("");
+  const [errors, setErrors] = useState<AuthErrors>({});
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = validateLogin({ identifier, password });
+    setErrors(found);
+    setError("");
+    if (Object.keys(found).length) return;
+
+    setBusy(true);
+    try {
+      const user = await login({ identifier, password });
+      toast.success(`Welcome back, ${firstName(user.fullName)}!`);
+    } catch (err) {
+      setError(describeAuthError(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <label className={styles.field}>
+        <span>Email or phone number</span>
+        <input
+          value={identifier}
+          onChange={(e) => setIdentifier(e.target.value)}
+          autoComplete="username"
+          aria-invalid={!!errors.identifier}
+          required
+        />
+        {errors.identifier && <span className={styles.fieldError}>{errors.identifier}</span>}
+      </label>
+
+      <label className={styles.field}>
+        <span>Password</span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          aria-invalid={!!errors.password}
+          required
+        />
+        {errors.password && <span className={styles.fieldError}>{errors.password}</span>}
+      </label>
+
+      <Link className={styles.forgot} to={withRedirect("/forgot-password", next)}>
+        Forgot password?
+      </Link>
+
+      <button type="submit" className={styles.submit} disabled={busy}>
+        {busy ? "Signing in…" : "Sign in"}
+      </button>
+    </form>
+  );
+};
+
+// ===============================================================
+// 📱 Phone number + one-time code
+// ===============================================================
+const PhoneForm: React.FC = () => {
+  const { requestOtp, verifyOtp } = useAuth();
+  const [phone, setPhone] = useState("");
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const sendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPhone(phone)) {
+      setError("Enter a valid Kenyan mobile number.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      setChallenge(await requestOtp(phone));
+    } catch (err) {
+      setError(describeAuthError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (challenge) {
+    return (
+      <OtpCodeForm
+        challenge={challenge}
+        submitLabel="Sign in"
+        onVerify={async (code) => {
+          const user = await verifyOtp(challenge.challengeId, code);
+          toast.success(`Welcome back, ${firstName(user.fullName)}!`);
+        }}
+        onResend={async () => setChallenge(await requestOtp(phone))}
+        onBack={() => setChallenge(null)}
+      />
+    );
+  }
+
+  return (
+    <form className={styles.form} onSubmit={sendCode} noValidate>
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      <label className={styles.field}>
+        <span>Phone number</span>
+        <input
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="07XX XXX XXX"
+          autoComplete="tel"
+          inputMode="tel"
+          required
+        />
+        <span className={styles.hint}>We'll text you a code — no password needed.</span>
+      </label>
+
+      <button type="submit" className={styles.submit} disabled={busy}>
+        {busy ? "Sending…" : "Send code"}
+      </button>
+    </form>
+  );
+};
+
+// ===============================================================
+// 🧭 Page
+// ===============================================================
+const Login: React.FC = () => {
+  const { user } = useAuth();
+  const { search } = useLocation();
+  const next = getRedirectTarget(search);
+  const [method, setMethod] = useState<Method>("phone");
+
+  if (user) return <Navigate to={next} replace />;
+
+  return (
+    <section className={styles.page} aria-labelledby="login-title">
+      <div className={styles.card}>
+        <h1 id="login-title" className={styles.title}>
+          Sign in
+        </h1>
+        <p className={styles.muted}>Your cart, prescriptions and repeat medicines, on any device.</p>
+
+        <div className={styles.tabs} role="tablist" aria-label="Sign-in method">
+          {(
+            [
+              ["phone", "Phone code"],
+              ["password", "Password"],
+            ] as const
+          ).map(([id, label]) => (
+            <button
+              key={id}
+              type="button"
+              role="tab"
+              aria-selected={method === id}
+              className={`${styles.tab} ${method === id ? styles.tabActive : ""}`}
+              onClick={() => setMethod(id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {method === "phone" ? <PhoneForm /> : <PasswordForm next={next} />}
+
+        <p className={styles.footer}>
+          New to {STORE.name}? <Link to={withRedirect("/register", next)}>Create an account</Link>
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default Login;
@@ -2,63 +2,39 @@
 import React, { useState, memo } from "react";
 import { Link } from "react-router-dom";
 import { ShoppingCart, MessageCircle } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
 import { useCart } from "../context/CartContext";
+import {
+  getDiscountPercent,
+  getProductPath,
+  getProductsByTag,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
 import toast from "react-hot-toast";
+import { formatPrice, whatsappUrl } from "../config";
+import { getFlashOffer, useFlashSaleClock } from "../promotions";
+import FlashSaleTag from "../components/FlashSaleTag";
 import styles from "./Offers.module.css";
 
-// === Import images ===
-import pic1 from "../assets/products/Allergy.png";
-import pic2 from "../assets/products/Anthelios.png";
-import pic3 from "../assets/products/Contraception.png";
-import pic4 from "../assets/products/Cough.png";
-import pic5 from "../assets/products/Headache.png";
-import pic6 from "../assets/products/Eno.png";
-import pic7 from "../assets/products/Diclofenac.png";
-import pic8 from "../assets/products/UTI.png";
+const offersData = getProductsByTag("everyday-relief");
 
-type Offer = {
-  id: string;
-  name: string;
-  image: string;
-  discount: number;
-  price: number;
-  oldPrice: number;
-};
-
-const offersData: Offer[] = [
-  { id: "1", name: "Allergy Relief", image: pic1, discount: 12, price: 350, oldPrice: 490 },
-  { id: "2", name: "La Roche-Posay Effaclar Foaming Gel", image: pic2, discount: 12, price: 830, oldPrice: 980 },
-  { id: "3", name: "Emergency Contraception", image: pic3, discount: 11, price: 1700, oldPrice: 2035 },
-  { id: "4", name: "Benyllin Cough Syrup", image: pic4, discount: 15, price: 989, oldPrice: 1075 },
-  { id: "5", name: "Paracetamol Headache Relief", image: pic5, discount: 15, price: 84, oldPrice: 95 },
-  { id: "6", name: "ENO Antacid Relief", image: pic6, discount: 11, price: 50, oldPrice: 75 },
-  { id: "7", name: "Diclofenac Pain Relief", image: pic7, discount: 15, price: 159, oldPrice: 175 },
-  { id: "8", name: "Cystex Painful Urination Relief", image: pic8, discount: 15, price: 214, oldPrice: 305 },
-];
-
-const WHATSAPP_NUMBER = "254796787207";
-const WHATSAPP_MESSAGE = encodeURIComponent("Hello, I’d like to order this product:");
+const WHATSAPP_MESSAGE = "Hello, I’d like to order this product:";
 
 const Offers: React.FC = memo(() => {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const { addToCart } = useCart();
+  const { user } = useAuth();
+  const now = useFlashSaleClock();
 
-  const handleAddToCart = (offer: Offer) => {
-    addToCart({
-      id: offer.id,
-      name: offer.name,
-      price: offer.price,
-      image: offer.image,
-      quantity: 1,
-    });
-    toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
+  const handleAddToCart = (offer: Product) => {
+    if (addToCart(toCartItem(offer))) toast.success(`${offer.name} added to cart 🛒`, { duration: 2000 });
   };
 
   const handleWhatsAppOrder = (productName: string) => {
-    const whatsappLink = `https://wa.me/${WHATSAPP_NUMBER}?text=${WHATSAPP_MESSAGE}%20${encodeURIComponent(
-      productName
-    )}`;
-    window.open(whatsappLink, "_blank");
+    window.open(whatsappUrl(`${WHATSAPP_MESSAGE} ${productName}`), "_blank");
   };
 
   const handleImageClick = (image: string) => setSelectedImage(image);
@@ -76,9 +52,15 @@ const Offers: React.FC = memo(() => {
 
       {/* === Offers Grid === */}
       <div className={styles.offersGrid}>
-        {offersData.map((offer) => (
+        {offersData.map((offer) => {
+          const flash = getFlashOffer(offer.id, { now, accountId: user?.id });
+          const onSale = !!flash && flash.available > 0;
+          const wasPrice = onSale ? offer.price : offer.originalPrice;
+          return (
           <div key={offer.id} className={styles.card}>
-            <div className={styles.discountTag}>-{offer.discount}%</div>
+            {!onSale && getDiscountPercent(offer) > 0 && (
+              <div className={styles.discountTag}>-{getDiscountPercent(offer)}%</div>
+            )}
 
             <div className={styles.imageWrapper}>
               <img
@@ -97,15 +79,23 @@ const Offers: React.FC = memo(() => {
             </div>
 
             <div className={styles.info}>
-              <p className={styles.name}>{offer.name}</p>
+              <p className={styles.name}>
+                <Link to={getProductPath(offer)} className={styles.nameLink}>
+                  {offer.name}
+                </Link>
+              </p>
               <div className={styles.prices}>
                 <span className={styles.newPrice}>
-                  KSh {offer.price.toLocaleString()}
-                </span>
-                <span className={styles.oldPrice}>
-                  KSh {offer.oldPrice.toLocaleString()}
+                  {formatPrice(onSale ? flash.price : offer.price)}
                 </span>
+                {wasPrice && (
+                  <span className={styles.oldPrice}>
+                    {formatPrice(wasPrice)}
+                  </span>
+                )}
               </div>
+              {flash && <FlashSaleTag offer={flash} now={now} className={styles.flashTag} />}
+              <LowStockBadge product={offer} />
             </div>
 
             <div className={styles.actions}>
@@ -113,6 +103,7 @@ const Offers: React.FC = memo(() => {
               <button
                 className={styles.addToCart}
                 onClick={() => handleAddToCart(offer)}
+                disabled={isSoldOut(offer)}
               >
                 <ShoppingCart size={18} strokeWidth={1.8} />
                 <span>Add to Cart</span>
@@ -128,7 +119,8 @@ const Offers: React.FC = memo(() => {
               </button>
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
 
       {/* === Image Modal === */}
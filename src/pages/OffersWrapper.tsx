@@ -43,14 +43,14 @@ const OffersWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Sexual & Reproductive Health Section
         </h2>
-        <MensHealth/>
+        <MensHealth embedded />
       </section>
            {/* Featured Grid Section */}
       <section aria-labelledby="featured-grid" className={styles.sectionAlt}>
         <h2 id="featured-grid" className={styles.title}>
           Sexual & Reproductive Health Section
         </h2>
-        <WomenHealthShop/>
+        <WomenHealthShop embedded />
       </section>
 
 
@@ -59,7 +59,7 @@ const OffersWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Sexual & Reproductive Health Section
         </h2>
-        <Offers2/>
+        <Offers2 embedded />
       </section>
 
 
@@ -76,7 +76,7 @@ const OffersWrapper = () => {
         <h2 id="best-selling" className={styles.title}>
           Best Selling Products
         </h2>
-        <Vitamins/>
+        <Vitamins embedded />
       </section>
 
      {/* Featured Grid Section */}
@@ -84,7 +84,7 @@ const OffersWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Heart and Cardiovascular Section
         </h2>
-        <CVS />
+        <CVS embedded />
       </section>
 
       {/* Best Selling Section */}
@@ -100,7 +100,7 @@ const OffersWrapper = () => {
         <h2 id="featured-grid" className={styles.title}>
           Heart and Cardiovascular Section
         </h2>
-        <CVS />
+        <CVS embedded />
       </section>
 
       {/* Therapeutic Use Section */}
@@ -111,7 +111,7 @@ const OffersWrapper = () => {
         <h2 id="therapeutic-use" className={styles.title}>
           Respiratory system/ Breathing Section
         </h2>
-        <BeautyProducts />
+        <BeautyProducts embedded />
       </section>
 
             {/* Top Products Section */}
@@ -119,7 +119,7 @@ const OffersWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Musculosketal and Joints Drugs
         </h2>
-        <Shop />
+        <Shop embedded />
       </section>
 
       {/* Therapeutic Use Section */}
@@ -138,7 +138,7 @@ const OffersWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Renal/Kidney Drugs
         </h2>
-        <Renal />
+        <Renal embedded />
       </section>
 
       {/* Top Products Section */}
@@ -146,7 +146,7 @@ const OffersWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Nervous System Drugs
         </h2>
-        <CNS />
+        <CNS embedded />
       </section>
       
 
@@ -156,7 +156,7 @@ const OffersWrapper = () => {
         <h2 id="top-products" className={styles.title}>
           Reproductive/Sexual Health Section
         </h2>
-        <GUT />
+        <GUT embedded />
       </section>
 
       {/* Single Product Section */}
@@ -0,0 +1,181 @@
+// ===============================================================
+// 🔎 OrderDetail.tsx — One past order: progress, shipment,
+//    items, payment and reorder (/account/orders/:orderNumber)
+// ===============================================================
+
+import React, { useEffect, useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { withRedirect } from "../auth";
+import { getOrderShipments, getPaymentLabel } from "../checkout";
+import { formatPrice, STORE } from "../config";
+import { useAuth } from "../context/AuthContext";
+import { describeCharges } from "../delivery";
+import {
+  describeOrderError,
+  getOrderAdapter,
+  isOrderOpen,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_NOTES,
+  useReorder,
+  type OrderRecord,
+} from "../orders";
+import { getPrescriptionReferences } from "../prescriptions";
+import OrderLines from "../components/OrderLines";
+import OrderShipments from "../outer/OrderShipments";
+import styles from "./Orders.module.css";
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(STORE.currency.locale, { dateStyle: "medium", timeStyle: "short" });
+
+const OrderDetail: React.FC = () => {
+  const { orderNumber = "" } = useParams();
+  const { user } = useAuth();
+  const reorder = useReorder();
+  const [order, setOrder] = useState<OrderRecord | null>(null);
+  const [error, setError] = useState("");
+  const accountId = user?.id;
+
+  useEffect(() => {
+    if (!accountId) return;
+    let active = true;
+    setOrder(null);
+    setError("");
+    getOrderAdapter()
+      .getOrder(accountId, orderNumber)
+      .then((found) => {
+        if (active) setOrder(found);
+      })
+      .catch((err) => {
+        if (active) setError(describeOrderError(err));
+      });
+    return () => {
+      active = false;
+    };
+  }, [accountId, orderNumber]);
+
+  if (!user) return <Navigate to={withRedirect("/login", `/account/orders/${orderNumber}`)} replace />;
+
+  const back = (
+    <Link to="/account/orders" className={styles.back}>
+      ← All orders
+    </Link>
+  );
+
+  if (error || !order) {
+    return (
+      <section className={styles.page}>
+        {back}
+        <p className={styles.muted} role={error ? "alert" : undefined}>
+          {error || "Loading…"}
+        </p>
+      </section>
+    );
+  }
+
+  const references = getPrescriptionReferences(order.items);
+  const { contact, fulfilment } = order;
+
+  return (
+    <section className={styles.page} aria-labelledby="order-title">
+      {back}
+      <header className={styles.header}>
+        <div>
+          <h1 id="order-title" className={styles.title}>
+            Order {order.orderNumber}
+          </h1>
+          <p className={styles.muted}>Placed {formatDateTime(order.placedAt)}</p>
+        </div>
+        <span className={`${styles.badge} ${isOrderOpen(order) ? styles.badgeOpen : ""}`}>
+          {ORDER_STATUS_LABELS[order.status]}
+        </span>
+      </header>
+
+      <ol className={styles.timeline} aria-label="Order progress">
+        {order.history.map((event) => (
+          <li key={event.status}>
+            <strong>{ORDER_STATUS_LABELS[event.status]}</strong>
+            <span className={styles.muted}>{formatDateTime(event.at)}</span>
+          </li>
+        ))}
+      </ol>
+
+      <OrderShipments
+        shipments={getOrderShipments(order)}
+        deliveryMethod={fulfilment.method}
+        notice={ORDER_STATUS_NOTES[order.status]}
+      />
+
+      <section className={styles.card} aria-labelledby="items-title">
+        <div className={styles.cardHeader}>
+          <h2 id="items-title" className={styles.cardTitle}>
+            Items
+          </h2>
+          <button type="button" className={styles.primaryBtn} onClick={() => reorder(order.items)}>
+            Reorder all
+          </button>
+        </div>
+        <OrderLines items={order.items} onReorder={(item) => reorder([item])} />
+        <dl className={styles.summary}>
+          <dt>Subtotal</dt>
+          <dd>{formatPrice(order.subtotal)}</dd>
+          {order.discounts?.map((discount) => (
+            <React.Fragment key={discount.promotionId}>
+              <dt>{discount.label}</dt>
+              <dd>−{formatPrice(discount.amount)}</dd>
+            </React.Fragment>
+          ))}
+          <dt>{fulfilment.method === "delivery" ? "Delivery" : "Pickup"}</dt>
+          <dd>{order.deliveryFee ? formatPrice(order.deliveryFee) : "Free"}</dd>
+          <dt>Total</dt>
+          <dd className={styles.total}>{formatPrice(order.total)}</dd>
+        </dl>
+        {order.deliveryCharges && order.deliveryCharges.length > 1 && (
+          <p className={styles.muted}>Delivery: {describeCharges(order.deliveryCharges)}</p>
+        )}
+      </section>
+
+      <div className={styles.grid}>
+        <section className={styles.card} aria-labelledby="payment-title">
+          <h2 id="payment-title" className={styles.cardTitle}>
+            Payment
+          </h2>
+          <p>
+            {order.paidAt
+              ? `Paid with ${getPaymentLabel(order.payment)} on ${formatDateTime(order.paidAt)}`
+              : `${getPaymentLabel(order.payment)} on ${fulfilment.method === "delivery" ? "delivery" : "collection"}`}
+          </p>
+          {order.paymentReceipt && <p className={styles.muted}>Confirmation code {order.paymentReceipt}</p>}
+        </section>
+
+        <section className={styles.card} aria-labelledby="contact-title">
+          <h2 id="contact-title" className={styles.cardTitle}>
+            Contact
+          </h2>
+          <p>{contact.fullName}</p>
+          <p className={styles.muted}>
+            {contact.phone}
+            {contact.email && ` · ${contact.email}`}
+          </p>
+          {order.notes && <p className={styles.muted}>Note: {order.notes}</p>}
+        </section>
+
+        {references.length > 0 && (
+          <section className={styles.card} aria-labelledby="rx-title">
+            <h2 id="rx-title" className={styles.cardTitle}>
+              Prescriptions
+            </h2>
+            <ul className={styles.links}>
+              {references.map((ref) => (
+                <li key={ref}>
+                  <Link to={`/prescription/status/${ref}`}>{ref}</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default OrderDetail;
@@ -0,0 +1,132 @@
+// ===============================================================
+// 📦 OrderHistory.tsx — Past orders with status, items and
+//    reorder (/account/orders)
+// ===============================================================
+
+import React, { useEffect, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { withRedirect } from "../auth";
+import { describeFulfilment, getPaymentLabel } from "../checkout";
+import { formatPrice, STORE } from "../config";
+import { useAuth } from "../context/AuthContext";
+import {
+  describeOrderError,
+  getOrderAdapter,
+  isOrderOpen,
+  ORDER_STATUS_LABELS,
+  useReorder,
+  type OrderRecord,
+} from "../orders";
+import OrderLines from "../components/OrderLines";
+import styles from "./Orders.module.css";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(STORE.currency.locale, { dateStyle: "medium" });
+
+// ===============================================================
+// 🧾 One order
+// ===============================================================
+const OrderCard: React.FC<{ order: OrderRecord }> = ({ order }) => {
+  const reorder = useReorder();
+  const { fulfilment } = order;
+
+  return (
+    <article className={styles.card} aria-labelledby={`order-${order.orderNumber}`}>
+      <header className={styles.cardHeader}>
+        <div>
+          <h2 id={`order-${order.orderNumber}`} className={styles.orderNumber}>
+            <Link to={`/account/orders/${order.orderNumber}`}>{order.orderNumber}</Link>
+          </h2>
+          <p className={styles.muted}>
+            {formatDate(order.placedAt)} · {order.itemCount} item{order.itemCount === 1 ? "" : "s"}
+          </p>
+        </div>
+        <span className={`${styles.badge} ${isOrderOpen(order) ? styles.badgeOpen : ""}`}>
+          {ORDER_STATUS_LABELS[order.status]}
+        </span>
+      </header>
+
+      <p className={styles.fulfilment}>
+        <strong>{fulfilment.method === "delivery" ? "Delivery to" : "Pickup at"}</strong>{" "}
+        {describeFulfilment(fulfilment)}
+      </p>
+
+      <OrderLines items={order.items} onReorder={(item) => reorder([item])} />
+
+      <footer className={styles.cardFooter}>
+        <p className={styles.total}>
+          Total {formatPrice(order.total)}
+          <span className={styles.muted}>
+            {" "}
+            · {order.paidAt ? "Paid" : "Pay on delivery"} with {getPaymentLabel(order.payment)}
+          </span>
+        </p>
+        <div className={styles.actions}>
+          <Link to={`/account/orders/${order.orderNumber}`} className={styles.secondaryBtn}>
+            View details
+          </Link>
+          <button type="button" className={styles.primaryBtn} onClick={() => reorder(order.items)}>
+            Reorder all
+          </button>
+        </div>
+      </footer>
+    </article>
+  );
+};
+
+// ===============================================================
+// 🧭 Page
+// ===============================================================
+const OrderHistory: React.FC = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<OrderRecord[] | null>(null);
+  const [error, setError] = useState("");
+  const accountId = user?.id;
+
+  useEffect(() => {
+    if (!accountId) return;
+    let active = true;
+    getOrderAdapter()
+      .listOrders(accountId)
+      .then((list) => {
+        if (active) setOrders(list);
+      })
+      .catch((err) => {
+        if (active) setError(describeOrderError(err));
+      });
+    return () => {
+      active = false;
+    };
+  }, [accountId]);
+
+  if (!user) return <Navigate to={withRedirect("/login", "/account/orders")} replace />;
+
+  return (
+    <section className={styles.page} aria-labelledby="orders-title">
+      <Link to="/account" className={styles.back}>
+        ← My account
+      </Link>
+      <h1 id="orders-title" className={styles.title}>
+        My orders
+      </h1>
+
+      {error ? (
+        <p className={styles.muted} role="alert">
+          {error}
+        </p>
+      ) : !orders ? (
+        <p className={styles.muted}>Loading…</p>
+      ) : orders.length === 0 ? (
+        <div className={styles.card}>
+          <p className={styles.muted}>
+            Orders you place while signed in will appear here. <Link to="/shop">Start shopping</Link>
+          </p>
+        </div>
+      ) : (
+        orders.map((order) => <OrderCard key={order.orderNumber} order={order} />)
+      )}
+    </section>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,128 @@
+// ===============================================================
+// 📦 OrderStatus.tsx — One order by its number alone, for the link
+//    in a WhatsApp order (/order/status/:orderNumber). Contact
+//    details stay on the owner's order page.
+// ===============================================================
+
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { getOrderShipments, getPaymentLabel } from "../checkout";
+import { formatPrice, STORE } from "../config";
+import { describeCharges } from "../delivery";
+import {
+  describeOrderError,
+  getOrderAdapter,
+  isOrderOpen,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_NOTES,
+  type TrackedOrder,
+} from "../orders";
+import OrderLines from "../components/OrderLines";
+import OrderShipments from "../outer/OrderShipments";
+import styles from "./Orders.module.css";
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(STORE.currency.locale, { dateStyle: "medium", timeStyle: "short" });
+
+const OrderStatus: React.FC = () => {
+  const { orderNumber = "" } = useParams();
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let active = true;
+    setOrder(null);
+    setError("");
+    getOrderAdapter()
+      .trackOrder(orderNumber)
+      .then((found) => {
+        if (active) setOrder(found);
+      })
+      .catch((err) => {
+        if (active) setError(describeOrderError(err));
+      });
+    return () => {
+      active = false;
+    };
+  }, [orderNumber]);
+
+  if (error || !order) {
+    return (
+      <section className={styles.page}>
+        <p className={styles.muted} role={error ? "alert" : undefined}>
+          {error || "Loading…"}
+        </p>
+      </section>
+    );
+  }
+
+  const { fulfilment } = order;
+
+  return (
+    <section className={styles.page} aria-labelledby="order-title">
+      <header className={styles.header}>
+        <div>
+          <h1 id="order-title" className={styles.title}>
+            Order {order.orderNumber}
+          </h1>
+          <p className={styles.muted}>Placed {formatDateTime(order.placedAt)}</p>
+        </div>
+        <span className={`${styles.badge} ${isOrderOpen(order) ? styles.badgeOpen : ""}`}>
+          {ORDER_STATUS_LABELS[order.status]}
+        </span>
+      </header>
+
+      <ol className={styles.timeline} aria-label="Order progress">
+        {order.history.map((event) => (
+          <li key={event.status}>
+            <strong>{ORDER_STATUS_LABELS[event.status]}</strong>
+            <span className={styles.muted}>{formatDateTime(event.at)}</span>
+          </li>
+        ))}
+      </ol>
+
+      <OrderShipments
+        shipments={getOrderShipments(order)}
+        deliveryMethod={fulfilment.method}
+        notice={ORDER_STATUS_NOTES[order.status]}
+      />
+
+      <section className={styles.card} aria-labelledby="items-title">
+        <h2 id="items-title" className={styles.cardTitle}>
+          Items
+        </h2>
+        <OrderLines items={order.items} />
+        <dl className={styles.summary}>
+          <dt>Subtotal</dt>
+          <dd>{formatPrice(order.subtotal)}</dd>
+          {order.discounts?.map((discount) => (
+            <React.Fragment key={discount.promotionId}>
+              <dt>{discount.label}</dt>
+              <dd>−{formatPrice(discount.amount)}</dd>
+            </React.Fragment>
+          ))}
+          <dt>{fulfilment.method === "delivery" ? "Delivery" : "Pickup"}</dt>
+          <dd>{order.deliveryFee ? formatPrice(order.deliveryFee) : "Free"}</dd>
+          <dt>Total</dt>
+          <dd className={styles.total}>{formatPrice(order.total)}</dd>
+        </dl>
+        {order.deliveryCharges && order.deliveryCharges.length > 1 && (
+          <p className={styles.muted}>Delivery: {describeCharges(order.deliveryCharges)}</p>
+        )}
+        <p className={styles.muted}>
+          {order.paidAt
+            ? `Paid with ${getPaymentLabel(order.payment)}${order.paymentReceipt ? ` · ${order.paymentReceipt}` : ""}`
+            : `${getPaymentLabel(order.payment)} on ${fulfilment.method === "delivery" ? "delivery" : "collection"}`}
+        </p>
+        {order.notes && <p className={styles.muted}>Note: {order.notes}</p>}
+      </section>
+
+      <p className={styles.muted}>
+        Placed this order?{" "}
+        <Link to={`/account/orders/${encodeURIComponent(order.orderNumber)}`}>See it in your account</Link>
+      </p>
+    </section>
+  );
+};
+
+export default OrderStatus;
@@ -0,0 +1,288 @@
+// ===============================================================
+// ✅ PrescriptionStatus.tsx — Follow a submitted prescription
+//    (/prescription/status/:ref)
+// ===============================================================
+
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { getProductById, toCartItem } from "../catalog";
+import { formatPrice, STORE } from "../config";
+import { useCart, type CartItem } from "../context/CartContext";
+import { checkCartStock, describeStockIssue, type StockIssue } from "../inventory";
+import ProgressSteps from "../components/ProgressSteps";
+import {
+  canAcceptQuote,
+  getPrescriptionStep,
+  needsPatientAction,
+  PRESCRIPTION_STATUS_LABELS,
+  PRESCRIPTION_STEPS,
+  usePrescriptionStatus,
+  type QuoteItem,
+} from "../prescriptions";
+import styles from "./PrescriptionStatus.module.css";
+
+const formatWhen = (iso: string): string =>
+  new Date(iso).toLocaleString(STORE.currency.locale, { dateStyle: "medium", timeStyle: "short" });
+
+/** Catalog line for a quoted item, falling back to the quote's own name and price. */
+const quoteToCartItem = (item: QuoteItem, quoteReference: string): CartItem => {
+  const product = getProductById(item.productId);
+  return product
+    ? { ...toCartItem(product, item.quantity), price: item.price, quoteReference }
+    : {
+        id: item.productId,
+        name: item.name,
+        price: item.price,
+        quantity: item.quantity,
+        requiresPrescription: true,
+        quoteReference,
+      };
+};
+
+// ===============================================================
+// 🔎 Reference lookup — shown alone, or under a loaded prescription
+// ===============================================================
+const StatusLookup: React.FC<{ title: string }> = ({ title }) => {
+  const navigate = useNavigate();
+  const [value, setValue] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const reference = value.trim().toUpperCase();
+    if (reference) navigate(`/prescription/status/${encodeURIComponent(reference)}`);
+  };
+
+  return (
+    <form className={styles.lookup} onSubmit={handleSubmit} aria-label="Track a prescription">
+      <label htmlFor="rx-reference">{title}</label>
+      <div className={styles.lookupRow}>
+        <input
+          id="rx-reference"
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="e.g. RX-261019-AB12"
+          autoComplete="off"
+        />
+        <button type="submit" className={styles.secondaryBtn}>
+          Track
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// ===============================================================
+// 📋 Status for one reference
+// ===============================================================
+const StatusDetails: React.FC<{ reference: string }> = ({ reference }) => {
+  const navigate = useNavigate();
+  const { addQuotedItems, attachPrescription, approvePrescription } = useCart();
+  const { tracking, loading, error, busy, acceptQuote, reply } = usePrescriptionStatus(reference);
+  const [draft, setDraft] = useState("");
+
+  if (loading) {
+    return (
+      <p className={styles.muted} role="status" aria-busy="true">
+        Loading prescription {reference}…
+      </p>
+    );
+  }
+
+  if (!tracking) {
+    return (
+      <div className={styles.empty}>
+        <p role="alert">{error || `We couldn't find prescription ${reference}.`}</p>
+        <p className={styles.muted}>Check the reference in your confirmation message and try again.</p>
+      </div>
+    );
+  }
+
+  const { status, quote, messages, timeline } = tracking;
+  const awaitingReply = status === "clarification-needed";
+
+  const showStockIssues = (issues: StockIssue[]) =>
+    toast.error(
+      `${issues.map(describeStockIssue).join(", ")} — ask the pharmacist to update the quote before you accept it.`,
+      { duration: 8000 }
+    );
+
+  const handleAccept = async () => {
+    if (!quote) return;
+
+    // Check stock before accepting, so a quote is never accepted for lines the cart can't take
+    const items = quote.items.map((item) => quoteToCartItem(item, tracking.reference));
+    const short = checkCartStock(items);
+    if (short.length) return showStockIssues(short);
+    if (!(await acceptQuote())) return;
+
+    // Stock may have moved while the quote was being accepted; approve only a complete cart
+    const missed = addQuotedItems(items);
+    if (missed.length) return showStockIssues(missed);
+
+    // The pharmacist has already verified these, so they go in approved
+    attachPrescription(
+      items.map((item) => item.id),
+      tracking.reference
+    );
+    approvePrescription(tracking.reference);
+
+    toast.success("Quote accepted — your medicines are in the cart.");
+    navigate("/cart");
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await reply(draft)) setDraft("");
+  };
+
+  return (
+    <>
+      <header className={styles.header}>
+        <div>
+          <h1 id="rx-status-title" className={styles.title}>
+            Prescription {tracking.reference}
+          </h1>
+          <p className={styles.muted}>Submitted {formatWhen(tracking.submittedAt)}</p>
+        </div>
+        <span className={`${styles.statusPill} ${needsPatientAction(tracking) ? styles.statusAction : ""}`}>
+          {PRESCRIPTION_STATUS_LABELS[status]}
+        </span>
+      </header>
+
+      <ProgressSteps
+        steps={PRESCRIPTION_STEPS}
+        current={getPrescriptionStep(status)}
+        attention={needsPatientAction(tracking)}
+        className={styles.steps}
+      />
+
+      {error && (
+        <p className={styles.error} role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* ===================== Quote ===================== */}
+      {quote && (
+        <section className={styles.card} aria-labelledby="rx-quote-title">
+          <h2 id="rx-quote-title" className={styles.cardTitle}>
+            Quote
+          </h2>
+          <ul className={styles.quoteItems}>
+            {quote.items.map((item) => (
+              <li key={item.productId}>
+                <div>
+                  <span className={styles.itemName}>
+                    {item.name} × {item.quantity}
+                  </span>
+                  {item.note && <span className={styles.muted}>{item.note}</span>}
+                </div>
+                <span>{formatPrice(item.price * item.quantity)}</span>
+              </li>
+            ))}
+          </ul>
+          <div className={styles.quoteTotal}>
+            <span>Total</span>
+            <strong>{formatPrice(quote.total)}</strong>
+          </div>
+
+          {quote.acceptedAt ? (
+            <p className={styles.muted}>
+              Accepted {formatWhen(quote.acceptedAt)}.{" "}
+              {status === "quoted" && <Link to="/checkout">Go to checkout</Link>}
+            </p>
+          ) : canAcceptQuote(tracking) ? (
+            <>
+              <p className={styles.muted}>Valid until {formatWhen(quote.validUntil)}.</p>
+              <button type="button" className={styles.primaryBtn} onClick={handleAccept} disabled={busy}>
+                {busy ? "Accepting…" : "Accept quote & add to cart"}
+              </button>
+            </>
+          ) : (
+            <p className={styles.muted}>This quote has expired — send us a message for a new one.</p>
+          )}
+        </section>
+      )}
+
+      {/* ===================== Messages ===================== */}
+      <section className={styles.card} aria-labelledby="rx-messages-title">
+        <h2 id="rx-messages-title" className={styles.cardTitle}>
+          Messages
+        </h2>
+        {messages.length === 0 ? (
+          <p className={styles.muted}>No messages yet. The pharmacist will write here if they need anything.</p>
+        ) : (
+          <ul className={styles.messages}>
+            {messages.map((m) => (
+              <li key={m.id} className={m.from === "patient" ? styles.fromPatient : styles.fromPharmacist}>
+                <span className={styles.messageMeta}>
+                  {m.from === "patient" ? "You" : (m.author ?? "Pharmacist")} · {formatWhen(m.at)}
+                </span>
+                <p>{m.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {status !== "completed" && (
+          <form className={styles.replyForm} onSubmit={handleReply}>
+            <label htmlFor="rx-reply">{awaitingReply ? "Reply to the pharmacist" : "Message the pharmacist"}</label>
+            <textarea
+              id="rx-reply"
+              rows={3}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={awaitingReply ? "Answer the pharmacist's question" : "Ask about dosage, stock or delivery"}
+            />
+            <button type="submit" className={styles.secondaryBtn} disabled={busy || !draft.trim()}>
+              {busy ? "Sending…" : "Send"}
+            </button>
+          </form>
+        )}
+      </section>
+
+      {/* ===================== Timeline ===================== */}
+      <section className={styles.card} aria-labelledby="rx-timeline-title">
+        <h2 id="rx-timeline-title" className={styles.cardTitle}>
+          Timeline
+        </h2>
+        <ol className={styles.timeline}>
+          {[...timeline].reverse().map((event) => (
+            <li key={`${event.status}-${event.at}`}>
+              <span className={styles.eventLabel}>{PRESCRIPTION_STATUS_LABELS[event.status]}</span>
+              <time dateTime={event.at} className={styles.muted}>
+                {formatWhen(event.at)}
+              </time>
+              {event.note && <p>{event.note}</p>}
+            </li>
+          ))}
+        </ol>
+      </section>
+    </>
+  );
+};
+
+const PrescriptionStatus: React.FC = () => {
+  const { ref } = useParams<{ ref?: string }>();
+
+  return (
+    <section className={styles.page} aria-labelledby={ref ? "rx-status-title" : undefined}>
+      {ref ? (
+        <>
+          {/* key: start fresh when navigating to another reference */}
+          <StatusDetails key={ref} reference={ref} />
+          <StatusLookup title="Track another prescription" />
+        </>
+      ) : (
+        <>
+          <h1 className={styles.title}>Track a prescription</h1>
+          <StatusLookup title="Enter the reference from your confirmation" />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PrescriptionStatus;
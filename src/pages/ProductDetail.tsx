@@ -0,0 +1,319 @@
+// ===============================================================
+// ✅ ProductDetail.tsx — Deep-linkable product page (/product/:slug)
+// ===============================================================
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { Heart, MapPin, Minus, Plus, ShoppingCart, Share2 } from "lucide-react";
+import { useAddressBook } from "../context/AddressBookContext";
+import { useAuth } from "../context/AuthContext";
+import { useCart } from "../context/CartContext";
+import { useWishlist } from "../context/WishlistContext";
+import {
+  CATEGORY_LABELS,
+  CONDITION_LABELS,
+  getDiscountPercent,
+  getProductBySlug,
+  getProductPath,
+  getRelatedProducts,
+  isPharmaProduct,
+  toCartItem,
+} from "../catalog";
+import { getStockLabel, getStockLevel } from "../inventory";
+import { getAvailability } from "../delivery";
+import { getFlashOffer, useFlashSaleClock } from "../promotions";
+import FlashSaleTag from "../components/FlashSaleTag";
+import LocationPicker from "../components/LocationPicker";
+import ProductAlertForm from "../components/ProductAlertForm";
+import { formatPrice } from "../config";
+import styles from "./ProductDetail.module.css";
+
+// Shown for medicines that have no leaflet text in the catalog yet
+const DEFAULT_DOSAGE =
+  "Use as directed by your doctor or pharmacist. Do not exceed the stated dose.";
+
+const ProductDetail: React.FC = () => {
+  const { slug = "" } = useParams<{ slug: string }>();
+  const product = getProductBySlug(slug);
+  const { addToCart, showCartPreview } = useCart();
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const { selectedAddress } = useAddressBook();
+  const { user } = useAuth();
+  const now = useFlashSaleClock();
+
+  const [quantity, setQuantity] = useState(1);
+  const [activeImage, setActiveImage] = useState(0);
+  const [pickingLocation, setPickingLocation] = useState(false);
+  const closeLocationPicker = useCallback(() => setPickingLocation(false), []);
+
+  // Reset per-product state when navigating between related products
+  useEffect(() => {
+    setQuantity(1);
+    setActiveImage(0);
+  }, [slug]);
+
+  const images = useMemo(
+    () => (product ? [product.image, ...(product.gallery ?? [])] : []),
+    [product]
+  );
+  const related = useMemo(
+    () => (product ? getRelatedProducts(product) : []),
+    [product]
+  );
+
+  // ===============================================================
+  // 🚫 Unknown slug
+  // ===============================================================
+  if (!product) {
+    return (
+      <section className={styles.notFound} aria-labelledby="product-not-found">
+        <h2 id="product-not-found">Product not found</h2>
+        <p>This product may have been renamed or is no longer stocked.</p>
+        <Link to="/shop" className={styles.backLink}>
+          Continue shopping →
+        </Link>
+      </section>
+    );
+  }
+
+  const flash = getFlashOffer(product.id, { now, accountId: user?.id });
+  const onSale = !!flash && flash.available > 0;
+  const discount = getDiscountPercent(product);
+  const isFavorite = isInWishlist(product.id);
+  const availability = getAvailability(product, selectedAddress);
+  const stock = getStockLevel(product);
+  const soldOut = stock.status === "out-of-stock";
+  const dosage =
+    product.dosage ?? (isPharmaProduct(product) ? DEFAULT_DOSAGE : undefined);
+
+  // ===============================================================
+  // 🛒 Actions
+  // ===============================================================
+  const handleAddToCart = () => {
+    const item = toCartItem(product, quantity);
+    if (addToCart(item)) showCartPreview(item);
+  };
+
+  const toggleFavorite = () => {
+    const saved = toggleWishlist(product.id);
+    toast.success(saved ? "Added to favorites" : "Removed from favorites");
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${getProductPath(product)}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: product.name, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast.success("Link copied to clipboard");
+      }
+    } catch {
+      toast.error("Unable to share link");
+    }
+  };
+
+  return (
+    <article className={styles.page} aria-labelledby="product-title">
+      {/* ===== Breadcrumb ===== */}
+      <nav className={styles.breadcrumb} aria-label="Breadcrumb">
+        <Link to="/">Home</Link>
+        <span aria-hidden="true">/</span>
+        <span>{CATEGORY_LABELS[product.category]}</span>
+        {product.subcategory && (
+          <>
+            <span aria-hidden="true">/</span>
+            <span>{product.subcategory}</span>
+          </>
+        )}
+      </nav>
+
+      <div className={styles.layout}>
+        {/* ===== Gallery ===== */}
+        <div className={styles.gallery}>
+          <div className={styles.mainImage}>
+            {discount > 0 && <span className={styles.discountTag}>-{discount}%</span>}
+            <img src={images[activeImage]} alt={product.name} />
+          </div>
+
+          {images.length > 1 && (
+            <div className={styles.thumbnails} role="group" aria-label="Product images">
+              {images.map((src, index) => (
+                <button
+                  key={src}
+                  type="button"
+                  className={`${styles.thumb} ${index === activeImage ? styles.thumbActive : ""}`}
+                  onClick={() => setActiveImage(index)}
+                  aria-label={`Show image ${index + 1}`}
+                  aria-pressed={index === activeImage}
+                >
+                  <img src={src} alt="" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ===== Summary ===== */}
+        <div className={styles.summary}>
+          {product.brand && <p className={styles.brand}>{product.brand}</p>}
+          <h1 id="product-title" className={styles.title}>
+            {product.name}
+          </h1>
+
+          <div className={styles.priceRow}>
+            <span className={styles.price}>{formatPrice(onSale ? flash.price : product.price)}</span>
+            {onSale ? (
+              <span className={styles.oldPrice}>{formatPrice(product.price)}</span>
+            ) : discount > 0 && product.originalPrice && (
+              <>
+                <span className={styles.oldPrice}>
+                  {formatPrice(product.originalPrice)}
+                </span>
+                <span className={styles.saving}>Save {discount}%</span>
+              </>
+            )}
+          </div>
+          {flash && <FlashSaleTag offer={flash} now={now} className={styles.flashTag} />}
+
+          <ul className={styles.facts}>
+            <li>
+              <span>Availability</span>
+              <strong className={soldOut ? styles.outOfStock : styles.inStock}>
+                {getStockLabel(product)}
+              </strong>
+            </li>
+            {product.requiresPrescription && (
+              <li>
+                <span>Dispensing</span>
+                <strong className={styles.outOfStock}>Prescription required</strong>
+              </li>
+            )}
+            {product.packSize && (
+              <li>
+                <span>Pack size</span>
+                <strong>{product.packSize}</strong>
+              </li>
+            )}
+            {product.conditions.length > 0 && (
+              <li>
+                <span>Used for</span>
+                <strong>{product.conditions.map((c) => CONDITION_LABELS[c]).join(", ")}</strong>
+              </li>
+            )}
+          </ul>
+
+          <p className={`${styles.availability} ${styles[availability.tone]}`}>
+            <MapPin size={16} aria-hidden="true" />
+            <span>{availability.text}</span>
+            <button type="button" onClick={() => setPickingLocation(true)}>
+              {selectedAddress ? "Change" : "Choose location"}
+            </button>
+          </p>
+          <LocationPicker open={pickingLocation} onClose={closeLocationPicker} />
+
+          <div className={styles.purchase}>
+            <div className={styles.quantity} role="group" aria-label="Quantity">
+              <button
+                type="button"
+                onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                disabled={quantity <= 1}
+                aria-label="Decrease quantity"
+              >
+                <Minus size={16} />
+              </button>
+              <span aria-live="polite">{quantity}</span>
+              <button
+                type="button"
+                onClick={() => setQuantity((q) => q + 1)}
+                disabled={stock.available !== null && quantity >= stock.available}
+                aria-label="Increase quantity"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+
+            <button
+              type="button"
+              className={styles.addToCart}
+              onClick={handleAddToCart}
+              disabled={soldOut}
+            >
+              <ShoppingCart size={18} />
+              {soldOut ? "Out of Stock" : "Add to Cart"}
+            </button>
+
+            <button
+              type="button"
+              className={`${styles.iconButton} ${isFavorite ? styles.favorited : ""}`}
+              onClick={toggleFavorite}
+              aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+              aria-pressed={isFavorite}
+            >
+              <Heart size={18} fill={isFavorite ? "currentColor" : "none"} />
+            </button>
+
+            <button
+              type="button"
+              className={styles.iconButton}
+              onClick={handleShare}
+              aria-label="Share product"
+            >
+              <Share2 size={18} />
+            </button>
+          </div>
+          {soldOut && (
+            <ProductAlertForm key={product.id} product={product} kind="back-in-stock" className={styles.alertForm} />
+          )}
+        </div>
+      </div>
+
+      {/* ===== Details ===== */}
+      <div className={styles.details}>
+        {product.description && (
+          <section>
+            <h2>Description</h2>
+            <p>{product.description}</p>
+          </section>
+        )}
+
+        {dosage && (
+          <section>
+            <h2>Dosage</h2>
+            <p>{dosage}</p>
+          </section>
+        )}
+
+        {product.warnings && product.warnings.length > 0 && (
+          <section>
+            <h2>Warnings</h2>
+            <ul className={styles.warnings}>
+              {product.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+
+      {/* ===== Related Products ===== */}
+      {related.length > 0 && (
+        <section className={styles.related} aria-labelledby="related-title">
+          <h2 id="related-title">Related Products</h2>
+          <div className={styles.relatedGrid}>
+            {related.map((item) => (
+              <Link key={item.id} to={getProductPath(item)} className={styles.relatedCard}>
+                <img src={item.image} alt={item.name} loading="lazy" />
+                <span className={styles.relatedName}>{item.name}</span>
+                <span className={styles.relatedPrice}>{formatPrice(item.price)}</span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </article>
+  );
+};
+
+export default ProductDetail;
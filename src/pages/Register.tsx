@@ -0,0 +1,142 @@
+// ===============================================================
+// 📝 Register.tsx — Create a customer account (/register)
+// ===============================================================
+
+import React, { useState } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import toast from "react-hot-toast";
+import {
+  AuthError,
+  describeAuthError,
+  getRedirectTarget,
+  MIN_PASSWORD_LENGTH,
+  validateRegistration,
+  withRedirect,
+  type AuthErrors,
+  type RegisterInput,
+} from "../auth";
+import { useAuth } from "../context/AuthContext";
+import styles from "./Auth.module.css";
+
+const EMPTY: RegisterInput & { confirm: string } = {
+  fullName: "",
+  phone: "",
+  email: "",
+  password: "",
+  confirm: "",
+};
+
+const Register: React.FC = () => {
+  const { user, register } = useAuth();
+  const { search } = useLocation();
+  const next = getRedirectTarget(search);
+
+  const [form, setForm] = useState(EMPTY);
+  const [errors, setErrors] = useState<AuthErrors>({});
+  const [error, setError] = useState("");
+  /** The phone or email already has an account — offer to sign in instead */
+  const [taken, setTaken] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  if (user) return <Navigate to={next} replace />;
+
+  const set = (field: keyof typeof EMPTY) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((f) => ({ ...f, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { confirm, ...input } = form;
+    const found = validateRegistration(input);
+    if (!found.password && confirm !== input.password) found.confirm = "The passwords don't match.";
+    setErrors(found);
+    setError("");
+    setTaken(false);
+    if (Object.keys(found).length) return;
+
+    setBusy(true);
+    try {
+      const created = await register(input);
+      toast.success(`Welcome, ${created.fullName.split(" ")[0]}! Your account is ready.`);
+    } catch (err) {
+      setError(describeAuthError(err));
+      setTaken(err instanceof AuthError && (err.code === "phone_taken" || err.code === "email_taken"));
+      setBusy(false);
+    }
+  };
+
+  const field = (
+    name: keyof typeof EMPTY,
+    label: React.ReactNode,
+    props: React.InputHTMLAttributes<HTMLInputElement>,
+    hint?: string,
+  ) => (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input value={form[name]} onChange={set(name)} aria-invalid={!!errors[name]} {...props} />
+      {errors[name] ? (
+        <span className={styles.fieldError}>{errors[name]}</span>
+      ) : (
+        hint && <span className={styles.hint}>{hint}</span>
+      )}
+    </label>
+  );
+
+  return (
+    <section className={styles.page} aria-labelledby="register-title">
+      <div className={styles.card}>
+        <h1 id="register-title" className={styles.title}>
+          Create an account
+        </h1>
+        <p className={styles.muted}>
+          Keep your cart, wishlist, prescriptions and repeat medicines together, and check out faster.
+        </p>
+
+        <form className={styles.form} onSubmit={handleSubmit} noValidate>
+          {error && (
+            <p className={styles.error} role="alert">
+              {error}
+              {taken && (
+                <>
+                  {" "}
+                  <Link to={withRedirect("/login", next)}>Go to sign in</Link>
+                </>
+              )}
+            </p>
+          )}
+
+          {field("fullName", "Full name", { autoComplete: "name", required: true })}
+          {field(
+            "phone",
+            "Phone number",
+            { type: "tel", inputMode: "tel", autoComplete: "tel", placeholder: "07XX XXX XXX", required: true },
+            "Sign-in codes and order updates come here.",
+          )}
+          {field(
+            "email",
+            <>
+              Email <span className={styles.optional}>(optional)</span>
+            </>,
+            { type: "email", autoComplete: "email" },
+          )}
+          {field(
+            "password",
+            "Password",
+            { type: "password", autoComplete: "new-password", required: true },
+            `At least ${MIN_PASSWORD_LENGTH} characters, with letters and numbers.`,
+          )}
+          {field("confirm", "Confirm password", { type: "password", autoComplete: "new-password", required: true })}
+
+          <button type="submit" className={styles.submit} disabled={busy}>
+            {busy ? "Creating account…" : "Create account"}
+          </button>
+        </form>
+
+        <p className={styles.footer}>
+          Already have an account? <Link to={withRedirect("/login", next)}>Sign in</Link>
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default Register;
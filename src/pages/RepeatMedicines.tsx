@@ -0,0 +1,230 @@
+// ===============================================================
+// 💊 RepeatMedicines.tsx — Saved repeat medicines, refill dates
+//    and one-click reorder (/prescription/repeat)
+// ===============================================================
+
+import React, { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { getAllProducts, getProductPath, isPharmaProduct } from "../catalog";
+import { formatPrice } from "../config";
+import { useRefills, type RefillEntry } from "../context/RefillContext";
+import { isSoldOut } from "../inventory";
+import {
+  DEFAULT_DAYS_SUPPLY,
+  formatRefillDate,
+  MAX_DAYS_SUPPLY,
+  MAX_REFILL_QUANTITY,
+  REMINDER_LEAD_DAYS,
+  toDateKey,
+} from "../refills";
+import styles from "./RepeatMedicines.module.css";
+
+const pharmaProducts = getAllProducts()
+  .filter(isPharmaProduct)
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const describeDue = ({ status, daysLeft, nextRefillDate }: RefillEntry): string => {
+  if (status === "overdue") {
+    return `Ran out ${formatRefillDate(nextRefillDate)} (${-daysLeft} day${daysLeft === -1 ? "" : "s"} ago)`;
+  }
+  if (daysLeft === 0) return "Runs out today";
+  return `Runs out ${formatRefillDate(nextRefillDate)} · in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+};
+
+/** Number input value, or undefined while the field is empty. */
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+/** Ignores the transient empty value while the customer retypes a number. */
+const numberChange = (apply: (n: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+  if (!Number.isNaN(e.target.valueAsNumber)) apply(e.target.valueAsNumber);
+};
+
+// ===============================================================
+// ➕ Add a medicine
+// ===============================================================
+const AddMedicine: React.FC = () => {
+  const { addRepeatMedication, isRepeatMedication } = useRefills();
+  const [productId, setProductId] = useState("");
+  const [daysSupply, setDaysSupply] = useState(String(DEFAULT_DAYS_SUPPLY));
+
+  const options = useMemo(() => pharmaProducts.filter((p) => !isRepeatMedication(p.id)), [isRepeatMedication]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!productId) return;
+    addRepeatMedication(productId, { daysSupply: toNumber(daysSupply) });
+    setProductId("");
+  };
+
+  return (
+    <form className={styles.addForm} onSubmit={handleSubmit} aria-label="Add a repeat medicine">
+      <label className={styles.field}>
+        <span>Medicine</span>
+        <select value={productId} onChange={(e) => setProductId(e.target.value)} required>
+          <option value="">Choose a medicine…</option>
+          {options.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={`${styles.field} ${styles.narrow}`}>
+        <span>Days' supply</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_DAYS_SUPPLY}
+          value={daysSupply}
+          onChange={(e) => setDaysSupply(e.target.value)}
+        />
+      </label>
+      <button type="submit" className={styles.secondaryBtn} disabled={!productId}>
+        Add
+      </button>
+    </form>
+  );
+};
+
+// ===============================================================
+// 📋 One medicine
+// ===============================================================
+const RefillRow: React.FC<{ entry: RefillEntry; onReorder: (ids: string[]) => void }> = ({ entry, onReorder }) => {
+  const { updateRepeatMedication, removeRepeatMedication, markRefilled } = useRefills();
+  const { product } = entry;
+  const today = toDateKey(new Date());
+
+  return (
+    <li className={styles.row}>
+      <img src={product.image} alt="" className={styles.thumb} loading="lazy" />
+
+      <div className={styles.info}>
+        <Link to={getProductPath(product)} className={styles.name}>
+          {product.name}
+        </Link>
+        <span className={`${styles.pill} ${styles[entry.status]}`}>{describeDue(entry)}</span>
+        {isSoldOut(product) && <span className={styles.stock}>Out of stock</span>}
+      </div>
+
+      <div className={styles.controls}>
+        <label className={styles.field}>
+          <span>Packs</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_REFILL_QUANTITY}
+            value={entry.quantity}
+            onChange={numberChange((quantity) => updateRepeatMedication(product.id, { quantity }))}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Lasts (days)</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_DAYS_SUPPLY}
+            value={entry.daysSupply}
+            onChange={numberChange((daysSupply) => updateRepeatMedication(product.id, { daysSupply }))}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Last refilled</span>
+          <input
+            type="date"
+            max={today}
+            value={entry.lastFilledAt.slice(0, 10)}
+            onChange={(e) => e.target.value && updateRepeatMedication(product.id, { lastFilledAt: e.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className={styles.rowActions}>
+        <button type="button" className={styles.secondaryBtn} onClick={() => onReorder([product.id])}>
+          Reorder
+        </button>
+        <button type="button" className={styles.linkBtn} onClick={() => markRefilled([product.id])}>
+          Refilled today
+        </button>
+        <button
+          type="button"
+          className={styles.linkBtn}
+          onClick={() => removeRepeatMedication(product.id)}
+          aria-label={`Remove ${product.name} from repeat medicines`}
+        >
+          Remove
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// ===============================================================
+// 🧾 Page
+// ===============================================================
+const RepeatMedicines: React.FC = () => {
+  const { refills, reorder, dueCount } = useRefills();
+  const navigate = useNavigate();
+
+  const perRefill = refills.reduce((sum, r) => sum + r.product.price * r.quantity, 0);
+
+  const handleReorder = (productIds?: string[]) => {
+    const { added, unavailable } = reorder(productIds);
+    if (unavailable.length) toast.error(`Out of stock: ${unavailable.join(", ")}`);
+    if (!added) return;
+    toast.success(`${added} medicine${added === 1 ? "" : "s"} added to your cart`);
+    navigate("/cart");
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="repeat-title">
+      <h1 id="repeat-title" className={styles.title}>
+        Repeat Medicines
+      </h1>
+      <p className={styles.muted}>
+        Save the medicines you take every day. We work out when each one runs out and remind you{" "}
+        {REMINDER_LEAD_DAYS} days before, so there's time for delivery. Refills are counted automatically
+        when you order through checkout.
+      </p>
+
+      <div className={styles.card}>
+        <AddMedicine />
+      </div>
+
+      {refills.length === 0 ? (
+        <div className={styles.card}>
+          <p className={styles.muted}>
+            Nothing saved yet. Browse{" "}
+            <Link to="/conditions/htn">blood pressure</Link> or <Link to="/condition/diabetes">diabetes</Link>{" "}
+            medicines and tap <strong>Save as repeat</strong>, or add one above.
+          </p>
+        </div>
+      ) : (
+        <>
+          <ul className={styles.list}>
+            {refills.map((entry) => (
+              <RefillRow key={entry.productId} entry={entry} onReorder={handleReorder} />
+            ))}
+          </ul>
+
+          <div className={styles.summary}>
+            <div>
+              <strong>{formatPrice(perRefill)}</strong> per refill
+              {dueCount > 0 && (
+                <span className={styles.dueNote}>
+                  {" "}
+                  · {dueCount} due now
+                </span>
+              )}
+            </div>
+            <button type="button" className={styles.primaryBtn} onClick={() => handleReorder()}>
+              Reorder all
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default RepeatMedicines;
@@ -0,0 +1,115 @@
+// ===============================================================
+// ✅ SearchResults.tsx — Full-text product search (/search?q=)
+// ===============================================================
+
+import React, { useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { ShoppingCart } from "lucide-react";
+import { useCart } from "../context/CartContext";
+import {
+  getDidYouMean,
+  getDiscountPercent,
+  getProductPath,
+  searchProducts,
+  toCartItem,
+  type Product,
+} from "../catalog";
+import { isSoldOut } from "../inventory";
+import LowStockBadge from "../components/LowStockBadge";
+import { formatPrice } from "../config";
+import styles from "./SearchResults.module.css";
+
+const SearchResults: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get("q") ?? "").trim();
+  const { addToCart } = useCart();
+
+  const results = useMemo(() => searchProducts(query), [query]);
+  const didYouMean = useMemo(
+    () => (query && results.length === 0 ? getDidYouMean(query) : undefined),
+    [query, results.length]
+  );
+
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart`);
+  };
+
+  return (
+    <section className={styles.page} aria-labelledby="search-title">
+      <header className={styles.header}>
+        <h1 id="search-title" className={styles.title}>
+          {query ? <>Results for “{query}”</> : "Search"}
+        </h1>
+        {query && (
+          <p className={styles.count} aria-live="polite">
+            {results.length} {results.length === 1 ? "product" : "products"} found
+          </p>
+        )}
+      </header>
+
+      {/* ===== Empty States ===== */}
+      {!query && (
+        <p className={styles.empty}>
+          Type a product, brand or condition into the search bar to get started.
+        </p>
+      )}
+
+      {query && results.length === 0 && (
+        <div className={styles.empty}>
+          {didYouMean && (
+            <p className={styles.didYouMean}>
+              Did you mean{" "}
+              <Link to={`/search?q=${encodeURIComponent(didYouMean)}`}>{didYouMean}</Link>?
+            </p>
+          )}
+          <p>
+            We couldn't find anything matching “{query}”. Check the spelling or try a
+            more general term.
+          </p>
+          <Link to="/shop" className={styles.backLink}>
+            Browse all products →
+          </Link>
+        </div>
+      )}
+
+      {/* ===== Results ===== */}
+      {results.length > 0 && (
+        <div className={styles.grid}>
+          {results.map(({ product }) => {
+            const discount = getDiscountPercent(product);
+            return (
+              <article key={product.id} className={styles.card}>
+                <Link to={getProductPath(product)} className={styles.cardLink}>
+                  {discount > 0 && <span className={styles.discountTag}>-{discount}%</span>}
+                  <img src={product.image} alt={product.name} loading="lazy" />
+                  <span className={styles.name}>{product.name}</span>
+                </Link>
+                <div className={styles.priceRow}>
+                  <span className={styles.price}>{formatPrice(product.price)}</span>
+                  {discount > 0 && product.originalPrice && (
+                    <span className={styles.oldPrice}>
+                      {formatPrice(product.originalPrice)}
+                    </span>
+                  )}
+                </div>
+                <LowStockBadge product={product} />
+                <button
+                  type="button"
+                  className={styles.addToCart}
+                  onClick={() => handleAddToCart(product)}
+                  disabled={isSoldOut(product)}
+                >
+                  <ShoppingCart size={16} />
+                  {isSoldOut(product) ? "Out of Stock" : "Add to Cart"}
+                </button>
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SearchResults;
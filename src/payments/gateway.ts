@@ -0,0 +1,31 @@
+// src/payments/gateway.ts
+
+import { createMockGateway, type MockOutcome } from "./mock";
+import { createMpesaGateway } from "./mpesa";
+import type { PaymentGateway } from "./types";
+
+/* ---------------------------------------------------------------
+   Default gateway — real Daraja when a backend is configured,
+   otherwise the offline mock so checkout works in development.
+
+     VITE_MPESA_API_URL          backend proxy for /stkpush, /stkquery
+     VITE_PAYMENT_MOCK_OUTCOME   force a mock outcome (see mock.ts)
+--------------------------------------------------------------- */
+let gateway: PaymentGateway | null = null;
+
+export const getPaymentGateway = (): PaymentGateway => {
+  if (!gateway) {
+    const baseUrl = import.meta.env.VITE_MPESA_API_URL as string | undefined;
+    gateway = baseUrl
+      ? createMpesaGateway({ baseUrl })
+      : createMockGateway({
+          outcome: (import.meta.env.VITE_PAYMENT_MOCK_OUTCOME as MockOutcome | undefined) || undefined,
+        });
+  }
+  return gateway;
+};
+
+/** Swap the gateway, e.g. to a mock with a fixed outcome. */
+export const setPaymentGateway = (next: PaymentGateway): void => {
+  gateway = next;
+};
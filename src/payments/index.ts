@@ -0,0 +1,19 @@
+// src/payments/index.ts — payment gateways (M-Pesa STK push + offline mock)
+
+export type {
+  PaymentGateway,
+  PaymentRequest,
+  PaymentResult,
+  PaymentSession,
+  PaymentStatus,
+} from "./types";
+export type { MockGatewayOptions, MockOutcome } from "./mock";
+export type { MpesaGatewayConfig } from "./mpesa";
+export type { PollOptions } from "./poll";
+
+export { PaymentError } from "./types";
+export { createMockGateway, outcomeForPhone } from "./mock";
+export { createMpesaGateway, mapResultCode } from "./mpesa";
+export { getPaymentGateway, setPaymentGateway } from "./gateway";
+export { waitForPayment } from "./poll";
+export { useStkPayment, type StkPaymentResult, type StkPaymentState } from "./useStkPayment";
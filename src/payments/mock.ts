@@ -0,0 +1,108 @@
+// src/payments/mock.ts
+
+import {
+  PaymentError,
+  type PaymentGateway,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentStatus,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Offline gateway — simulates every STK outcome without a backend
+
+   By default the outcome follows the payer's last phone digit so
+   each path can be exercised from the UI:
+
+     …0 cancelled   …1 insufficient funds   …2 timeout (never answers)
+     …3 failed      …9 prompt rejected      anything else → success
+
+   An unanswered prompt stays pending until it expires, then reports
+   "timeout", as M-Pesa's does.
+--------------------------------------------------------------- */
+export type MockOutcome = Exclude<PaymentStatus, "pending"> | "rejected";
+
+export interface MockGatewayOptions {
+  /** Force one outcome for every request instead of the phone-digit rule */
+  outcome?: MockOutcome;
+  /** How long the "customer" takes to respond, in ms */
+  delayMs?: number;
+  /** How long an unanswered prompt stays open on the phone, in ms */
+  promptTtlMs?: number;
+}
+
+const DIGIT_OUTCOMES: Record<string, MockOutcome> = {
+  "0": "cancelled",
+  "1": "insufficient-funds",
+  "2": "timeout",
+  "3": "failed",
+  "9": "rejected",
+};
+
+export const outcomeForPhone = (phone: string): MockOutcome =>
+  DIGIT_OUTCOMES[phone.slice(-1)] ?? "success";
+
+const MESSAGES: Record<PaymentStatus, string> = {
+  pending: "Waiting for you to enter your M-Pesa PIN.",
+  success: "Payment received.",
+  cancelled: "The M-Pesa request was cancelled on your phone.",
+  "insufficient-funds": "Your M-Pesa balance is too low for this payment.",
+  timeout: "We couldn't reach your phone. Check it's on and try again.",
+  failed: "The M-Pesa payment failed.",
+};
+
+interface MockSession {
+  outcome: Exclude<MockOutcome, "rejected">;
+  settlesAt: number;
+  expiresAt: number;
+  receipt: string;
+}
+
+const randomReceipt = (): string =>
+  Array.from({ length: 10 }, () => "ABCDEFGHJKLMNPQRSTUVWXYZ0123456789"[Math.floor(Math.random() * 34)]).join("");
+
+export const createMockGateway = ({
+  outcome,
+  delayMs = 4000,
+  promptTtlMs = 60_000,
+}: MockGatewayOptions = {}): PaymentGateway => {
+  const sessions = new Map<string, MockSession>();
+  let counter = 0;
+
+  return {
+    name: "mock",
+
+    async initiate(request: PaymentRequest) {
+      const result = outcome ?? outcomeForPhone(request.phone);
+      if (result === "rejected") {
+        throw new PaymentError("M-Pesa couldn't send the payment prompt.", "rejected");
+      }
+
+      const id = `ws_CO_MOCK_${Date.now()}_${++counter}`;
+      const now = Date.now();
+      sessions.set(id, {
+        outcome: result,
+        settlesAt: now + delayMs,
+        expiresAt: now + promptTtlMs,
+        receipt: randomReceipt(),
+      });
+      return { id, customerMessage: "Success. Request accepted for processing" };
+    },
+
+    async getStatus(sessionId: string): Promise<PaymentResult> {
+      const session = sessions.get(sessionId);
+      if (!session) throw new PaymentError("Unknown payment request.", "not_found");
+
+      // A timeout is the customer never answering — pending until the prompt expires
+      const settlesAt = session.outcome === "timeout" ? session.expiresAt : session.settlesAt;
+      const status: PaymentStatus = Date.now() < settlesAt ? "pending" : session.outcome;
+
+      return {
+        sessionId,
+        status,
+        message: MESSAGES[status],
+        ...(status === "success" && { receipt: session.receipt }),
+      };
+    },
+  };
+};
@@ -0,0 +1,132 @@
+// src/payments/mpesa.ts
+
+import {
+  PaymentError,
+  type PaymentGateway,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentSession,
+  type PaymentStatus,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Daraja STK push (Lipa na M-Pesa Online)
+
+   The consumer key/secret and passkey must never reach the browser,
+   so this gateway talks to our own backend, which forwards the body
+   to Daraja and returns Daraja's JSON untouched:
+
+     POST {baseUrl}/stkpush  → /mpesa/stkpush/v1/processrequest
+     POST {baseUrl}/stkquery → /mpesa/stkpushquery/v1/query
+--------------------------------------------------------------- */
+export interface MpesaGatewayConfig {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+interface StkPushResponse {
+  CheckoutRequestID?: string;
+  ResponseCode?: string;
+  ResponseDescription?: string;
+  CustomerMessage?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+interface StkQueryResponse {
+  ResponseCode?: string;
+  ResultCode?: string | number;
+  ResultDesc?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/** Daraja reports "still waiting for the PIN" as this error on the query API. */
+const STILL_PROCESSING = "500.001.1001";
+
+/** ResultCode → status; anything not listed is a generic failure. */
+const RESULT_STATUS: Record<string, PaymentStatus> = {
+  "0": "success",
+  "1": "insufficient-funds",
+  "1032": "cancelled",
+  "1037": "timeout",
+};
+
+const RESULT_MESSAGES: Partial<Record<PaymentStatus, string>> = {
+  success: "Payment received.",
+  "insufficient-funds": "Your M-Pesa balance is too low for this payment.",
+  cancelled: "The M-Pesa request was cancelled on your phone.",
+  timeout: "We couldn't reach your phone. Check it's on and try again.",
+};
+
+export const mapResultCode = (code: string | number | undefined): PaymentStatus =>
+  RESULT_STATUS[String(code)] ?? "failed";
+
+export const createMpesaGateway = ({
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: MpesaGatewayConfig): PaymentGateway => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    let res: Response;
+    try {
+      res = await fetchImpl(`${root}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      throw new PaymentError("Couldn't reach the payment service. Check your connection.", "network");
+    }
+    // Daraja answers business errors with 4xx/5xx *and* a JSON body we need
+    try {
+      return (await res.json()) as T;
+    } catch {
+      throw new PaymentError(`Payment service error (${res.status}).`, "bad_response");
+    }
+  };
+
+  return {
+    name: "mpesa",
+
+    async initiate({ amount, phone, reference, description }: PaymentRequest): Promise<PaymentSession> {
+      const data = await post<StkPushResponse>("/stkpush", {
+        Amount: Math.ceil(amount),
+        PhoneNumber: phone,
+        AccountReference: reference.slice(0, 12),
+        TransactionDesc: (description ?? reference).slice(0, 13),
+      });
+
+      if (data.ResponseCode !== "0" || !data.CheckoutRequestID) {
+        throw new PaymentError(
+          data.errorMessage ?? data.ResponseDescription ?? "M-Pesa couldn't send the payment prompt.",
+          data.errorCode ?? "rejected",
+        );
+      }
+
+      return { id: data.CheckoutRequestID, customerMessage: data.CustomerMessage };
+    },
+
+    async getStatus(sessionId: string): Promise<PaymentResult> {
+      const data = await post<StkQueryResponse>("/stkquery", { CheckoutRequestID: sessionId });
+
+      if (data.errorCode === STILL_PROCESSING) {
+        return { sessionId, status: "pending", message: "Waiting for you to enter your M-Pesa PIN." };
+      }
+      if (data.ResultCode === undefined) {
+        throw new PaymentError(
+          data.errorMessage ?? "Couldn't check the M-Pesa payment status.",
+          data.errorCode ?? "bad_response",
+        );
+      }
+
+      const status = mapResultCode(data.ResultCode);
+      return {
+        sessionId,
+        status,
+        message: RESULT_MESSAGES[status] ?? data.ResultDesc ?? "The M-Pesa payment failed.",
+      };
+    },
+  };
+};
@@ -0,0 +1,65 @@
+// src/payments/poll.ts
+
+import { PaymentError, type PaymentGateway, type PaymentResult } from "./types";
+
+/* ---------------------------------------------------------------
+   Status polling
+--------------------------------------------------------------- */
+export interface PollOptions {
+  /** Gap between status checks, in ms */
+  intervalMs?: number;
+  /** Give up and report "timeout" after this long, in ms */
+  timeoutMs?: number;
+  /** Stop polling early, e.g. when the customer closes the dialog */
+  signal?: AbortSignal;
+  /** Called with every intermediate result, including "pending" ones */
+  onUpdate?: (result: PaymentResult) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new PaymentError("Payment check cancelled.", "aborted"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PaymentError("Payment check cancelled.", "aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Polls a session until it leaves "pending" or the deadline passes.
+ * Transient lookup errors are retried until the deadline; an abort
+ * rejects with a PaymentError whose code is "aborted".
+ */
+export const waitForPayment = async (
+  gateway: PaymentGateway,
+  sessionId: string,
+  { intervalMs = 3000, timeoutMs = 90_000, signal, onUpdate }: PollOptions = {},
+): Promise<PaymentResult> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    await wait(intervalMs, signal);
+
+    let result: PaymentResult;
+    try {
+      result = await gateway.getStatus(sessionId);
+    } catch (err) {
+      if (err instanceof PaymentError && err.code === "not_found") throw err;
+      continue;
+    }
+
+    onUpdate?.(result);
+    if (result.status !== "pending") return result;
+  }
+
+  return {
+    sessionId,
+    status: "timeout",
+    message: "We didn't get a response from M-Pesa in time. If you were charged, contact us with your order number.",
+  };
+};
@@ -0,0 +1,61 @@
+// src/payments/types.ts
+
+/* ---------------------------------------------------------------
+   Requests & sessions
+--------------------------------------------------------------- */
+export interface PaymentRequest {
+  /** Whole shillings — M-Pesa rejects fractional amounts */
+  amount: number;
+  /** Payer's phone in 2547XXXXXXXX form */
+  phone: string;
+  /** Shown on the customer's statement, e.g. the order number */
+  reference: string;
+  description?: string;
+}
+
+/** Handle returned once the prompt has been sent to the phone. */
+export interface PaymentSession {
+  id: string;
+  /** Gateway's own message for the customer, if it sends one */
+  customerMessage?: string;
+}
+
+/* ---------------------------------------------------------------
+   Status
+--------------------------------------------------------------- */
+export type PaymentStatus =
+  | "pending"
+  | "success"
+  | "cancelled"
+  | "insufficient-funds"
+  | "timeout"
+  | "failed";
+
+export interface PaymentResult {
+  sessionId: string;
+  status: PaymentStatus;
+  message: string;
+  /** M-Pesa confirmation code, when the gateway reports one */
+  receipt?: string;
+}
+
+/* ---------------------------------------------------------------
+   Gateway contract
+--------------------------------------------------------------- */
+export interface PaymentGateway {
+  readonly name: string;
+  /** Sends the payment prompt; rejects with PaymentError if it could not be sent. */
+  initiate(request: PaymentRequest): Promise<PaymentSession>;
+  /** Current state of a session; "pending" until the customer acts. */
+  getStatus(sessionId: string): Promise<PaymentResult>;
+}
+
+export class PaymentError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "payment_error") {
+    super(message);
+    this.name = "PaymentError";
+    this.code = code;
+  }
+}
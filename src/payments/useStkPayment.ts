@@ -0,0 +1,135 @@
+// src/payments/useStkPayment.ts
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getPaymentGateway } from "./gateway";
+import { waitForPayment, type PollOptions } from "./poll";
+import {
+  PaymentError,
+  type PaymentGateway,
+  type PaymentRequest,
+  type PaymentResult,
+  type PaymentStatus,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   React binding — send the prompt, then poll until it settles
+
+   A prompt the customer stopped waiting for, or that timed out on
+   our side, may still be paid. Paying again for the same reference
+   asks the gateway about that prompt first: if it was paid, that is
+   the result; if it is still open, polling picks it up again; only
+   once it has settled unpaid does a new prompt go out.
+--------------------------------------------------------------- */
+export interface StkPaymentState {
+  /** "idle" before pay(), "sending" until the prompt reaches the phone */
+  status: "idle" | "sending" | PaymentStatus;
+  message: string;
+  receipt?: string;
+}
+
+export interface StkPaymentResult extends PaymentResult {
+  /** Settled by an earlier prompt for the same reference, not by this call's request */
+  earlier?: boolean;
+}
+
+const IDLE: StkPaymentState = { status: "idle", message: "" };
+
+/** Final statuses that mean nobody was charged, so a new prompt is safe. */
+const UNPAID: readonly PaymentStatus[] = ["cancelled", "insufficient-funds", "failed", "timeout"];
+
+export const useStkPayment = (
+  gateway: PaymentGateway = getPaymentGateway(),
+  options: Omit<PollOptions, "signal" | "onUpdate"> = {},
+) => {
+  const [state, setState] = useState<StkPaymentState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The last prompt sent and not known to have settled — kept through cancel/reset
+  const openRef = useRef<{ sessionId: string; reference: string } | null>(null);
+
+  const { intervalMs, timeoutMs } = options;
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  /**
+   * Resolves with the final result, or null if cancelled or the prompt
+   * couldn't be sent. `onPrompt` runs when a new prompt goes out, as
+   * opposed to an earlier one being picked up again.
+   */
+  const pay = useCallback(
+    async (request: PaymentRequest, onPrompt?: () => void): Promise<StkPaymentResult | null> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      const open = openRef.current?.reference === request.reference ? openRef.current : null;
+      setState({
+        status: "sending",
+        message: open ? "Checking your last M-Pesa prompt…" : "Sending the M-Pesa prompt to your phone…",
+      });
+
+      try {
+        let sessionId = open?.sessionId;
+        if (sessionId) {
+          const earlier = await gateway.getStatus(sessionId);
+          if (controller.signal.aborted) return null;
+          if (earlier.status === "success") {
+            openRef.current = null;
+            setState({ status: "success", message: earlier.message, receipt: earlier.receipt });
+            return { ...earlier, earlier: true };
+          }
+          if (UNPAID.includes(earlier.status)) sessionId = undefined;
+        }
+
+        if (!sessionId) {
+          sessionId = (await gateway.initiate(request)).id;
+          openRef.current = { sessionId, reference: request.reference };
+          onPrompt?.();
+          if (controller.signal.aborted) return null;
+        }
+        const resumed = sessionId === open?.sessionId;
+
+        setState({
+          status: "pending",
+          message: resumed
+            ? "Your last M-Pesa prompt is still open — enter your PIN on your phone, or cancel it there."
+            : "Check your phone and enter your M-Pesa PIN.",
+        });
+
+        const result = await waitForPayment(gateway, sessionId, {
+          intervalMs,
+          timeoutMs,
+          signal: controller.signal,
+          onUpdate: (update) => {
+            if (update.status === "pending") setState((s) => ({ ...s, message: update.message }));
+          },
+        });
+
+        // A "timeout" may only be the poller giving up, so keep the prompt for the next try to ask about
+        if (result.status !== "timeout") openRef.current = null;
+        setState({ status: result.status, message: result.message, receipt: result.receipt });
+        return { ...result, ...(resumed && { earlier: true }) };
+      } catch (err) {
+        if (controller.signal.aborted) return null;
+        // A prompt the gateway has forgotten can't be paid any more
+        if (err instanceof PaymentError && err.code === "not_found") openRef.current = null;
+        setState({
+          status: "failed",
+          message: err instanceof PaymentError ? err.message : "Something went wrong with the payment.",
+        });
+        return null;
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [gateway, intervalMs, timeoutMs],
+  );
+
+  // Stop polling if the component goes away mid-payment
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { ...state, pay, cancel, reset: cancel };
+};
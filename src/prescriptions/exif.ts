@@ -0,0 +1,93 @@
+// src/prescriptions/exif.ts
+
+/* ---------------------------------------------------------------
+   EXIF orientation — phones store photos sideways and record how
+   to turn them in tag 0x0112:
+
+     1 as-is        2 mirrored       3 upside down   4 flipped
+     5 mirrored+90  6 turned 90° CW  7 mirrored+270  8 turned 90° CCW
+--------------------------------------------------------------- */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/** APP1 (and so EXIF) sits near the start; no need to read a 10 MB photo. */
+const HEAD_BYTES = 128 * 1024;
+
+const ORIENTATION_TAG = 0x0112;
+
+/** Orientation from JPEG bytes; 1 when absent or unreadable. */
+export const parseExifOrientation = (buffer: ArrayBuffer): ExifOrientation => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // start of scan: no EXIF
+    const size = view.getUint16(offset + 2);
+
+    // APP1 "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+export const readExifOrientation = async (file: Blob): Promise<ExifOrientation> => {
+  if (file.type !== "image/jpeg") return 1;
+  try {
+    return parseExifOrientation(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  } catch {
+    return 1;
+  }
+};
+
+/**
+ * Browsers that support CSS `image-orientation` (Chrome 81, Safari 13.1,
+ * Firefox 77 and later) also apply EXIF when decoding for canvas, so the
+ * rotation must only be done by hand on older ones.
+ */
+export const browserAppliesExif = (): boolean =>
+  typeof CSS !== "undefined" && CSS.supports?.("image-orientation", "from-image") === true;
+
+/** Orientations 5–8 swap width and height. */
+export const swapsDimensions = (orientation: ExifOrientation): boolean => orientation >= 5;
+
+/**
+ * Sets up ctx so drawing the raw (unrotated) image at 0,0 comes out
+ * upright; the canvas must already be sized for the upright image.
+ */
+export const applyExifTransform = (
+  ctx: CanvasRenderingContext2D,
+  orientation: ExifOrientation,
+  width: number,
+  height: number,
+): void => {
+  // width / height are the upright size
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+    default: break;
+  }
+};
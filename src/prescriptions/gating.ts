@@ -0,0 +1,32 @@
+// src/prescriptions/gating.ts
+
+import type { CartItem } from "../context/CartContext";
+import { generateReference } from "../utils/reference";
+
+/* ---------------------------------------------------------------
+   Prescription-only lines in the cart
+
+   required  → nothing on file; the line blocks checkout
+   attached  → uploaded; the order goes through but the line is
+               held until a pharmacist verifies the prescription
+   approved  → verified; ships like any other line
+--------------------------------------------------------------- */
+export type PrescriptionGate = "none" | "required" | "attached" | "approved";
+
+export const getPrescriptionGate = (item: CartItem): PrescriptionGate =>
+  !item.requiresPrescription ? "none" : (item.prescription?.status ?? "required");
+
+export const needsPrescription = (item: CartItem): boolean =>
+  getPrescriptionGate(item) === "required";
+
+export const isHeldForReview = (item: CartItem): boolean =>
+  getPrescriptionGate(item) === "attached";
+
+/** Distinct prescription references across the given lines. */
+export const getPrescriptionReferences = (items: CartItem[]): string[] => [
+  ...new Set(items.flatMap((item) => (item.prescription ? [item.prescription.reference] : []))),
+];
+
+/** RX-YYMMDD-XXXX — quoted to the pharmacy when following up. */
+export const generatePrescriptionReference = (date: Date = new Date()): string =>
+  generateReference("RX", date);
@@ -0,0 +1,208 @@
+// src/prescriptions/http.ts
+
+import { normalizePhone } from "../checkout/validation";
+import {
+  PrescriptionError,
+  type ChunkReceipt,
+  type PrescriptionAdapter,
+  type PrescriptionReceipt,
+  type PrescriptionSubmission,
+  type PrescriptionTracking,
+  type TransferOptions,
+  type UploadedFile,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Backend adapter
+
+   Files first, one resumable upload each:
+
+     POST {baseUrl}/uploads            { fileName, size, type }
+       201 → { uploadId, chunkSize? }
+     GET  {baseUrl}/uploads/:id        → { received, fileId? }
+     PUT  {baseUrl}/uploads/:id        raw bytes
+       Content-Range: bytes start-end/total
+       200 → { received, fileId? }     fileId once complete
+       409 → offset mismatch; ask GET where to resume
+
+   Then the submission itself, referring to the files by id:
+
+     POST {baseUrl}/prescriptions      JSON submission
+       201 → { reference, submittedAt, files?: [{ url }] }
+
+   Errors answer { message?, code? }. Chunks go by XHR rather than
+   fetch so the queue can show progress within a chunk.
+   Tracking is plain JSON, each answering with PrescriptionTracking:
+
+     GET  {baseUrl}/prescriptions/:ref
+     GET  {baseUrl}/prescriptions?accountId=…   → PrescriptionTracking[]
+       only for the signed-in owner of that account
+     POST {baseUrl}/prescriptions/:ref/accept
+     POST {baseUrl}/prescriptions/:ref/messages   { text }
+--------------------------------------------------------------- */
+export interface HttpAdapterConfig {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+interface ApiResponse {
+  reference?: string;
+  submittedAt?: string;
+  files?: { url?: string }[];
+  uploadId?: string;
+  chunkSize?: number;
+  received?: number;
+  fileId?: string;
+  message?: string;
+  code?: string;
+}
+
+/** Used when the server doesn't say. */
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const parse = (text: string): ApiResponse => {
+  try {
+    const json: unknown = JSON.parse(text);
+    return typeof json === "object" && json !== null ? (json as ApiResponse) : {};
+  } catch {
+    return {};
+  }
+};
+
+const NETWORK_ERROR = "Couldn't reach the pharmacy. Check your connection.";
+const NOT_FOUND = "No prescription found with that reference.";
+const UPLOAD_EXPIRED = "The upload expired on the server.";
+
+const toChunkReceipt = (data: ApiResponse): ChunkReceipt => ({
+  received: data.received ?? 0,
+  ...(data.fileId && { fileId: data.fileId }),
+});
+
+export const createHttpAdapter = ({
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: HttpAdapterConfig): PrescriptionAdapter => {
+  const root = baseUrl.replace(/\/+$/, "");
+  const endpoint = `${root}/prescriptions`;
+
+  const request = async (url: string, init?: RequestInit, notFound = NOT_FOUND): Promise<ApiResponse> => {
+    let res: Response;
+    try {
+      res = await fetchImpl(url, {
+        ...init,
+        headers: { Accept: "application/json", ...(init?.body && { "Content-Type": "application/json" }) },
+      });
+    } catch {
+      if (init?.signal?.aborted) throw new PrescriptionError("Upload cancelled.", "aborted");
+      throw new PrescriptionError(NETWORK_ERROR, "network");
+    }
+
+    const data = parse(await res.text());
+    if (res.status === 404) throw new PrescriptionError(notFound, "not_found");
+    if (!res.ok) {
+      throw new PrescriptionError(
+        data.message ?? `Pharmacy service error (${res.status}).`,
+        data.code ?? (res.status >= 500 ? "server" : "rejected"),
+      );
+    }
+    return data;
+  };
+
+  const tracking = (url: string, init?: RequestInit) =>
+    request(url, init).then((data) => data as unknown as PrescriptionTracking);
+
+  const at = (reference: string) => `${endpoint}/${encodeURIComponent(reference.trim().toUpperCase())}`;
+  const upload = (uploadId: string) => `${root}/uploads/${encodeURIComponent(uploadId)}`;
+
+  return {
+    name: "http",
+
+    async createUpload(file: Omit<UploadedFile, "fileId">, { signal }: TransferOptions = {}) {
+      const data = await request(`${root}/uploads`, { method: "POST", body: JSON.stringify(file), signal });
+      if (!data.uploadId) throw new PrescriptionError("The pharmacy didn't open the upload.", "bad_response");
+      return { uploadId: data.uploadId, chunkSize: data.chunkSize || DEFAULT_CHUNK_SIZE };
+    },
+
+    async getUploadOffset(uploadId: string, { signal }: TransferOptions = {}) {
+      return toChunkReceipt(await request(upload(uploadId), { signal }, UPLOAD_EXPIRED));
+    },
+
+    uploadChunk(uploadId: string, offset: number, chunk: Blob, total: number, options: TransferOptions = {}) {
+      const { onProgress, signal } = options;
+      return new Promise<ChunkReceipt>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new PrescriptionError("Upload cancelled.", "aborted"));
+          return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open("PUT", upload(uploadId), true);
+        xhr.setRequestHeader("Content-Type", "application/octet-stream");
+        xhr.setRequestHeader("Content-Range", `bytes ${offset}-${offset + chunk.size - 1}/${total}`);
+
+        xhr.upload.onprogress = (ev) => {
+          if (ev.lengthComputable) onProgress?.(Math.round((ev.loaded / ev.total) * 100));
+        };
+
+        xhr.onload = () => {
+          const data = parse(xhr.responseText);
+          if (xhr.status === 404) {
+            reject(new PrescriptionError(UPLOAD_EXPIRED, "not_found"));
+          } else if (xhr.status === 409) {
+            reject(new PrescriptionError("The server is at a different point in this file.", "offset_mismatch"));
+          } else if (xhr.status < 200 || xhr.status >= 300) {
+            reject(
+              new PrescriptionError(
+                data.message ?? `Upload failed (${xhr.status}). Please try again.`,
+                data.code ?? (xhr.status >= 500 ? "server" : "rejected"),
+              ),
+            );
+          } else {
+            resolve(toChunkReceipt(data));
+          }
+        };
+
+        xhr.onerror = () => reject(new PrescriptionError(NETWORK_ERROR, "network"));
+        xhr.ontimeout = () => reject(new PrescriptionError(NETWORK_ERROR, "network"));
+        xhr.onabort = () => reject(new PrescriptionError("Upload cancelled.", "aborted"));
+        signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+        xhr.send(chunk);
+      });
+    },
+
+    async submit(submission: PrescriptionSubmission, { signal }: TransferOptions = {}): Promise<PrescriptionReceipt> {
+      const data = await request(endpoint, {
+        method: "POST",
+        body: JSON.stringify({
+          ...submission,
+          patient: { ...submission.patient, phone: normalizePhone(submission.patient.phone) },
+        }),
+        signal,
+      });
+      if (!data.reference) throw new PrescriptionError("The pharmacy didn't return a reference.", "bad_response");
+      return {
+        reference: data.reference,
+        submittedAt: data.submittedAt ?? new Date().toISOString(),
+        files: submission.files.map((f, i) => ({
+          fileName: f.fileName,
+          size: f.size,
+          type: f.type,
+          url: data.files?.[i]?.url,
+        })),
+      };
+    },
+
+    listPrescriptions: (accountId: string) =>
+      request(`${endpoint}?accountId=${encodeURIComponent(accountId)}`).then(
+        (data) => (Array.isArray(data) ? data : []) as PrescriptionTracking[],
+      ),
+
+    getStatus: (reference: string) => tracking(at(reference)),
+
+    acceptQuote: (reference: string) => tracking(`${at(reference)}/accept`, { method: "POST" }),
+
+    sendMessage: (reference: string, text: string) =>
+      tracking(`${at(reference)}/messages`, { method: "POST", body: JSON.stringify({ text }) }),
+  };
+};
@@ -0,0 +1,222 @@
+// src/prescriptions/imageProcessing.ts
+
+import {
+  applyExifTransform,
+  browserAppliesExif,
+  readExifOrientation,
+  swapsDimensions,
+  type ExifOrientation,
+} from "./exif";
+import { assessImageQuality, type QualityReport } from "./imageQuality";
+import { PrescriptionError } from "./types";
+
+/* ---------------------------------------------------------------
+   Photo → small, upright, readable upload
+
+     1. decode and turn upright from EXIF
+     2. apply the customer's rotation and crop
+     3. downscale so the long side fits maxDimension
+     4. encode as WebP (JPEG where unsupported), lowering quality —
+        then size — until it fits targetBytes
+
+   A 12 MP phone photo (4–6 MB) typically comes out at 300–600 KB,
+   still sharp enough for handwriting.
+--------------------------------------------------------------- */
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/** Crop as fractions (0–1) of the upright, rotated image. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  /** Extra clockwise rotation chosen by the customer */
+  rotation: QuarterTurn;
+  crop?: CropRect;
+}
+
+export interface ProcessImageOptions {
+  /** Long side in px after downscaling */
+  maxDimension?: number;
+  /** Aim for at most this many bytes */
+  targetBytes?: number;
+  edits?: ImageEdits;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+  quality: QualityReport;
+}
+
+const DEFAULTS = {
+  maxDimension: 2000,
+  targetBytes: 600 * 1024,
+} as const;
+
+const MIN_QUALITY = 0.45;
+const MAX_QUALITY = 0.9;
+/** Shrink by this much when even MIN_QUALITY is too big */
+const SHRINK = 0.8;
+const MAX_ATTEMPTS = 4;
+
+/* ---------------------------------------------------------------
+   Canvas helpers
+--------------------------------------------------------------- */
+const makeCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new PrescriptionError("Your browser can't process images.", "unsupported");
+  ctx.imageSmoothingQuality = "high";
+  return { canvas, ctx };
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new PrescriptionError("Couldn't compress the image.", "encode"))),
+      type,
+      quality,
+    ),
+  );
+
+let webpSupport: boolean | undefined;
+/** Safari before 14 can't encode WebP and silently returns PNG. */
+export const canEncodeWebp = (): boolean => {
+  if (webpSupport === undefined) {
+    const { canvas } = makeCanvas(1, 1);
+    webpSupport = canvas.toDataURL("image/webp").startsWith("data:image/webp");
+  }
+  return webpSupport;
+};
+
+const decode = async (file: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.decoding = "async";
+    img.src = url;
+    await img.decode();
+    return img;
+  } catch {
+    throw new PrescriptionError("This image couldn't be opened. Try a JPG or PNG photo.", "decode");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** Draws the image upright (EXIF, then the customer's rotation). */
+const drawUpright = (img: HTMLImageElement, orientation: ExifOrientation, rotation: QuarterTurn) => {
+  // naturalWidth is already upright when the browser honours EXIF
+  const manualExif = browserAppliesExif() ? 1 : orientation;
+  const exifW = swapsDimensions(manualExif) ? img.naturalHeight : img.naturalWidth;
+  const exifH = swapsDimensions(manualExif) ? img.naturalWidth : img.naturalHeight;
+
+  const upright = makeCanvas(exifW, exifH);
+  applyExifTransform(upright.ctx, manualExif, exifW, exifH);
+  upright.ctx.drawImage(img, 0, 0);
+  if (rotation === 0) return upright.canvas;
+
+  const sideways = rotation === 90 || rotation === 270;
+  const turned = makeCanvas(sideways ? exifH : exifW, sideways ? exifW : exifH);
+  turned.ctx.translate(turned.canvas.width / 2, turned.canvas.height / 2);
+  turned.ctx.rotate((rotation * Math.PI) / 180);
+  turned.ctx.drawImage(upright.canvas, -exifW / 2, -exifH / 2);
+  return turned.canvas;
+};
+
+const cropped = (source: HTMLCanvasElement, sx: number, sy: number, sw: number, sh: number) => {
+  const { canvas, ctx } = makeCanvas(sw, sh);
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas;
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Pixel box for a fractional crop, never smaller than 1×1. */
+export const cropToPixels = (crop: CropRect | undefined, width: number, height: number) => {
+  if (!crop) return { sx: 0, sy: 0, sw: width, sh: height };
+  const x = clamp01(crop.x);
+  const y = clamp01(crop.y);
+  return {
+    sx: Math.round(x * width),
+    sy: Math.round(y * height),
+    sw: Math.max(1, Math.round(Math.min(clamp01(crop.width), 1 - x) * width)),
+    sh: Math.max(1, Math.round(Math.min(clamp01(crop.height), 1 - y) * height)),
+  };
+};
+
+/** Fits width × height inside maxDimension, keeping the aspect ratio. */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const renamed = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, "") || "prescription"}.${type === "image/webp" ? "webp" : "jpg"}`;
+
+/* ---------------------------------------------------------------
+   Pipeline
+--------------------------------------------------------------- */
+export const processPrescriptionImage = async (
+  file: File,
+  { maxDimension = DEFAULTS.maxDimension, targetBytes = DEFAULTS.targetBytes, edits }: ProcessImageOptions = {},
+): Promise<ProcessedImage> => {
+  const [img, orientation] = await Promise.all([decode(file), readExifOrientation(file)]);
+  const upright = drawUpright(img, orientation, edits?.rotation ?? 0);
+  const { sx, sy, sw, sh } = cropToPixels(edits?.crop, upright.width, upright.height);
+
+  const quality = assessImageQuality(
+    upright.width === sw && upright.height === sh ? upright : cropped(upright, sx, sy, sw, sh),
+    sw,
+    sh,
+  );
+
+  const type = canEncodeWebp() ? "image/webp" : "image/jpeg";
+  let size = fitWithin(sw, sh, maxDimension);
+  let blob: Blob | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { canvas, ctx } = makeCanvas(size.width, size.height);
+    ctx.fillStyle = "#fff"; // transparent PNGs would turn black as JPEG
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(upright, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+    // Binary search the highest quality that fits
+    let lo = MIN_QUALITY;
+    let hi = MAX_QUALITY;
+    let best = await toBlob(canvas, type, hi);
+    if (best.size > targetBytes) {
+      best = await toBlob(canvas, type, lo);
+      for (let i = 0; i < 5 && best.size <= targetBytes; i++) {
+        const mid = (lo + hi) / 2;
+        const candidate = await toBlob(canvas, type, mid);
+        if (candidate.size <= targetBytes) {
+          best = candidate;
+          lo = mid;
+        } else hi = mid;
+      }
+    }
+    blob = best;
+    if (blob.size <= targetBytes) break;
+    size = { width: Math.round(size.width * SHRINK), height: Math.round(size.height * SHRINK) };
+  }
+
+  // Never hand back something bigger than the customer's own file
+  if (!blob || (blob.size >= file.size && !edits?.crop && !edits?.rotation && orientation === 1)) {
+    return { file, width: sw, height: sh, quality };
+  }
+
+  return {
+    file: new File([blob], renamed(file.name, type), { type, lastModified: Date.now() }),
+    width: size.width,
+    height: size.height,
+    quality,
+  };
+};
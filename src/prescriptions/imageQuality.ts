@@ -0,0 +1,85 @@
+// src/prescriptions/imageQuality.ts
+
+/* ---------------------------------------------------------------
+   Photo checks — cheap heuristics run on a small greyscale copy.
+   They only warn: the pharmacist is the final judge of legibility.
+
+     dark    mean brightness below DARK_MEAN (0–255)
+     blurry  variance of the Laplacian below BLUR_VARIANCE —
+             sharp text has strong edges, a shaken photo doesn't
+     small   shorter side below MIN_SIDE px, too few for small print
+--------------------------------------------------------------- */
+export type QualityWarning = "dark" | "blurry" | "small";
+
+export const QUALITY_WARNING_MESSAGES: Record<QualityWarning, string> = {
+  dark: "This photo looks dark — retake it in better light if the text is hard to read.",
+  blurry: "This photo looks blurry — hold the phone steady and retake it if the text isn't sharp.",
+  small: "This image is very small — the pharmacist may not be able to read it.",
+};
+
+const SAMPLE_SIDE = 256;
+const DARK_MEAN = 60;
+const BLUR_VARIANCE = 60;
+const MIN_SIDE = 480;
+
+export interface QualityReport {
+  /** Mean brightness, 0–255 */
+  brightness: number;
+  /** Laplacian variance — higher is sharper */
+  sharpness: number;
+  warnings: QualityWarning[];
+}
+
+/** Scores greyscale pixels (row-major, one byte per pixel). */
+export const scoreGreyscale = (grey: Uint8ClampedArray | number[], width: number, height: number) => {
+  let sum = 0;
+  for (let i = 0; i < grey.length; i++) sum += grey[i];
+  const brightness = grey.length ? sum / grey.length : 0;
+
+  // 4-neighbour Laplacian over the interior
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = grey[i - width] + grey[i + width] + grey[i - 1] + grey[i + 1] - 4 * grey[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      n++;
+    }
+  }
+  const mean = n ? lapSum / n : 0;
+  const sharpness = n ? lapSq / n - mean * mean : 0;
+
+  return { brightness, sharpness };
+};
+
+/** Analyses an upright image (before compression, which softens edges). */
+export const assessImageQuality = (source: CanvasImageSource, width: number, height: number): QualityReport => {
+  const scale = Math.min(1, SAMPLE_SIDE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return { brightness: 0, sharpness: 0, warnings: [] };
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const { data } = ctx.getImageData(0, 0, w, h);
+  const grey = new Uint8ClampedArray(w * h);
+  for (let i = 0; i < grey.length; i++) {
+    // Rec. 601 luma
+    grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const { brightness, sharpness } = scoreGreyscale(grey, w, h);
+  const warnings: QualityWarning[] = [];
+  if (brightness < DARK_MEAN) warnings.push("dark");
+  if (sharpness < BLUR_VARIANCE) warnings.push("blurry");
+  if (Math.min(width, height) < MIN_SIDE) warnings.push("small");
+
+  return { brightness, sharpness, warnings };
+};
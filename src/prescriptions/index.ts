@@ -0,0 +1,70 @@
+// src/prescriptions/index.ts — prescription-only medicines: cart gating, file prep, uploads, submission, tracking
+
+export type { PrescriptionGate } from "./gating";
+export type {
+  ChunkReceipt,
+  PatientDetails,
+  PaymentPreference,
+  PrescriberDetails,
+  PrescriptionAdapter,
+  PrescriptionDelivery,
+  PrescriptionEvent,
+  PrescriptionMessage,
+  PrescriptionQuote,
+  PrescriptionReceipt,
+  PrescriptionSource,
+  PrescriptionStatus,
+  PrescriptionSubmission,
+  PrescriptionTracking,
+  QuoteItem,
+  SubmittedFile,
+  TransferOptions,
+  UploadedFile,
+  UploadSession,
+} from "./types";
+export type { HttpAdapterConfig } from "./http";
+export type { MockAdapterOptions, MockFailure, StoredPrescription } from "./mock";
+export type { SubmissionErrors } from "./validation";
+export type { ExifOrientation } from "./exif";
+export type {
+  CropRect,
+  ImageEdits,
+  ProcessedImage,
+  ProcessImageOptions,
+  QuarterTurn,
+} from "./imageProcessing";
+export type { QualityReport, QualityWarning } from "./imageQuality";
+export type { PdfPreview } from "./pdfPreview";
+export type { StoredUploadFile, UploadPreview, UploadRecord, UploadStore } from "./uploadStore";
+export type { EnqueueInput, UploadEntry, UploadQueue, UploadQueueOptions, UploadStatus } from "./uploadQueue";
+export type { PreparedFile, PreparedFilesOptions } from "./usePreparedFiles";
+
+export {
+  generatePrescriptionReference,
+  getPrescriptionGate,
+  getPrescriptionReferences,
+  isHeldForReview,
+  needsPrescription,
+} from "./gating";
+export { PrescriptionError } from "./types";
+export { createHttpAdapter } from "./http";
+export { createMockAdapter, readMockPrescriptions } from "./mock";
+export { getPrescriptionAdapter, setPrescriptionAdapter, submitPrescription } from "./service";
+export {
+  canAcceptQuote,
+  getPrescriptionStep,
+  isPrescriptionOpen,
+  needsPatientAction,
+  PRESCRIPTION_STATUS_LABELS,
+  PRESCRIPTION_STEPS,
+} from "./status";
+export { MAX_PRESCRIPTION_FILE_SIZE, MAX_PRESCRIPTION_FILES, validateSubmission } from "./validation";
+export { parseExifOrientation, readExifOrientation } from "./exif";
+export { processPrescriptionImage } from "./imageProcessing";
+export { assessImageQuality, QUALITY_WARNING_MESSAGES } from "./imageQuality";
+export { readPdfPreview } from "./pdfPreview";
+export { createIndexedDbStore, createMemoryStore } from "./uploadStore";
+export { backoffDelay, createUploadQueue, getUploadQueue, setUploadQueue, toUploadedFile } from "./uploadQueue";
+export { usePreparedFiles } from "./usePreparedFiles";
+export { usePrescriptionSubmit, type PrescriptionSubmitState } from "./usePrescriptionSubmit";
+export { usePrescriptionStatus, type PrescriptionStatusOptions } from "./usePrescriptionStatus";
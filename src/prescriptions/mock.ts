@@ -0,0 +1,394 @@
+// src/prescriptions/mock.ts
+
+import { getAllProducts, getProductById, type Product } from "../catalog";
+import { normalizePhone } from "../checkout/validation";
+import { generatePrescriptionReference } from "./gating";
+import {
+  PrescriptionError,
+  type ChunkReceipt,
+  type PrescriptionAdapter,
+  type PrescriptionMessage,
+  type PrescriptionQuote,
+  type PrescriptionReceipt,
+  type PrescriptionStatus,
+  type PrescriptionSubmission,
+  type PrescriptionTracking,
+  type TransferOptions,
+  type UploadedFile,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   Local mock server — accepts submissions without a backend
+
+   Upload sessions count bytes at bytesPerSecond (the bytes
+   themselves are dropped) and keep their offsets in localStorage,
+   so an upload interrupted by a reload resumes where it stopped.
+   The submission is kept under its reference the same way, just
+   as a server record would be.
+
+   A simulated pharmacist then moves it along one status every
+   stepMs whenever it is looked up:
+
+     received → under-review → quoted (or clarification-needed
+     when no photo was sent, until the patient replies)
+     quote accepted → paid → dispensed → out-for-delivery
+     (skipped for pickup) → completed
+--------------------------------------------------------------- */
+/** "flaky" drops about one chunk in four, to exercise retries. */
+export type MockFailure = "network" | "server" | "flaky";
+
+export interface MockAdapterOptions {
+  /** Simulated round trip for a submission or lookup, in ms */
+  latencyMs?: number;
+  /** Simulated upload speed */
+  bytesPerSecond?: number;
+  chunkSize?: number;
+  /** Fail uploads and submissions this way instead of accepting them */
+  failure?: MockFailure;
+  /** Time the simulated pharmacist takes per status, in ms */
+  stepMs?: number;
+  /** Defaults to window.localStorage when there is one */
+  storage?: Pick<Storage, "getItem" | "setItem">;
+}
+
+/** What the mock server keeps per reference. */
+export interface StoredPrescription
+  extends Omit<PrescriptionSubmission, "files">,
+    Omit<PrescriptionTracking, "reference" | "submittedAt"> {
+  reference: string;
+  submittedAt: string;
+  files: PrescriptionReceipt["files"];
+}
+
+interface StoredUpload extends Omit<UploadedFile, "fileId"> {
+  received: number;
+  fileId?: string;
+}
+
+export const MOCK_STORAGE_KEY = "prescriptions_v1"; // bump version if shape changes
+export const MOCK_UPLOADS_KEY = "prescription_uploads_v1";
+
+const FAILURES: Record<Exclude<MockFailure, "flaky">, PrescriptionError> = {
+  network: new PrescriptionError("Couldn't reach the pharmacy. Check your connection.", "network"),
+  server: new PrescriptionError("Upload failed (503). Please try again.", "server"),
+};
+
+const FLAKY_RATE = 0.25;
+const PROGRESS_STEPS = 5;
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readRecords = <T>(storage: MockAdapterOptions["storage"], key: string): Record<string, T> => {
+  try {
+    const raw = storage?.getItem(key);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, T>) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const readMockPrescriptions = (
+  storage: MockAdapterOptions["storage"] = defaultStorage(),
+): Record<string, StoredPrescription> => readRecords<StoredPrescription>(storage, MOCK_STORAGE_KEY);
+
+/** Resolves after ms, rejecting early if the signal aborts. */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const aborted = () => reject(new PrescriptionError("Cancelled.", "aborted"));
+    if (signal?.aborted) return aborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      aborted();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/* ---------------------------------------------------------------
+   Simulated pharmacist
+--------------------------------------------------------------- */
+const PHARMACIST = "Pharm. Achieng";
+const QUOTE_VALID_DAYS = 3;
+
+let messageCounter = 0;
+const message = (from: PrescriptionMessage["from"], text: string, at: string): PrescriptionMessage => ({
+  id: `msg_${Date.parse(at)}_${++messageCounter}`,
+  from,
+  ...(from === "pharmacist" && { author: PHARMACIST }),
+  text,
+  at,
+});
+
+/** Cart lines if it came from checkout, otherwise a stand-in pick from the catalog. */
+const quoteProducts = (record: StoredPrescription): Product[] => {
+  const fromCart = (record.cartItemIds ?? []).flatMap((id) => getProductById(id) ?? []);
+  if (fromCart.length > 0) return fromCart;
+
+  const rx = getAllProducts().filter((p) => p.requiresPrescription && p.inStock);
+  const seed = [...record.reference].reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  if (rx.length === 0) return [];
+  return [...new Set([rx[seed % rx.length], rx[(seed * 7) % rx.length]])];
+};
+
+const buildQuote = (record: StoredPrescription, at: string): PrescriptionQuote => {
+  const items = quoteProducts(record).map((p) => ({
+    productId: p.id,
+    name: p.name,
+    quantity: 1,
+    price: p.price,
+    note: "As prescribed",
+  }));
+  return {
+    items,
+    total: items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+    validUntil: new Date(Date.parse(at) + QUOTE_VALID_DAYS * 86_400_000).toISOString(),
+  };
+};
+
+/** Next status and what the pharmacist says, or null while waiting on the patient. */
+const nextStep = (
+  record: StoredPrescription,
+  at: string,
+): { status: PrescriptionStatus; note?: string; say?: string; quote?: PrescriptionQuote } | null => {
+  switch (record.status) {
+    case "received":
+      return { status: "under-review", note: "A pharmacist has picked up your prescription." };
+    case "under-review": {
+      const replied = record.messages.some((m) => m.from === "patient");
+      if (record.files.length === 0 && !replied) {
+        return {
+          status: "clarification-needed",
+          say: "We couldn't find a prescription photo with your request. Could you confirm the prescriber and the dose, or upload a photo?",
+        };
+      }
+      return {
+        status: "quoted",
+        note: "Prescription verified.",
+        say: "Your prescription is approved. I've prepared a quote — accept it to add the items to your cart.",
+        quote: buildQuote(record, at),
+      };
+    }
+    case "quoted":
+      return record.quote?.acceptedAt ? { status: "paid", note: "Payment confirmed." } : null;
+    case "paid":
+      return { status: "dispensed", note: "Medicines checked and packed by the pharmacist." };
+    case "dispensed":
+      return record.delivery?.method === "pickup"
+        ? { status: "completed", note: "Collected from the pharmacy." }
+        : { status: "out-for-delivery", note: "Handed to our rider." };
+    case "out-for-delivery":
+      return { status: "completed", note: "Delivered." };
+    default:
+      return null;
+  }
+};
+
+/** Applies every step that has come due since the last event. */
+const advance = (record: StoredPrescription, stepMs: number, now: number): StoredPrescription => {
+  let next = record;
+  for (;;) {
+    const last = next.timeline[next.timeline.length - 1];
+    const dueAt = Math.max(Date.parse(last.at), Date.parse(next.quote?.acceptedAt ?? last.at)) + stepMs;
+    if (dueAt > now) return next;
+
+    const at = new Date(dueAt).toISOString();
+    const step = nextStep(next, at);
+    if (!step) return next;
+
+    next = {
+      ...next,
+      status: step.status,
+      timeline: [...next.timeline, { status: step.status, at, ...(step.note && { note: step.note }) }],
+      messages: step.say ? [...next.messages, message("pharmacist", step.say, at)] : next.messages,
+      ...(step.quote && { quote: step.quote }),
+    };
+  }
+};
+
+const toTracking = ({
+  reference,
+  status,
+  submittedAt,
+  timeline,
+  messages,
+  quote,
+}: StoredPrescription): PrescriptionTracking => ({
+  reference,
+  status,
+  submittedAt,
+  timeline,
+  messages,
+  ...(quote && { quote }),
+});
+
+let uploadCounter = 0;
+
+export const createMockAdapter = ({
+  latencyMs = 1500,
+  bytesPerSecond = 256 * 1024,
+  chunkSize = 256 * 1024,
+  failure,
+  stepMs = 20_000,
+  storage = defaultStorage(),
+}: MockAdapterOptions = {}): PrescriptionAdapter => {
+  const write = <T>(key: string, id: string, value: T) => {
+    try {
+      storage?.setItem(key, JSON.stringify({ ...readRecords<T>(storage, key), [id]: value }));
+    } catch {
+      // Quota or private mode — still valid for this session
+    }
+  };
+
+  const save = (record: StoredPrescription) => write(MOCK_STORAGE_KEY, record.reference, record);
+
+  const findUpload = (uploadId: string): StoredUpload => {
+    const upload = readRecords<StoredUpload>(storage, MOCK_UPLOADS_KEY)[uploadId];
+    if (!upload) throw new PrescriptionError("The upload expired on the server.", "not_found");
+    return upload;
+  };
+
+  const failIfConfigured = () => {
+    if (failure === "flaky") {
+      if (Math.random() < FLAKY_RATE) throw FAILURES.network;
+    } else if (failure) {
+      throw FAILURES[failure];
+    }
+  };
+
+  /** Loads, advances and persists a record — the "server" side of every lookup. */
+  const load = async (reference: string): Promise<StoredPrescription> => {
+    await wait(latencyMs / 5);
+    const stored = readMockPrescriptions(storage)[reference.trim().toUpperCase()];
+    if (!stored) throw new PrescriptionError(`No prescription found with reference ${reference}.`, "not_found");
+    const record = advance(stored, stepMs, Date.now());
+    if (record !== stored) save(record);
+    return record;
+  };
+
+  return {
+    name: "mock",
+
+    async createUpload(file: Omit<UploadedFile, "fileId">, { signal }: TransferOptions = {}) {
+      await wait(latencyMs / 5, signal);
+      if (failure && failure !== "flaky") throw FAILURES[failure];
+      const uploadId = `upl_${Date.now().toString(36)}_${++uploadCounter}`;
+      write<StoredUpload>(MOCK_UPLOADS_KEY, uploadId, { ...file, received: 0 });
+      return { uploadId, chunkSize };
+    },
+
+    async getUploadOffset(uploadId: string, { signal }: TransferOptions = {}) {
+      await wait(latencyMs / 5, signal);
+      const { received, fileId } = findUpload(uploadId);
+      return { received, ...(fileId && { fileId }) };
+    },
+
+    async uploadChunk(
+      uploadId: string,
+      offset: number,
+      chunk: Blob,
+      total: number,
+      { onProgress, signal }: TransferOptions = {},
+    ): Promise<ChunkReceipt> {
+      const upload = findUpload(uploadId);
+      if (offset !== upload.received || total !== upload.size) {
+        throw new PrescriptionError("The server is at a different point in this file.", "offset_mismatch");
+      }
+
+      const duration = (chunk.size / bytesPerSecond) * 1000;
+      for (let step = 1; step <= PROGRESS_STEPS; step++) {
+        await wait(duration / PROGRESS_STEPS, signal);
+        // A dropped connection partway through loses the whole chunk
+        if (step === 3) failIfConfigured();
+        onProgress?.(Math.round((step / PROGRESS_STEPS) * 100));
+      }
+
+      const received = offset + chunk.size;
+      const stored: StoredUpload = {
+        ...upload,
+        received,
+        ...(received >= upload.size && { fileId: `file_${uploadId}` }),
+      };
+      write(MOCK_UPLOADS_KEY, uploadId, stored);
+      return { received, ...(stored.fileId && { fileId: stored.fileId }) };
+    },
+
+    async submit(submission: PrescriptionSubmission, { signal }: TransferOptions = {}) {
+      await wait(latencyMs, signal);
+      if (failure && failure !== "flaky") throw FAILURES[failure];
+
+      const { files, ...rest } = submission;
+      const uploads = Object.values(readRecords<StoredUpload>(storage, MOCK_UPLOADS_KEY));
+      const missing = files.find((f) => !uploads.some((u) => u.fileId === f.fileId));
+      if (missing) {
+        throw new PrescriptionError(`"${missing.fileName}" hasn't finished uploading.`, "invalid");
+      }
+
+      const receipt: PrescriptionReceipt = {
+        reference: generatePrescriptionReference(),
+        submittedAt: new Date().toISOString(),
+        files: files.map(({ fileName, size, type }) => ({ fileName, size, type })),
+      };
+
+      save({
+        ...rest,
+        ...receipt,
+        patient: { ...rest.patient, phone: normalizePhone(rest.patient.phone) },
+        status: "received",
+        timeline: [{ status: "received", at: receipt.submittedAt }],
+        messages: [],
+      });
+
+      return receipt;
+    },
+
+    async listPrescriptions(accountId: string) {
+      await wait(latencyMs / 5);
+      return Object.values(readMockPrescriptions(storage))
+        .filter((record) => record.accountId === accountId)
+        .map((stored) => {
+          const record = advance(stored, stepMs, Date.now());
+          if (record !== stored) save(record);
+          return toTracking(record);
+        })
+        .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    },
+
+    async getStatus(reference: string) {
+      return toTracking(await load(reference));
+    },
+
+    async acceptQuote(reference: string) {
+      const record = await load(reference);
+      if (record.status !== "quoted" || !record.quote || record.quote.acceptedAt) {
+        throw new PrescriptionError("This quote can no longer be accepted.", "invalid_state");
+      }
+      if (new Date(record.quote.validUntil) <= new Date()) {
+        throw new PrescriptionError("This quote has expired. Reply to ask for a new one.", "expired");
+      }
+      const accepted = { ...record, quote: { ...record.quote, acceptedAt: new Date().toISOString() } };
+      save(accepted);
+      return toTracking(accepted);
+    },
+
+    async sendMessage(reference: string, text: string) {
+      if (!text.trim()) throw new PrescriptionError("Write a message first.", "invalid");
+      const record = await load(reference);
+      const at = new Date().toISOString();
+      const replied: StoredPrescription = {
+        ...record,
+        messages: [...record.messages, message("patient", text.trim(), at)],
+        // Answering a clarification puts it back in the review queue
+        ...(record.status === "clarification-needed" && {
+          status: "under-review",
+          timeline: [...record.timeline, { status: "under-review", at, note: "Back with the pharmacist." }],
+        }),
+      };
+      save(replied);
+      return toTracking(replied);
+    },
+  };
+};
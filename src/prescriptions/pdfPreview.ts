@@ -0,0 +1,69 @@
+// src/prescriptions/pdfPreview.ts
+
+/* ---------------------------------------------------------------
+   PDF preview without a PDF renderer
+
+   Prescriptions arrive as PDFs mostly from phone scanner apps and
+   hospital systems. Scanner PDFs are a JPEG per page, so the first
+   DCTDecode image stream *is* the first page — we pull it out and
+   show it as the thumbnail. Text-only PDFs get a page count and
+   the generic icon instead.
+--------------------------------------------------------------- */
+export interface PdfPreview {
+  /** 0 when the page tree is compressed and can't be read this way */
+  pageCount: number;
+  /** First embedded JPEG, usually the scan of page one */
+  thumbnail?: Blob;
+}
+
+/** Enough for the page tree and the first scanned page of most files. */
+const MAX_SCAN_BYTES = 8 * 1024 * 1024;
+
+/** One char per byte, so string offsets are byte offsets. */
+const asLatin1 = (bytes: Uint8Array): string => {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+};
+
+/** Counts /Type /Page objects (not /Pages). */
+export const countPdfPages = (text: string): number =>
+  (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) ?? []).length;
+
+/** Bytes of the first JPEG image stream, if any. */
+export const findFirstJpeg = (bytes: Uint8Array, text: string = asLatin1(bytes)): Uint8Array | undefined => {
+  let from = 0;
+  for (;;) {
+    const filter = text.indexOf("/DCTDecode", from);
+    if (filter < 0) return undefined;
+    from = filter + 10;
+
+    const keyword = text.indexOf("stream", filter);
+    if (keyword < 0) return undefined;
+    // "stream" is followed by CRLF or LF before the data
+    let start = keyword + 6;
+    if (text[start] === "\r") start++;
+    if (text[start] === "\n") start++;
+
+    if (bytes[start] !== 0xff || bytes[start + 1] !== 0xd8) continue;
+    const end = text.indexOf("endstream", start);
+    if (end < 0) return undefined;
+    // Trim to the JPEG end-of-image marker
+    const eoi = text.lastIndexOf("\xff\xd9", end);
+    return bytes.subarray(start, eoi > start ? eoi + 2 : end);
+  }
+};
+
+export const readPdfPreview = async (file: Blob): Promise<PdfPreview> => {
+  const bytes = new Uint8Array(await file.slice(0, MAX_SCAN_BYTES).arrayBuffer());
+  const text = asLatin1(bytes);
+  if (!text.startsWith("%PDF-")) return { pageCount: 0 };
+
+  const jpeg = findFirstJpeg(bytes, text);
+  return {
+    pageCount: countPdfPages(text),
+    ...(jpeg && { thumbnail: new Blob([jpeg.slice()], { type: "image/jpeg" }) }),
+  };
+};
@@ -0,0 +1,54 @@
+// src/prescriptions/service.ts
+
+import { hasErrors } from "../checkout/validation";
+import { createHttpAdapter } from "./http";
+import { createMockAdapter, type MockFailure } from "./mock";
+import {
+  PrescriptionError,
+  type PrescriptionAdapter,
+  type PrescriptionReceipt,
+  type PrescriptionSubmission,
+  type TransferOptions,
+} from "./types";
+import { validateSubmission } from "./validation";
+
+/* ---------------------------------------------------------------
+   Default adapter — the pharmacy backend when one is configured,
+   otherwise the local mock server so the forms work in development.
+
+     VITE_PRESCRIPTION_API_URL        backend root for /prescriptions
+     VITE_PRESCRIPTION_MOCK_FAILURE   make the mock fail (see mock.ts)
+--------------------------------------------------------------- */
+let adapter: PrescriptionAdapter | null = null;
+
+export const getPrescriptionAdapter = (): PrescriptionAdapter => {
+  if (!adapter) {
+    const baseUrl = import.meta.env.VITE_PRESCRIPTION_API_URL as string | undefined;
+    adapter = baseUrl
+      ? createHttpAdapter({ baseUrl })
+      : createMockAdapter({
+          failure: (import.meta.env.VITE_PRESCRIPTION_MOCK_FAILURE as MockFailure | undefined) || undefined,
+        });
+  }
+  return adapter;
+};
+
+/** Swap the adapter, e.g. to a mock that always fails. */
+export const setPrescriptionAdapter = (next: PrescriptionAdapter): void => {
+  adapter = next;
+};
+
+/* ---------------------------------------------------------------
+   Single entry point for every prescription form
+--------------------------------------------------------------- */
+export const submitPrescription = async (
+  submission: PrescriptionSubmission,
+  options: TransferOptions = {},
+  target: PrescriptionAdapter = getPrescriptionAdapter(),
+): Promise<PrescriptionReceipt> => {
+  const errors = validateSubmission(submission);
+  if (hasErrors(errors)) {
+    throw new PrescriptionError(Object.values(errors)[0] ?? "Check the prescription details.", "invalid");
+  }
+  return target.submit(submission, options);
+};
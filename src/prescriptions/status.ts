@@ -0,0 +1,54 @@
+// src/prescriptions/status.ts
+
+import type { PrescriptionStatus, PrescriptionTracking } from "./types";
+
+/* ---------------------------------------------------------------
+   Display — labels and the step each status sits on
+
+   Clarification is a detour within review rather than a step of
+   its own, so the progress bar never appears to go backwards.
+--------------------------------------------------------------- */
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+  received: "Received",
+  "under-review": "Under pharmacist review",
+  "clarification-needed": "Clarification needed",
+  quoted: "Approved — quote ready",
+  paid: "Paid",
+  dispensed: "Dispensed",
+  "out-for-delivery": "Out for delivery",
+  completed: "Completed",
+};
+
+export const PRESCRIPTION_STEPS = [
+  { number: 1, label: "Received" },
+  { number: 2, label: "Review" },
+  { number: 3, label: "Quote" },
+  { number: 4, label: "Paid" },
+  { number: 5, label: "Dispensed" },
+  { number: 6, label: "On the way" },
+  { number: 7, label: "Completed" },
+] as const;
+
+const STEP_FOR_STATUS: Record<PrescriptionStatus, number> = {
+  received: 1,
+  "under-review": 2,
+  "clarification-needed": 2,
+  quoted: 3,
+  paid: 4,
+  dispensed: 5,
+  "out-for-delivery": 6,
+  completed: 7,
+};
+
+export const getPrescriptionStep = (status: PrescriptionStatus): number => STEP_FOR_STATUS[status];
+
+/** The patient has something to do: answer the pharmacist or accept the quote. */
+export const needsPatientAction = ({ status, quote }: PrescriptionTracking): boolean =>
+  status === "clarification-needed" || (status === "quoted" && !quote?.acceptedAt);
+
+/** Quote is open for acceptance — not yet accepted and not expired. */
+export const canAcceptQuote = ({ status, quote }: PrescriptionTracking, now: Date = new Date()): boolean =>
+  status === "quoted" && !!quote && !quote.acceptedAt && new Date(quote.validUntil) > now;
+
+/** Worth polling for: anything short of completed. */
+export const isPrescriptionOpen = ({ status }: PrescriptionTracking): boolean => status !== "completed";
@@ -0,0 +1,195 @@
+// src/prescriptions/types.ts
+
+/* ---------------------------------------------------------------
+   Submission — everything the pharmacist needs to start a review
+--------------------------------------------------------------- */
+export interface PatientDetails {
+  fullName: string;
+  /** Kenyan mobile in any accepted format; normalised on submit */
+  phone: string;
+  email?: string;
+}
+
+export interface PrescriberDetails {
+  name: string;
+  facility?: string;
+}
+
+export type PrescriptionDelivery =
+  | { method: "delivery"; address: string; city: string; notes?: string }
+  | { method: "pickup"; notes?: string };
+
+export interface PaymentPreference {
+  method: "mpesa" | "card";
+  /** M-Pesa number to send the prompt to */
+  phone?: string;
+}
+
+/** Which form the submission came from — lets the team see how people reach us. */
+export type PrescriptionSource = "wizard" | "upload" | "request" | "cart";
+
+/** A photo / PDF already sent through the upload queue; submissions refer to it by id. */
+export interface UploadedFile {
+  fileId: string;
+  fileName: string;
+  size: number;
+  type: string;
+}
+
+export interface PrescriptionSubmission {
+  source: PrescriptionSource;
+  /** Photos / PDFs of the prescription; a refill request may have none */
+  files: UploadedFile[];
+  patient: PatientDetails;
+  prescriber?: PrescriberDetails;
+  delivery?: PrescriptionDelivery;
+  /** Free text, e.g. the medicine and dose for a refill */
+  details?: string;
+  /** How the customer wants to pay once the pharmacist quotes */
+  payment?: PaymentPreference;
+  /** Cart lines this prescription covers, when sent from checkout */
+  cartItemIds?: string[];
+  /** Signed-in customer it belongs to; guests follow up by reference alone */
+  accountId?: string;
+}
+
+/* ---------------------------------------------------------------
+   Receipt — what the user keeps to follow up
+--------------------------------------------------------------- */
+export interface SubmittedFile {
+  fileName: string;
+  size: number;
+  type: string;
+  /** Where the backend stored it, if it says */
+  url?: string;
+}
+
+export interface PrescriptionReceipt {
+  /** RX-YYMMDD-XXXX */
+  reference: string;
+  /** ISO timestamp */
+  submittedAt: string;
+  files: SubmittedFile[];
+}
+
+/* ---------------------------------------------------------------
+   Tracking — where a submission is in the pharmacy's workflow
+
+   received → under-review ⇄ clarification-needed → quoted
+            → paid → dispensed → out-for-delivery → completed
+--------------------------------------------------------------- */
+export type PrescriptionStatus =
+  | "received"
+  | "under-review"
+  | "clarification-needed"
+  | "quoted"
+  | "paid"
+  | "dispensed"
+  | "out-for-delivery"
+  | "completed";
+
+export interface PrescriptionEvent {
+  status: PrescriptionStatus;
+  /** ISO timestamp */
+  at: string;
+  note?: string;
+}
+
+export interface PrescriptionMessage {
+  id: string;
+  from: "pharmacist" | "patient";
+  /** Pharmacist's name, when they sign it */
+  author?: string;
+  text: string;
+  at: string;
+}
+
+export interface QuoteItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  /** Unit price */
+  price: number;
+  /** Dosage or substitution note from the pharmacist */
+  note?: string;
+}
+
+export interface PrescriptionQuote {
+  items: QuoteItem[];
+  total: number;
+  validUntil: string;
+  /** Set once the patient accepts */
+  acceptedAt?: string;
+}
+
+export interface PrescriptionTracking {
+  reference: string;
+  status: PrescriptionStatus;
+  submittedAt: string;
+  /** Oldest first */
+  timeline: PrescriptionEvent[];
+  messages: PrescriptionMessage[];
+  quote?: PrescriptionQuote;
+}
+
+/* ---------------------------------------------------------------
+   Upload sessions — each file goes up in chunks before the
+   submission, so a dropped connection only costs the last chunk
+--------------------------------------------------------------- */
+export interface UploadSession {
+  uploadId: string;
+  /** Bytes per chunk the server wants */
+  chunkSize: number;
+}
+
+export interface ChunkReceipt {
+  /** Bytes the server has stored so far */
+  received: number;
+  /** Set once the last byte has arrived */
+  fileId?: string;
+}
+
+/* ---------------------------------------------------------------
+   Adapter contract
+--------------------------------------------------------------- */
+export interface TransferOptions {
+  /** Progress of this request's body, 0–100 */
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface PrescriptionAdapter {
+  readonly name: string;
+  /** Opens an upload session for one file. */
+  createUpload(file: Omit<UploadedFile, "fileId">, options?: TransferOptions): Promise<UploadSession>;
+  /** How far an upload got; rejects with code "not_found" once the session has expired. */
+  getUploadOffset(uploadId: string, options?: TransferOptions): Promise<ChunkReceipt>;
+  /** Sends bytes offset…offset + chunk.size of a file totalling total bytes. */
+  uploadChunk(
+    uploadId: string,
+    offset: number,
+    chunk: Blob,
+    total: number,
+    options?: TransferOptions,
+  ): Promise<ChunkReceipt>;
+  /** Sends the submission; rejects with PrescriptionError if it was not accepted. */
+  submit(submission: PrescriptionSubmission, options?: TransferOptions): Promise<PrescriptionReceipt>;
+  /** Everything submitted from this account, newest first. */
+  listPrescriptions(accountId: string): Promise<PrescriptionTracking[]>;
+  /** Current state; rejects with code "not_found" for an unknown reference. */
+  getStatus(reference: string): Promise<PrescriptionTracking>;
+  /** Accepts the pharmacist's quote; only valid while status is "quoted". */
+  acceptQuote(reference: string): Promise<PrescriptionTracking>;
+  /** Sends the patient's reply, e.g. to a clarification request. */
+  sendMessage(reference: string, text: string): Promise<PrescriptionTracking>;
+}
+
+export class PrescriptionError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "prescription_error") {
+    super(message);
+    this.name = "PrescriptionError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,340 @@
+// src/prescriptions/uploadQueue.ts
+
+import { getPrescriptionAdapter } from "./service";
+import { PrescriptionError, type PrescriptionAdapter, type UploadedFile } from "./types";
+import { createIndexedDbStore, type UploadPreview, type UploadRecord, type UploadStore } from "./uploadStore";
+
+/* ---------------------------------------------------------------
+   Upload queue — every prescription form sends files through it
+
+   Each file uploads on its own, in chunks, as soon as it is added:
+
+     queued → uploading → uploaded
+                ↓   ↑
+             retrying      (network / server errors, with
+                ↓           exponential backoff and jitter)
+              failed       (after maxAttempts, or a rejection)
+
+   A retry first asks the server how many bytes it kept, so only
+   the unfinished chunk is sent again. While the browser is
+   offline nothing counts as an attempt; the queue waits for the
+   "online" event instead.
+
+   Files and offsets are kept in IndexedDB, so after a reload a
+   form calls restore(scope) and the queue picks up where it was.
+--------------------------------------------------------------- */
+export type UploadStatus = "queued" | "uploading" | "retrying" | "uploaded" | "failed";
+
+export interface UploadEntry extends UploadRecord {
+  file: Blob;
+  status: UploadStatus;
+  /** 0–100 */
+  progress: number;
+  /** Consecutive failures; reset by every chunk that gets through */
+  attempts: number;
+  error?: string;
+  /** ms since epoch of the next try; unset while waiting to come back online */
+  retryAt?: number;
+}
+
+export interface EnqueueInput {
+  id: string;
+  scope: string;
+  file: File;
+  preview?: UploadPreview;
+}
+
+export interface UploadQueueOptions {
+  /** Defaults to the current prescription adapter, looked up per upload */
+  adapter?: PrescriptionAdapter;
+  store?: UploadStore;
+  /** Files uploading at once */
+  concurrency?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface UploadQueue {
+  /** Starts uploading a file; re-adding an id replaces the earlier upload. */
+  add(input: EnqueueInput): void;
+  /** Stops and forgets a file. */
+  cancel(id: string): void;
+  /** Tries a failed file again from where it stopped. */
+  retry(id: string): void;
+  /** Forgets every file of a form, e.g. once its submission went through. */
+  clear(scope: string): void;
+  /** Loads a form's files kept from an earlier visit and resumes them. */
+  restore(scope: string): Promise<UploadEntry[]>;
+  /** Stable between changes, for useSyncExternalStore */
+  getSnapshot(): readonly UploadEntry[];
+  subscribe(listener: () => void): () => void;
+}
+
+/** Worth another go; anything else (rejected, invalid, too large) won't change on retry. */
+const RETRYABLE = new Set(["network", "server", "not_found", "offset_mismatch", "bad_response"]);
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+/** Exponential, capped, with "equal jitter" so a fleet of phones doesn't retry in step. */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number, random = Math.random()) => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + (ceiling / 2) * random);
+};
+
+export const toUploadedFile = ({ fileId, fileName, size, type }: UploadEntry): UploadedFile | null =>
+  fileId ? { fileId, fileName, size, type } : null;
+
+const toRecord = (e: UploadEntry): UploadRecord => ({
+  id: e.id,
+  scope: e.scope,
+  fileName: e.fileName,
+  type: e.type,
+  size: e.size,
+  createdAt: e.createdAt,
+  uploadId: e.uploadId,
+  chunkSize: e.chunkSize,
+  received: e.received,
+  fileId: e.fileId,
+  preview: e.preview,
+});
+
+const percentOf = (received: number, size: number) => (size > 0 ? Math.round((received / size) * 100) : 0);
+
+export const createUploadQueue = ({
+  adapter,
+  store = createIndexedDbStore(),
+  concurrency = 2,
+  maxAttempts = 6,
+  baseDelayMs = 1000,
+  maxDelayMs = 30_000,
+}: UploadQueueOptions = {}): UploadQueue => {
+  const entries = new Map<string, UploadEntry>();
+  const controllers = new Map<string, AbortController>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Set<() => void>();
+  let snapshot: readonly UploadEntry[] = [];
+
+  const emit = () => {
+    snapshot = [...entries.values()];
+    listeners.forEach((listener) => listener());
+  };
+
+  /** Applies a change unless the entry was cancelled meanwhile. */
+  const patch = (id: string, change: Partial<UploadEntry>) => {
+    const current = entries.get(id);
+    if (!current) return undefined;
+    const next = { ...current, ...change };
+    entries.set(id, next);
+    emit();
+    return next;
+  };
+
+  const stop = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  };
+
+  const pump = () => {
+    for (const entry of entries.values()) {
+      if (controllers.size >= concurrency) return;
+      if (entry.status === "queued") void run(entry.id);
+    }
+  };
+
+  const schedule = (id: string, attempts: number, error: string) => {
+    if (isOffline()) {
+      // No attempt used up; the "online" listener wakes it
+      patch(id, { status: "retrying", error: "Waiting for a connection…", retryAt: undefined });
+      return;
+    }
+    if (attempts >= maxAttempts) {
+      patch(id, { status: "failed", attempts, error, retryAt: undefined });
+      return;
+    }
+    const delay = backoffDelay(attempts, baseDelayMs, maxDelayMs);
+    patch(id, { status: "retrying", attempts, error, retryAt: Date.now() + delay });
+    timers.set(
+      id,
+      setTimeout(() => {
+        timers.delete(id);
+        if (entries.get(id)?.status !== "retrying") return;
+        patch(id, { status: "queued", retryAt: undefined });
+        pump();
+      }, delay),
+    );
+  };
+
+  const run = async (id: string) => {
+    const start = entries.get(id);
+    if (!start) return;
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const { signal } = controller;
+    const target = adapter ?? getPrescriptionAdapter();
+
+    let entry = patch(id, { status: "uploading", error: undefined, retryAt: undefined })!;
+    const save = (change: Partial<UploadEntry>) => {
+      if (signal.aborted) return;
+      const next = patch(id, change);
+      if (next) {
+        entry = next;
+        void store.put(toRecord(next));
+      }
+    };
+
+    try {
+      let { uploadId, chunkSize, received, fileId } = entry;
+
+      if (uploadId) {
+        // Resuming — the server may have kept more or less than we think
+        ({ received, fileId } = await target.getUploadOffset(uploadId, { signal }));
+      }
+      if (!uploadId || !chunkSize) {
+        ({ uploadId, chunkSize } = await target.createUpload(
+          { fileName: entry.fileName, size: entry.size, type: entry.type },
+          { signal },
+        ));
+        received = 0;
+      }
+      save({ uploadId, chunkSize, received, fileId, progress: percentOf(received, entry.size) });
+
+      while (!fileId) {
+        const from = received;
+        const to = Math.min(entry.size, from + chunkSize);
+        ({ received, fileId } = await target.uploadChunk(uploadId, from, entry.file.slice(from, to), entry.size, {
+          signal,
+          onProgress: (percent) => {
+            if (signal.aborted) return;
+            const sent = from + ((to - from) * percent) / 100;
+            patch(id, { progress: Math.min(99, percentOf(sent, entry.size)) });
+          },
+        }));
+        save({ received, fileId, attempts: 0, progress: percentOf(received, entry.size) });
+      }
+
+      save({ status: "uploaded", progress: 100, attempts: 0 });
+    } catch (err) {
+      if (signal.aborted) return;
+      const code = err instanceof PrescriptionError ? err.code : "network";
+      const message = err instanceof PrescriptionError ? err.message : "Upload failed.";
+
+      if (code === "not_found") {
+        // The session expired — start this file over
+        save({ uploadId: undefined, chunkSize: undefined, received: 0, progress: 0 });
+      }
+      if (RETRYABLE.has(code)) {
+        schedule(id, entry.attempts + 1, message);
+      } else {
+        patch(id, { status: "failed", error: message });
+      }
+    } finally {
+      if (controllers.get(id) === controller) controllers.delete(id);
+      pump();
+    }
+  };
+
+  const wake = () => {
+    entries.forEach((entry) => {
+      if (entry.status !== "retrying") return;
+      clearTimeout(timers.get(entry.id));
+      timers.delete(entry.id);
+      patch(entry.id, { status: "queued", retryAt: undefined });
+    });
+    pump();
+  };
+
+  if (typeof window !== "undefined") window.addEventListener("online", wake);
+
+  const cancel = (id: string) => {
+    stop(id);
+    if (!entries.delete(id)) return;
+    emit();
+    void store.remove(id);
+    pump();
+  };
+
+  return {
+    add({ id, scope, file, preview }) {
+      stop(id);
+      const entry: UploadEntry = {
+        id,
+        scope,
+        fileName: file.name,
+        type: file.type,
+        size: file.size,
+        createdAt: entries.get(id)?.createdAt ?? Date.now(),
+        received: 0,
+        ...(preview && { preview }),
+        file,
+        status: "queued",
+        progress: 0,
+        attempts: 0,
+      };
+      entries.set(id, entry);
+      emit();
+      void store.put(toRecord(entry), file);
+      pump();
+    },
+
+    cancel,
+
+    retry(id) {
+      if (entries.get(id)?.status !== "failed") return;
+      patch(id, { status: "queued", attempts: 0, error: undefined });
+      pump();
+    },
+
+    clear(scope) {
+      [...entries.values()].filter((e) => e.scope === scope).forEach((e) => cancel(e.id));
+    },
+
+    async restore(scope) {
+      const stored = await store.list(scope);
+      let added = false;
+      for (const { record, file } of stored) {
+        if (entries.has(record.id)) continue;
+        added = true;
+        entries.set(record.id, {
+          ...record,
+          file,
+          status: record.fileId ? "uploaded" : "queued",
+          progress: record.fileId ? 100 : percentOf(record.received, record.size),
+          attempts: 0,
+        });
+      }
+      if (added) {
+        emit();
+        pump();
+      }
+      return snapshot.filter((e) => e.scope === scope);
+    },
+
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+/* ---------------------------------------------------------------
+   Shared queue, so uploads carry on while the customer moves
+   between pages
+--------------------------------------------------------------- */
+let queue: UploadQueue | null = null;
+
+export const getUploadQueue = (): UploadQueue => {
+  queue ??= createUploadQueue();
+  return queue;
+};
+
+/** Swap the queue, e.g. for one with an in-memory store. */
+export const setUploadQueue = (next: UploadQueue): void => {
+  queue = next;
+};
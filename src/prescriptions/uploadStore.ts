@@ -0,0 +1,151 @@
+// src/prescriptions/uploadStore.ts
+
+import type { QualityWarning } from "./imageQuality";
+
+/* ---------------------------------------------------------------
+   Where the upload queue keeps files between visits
+
+   IndexedDB, because it holds Blobs and localStorage doesn't.
+   Records (small, rewritten after every chunk) and file bytes
+   (written once) live in separate object stores.
+
+   Persistence is best effort: when IndexedDB is missing or
+   refuses (private browsing, full disk) the queue still works,
+   it just starts empty after a reload.
+--------------------------------------------------------------- */
+export interface UploadRecord {
+  id: string;
+  /** The form the file belongs to; each restores only its own */
+  scope: string;
+  fileName: string;
+  type: string;
+  size: number;
+  /** ms since epoch */
+  createdAt: number;
+  uploadId?: string;
+  chunkSize?: number;
+  /** Bytes the server has confirmed */
+  received: number;
+  /** Set once the server has the whole file */
+  fileId?: string;
+  /** What the form needs to redraw the file after a reload */
+  preview?: UploadPreview;
+}
+
+export interface UploadPreview {
+  kind: "image" | "pdf";
+  warnings: QualityWarning[];
+  pageCount?: number;
+  /** First-page scan of a PDF */
+  thumbnail?: Blob;
+}
+
+export interface StoredUploadFile {
+  record: UploadRecord;
+  file: Blob;
+}
+
+export interface UploadStore {
+  /** Oldest first */
+  list(scope: string): Promise<StoredUploadFile[]>;
+  /** Pass file only the first time; later calls update the record. */
+  put(record: UploadRecord, file?: Blob): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const DB_NAME = "yallah_uploads_v1"; // bump version if shape changes
+const RECORDS = "records";
+const FILES = "files";
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createMemoryStore = (): UploadStore => {
+  const entries = new Map<string, StoredUploadFile>();
+  return {
+    async list(scope) {
+      return [...entries.values()]
+        .filter((e) => e.record.scope === scope)
+        .sort((a, b) => a.record.createdAt - b.record.createdAt);
+    },
+    async put(record, file) {
+      const blob = file ?? entries.get(record.id)?.file;
+      if (blob) entries.set(record.id, { record, file: blob });
+    },
+    async remove(id) {
+      entries.delete(id);
+    },
+  };
+};
+
+export const createIndexedDbStore = (name = DB_NAME): UploadStore => {
+  if (typeof indexedDB === "undefined") return createMemoryStore();
+
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(name, 1);
+      req.onupgradeneeded = () => {
+        const records = req.result.createObjectStore(RECORDS, { keyPath: "id" });
+        records.createIndex("scope", "scope");
+        req.result.createObjectStore(FILES);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error("Upload storage is blocked by another tab."));
+    });
+    return db;
+  };
+
+  return {
+    async list(scope) {
+      try {
+        const tx = (await open()).transaction([RECORDS, FILES], "readonly");
+        const records = await promisify<UploadRecord[]>(tx.objectStore(RECORDS).index("scope").getAll(scope));
+        const files = await Promise.all(
+          records.map((r) => promisify<Blob | undefined>(tx.objectStore(FILES).get(r.id))),
+        );
+        return records
+          .flatMap((record, i) => {
+            const file = files[i];
+            return file ? [{ record, file }] : [];
+          })
+          .sort((a, b) => a.record.createdAt - b.record.createdAt);
+      } catch {
+        return [];
+      }
+    },
+
+    async put(record, file) {
+      try {
+        const tx = (await open()).transaction([RECORDS, FILES], "readwrite");
+        tx.objectStore(RECORDS).put(record);
+        if (file) tx.objectStore(FILES).put(file, record.id);
+        await done(tx);
+      } catch {
+        // Not persisted — the upload carries on regardless
+      }
+    },
+
+    async remove(id) {
+      try {
+        const tx = (await open()).transaction([RECORDS, FILES], "readwrite");
+        tx.objectStore(RECORDS).delete(id);
+        tx.objectStore(FILES).delete(id);
+        await done(tx);
+      } catch {
+        // Left behind; it reappears on the next restore and can be removed again
+      }
+    },
+  };
+};
@@ -0,0 +1,322 @@
+// src/prescriptions/usePreparedFiles.ts
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { processPrescriptionImage, type CropRect, type ImageEdits, type QuarterTurn } from "./imageProcessing";
+import type { QualityWarning } from "./imageQuality";
+import { readPdfPreview } from "./pdfPreview";
+import { PrescriptionError, type UploadedFile } from "./types";
+import { getUploadQueue, toUploadedFile, type UploadEntry, type UploadQueue } from "./uploadQueue";
+import { MAX_PRESCRIPTION_FILE_SIZE, MAX_PRESCRIPTION_FILES } from "./validation";
+
+/* ---------------------------------------------------------------
+   Files picked for a prescription, processed and uploaded
+
+   Photos are made upright, downscaled and compressed; PDFs get a
+   first-page thumbnail. Processing runs one file at a time so a
+   batch of 12 MP photos doesn't exhaust a budget phone's memory.
+   Each file then goes to the upload queue straight away, so it is
+   usually on the server by the time the form is filled in.
+
+   The queue outlives the form: uploads continue across pages and,
+   via IndexedDB, across reloads — the form's files come back when
+   it mounts again with the same scope.
+--------------------------------------------------------------- */
+export interface PreparedFile {
+  id: string;
+  original: File;
+  kind: "image" | "pdf";
+  status: "processing" | "ready" | "error";
+  /** What gets uploaded — the original until processing finishes */
+  file: File;
+  /** Object URL for the thumbnail, when there is one */
+  previewUrl?: string;
+  warnings: QualityWarning[];
+  /** PDFs only; 0 when unknown */
+  pageCount?: number;
+  edits: ImageEdits;
+  error?: string;
+  /** Set once the processed file is handed to the upload queue */
+  upload?: UploadEntry;
+}
+
+export interface PreparedFilesOptions {
+  /** Names the form, so a reload restores only its own files */
+  scope: string;
+  maxFiles?: number;
+  /** Limit on the processed file */
+  maxFileSize?: number;
+  queue?: UploadQueue;
+}
+
+/** Phone photos are compressed anyway, so accept originals well over the upload limit. */
+const MAX_SOURCE_IMAGE_SIZE = 40 * 1024 * 1024;
+
+const kindOf = (file: File): PreparedFile["kind"] | null =>
+  file.type === "application/pdf" || /\.pdf$/i.test(file.name)
+    ? "pdf"
+    : file.type.startsWith("image/")
+      ? "image"
+      : null;
+
+/** rect is relative to the already-cropped preview; map it back onto the whole image. */
+const composeCrop = (outer: CropRect | undefined, rect: CropRect): CropRect =>
+  outer
+    ? {
+        x: outer.x + rect.x * outer.width,
+        y: outer.y + rect.y * outer.height,
+        width: rect.width * outer.width,
+        height: rect.height * outer.height,
+      }
+    : rect;
+
+let idCounter = 0;
+const nextId = () => `rxfile_${Date.now()}_${++idCounter}`;
+
+const formatMb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/** Object URLs are tracked so every one can be revoked on unmount. */
+const trackUrl = (urls: Set<string>, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  urls.add(url);
+  return url;
+};
+
+const releaseUrl = (urls: Set<string>, url?: string) => {
+  if (!url) return;
+  URL.revokeObjectURL(url);
+  urls.delete(url);
+};
+
+/** Rebuilds a file kept by the queue; the processed file stands in for the lost original. */
+const fromUpload = (urls: Set<string>, entry: UploadEntry): PreparedFile => {
+  const file = new File([entry.file], entry.fileName, { type: entry.type });
+  const kind = entry.preview?.kind ?? kindOf(file) ?? "image";
+  const thumbnail = kind === "image" ? file : entry.preview?.thumbnail;
+  return {
+    id: entry.id,
+    original: file,
+    kind,
+    status: "ready",
+    file,
+    previewUrl: thumbnail ? trackUrl(urls, thumbnail) : undefined,
+    warnings: entry.preview?.warnings ?? [],
+    pageCount: entry.preview?.pageCount,
+    edits: { rotation: 0 },
+  };
+};
+
+export const usePreparedFiles = ({
+  scope,
+  maxFiles = MAX_PRESCRIPTION_FILES,
+  maxFileSize = MAX_PRESCRIPTION_FILE_SIZE,
+  queue = getUploadQueue(),
+}: PreparedFilesOptions) => {
+  const [local, setFiles] = useState<PreparedFile[]>([]);
+  const filesRef = useRef(local);
+  filesRef.current = local;
+
+  const uploads = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+
+  // Serialises processing; each job waits for the previous one
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const urlsRef = useRef(new Set<string>());
+
+  const update = useCallback((id: string, patch: (f: PreparedFile) => Partial<PreparedFile>) => {
+    setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...patch(f) } : f)));
+  }, []);
+
+  /** Replaces the entry's result, dropping the stale thumbnail; false if it was removed meanwhile. */
+  const settle = useCallback(
+    (id: string, result: Partial<PreparedFile>) => {
+      const current = filesRef.current.find((f) => f.id === id);
+      // Removed while processing — throw the new preview away
+      if (!current) {
+        releaseUrl(urlsRef.current, result.previewUrl);
+        return false;
+      }
+      if (result.previewUrl && current.previewUrl !== result.previewUrl) {
+        releaseUrl(urlsRef.current, current.previewUrl);
+      }
+      update(id, () => result);
+      return true;
+    },
+    [update],
+  );
+
+  const process = useCallback(
+    (id: string, original: File, kind: PreparedFile["kind"], edits: ImageEdits) => {
+      queueRef.current = queueRef.current.then(async () => {
+        if (!filesRef.current.some((f) => f.id === id)) return;
+        try {
+          if (kind === "pdf") {
+            const { pageCount, thumbnail } = await readPdfPreview(original);
+            const settled = settle(id, {
+              status: "ready",
+              pageCount,
+              previewUrl: thumbnail ? trackUrl(urlsRef.current, thumbnail) : undefined,
+            });
+            if (settled) queue.add({ id, scope, file: original, preview: { kind, warnings: [], pageCount, thumbnail } });
+            return;
+          }
+
+          const { file, quality } = await processPrescriptionImage(original, { edits });
+          const tooBig = file.size > maxFileSize;
+          const settled = settle(id, {
+            status: tooBig ? "error" : "ready",
+            file,
+            warnings: quality.warnings,
+            previewUrl: trackUrl(urlsRef.current, file),
+            ...(tooBig && { error: "This image is still too large after compression." }),
+          });
+          if (settled && !tooBig) queue.add({ id, scope, file, preview: { kind, warnings: quality.warnings } });
+        } catch (err) {
+          settle(id, {
+            status: "error",
+            error: err instanceof PrescriptionError ? err.message : "This file couldn't be processed.",
+          });
+        }
+      });
+    },
+    [maxFileSize, queue, scope, settle],
+  );
+
+  /** Adds files and starts processing; returns a message for each file turned away. */
+  const add = useCallback(
+    (incoming: FileList | File[] | null): string[] => {
+      if (!incoming) return [];
+      const rejected: string[] = [];
+      const accepted: PreparedFile[] = [];
+      let room = maxFiles - filesRef.current.length;
+
+      for (const original of Array.from(incoming)) {
+        const kind = kindOf(original);
+        if (!kind) {
+          rejected.push(`"${original.name}" isn't an image or PDF.`);
+        } else if (original.size > (kind === "pdf" ? maxFileSize : MAX_SOURCE_IMAGE_SIZE)) {
+          const limit = kind === "pdf" ? maxFileSize : MAX_SOURCE_IMAGE_SIZE;
+          rejected.push(`"${original.name}" is too large (max ${formatMb(limit)}).`);
+        } else if (room <= 0) {
+          rejected.push(`Only ${maxFiles} files can be attached — "${original.name}" was skipped.`);
+        } else {
+          room--;
+          accepted.push({
+            id: nextId(),
+            original,
+            kind,
+            status: "processing",
+            file: original,
+            warnings: [],
+            edits: { rotation: 0 },
+          });
+        }
+      }
+
+      if (accepted.length) {
+        const next = [...filesRef.current, ...accepted];
+        filesRef.current = next;
+        setFiles(next);
+        accepted.forEach((f) => process(f.id, f.original, f.kind, f.edits));
+      }
+      return rejected;
+    },
+    [maxFiles, maxFileSize, process],
+  );
+
+  /** Drops a file, cancelling its upload. */
+  const remove = useCallback(
+    (id: string) => {
+      queue.cancel(id);
+      const target = filesRef.current.find((f) => f.id === id);
+      releaseUrl(urlsRef.current, target?.previewUrl);
+      const next = filesRef.current.filter((f) => f.id !== id);
+      filesRef.current = next;
+      setFiles(next);
+    },
+    [queue],
+  );
+
+  const retry = useCallback((id: string) => queue.retry(id), [queue]);
+
+  /** Re-runs processing from the original with new edits. */
+  const edit = useCallback(
+    (id: string, change: (edits: ImageEdits) => ImageEdits) => {
+      const target = filesRef.current.find((f) => f.id === id);
+      if (!target || target.kind !== "image") return;
+      const edits = change(target.edits);
+      // The old version may be half uploaded; the edited one replaces it
+      queue.cancel(id);
+      update(id, () => ({ edits, status: "processing", error: undefined }));
+      process(id, target.original, target.kind, edits);
+    },
+    [process, queue, update],
+  );
+
+  /** Quarter turn clockwise (1) or anticlockwise (-1); clears the crop, which no longer lines up. */
+  const rotate = useCallback(
+    (id: string, direction: 1 | -1) =>
+      edit(id, (e) => ({ rotation: ((e.rotation + direction * 90 + 360) % 360) as QuarterTurn })),
+    [edit],
+  );
+
+  /** Crops to rect, given relative to the current preview; no rect resets the crop. */
+  const crop = useCallback(
+    (id: string, rect?: CropRect) => edit(id, (e) => ({ ...e, crop: rect && composeCrop(e.crop, rect) })),
+    [edit],
+  );
+
+  /** Forgets every file, uploaded or not — e.g. once the submission went through. */
+  const clear = useCallback(() => {
+    queue.clear(scope);
+    filesRef.current.forEach((f) => releaseUrl(urlsRef.current, f.previewUrl));
+    filesRef.current = [];
+    setFiles([]);
+  }, [queue, scope]);
+
+  // Bring back files from an earlier visit; their uploads resume in the queue
+  useEffect(() => {
+    let active = true;
+    void queue.restore(scope).then((entries) => {
+      const known = new Set(filesRef.current.map((f) => f.id));
+      const restored = entries.filter((e) => !known.has(e.id)).map((e) => fromUpload(urlsRef.current, e));
+      if (!active || restored.length === 0) return;
+      const next = [...restored, ...filesRef.current];
+      filesRef.current = next;
+      setFiles(next);
+    });
+    return () => {
+      active = false;
+    };
+  }, [queue, scope]);
+
+  // Free every thumbnail when the form goes away
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const files = useMemo(
+    () => local.map((f) => ({ ...f, upload: uploads.find((u) => u.id === f.id) })),
+    [local, uploads],
+  );
+  const uploaded = useMemo<UploadedFile[]>(
+    () => files.flatMap((f) => (f.status === "ready" && f.upload ? (toUploadedFile(f.upload) ?? []) : [])),
+    [files],
+  );
+
+  return {
+    files,
+    /** Still compressing or reading a PDF */
+    processing: files.some((f) => f.status === "processing"),
+    /** Processed, but not yet on the server */
+    uploading: files.some((f) => f.status === "ready" && f.upload?.status !== "uploaded"),
+    /** On the server, ready to go in a submission */
+    uploaded,
+    hasErrors: files.some((f) => f.status === "error" || f.upload?.status === "failed"),
+    add,
+    remove,
+    retry,
+    rotate,
+    crop,
+    clear,
+  };
+};
@@ -0,0 +1,80 @@
+// src/prescriptions/usePrescriptionStatus.ts
+
+import { useCallback, useEffect, useState } from "react";
+import { getPrescriptionAdapter } from "./service";
+import { isPrescriptionOpen } from "./status";
+import { PrescriptionError, type PrescriptionAdapter, type PrescriptionTracking } from "./types";
+
+/* ---------------------------------------------------------------
+   React binding — load a reference, keep it fresh while it's open
+--------------------------------------------------------------- */
+export interface PrescriptionStatusOptions {
+  adapter?: PrescriptionAdapter;
+  /** How often to re-check an open prescription, in ms (0 turns polling off) */
+  pollMs?: number;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof PrescriptionError ? err.message : fallback;
+
+export const usePrescriptionStatus = (
+  reference: string,
+  { adapter = getPrescriptionAdapter(), pollMs = 15_000 }: PrescriptionStatusOptions = {},
+) => {
+  const [tracking, setTracking] = useState<PrescriptionTracking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  /** An accept / reply is in flight */
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTracking(await adapter.getStatus(reference));
+      setError("");
+    } catch (err) {
+      setError(errorMessage(err, "Couldn't load this prescription."));
+      if (err instanceof PrescriptionError && err.code === "not_found") setTracking(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [adapter, reference]);
+
+  // Mount the caller with key={reference} to start from a clean slate per reference
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const open = tracking ? isPrescriptionOpen(tracking) : false;
+  useEffect(() => {
+    if (!open || pollMs <= 0) return;
+    const timer = setInterval(refresh, pollMs);
+    return () => clearInterval(timer);
+  }, [open, pollMs, refresh]);
+
+  /** Runs an action that returns the updated tracking; resolves false if it failed. */
+  const act = useCallback(async (run: () => Promise<PrescriptionTracking>, fallback: string) => {
+    setBusy(true);
+    try {
+      setTracking(await run());
+      setError("");
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const acceptQuote = useCallback(
+    () => act(() => adapter.acceptQuote(reference), "Couldn't accept the quote."),
+    [act, adapter, reference],
+  );
+
+  const reply = useCallback(
+    (text: string) => act(() => adapter.sendMessage(reference, text), "Couldn't send your message."),
+    [act, adapter, reference],
+  );
+
+  return { tracking, loading, error, busy, refresh, acceptQuote, reply };
+};
@@ -0,0 +1,67 @@
+// src/prescriptions/usePrescriptionSubmit.ts
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getPrescriptionAdapter, submitPrescription } from "./service";
+import {
+  PrescriptionError,
+  type PrescriptionAdapter,
+  type PrescriptionReceipt,
+  type PrescriptionSubmission,
+} from "./types";
+
+/* ---------------------------------------------------------------
+   React binding — submit once, expose the receipt
+
+   Files are already uploaded by then (see usePreparedFiles), so
+   this is one small request.
+--------------------------------------------------------------- */
+export interface PrescriptionSubmitState {
+  status: "idle" | "submitting" | "submitted" | "error";
+  error: string;
+  receipt?: PrescriptionReceipt;
+}
+
+const IDLE: PrescriptionSubmitState = { status: "idle", error: "" };
+
+export const usePrescriptionSubmit = (adapter: PrescriptionAdapter = getPrescriptionAdapter()) => {
+  const [state, setState] = useState<PrescriptionSubmitState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  /** Resolves with the receipt, or null if it failed or was cancelled. */
+  const submit = useCallback(
+    async (submission: PrescriptionSubmission): Promise<PrescriptionReceipt | null> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setState({ status: "submitting", error: "" });
+
+      try {
+        const receipt = await submitPrescription(submission, { signal: controller.signal }, adapter);
+        setState({ status: "submitted", error: "", receipt });
+        return receipt;
+      } catch (err) {
+        if (controller.signal.aborted) return null;
+        setState({
+          status: "error",
+          error: err instanceof PrescriptionError ? err.message : "Something went wrong sending your prescription.",
+        });
+        return null;
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [adapter],
+  );
+
+  // Abandon the request if the form goes away mid-submit
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { ...state, submit, reset, cancel: reset };
+};
@@ -0,0 +1,49 @@
+// src/prescriptions/validation.ts
+
+import { isValidPhone } from "../checkout/validation";
+import type { PrescriptionSubmission } from "./types";
+
+/* ---------------------------------------------------------------
+   Submission rules — shared by every form and checked again by
+   the service, so no adapter ever sees a half-filled submission
+--------------------------------------------------------------- */
+export const MAX_PRESCRIPTION_FILES = 8;
+export const MAX_PRESCRIPTION_FILE_SIZE = 10 * 1024 * 1024;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ALLOWED_TYPE = /^(image\/|application\/pdf$)/;
+
+export type SubmissionErrors = Partial<Record<string, string>>;
+
+export const validateSubmission = ({
+  source,
+  files,
+  patient,
+  delivery,
+  details,
+}: PrescriptionSubmission): SubmissionErrors => {
+  const errors: SubmissionErrors = {};
+
+  if (patient.fullName.trim().length < 2) errors.fullName = "Enter the patient's full name.";
+  if (!isValidPhone(patient.phone)) errors.phone = "Enter a valid Kenyan mobile number.";
+  if (patient.email?.trim() && !EMAIL.test(patient.email.trim())) {
+    errors.email = "Enter a valid email address.";
+  }
+
+  // A refill request can describe the medicine instead of attaching a photo
+  if (files.length === 0 && !(source === "request" && details?.trim())) {
+    errors.files = "Add a photo or PDF of the prescription.";
+  } else if (files.length > MAX_PRESCRIPTION_FILES) {
+    errors.files = `Attach at most ${MAX_PRESCRIPTION_FILES} files.`;
+  } else {
+    const bad = files.find((f) => f.size > MAX_PRESCRIPTION_FILE_SIZE || !ALLOWED_TYPE.test(f.type));
+    if (bad) errors.files = `"${bad.fileName}" must be an image or PDF under 10 MB.`;
+  }
+
+  if (delivery?.method === "delivery") {
+    if (!delivery.address.trim()) errors.address = "Enter a delivery address.";
+    if (!delivery.city.trim()) errors.city = "Enter a city or town.";
+  }
+
+  return errors;
+};
@@ -0,0 +1,98 @@
+// src/promo/FlashSale.tsx
+// ============================================================================
+// ⚡ FlashSale.tsx — live flash sales on the home page; a campaign drops
+//    off by itself when it ends, and the next one is teased until it starts
+// ============================================================================
+
+import React from "react";
+import { Link } from "react-router-dom";
+import { ShoppingCart, Zap } from "lucide-react";
+import toast from "react-hot-toast";
+import { getProductById, getProductPath, toCartItem, type Product } from "../catalog";
+import { isSoldOut } from "../inventory";
+import { formatPrice } from "../config";
+import { useAuth } from "../context/AuthContext";
+import { useCart } from "../context/CartContext";
+import {
+  formatCountdown,
+  getFlashOffer,
+  getLiveFlashSales,
+  getNextFlashSale,
+  useFlashSaleClock,
+} from "../promotions";
+import FlashSaleTag from "../components/FlashSaleTag";
+import styles from "./FlashSale.module.css";
+
+const FlashSale: React.FC = () => {
+  const now = useFlashSaleClock();
+  const { user } = useAuth();
+  const { addToCart } = useCart();
+  const live = getLiveFlashSales(now);
+  const next = getNextFlashSale(now);
+
+  if (live.length === 0 && !next) return null;
+
+  const handleAddToCart = (product: Product) => {
+    if (addToCart(toCartItem(product))) toast.success(`${product.name} added to cart 🛒`, { duration: 2000 });
+  };
+
+  return (
+    <section className={styles.flashSale} aria-label="Flash sales">
+      {live.map((sale) => (
+        <div key={sale.id} className={styles.campaign}>
+          <header className={styles.header}>
+            <h2 className={styles.title}>
+              <Zap size={20} aria-hidden="true" />
+              {sale.name}
+            </h2>
+            <p className={styles.countdown}>
+              Ends in <time dateTime={sale.endsAt}>{formatCountdown(Date.parse(sale.endsAt) - now.getTime())}</time>
+            </p>
+          </header>
+
+          <ul className={styles.grid}>
+            {sale.items.map((item) => {
+              const product = getProductById(item.productId);
+              const offer = getFlashOffer(item.productId, { now, accountId: user?.id });
+              if (!product || !offer) return null;
+              const soldOut = offer.remaining <= 0;
+
+              return (
+                <li key={item.productId} className={styles.card}>
+                  <Link to={getProductPath(product)} className={styles.product}>
+                    <img src={product.image} alt={product.name} className={styles.image} loading="lazy" />
+                    <span className={styles.name}>{product.name}</span>
+                  </Link>
+                  <p className={styles.prices}>
+                    <strong>{formatPrice(offer.price)}</strong>
+                    <s>{formatPrice(product.price)}</s>
+                  </p>
+                  <FlashSaleTag offer={offer} now={now} />
+                  <button
+                    type="button"
+                    className={styles.addButton}
+                    onClick={() => handleAddToCart(product)}
+                    disabled={soldOut || isSoldOut(product)}
+                  >
+                    <ShoppingCart size={16} aria-hidden="true" />
+                    {soldOut ? "Sold out" : "Add to cart"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+
+      {live.length === 0 && next && (
+        <p className={styles.teaser}>
+          <Zap size={18} aria-hidden="true" />
+          <strong>{next.name}</strong> starts in{" "}
+          <time dateTime={next.startsAt}>{formatCountdown(Date.parse(next.startsAt) - now.getTime())}</time>
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default FlashSale;
@@ -9,8 +9,15 @@ interface PromoBanner {
   alt: string;
   link: string;
   category: string;
+  /** ISO timestamps; a banner without them runs until it's taken out */
+  startsAt?: string;
+  endsAt?: string;
 }
 
+const isRunning = (banner: PromoBanner, now: number) =>
+  (!banner.startsAt || Date.parse(banner.startsAt) <= now) &&
+  (!banner.endsAt || now <= Date.parse(banner.endsAt));
+
 const PromoBanners: React.FC = () => {
   const navigate = useNavigate();
 
@@ -31,6 +38,9 @@ const PromoBanners: React.FC = () => {
     }
   ];
 
+  const running = banners.filter((banner) => isRunning(banner, Date.now()));
+  if (running.length === 0) return null;
+
   const handleBannerClick = (link: string, category: string) => {
     navigate(link, { state: { category } });
   };
@@ -49,7 +59,7 @@ const PromoBanners: React.FC = () => {
   return (
     <section className={styles.promoBannersContainer} aria-label="Promotional Offers">
       <div className={styles.bannersWrapper}>
-        {banners.map((banner) => (
+        {running.map((banner) => (
           <div
             key={banner.id}
             className={styles.bannerItem}
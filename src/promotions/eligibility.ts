@@ -0,0 +1,74 @@
+// src/promotions/eligibility.ts
+
+import { formatPrice } from "../config";
+import { PROMOTIONS } from "./offers";
+import { getRedemptions } from "./redemptions";
+import { PromotionError, type Promotion, type PromotionContext } from "./types";
+
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Why a promotion doesn't apply to this cart and customer, or null
+ * when it does. Shared by automatic offers and coupon codes.
+ */
+export const getIneligibility = (
+  promotion: Promotion,
+  subtotal: number,
+  { now = new Date(), accountId, firstOrder = false }: PromotionContext = {},
+): PromotionError | null => {
+  const time = now.getTime();
+  if (promotion.startsAt && time < Date.parse(promotion.startsAt)) {
+    return new PromotionError("This offer hasn't started yet.", "not_started");
+  }
+  if (promotion.endsAt && time > Date.parse(promotion.endsAt)) {
+    return new PromotionError("This offer has ended.", "expired");
+  }
+  if (promotion.firstOrderOnly && !firstOrder) {
+    return new PromotionError(
+      accountId ? "This offer is for your first order only." : "Sign in or create an account to use this offer.",
+      "first_order_only",
+    );
+  }
+  if (promotion.minSubtotal !== undefined && subtotal < promotion.minSubtotal) {
+    return new PromotionError(`Spend at least ${formatPrice(promotion.minSubtotal)} to use this offer.`, "min_subtotal");
+  }
+
+  const { total, mine } = getRedemptions(promotion.id, accountId);
+  if (promotion.usageLimit !== undefined && total >= promotion.usageLimit) {
+    return new PromotionError("This offer has been fully redeemed.", "used_up");
+  }
+  if (promotion.perCustomerLimit !== undefined) {
+    // Per-customer limits can only be counted for an account
+    if (!accountId) return new PromotionError("Sign in to use this code.", "sign_in_required");
+    if (mine >= promotion.perCustomerLimit) {
+      return new PromotionError("You've already used this code.", "used_by_customer");
+    }
+  }
+  return null;
+};
+
+/** The coupon behind a code, if it applies right now; throws PromotionError otherwise. */
+export const checkCoupon = (
+  code: string,
+  subtotal: number,
+  context: PromotionContext = {},
+  promotions: readonly Promotion[] = PROMOTIONS,
+): Promotion => {
+  const wanted = normalizeCode(code);
+  const promotion = wanted ? promotions.find((p) => p.code === wanted) : undefined;
+  if (!promotion) throw new PromotionError("That code isn't valid.", "unknown_code");
+
+  const problem = getIneligibility(promotion, subtotal, context);
+  if (problem) throw problem;
+  return promotion;
+};
+
+/** The sign-up offer, while it's running — for "create an account" prompts. */
+export const getWelcomeOffer = (now: Date = new Date(), promotions: readonly Promotion[] = PROMOTIONS) =>
+  promotions.find(
+    (p) =>
+      p.firstOrderOnly &&
+      !p.code &&
+      (!p.startsAt || now.getTime() >= Date.parse(p.startsAt)) &&
+      (!p.endsAt || now.getTime() <= Date.parse(p.endsAt)),
+  );
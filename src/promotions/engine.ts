@@ -0,0 +1,206 @@
+// src/promotions/engine.ts
+
+import { getProductById } from "../catalog";
+import type { CartItem } from "../context/CartContext";
+import { getIneligibility, normalizeCode } from "./eligibility";
+import { getFlashOffer } from "./flashSales";
+import { PROMOTIONS } from "./offers";
+import type {
+  AppliedPromotion,
+  CartPricing,
+  Promotion,
+  PromotionContext,
+  PromotionRule,
+  PromotionScope,
+} from "./types";
+
+type PricedItem = Pick<CartItem, "id" | "price" | "quantity">;
+
+/** Line id → KES still payable on it, after earlier promotions. */
+type Remaining = Map<string, number>;
+
+/** Line id → KES a promotion takes off it. */
+type Allocation = Map<string, number>;
+
+/* ---------------------------------------------------------------
+   Scope
+--------------------------------------------------------------- */
+const inScope = (item: PricedItem, scope?: PromotionScope): boolean => {
+  if (!scope?.productIds && !scope?.categories) return true;
+  if (scope.productIds?.includes(item.id)) return true;
+  const category = getProductById(item.id)?.category;
+  return !!category && !!scope.categories?.includes(category);
+};
+
+/** Whole-cart offers go last so they discount what the targeted ones leave. */
+const rank = (rule: PromotionRule): number => {
+  switch (rule.type) {
+    case "bundle":
+      return 0;
+    case "buy-x-get-y":
+      return 1;
+    default:
+      return rule.scope ? 2 : 3;
+  }
+};
+
+/** Splits `amount` across lines in proportion to their weights, in whole shillings. */
+const spread = (amount: number, weights: [string, number][]): Allocation => {
+  const allocation: Allocation = new Map();
+  const total = weights.reduce((sum, [, w]) => sum + w, 0);
+  if (total <= 0 || amount <= 0) return allocation;
+  let left = amount;
+  weights.forEach(([id, weight], index) => {
+    const share = index === weights.length - 1 ? left : Math.round((amount * weight) / total);
+    allocation.set(id, (allocation.get(id) ?? 0) + share);
+    left -= share;
+  });
+  return allocation;
+};
+
+/* ---------------------------------------------------------------
+   Rules — each works on what's still payable per line
+--------------------------------------------------------------- */
+const allocate = (rule: PromotionRule, items: readonly PricedItem[], remaining: Remaining): Allocation => {
+  switch (rule.type) {
+    case "percent": {
+      const allocation: Allocation = new Map();
+      let budget = rule.maxDiscount ?? Infinity;
+      for (const item of items) {
+        if (!inScope(item, rule.scope)) continue;
+        const off = Math.min(budget, Math.round(((remaining.get(item.id) ?? 0) * rule.percent) / 100));
+        if (off <= 0) continue;
+        allocation.set(item.id, off);
+        budget -= off;
+      }
+      return allocation;
+    }
+
+    case "fixed": {
+      const weights = items
+        .filter((item) => inScope(item, rule.scope))
+        .map((item): [string, number] => [item.id, remaining.get(item.id) ?? 0]);
+      const base = weights.reduce((sum, [, w]) => sum + w, 0);
+      return spread(Math.min(rule.amount, base), weights);
+    }
+
+    case "buy-x-get-y": {
+      // Dearest units first; in each group of buy + get, the last `get` go free
+      const units = items
+        .filter((item) => inScope(item, rule.scope))
+        .flatMap((item) =>
+          Array.from({ length: item.quantity }, () => ({
+            id: item.id,
+            value: (remaining.get(item.id) ?? 0) / item.quantity,
+          })),
+        )
+        .sort((a, b) => b.value - a.value);
+      const size = rule.buy + rule.get;
+      const allocation: Allocation = new Map();
+      for (let start = 0; start + size <= units.length; start += size) {
+        for (const unit of units.slice(start + rule.buy, start + size)) {
+          allocation.set(unit.id, (allocation.get(unit.id) ?? 0) + unit.value);
+        }
+      }
+      allocation.forEach((value, id) => allocation.set(id, Math.round(value)));
+      return allocation;
+    }
+
+    case "bundle": {
+      const lines = rule.productIds.map((id) => items.find((item) => item.id === id));
+      if (lines.some((line) => !line)) return new Map();
+      const present = lines as PricedItem[];
+      const sets = Math.min(...present.map((line) => line.quantity));
+      const unitValues = present.map((line): [string, number] => [
+        line.id,
+        (remaining.get(line.id) ?? 0) / line.quantity,
+      ]);
+      const saving = unitValues.reduce((sum, [, value]) => sum + value, 0) - rule.price;
+      return saving > 0 ? spread(Math.round(saving * sets), unitValues) : new Map();
+    }
+  }
+};
+
+/* ---------------------------------------------------------------
+   Flash sales — sale price on as many units as are left for this
+   customer; the rest of the line stays at the catalog price
+--------------------------------------------------------------- */
+const applyFlashSales = (
+  items: readonly PricedItem[],
+  context: PromotionContext,
+  remaining: Remaining,
+): AppliedPromotion[] => {
+  const bySale = new Map<string, AppliedPromotion>();
+  for (const item of items) {
+    const offer = getFlashOffer(item.id, context);
+    if (!offer || offer.available <= 0 || offer.price >= item.price) continue;
+
+    const units = Math.min(item.quantity, offer.available);
+    const off = units * (item.price - offer.price);
+    remaining.set(item.id, (remaining.get(item.id) ?? 0) - off);
+
+    const applied = bySale.get(offer.sale.id) ?? {
+      promotionId: offer.sale.id,
+      label: offer.sale.name,
+      amount: 0,
+      units: {},
+    };
+    applied.amount += off;
+    applied.units = { ...applied.units, [item.id]: units };
+    bySale.set(offer.sale.id, applied);
+  }
+  return [...bySale.values()];
+};
+
+/* ---------------------------------------------------------------
+   Cart pricing
+--------------------------------------------------------------- */
+
+/**
+ * Applies live flash sales, then every promotion the customer
+ * qualifies for — automatic ones plus any whose code they've
+ * entered — and returns the discounts line by line. Codes that don't apply are skipped here;
+ * use checkCoupon to tell the customer why.
+ */
+export const priceCart = (
+  items: readonly PricedItem[],
+  { codes = [], ...context }: PromotionContext & { codes?: readonly string[] } = {},
+  promotions: readonly Promotion[] = PROMOTIONS,
+): CartPricing => {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const entered = new Set(codes.map(normalizeCode));
+  const remaining: Remaining = new Map(items.map((item) => [item.id, item.price * item.quantity]));
+  const discounts = applyFlashSales(items, context, remaining);
+  const lineDiscounts: Record<string, number> = {};
+  for (const item of items) {
+    const off = item.price * item.quantity - (remaining.get(item.id) ?? 0);
+    if (off > 0) lineDiscounts[item.id] = off;
+  }
+
+  const active = promotions
+    .filter((p) => (!p.code || entered.has(p.code)) && !getIneligibility(p, subtotal, context))
+    .sort((a, b) => rank(a.rule) - rank(b.rule));
+
+  for (const promotion of active) {
+    let amount = 0;
+    allocate(promotion.rule, items, remaining).forEach((off, id) => {
+      // Never more than what's left on the line
+      const applied = Math.min(off, remaining.get(id) ?? 0);
+      if (applied <= 0) return;
+      remaining.set(id, (remaining.get(id) ?? 0) - applied);
+      lineDiscounts[id] = (lineDiscounts[id] ?? 0) + applied;
+      amount += applied;
+    });
+    if (amount > 0) {
+      discounts.push({
+        promotionId: promotion.id,
+        label: promotion.label,
+        ...(promotion.code && { code: promotion.code }),
+        amount,
+      });
+    }
+  }
+
+  const discountTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+  return { subtotal, discounts, discountTotal, total: subtotal - discountTotal, lineDiscounts };
+};
@@ -0,0 +1,99 @@
+// src/promotions/flashSales.ts
+
+import { getRedemptions, unitKey } from "./redemptions";
+import type { FlashOffer, FlashSale, FlashSaleStatus, PromotionContext } from "./types";
+
+/* ---------------------------------------------------------------
+   Campaigns — a sale price only holds between startsAt and endsAt,
+   and only for the units left; after that the catalog price is
+   back without anyone touching the data
+--------------------------------------------------------------- */
+export const FLASH_SALES: readonly FlashSale[] = [
+  {
+    id: "flash-everyday-relief",
+    name: "Everyday relief flash sale",
+    startsAt: "2026-10-17T08:00:00+03:00",
+    endsAt: "2026-10-26T20:00:00+03:00",
+    items: [
+      { productId: "paracetamol-headache-relief", price: 60, quantity: 200, perCustomer: 4 },
+      { productId: "benyllin-cough-syrup", price: 790, quantity: 60, perCustomer: 2 },
+      { productId: "allergy-relief", price: 280, quantity: 80, perCustomer: 2 },
+    ],
+  },
+  {
+    id: "flash-beauty-friday",
+    name: "Beauty flash Friday",
+    startsAt: "2026-10-23T09:00:00+03:00",
+    endsAt: "2026-10-23T21:00:00+03:00",
+    items: [
+      { productId: "fenty-beauty-gloss-bomb-universal-lip-luminizer", price: 1990, quantity: 25, perCustomer: 1 },
+      { productId: "maybelline-fit-me-matte-plus-poreless-foundation", price: 1050, quantity: 40, perCustomer: 2 },
+      { productId: "cerave-hydrating-cleanser-236ml", price: 1390, quantity: 50, perCustomer: 2 },
+    ],
+  },
+  {
+    id: "flash-black-friday-care",
+    name: "Black Friday home care",
+    startsAt: "2026-11-27T00:00:00+03:00",
+    endsAt: "2026-11-28T23:59:59+03:00",
+    items: [
+      { productId: "bp-omron-001", price: 4400, quantity: 10, perCustomer: 1 },
+      { productId: "glucometer-001", price: 1750, quantity: 20, perCustomer: 1 },
+    ],
+  },
+];
+
+export const getSaleStatus = (sale: FlashSale, now: Date = new Date()): FlashSaleStatus => {
+  const time = now.getTime();
+  if (time < Date.parse(sale.startsAt)) return "upcoming";
+  return time > Date.parse(sale.endsAt) ? "ended" : "live";
+};
+
+export const getLiveFlashSales = (now: Date = new Date(), sales: readonly FlashSale[] = FLASH_SALES): FlashSale[] =>
+  sales.filter((sale) => getSaleStatus(sale, now) === "live");
+
+/** The soonest campaign still to start, for "starts in" teasers. */
+export const getNextFlashSale = (now: Date = new Date(), sales: readonly FlashSale[] = FLASH_SALES) =>
+  sales
+    .filter((sale) => getSaleStatus(sale, now) === "upcoming")
+    .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt))[0];
+
+/**
+ * A product's live sale price, with what's left of it overall and for
+ * this customer. Null outside a campaign; a sold-out offer comes back
+ * with `remaining: 0` so cards can say so.
+ */
+export const getFlashOffer = (
+  productId: string,
+  { now = new Date(), accountId }: PromotionContext = {},
+  sales: readonly FlashSale[] = FLASH_SALES,
+): FlashOffer | null => {
+  for (const sale of getLiveFlashSales(now, sales)) {
+    const item = sale.items.find((i) => i.productId === productId);
+    if (!item) continue;
+
+    const { total, mine } = getRedemptions(unitKey(sale.id, productId), accountId);
+    const remaining = Math.max(0, item.quantity - total);
+    const allowance = item.perCustomer === undefined ? remaining : Math.max(0, item.perCustomer - mine);
+    return { sale, price: item.price, remaining, available: Math.min(remaining, allowance) };
+  }
+  return null;
+};
+
+/** "2d 04:13:09", or "04:13:09" inside the last day. */
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(seconds / 86400);
+  const clock = [Math.floor(seconds / 3600) % 24, Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+  return days ? `${days}d ${clock}` : clock;
+};
+
+/** When the next campaign starts or ends (epoch ms), so prices can be re-worked right then. */
+export const getNextSaleChange = (now: Date = new Date(), sales: readonly FlashSale[] = FLASH_SALES) => {
+  const upcoming = sales
+    .flatMap((sale) => [Date.parse(sale.startsAt), Date.parse(sale.endsAt)])
+    .filter((time) => time > now.getTime());
+  return upcoming.length ? Math.min(...upcoming) : undefined;
+};
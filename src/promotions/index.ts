@@ -0,0 +1,30 @@
+// src/promotions/index.ts — cart promotions: offers, flash sales, coupon codes and the pricing engine
+
+export type {
+  AppliedPromotion,
+  CartPricing,
+  FlashOffer,
+  FlashSale,
+  FlashSaleItem,
+  FlashSaleStatus,
+  Promotion,
+  PromotionContext,
+  PromotionRule,
+  PromotionScope,
+} from "./types";
+
+export { PromotionError } from "./types";
+export { checkCoupon, getIneligibility, getWelcomeOffer, normalizeCode } from "./eligibility";
+export { priceCart } from "./engine";
+export {
+  FLASH_SALES,
+  formatCountdown,
+  getFlashOffer,
+  getLiveFlashSales,
+  getNextFlashSale,
+  getNextSaleChange,
+  getSaleStatus,
+} from "./flashSales";
+export { PROMOTIONS } from "./offers";
+export { getRedemptions, recordRedemptions, REDEMPTIONS_KEY, unitKey } from "./redemptions";
+export { useFlashSaleClock } from "./useFlashSaleClock";
@@ -0,0 +1,55 @@
+// src/promotions/offers.ts
+
+import { formatPrice } from "../config";
+import type { Promotion } from "./types";
+
+/* ---------------------------------------------------------------
+   Running promotions. The engine applies bundles first, then
+   multibuys, then category/product offers, then whole-cart ones;
+   coupon-only offers carry a `code`.
+--------------------------------------------------------------- */
+export const PROMOTIONS: readonly Promotion[] = [
+  {
+    id: "welcome-10",
+    label: "Welcome offer: 10% off your first order",
+    summary: "10% off your first order",
+    rule: { type: "percent", percent: 10, maxDiscount: 1500 },
+    firstOrderOnly: true,
+  },
+  {
+    id: "glucose-kit-bundle",
+    label: "Glucose meter + lancets bundle",
+    rule: { type: "bundle", productIds: ["onetouch-select-plus-glucometer-kit", "accu-chek-softclix-lancets-100s"], price: 5600 },
+  },
+  {
+    id: "vitamins-3-for-2",
+    label: "Vitamins: buy 2, get 1 free",
+    rule: { type: "buy-x-get-y", buy: 2, get: 1, scope: { categories: ["vitamins-supplements"] } },
+    endsAt: "2026-12-31T23:59:59+03:00",
+  },
+  {
+    id: "beauty-week-15",
+    label: "Beauty week: 15% off beauty & skin care",
+    rule: { type: "percent", percent: 15, scope: { categories: ["beauty-care-cosmetics", "skin-care"] } },
+    startsAt: "2026-10-15T00:00:00+03:00",
+    endsAt: "2026-10-31T23:59:59+03:00",
+  },
+  {
+    id: "karibu-200",
+    label: `KARIBU200: ${formatPrice(200)} off`,
+    rule: { type: "fixed", amount: 200 },
+    code: "KARIBU200",
+    minSubtotal: 2000,
+    usageLimit: 500,
+    perCustomerLimit: 1,
+    endsAt: "2026-12-31T23:59:59+03:00",
+  },
+  {
+    id: "care-at-home-10",
+    label: "CAREHOME10: 10% off medical equipment",
+    rule: { type: "percent", percent: 10, scope: { categories: ["equipment", "home-healthcare"] }, maxDiscount: 5000 },
+    code: "CAREHOME10",
+    usageLimit: 100,
+    perCustomerLimit: 2,
+  },
+];
@@ -0,0 +1,81 @@
+// src/promotions/redemptions.ts
+
+import type { AppliedPromotion } from "./types";
+
+/* ---------------------------------------------------------------
+   Redemption tally — how often each promotion has been used, in
+   total and per account, for usage limits. Guests are counted per
+   device, so signing out doesn't reset a per-customer cap. Flash
+   sales also count units per product, under "<promotion id>:<product
+   id>". Kept in localStorage until promotions are checked by the
+   pharmacy backend.
+--------------------------------------------------------------- */
+interface Tally {
+  total: number;
+  /** Keyed by account id, or "guest:…" for a signed-out device */
+  byAccount: Record<string, number>;
+}
+
+export const REDEMPTIONS_KEY = "promotion_redemptions_v1"; // bump version if shape changes
+const GUEST_KEY = "promotion_guest_id_v1";
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+const readTallies = (): Record<string, Tally> => {
+  try {
+    const raw = defaultStorage()?.getItem(REDEMPTIONS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, Tally>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Who a redemption counts against: the account, or this device for a guest. */
+const getCustomerKey = (accountId?: string): string | undefined => {
+  if (accountId) return accountId;
+  const storage = defaultStorage();
+  if (!storage) return undefined;
+  try {
+    let guestId = storage.getItem(GUEST_KEY);
+    if (!guestId) {
+      guestId = `guest:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+      storage.setItem(GUEST_KEY, guestId);
+    }
+    return guestId;
+  } catch {
+    return undefined;
+  }
+};
+
+export const unitKey = (promotionId: string, productId: string): string => `${promotionId}:${productId}`;
+
+export const getRedemptions = (key: string, accountId?: string): { total: number; mine: number } => {
+  const tally = readTallies()[key];
+  const customer = getCustomerKey(accountId);
+  return { total: tally?.total ?? 0, mine: (customer && tally?.byAccount[customer]) || 0 };
+};
+
+/** Counts one use of each promotion on a placed order, plus any sale units. */
+export const recordRedemptions = (discounts: readonly AppliedPromotion[], accountId?: string): void => {
+  const tallies = readTallies();
+  const customer = getCustomerKey(accountId);
+  const add = (key: string, count: number) => {
+    const tally = tallies[key] ?? { total: 0, byAccount: {} };
+    tally.total += count;
+    if (customer) tally.byAccount[customer] = (tally.byAccount[customer] ?? 0) + count;
+    tallies[key] = tally;
+  };
+
+  for (const discount of discounts) {
+    add(discount.promotionId, 1);
+    for (const [productId, units] of Object.entries(discount.units ?? {})) {
+      add(unitKey(discount.promotionId, productId), units);
+    }
+  }
+  try {
+    defaultStorage()?.setItem(REDEMPTIONS_KEY, JSON.stringify(tallies));
+  } catch (err) {
+    console.warn("Promotions: couldn't save redemptions", err);
+  }
+};
@@ -0,0 +1,121 @@
+// src/promotions/types.ts
+
+import type { CategoryId } from "../catalog/types";
+
+/* ---------------------------------------------------------------
+   Promotions — discounts worked out on the cart, on top of the
+   catalog's own sale prices
+--------------------------------------------------------------- */
+
+/** Which lines a rule looks at; leave both out for the whole cart. */
+export interface PromotionScope {
+  productIds?: readonly string[];
+  categories?: readonly CategoryId[];
+}
+
+export type PromotionRule =
+  /** Percentage off the lines in scope, optionally capped (KES) */
+  | { type: "percent"; percent: number; scope?: PromotionScope; maxDiscount?: number }
+  /** Fixed KES off the lines in scope, spread across them */
+  | { type: "fixed"; amount: number; scope?: PromotionScope }
+  /** For every `buy` units in scope, the next `get` cheapest are free */
+  | { type: "buy-x-get-y"; buy: number; get: number; scope: PromotionScope }
+  /** One of each product together for a set price (KES) */
+  | { type: "bundle"; productIds: readonly string[]; price: number };
+
+export interface Promotion {
+  id: string;
+  /** Shown in the cart breakdown, e.g. "Vitamins: buy 2, get 1 free" */
+  label: string;
+  /** Short line for prompts and banners, e.g. "10% off your first order" */
+  summary?: string;
+  rule: PromotionRule;
+  /** Coupon code that unlocks it; automatic when left out */
+  code?: string;
+  /** ISO timestamps bounding when it applies */
+  startsAt?: string;
+  endsAt?: string;
+  /** Cart subtotal (KES) needed before it applies */
+  minSubtotal?: number;
+  /** Only for signed-in customers who haven't ordered before */
+  firstOrderOnly?: boolean;
+  /** Redemptions across all customers */
+  usageLimit?: number;
+  perCustomerLimit?: number;
+}
+
+/* ---------------------------------------------------------------
+   Flash sales — short campaigns with a sale price per product,
+   limited stock and a cap on how many one customer can take
+--------------------------------------------------------------- */
+export interface FlashSaleItem {
+  productId: string;
+  /** KES, instead of the catalog price */
+  price: number;
+  /** Units on sale across all customers */
+  quantity: number;
+  /** Most units one customer gets at the sale price */
+  perCustomer?: number;
+}
+
+export interface FlashSale {
+  id: string;
+  name: string;
+  /** ISO timestamps */
+  startsAt: string;
+  endsAt: string;
+  items: readonly FlashSaleItem[];
+}
+
+export type FlashSaleStatus = "upcoming" | "live" | "ended";
+
+/** A product's live sale price for one customer. */
+export interface FlashOffer {
+  sale: FlashSale;
+  price: number;
+  /** Sale units left for everyone */
+  remaining: number;
+  /** Units this customer can still get at the sale price */
+  available: number;
+}
+
+/* ---------------------------------------------------------------
+   Pricing — what the engine hands back
+--------------------------------------------------------------- */
+export interface AppliedPromotion {
+  promotionId: string;
+  label: string;
+  code?: string;
+  /** KES taken off, across all lines */
+  amount: number;
+  /** Product id → sale units used, for offers with limited stock */
+  units?: Record<string, number>;
+}
+
+export interface CartPricing {
+  subtotal: number;
+  discounts: AppliedPromotion[];
+  discountTotal: number;
+  /** Subtotal less discounts, before delivery */
+  total: number;
+  /** Line id → KES off that line, for lines with a discount */
+  lineDiscounts: Record<string, number>;
+}
+
+/** Who is buying and when — decides which promotions are open to them. */
+export interface PromotionContext {
+  now?: Date;
+  accountId?: string;
+  /** Signed in with no orders yet */
+  firstOrder?: boolean;
+}
+
+export class PromotionError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = "promotion_error") {
+    super(message);
+    this.name = "PromotionError";
+    this.code = code;
+  }
+}
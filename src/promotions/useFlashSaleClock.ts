@@ -0,0 +1,25 @@
+// src/promotions/useFlashSaleClock.ts
+
+import { useEffect, useState } from "react";
+import { getLiveFlashSales, getNextSaleChange } from "./flashSales";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * The current time for flash-sale cards: ticks every second while a
+ * sale is live or about to start, so countdowns run and prices revert
+ * the moment a sale ends; once a minute otherwise.
+ */
+export const useFlashSaleClock = (): Date => {
+  const [now, setNow] = useState(() => new Date());
+  const next = getNextSaleChange(now);
+  const busy = getLiveFlashSales(now).length > 0 || (next !== undefined && next - now.getTime() < 60 * MINUTE);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), busy ? SECOND : MINUTE);
+    return () => window.clearInterval(timer);
+  }, [busy]);
+
+  return now;
+};
@@ -0,0 +1,43 @@
+// src/refills/http.ts
+
+import type { NotificationScheduler, RefillReminder } from "./types";
+
+/* ---------------------------------------------------------------
+   Backend scheduler — the server sends the reminders (SMS or
+   push), so they arrive with the app closed
+
+     PUT {baseUrl}/reminders   { reminders: RefillReminder[] }
+       204 — replaces the customer's pending refill reminders
+
+   The customer is identified by their session cookie.
+--------------------------------------------------------------- */
+export interface HttpSchedulerConfig {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export const createHttpScheduler = ({
+  baseUrl,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+}: HttpSchedulerConfig): NotificationScheduler => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/reminders`;
+
+  return {
+    name: "http",
+
+    async sync(reminders: RefillReminder[]) {
+      try {
+        const res = await fetchImpl(endpoint, {
+          method: "PUT",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reminders }),
+        });
+        if (!res.ok) console.warn(`Refill reminders: sync failed (${res.status})`);
+      } catch (err) {
+        // The next change to the list syncs again
+        console.warn("Refill reminders: sync failed", err);
+      }
+    },
+  };
+};
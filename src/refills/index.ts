@@ -0,0 +1,21 @@
+// src/refills/index.ts — repeat medicines: refill dates, reminders, notification scheduling
+
+export type { NotificationScheduler, RefillReminder, RefillStatus, RepeatMedication } from "./types";
+export type { HttpSchedulerConfig } from "./http";
+export type { MockSchedulerOptions } from "./mock";
+
+export {
+  DEFAULT_DAYS_SUPPLY,
+  formatRefillDate,
+  getDaysUntilRefill,
+  getNextRefillDate,
+  getRefillStatus,
+  MAX_DAYS_SUPPLY,
+  MAX_REFILL_QUANTITY,
+  planReminders,
+  REMINDER_LEAD_DAYS,
+  toDateKey,
+} from "./schedule";
+export { createHttpScheduler } from "./http";
+export { createMockScheduler } from "./mock";
+export { getNotificationScheduler, setNotificationScheduler } from "./scheduler";
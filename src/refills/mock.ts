@@ -0,0 +1,78 @@
+// src/refills/mock.ts
+
+import type { NotificationScheduler, RefillReminder } from "./types";
+
+/* ---------------------------------------------------------------
+   Local mock scheduler — delivers reminders inside the app
+
+   Reminders that come due while a tab is open fire on a timer;
+   ones that came due while the app was closed fire on the next
+   visit. Delivered ids are remembered so a reminder shows once,
+   not on every page load.
+--------------------------------------------------------------- */
+export interface MockSchedulerOptions {
+  /** Defaults to window.localStorage when there is one */
+  storage?: Pick<Storage, "getItem" | "setItem">;
+  now?: () => number;
+}
+
+export const DELIVERED_STORAGE_KEY = "refill_reminders_delivered_v1";
+
+/** Longest delay setTimeout handles; later reminders wait for a later visit. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const MAX_REMEMBERED = 50;
+
+const defaultStorage = () => (typeof localStorage === "undefined" ? undefined : localStorage);
+
+export const createMockScheduler = ({
+  storage = defaultStorage(),
+  now = Date.now,
+}: MockSchedulerOptions = {}): NotificationScheduler => {
+  const listeners = new Set<(reminder: RefillReminder) => void>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const readDelivered = (): string[] => {
+    try {
+      const parsed: unknown = JSON.parse(storage?.getItem(DELIVERED_STORAGE_KEY) ?? "[]");
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const deliver = (reminder: RefillReminder) => {
+    timers.delete(reminder.id);
+    const delivered = readDelivered();
+    if (delivered.includes(reminder.id)) return;
+    try {
+      storage?.setItem(DELIVERED_STORAGE_KEY, JSON.stringify([...delivered, reminder.id].slice(-MAX_REMEMBERED)));
+    } catch {
+      // Not remembered — it may show again next visit
+    }
+    listeners.forEach((listener) => listener(reminder));
+  };
+
+  return {
+    name: "mock",
+
+    async sync(reminders: RefillReminder[]) {
+      timers.forEach(clearTimeout);
+      timers.clear();
+
+      const delivered = readDelivered();
+      for (const reminder of reminders) {
+        if (delivered.includes(reminder.id)) continue;
+        const delay = Date.parse(reminder.remindAt) - now();
+        if (delay > MAX_TIMER_MS) continue;
+        timers.set(reminder.id, setTimeout(() => deliver(reminder), Math.max(0, delay)));
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
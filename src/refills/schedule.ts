@@ -0,0 +1,89 @@
+// src/refills/schedule.ts
+
+import { getProductById } from "../catalog";
+import type { RefillReminder, RefillStatus, RepeatMedication } from "./types";
+
+/* ---------------------------------------------------------------
+   Refill dates
+
+   A medicine runs out daysSupply days after its last refill. We
+   remind REMINDER_LEAD_DAYS before that, at REMINDER_HOUR local
+   time, which leaves room for a pharmacist review and delivery.
+   Dates are local calendar days, so "runs out on Tuesday" means
+   the customer's Tuesday.
+--------------------------------------------------------------- */
+export const REMINDER_LEAD_DAYS = 3;
+export const REMINDER_HOUR = 9;
+export const DEFAULT_DAYS_SUPPLY = 30;
+export const MAX_DAYS_SUPPLY = 180;
+export const MAX_REFILL_QUANTITY = 12;
+
+const DAY_MS = 86_400_000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+/** YYYY-MM-DD in local time. */
+export const toDateKey = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/** Parses YYYY-MM-DD as a local date; full ISO timestamps work too. */
+export const fromDateKey = (key: string): Date => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : startOfDay(new Date(key));
+};
+
+export const getNextRefillDate = (med: RepeatMedication): Date =>
+  addDays(fromDateKey(med.lastFilledAt), med.daysSupply);
+
+/** Whole days until it runs out; negative once overdue. */
+export const getDaysUntilRefill = (med: RepeatMedication, now: Date = new Date()): number =>
+  // Rounding absorbs the odd 23- or 25-hour day
+  Math.round((getNextRefillDate(med).getTime() - startOfDay(now).getTime()) / DAY_MS);
+
+export const getRefillStatus = (med: RepeatMedication, now: Date = new Date()): RefillStatus => {
+  const days = getDaysUntilRefill(med, now);
+  return days < 0 ? "overdue" : days <= REMINDER_LEAD_DAYS ? "due" : "ok";
+};
+
+const dayFormat = new Intl.DateTimeFormat("en-KE", { weekday: "short", day: "numeric", month: "short" });
+
+export const formatRefillDate = (d: Date): string => dayFormat.format(d);
+
+const describe = (productIds: string[]) => {
+  const names = productIds.map((id) => getProductById(id)?.name ?? "A repeat medicine");
+  return names.length === 1 ? names[0] : `${names[0]} and ${names.length - 1} more`;
+};
+
+/** One reminder per run-out day, skipping medicines the catalog no longer has. */
+export const planReminders = (medications: RepeatMedication[], now: Date = new Date()): RefillReminder[] => {
+  const today = startOfDay(now).getTime();
+  const byDate = new Map<string, string[]>();
+  for (const med of medications) {
+    if (!getProductById(med.productId)) continue;
+    const key = toDateKey(getNextRefillDate(med));
+    byDate.set(key, [...(byDate.get(key) ?? []), med.productId]);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([refillDate, productIds]) => {
+      const runsOut = fromDateKey(refillDate);
+      const remindAt = addDays(runsOut, -REMINDER_LEAD_DAYS);
+      remindAt.setHours(REMINDER_HOUR);
+      const many = productIds.length > 1;
+      const when =
+        runsOut.getTime() < today
+          ? `ran out on ${formatRefillDate(runsOut)}. Reorder now so you don't miss doses.`
+          : `${many ? "run" : "runs"} out on ${formatRefillDate(runsOut)}. Reorder now to avoid a gap.`;
+      return {
+        id: `refill_${refillDate}`,
+        remindAt: remindAt.toISOString(),
+        refillDate,
+        productIds,
+        title: "Time to reorder",
+        body: `${describe(productIds)} ${when}`,
+      };
+    });
+};
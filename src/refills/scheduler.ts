@@ -0,0 +1,26 @@
+// src/refills/scheduler.ts
+
+import { createHttpScheduler } from "./http";
+import { createMockScheduler } from "./mock";
+import type { NotificationScheduler } from "./types";
+
+/* ---------------------------------------------------------------
+   Default scheduler — the backend when one is configured,
+   otherwise the in-app mock so reminders work in development.
+
+     VITE_REMINDER_API_URL   backend root for /reminders
+--------------------------------------------------------------- */
+let scheduler: NotificationScheduler | null = null;
+
+export const getNotificationScheduler = (): NotificationScheduler => {
+  if (!scheduler) {
+    const baseUrl = import.meta.env.VITE_REMINDER_API_URL as string | undefined;
+    scheduler = baseUrl ? createHttpScheduler({ baseUrl }) : createMockScheduler();
+  }
+  return scheduler;
+};
+
+/** Swap the scheduler, e.g. for a mock with a fixed clock. */
+export const setNotificationScheduler = (next: NotificationScheduler): void => {
+  scheduler = next;
+};
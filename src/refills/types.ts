@@ -0,0 +1,49 @@
+// src/refills/types.ts
+
+/* ---------------------------------------------------------------
+   Repeat medication — something taken every day that runs out
+   on a predictable date
+--------------------------------------------------------------- */
+export interface RepeatMedication {
+  productId: string;
+  /** Packs bought each refill */
+  quantity: number;
+  /** Days one refill (all `quantity` packs) lasts */
+  daysSupply: number;
+  /** ISO date of the last refill; the supply counts down from here */
+  lastFilledAt: string;
+}
+
+/**
+ *   ok       — plenty left
+ *   due      — runs out within the reminder lead time
+ *   overdue  — should already have run out
+ */
+export type RefillStatus = "ok" | "due" | "overdue";
+
+/* ---------------------------------------------------------------
+   Reminders
+--------------------------------------------------------------- */
+export interface RefillReminder {
+  /** refill_<YYYY-MM-DD>; medicines running out the same day share one */
+  id: string;
+  /** ISO timestamp to deliver at */
+  remindAt: string;
+  /** YYYY-MM-DD the medicines run out */
+  refillDate: string;
+  productIds: string[];
+  title: string;
+  body: string;
+}
+
+/**
+ * Delivers reminders at their time. The mock shows them in the app;
+ * a backend would send an SMS or push message instead.
+ */
+export interface NotificationScheduler {
+  readonly name: string;
+  /** Replaces every pending reminder with these. */
+  sync(reminders: RefillReminder[]): Promise<void>;
+  /** Only for schedulers that deliver inside the app; returns an unsubscribe. */
+  subscribe?(listener: (reminder: RefillReminder) => void): () => void;
+}
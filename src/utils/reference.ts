@@ -0,0 +1,20 @@
+// src/utils/reference.ts
+
+/* ---------------------------------------------------------------
+   Human-friendly references — PREFIX-YYMMDD-XXXX
+   (date + 4 random base-36 chars)
+--------------------------------------------------------------- */
+const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const randomSuffix = (length: number): string => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => ALPHABET[b % ALPHABET.length]).join("");
+};
+
+export const generateReference = (prefix: string, date: Date = new Date()): string => {
+  const yy = String(date.getFullYear()).slice(-2);
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${prefix}-${yy}${mm}${dd}-${randomSuffix(4)}`;
+};
@@ -1,79 +1,210 @@
 // src/utils/whatsappOrder.ts
 
+import { formatPrice, STORE, whatsappUrl } from "../config";
 import type { CartItem } from "../context/CartContext";
+import { describeFulfilment, getPaymentLabel, type Order } from "../checkout";
+import { describeCharges, formatWindow, type DeliveryCharge } from "../delivery";
+import { getPrescriptionReferences } from "../prescriptions";
 
 /* ---------------------------------------------------------------
    WhatsApp Business Configuration
 --------------------------------------------------------------- */
 const WHATSAPP_CONFIG = {
-  // ✅ Kenya number (no "+" or spaces)
-  phoneNumber: "254796787207",
+  // ✅ Number and name come from the store profile (src/config)
+  phoneNumber: STORE.whatsapp,
 
   greeting: "Hello! 👋",
-  storeName: "Healthfield Pharmacy",
+  storeName: STORE.name,
+
+  // wa.me links much longer than this get truncated or rejected by
+  // some browsers and the WhatsApp desktop app
+  maxUrlLength: 2000,
 } as const;
 
+const DIVIDER = "━━━━━━━━━━━━━━━━━━━━";
+
 /* ---------------------------------------------------------------
-   Helper: Currency Formatter
+   Order details carried in the message — everything but items
+   is optional so a bare cart can still be sent
 --------------------------------------------------------------- */
-const formatPrice = (amount: number): string =>
-  new Intl.NumberFormat("en-KE", {
-    style: "currency",
-    currency: "KES",
-    minimumFractionDigits: 0,
-  }).format(amount);
+export interface WhatsAppOrderDetails {
+  /** Order number, e.g. HF-261019-AB12 */
+  reference?: string;
+  customer?: { name?: string; phone?: string };
+  fulfilment?: { method: "delivery" | "pickup"; location: string; slot?: string; eta?: string };
+  deliveryFee?: number;
+  /** Breakdown of the delivery fee, listed when there's more than the base charge */
+  deliveryCharges?: DeliveryCharge[];
+  discounts?: { label: string; amount: number }[];
+  /** Human label, e.g. "M-Pesa" or "M-Pesa (paid, QK12AB34CD)" */
+  payment?: string;
+  /** Upload / submission references for attached prescriptions */
+  prescriptions?: string[];
+  notes?: string;
+  /** Where staff can see the full order if the message has to be shortened */
+  lookupUrl?: string;
+}
+
+/* ---------------------------------------------------------------
+   Message layout
+
+   Sections always appear in this order with a *TITLE* line, and
+   every detail is a "Label: value" line, so the team can scan or
+   script against it:
+
+     *ORDER*  *CUSTOMER*  *DELIVERY|PICKUP*  *ITEMS*  *TOTALS*
+     *PAYMENT*  *PRESCRIPTIONS*  *NOTES*
+--------------------------------------------------------------- */
+const section = (title: string, lines: (string | false | undefined)[]): string[] => {
+  const body = lines.filter((l): l is string => Boolean(l));
+  return body.length ? ["", `*${title}*`, ...body] : [];
+};
+
+const itemLine = (item: CartItem, index: number): string =>
+  `${index + 1}. ${item.name}${item.variation ? ` (${item.variation})` : ""} [${item.id}]` +
+  `${item.requiresPrescription ? " (Rx)" : ""} — ` +
+  `${item.quantity} × ${formatPrice(item.price)} = ${formatPrice(item.price * item.quantity)}`;
+
+const computeTotals = (cartItems: CartItem[], details: WhatsAppOrderDetails) => {
+  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const discount = (details.discounts ?? []).reduce((sum, d) => sum + d.amount, 0);
+  const fee = details.deliveryFee ?? 0;
+  return {
+    subtotal,
+    total: Math.max(0, subtotal - discount) + fee,
+    itemCount: cartItems.reduce((sum, item) => sum + item.quantity, 0),
+  };
+};
+
+const headerLines = (details: WhatsAppOrderDetails): string[] => [
+  WHATSAPP_CONFIG.greeting,
+  `I'd like to place an order from *${WHATSAPP_CONFIG.storeName}*.`,
+  "",
+  DIVIDER,
+  ...section("ORDER", [details.reference && `Ref: ${details.reference}`]),
+  ...section("CUSTOMER", [
+    details.customer?.name && `Name: ${details.customer.name}`,
+    details.customer?.phone && `Phone: ${details.customer.phone}`,
+  ]),
+];
+
+const FOOTER = ["", DIVIDER, "", "Please confirm my order and let me know the next steps. Thank you! 🙏"];
 
 /* ---------------------------------------------------------------
    Generate Custom WhatsApp Message
 --------------------------------------------------------------- */
 export const generateWhatsAppMessage = (
   cartItems: CartItem[],
-  subtotal: number
+  details: WhatsAppOrderDetails = {}
 ): string => {
   if (!cartItems?.length) {
     return `${WHATSAPP_CONFIG.greeting}\n\nI'm interested in your products from *${WHATSAPP_CONFIG.storeName}*.`;
   }
 
-  const messageParts: string[] = [
-    `${WHATSAPP_CONFIG.greeting}`,
-    `I'd like to place an order from *${WHATSAPP_CONFIG.storeName}*:\n`,
-    "━━━━━━━━━━━━━━━━━━━━",
-    "*ORDER DETAILS:*",
-  ];
-
-  cartItems.forEach((item, index) => {
-    const itemTotal = item.price * item.quantity;
-    messageParts.push(
-      `\n${index + 1}. *${item.name}*`,
-      item.variation ? `   Variant: ${item.variation}` : "",
-      `   Qty: ${item.quantity} × ${formatPrice(item.price)}`,
-      `   Subtotal: ${formatPrice(itemTotal)}`
-    );
-  });
-
-  messageParts.push(
-    "\n━━━━━━━━━━━━━━━━━━━━",
-    "*SUMMARY:*",
-    `Total Items: ${cartItems.reduce((sum, item) => sum + item.quantity, 0)}`,
-    `*Grand Total:* ${formatPrice(subtotal)}`,
-    "━━━━━━━━━━━━━━━━━━━━\n",
-    "Please confirm my order and let me know the next steps. Thank you! 🙏"
-  );
-
-  return messageParts.filter(Boolean).join("\n");
+  const { subtotal, total, itemCount } = computeTotals(cartItems, details);
+  const { fulfilment } = details;
+
+  return [
+    ...headerLines(details),
+    ...section(fulfilment?.method === "pickup" ? "PICKUP" : "DELIVERY", [
+      fulfilment && `Method: ${fulfilment.method === "pickup" ? "Pickup" : "Home delivery"}`,
+      fulfilment && `${fulfilment.method === "pickup" ? "Station" : "Address"}: ${fulfilment.location}`,
+      fulfilment?.slot && `Slot: ${fulfilment.slot}`,
+      fulfilment?.eta && `ETA: ${fulfilment.eta}`,
+    ]),
+    ...section("ITEMS", cartItems.map(itemLine)),
+    ...section("TOTALS", [
+      `Items: ${itemCount}`,
+      `Subtotal: ${formatPrice(subtotal)}`,
+      details.deliveryFee !== undefined && `Delivery fee: ${formatPrice(details.deliveryFee)}`,
+      details.deliveryCharges &&
+        details.deliveryCharges.length > 1 &&
+        `Delivery breakdown: ${describeCharges(details.deliveryCharges)}`,
+      ...(details.discounts ?? []).map((d) => `Discount (${d.label}): -${formatPrice(d.amount)}`),
+      `Total: ${formatPrice(total)}`,
+    ]),
+    ...section("PAYMENT", [details.payment && `Method: ${details.payment}`]),
+    ...section("PRESCRIPTIONS", (details.prescriptions ?? []).map((ref) => `- ${ref}`)),
+    ...section("NOTES", [details.notes?.trim()]),
+    ...FOOTER,
+  ].join("\n");
+};
+
+/**
+ * Fallback for orders too long for a wa.me link: keeps the reference,
+ * customer and totals, and points to the full order instead of listing it.
+ */
+export const generateWhatsAppSummary = (
+  cartItems: CartItem[],
+  details: WhatsAppOrderDetails = {}
+): string => {
+  const { total, itemCount } = computeTotals(cartItems, details);
+
+  return [
+    ...headerLines(details),
+    ...section("SUMMARY", [
+      details.fulfilment &&
+        `${details.fulfilment.method === "pickup" ? "Pickup" : "Delivery"}: ${details.fulfilment.location}`,
+      `Items: ${itemCount} (${cartItems.length} products)`,
+      `Total: ${formatPrice(total)}`,
+      details.payment && `Payment: ${details.payment}`,
+      !!details.prescriptions?.length && `Prescriptions: ${details.prescriptions.length} attached`,
+      details.lookupUrl
+        ? `Full order: ${details.lookupUrl}`
+        : "Full item list is too long for WhatsApp — please reply and I'll send it.",
+    ]),
+    ...FOOTER,
+  ].join("\n");
+};
+
+/** Full message if its link fits WhatsApp's limit, otherwise the summary. */
+export const buildWhatsAppOrderMessage = (
+  cartItems: CartItem[],
+  details: WhatsAppOrderDetails = {}
+): { message: string; shortened: boolean } => {
+  const full = generateWhatsAppMessage(cartItems, details);
+  if (whatsappUrl(full, WHATSAPP_CONFIG.phoneNumber).length <= WHATSAPP_CONFIG.maxUrlLength) {
+    return { message: full, shortened: false };
+  }
+  return { message: generateWhatsAppSummary(cartItems, details), shortened: true };
 };
 
 /* ---------------------------------------------------------------
-   Open WhatsApp With Pre-Filled Message
+   Placed checkout order → message details
 --------------------------------------------------------------- */
-export const openWhatsAppOrder = (message: string): void => {
-  const encodedMessage = encodeURIComponent(message.trim());
 
-  // ✅ Updated URL: wa.me works on both mobile & desktop
-  const whatsappUrl = `https://wa.me/${WHATSAPP_CONFIG.phoneNumber}?text=${encodedMessage}`;
+/** The order's status page (/order/status/:orderNumber), which opens without signing in, as a full link for the chat. */
+const orderLookupUrl = (orderNumber: string): string | undefined =>
+  typeof window === "undefined"
+    ? undefined
+    : `${window.location.origin}/order/status/${encodeURIComponent(orderNumber)}`;
 
-  // ✅ Open in a new tab safely
-  window.open(whatsappUrl, "_blank", "noopener,noreferrer");
+export const orderToWhatsAppDetails = (order: Order): WhatsAppOrderDetails => ({
+  reference: order.orderNumber,
+  customer: { name: order.contact.fullName, phone: order.contact.phone },
+  fulfilment: {
+    method: order.fulfilment.method,
+    location: describeFulfilment(order.fulfilment),
+    slot: order.slot.label,
+    ...(order.deliveryWindow && { eta: formatWindow(order.deliveryWindow) }),
+  },
+  deliveryFee: order.deliveryFee,
+  deliveryCharges: order.deliveryCharges,
+  discounts: order.discounts,
+  payment: order.paidAt
+    ? `${getPaymentLabel(order.payment)} (paid${order.paymentReceipt ? `, ${order.paymentReceipt}` : ""})`
+    : getPaymentLabel(order.payment),
+  prescriptions: getPrescriptionReferences(order.items),
+  notes: order.notes,
+  lookupUrl: orderLookupUrl(order.orderNumber),
+});
+
+/* ---------------------------------------------------------------
+   Open WhatsApp With Pre-Filled Message
+--------------------------------------------------------------- */
+export const openWhatsAppOrder = (message: string): void => {
+  // ✅ wa.me works on both mobile & desktop; open in a new tab safely
+  window.open(whatsappUrl(message.trim(), WHATSAPP_CONFIG.phoneNumber), "_blank", "noopener,noreferrer");
 };
 
 /* ---------------------------------------------------------------
@@ -87,7 +218,7 @@ export const isValidWhatsAppNumber = (phone: string): boolean =>
 --------------------------------------------------------------- */
 export const handleWhatsAppOrder = (
   cartItems: CartItem[],
-  subtotal: number
+  details: WhatsAppOrderDetails = {}
 ): boolean => {
   if (!isValidWhatsAppNumber(WHATSAPP_CONFIG.phoneNumber)) {
     console.error("❌ Invalid WhatsApp number in configuration");
@@ -95,7 +226,7 @@ export const handleWhatsAppOrder = (
   }
 
   try {
-    const message = generateWhatsAppMessage(cartItems, subtotal);
+    const { message } = buildWhatsAppOrderMessage(cartItems, details);
     openWhatsAppOrder(message);
     return true;
   } catch (err) {